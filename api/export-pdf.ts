@@ -1,7 +1,16 @@
 import chromium from '@sparticuz/chromium';
 import { PDFDocument } from 'pdf-lib';
 import puppeteer, { type Page } from 'puppeteer-core';
-import type { ServerPDFExportPayload } from '../src/utils/types/exportTypes';
+import type {
+  ServerPDFExportPayload,
+  ServerPDFFrontMatter,
+  ServerPDFGeneratedPage,
+  ServerPDFPaperDimensions,
+  ServerPDFPaperSize,
+} from '../src/utils/types/exportTypes';
+import type { PrintLayoutOptions } from '../src/utils/pageSize';
+import type { HeaderLayout, LogoPlacement } from '../src/utils/headerLayout';
+import type { PageNumberFormat } from '../src/utils/pageFooter';
 
 export const config = {
   runtime: 'nodejs',
@@ -49,6 +58,34 @@ const DEFAULT_VIEWPORT = {
   height: 2400,
   deviceScaleFactor: 1,
 };
+// Mirrors the fixed page sizes in src/utils/pageSize.ts
+const FIXED_PAPER_SIZES: ServerPDFPaperSize[] = [
+  'letter-portrait',
+  'letter-landscape',
+  'legal-portrait',
+  'legal-landscape',
+  'tabloid-portrait',
+  'tabloid-landscape',
+  'a4-portrait',
+  'a4-landscape',
+  'a3-portrait',
+  'a3-landscape',
+  'slide-16x9',
+  'slide-16x9-compact',
+  'custom',
+];
+// Payloads from before paperDimensions only used Letter
+const LEGACY_LETTER_PAPER_SIZES: ServerPDFPaperSize[] = ['letter', 'letter-portrait', 'letter-landscape'];
+// Mirror the print settings in src/utils/pageSize.ts
+const PRINT_MARGIN_MAX_INCHES = 1;
+const PRINT_BLEED_MAX_INCHES = 0.5;
+const PRINT_MARK_SLUG_INCHES = 0.5;
+// Mirror the header options in src/utils/headerLayout.ts
+const HEADER_LAYOUTS: HeaderLayout[] = ['split', 'stacked', 'centered'];
+const LOGO_PLACEMENTS: LogoPlacement[] = ['left', 'center', 'right'];
+// Mirrors src/utils/pageFooter.ts
+const PAGE_NUMBER_FORMATS: PageNumberFormat[] = ['page', 'number', 'fraction', 'pageOf'];
+const POINTS_PER_INCH = 72;
 const DEFAULT_SHOT_TEXT_FONT_SIZE = 12;
 const SHOT_TEXT_FONT_SIZE_MIN = 8;
 const SHOT_TEXT_FONT_SIZE_MAX = 18;
@@ -250,6 +287,104 @@ function validateImageSource(image: unknown): boolean {
   return false;
 }
 
+function validateSceneHeaders(value: unknown): boolean {
+  return Array.isArray(value) && value.every((header) => (
+    isRecord(header) &&
+    isString(header.shotId) &&
+    isString(header.label) &&
+    isString(header.name) &&
+    isBoolean(header.continued)
+  ));
+}
+
+// Shape check only; the render page validates stroke values before drawing
+function validateSketch(value: unknown): boolean {
+  return Array.isArray(value) && value.every((stroke) => (
+    isRecord(stroke) &&
+    isString(stroke.id) &&
+    isString(stroke.tool) &&
+    isString(stroke.color) &&
+    isNumber(stroke.size) &&
+    Array.isArray(stroke.points) &&
+    stroke.points.every(isNumber)
+  ));
+}
+
+// Shape check only; the render page validates annotation values before drawing
+function validateAnnotations(value: unknown): boolean {
+  return Array.isArray(value) && value.every((annotation) => (
+    isRecord(annotation) &&
+    isString(annotation.id) &&
+    isString(annotation.kind) &&
+    isString(annotation.color) &&
+    isNumber(annotation.x1) &&
+    isNumber(annotation.y1) &&
+    isNumber(annotation.x2) &&
+    isNumber(annotation.y2) &&
+    (typeof annotation.text === 'undefined' || isString(annotation.text))
+  ));
+}
+
+function validateCustomFields(value: unknown): boolean {
+  return Array.isArray(value) && value.every((field) => (
+    isRecord(field) &&
+    isString(field.id) &&
+    isString(field.name) &&
+    isBoolean(field.visible)
+  ));
+}
+
+function validateHeaderFields(value: unknown): boolean {
+  return Array.isArray(value) && value.every((field) => (
+    isRecord(field) &&
+    isString(field.id) &&
+    isString(field.label) &&
+    isString(field.value) &&
+    isBoolean(field.visible)
+  ));
+}
+
+function validatePageFooter(value: unknown): boolean {
+  return isRecord(value) && isString(value.text) && isString(value.date) && isString(value.revision);
+}
+
+function validateCustomFieldValues(value: unknown): boolean {
+  return isRecord(value) && Object.values(value).every(isString);
+}
+
+function validatePaperDimensions(value: unknown): value is ServerPDFPaperDimensions {
+  return isRecord(value) && isPositiveNumber(value.widthInches) && isPositiveNumber(value.heightInches);
+}
+
+function validatePrintLayout(value: unknown): value is PrintLayoutOptions {
+  return (
+    isRecord(value) &&
+    isNumber(value.marginInches) &&
+    value.marginInches >= 0 &&
+    value.marginInches <= PRINT_MARGIN_MAX_INCHES &&
+    isNumber(value.bleedInches) &&
+    value.bleedInches >= 0 &&
+    value.bleedInches <= PRINT_BLEED_MAX_INCHES &&
+    isBoolean(value.cropMarks) &&
+    isBoolean(value.registrationMarks)
+  );
+}
+
+function validateFrontMatter(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isBoolean(value.cover) &&
+    isString(value.date) &&
+    Array.isArray(value.contents) &&
+    value.contents.every((sheet) => Array.isArray(sheet) && sheet.every((entry) => (
+      isRecord(entry) &&
+      isString(entry.name) &&
+      isPositiveInteger(entry.pageNumber) &&
+      isString(entry.shotRange)
+    )))
+  );
+}
+
 function validatePageContent(page: unknown): page is ServerPDFExportPayload['page'] {
   if (
     !isRecord(page) ||
@@ -259,7 +394,8 @@ function validatePageContent(page: unknown): page is ServerPDFExportPayload['pag
     !isPositiveInteger(page.gridRows) ||
     !isPositiveInteger(page.gridCols) ||
     !isAspectRatio(page.aspectRatio) ||
-    !Array.isArray(page.shots)
+    !Array.isArray(page.shots) ||
+    !(typeof page.sceneHeaders === 'undefined' || validateSceneHeaders(page.sceneHeaders))
   ) {
     return false;
   }
@@ -272,10 +408,18 @@ function validatePageContent(page: unknown): page is ServerPDFExportPayload['pag
       isString(shot.number) &&
       isString(shot.actionText) &&
       isString(shot.scriptText) &&
+      (typeof shot.camera === 'undefined' || isRecord(shot.camera)) &&
+      (typeof shot.reviewStatus === 'undefined' || isString(shot.reviewStatus)) &&
       (shot.image === null || validateImageSource(shot.image)) &&
       isPositiveNumber(shot.imageScale) &&
       isNumber(shot.imageOffsetX) &&
-      isNumber(shot.imageOffsetY)
+      isNumber(shot.imageOffsetY) &&
+      isNumber(shot.imageRotation) &&
+      isBoolean(shot.imageFlipX) &&
+      isBoolean(shot.imageFlipY) &&
+      (typeof shot.sketch === 'undefined' || validateSketch(shot.sketch)) &&
+      (typeof shot.annotations === 'undefined' || validateAnnotations(shot.annotations)) &&
+      (typeof shot.customFieldValues === 'undefined' || validateCustomFieldValues(shot.customFieldValues))
     );
   });
 }
@@ -287,11 +431,18 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
   if (
     input.paperSize !== 'letter' &&
     input.paperSize !== 'canvas' &&
-    input.paperSize !== 'letter-portrait' &&
-    input.paperSize !== 'letter-landscape'
+    !FIXED_PAPER_SIZES.includes(input.paperSize as ServerPDFPaperSize)
   ) {
     return false;
   }
+  if (typeof input.paperDimensions === 'undefined') {
+    if (input.paperSize !== 'canvas' && !LEGACY_LETTER_PAPER_SIZES.includes(input.paperSize as ServerPDFPaperSize)) return false;
+  } else if (!validatePaperDimensions(input.paperDimensions)) {
+    return false;
+  }
+  if (typeof input.print !== 'undefined' && (!input.paperDimensions || !validatePrintLayout(input.print))) {
+    return false;
+  }
 
   const template = input.template;
   if (
@@ -303,7 +454,15 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
     !isBoolean(template.showJobInfo) ||
     !isBoolean(template.showActionText) ||
     !isBoolean(template.showScriptText) ||
-    !isBoolean(template.showPageNumber)
+    !(typeof template.showCameraDetails === 'undefined' || isBoolean(template.showCameraDetails)) ||
+    !(typeof template.showReviewStatus === 'undefined' || isBoolean(template.showReviewStatus)) ||
+    !(typeof template.showOmittedShots === 'undefined' || isBoolean(template.showOmittedShots)) ||
+    !isBoolean(template.showPageNumber) ||
+    !(typeof template.customFields === 'undefined' || validateCustomFields(template.customFields)) ||
+    !(typeof template.headerLayout === 'undefined' || HEADER_LAYOUTS.includes(template.headerLayout as HeaderLayout)) ||
+    !(typeof template.logoPlacement === 'undefined' || LOGO_PLACEMENTS.includes(template.logoPlacement as LogoPlacement)) ||
+    !(typeof template.headerFields === 'undefined' || validateHeaderFields(template.headerFields)) ||
+    !(typeof template.pageNumberFormat === 'undefined' || PAGE_NUMBER_FORMATS.includes(template.pageNumberFormat as PageNumberFormat))
   ) {
     return false;
   }
@@ -359,6 +518,18 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
     return false;
   }
 
+  if (typeof input.frontMatter !== 'undefined' && !validateFrontMatter(input.frontMatter)) {
+    return false;
+  }
+
+  if (typeof input.footer !== 'undefined' && !validatePageFooter(input.footer)) {
+    return false;
+  }
+
+  if (typeof input.pageCount !== 'undefined' && !isPositiveInteger(input.pageCount)) {
+    return false;
+  }
+
   if (typeof input.pages === 'undefined') {
     return true;
   }
@@ -440,7 +611,35 @@ function getInternalNavigationHeaders(req: VercelRequest): Record<string, string
   return forwardedHeaders;
 }
 
-function buildPdfOptions(runtime: ExportRuntimeMeta) {
+type PrintSheet = {
+  widthInches: number;
+  heightInches: number;
+  bleedInsetInches: number;
+  trimInsetInches: number;
+  trimWidthInches: number;
+  trimHeightInches: number;
+};
+
+// Same sheet as getPrintSheetLayout: trim size plus bleed, plus a slug when there are marks
+function getPrintSheet(payload: ServerPDFExportPayload): PrintSheet | null {
+  if (!payload.print || !payload.paperDimensions) {
+    return null;
+  }
+
+  const { widthInches, heightInches } = payload.paperDimensions;
+  const slug = payload.print.cropMarks || payload.print.registrationMarks ? PRINT_MARK_SLUG_INCHES : 0;
+  const trimInset = slug + payload.print.bleedInches;
+  return {
+    widthInches: widthInches + trimInset * 2,
+    heightInches: heightInches + trimInset * 2,
+    bleedInsetInches: slug,
+    trimInsetInches: trimInset,
+    trimWidthInches: widthInches,
+    trimHeightInches: heightInches,
+  };
+}
+
+function buildPdfOptions(runtime: ExportRuntimeMeta, sheetDimensions?: ServerPDFPaperDimensions) {
   const margin = {
     top: '0px',
     right: '0px',
@@ -463,6 +662,17 @@ function buildPdfOptions(runtime: ExportRuntimeMeta) {
     };
   }
 
+  if (sheetDimensions) {
+    return {
+      printBackground: true,
+      preferCSSPageSize: false,
+      width: `${sheetDimensions.widthInches}in`,
+      height: `${sheetDimensions.heightInches}in`,
+      margin,
+      pageRanges: '1',
+    };
+  }
+
   const isLandscape = runtime.paperSize === 'letter-landscape' || runtime.paperSize === 'letter';
 
   return {
@@ -477,15 +687,29 @@ function buildPdfOptions(runtime: ExportRuntimeMeta) {
 
 function buildRenderPayload(
   payload: ServerPDFExportPayload,
-  page: ServerPDFExportPayload['page']
+  page: ServerPDFExportPayload['page'],
+  generatedPage?: ServerPDFGeneratedPage
 ): ServerPDFExportPayload {
   const { pages: _pages, ...sharedPayload } = payload;
   return {
     ...sharedPayload,
     page,
+    ...(generatedPage ? { generatedPage } : {}),
   };
 }
 
+// Cover first, then one page per contents sheet; matches getGeneratedPages on the client
+function getGeneratedPages(frontMatter: ServerPDFFrontMatter | undefined): ServerPDFGeneratedPage[] {
+  if (!frontMatter) {
+    return [];
+  }
+
+  return [
+    ...(frontMatter.cover ? [{ kind: 'cover' as const }] : []),
+    ...frontMatter.contents.map((_, sheetIndex) => ({ kind: 'contents' as const, sheetIndex })),
+  ];
+}
+
 function summarizePayloadImageSources(payload: ServerPDFExportPayload) {
   const pages = payload.pages && payload.pages.length > 0 ? payload.pages : [payload.page];
 
@@ -510,12 +734,12 @@ function summarizePayloadImageSources(payload: ServerPDFExportPayload) {
   );
 }
 
-async function mergePdfBuffers(pdfBuffers: Buffer[]): Promise<Buffer> {
+async function mergePdfBuffers(pdfBuffers: Buffer[], printSheet: PrintSheet | null): Promise<Buffer> {
   if (pdfBuffers.length === 0) {
     throw new Error('No rendered PDF pages were available to merge.');
   }
 
-  if (pdfBuffers.length === 1) {
+  if (pdfBuffers.length === 1 && !printSheet) {
     return pdfBuffers[0];
   }
 
@@ -525,6 +749,16 @@ async function mergePdfBuffers(pdfBuffers: Buffer[]): Promise<Buffer> {
     const sourcePdf = await PDFDocument.load(pdfBuffer);
     const copiedPages = await mergedPdf.copyPages(sourcePdf, sourcePdf.getPageIndices());
     for (const copiedPage of copiedPages) {
+      if (printSheet) {
+        // Boxes let print shops' imposition tools find the trim and bleed
+        const bleedInset = printSheet.bleedInsetInches * POINTS_PER_INCH;
+        const trimInset = printSheet.trimInsetInches * POINTS_PER_INCH;
+        const bleedGrowth = (printSheet.trimInsetInches - printSheet.bleedInsetInches) * 2 * POINTS_PER_INCH;
+        const trimWidth = printSheet.trimWidthInches * POINTS_PER_INCH;
+        const trimHeight = printSheet.trimHeightInches * POINTS_PER_INCH;
+        copiedPage.setTrimBox(trimInset, trimInset, trimWidth, trimHeight);
+        copiedPage.setBleedBox(bleedInset, bleedInset, trimWidth + bleedGrowth, trimHeight + bleedGrowth);
+      }
       mergedPdf.addPage(copiedPage);
     }
   }
@@ -602,7 +836,13 @@ async function renderSinglePagePdf({
     mark('final_paint_end');
 
     mark('pdf_start');
-    const pdfBytes = await page.pdf(buildPdfOptions(runtime));
+    const printSheet = getPrintSheet(payload);
+    const pdfBytes = await page.pdf(buildPdfOptions(
+      runtime,
+      printSheet
+        ? { widthInches: printSheet.widthInches, heightInches: printSheet.heightInches }
+        : payload.paperDimensions
+    ));
     mark('pdf_end');
 
     return Buffer.from(pdfBytes);
@@ -690,6 +930,19 @@ export default async function handler(
       payload.pages && payload.pages.length > 0 ? payload.pages : [payload.page];
     const renderedPdfBuffers: Buffer[] = [];
 
+    // Generated pages borrow the first page's layout so they match its paper size
+    for (const generatedPage of getGeneratedPages(payload.frontMatter)) {
+      const renderPayload = buildRenderPayload(payload, pagesToRender[0], generatedPage);
+      const pdfBuffer = await renderSinglePagePdf({
+        browser,
+        req,
+        renderUrl,
+        payload: renderPayload,
+        mark,
+      });
+      renderedPdfBuffers.push(pdfBuffer);
+    }
+
     for (const exportPage of pagesToRender) {
       const renderPayload = buildRenderPayload(payload, exportPage);
       const pdfBuffer = await renderSinglePagePdf({
@@ -702,7 +955,7 @@ export default async function handler(
       renderedPdfBuffers.push(pdfBuffer);
     }
 
-    const pdfBuffer = await mergePdfBuffers(renderedPdfBuffers);
+    const pdfBuffer = await mergePdfBuffers(renderedPdfBuffers, getPrintSheet(payload));
     const filename = sanitizeFilename(payload.filename);
 
     res.setHeader('Content-Type', 'application/pdf');
@@ -0,0 +1,352 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import { useAppStore } from '@/store';
+import { ShotImageRenderer } from './ShotImageRenderer';
+import { ShotRichText } from './shot-card/ShotRichText';
+import { hasSketch } from '@/utils/sketch';
+import { hasAnnotations } from '@/utils/annotations';
+import { getGlassmorphismStyles, getColor } from '@/styles/glassmorphism-styles';
+import { cn } from '@/lib/utils';
+import { formatCameraDetails, MAX_SHOT_DURATION_SECONDS, normalizeShotDuration } from '@/utils/cameraDetails';
+import {
+  buildAnimaticTimeline,
+  findAnimaticFrameIndex,
+  formatRunningTime,
+} from '@/utils/animatic';
+
+interface AnimaticPlayerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface StageSize {
+  width: number;
+  height: number;
+}
+
+const parseAspectRatio = (aspectRatio: string): number => {
+  const [w, h] = aspectRatio.split('/').map((part) => parseFloat(part.trim()));
+  return w > 0 && h > 0 ? w / h : 16 / 9;
+};
+
+// Largest box with the page's aspect ratio that fits the stage
+const fitToStage = (stage: StageSize, aspectRatio: string): StageSize => {
+  const ratio = parseAspectRatio(aspectRatio);
+  const width = Math.min(stage.width, stage.height * ratio);
+  return {
+    width: Math.max(1, Math.floor(width)),
+    height: Math.max(1, Math.floor(width / ratio)),
+  };
+};
+
+export const AnimaticPlayer: React.FC<AnimaticPlayerProps> = ({ isOpen, onClose }) => {
+  const { pages, shots, shotOrder, updateShot } = useAppStore();
+  const timeline = useMemo(
+    () => buildAnimaticTimeline(pages, shots, shotOrder),
+    [pages, shots, shotOrder]
+  );
+
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [stageSize, setStageSize] = useState<StageSize>({ width: 0, height: 0 });
+  const stageObserverRef = useRef<ResizeObserver | null>(null);
+
+  // Start from the top, paused, each time the player opens
+  useEffect(() => {
+    if (isOpen) {
+      setPlayhead(0);
+      setIsPlaying(false);
+    }
+  }, [isOpen]);
+
+  // Keep the playhead valid when durations are edited mid-review
+  useEffect(() => {
+    setPlayhead((current) => Math.min(current, timeline.totalDuration));
+  }, [timeline.totalDuration]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId = 0;
+    let lastTimestamp: number | null = null;
+
+    const tick = (timestamp: number) => {
+      const elapsed = lastTimestamp === null ? 0 : (timestamp - lastTimestamp) / 1000;
+      lastTimestamp = timestamp;
+
+      setPlayhead((current) => Math.min(current + elapsed, timeline.totalDuration));
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, timeline.totalDuration]);
+
+  useEffect(() => {
+    if (isPlaying && playhead >= timeline.totalDuration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, playhead, timeline.totalDuration]);
+
+  // Callback ref: the stage mounts inside the dialog portal after open
+  const stageRef = useCallback((node: HTMLDivElement | null) => {
+    stageObserverRef.current?.disconnect();
+    stageObserverRef.current = null;
+    if (!node) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setStageSize({ width, height });
+    });
+    observer.observe(node);
+    stageObserverRef.current = observer;
+  }, []);
+
+  const currentIndex = findAnimaticFrameIndex(timeline.frames, playhead);
+  const currentFrame = currentIndex >= 0 ? timeline.frames[currentIndex] : null;
+  const currentShot = currentFrame ? shots[currentFrame.shotId] : null;
+  const currentPage = currentFrame && currentFrame.pageIndex >= 0 ? pages[currentFrame.pageIndex] : null;
+  const imageSize = fitToStage(stageSize, currentPage?.aspectRatio || '16/9');
+  const cameraDetails = currentShot ? formatCameraDetails(currentShot) : '';
+
+  const seekToFrame = useCallback((index: number) => {
+    const frame = timeline.frames[Math.max(0, Math.min(index, timeline.frames.length - 1))];
+    if (frame) {
+      setPlayhead(frame.startTime);
+    }
+  }, [timeline.frames]);
+
+  const togglePlayback = useCallback(() => {
+    if (timeline.frames.length === 0) return;
+    if (!isPlaying && playhead >= timeline.totalDuration) {
+      setPlayhead(0);
+    }
+    setIsPlaying((playing) => !playing);
+  }, [isPlaying, playhead, timeline.frames.length, timeline.totalDuration]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (target.closest('input, textarea, [role="slider"]')) return;
+
+    if (event.key === ' ') {
+      event.preventDefault();
+      togglePlayback();
+    } else if (event.key === 'ArrowRight') {
+      event.preventDefault();
+      seekToFrame(currentIndex + 1);
+    } else if (event.key === 'ArrowLeft') {
+      event.preventDefault();
+      // Like most players: jump to the start of the shot first, then to the previous one
+      const isNearShotStart = currentFrame && playhead - currentFrame.startTime < 0.5;
+      seekToFrame(isNearShotStart ? currentIndex - 1 : currentIndex);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        className="max-w-none w-screen h-screen sm:rounded-none p-4 flex flex-col gap-3"
+        style={getGlassmorphismStyles('dark')}
+        onKeyDown={handleKeyDown}
+      >
+        <DialogHeader>
+          <DialogTitle style={{ color: getColor('text', 'primary') as string }}>
+            Animatic
+          </DialogTitle>
+          <DialogDescription style={{ color: getColor('text', 'secondary') as string }}>
+            {timeline.frames.length} shots • Total running time {formatRunningTime(timeline.totalDuration)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-1 min-h-0 gap-4">
+          {/* Stage */}
+          <div className="flex flex-1 min-w-0 flex-col gap-3">
+            <div ref={stageRef} className="flex flex-1 min-h-0 items-center justify-center">
+              {currentShot ? (
+                <div
+                  className="relative flex items-center justify-center"
+                  style={{
+                    width: `${imageSize.width}px`,
+                    height: `${imageSize.height}px`,
+                    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+                  }}
+                >
+                  <ShotImageRenderer
+                    key={currentShot.id}
+                    shot={currentShot}
+                    containerWidth={imageSize.width}
+                    containerHeight={imageSize.height}
+                  />
+                  {!currentShot.imageData && !currentShot.imageUrl && !hasSketch(currentShot) && !hasAnnotations(currentShot) && (
+                    <span className="text-sm" style={{ color: getColor('text', 'muted') as string }}>
+                      No image
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <p style={{ color: getColor('text', 'secondary') as string }}>
+                  Add shots to play an animatic.
+                </p>
+              )}
+            </div>
+
+            {currentShot && currentFrame && (
+              <div className="flex flex-col gap-1 text-sm" style={{ color: getColor('text', 'primary') as string }}>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold">Shot {currentShot.number}</span>
+                  {currentFrame.subShotCount > 1 && (
+                    <span className="text-xs" style={{ color: getColor('text', 'secondary') as string }}>
+                      Sub-shot {currentFrame.subShotIndex + 1} of {currentFrame.subShotCount}
+                    </span>
+                  )}
+                  {cameraDetails && (
+                    <span className="text-xs" style={{ color: getColor('text', 'secondary') as string }}>
+                      {cameraDetails}
+                    </span>
+                  )}
+                </div>
+                {currentShot.actionText && <div><ShotRichText text={currentShot.actionText} /></div>}
+                {currentShot.scriptText && (
+                  <div style={{ color: getColor('text', 'secondary') as string }}>
+                    <ShotRichText text={currentShot.scriptText} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Transport */}
+            <div className="flex items-center gap-3">
+              <Button
+                size="icon"
+                className="h-8 w-8"
+                style={getGlassmorphismStyles('button')}
+                onClick={() => seekToFrame(currentIndex - 1)}
+                disabled={currentIndex <= 0}
+                aria-label="Previous shot"
+              >
+                <SkipBack size={16} />
+              </Button>
+              <Button
+                size="icon"
+                className="h-8 w-8"
+                style={getGlassmorphismStyles('buttonSecondary')}
+                onClick={togglePlayback}
+                disabled={timeline.frames.length === 0}
+                aria-label={isPlaying ? 'Pause' : 'Play'}
+              >
+                {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+              </Button>
+              <Button
+                size="icon"
+                className="h-8 w-8"
+                style={getGlassmorphismStyles('button')}
+                onClick={() => seekToFrame(currentIndex + 1)}
+                disabled={currentIndex < 0 || currentIndex >= timeline.frames.length - 1}
+                aria-label="Next shot"
+              >
+                <SkipForward size={16} />
+              </Button>
+              <Slider
+                value={[playhead]}
+                onValueChange={([value]) => setPlayhead(value)}
+                min={0}
+                max={Math.max(timeline.totalDuration, 0.1)}
+                step={0.1}
+                disabled={timeline.frames.length === 0}
+                className="flex-1"
+                aria-label="Scrub animatic"
+              />
+              <span
+                className="text-xs font-mono tabular-nums whitespace-nowrap"
+                style={{ color: getColor('text', 'secondary') as string }}
+              >
+                {formatRunningTime(playhead)} / {formatRunningTime(timeline.totalDuration)}
+              </span>
+            </div>
+          </div>
+
+          {/* Pacing sidebar */}
+          <div className="w-64 shrink-0 flex flex-col gap-4 overflow-y-auto">
+            {currentShot && currentFrame && (
+              <div className="space-y-2">
+                <Label
+                  htmlFor="animatic-shot-duration"
+                  className="text-sm font-medium"
+                  style={{ color: getColor('text', 'primary') as string }}
+                >
+                  Shot {currentShot.number} duration (s)
+                </Label>
+                <Input
+                  id="animatic-shot-duration"
+                  type="number"
+                  min={0}
+                  max={MAX_SHOT_DURATION_SECONDS}
+                  step={0.5}
+                  placeholder={String(currentFrame.duration)}
+                  value={currentShot.duration ?? ''}
+                  onChange={(e) => updateShot(currentShot.id, { duration: normalizeShotDuration(e.target.value) })}
+                  style={{
+                    backgroundColor: getColor('input', 'background') as string,
+                    border: `1px solid ${getColor('input', 'border') as string}`,
+                    color: getColor('text', 'primary') as string
+                  }}
+                />
+                {!currentFrame.hasExplicitDuration && (
+                  <p className="text-xs" style={{ color: getColor('text', 'muted') as string }}>
+                    Using the default {currentFrame.duration}s hold
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="font-medium text-sm" style={{ color: getColor('text', 'primary') as string }}>
+                Page Breakdown
+              </h3>
+              {timeline.pages.map((summary) => {
+                const isCurrentPage = summary.pageIndex === currentFrame?.pageIndex;
+                const share = timeline.totalDuration > 0 ? summary.duration / timeline.totalDuration : 0;
+                return (
+                  <button
+                    key={summary.pageId}
+                    type="button"
+                    onClick={() => setPlayhead(summary.startTime)}
+                    className={cn('w-full rounded p-2 text-left text-xs space-y-1', isCurrentPage && 'ring-1')}
+                    style={getGlassmorphismStyles('background')}
+                  >
+                    <div className="flex justify-between gap-2">
+                      <span className="truncate" style={{ color: getColor('text', 'primary') as string }}>
+                        {summary.pageName}
+                      </span>
+                      <span className="font-mono" style={{ color: getColor('text', 'primary') as string }}>
+                        {formatRunningTime(summary.duration)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between" style={{ color: getColor('text', 'secondary') as string }}>
+                      <span>{summary.shotCount} {summary.shotCount === 1 ? 'shot' : 'shots'}</span>
+                      <span>{Math.round(share * 100)}%</span>
+                    </div>
+                    <div className="h-1 w-full rounded-full bg-black/20">
+                      <div
+                        className="h-1 rounded-full"
+                        style={{
+                          width: `${share * 100}%`,
+                          backgroundColor: getColor('brand', 'primary') as string,
+                        }}
+                      />
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
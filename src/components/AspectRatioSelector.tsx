@@ -64,7 +64,7 @@ export const AspectRatioSelector: React.FC<AspectRatioSelectorProps> = ({ pageId
         </div>
       </TooltipTrigger>
       <TooltipContent>
-        <p>Shot Aspect Ratio</p>
+        <p>Shot Aspect Ratio for This Page</p>
       </TooltipContent>
     </Tooltip>
   );
@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { Check } from 'lucide-react';
+import { useAppStore } from '@/store';
+import { useUIStore } from '@/store/uiStore';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import type { EditorCommandHandlers } from '@/hooks/useEditorShortcuts';
+import { PRESET_THEMES } from '@/styles/storyboardTheme';
+import { requestProjectOpen } from '@/services/projectOpenGate';
+import { isGridLayoutValidForPageSize } from '@/utils/pageSize';
+import { hasSceneShots } from '@/utils/scenes';
+import { getHeaderExtraHeightPx } from '@/utils/headerLayout';
+import { hasFooterDetails } from '@/utils/pageFooter';
+import {
+  EDITOR_COMMANDS,
+  EDITOR_COMMAND_GROUPS,
+  formatKeyCombo,
+  resolveShortcuts,
+} from '@/utils/shortcuts';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pageId: string;
+  handlers: EditorCommandHandlers;
+}
+
+type PaletteView = 'root' | 'grid' | 'theme' | 'project' | 'page';
+
+const PALETTE_VIEWS: Array<{ view: Exclude<PaletteView, 'root'>; label: string; placeholder: string }> = [
+  { view: 'grid', label: 'Change Grid Layout…', placeholder: 'Columns × rows...' },
+  { view: 'theme', label: 'Apply Theme…', placeholder: 'Theme name...' },
+  { view: 'page', label: 'Go to Page…', placeholder: 'Page name...' },
+  { view: 'project', label: 'Switch Project…', placeholder: 'Project name...' },
+];
+
+const MAX_GRID_SIZE = 8;
+
+/**
+ * Ctrl/Cmd+K palette over every editor command, with sub-lists for grid
+ * layouts, themes, pages and projects. Backspace in an empty search goes back
+ * to the command list.
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onOpenChange, pageId, handlers }) => {
+  const {
+    pages,
+    activePageId,
+    setActivePage,
+    updateGridSize,
+    pageSizeMode,
+    customPageSize,
+    templateSettings,
+    shots,
+    storyboardTheme,
+    setStoryboardTheme,
+    allProjects,
+    currentProjectId,
+  } = useAppStore();
+  const shortcutOverrides = useUIStore((state) => state.shortcutOverrides);
+  const shortcuts = resolveShortcuts(shortcutOverrides);
+  const [view, setView] = useState<PaletteView>('root');
+  const [search, setSearch] = useState('');
+  const page = pages.find((candidate) => candidate.id === pageId);
+
+  useEffect(() => {
+    if (!open) {
+      setView('root');
+      setSearch('');
+    }
+  }, [open]);
+
+  const run = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  const openView = (nextView: PaletteView) => {
+    setView(nextView);
+    setSearch('');
+  };
+
+  const gridOptions = page
+    ? Array.from({ length: MAX_GRID_SIZE * MAX_GRID_SIZE }, (_, index) => ({
+      cols: (index % MAX_GRID_SIZE) + 1,
+      rows: Math.floor(index / MAX_GRID_SIZE) + 1,
+    })).filter(({ rows, cols }) =>
+      isGridLayoutValidForPageSize({
+        pageSizeMode,
+        customPageSize,
+        gridRows: rows,
+        gridCols: cols,
+        aspectRatio: page.aspectRatio,
+        showPageNumber: templateSettings.showPageNumber,
+        showReviewStatus: templateSettings.showReviewStatus,
+        showFooterDetails: hasFooterDetails(templateSettings),
+        showSceneHeaders: hasSceneShots(shots),
+        headerExtraHeightPx: getHeaderExtraHeightPx(templateSettings),
+      })
+    )
+    : [];
+
+  const renderCurrentMark = (isCurrent: boolean) => (
+    <Check className={isCurrent ? 'mr-2 h-4 w-4' : 'mr-2 h-4 w-4 opacity-0'} />
+  );
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput
+        value={search}
+        onValueChange={setSearch}
+        placeholder={PALETTE_VIEWS.find((option) => option.view === view)?.placeholder ?? 'Type a command...'}
+        onKeyDown={(event) => {
+          if (event.key === 'Backspace' && !search && view !== 'root') {
+            event.preventDefault();
+            setView('root');
+          }
+        }}
+      />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {view === 'root' && (
+          <>
+            {EDITOR_COMMAND_GROUPS.map((group) => {
+              const commands = EDITOR_COMMANDS.filter(
+                (command) => command.group === group && command.id !== 'palette.open' && handlers[command.id]
+              );
+              if (commands.length === 0) return null;
+              return (
+                <CommandGroup key={group} heading={group}>
+                  {commands.map((command) => (
+                    <CommandItem
+                      key={command.id}
+                      value={`${command.group} ${command.label}`}
+                      onSelect={() => run(handlers[command.id]!)}
+                    >
+                      {command.label}
+                      {shortcuts[command.id][0] && (
+                        <CommandShortcut>{formatKeyCombo(shortcuts[command.id][0])}</CommandShortcut>
+                      )}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+            <CommandGroup heading="Browse">
+              {PALETTE_VIEWS.map((option) => (
+                <CommandItem key={option.view} value={option.label} onSelect={() => openView(option.view)}>
+                  {option.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {view === 'grid' && page && (
+          <CommandGroup heading="Grid layout (columns × rows)">
+            {gridOptions.map(({ rows, cols }) => (
+              <CommandItem
+                key={`${cols}x${rows}`}
+                value={`${cols}x${rows} ${cols} × ${rows}`}
+                onSelect={() => run(() => updateGridSize(page.id, rows, cols))}
+              >
+                {renderCurrentMark(page.gridRows === rows && page.gridCols === cols)}
+                {cols} × {rows}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {view === 'theme' && (
+          <CommandGroup heading="Themes">
+            {Object.values(PRESET_THEMES).map((theme) => (
+              <CommandItem
+                key={theme.id}
+                value={`${theme.name} ${theme.id}`}
+                onSelect={() => run(() => setStoryboardTheme(JSON.parse(JSON.stringify(theme))))}
+              >
+                {renderCurrentMark(storyboardTheme.id === theme.id)}
+                {theme.name}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {view === 'page' && (
+          <CommandGroup heading="Pages">
+            {pages.map((candidate, index) => (
+              <CommandItem
+                key={candidate.id}
+                value={`${index + 1} ${candidate.name} ${candidate.id}`}
+                onSelect={() => run(() => setActivePage(candidate.id))}
+              >
+                {renderCurrentMark(candidate.id === activePageId)}
+                {candidate.name || `Page ${index + 1}`}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {view === 'project' && (
+          <CommandGroup heading="Projects">
+            {allProjects.map((project) => (
+              <CommandItem
+                key={project.id}
+                value={`${project.name} ${project.id}`}
+                disabled={project.id === currentProjectId}
+                onSelect={() => run(() => requestProjectOpen(project.id))}
+              >
+                {renderCurrentMark(project.id === currentProjectId)}
+                {project.name}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+CommandPalette.displayName = 'CommandPalette';
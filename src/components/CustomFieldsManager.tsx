@@ -0,0 +1,159 @@
+import { useId, useState } from 'react';
+import { ArrowDown, ArrowUp, Columns3, Trash2 } from 'lucide-react';
+import { useAppStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { getLayoutToolbarContainerStyles, TOOLBAR_STYLES } from '@/styles/toolbar-styles';
+import {
+  MAX_CUSTOM_FIELDS,
+  MAX_CUSTOM_FIELD_NAME_LENGTH,
+  getCustomFields,
+} from '@/utils/customFields';
+
+interface CustomFieldsManagerProps {
+  disabled?: boolean;
+}
+
+/**
+ * Toolbar popover for project-defined shot fields: add, rename, reorder,
+ * show/hide and remove. Values are typed on each shot card below the script.
+ */
+export const CustomFieldsManager: React.FC<CustomFieldsManagerProps> = ({ disabled = false }) => {
+  const {
+    templateSettings,
+    addCustomField,
+    updateCustomField,
+    moveCustomField,
+    removeCustomField,
+  } = useAppStore();
+  const idPrefix = useId();
+  const [newFieldName, setNewFieldName] = useState('');
+  const fields = getCustomFields(templateSettings);
+  const atLimit = fields.length >= MAX_CUSTOM_FIELDS;
+
+  const handleAddField = () => {
+    const name = newFieldName.trim();
+    if (!name || atLimit) return;
+    addCustomField(name);
+    setNewFieldName('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="compact"
+          disabled={disabled}
+          className="px-2"
+          style={getLayoutToolbarContainerStyles()}
+        >
+          <Columns3 size={16} className={`mr-0.25 ${TOOLBAR_STYLES.iconClasses}`} />
+          Fields{fields.length > 0 ? ` (${fields.length})` : ''}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-3">
+        <div className="flex flex-col gap-3">
+          {fields.length === 0 ? (
+            <p className="text-xs opacity-60">
+              No custom fields yet. Add columns such as VFX notes, Audio/SFX or Wardrobe; every shot gets its own value.
+            </p>
+          ) : (
+            <div className="flex max-h-60 flex-col gap-1 overflow-y-auto">
+              {fields.map((field, index) => (
+                <div key={field.id} className="flex items-center gap-1">
+                  <Switch
+                    checked={field.visible}
+                    onCheckedChange={(visible) => updateCustomField(field.id, { visible })}
+                    aria-label={`Show ${field.name}`}
+                    title={field.visible ? 'Shown on cards and exports' : 'Hidden'}
+                  />
+                  <Input
+                    key={field.name}
+                    defaultValue={field.name}
+                    maxLength={MAX_CUSTOM_FIELD_NAME_LENGTH}
+                    className="ml-1 h-7 text-xs"
+                    aria-label="Field name"
+                    onBlur={(event) => {
+                      const name = event.target.value.trim();
+                      if (!name) {
+                        event.target.value = field.name;
+                      } else if (name !== field.name) {
+                        updateCustomField(field.id, { name });
+                      }
+                    }}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') event.currentTarget.blur();
+                    }}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    disabled={index === 0}
+                    onClick={() => moveCustomField(field.id, -1)}
+                    aria-label={`Move ${field.name} up`}
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    disabled={index === fields.length - 1}
+                    onClick={() => moveCustomField(field.id, 1)}
+                    aria-label={`Move ${field.name} down`}
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => removeCustomField(field.id)}
+                    aria-label={`Remove ${field.name}`}
+                    title="Remove field and its values from every shot"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="flex items-end gap-2">
+            <div className="flex flex-1 flex-col gap-1">
+              <Label htmlFor={`${idPrefix}-new`} className="text-xs">New field</Label>
+              <Input
+                id={`${idPrefix}-new`}
+                value={newFieldName}
+                onChange={(event) => setNewFieldName(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') handleAddField();
+                }}
+                placeholder="VFX notes"
+                maxLength={MAX_CUSTOM_FIELD_NAME_LENGTH}
+                disabled={atLimit}
+                className="h-8 text-xs"
+              />
+            </div>
+            <Button size="sm" className="h-8" onClick={handleAddField} disabled={atLimit || !newFieldName.trim()}>
+              Add Field
+            </Button>
+          </div>
+          {atLimit && (
+            <p className="text-xs opacity-60">Projects can have up to {MAX_CUSTOM_FIELDS} custom fields.</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+CustomFieldsManager.displayName = 'CustomFieldsManager';
@@ -0,0 +1,180 @@
+import { useId, useMemo, useState } from 'react';
+import { CaseSensitive, Regex, Search, WholeWord } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAppStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Toggle } from '@/components/ui/toggle';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useShortcutLabel } from '@/hooks/useEditorShortcuts';
+import { getLayoutToolbarContainerStyles, TOOLBAR_STYLES } from '@/styles/toolbar-styles';
+import {
+  DEFAULT_FIND_REPLACE_OPTIONS,
+  buildFindPattern,
+  findMatches,
+  getFindReplaceSources,
+  type FindReplaceOptions,
+} from '@/utils/findReplace';
+
+interface FindReplacePanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  disabled?: boolean;
+}
+
+const OPTION_TOGGLES: Array<{ key: keyof FindReplaceOptions; label: string; icon: React.ElementType }> = [
+  { key: 'caseSensitive', label: 'Match case', icon: CaseSensitive },
+  { key: 'wholeWord', label: 'Whole word', icon: WholeWord },
+  { key: 'useRegex', label: 'Regular expression ($1 in the replacement inserts a group)', icon: Regex },
+];
+
+// Long lists are trimmed for rendering; Replace All still covers every match
+const MAX_LISTED_MATCHES = 200;
+
+/**
+ * Toolbar popover for board-wide find and replace over shot action/script
+ * text, page names and the header fields. The page owns the open state so the
+ * find.open shortcut and the command palette can open it.
+ */
+export const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ open, onOpenChange, disabled = false }) => {
+  const {
+    shots,
+    shotOrder,
+    pages,
+    projectName,
+    projectInfo,
+    clientAgency,
+    jobInfo,
+    replaceAllText,
+  } = useAppStore();
+  const idPrefix = useId();
+  const shortcutLabel = useShortcutLabel('find.open');
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindReplaceOptions>(DEFAULT_FIND_REPLACE_OPTIONS);
+
+  const { pattern, error } = useMemo(() => buildFindPattern(query, options), [query, options]);
+
+  const matches = useMemo(() => {
+    if (!open || !pattern) return [];
+    const sources = getFindReplaceSources({
+      shots,
+      shotOrder,
+      pages,
+      project: { projectName, projectInfo, clientAgency, jobInfo },
+    });
+    return findMatches(sources, pattern, replacement, options.useRegex);
+  }, [open, pattern, replacement, options.useRegex, shots, shotOrder, pages, projectName, projectInfo, clientAgency, jobInfo]);
+
+  const fieldCount = useMemo(() => new Set(matches.map((match) => match.source.key)).size, [matches]);
+
+  const handleReplaceAll = () => {
+    if (!pattern || matches.length === 0) return;
+    const replacedCount = replaceAllText(query, replacement, options);
+    toast.success(`Replaced ${replacedCount} ${replacedCount === 1 ? 'match' : 'matches'}`);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="compact"
+              disabled={disabled}
+              className="px-2"
+              style={getLayoutToolbarContainerStyles()}
+              aria-label="Find and replace"
+            >
+              <Search size={16} className={TOOLBAR_STYLES.iconClasses} />
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Find &amp; Replace{shortcutLabel ? ` (${shortcutLabel})` : ''}</TooltipContent>
+      </Tooltip>
+      <PopoverContent align="start" className="w-96 p-3">
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor={`${idPrefix}-find`} className="text-xs">Find</Label>
+            <div className="flex items-center gap-1">
+              <Input
+                id={`${idPrefix}-find`}
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+                placeholder="Character name, location..."
+                className="h-8 text-xs"
+                autoFocus
+              />
+              {OPTION_TOGGLES.map(({ key, label, icon: Icon }) => (
+                <Toggle
+                  key={key}
+                  size="sm"
+                  className="h-8 w-8 shrink-0 px-0"
+                  pressed={options[key]}
+                  onPressedChange={(pressed) => setOptions((current) => ({ ...current, [key]: pressed }))}
+                  aria-label={label}
+                  title={label}
+                >
+                  <Icon className="h-4 w-4" />
+                </Toggle>
+              ))}
+            </div>
+            {error && <p className="text-xs text-red-500">{error}</p>}
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <Label htmlFor={`${idPrefix}-replace`} className="text-xs">Replace with</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id={`${idPrefix}-replace`}
+                value={replacement}
+                onChange={(event) => setReplacement(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') handleReplaceAll();
+                }}
+                className="h-8 text-xs"
+              />
+              <Button size="sm" className="h-8 shrink-0" onClick={handleReplaceAll} disabled={matches.length === 0}>
+                Replace All
+              </Button>
+            </div>
+          </div>
+
+          {pattern && (
+            <p className="text-xs opacity-60">
+              {matches.length === 0
+                ? 'No matches'
+                : `${matches.length} ${matches.length === 1 ? 'match' : 'matches'} in ${fieldCount} ${fieldCount === 1 ? 'field' : 'fields'}`}
+            </p>
+          )}
+
+          {matches.length > 0 && (
+            <div className="flex max-h-64 flex-col gap-1 overflow-y-auto">
+              {matches.slice(0, MAX_LISTED_MATCHES).map((match) => (
+                <div key={`${match.source.key}:${match.start}`} className="rounded-sm bg-black/5 px-2 py-1 text-xs">
+                  <div className="font-semibold opacity-70">{match.source.label}</div>
+                  <div className="whitespace-pre-wrap break-words">
+                    {match.before}
+                    <span className="bg-red-500/20 line-through">{match.match}</span>
+                    {match.replacement && <span className="bg-green-500/25">{match.replacement}</span>}
+                    {match.after}
+                  </div>
+                </div>
+              ))}
+              {matches.length > MAX_LISTED_MATCHES && (
+                <p className="text-xs opacity-60">
+                  {matches.length - MAX_LISTED_MATCHES} more not listed
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+FindReplacePanel.displayName = 'FindReplacePanel';
@@ -1,32 +1,44 @@
 import { useAppStore } from '@/store';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { LayoutGrid } from 'lucide-react';
+import { Copy, LayoutGrid } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
-import { buttonVariants } from './ui/button';
+import { Button, buttonVariants } from './ui/button';
 import { cn } from '@/lib/utils';
 import { getLayoutToolbarContainerStyles, TOOLBAR_STYLES } from '@/styles/toolbar-styles';
 import { isGridLayoutValidForPageSize } from '@/utils/pageSize';
+import { hasSceneShots } from '@/utils/scenes';
+import { getHeaderExtraHeightPx } from '@/utils/headerLayout';
+import { hasFooterDetails } from '@/utils/pageFooter';
 
 interface GridSizeSelectorProps {
   pageId: string;
 }
 
 export const GridSizeSelector: React.FC<GridSizeSelectorProps> = ({ pageId }) => {
-  const { pages, updateGridSize, pageSizeMode, templateSettings } = useAppStore();
+  const { pages, updateGridSize, applyPageLayoutToAllPages, pageSizeMode, customPageSize, templateSettings, shots } = useAppStore();
   const page = pages.find(p => p.id === pageId);
 
   if (!page) return null;
 
   const { gridRows, gridCols } = page;
   const isFixedPageMode = pageSizeMode !== 'dynamic';
+  // Pages keep their own layout; offer to share this one while any page differs
+  const hasOtherLayouts = pages.some((other) =>
+    other.gridRows !== gridRows || other.gridCols !== gridCols || other.aspectRatio !== page.aspectRatio
+  );
 
   const isGridOptionValid = (rows: number, cols: number) =>
     isGridLayoutValidForPageSize({
       pageSizeMode,
+      customPageSize,
       gridRows: rows,
       gridCols: cols,
       aspectRatio: page.aspectRatio,
       showPageNumber: templateSettings.showPageNumber,
+      showReviewStatus: templateSettings.showReviewStatus,
+      showFooterDetails: hasFooterDetails(templateSettings),
+      showSceneHeaders: hasSceneShots(shots),
+      headerExtraHeightPx: getHeaderExtraHeightPx(templateSettings),
     });
 
   const handleRowsChange = (value: string) => {
@@ -46,53 +58,74 @@ export const GridSizeSelector: React.FC<GridSizeSelectorProps> = ({ pageId }) =>
   };
 
   return (
-    <Tooltip>
-      <TooltipTrigger asChild>
-        <div
-          className={cn(TOOLBAR_STYLES.containerClasses)}
-          style={getLayoutToolbarContainerStyles()}
-        >
-          <LayoutGrid size={16} className={TOOLBAR_STYLES.iconClasses} />
-          <div className="flex items-center gap-1">
-            <Select value={gridCols.toString()} onValueChange={handleColsChange}>
-              <SelectTrigger className={TOOLBAR_STYLES.layoutSelectTriggerClasses}>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent className={TOOLBAR_STYLES.selectContentClasses}>
-                  {Array.from({ length: 8 }, (_, i) => i + 1).map(num => (
-                  <SelectItem
-                    key={num}
-                    value={num.toString()}
-                    disabled={isFixedPageMode && !isGridOptionValid(gridRows, num)}
-                  >
-                    {num}
-                  </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            <span className={`text-sm ${TOOLBAR_STYLES.mutedTextClasses}`}>×</span>
-            <Select value={gridRows.toString()} onValueChange={handleRowsChange}>
-              <SelectTrigger className={TOOLBAR_STYLES.layoutSelectTriggerClasses}>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent className={TOOLBAR_STYLES.selectContentClasses}>
-                  {Array.from({ length: 8 }, (_, i) => i + 1).map(num => (
-                  <SelectItem
-                    key={num}
-                    value={num.toString()}
-                    disabled={isFixedPageMode && !isGridOptionValid(num, gridCols)}
-                  >
-                    {num}
-                  </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+    <div className="flex items-center gap-1">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div
+            className={cn(TOOLBAR_STYLES.containerClasses)}
+            style={getLayoutToolbarContainerStyles()}
+          >
+            <LayoutGrid size={16} className={TOOLBAR_STYLES.iconClasses} />
+            <div className="flex items-center gap-1">
+              <Select value={gridCols.toString()} onValueChange={handleColsChange}>
+                <SelectTrigger className={TOOLBAR_STYLES.layoutSelectTriggerClasses}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className={TOOLBAR_STYLES.selectContentClasses}>
+                    {Array.from({ length: 8 }, (_, i) => i + 1).map(num => (
+                    <SelectItem
+                      key={num}
+                      value={num.toString()}
+                      disabled={isFixedPageMode && !isGridOptionValid(gridRows, num)}
+                    >
+                      {num}
+                    </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              <span className={`text-sm ${TOOLBAR_STYLES.mutedTextClasses}`}>×</span>
+              <Select value={gridRows.toString()} onValueChange={handleRowsChange}>
+                <SelectTrigger className={TOOLBAR_STYLES.layoutSelectTriggerClasses}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className={TOOLBAR_STYLES.selectContentClasses}>
+                    {Array.from({ length: 8 }, (_, i) => i + 1).map(num => (
+                    <SelectItem
+                      key={num}
+                      value={num.toString()}
+                      disabled={isFixedPageMode && !isGridOptionValid(num, gridCols)}
+                    >
+                      {num}
+                    </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+            </div>
           </div>
-        </div>
-      </TooltipTrigger>
-      <TooltipContent>
-        <p>Grid Layout</p>
-      </TooltipContent>
-    </Tooltip>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Grid Layout for This Page</p>
+        </TooltipContent>
+      </Tooltip>
+      {hasOtherLayouts && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="outline"
+              size="compact"
+              className="px-2"
+              style={getLayoutToolbarContainerStyles()}
+              onClick={() => applyPageLayoutToAllPages(pageId)}
+              aria-label="Use this layout on all pages"
+            >
+              <Copy size={14} className={TOOLBAR_STYLES.iconClasses} />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Use this page's grid and aspect ratio on all pages</p>
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
   );
 };
@@ -0,0 +1,258 @@
+import { useId, useState } from 'react';
+import { AlignCenter, AlignLeft, AlignRight, ArrowDown, ArrowUp, PanelTop, Trash2 } from 'lucide-react';
+import { useAppStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { getLayoutToolbarContainerStyles, TOOLBAR_STYLES } from '@/styles/toolbar-styles';
+import {
+  HEADER_FIELD_PRESETS,
+  HEADER_LAYOUT_OPTIONS,
+  LOGO_PLACEMENT_OPTIONS,
+  MAX_HEADER_FIELDS,
+  MAX_HEADER_FIELD_LABEL_LENGTH,
+  MAX_HEADER_FIELD_VALUE_LENGTH,
+  getHeaderFields,
+  getHeaderLayout,
+  getLogoPlacement,
+  isHeaderLayout,
+  type LogoPlacement,
+} from '@/utils/headerLayout';
+
+interface HeaderSettingsManagerProps {
+  disabled?: boolean;
+}
+
+const LOGO_PLACEMENT_ICONS: Record<LogoPlacement, typeof AlignLeft> = {
+  left: AlignLeft,
+  center: AlignCenter,
+  right: AlignRight,
+};
+
+/**
+ * Toolbar popover for the page header: layout, logo placement and labeled
+ * header fields such as Director or Draft #. Field values are typed here and
+ * shown on every page below the project title.
+ */
+export const HeaderSettingsManager: React.FC<HeaderSettingsManagerProps> = ({ disabled = false }) => {
+  const {
+    templateSettings,
+    setTemplateSetting,
+    addHeaderField,
+    updateHeaderField,
+    moveHeaderField,
+    removeHeaderField,
+  } = useAppStore();
+  const idPrefix = useId();
+  const [newFieldLabel, setNewFieldLabel] = useState('');
+  const headerLayout = getHeaderLayout(templateSettings);
+  const logoPlacement = getLogoPlacement(templateSettings);
+  const fields = getHeaderFields(templateSettings);
+  const atLimit = fields.length >= MAX_HEADER_FIELDS;
+  const unusedPresets = HEADER_FIELD_PRESETS.filter(
+    (preset) => !fields.some((field) => field.label.trim().toLowerCase() === preset.toLowerCase())
+  );
+
+  const handleAddField = (label: string) => {
+    if (!label.trim() || atLimit) return;
+    addHeaderField(label);
+    setNewFieldLabel('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="compact"
+          disabled={disabled}
+          className="px-2"
+          style={getLayoutToolbarContainerStyles()}
+        >
+          <PanelTop size={16} className={`mr-0.25 ${TOOLBAR_STYLES.iconClasses}`} />
+          Header{fields.length > 0 ? ` (${fields.length})` : ''}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 p-3">
+        <div className="flex flex-col gap-3">
+          <div className="flex items-end gap-3">
+            <div className="flex flex-1 flex-col gap-1">
+              <Label htmlFor={`${idPrefix}-layout`} className="text-xs">Layout</Label>
+              <Select
+                value={headerLayout}
+                onValueChange={(value) => {
+                  if (isHeaderLayout(value)) setTemplateSetting('headerLayout', value);
+                }}
+              >
+                <SelectTrigger id={`${idPrefix}-layout`} className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HEADER_LAYOUT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value} title={option.description}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label className="text-xs">Logo</Label>
+              <div className="flex gap-1" role="radiogroup" aria-label="Logo placement">
+                {LOGO_PLACEMENT_OPTIONS.map((option) => {
+                  const Icon = LOGO_PLACEMENT_ICONS[option.value];
+                  const isSelected = logoPlacement === option.value;
+                  return (
+                    <Button
+                      key={option.value}
+                      variant={isSelected ? 'default' : 'outline'}
+                      size="icon"
+                      className="h-8 w-8"
+                      role="radio"
+                      aria-checked={isSelected}
+                      aria-label={`Logo ${option.label.toLowerCase()}`}
+                      title={`Logo ${option.label.toLowerCase()}`}
+                      onClick={() => setTemplateSetting('logoPlacement', option.value)}
+                    >
+                      <Icon className="h-3.5 w-3.5" />
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+          {!templateSettings.showLogo && (
+            <p className="text-xs opacity-60">The logo is hidden; turn it on under Template.</p>
+          )}
+
+          <Separator />
+
+          {fields.length === 0 ? (
+            <p className="text-xs opacity-60">
+              No header fields yet. Add details such as Director, DP or Draft #; they show on every page under the title.
+            </p>
+          ) : (
+            <div className="flex max-h-60 flex-col gap-1 overflow-y-auto">
+              {fields.map((field, index) => (
+                <div key={field.id} className="flex items-center gap-1">
+                  <Switch
+                    checked={field.visible}
+                    onCheckedChange={(visible) => updateHeaderField(field.id, { visible })}
+                    aria-label={`Show ${field.label}`}
+                    title={field.visible ? 'Shown in the header and exports' : 'Hidden'}
+                  />
+                  <Input
+                    key={`label-${field.label}`}
+                    defaultValue={field.label}
+                    maxLength={MAX_HEADER_FIELD_LABEL_LENGTH}
+                    className="ml-1 h-7 w-24 shrink-0 text-xs font-semibold"
+                    aria-label="Field label"
+                    onBlur={(event) => {
+                      if (event.target.value !== field.label) {
+                        updateHeaderField(field.id, { label: event.target.value.trim() });
+                      }
+                    }}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') event.currentTarget.blur();
+                    }}
+                  />
+                  <Input
+                    key={`value-${field.value}`}
+                    defaultValue={field.value}
+                    maxLength={MAX_HEADER_FIELD_VALUE_LENGTH}
+                    placeholder="Value"
+                    className="h-7 text-xs"
+                    aria-label={`${field.label || 'Field'} value`}
+                    onBlur={(event) => {
+                      if (event.target.value !== field.value) {
+                        updateHeaderField(field.id, { value: event.target.value });
+                      }
+                    }}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') event.currentTarget.blur();
+                    }}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    disabled={index === 0}
+                    onClick={() => moveHeaderField(field.id, -1)}
+                    aria-label={`Move ${field.label} up`}
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    disabled={index === fields.length - 1}
+                    onClick={() => moveHeaderField(field.id, 1)}
+                    aria-label={`Move ${field.label} down`}
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => removeHeaderField(field.id)}
+                    aria-label={`Remove ${field.label}`}
+                    title="Remove field"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div className="flex flex-1 flex-col gap-1">
+              <Label htmlFor={`${idPrefix}-new`} className="text-xs">New field</Label>
+              <Input
+                id={`${idPrefix}-new`}
+                value={newFieldLabel}
+                onChange={(event) => setNewFieldLabel(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') handleAddField(newFieldLabel);
+                }}
+                placeholder="Producer"
+                maxLength={MAX_HEADER_FIELD_LABEL_LENGTH}
+                disabled={atLimit}
+                className="h-8 text-xs"
+              />
+            </div>
+            <Button size="sm" className="h-8" onClick={() => handleAddField(newFieldLabel)} disabled={atLimit || !newFieldLabel.trim()}>
+              Add Field
+            </Button>
+          </div>
+          {!atLimit && unusedPresets.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {unusedPresets.map((preset) => (
+                <Button
+                  key={preset}
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => handleAddField(preset)}
+                >
+                  + {preset}
+                </Button>
+              ))}
+            </div>
+          )}
+          {atLimit && (
+            <p className="text-xs opacity-60">Projects can have up to {MAX_HEADER_FIELDS} header fields.</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+HeaderSettingsManager.displayName = 'HeaderSettingsManager';
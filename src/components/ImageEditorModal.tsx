@@ -1,12 +1,111 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
-import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
-import { Shot } from '@/store';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  ZoomIn,
+  ZoomOut,
+  RotateCcw,
+  RotateCw,
+  FlipHorizontal2,
+  FlipVertical2,
+  Move,
+  Pencil,
+  Eraser,
+  Undo2,
+  Trash2,
+  ArrowUpRight,
+  Square,
+  MessageSquareText,
+  X,
+} from 'lucide-react';
+import { Shot, type ImageEditField } from '@/store';
 import { ShotImageRenderer } from './ShotImageRenderer';
 import { getGlassmorphismStyles, getColor } from '@/styles/glassmorphism-styles';
 import { RENDERED_PAGE_WIDTH_PX } from '@/utils/pageSize';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_SKETCH_BRUSH_SIZE,
+  DEFAULT_SKETCH_COLOR,
+  SKETCH_BRUSH_SIZES,
+  SKETCH_COLORS,
+  appendSketchPoint,
+  getSketchStrokes,
+  type SketchStroke,
+  type SketchTool,
+} from '@/utils/sketch';
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_KINDS,
+  DEFAULT_ANNOTATION_COLOR,
+  MAX_ANNOTATION_TEXT_LENGTH,
+  MIN_ANNOTATION_DRAG,
+  clampToFrame,
+  getShotAnnotations,
+  type AnnotationKind,
+  type ShotAnnotation,
+} from '@/utils/annotations';
+import { getImageOrientation, normalizeImageRotation } from '@/utils/imageGeometry';
+
+type EditorMode = 'frame' | 'sketch' | 'annotate';
+
+// Offsets within this share of the frame snap to centre while dragging
+const CENTER_SNAP_THRESHOLD = 0.015;
+const MIN_IMAGE_SCALE = 0.1;
+const MAX_IMAGE_SCALE = 4.0;
+
+interface TransformFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  suffix: string;
+  step: number;
+  onCommit: (value: number) => void;
+}
+
+// Uncontrolled so partial input like "-" survives until blur or Enter
+const TransformField: React.FC<TransformFieldProps> = ({ id, label, value, suffix, step, onCommit }) => {
+  const commit = (input: HTMLInputElement) => {
+    const parsed = Number.parseFloat(input.value);
+    if (Number.isFinite(parsed) && parsed !== value) {
+      onCommit(parsed);
+    } else {
+      input.value = String(value);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs" style={{ color: getColor('text', 'secondary') as string }}>
+        {label}
+      </Label>
+      <div className="flex items-center gap-1">
+        <Input
+          key={value}
+          id={id}
+          type="number"
+          step={step}
+          defaultValue={value}
+          className="h-7 px-2 text-xs"
+          onBlur={(event) => commit(event.currentTarget)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') event.currentTarget.blur();
+          }}
+        />
+        <span className="text-xs" style={{ color: getColor('text', 'muted') as string }}>{suffix}</span>
+      </div>
+    </div>
+  );
+};
+
+const ANNOTATION_ICONS: Record<AnnotationKind, React.ElementType> = {
+  arrow: ArrowUpRight,
+  frame: Square,
+  text: MessageSquareText,
+};
 
 interface ImageEditorModalProps {
   isOpen: boolean;
@@ -14,7 +113,7 @@ interface ImageEditorModalProps {
   shot: Shot | null;
   aspectRatio?: string;
   gridCols?: number;
-  onApply: (updates: { imageScale?: number; imageOffsetX?: number; imageOffsetY?: number }) => void;
+  onApply: (updates: Pick<Shot, ImageEditField>) => void;
 }
 
 export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
@@ -29,14 +128,32 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
   const [editingShot, setEditingShot] = useState<Shot | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const [mode, setMode] = useState<EditorMode>('frame');
+  const [sketchTool, setSketchTool] = useState<SketchTool>('pen');
+  const [sketchColor, setSketchColor] = useState<string>(DEFAULT_SKETCH_COLOR);
+  const [brushSize, setBrushSize] = useState(DEFAULT_SKETCH_BRUSH_SIZE);
+  const [activeStroke, setActiveStroke] = useState<SketchStroke | null>(null);
+  const [annotationKind, setAnnotationKind] = useState<AnnotationKind>('arrow');
+  const [annotationColor, setAnnotationColor] = useState<string>(DEFAULT_ANNOTATION_COLOR);
+  const [annotationText, setAnnotationText] = useState('');
+  const [activeAnnotation, setActiveAnnotation] = useState<ShotAnnotation | null>(null);
+  const [snapToCenter, setSnapToCenter] = useState(true);
+  const [showThirds, setShowThirds] = useState(false);
+  const [snappedAxes, setSnappedAxes] = useState({ x: false, y: false });
+  // Unsnapped offsets while dragging, so the image can be pulled back out of a snap
+  const rawOffsetRef = useRef({ x: 0, y: 0 });
 
-  // Load shot data when modal opens
+  // Load shot data when modal opens. A shot without an image opens straight
+  // into sketching so a frame can be roughed in from scratch.
   useEffect(() => {
     if (isOpen && shot) {
       setEditingShot({...shot});
+      setMode(shot.imageData || shot.imageUrl || shot.imageFile ? 'frame' : 'sketch');
     } else {
       setEditingShot(null);
     }
+    setActiveStroke(null);
+    setActiveAnnotation(null);
   }, [isOpen, shot]);
 
   // Calculate IMAGE container dimensions (not card dimensions)
@@ -78,6 +195,10 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
       x: e.clientX, 
       y: e.clientY 
     });
+    rawOffsetRef.current = {
+      x: editingShot?.imageOffsetX || 0,
+      y: editingShot?.imageOffsetY || 0,
+    };
   };
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
@@ -99,20 +220,30 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
     const percentDeltaX = (deltaX / scale) / containerWidth;
     const percentDeltaY = (deltaY / scale) / containerHeight;
     
+    const rawOffset = {
+      x: rawOffsetRef.current.x + percentDeltaX,
+      y: rawOffsetRef.current.y + percentDeltaY,
+    };
+    rawOffsetRef.current = rawOffset;
+    const snapX = snapToCenter && Math.abs(rawOffset.x) < CENTER_SNAP_THRESHOLD;
+    const snapY = snapToCenter && Math.abs(rawOffset.y) < CENTER_SNAP_THRESHOLD;
+    setSnappedAxes({ x: snapX, y: snapY });
+
     setEditingShot({
       ...editingShot,
-      imageOffsetX: (editingShot.imageOffsetX || 0) + percentDeltaX,
-      imageOffsetY: (editingShot.imageOffsetY || 0) + percentDeltaY
+      imageOffsetX: snapX ? 0 : rawOffset.x,
+      imageOffsetY: snapY ? 0 : rawOffset.y
     });
     
     setDragStart({ 
       x: e.clientX, 
       y: e.clientY 
     });
-  }, [isDragging, dragStart, editingShot, imageDimensions]);
+  }, [isDragging, dragStart, editingShot, imageDimensions, snapToCenter]);
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(false);
+    setSnappedAxes({ x: false, y: false });
   }, []);
 
   useEffect(() => {
@@ -127,23 +258,150 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
   }, [isDragging, handleMouseMove, handleMouseUp]);
 
 
+  // Sketch strokes use pointer events so pen, touch and mouse all draw the
+  // same way; pressure is ignored and every stroke keeps one width.
+  const getSketchPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    };
+  };
+
+  const handleSketchPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getSketchPoint(e);
+    setActiveStroke({
+      id: crypto.randomUUID(),
+      tool: sketchTool,
+      color: sketchColor,
+      size: brushSize,
+      points: appendSketchPoint([], point.x, point.y),
+    });
+  };
+
+  const handleSketchPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!activeStroke) return;
+    const point = getSketchPoint(e);
+    const points = appendSketchPoint(activeStroke.points, point.x, point.y);
+    if (points !== activeStroke.points) {
+      setActiveStroke({ ...activeStroke, points });
+    }
+  };
+
+  const handleSketchPointerUp = () => {
+    if (!activeStroke || !editingShot) return;
+    setEditingShot({
+      ...editingShot,
+      sketchStrokes: [...getSketchStrokes(editingShot), activeStroke],
+    });
+    setActiveStroke(null);
+  };
+
+  const handleUndoStroke = () => {
+    if (!editingShot) return;
+    setEditingShot({ ...editingShot, sketchStrokes: getSketchStrokes(editingShot).slice(0, -1) });
+  };
+
+  const handleClearSketch = () => {
+    if (!editingShot) return;
+    setEditingShot({ ...editingShot, sketchStrokes: [] });
+  };
+
+  // Annotations drag from start to end: arrow tail to head, push-in corner to
+  // corner, or callout point of interest to label. A callout click without a
+  // drag just places the label.
+  const handleAnnotationPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    if (annotationKind === 'text' && !annotationText.trim()) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getSketchPoint(e);
+    const x = clampToFrame(point.x);
+    const y = clampToFrame(point.y);
+    setActiveAnnotation({
+      id: crypto.randomUUID(),
+      kind: annotationKind,
+      color: annotationColor,
+      x1: x,
+      y1: y,
+      x2: x,
+      y2: y,
+      ...(annotationKind !== 'arrow' && annotationText.trim() ? { text: annotationText.trim() } : {}),
+    });
+  };
+
+  const handleAnnotationPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!activeAnnotation) return;
+    const point = getSketchPoint(e);
+    setActiveAnnotation({ ...activeAnnotation, x2: clampToFrame(point.x), y2: clampToFrame(point.y) });
+  };
+
+  const handleAnnotationPointerUp = () => {
+    if (!activeAnnotation || !editingShot) return;
+    const dragDistance = Math.hypot(
+      activeAnnotation.x2 - activeAnnotation.x1,
+      activeAnnotation.y2 - activeAnnotation.y1
+    );
+    if (activeAnnotation.kind === 'text' || dragDistance >= MIN_ANNOTATION_DRAG) {
+      setEditingShot({
+        ...editingShot,
+        annotations: [...getShotAnnotations(editingShot), activeAnnotation],
+      });
+    }
+    setActiveAnnotation(null);
+  };
+
+  const handleRemoveAnnotation = (annotationId: string) => {
+    if (!editingShot) return;
+    setEditingShot({
+      ...editingShot,
+      annotations: getShotAnnotations(editingShot).filter((annotation) => annotation.id !== annotationId),
+    });
+  };
+
+  const handleClearAnnotations = () => {
+    if (!editingShot) return;
+    setEditingShot({ ...editingShot, annotations: [] });
+  };
+
+  const handleRotate = (degrees: number) => {
+    if (!editingShot) return;
+    setEditingShot({
+      ...editingShot,
+      imageRotation: normalizeImageRotation((editingShot.imageRotation ?? 0) + degrees),
+    });
+  };
+
   const handleReset = () => {
     if (editingShot) {
       setEditingShot({
         ...editingShot,
         imageScale: 1.0,
         imageOffsetX: 0,
-        imageOffsetY: 0
+        imageOffsetY: 0,
+        imageRotation: 0,
+        imageFlipX: false,
+        imageFlipY: false
       });
     }
   };
 
   const handleApply = () => {
     if (editingShot) {
+      const sketchStrokes = getSketchStrokes(editingShot);
+      const annotations = getShotAnnotations(editingShot);
       onApply({
         imageScale: editingShot.imageScale,
         imageOffsetX: editingShot.imageOffsetX,
-        imageOffsetY: editingShot.imageOffsetY
+        imageOffsetY: editingShot.imageOffsetY,
+        imageRotation: editingShot.imageRotation,
+        imageFlipX: editingShot.imageFlipX,
+        imageFlipY: editingShot.imageFlipY,
+        sketchStrokes: sketchStrokes.length > 0 ? sketchStrokes : undefined,
+        annotations: annotations.length > 0 ? annotations : undefined
       });
     }
     onClose();
@@ -156,6 +414,22 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
   if (!shot || !editingShot) return null;
 
   const scalePercent = Math.round((editingShot.imageScale || 1) * 100);
+  const orientation = getImageOrientation(editingShot);
+  const toOffsetPercent = (offset: number | undefined) => Math.round((offset || 0) * 1000) / 10;
+  const hasImage = Boolean(editingShot.imageData || editingShot.imageUrl || editingShot.imageFile);
+  const sketchStrokes = getSketchStrokes(editingShot);
+  const annotations = getShotAnnotations(editingShot);
+  const previewShot = {
+    ...editingShot,
+    ...(activeStroke ? { sketchStrokes: [...sketchStrokes, activeStroke] } : {}),
+    ...(activeAnnotation ? { annotations: [...annotations, activeAnnotation] } : {}),
+  };
+  const getAnnotationLabel = (annotation: ShotAnnotation) => {
+    const kindLabel = ANNOTATION_KINDS.find((kind) => kind.value === annotation.kind)?.label ?? annotation.kind;
+    return annotation.text ? `${kindLabel}: ${annotation.text}` : kindLabel;
+  };
+  const sectionTitleStyle = { color: getColor('text', 'primary') as string };
+  const getToggleStyle = (isActive: boolean) => getGlassmorphismStyles(isActive ? 'buttonSecondary' : 'button');
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && handleCancel()}>
@@ -181,119 +455,548 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
             >
               <div className="flex justify-center">
                 <div 
+                  className="relative"
                   style={{ 
-                    cursor: isDragging ? 'grabbing' : 'grab',
+                    width: `${imageDimensions.width}px`,
+                    height: `${imageDimensions.height}px`,
+                    backgroundColor: getColor('background', 'lighter') as string,
+                    cursor: mode === 'frame' ? (isDragging ? 'grabbing' : 'grab') : 'crosshair',
                     userSelect: 'none',
                     WebkitUserSelect: 'none',
                     MozUserSelect: 'none',
                     msUserSelect: 'none'
                   }}
-                  onMouseDown={handleMouseDown}
+                  onMouseDown={mode === 'frame' ? handleMouseDown : undefined}
                 >
                   <ShotImageRenderer
-                    shot={editingShot}
+                    shot={previewShot}
                     containerWidth={imageDimensions.width}
                     containerHeight={imageDimensions.height}
+                    showEmptyFrame
                   />
+                  {mode === 'frame' && (showThirds || snappedAxes.x || snappedAxes.y) && (
+                    <svg
+                      className="absolute inset-0 pointer-events-none"
+                      width={imageDimensions.width}
+                      height={imageDimensions.height}
+                      aria-hidden="true"
+                    >
+                      {showThirds && [1, 2].map((index) => (
+                        <g key={index} stroke="rgba(255, 255, 255, 0.6)" strokeWidth={1}>
+                          <line
+                            x1={(imageDimensions.width * index) / 3}
+                            y1={0}
+                            x2={(imageDimensions.width * index) / 3}
+                            y2={imageDimensions.height}
+                          />
+                          <line
+                            x1={0}
+                            y1={(imageDimensions.height * index) / 3}
+                            x2={imageDimensions.width}
+                            y2={(imageDimensions.height * index) / 3}
+                          />
+                        </g>
+                      ))}
+                      {snappedAxes.x && (
+                        <line
+                          x1={imageDimensions.width / 2}
+                          y1={0}
+                          x2={imageDimensions.width / 2}
+                          y2={imageDimensions.height}
+                          stroke="#f472b6"
+                          strokeWidth={1}
+                        />
+                      )}
+                      {snappedAxes.y && (
+                        <line
+                          x1={0}
+                          y1={imageDimensions.height / 2}
+                          x2={imageDimensions.width}
+                          y2={imageDimensions.height / 2}
+                          stroke="#f472b6"
+                          strokeWidth={1}
+                        />
+                      )}
+                    </svg>
+                  )}
+                  {mode === 'sketch' && (
+                    <div
+                      className="absolute inset-0 touch-none"
+                      onPointerDown={handleSketchPointerDown}
+                      onPointerMove={handleSketchPointerMove}
+                      onPointerUp={handleSketchPointerUp}
+                      onPointerCancel={handleSketchPointerUp}
+                    />
+                  )}
+                  {mode === 'annotate' && (
+                    <div
+                      className="absolute inset-0 touch-none"
+                      onPointerDown={handleAnnotationPointerDown}
+                      onPointerMove={handleAnnotationPointerMove}
+                      onPointerUp={handleAnnotationPointerUp}
+                      onPointerCancel={() => setActiveAnnotation(null)}
+                    />
+                  )}
                 </div>
               </div>
               <p 
                 className="text-xs text-center mt-2"
                 style={{ color: getColor('text', 'muted') as string }}
               >
-                Click and drag to position • Use controls to zoom
+                {mode === 'sketch'
+                  ? 'Draw over the frame • The eraser only removes sketch strokes'
+                  : mode === 'annotate'
+                    ? 'Drag to place • Callouts drag from the subject to the label'
+                    : 'Click and drag to position • Use controls to zoom, rotate and flip'}
               </p>
             </div>
           </div>
 
           {/* Controls Sidebar */}
-          <div className="w-64 space-y-6">
-            {/* Zoom Controls */}
-            <div className="space-y-3">
-              <h3 
-                className="font-medium text-sm"
-                style={{ color: getColor('text', 'primary') as string }}
+          <div className="w-64 max-h-[75vh] space-y-6 overflow-y-auto pr-1">
+            {/* Mode Toggle */}
+            <div className="grid grid-cols-3 gap-2">
+              <Button
+                className="h-auto flex-col gap-1 py-2 text-xs"
+                style={getToggleStyle(mode === 'frame')}
+                onClick={() => setMode('frame')}
+                disabled={!hasImage}
+                aria-pressed={mode === 'frame'}
               >
-                Zoom Controls
-              </h3>
-              <div className="flex items-center gap-3">
-                <Button
-                  size="icon"
-                  className="h-8 w-8"
-                  style={getGlassmorphismStyles('button')}
-                  onClick={() => handleEditUpdate({
-                    imageScale: Math.max(0.1, (editingShot.imageScale || 1) - 0.1)
-                  })}
+                <Move size={16} />
+                Frame
+              </Button>
+              <Button
+                className="h-auto flex-col gap-1 py-2 text-xs"
+                style={getToggleStyle(mode === 'sketch')}
+                onClick={() => setMode('sketch')}
+                aria-pressed={mode === 'sketch'}
+              >
+                <Pencil size={16} />
+                Sketch
+              </Button>
+              <Button
+                className="h-auto flex-col gap-1 py-2 text-xs"
+                style={getToggleStyle(mode === 'annotate')}
+                onClick={() => setMode('annotate')}
+                aria-pressed={mode === 'annotate'}
+              >
+                <ArrowUpRight size={16} />
+                Annotate
+              </Button>
+            </div>
+
+            {mode === 'annotate' ? (
+              <>
+                {/* Annotation Tools */}
+                <div className="space-y-3">
+                  <h3 className="font-medium text-sm" style={sectionTitleStyle}>
+                    Tool
+                  </h3>
+                  <div className="grid grid-cols-3 gap-2">
+                    {ANNOTATION_KINDS.map((kind) => {
+                      const Icon = ANNOTATION_ICONS[kind.value];
+                      return (
+                        <Button
+                          key={kind.value}
+                          className="h-auto flex-col gap-1 py-2 text-xs"
+                          style={getToggleStyle(annotationKind === kind.value)}
+                          onClick={() => setAnnotationKind(kind.value)}
+                          aria-pressed={annotationKind === kind.value}
+                        >
+                          <Icon size={16} />
+                          {kind.label}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <h3 className="font-medium text-sm" style={sectionTitleStyle}>
+                    Color
+                  </h3>
+                  <div className="flex flex-wrap gap-2">
+                    {ANNOTATION_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        className={cn(
+                          'h-7 w-7 rounded-full border transition-transform',
+                          annotationColor === color && 'scale-110 ring-2 ring-offset-1'
+                        )}
+                        style={{
+                          backgroundColor: color,
+                          borderColor: getColor('border', 'primary') as string,
+                        }}
+                        onClick={() => setAnnotationColor(color)}
+                        aria-label={`Annotation color ${color}`}
+                        aria-pressed={annotationColor === color}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                {annotationKind !== 'arrow' && (
+                  <div className="space-y-2">
+                    <h3 className="font-medium text-sm" style={sectionTitleStyle}>
+                      {annotationKind === 'text' ? 'Callout Text' : 'Label (optional)'}
+                    </h3>
+                    <Input
+                      value={annotationText}
+                      onChange={(event) => setAnnotationText(event.target.value)}
+                      maxLength={MAX_ANNOTATION_TEXT_LENGTH}
+                      placeholder={annotationKind === 'text' ? 'e.g. Sarah enters' : 'e.g. Push in'}
+                      className="h-8 text-xs"
+                    />
+                    {annotationKind === 'text' && !annotationText.trim() && (
+                      <p className="text-xs" style={{ color: getColor('text', 'muted') as string }}>
+                        Type the callout, then click or drag on the frame.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <h3 className="font-medium text-sm" style={sectionTitleStyle}>
+                    Annotations
+                  </h3>
+                  {annotations.length === 0 ? (
+                    <p className="text-xs" style={{ color: getColor('text', 'muted') as string }}>
+                      None yet
+                    </p>
+                  ) : (
+                    <div className="max-h-32 space-y-1 overflow-y-auto">
+                      {annotations.map((annotation) => (
+                        <div
+                          key={annotation.id}
+                          className="flex items-center gap-2 rounded px-2 py-1 text-xs"
+                          style={{
+                            ...getGlassmorphismStyles('background'),
+                            color: getColor('text', 'primary') as string,
+                          }}
+                        >
+                          <span
+                            className="h-2.5 w-2.5 shrink-0 rounded-full"
+                            style={{ backgroundColor: annotation.color }}
+                          />
+                          <span className="min-w-0 flex-1 truncate">{getAnnotationLabel(annotation)}</span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-5 w-5"
+                            onClick={() => handleRemoveAnnotation(annotation.id)}
+                            aria-label={`Remove ${getAnnotationLabel(annotation)}`}
+                          >
+                            <X size={12} />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <Button
+                    className="w-full justify-start"
+                    style={getGlassmorphismStyles('button')}
+                    onClick={handleClearAnnotations}
+                    disabled={annotations.length === 0}
+                  >
+                    <Trash2 size={16} className="mr-2" />
+                    Clear Annotations
+                  </Button>
+                </div>
+              </>
+            ) : mode === 'sketch' ? (
+              <>
+                {/* Sketch Tools */}
+                <div className="space-y-3">
+                  <h3 className="font-medium text-sm" style={sectionTitleStyle}>
+                    Tool
+                  </h3>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      style={getToggleStyle(sketchTool === 'pen')}
+                      onClick={() => setSketchTool('pen')}
+                      aria-pressed={sketchTool === 'pen'}
+                    >
+                      <Pencil size={16} className="mr-2" />
+                      Pen
+                    </Button>
+                    <Button
+                      style={getToggleStyle(sketchTool === 'eraser')}
+                      onClick={() => setSketchTool('eraser')}
+                      aria-pressed={sketchTool === 'eraser'}
+                    >
+                      <Eraser size={16} className="mr-2" />
+                      Eraser
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <h3 className="font-medium text-sm" style={sectionTitleStyle}>
+                    Color
+                  </h3>
+                  <div className="flex flex-wrap gap-2">
+                    {SKETCH_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        className={cn(
+                          'h-7 w-7 rounded-full border transition-transform',
+                          sketchColor === color && sketchTool === 'pen' && 'scale-110 ring-2 ring-offset-1'
+                        )}
+                        style={{
+                          backgroundColor: color,
+                          borderColor: getColor('border', 'primary') as string,
+                        }}
+                        onClick={() => {
+                          setSketchColor(color);
+                          setSketchTool('pen');
+                        }}
+                        aria-label={`Sketch color ${color}`}
+                        aria-pressed={sketchColor === color}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <h3 className="font-medium text-sm" style={sectionTitleStyle}>
+                    Brush Size
+                  </h3>
+                  <div className="grid grid-cols-2 gap-2">
+                    {SKETCH_BRUSH_SIZES.map((size) => (
+                      <Button
+                        key={size.label}
+                        className="justify-start"
+                        style={getToggleStyle(brushSize === size.value)}
+                        onClick={() => setBrushSize(size.value)}
+                        aria-pressed={brushSize === size.value}
+                      >
+                        <span
+                          className="mr-2 inline-block shrink-0 rounded-full"
+                          style={{
+                            width: `${Math.max(3, Math.round(size.value * 400))}px`,
+                            height: `${Math.max(3, Math.round(size.value * 400))}px`,
+                            backgroundColor: 'currentColor',
+                          }}
+                        />
+                        {size.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="font-medium text-sm" style={sectionTitleStyle}>
+                    Quick Actions
+                  </h3>
+                  <Button
+                    className="w-full justify-start"
+                    style={getGlassmorphismStyles('button')}
+                    onClick={handleUndoStroke}
+                    disabled={sketchStrokes.length === 0}
+                  >
+                    <Undo2 size={16} className="mr-2" />
+                    Undo Stroke
+                  </Button>
+                  <Button
+                    className="w-full justify-start"
+                    style={getGlassmorphismStyles('button')}
+                    onClick={handleClearSketch}
+                    disabled={sketchStrokes.length === 0}
+                  >
+                    <Trash2 size={16} className="mr-2" />
+                    Clear Sketch
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <>
+              {/* Zoom Controls */}
+              <div className="space-y-3">
+                <h3 
+                  className="font-medium text-sm"
+                  style={{ color: getColor('text', 'primary') as string }}
                 >
-                  <ZoomOut size={16} />
-                </Button>
+                  Zoom Controls
+                </h3>
+                <div className="flex items-center gap-3">
+                  <Button
+                    size="icon"
+                    className="h-8 w-8"
+                    style={getGlassmorphismStyles('button')}
+                    onClick={() => handleEditUpdate({
+                      imageScale: Math.max(MIN_IMAGE_SCALE, (editingShot.imageScale || 1) - 0.1)
+                    })}
+                  >
+                    <ZoomOut size={16} />
+                  </Button>
+                  <Slider
+                    value={[editingShot.imageScale || 1]}
+                    onValueChange={([value]) => handleEditUpdate({ imageScale: value })}
+                    min={MIN_IMAGE_SCALE}
+                    max={MAX_IMAGE_SCALE}
+                    step={0.1}
+                    className="flex-1"
+                  />
+                  <Button
+                    size="icon"
+                    className="h-8 w-8"
+                    style={getGlassmorphismStyles('button')}
+                    onClick={() => handleEditUpdate({
+                      imageScale: Math.min(MAX_IMAGE_SCALE, (editingShot.imageScale || 1) + 0.1)
+                    })}
+                  >
+                    <ZoomIn size={16} />
+                  </Button>
+                </div>
+                <p 
+                  className="text-xs text-center"
+                  style={{ color: getColor('text', 'muted') as string }}
+                >
+                  {scalePercent}% (10% - 400%)
+                </p>
+              </div>
+
+
+              {/* Rotate & Flip */}
+              <div className="space-y-3">
+                <h3 className="font-medium text-sm" style={sectionTitleStyle}>
+                  Rotate & Flip
+                </h3>
+                <div className="grid grid-cols-4 gap-2">
+                  <Button
+                    size="icon"
+                    className="h-8 w-full"
+                    style={getGlassmorphismStyles('button')}
+                    onClick={() => handleRotate(-90)}
+                    aria-label="Rotate 90° counter-clockwise"
+                    title="Rotate 90° counter-clockwise"
+                  >
+                    <RotateCcw size={16} />
+                  </Button>
+                  <Button
+                    size="icon"
+                    className="h-8 w-full"
+                    style={getGlassmorphismStyles('button')}
+                    onClick={() => handleRotate(90)}
+                    aria-label="Rotate 90° clockwise"
+                    title="Rotate 90° clockwise"
+                  >
+                    <RotateCw size={16} />
+                  </Button>
+                  <Button
+                    size="icon"
+                    className="h-8 w-full"
+                    style={getToggleStyle(orientation.flipX)}
+                    onClick={() => handleEditUpdate({ imageFlipX: !orientation.flipX })}
+                    aria-label="Flip horizontally"
+                    aria-pressed={orientation.flipX}
+                    title="Flip horizontally"
+                  >
+                    <FlipHorizontal2 size={16} />
+                  </Button>
+                  <Button
+                    size="icon"
+                    className="h-8 w-full"
+                    style={getToggleStyle(orientation.flipY)}
+                    onClick={() => handleEditUpdate({ imageFlipY: !orientation.flipY })}
+                    aria-label="Flip vertically"
+                    aria-pressed={orientation.flipY}
+                    title="Flip vertically"
+                  >
+                    <FlipVertical2 size={16} />
+                  </Button>
+                </div>
                 <Slider
-                  value={[editingShot.imageScale || 1]}
-                  onValueChange={([value]) => handleEditUpdate({ imageScale: value })}
-                  min={0.1}
-                  max={4.0}
-                  step={0.1}
-                  className="flex-1"
+                  value={[orientation.rotation]}
+                  onValueChange={([value]) => handleEditUpdate({ imageRotation: value })}
+                  min={-180}
+                  max={180}
+                  step={1}
+                  aria-label="Rotation angle"
                 />
-                <Button
-                  size="icon"
-                  className="h-8 w-8"
-                  style={getGlassmorphismStyles('button')}
-                  onClick={() => handleEditUpdate({
-                    imageScale: Math.min(4.0, (editingShot.imageScale || 1) + 0.1)
-                  })}
-                >
-                  <ZoomIn size={16} />
-                </Button>
               </div>
-              <p 
-                className="text-xs text-center"
-                style={{ color: getColor('text', 'muted') as string }}
-              >
-                {scalePercent}% (10% - 400%)
-              </p>
-            </div>
 
+              {/* Numeric Transform */}
+              <div className="space-y-2">
+                <h3 className="font-medium text-sm" style={sectionTitleStyle}>
+                  Transform
+                </h3>
+                <div className="grid grid-cols-2 gap-2">
+                  <TransformField
+                    id="image-editor-zoom"
+                    label="Zoom"
+                    value={scalePercent}
+                    suffix="%"
+                    step={1}
+                    onCommit={(value) => handleEditUpdate({
+                      imageScale: Math.min(MAX_IMAGE_SCALE, Math.max(MIN_IMAGE_SCALE, value / 100))
+                    })}
+                  />
+                  <TransformField
+                    id="image-editor-rotation"
+                    label="Rotation"
+                    value={orientation.rotation}
+                    suffix="°"
+                    step={1}
+                    onCommit={(value) => handleEditUpdate({ imageRotation: normalizeImageRotation(value) })}
+                  />
+                  <TransformField
+                    id="image-editor-offset-x"
+                    label="Offset X"
+                    value={toOffsetPercent(editingShot.imageOffsetX)}
+                    suffix="%"
+                    step={0.5}
+                    onCommit={(value) => handleEditUpdate({ imageOffsetX: value / 100 })}
+                  />
+                  <TransformField
+                    id="image-editor-offset-y"
+                    label="Offset Y"
+                    value={toOffsetPercent(editingShot.imageOffsetY)}
+                    suffix="%"
+                    step={0.5}
+                    onCommit={(value) => handleEditUpdate({ imageOffsetY: value / 100 })}
+                  />
+                </div>
+              </div>
 
-            {/* Current Zoom Display */}
-            <div className="space-y-2">
-              <h3 
-                className="font-medium text-sm"
-                style={{ color: getColor('text', 'primary') as string }}
-              >
-                Current Zoom
-              </h3>
-              <div 
-                className="text-xs space-y-1 font-mono p-3 rounded"
-                style={{
-                  ...getGlassmorphismStyles('background'),
-                  border: `1px solid ${getColor('border', 'primary') as string}`
-                }}
-              >
-                <div className="flex justify-between">
-                  <span style={{ color: getColor('text', 'secondary') as string }}>Zoom:</span>
-                  <span style={{ color: getColor('text', 'primary') as string }}>{scalePercent}%</span>
+              {/* Guides */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="image-editor-snap" className="text-xs" style={sectionTitleStyle}>
+                    Snap to center
+                  </Label>
+                  <Switch id="image-editor-snap" checked={snapToCenter} onCheckedChange={setSnapToCenter} />
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="image-editor-thirds" className="text-xs" style={sectionTitleStyle}>
+                    Rule-of-thirds guides
+                  </Label>
+                  <Switch id="image-editor-thirds" checked={showThirds} onCheckedChange={setShowThirds} />
                 </div>
               </div>
-            </div>
 
-            {/* Quick Actions */}
-            <div className="space-y-2">
-              <h3 
-                className="font-medium text-sm"
-                style={{ color: getColor('text', 'primary') as string }}
-              >
-                Quick Actions
-              </h3>
-              <Button
-                className="w-full justify-start"
-                style={getGlassmorphismStyles('button')}
-                onClick={handleReset}
-              >
-                <RotateCcw size={16} className="mr-2" />
-                Reset
-              </Button>
-            </div>
+              {/* Quick Actions */}
+              <div className="space-y-2">
+                <h3 
+                  className="font-medium text-sm"
+                  style={{ color: getColor('text', 'primary') as string }}
+                >
+                  Quick Actions
+                </h3>
+                <Button
+                  className="w-full justify-start"
+                  style={getGlassmorphismStyles('button')}
+                  onClick={handleReset}
+                >
+                  <RotateCcw size={16} className="mr-2" />
+                  Reset
+                </Button>
+              </div>
+              </>
+            )}
 
             {/* Action Buttons */}
             <div className="pt-4 space-y-2">
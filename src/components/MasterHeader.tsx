@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from 'react';
+import { Fragment, useEffect, useRef, useState } from 'react';
 import { useAppStore } from '@/store';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from './ui/button';
@@ -7,6 +7,28 @@ import { cn } from '@/lib/utils';
 import type { ServerPDFExportPayload } from '@/utils/types/exportTypes';
 import { RENDERED_PAGE_WIDTH_PX } from '@/utils/pageSize';
 import { getStoryboardHeaderAlignmentInsetCss, calculateStoryboardLogoContainerWidth } from '@/utils/storyboardLayout';
+import {
+  HEADER_FIELD_STYLES,
+  HEADER_ROW_STYLE,
+  getHeaderColumnStyle,
+  getHeaderColumns,
+  getHeaderFieldEntries,
+  getHeaderFieldLabelText,
+  getHeaderFields,
+  getHeaderFieldsRowStyle,
+  getHeaderLayout,
+  getHeaderLinePaddingClass,
+  getHeaderLineStyle,
+  getHeaderSlotStyle,
+  getLogoPlacement,
+  isBalancedHeader,
+  type HeaderColumn,
+  type HeaderField,
+  type HeaderLayout,
+  type HeaderLine,
+  type HeaderSlot,
+  type HeaderTextAlign,
+} from '@/utils/headerLayout';
 
 interface MasterHeaderProps {
   readOnly?: boolean;
@@ -123,6 +145,136 @@ const getLogoPlaceholderStyles = (contentBackground: string | undefined) => {
   };
 };
 
+const HEADER_SLOTS: HeaderSlot[] = ['left', 'center', 'right'];
+
+const HEADER_LINE_PLACEHOLDERS: Record<HeaderLine, string> = {
+  projectName: 'Project Name',
+  projectInfo: 'Project Info',
+  clientAgency: 'Client/Agency',
+  jobInfo: 'Job Info',
+};
+
+interface HeaderSlotsProps {
+  balanced: boolean;
+  columns: HeaderColumn[];
+  logoSlot: HeaderSlot | null;
+  renderLogo: () => React.ReactNode;
+  renderLine: (line: HeaderLine | 'spacer', index: number, align: HeaderTextAlign) => React.ReactNode;
+}
+
+// Logo before the text on the left, above it in the center and after it on the right
+const HeaderSlots: React.FC<HeaderSlotsProps> = ({ balanced, columns, logoSlot, renderLogo, renderLine }) => (
+  <div style={HEADER_ROW_STYLE}>
+    {HEADER_SLOTS.filter((slot) => slot !== 'center' || balanced).map((slot) => (
+      <div key={slot} style={getHeaderSlotStyle(slot, balanced)}>
+        {slot !== 'right' && logoSlot === slot && renderLogo()}
+        {columns.filter((column) => column.slot === slot).map((column) => (
+          <div key={column.slot} style={getHeaderColumnStyle(column)}>
+            {column.lines.map((line, index) => (
+              <Fragment key={`${line}-${index}`}>{renderLine(line, index, column.align)}</Fragment>
+            ))}
+          </div>
+        ))}
+        {slot === 'right' && logoSlot === slot && renderLogo()}
+      </div>
+    ))}
+  </div>
+);
+
+const HeaderFieldsRow: React.FC<{ layout: HeaderLayout; fields: HeaderField[] }> = ({ layout, fields }) => {
+  const entries = getHeaderFieldEntries(fields);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="header-fields" style={getHeaderFieldsRowStyle(layout)}>
+      {entries.map((entry) => {
+        const label = getHeaderFieldLabelText(entry);
+        return (
+          <span key={entry.id} className="header-field" style={HEADER_FIELD_STYLES.entry} data-header-field-id={entry.id}>
+            {label && <span className="header-field-label" style={HEADER_FIELD_STYLES.label}>{label}</span>}
+            <span className="header-field-value">{entry.value}</span>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+const HeaderSpacerLine: React.FC<{ align: HeaderTextAlign }> = ({ align }) => (
+  <div
+    aria-hidden="true"
+    className={cn('w-full p-0 whitespace-pre-wrap invisible pointer-events-none', getHeaderLinePaddingClass(align))}
+    style={{ ...getHeaderLineStyle('spacer', 0), backgroundColor: 'transparent' }}
+  />
+);
+
+interface EditableHeaderLineProps {
+  line: HeaderLine;
+  index: number;
+  align: HeaderTextAlign;
+  value: string;
+  color: string;
+  readOnly: boolean;
+  onChange: (value: string) => void;
+}
+
+const EditableHeaderLine: React.FC<EditableHeaderLineProps> = ({ line, index, align, value, color, readOnly, onChange }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const lineStyle = getHeaderLineStyle(line, index);
+
+  useEffect(() => {
+    if (textareaRef.current) {
+      textareaRef.current.style.height = 'auto';
+      textareaRef.current.style.height = `${textareaRef.current.scrollHeight}px`;
+    }
+  }, [value, align]);
+
+  return (
+    <div className="relative group">
+      {readOnly ? (
+        <div
+          className={cn('w-full p-0 whitespace-pre-wrap', getHeaderLinePaddingClass(align))}
+          style={{ ...lineStyle, backgroundColor: 'transparent', color }}
+        >
+          {value || HEADER_LINE_PLACEHOLDERS[line]}
+        </div>
+      ) : (
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={HEADER_LINE_PLACEHOLDERS[line]}
+          className={cn(
+            'w-full resize-none overflow-hidden border-none focus:ring-0 shadow-none p-0',
+            getHeaderLinePaddingClass(align)
+          )}
+          style={{
+            ...lineStyle,
+            height: 'auto',
+            textAlign: align,
+            backgroundColor: 'transparent',
+            color,
+          }}
+          rows={1}
+        />
+      )}
+      {!readOnly && value && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn(
+            'absolute top-0 h-full w-6 text-muted-foreground hover:bg-transparent opacity-0 group-hover:opacity-100',
+            align === 'right' ? 'left-0' : 'right-0'
+          )}
+          onClick={() => onChange('')}
+        >
+          <X size={16} />
+        </Button>
+      )}
+    </div>
+  );
+};
+
 const ConnectedMasterHeader: React.FC<{ readOnly?: boolean; gridCols: number }> = ({ readOnly = false, gridCols }) => {
   const { 
     projectName, 
@@ -139,11 +291,7 @@ const ConnectedMasterHeader: React.FC<{ readOnly?: boolean; gridCols: number }>
     storyboardTheme
   } = useAppStore();
 
-  const projectNameRef = useRef<HTMLTextAreaElement>(null);
-  const projectInfoRef = useRef<HTMLTextAreaElement>(null);
   const logoInputRef = useRef<HTMLInputElement>(null);
-  const clientAgencyRef = useRef<HTMLTextAreaElement>(null);
-  const jobInfoRef = useRef<HTMLTextAreaElement>(null);
   
   // State for dynamic logo container width
   const [logoContainerWidth, setLogoContainerWidth] = useState<number>(LOGO_PLACEHOLDER_CONTAINER_WIDTH);
@@ -151,36 +299,6 @@ const ConnectedMasterHeader: React.FC<{ readOnly?: boolean; gridCols: number }>
   const uploadPreviewCleanupRef = useRef<(() => void) | null>(null);
   const uploadPreviewIdRef = useRef(0);
 
-  useEffect(() => {
-    if (projectNameRef.current) {
-      projectNameRef.current.style.height = 'auto';
-      projectNameRef.current.style.height = `${projectNameRef.current.scrollHeight}px`;
-    }
-  }, [projectName]);
-
-  useEffect(() => {
-    if (projectInfoRef.current) {
-      projectInfoRef.current.style.height = 'auto';
-      projectInfoRef.current.style.height = `${projectInfoRef.current.scrollHeight}px`;
-    }
-  }, [projectInfo]);
-  
-  useEffect(() => {
-    if (clientAgencyRef.current) {
-      clientAgencyRef.current.style.height = 'auto';
-      clientAgencyRef.current.style.height = `${clientAgencyRef.current.scrollHeight}px`;
-    }
-  }, [clientAgency]);
-  
-  useEffect(() => {
-    if (jobInfoRef.current) {
-      jobInfoRef.current.style.height = 'auto';
-      jobInfoRef.current.style.height = `${jobInfoRef.current.scrollHeight}px`;
-    }
-  }, [jobInfo]);
-
-  const showLowerMetadataRow = templateSettings.showProjectInfo || templateSettings.showJobInfo;
-
   // Handle dynamic width when projectLogoUrl changes (e.g., loading existing project)
   useEffect(() => {
     if (!projectLogoUrl) {
@@ -265,315 +383,114 @@ const ConnectedMasterHeader: React.FC<{ readOnly?: boolean; gridCols: number }>
 
   const logoPlaceholderStyles = getLogoPlaceholderStyles(storyboardTheme.contentBackground);
   const headerAlignmentInset = getStoryboardHeaderAlignmentInsetCss(gridCols);
+  const headerLayout = getHeaderLayout(templateSettings);
+  const logoPlacement = getLogoPlacement(templateSettings);
+  const lineValues: Record<HeaderLine, { value: string; onChange: (value: string) => void }> = {
+    projectName: { value: projectName, onChange: setProjectName },
+    projectInfo: { value: projectInfo, onChange: setProjectInfo },
+    clientAgency: { value: clientAgency, onChange: setClientAgency },
+    jobInfo: { value: jobInfo, onChange: setJobInfo },
+  };
 
-  return (
+  const renderLogo = () => (
     <div 
       className={cn(
-        "flex items-end justify-between w-full max-w-5xl mx-auto pt-8 pb-2 gap-6 flex-shrink-0 master-header"
+        "relative group flex-shrink-0",
+        "h-16"
       )}
       style={{
-        minWidth: `${RENDERED_PAGE_WIDTH_PX}px`,
-        maxWidth: `${RENDERED_PAGE_WIDTH_PX}px`,
-        width: `${RENDERED_PAGE_WIDTH_PX}px`,
-        paddingLeft: headerAlignmentInset,
-        paddingRight: headerAlignmentInset,
-        color: storyboardTheme.header.text,
+        width: `${logoContainerWidth}px`,
+        height: '60px',
+        minWidth: '60px',
+        minHeight: '60px',
+        transition: 'width 0.3s ease-in-out'
       }}
     >
-      {/* Left Section: Logo and Project Info */}
-      <div 
-        className="flex items-end gap-4"
-        style={{
-          width: '500px',
-          flexShrink: 0
-        }}
-      >
-        {templateSettings.showLogo && (
-          <div 
-            className={cn(
-              "relative group flex-shrink-0",
-              "h-16"
-            )}
-            style={{
-              width: `${logoContainerWidth}px`,
-              height: '60px',
-              minWidth: '60px',
-              minHeight: '60px',
-              transition: 'width 0.3s ease-in-out'
-            }}
+      {projectLogoUrl ? (
+        <>
+          <img src={projectLogoUrl} alt="Project Logo" className="w-full h-full object-contain rounded-md" />
+          <Button
+            variant="destructive"
+            size="icon"
+            className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+            onClick={handleLogoRemove}
           >
-            {projectLogoUrl ? (
-              <>
-                <img src={projectLogoUrl} alt="Project Logo" className="w-full h-full object-contain rounded-md" />
-                <Button
-                  variant="destructive"
-                  size="icon"
-                  className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                  onClick={handleLogoRemove}
-                >
-                  <X size={16} />
-                </Button>
-              </>
-            ) : (
-              <div 
-                className="w-full h-full border-2 border-dashed rounded-md flex flex-col items-center justify-center gap-1 cursor-pointer transition-colors"
-                style={{
-                  borderColor: logoPlaceholderStyles.borderColor,
-                  backgroundColor: logoPlaceholderStyles.backgroundColor,
-                  color: logoPlaceholderStyles.color
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.borderColor = logoPlaceholderStyles.hoverBorderColor;
-                  e.currentTarget.style.backgroundColor = logoPlaceholderStyles.hoverBackgroundColor;
-                  e.currentTarget.style.color = logoPlaceholderStyles.hoverColor;
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.borderColor = logoPlaceholderStyles.borderColor;
-                  e.currentTarget.style.backgroundColor = logoPlaceholderStyles.backgroundColor;
-                  e.currentTarget.style.color = logoPlaceholderStyles.color;
-                }}
-                onClick={handleLogoUploadClick}
-              >
-                <Upload 
-                  size={18} 
-                  style={{ color: 'inherit' }}
-                />
-                <span className="text-[10px] font-medium leading-none" style={{ color: 'inherit' }}>
-                  Upload Logo
-                </span>
-              </div>
-            )}
-            <input 
-              type="file" 
-              ref={logoInputRef} 
-              className="hidden" 
-              accept="image/png, image/jpeg, image/svg+xml"
-              onChange={handleLogoChange}
-            />
-          </div>
-        )}
-        
+            <X size={16} />
+          </Button>
+        </>
+      ) : (
         <div 
-          className="flex-grow"
+          className="w-full h-full border-2 border-dashed rounded-md flex flex-col items-center justify-center gap-1 cursor-pointer transition-colors"
           style={{
-            width: '388px',
-            flexShrink: 0
+            borderColor: logoPlaceholderStyles.borderColor,
+            backgroundColor: logoPlaceholderStyles.backgroundColor,
+            color: logoPlaceholderStyles.color
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.borderColor = logoPlaceholderStyles.hoverBorderColor;
+            e.currentTarget.style.backgroundColor = logoPlaceholderStyles.hoverBackgroundColor;
+            e.currentTarget.style.color = logoPlaceholderStyles.hoverColor;
           }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.borderColor = logoPlaceholderStyles.borderColor;
+            e.currentTarget.style.backgroundColor = logoPlaceholderStyles.backgroundColor;
+            e.currentTarget.style.color = logoPlaceholderStyles.color;
+          }}
+          onClick={handleLogoUploadClick}
         >
-          {templateSettings.showProjectName && (
-            <div className="relative group">
-              {readOnly ? (
-                <div
-                  className={cn(
-                    "w-full font-bold p-0 pr-6 text-lg whitespace-pre-wrap"
-                  )}
-                  style={{
-                    fontSize: '22px',
-                    lineHeight: '1.2',
-                    minHeight: '26px',
-                    backgroundColor: 'transparent'
-                  }}
-                >
-                  {projectName || 'Project Name'}
-                </div>
-              ) : (
-                <>
-                  <Textarea
-                    ref={projectNameRef}
-                    value={projectName}
-                    onChange={(e) => setProjectName(e.target.value)}
-                    placeholder="Project Name"
-                    className={cn(
-                      "w-full font-bold resize-none overflow-hidden border-none focus:ring-0 shadow-none p-0 pr-6 text-lg"
-                    )}
-                    style={{
-                      fontSize: '22px',
-                      lineHeight: '1.2',
-                      height: 'auto',
-                      minHeight: '26px',
-                      backgroundColor: 'transparent'
-                    }}
-                    rows={1}
-                  />
-                </>
-              )}
-              {!readOnly && projectName && (
-                <Button variant="ghost" size="icon" className="absolute top-0 right-0 h-full w-6 text-muted-foreground hover:bg-transparent opacity-0 group-hover:opacity-100" onClick={() => setProjectName('')}><X size={16} /></Button>
-              )}
-            </div>
-          )}
-          {templateSettings.showProjectInfo && (
-            <div className="relative group">
-              {readOnly ? (
-                <div
-                  className={cn(
-                    "w-full p-0 mt-1 pr-6 text-xs whitespace-pre-wrap"
-                  )}
-                  style={{
-                    fontSize: '14px',
-                    lineHeight: '1.4',
-                    minHeight: '20px',
-                    marginTop: '4px',
-                    backgroundColor: 'transparent',
-                    color: storyboardTheme.header.text
-                  }}
-                >
-                  {projectInfo || 'Project Info'}
-                </div>
-              ) : (
-                <>
-                  <Textarea
-                    ref={projectInfoRef}
-                    value={projectInfo}
-                    onChange={(e) => setProjectInfo(e.target.value)}
-                    placeholder="Project Info"
-                    className={cn(
-                      "w-full resize-none overflow-hidden border-none focus:ring-0 shadow-none p-0 mt-1 pr-6 text-xs"
-                    )}
-                    style={{
-                      fontSize: '14px',
-                      lineHeight: '1.4',
-                      height: 'auto',
-                      minHeight: '20px',
-                      marginTop: '4px',
-                      backgroundColor: 'transparent',
-                      color: storyboardTheme.header.text
-                    }}
-                    rows={1}
-                  />
-                </>
-              )}
-              {!readOnly && projectInfo && (
-                <Button variant="ghost" size="icon" className="absolute top-0 right-0 h-full w-6 text-muted-foreground hover:bg-transparent opacity-0 group-hover:opacity-100" onClick={() => setProjectInfo('')}><X size={16} /></Button>
-              )}
-            </div>
-          )}
-          {showLowerMetadataRow && !templateSettings.showProjectInfo && (
-            <div
-              aria-hidden="true"
-              className="w-full p-0 mt-1 pr-6 text-xs whitespace-pre-wrap invisible pointer-events-none"
-              style={{
-                fontSize: '14px',
-                lineHeight: '1.4',
-                minHeight: '20px',
-                marginTop: '4px',
-                backgroundColor: 'transparent'
-              }}
-            />
-          )}
+          <Upload 
+            size={18} 
+            style={{ color: 'inherit' }}
+          />
+          <span className="text-[10px] font-medium leading-none" style={{ color: 'inherit' }}>
+            Upload Logo
+          </span>
         </div>
-      </div>
+      )}
+      <input 
+        type="file" 
+        ref={logoInputRef} 
+        className="hidden" 
+        accept="image/png, image/jpeg, image/svg+xml"
+        onChange={handleLogoChange}
+      />
+    </div>
+  );
 
-      {/* Right Section: Client and Job Info */}
-      <div 
-        className="flex-shrink-0 text-right"
-        style={{
-          width: '250px',
-          flexShrink: 0
-        }}
-      >
-        {templateSettings.showClientAgency && (
-          <div className="relative group">
-            {readOnly ? (
-              <div
-                className={cn(
-                  "w-full font-semibold p-0 text-right pl-6 text-base whitespace-pre-wrap"
-                )}
-                style={{
-                  fontSize: '18px',
-                  lineHeight: '1.2',
-                  minHeight: '22px',
-                  backgroundColor: 'transparent'
-                }}
-              >
-                {clientAgency || 'Client/Agency'}
-              </div>
-            ) : (
-              <>
-                <Textarea
-                  ref={clientAgencyRef}
-                  value={clientAgency}
-                  onChange={(e) => setClientAgency(e.target.value)}
-                  placeholder="Client/Agency"
-                  className={cn(
-                    "w-full font-semibold resize-none overflow-hidden border-none focus:ring-0 shadow-none p-0 text-right pl-6 text-base"
-                  )}
-                  style={{
-                    fontSize: '18px',
-                    lineHeight: '1.2',
-                    height: 'auto',
-                    minHeight: '22px',
-                    backgroundColor: 'transparent'
-                  }}
-                  rows={1}
-                />
-              </>
-            )}
-            {!readOnly && clientAgency && (
-              <Button variant="ghost" size="icon" className="absolute top-0 left-0 h-full w-6 text-muted-foreground hover:bg-transparent opacity-0 group-hover:opacity-100" onClick={() => setClientAgency('')}><X size={16} /></Button>
-            )}
-          </div>
-        )}
-        {templateSettings.showJobInfo && (
-          <div className="relative group">
-            {readOnly ? (
-              <div
-                className={cn(
-                  "w-full p-0 mt-1 text-right pl-6 text-xs whitespace-pre-wrap"
-                )}
-                style={{
-                  fontSize: '14px',
-                  lineHeight: '1.4',
-                  minHeight: '20px',
-                  marginTop: '4px',
-                  backgroundColor: 'transparent',
-                  color: storyboardTheme.header.text
-                }}
-              >
-                {jobInfo || 'Job Info'}
-              </div>
-            ) : (
-              <>
-                <Textarea
-                  ref={jobInfoRef}
-                  value={jobInfo}
-                  onChange={(e) => setJobInfo(e.target.value)}
-                  placeholder="Job Info"
-                  className={cn(
-                    "w-full resize-none overflow-hidden border-none focus:ring-0 shadow-none p-0 mt-1 text-right pl-6 text-xs"
-                  )}
-                  style={{
-                    fontSize: '14px',
-                    lineHeight: '1.4',
-                    height: 'auto',
-                    minHeight: '20px',
-                    marginTop: '4px',
-                    backgroundColor: 'transparent',
-                    color: storyboardTheme.header.text
-                  }}
-                  rows={1}
-                />
-              </>
-            )}
-            {!readOnly && jobInfo && (
-              <Button variant="ghost" size="icon" className="absolute top-0 left-0 h-full w-6 text-muted-foreground hover:bg-transparent opacity-0 group-hover:opacity-100" onClick={() => setJobInfo('')}><X size={16} /></Button>
-            )}
-          </div>
-        )}
-        {showLowerMetadataRow && !templateSettings.showJobInfo && (
-          <div
-            aria-hidden="true"
-            className="w-full p-0 mt-1 text-right pl-6 text-xs whitespace-pre-wrap invisible pointer-events-none"
-            style={{
-              fontSize: '14px',
-              lineHeight: '1.4',
-              minHeight: '20px',
-              marginTop: '4px',
-              backgroundColor: 'transparent'
-            }}
+  return (
+    <div 
+      className={cn(
+        "flex flex-col w-full max-w-5xl mx-auto pt-8 pb-2 flex-shrink-0 master-header"
+      )}
+      style={{
+        minWidth: `${RENDERED_PAGE_WIDTH_PX}px`,
+        maxWidth: `${RENDERED_PAGE_WIDTH_PX}px`,
+        width: `${RENDERED_PAGE_WIDTH_PX}px`,
+        paddingLeft: headerAlignmentInset,
+        paddingRight: headerAlignmentInset,
+        color: storyboardTheme.header.text,
+      }}
+    >
+      <HeaderSlots
+        balanced={isBalancedHeader(headerLayout, logoPlacement, templateSettings.showLogo)}
+        columns={getHeaderColumns(headerLayout, templateSettings)}
+        logoSlot={templateSettings.showLogo ? logoPlacement : null}
+        renderLogo={renderLogo}
+        renderLine={(line, index, align) => line === 'spacer' ? (
+          <HeaderSpacerLine align={align} />
+        ) : (
+          <EditableHeaderLine
+            line={line}
+            index={index}
+            align={align}
+            value={lineValues[line].value}
+            color={storyboardTheme.header.text}
+            readOnly={readOnly}
+            onChange={lineValues[line].onChange}
           />
         )}
-      </div>
+      />
+      <HeaderFieldsRow layout={headerLayout} fields={getHeaderFields(templateSettings)} />
     </div>
   );
 };
@@ -585,13 +502,20 @@ const ExportMasterHeader: React.FC<{ exportPayload: ServerPDFExportPayload; grid
       ? project.projectLogo.dataUrl
       : project.projectLogo.url
     : null;
-  const showLowerMetadataRow = template.showProjectInfo || template.showJobInfo;
   const headerAlignmentInset = getStoryboardHeaderAlignmentInsetCss(gridCols);
+  const headerLayout = getHeaderLayout(template);
+  const logoPlacement = getLogoPlacement(template);
+  const lineText: Record<HeaderLine, string> = {
+    projectName: project.projectName || 'Project Name',
+    projectInfo: project.projectInfo || 'Project Info',
+    clientAgency: project.clientAgency || 'Client/Agency',
+    jobInfo: project.jobInfo || 'Job Info',
+  };
 
   return (
     <div
       className={cn(
-        "flex items-end justify-between w-full max-w-5xl mx-auto pt-8 pb-2 gap-6 flex-shrink-0 master-header"
+        "flex flex-col w-full max-w-5xl mx-auto pt-8 pb-2 flex-shrink-0 master-header"
       )}
       style={{
         minWidth: `${RENDERED_PAGE_WIDTH_PX}px`,
@@ -602,14 +526,11 @@ const ExportMasterHeader: React.FC<{ exportPayload: ServerPDFExportPayload; grid
         color: theme.header.text,
       }}
     >
-      <div
-        className="flex items-end gap-4"
-        style={{
-          width: '500px',
-          flexShrink: 0
-        }}
-      >
-        {template.showLogo && logoSource && (
+      <HeaderSlots
+        balanced={isBalancedHeader(headerLayout, logoPlacement, template.showLogo)}
+        columns={getHeaderColumns(headerLayout, template)}
+        logoSlot={template.showLogo && logoSource ? logoPlacement : null}
+        renderLogo={() => (
           <div
             className={cn("relative flex-shrink-0", "h-16")}
             style={{
@@ -620,127 +541,24 @@ const ExportMasterHeader: React.FC<{ exportPayload: ServerPDFExportPayload; grid
             }}
           >
             <img
-              src={logoSource}
+              src={logoSource!}
               alt="Project Logo"
               className="w-full h-full object-contain rounded-md"
             />
           </div>
         )}
-
-        <div
-          className="flex-grow"
-          style={{
-            width: '388px',
-            flexShrink: 0
-          }}
-        >
-          {template.showProjectName && (
-            <div
-              className={cn(
-                "w-full font-bold p-0 pr-6 text-lg whitespace-pre-wrap"
-              )}
-              style={{
-                fontSize: '22px',
-                lineHeight: '1.2',
-                minHeight: '26px',
-                backgroundColor: 'transparent'
-              }}
-            >
-              {project.projectName || 'Project Name'}
-            </div>
-          )}
-
-          {template.showProjectInfo && (
-            <div
-              className={cn(
-                "w-full p-0 mt-1 pr-6 text-xs whitespace-pre-wrap"
-              )}
-              style={{
-                fontSize: '14px',
-                lineHeight: '1.4',
-                minHeight: '20px',
-                marginTop: '4px',
-                backgroundColor: 'transparent',
-                color: theme.header.text
-              }}
-            >
-              {project.projectInfo || 'Project Info'}
-            </div>
-          )}
-          {showLowerMetadataRow && !template.showProjectInfo && (
-            <div
-              aria-hidden="true"
-              className={cn(
-                "w-full p-0 mt-1 pr-6 text-xs whitespace-pre-wrap invisible pointer-events-none"
-              )}
-              style={{
-                fontSize: '14px',
-                lineHeight: '1.4',
-                minHeight: '20px',
-                marginTop: '4px',
-                backgroundColor: 'transparent'
-              }}
-            />
-          )}
-        </div>
-      </div>
-
-      <div
-        className="flex-shrink-0 text-right"
-        style={{
-          width: '250px',
-          flexShrink: 0
-        }}
-      >
-        {template.showClientAgency && (
+        renderLine={(line, index, align) => line === 'spacer' ? (
+          <HeaderSpacerLine align={align} />
+        ) : (
           <div
-            className={cn(
-              "w-full font-semibold p-0 text-right pl-6 text-base whitespace-pre-wrap"
-            )}
-            style={{
-              fontSize: '18px',
-              lineHeight: '1.2',
-              minHeight: '22px',
-              backgroundColor: 'transparent'
-            }}
+            className={cn('w-full p-0 whitespace-pre-wrap', getHeaderLinePaddingClass(align))}
+            style={{ ...getHeaderLineStyle(line, index), backgroundColor: 'transparent', color: theme.header.text }}
           >
-            {project.clientAgency || 'Client/Agency'}
+            {lineText[line]}
           </div>
         )}
-
-        {template.showJobInfo && (
-          <div
-            className={cn(
-              "w-full p-0 mt-1 text-right pl-6 text-xs whitespace-pre-wrap"
-            )}
-            style={{
-              fontSize: '14px',
-              lineHeight: '1.4',
-              minHeight: '20px',
-              marginTop: '4px',
-              backgroundColor: 'transparent',
-              color: theme.header.text
-            }}
-          >
-            {project.jobInfo || 'Job Info'}
-          </div>
-        )}
-        {showLowerMetadataRow && !template.showJobInfo && (
-          <div
-            aria-hidden="true"
-            className={cn(
-              "w-full p-0 mt-1 text-right pl-6 text-xs whitespace-pre-wrap invisible pointer-events-none"
-            )}
-            style={{
-              fontSize: '14px',
-              lineHeight: '1.4',
-              minHeight: '20px',
-              marginTop: '4px',
-              backgroundColor: 'transparent'
-            }}
-          />
-        )}
-      </div>
+      />
+      <HeaderFieldsRow layout={headerLayout} fields={getHeaderFields(template)} />
     </div>
   );
 };
@@ -9,6 +9,7 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
 import { FileText, Download, AlertTriangle, Info } from 'lucide-react';
@@ -18,11 +19,25 @@ import { exportManager } from '@/utils/export/exportManager';
 import type { PDFSaveTarget } from '@/utils/export/exportManager';
 import { attachDebugServerPdfPayloadHelpers } from '@/utils/export/debugServerPdfPayload';
 import { MODAL_OVERLAY_STYLES, getGlassmorphismStyles, getColor } from '@/styles/glassmorphism-styles';
-import { getPageSizeSpec, resolvePageSizeMode } from '@/utils/pageSize';
+import {
+  DEFAULT_PRINT_LAYOUT,
+  PRINT_BLEED_LIMITS_INCHES,
+  PRINT_MARGIN_LIMITS_INCHES,
+  PRINT_READY_LAYOUT,
+  getPageSizeDimensionsLabel,
+  getPageSizeSpec,
+  getPrintSheetLayout,
+  isDefaultPrintLayout,
+  resolvePageSizeMode,
+  type PrintLayoutOptions,
+} from '@/utils/pageSize';
 
 export interface PDFExportOptions {
   pages: 'all' | 'current' | 'range';
   pageRange?: { start: number; end: number };
+  includeCoverPage: boolean;
+  includeContentsPage: boolean;
+  printLayout: PrintLayoutOptions; // Ignored in dynamic mode
 }
 
 interface PDFExportModalProps {
@@ -72,6 +87,8 @@ export function PDFExportModal({ isOpen, onClose, currentPageIndex }: PDFExportM
     clientAgency,
     jobInfo,
     pageSizeMode,
+    customPageSize,
+    scenes,
     templateSettings,
     storyboardTheme,
     getPageShots
@@ -82,11 +99,21 @@ export function PDFExportModal({ isOpen, onClose, currentPageIndex }: PDFExportM
   
   const [options, setOptions] = useState<PDFExportOptions>({
     pages: 'all',
-    pageRange: { start: 1, end: pages.length }
+    pageRange: { start: 1, end: pages.length },
+    includeCoverPage: false,
+    includeContentsPage: false,
+    printLayout: { ...DEFAULT_PRINT_LAYOUT }
   });
 
   const normalizedPageSizeMode = resolvePageSizeMode(pageSizeMode);
-  const pageSizeLabel = getPageSizeSpec(normalizedPageSizeMode).label;
+  const pageSizeLabel = getPageSizeSpec(normalizedPageSizeMode, customPageSize).label;
+  const pageDimensionsLabel = getPageSizeDimensionsLabel(normalizedPageSizeMode, customPageSize);
+  const pageSizeSpec = getPageSizeSpec(normalizedPageSizeMode, customPageSize);
+  const printSheetLayout = pageSizeSpec.widthInches && pageSizeSpec.heightInches && !isDefaultPrintLayout(options.printLayout)
+    ? getPrintSheetLayout(pageSizeSpec.widthInches, pageSizeSpec.heightInches, options.printLayout)
+    : null;
+  const isPrintReady = (Object.keys(PRINT_READY_LAYOUT) as Array<keyof PrintLayoutOptions>)
+    .every((key) => options.printLayout[key] === PRINT_READY_LAYOUT[key]);
 
   const sanitizePdfFilenameBase = useCallback((rawName: string): string => {
     const trimmed = rawName.trim();
@@ -208,6 +235,8 @@ export function PDFExportModal({ isOpen, onClose, currentPageIndex }: PDFExportM
         clientAgency,
         jobInfo,
         pageSizeMode,
+        customPageSize,
+        scenes,
         isDragging: false,
         isExporting: true,
         showDeleteConfirmation: true,
@@ -229,7 +258,7 @@ export function PDFExportModal({ isOpen, onClose, currentPageIndex }: PDFExportM
       
       toast({
         title: 'PDF Export Successful',
-        description: `Exported ${pagesToExport.length} page(s) to ${filename}`,
+        description: `Exported ${pagesToExport.length} page(s)${getFrontMatterSummary()} to ${filename}`,
       });
       
       onClose();
@@ -251,6 +280,19 @@ export function PDFExportModal({ isOpen, onClose, currentPageIndex }: PDFExportM
     setOptions(prev => ({ ...prev, [key]: value }));
   };
 
+  const updatePrintLayout = <K extends keyof PrintLayoutOptions>(key: K, value: PrintLayoutOptions[K]) => {
+    setOptions(prev => ({ ...prev, printLayout: { ...prev.printLayout, [key]: value } }));
+  };
+
+  const updatePrintInset = (
+    key: 'marginInches' | 'bleedInches',
+    rawValue: string,
+    limits: { min: number; max: number }
+  ) => {
+    const value = Number.parseFloat(rawValue);
+    updatePrintLayout(key, Number.isFinite(value) ? Math.max(limits.min, Math.min(limits.max, value)) : 0);
+  };
+
   const updatePageRange = (field: 'start' | 'end', value: number) => {
     setOptions(prev => ({
       ...prev,
@@ -279,6 +321,13 @@ export function PDFExportModal({ isOpen, onClose, currentPageIndex }: PDFExportM
     return 0;
   };
 
+  const getFrontMatterSummary = () => {
+    if (options.includeCoverPage && options.includeContentsPage) return ' with a cover and contents';
+    if (options.includeCoverPage) return ' with a cover page';
+    if (options.includeContentsPage) return ' with a contents page';
+    return '';
+  };
+
   const isValidRange = () => {
     if (options.pages !== 'range' || !options.pageRange) return true;
     const { start, end } = options.pageRange;
@@ -421,6 +470,117 @@ export function PDFExportModal({ isOpen, onClose, currentPageIndex }: PDFExportM
                 Controlled from Template Layout
               </p>
             </div>
+            <div className="space-y-2">
+              <Label style={{ color: getColor('text', 'secondary') as string }}>
+                Front Matter
+              </Label>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="pdf-cover-page"
+                  checked={options.includeCoverPage}
+                  onCheckedChange={(checked) => updateOptions('includeCoverPage', checked === true)}
+                />
+                <Label htmlFor="pdf-cover-page" style={{ color: getColor('text', 'secondary') as string }}>
+                  Cover page with logo, project, client, job info and date
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="pdf-contents-page"
+                  checked={options.includeContentsPage}
+                  onCheckedChange={(checked) => updateOptions('includeContentsPage', checked === true)}
+                />
+                <Label htmlFor="pdf-contents-page" style={{ color: getColor('text', 'secondary') as string }}>
+                  Contents page listing each page and its page number
+                </Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label style={{ color: getColor('text', 'secondary') as string }}>
+                Print
+              </Label>
+              {pageDimensionsLabel ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="pdf-print-ready"
+                      checked={isPrintReady}
+                      onCheckedChange={(checked) => updateOptions(
+                        'printLayout',
+                        checked === true ? { ...PRINT_READY_LAYOUT } : { ...DEFAULT_PRINT_LAYOUT }
+                      )}
+                    />
+                    <Label htmlFor="pdf-print-ready" style={{ color: getColor('text', 'secondary') as string }}>
+                      Print-ready: {PRINT_READY_LAYOUT.marginInches} in margins, {PRINT_READY_LAYOUT.bleedInches} in bleed, crop and registration marks
+                    </Label>
+                  </div>
+                  <div className="ml-6 flex items-center gap-2">
+                    <Label htmlFor="pdf-print-margin" style={{ color: getColor('text', 'secondary') as string }}>
+                      Margin (in):
+                    </Label>
+                    <input
+                      id="pdf-print-margin"
+                      type="number"
+                      min={PRINT_MARGIN_LIMITS_INCHES.min}
+                      max={PRINT_MARGIN_LIMITS_INCHES.max}
+                      step="0.125"
+                      value={options.printLayout.marginInches}
+                      onChange={(e) => updatePrintInset('marginInches', e.target.value, PRINT_MARGIN_LIMITS_INCHES)}
+                      className="w-20 px-2 py-1 rounded text-sm"
+                      style={{
+                        backgroundColor: getColor('input', 'background') as string,
+                        border: `1px solid ${getColor('input', 'border') as string}`,
+                        color: getColor('text', 'primary') as string
+                      }}
+                    />
+                    <Label htmlFor="pdf-print-bleed" style={{ color: getColor('text', 'secondary') as string }}>
+                      Bleed (in):
+                    </Label>
+                    <input
+                      id="pdf-print-bleed"
+                      type="number"
+                      min={PRINT_BLEED_LIMITS_INCHES.min}
+                      max={PRINT_BLEED_LIMITS_INCHES.max}
+                      step="0.0625"
+                      value={options.printLayout.bleedInches}
+                      onChange={(e) => updatePrintInset('bleedInches', e.target.value, PRINT_BLEED_LIMITS_INCHES)}
+                      className="w-20 px-2 py-1 rounded text-sm"
+                      style={{
+                        backgroundColor: getColor('input', 'background') as string,
+                        border: `1px solid ${getColor('input', 'border') as string}`,
+                        color: getColor('text', 'primary') as string
+                      }}
+                    />
+                  </div>
+                  <div className="ml-6 flex items-center gap-2">
+                    <Checkbox
+                      id="pdf-crop-marks"
+                      checked={options.printLayout.cropMarks}
+                      onCheckedChange={(checked) => updatePrintLayout('cropMarks', checked === true)}
+                    />
+                    <Label htmlFor="pdf-crop-marks" style={{ color: getColor('text', 'secondary') as string }}>
+                      Crop marks
+                    </Label>
+                    <Checkbox
+                      id="pdf-registration-marks"
+                      className="ml-4"
+                      checked={options.printLayout.registrationMarks}
+                      onCheckedChange={(checked) => updatePrintLayout('registrationMarks', checked === true)}
+                    />
+                    <Label htmlFor="pdf-registration-marks" style={{ color: getColor('text', 'secondary') as string }}>
+                      Registration marks
+                    </Label>
+                  </div>
+                </>
+              ) : (
+                <p
+                  className="text-xs"
+                  style={{ color: getColor('text', 'muted') as string }}
+                >
+                  Margins, bleed and print marks need a fixed page size.
+                </p>
+              )}
+            </div>
             <div className="space-y-2">
               <Label 
                 htmlFor="pdf-filename"
@@ -456,15 +616,20 @@ export function PDFExportModal({ isOpen, onClose, currentPageIndex }: PDFExportM
             <AlertDescription
               style={{ color: getColor('text', 'secondary') as string }}
             >
-              Exporting {getSelectedPageCount()} page(s) as PDF.
+              Exporting {getSelectedPageCount()} page(s){getFrontMatterSummary()} as PDF.
               {normalizedPageSizeMode === 'dynamic' && (
                 <div className="mt-1">
                   Dynamic mode preserves exact layout and measured canvas size.
                 </div>
               )}
-              {(normalizedPageSizeMode === 'letter-portrait' || normalizedPageSizeMode === 'letter-landscape') && (
+              {pageDimensionsLabel && (
+                <div className="mt-1">
+                  {pageSizeLabel} uses fixed {pageDimensionsLabel} sizing from Template Layout.
+                </div>
+              )}
+              {printSheetLayout && (
                 <div className="mt-1">
-                  Letter mode uses fixed 8.5" × 11" sizing from Template Layout.
+                  Printed sheet is {Math.round(printSheetLayout.sheetWidthInches * 100) / 100} × {Math.round(printSheetLayout.sheetHeightInches * 100) / 100} in, trimmed to {pageDimensionsLabel}.
                 </div>
               )}
             </AlertDescription>
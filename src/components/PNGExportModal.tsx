@@ -17,7 +17,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { toast } from '@/hooks/use-toast';
 import { exportManager } from '@/utils/export/exportManager';
 import { MODAL_OVERLAY_STYLES, getGlassmorphismStyles, getColor } from '@/styles/glassmorphism-styles';
-import { getPageSizeSpec, resolvePageSizeMode } from '@/utils/pageSize';
+import { getPageSizeDimensionsLabel, getPageSizeSpec, resolvePageSizeMode } from '@/utils/pageSize';
 
 export interface PNGExportOptions {
   pages: 'all' | 'current' | 'range';
@@ -50,6 +50,7 @@ export function PNGExportModal({ isOpen, onClose, currentPageIndex }: PNGExportM
     clientAgency,
     jobInfo,
     pageSizeMode,
+    customPageSize,
     templateSettings,
     storyboardTheme,
     getPageShots
@@ -63,7 +64,8 @@ export function PNGExportModal({ isOpen, onClose, currentPageIndex }: PNGExportM
   });
 
   const normalizedPageSizeMode = resolvePageSizeMode(pageSizeMode);
-  const pageSizeLabel = getPageSizeSpec(normalizedPageSizeMode).label;
+  const pageSizeLabel = getPageSizeSpec(normalizedPageSizeMode, customPageSize).label;
+  const pageDimensionsLabel = getPageSizeDimensionsLabel(normalizedPageSizeMode, customPageSize);
   const supportsDirectoryExport =
     typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
 
@@ -175,6 +177,7 @@ export function PNGExportModal({ isOpen, onClose, currentPageIndex }: PNGExportM
         clientAgency,
         jobInfo,
         pageSizeMode,
+        customPageSize,
         isDragging: false,
         isExporting: true,
         showDeleteConfirmation: true,
@@ -406,9 +409,9 @@ export function PNGExportModal({ isOpen, onClose, currentPageIndex }: PNGExportM
                   Dynamic mode preserves exact layout and measured canvas size.
                 </div>
               )}
-              {(normalizedPageSizeMode === 'letter-portrait' || normalizedPageSizeMode === 'letter-landscape') && (
+              {pageDimensionsLabel && (
                 <div className="mt-1">
-                  Letter mode uses fixed 8.5&quot; × 11&quot; sizing from Template Layout.
+                  {pageSizeLabel} uses fixed {pageDimensionsLabel} sizing from Template Layout.
                 </div>
               )}
             </AlertDescription>
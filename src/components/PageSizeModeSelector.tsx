@@ -1,115 +1,213 @@
 import { useCallback, useMemo, useState } from 'react';
+import { Ruler } from 'lucide-react';
 import { useAppStore } from '@/store';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
 import { cn } from '@/lib/utils';
 import { getLayoutToolbarContainerStyles, TOOLBAR_STYLES } from '@/styles/toolbar-styles';
 import {
+  MM_PER_INCH,
+  PAGE_SIZE_GROUPS,
   PAGE_SIZE_MODE_OPTIONS,
-  getMaxValidRowsForPageSize,
+  getCustomPageSizeError,
   getPageSizeSpec,
-  isGridLayoutValidForPageSize,
+  getPagesOutsideFrame,
   isPageSizeMode,
+  type CustomPageSize,
   type PageSizeMode,
+  type PageSizeUnit,
 } from '@/utils/pageSize';
+import { hasSceneShots } from '@/utils/scenes';
+import { getHeaderExtraHeightPx } from '@/utils/headerLayout';
+import { hasFooterDetails } from '@/utils/pageFooter';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
 import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+interface GridAdjustment {
+  pageId: string;
+  pageLabel: string;
+  gridCols: number;
+  gridRows: number;
+  adjustedRows: number;
+}
+
+interface CustomSizeDraft {
+  width: string;
+  height: string;
+  unit: PageSizeUnit;
+}
+
+const toDraft = (size: CustomPageSize): CustomSizeDraft => ({
+  width: String(size.width),
+  height: String(size.height),
+  unit: size.unit,
+});
+
+const fromDraft = (draft: CustomSizeDraft): CustomPageSize => ({
+  width: Number.parseFloat(draft.width),
+  height: Number.parseFloat(draft.height),
+  unit: draft.unit,
+});
+
+const convertDimension = (value: string, from: PageSizeUnit, to: PageSizeUnit): string => {
+  const parsed = Number.parseFloat(value);
+  if (!Number.isFinite(parsed) || from === to) {
+    return value;
+  }
+  // Whole millimetres, hundredths of an inch
+  return to === 'mm'
+    ? String(Math.round(parsed * MM_PER_INCH))
+    : String(Math.round((parsed / MM_PER_INCH) * 100) / 100);
+};
 
 export const PageSizeModeSelector: React.FC = () => {
-  const { pageSizeMode, setPageSizeMode, updateGridSize, pages, activePageId, templateSettings } = useAppStore();
-  const activePage = pages.find((page) => page.id === activePageId) ?? null;
+  const {
+    pageSizeMode,
+    customPageSize,
+    setPageSizeMode,
+    updateGridSize,
+    pages,
+    templateSettings,
+    shots,
+  } = useAppStore();
+  const showSceneHeaders = hasSceneShots(shots);
+  const headerExtraHeightPx = getHeaderExtraHeightPx(templateSettings);
+  const showFooterDetails = hasFooterDetails(templateSettings);
   const [pendingSwitch, setPendingSwitch] = useState<{
     mode: PageSizeMode;
-    adjustedRows: number;
+    customPageSize?: CustomPageSize;
+    adjustments: GridAdjustment[];
   } | null>(null);
+  const [customDraft, setCustomDraft] = useState<CustomSizeDraft | null>(null);
 
-  const getModeFitState = useCallback((mode: PageSizeMode): { valid: boolean; maxValidRows: number } => {
-    if (!activePage) {
-      return { valid: true, maxValidRows: 0 };
-    }
-
-    const valid = isGridLayoutValidForPageSize({
+  // Every page keeps its own grid, so each one has to fit the new page size
+  const getGridAdjustments = useCallback((
+    mode: PageSizeMode,
+    size: CustomPageSize = customPageSize
+  ): GridAdjustment[] => {
+    return getPagesOutsideFrame(pages, {
       pageSizeMode: mode,
-      gridRows: activePage.gridRows,
-      gridCols: activePage.gridCols,
-      aspectRatio: activePage.aspectRatio,
+      customPageSize: size,
       showPageNumber: templateSettings.showPageNumber,
-    });
+      showReviewStatus: templateSettings.showReviewStatus,
+      showFooterDetails,
+      showSceneHeaders,
+      headerExtraHeightPx,
+    }).map(({ page, maxValidRows }) => ({
+      pageId: page.id,
+      pageLabel: page.name || `Page ${pages.indexOf(page) + 1}`,
+      gridCols: page.gridCols,
+      gridRows: page.gridRows,
+      adjustedRows: maxValidRows,
+    }));
+  }, [pages, customPageSize, templateSettings.showPageNumber, templateSettings.showReviewStatus, showFooterDetails, showSceneHeaders, headerExtraHeightPx]);
 
-    const maxValidRows = getMaxValidRowsForPageSize({
-      pageSizeMode: mode,
-      gridCols: activePage.gridCols,
-      aspectRatio: activePage.aspectRatio,
-      showPageNumber: templateSettings.showPageNumber,
-      maxRowsToEvaluate: Math.max(activePage.gridRows, 8),
-    });
+  const adjustmentsByMode = useMemo(() => {
+    return Object.fromEntries(
+      PAGE_SIZE_MODE_OPTIONS.map((option) => [option.value, getGridAdjustments(option.value)])
+    ) as Record<PageSizeMode, GridAdjustment[]>;
+  }, [getGridAdjustments]);
 
-    return { valid, maxValidRows };
-  }, [activePage, templateSettings.showPageNumber]);
+  // A page whose columns can't fit even one row has no adjustment to offer
+  const hasUnfittablePage = (adjustments: GridAdjustment[]): boolean =>
+    adjustments.some((adjustment) => adjustment.adjustedRows <= 0);
 
-  const modeFitStateByMode = useMemo(() => {
-    return {
-      dynamic: getModeFitState('dynamic'),
-      'letter-portrait': getModeFitState('letter-portrait'),
-      'letter-landscape': getModeFitState('letter-landscape'),
-    } satisfies Record<PageSizeMode, { valid: boolean; maxValidRows: number }>;
-  }, [getModeFitState]);
+  const isModeDisabled = (mode: PageSizeMode): boolean =>
+    mode !== 'custom' && hasUnfittablePage(adjustmentsByMode[mode]);
 
-  const isModeDisabled = (mode: PageSizeMode): boolean => {
-    if (mode === 'dynamic' || !activePage) {
-      return false;
-    }
-
-    const fitState = modeFitStateByMode[mode];
-    if (fitState.valid) {
-      return false;
+  const switchPageSize = (mode: PageSizeMode, adjustments: GridAdjustment[], size?: CustomPageSize) => {
+    if (adjustments.length === 0) {
+      setPageSizeMode(mode, size);
+      return;
     }
 
-    return fitState.maxValidRows <= 0;
+    setPendingSwitch({ mode, customPageSize: size, adjustments });
   };
 
   const handleModeChange = (value: string) => {
+    if (value === 'custom') {
+      setCustomDraft(toDraft(customPageSize));
+      return;
+    }
     if (!isPageSizeMode(value) || isModeDisabled(value)) {
       return;
     }
 
-    if (value === 'dynamic' || !activePage) {
-      setPageSizeMode(value);
+    switchPageSize(value, adjustmentsByMode[value]);
+  };
+
+  const customDraftSize = customDraft ? fromDraft(customDraft) : null;
+  const customDraftAdjustments = customDraftSize && !getCustomPageSizeError(customDraftSize)
+    ? getGridAdjustments('custom', customDraftSize)
+    : [];
+  const customDraftError = customDraftSize
+    ? getCustomPageSizeError(customDraftSize) ??
+      (hasUnfittablePage(customDraftAdjustments) ? 'Some pages have too many columns to fit this size.' : null)
+    : null;
+
+  const handleCustomUnitChange = (unit: string) => {
+    if (!customDraft || (unit !== 'in' && unit !== 'mm')) {
       return;
     }
 
-    const fitState = modeFitStateByMode[value];
-    if (fitState.valid) {
-      setPageSizeMode(value);
+    setCustomDraft({
+      width: convertDimension(customDraft.width, customDraft.unit, unit),
+      height: convertDimension(customDraft.height, customDraft.unit, unit),
+      unit,
+    });
+  };
+
+  const handleApplyCustomSize = () => {
+    if (!customDraftSize || customDraftError) {
       return;
     }
 
-    setPendingSwitch({
-      mode: value,
-      adjustedRows: fitState.maxValidRows,
-    });
+    setCustomDraft(null);
+    switchPageSize('custom', customDraftAdjustments, customDraftSize);
   };
 
   const handleConfirmSwitch = () => {
-    if (!pendingSwitch || !activePage) {
-      setPendingSwitch(null);
+    if (!pendingSwitch) {
       return;
     }
 
-    setPageSizeMode(pendingSwitch.mode);
-    updateGridSize(activePage.id, pendingSwitch.adjustedRows, activePage.gridCols);
+    setPageSizeMode(pendingSwitch.mode, pendingSwitch.customPageSize);
+    pendingSwitch.adjustments.forEach((adjustment) => {
+      updateGridSize(adjustment.pageId, adjustment.adjustedRows, adjustment.gridCols);
+    });
     setPendingSwitch(null);
   };
 
   const pendingDialogText = useMemo(() => {
-    if (!pendingSwitch || !activePage) {
+    if (!pendingSwitch) {
       return '';
     }
 
-    const pageSizeLabel = getPageSizeSpec(pendingSwitch.mode).label;
-    return `${pageSizeLabel} can’t fit the current ${activePage.gridCols}×${activePage.gridRows} grid.
-Switch to ${pageSizeLabel} and reduce the grid to ${activePage.gridCols}×${pendingSwitch.adjustedRows}?`;
-  }, [pendingSwitch, activePage]);
+    const pageSizeLabel = getPageSizeSpec(pendingSwitch.mode, pendingSwitch.customPageSize).label;
+    const [first] = pendingSwitch.adjustments;
+    if (pendingSwitch.adjustments.length === 1) {
+      return `${pageSizeLabel} can’t fit the current ${first.gridCols}×${first.gridRows} grid on ${first.pageLabel}.
+Switch to ${pageSizeLabel} and reduce the grid to ${first.gridCols}×${first.adjustedRows}?`;
+    }
+
+    const changes = pendingSwitch.adjustments
+      .map((adjustment) => `${adjustment.pageLabel}: ${adjustment.gridCols}×${adjustment.gridRows} → ${adjustment.gridCols}×${adjustment.adjustedRows}`)
+      .join('\n');
+    return `${pageSizeLabel} can’t fit the current grid on ${pendingSwitch.adjustments.length} pages.
+Switch to ${pageSizeLabel} and reduce their grids?
+
+${changes}`;
+  }, [pendingSwitch]);
 
   const handleCancelSwitch = () => {
     setPendingSwitch(null);
@@ -126,30 +224,100 @@ Switch to ${pageSizeLabel} and reduce the grid to ${activePage.gridCols}×${pend
             <Select value={pageSizeMode} onValueChange={handleModeChange}>
               <SelectTrigger
                 className={cn(
-                  "h-5 w-[90px] pl-2 pr-0 border-none shadow-none bg-transparent focus:ring-0 focus:outline-none toolbar-editable-hover hover:text-white text-white rounded-sm transition-colors"
+                  "h-5 w-[140px] pl-2 pr-0 border-none shadow-none bg-transparent focus:ring-0 focus:outline-none toolbar-editable-hover hover:text-white text-white rounded-sm transition-colors"
                 )}
               >
                 <SelectValue />
               </SelectTrigger>
-              <SelectContent className="min-w-[130px]">
-                {PAGE_SIZE_MODE_OPTIONS.map((option) => (
-                  <SelectItem
-                    key={option.value}
-                    value={option.value}
-                    disabled={isModeDisabled(option.value)}
-                  >
-                    {option.label}
-                  </SelectItem>
+              <SelectContent className="min-w-[170px]">
+                {PAGE_SIZE_GROUPS.map((group) => (
+                  <SelectGroup key={group}>
+                    <SelectLabel className="text-xs opacity-60">{group}</SelectLabel>
+                    {PAGE_SIZE_MODE_OPTIONS.filter((option) => option.group === group).map((option) => (
+                      <SelectItem
+                        key={option.value}
+                        value={option.value}
+                        disabled={isModeDisabled(option.value)}
+                      >
+                        {option.value === 'custom' ? `${option.label}…` : option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
                 ))}
               </SelectContent>
             </Select>
+            {pageSizeMode === 'custom' && (
+              <button
+                type="button"
+                onClick={() => setCustomDraft(toDraft(customPageSize))}
+                className="flex h-5 items-center px-1 text-white rounded-sm toolbar-editable-hover"
+                aria-label="Edit custom page size"
+              >
+                <Ruler className="h-3 w-3" />
+              </button>
+            )}
           </div>
         </TooltipTrigger>
         <TooltipContent>
-          <p>Page Size</p>
+          <p>{pageSizeMode === 'custom' ? getPageSizeSpec('custom', customPageSize).label : 'Page Size'}</p>
         </TooltipContent>
       </Tooltip>
 
+      <Dialog open={Boolean(customDraft)} onOpenChange={(open) => !open && setCustomDraft(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Custom Page Size</DialogTitle>
+            <DialogDescription>
+              Preview and PDF export use these page dimensions.
+            </DialogDescription>
+          </DialogHeader>
+          {customDraft && (
+            <div className="flex items-end gap-2">
+              <div className="flex flex-1 flex-col gap-1">
+                <Label htmlFor="custom-page-width" className="text-xs">Width</Label>
+                <Input
+                  id="custom-page-width"
+                  type="number"
+                  min={0}
+                  step={customDraft.unit === 'mm' ? 1 : 0.25}
+                  value={customDraft.width}
+                  onChange={(event) => setCustomDraft({ ...customDraft, width: event.target.value })}
+                />
+              </div>
+              <div className="flex flex-1 flex-col gap-1">
+                <Label htmlFor="custom-page-height" className="text-xs">Height</Label>
+                <Input
+                  id="custom-page-height"
+                  type="number"
+                  min={0}
+                  step={customDraft.unit === 'mm' ? 1 : 0.25}
+                  value={customDraft.height}
+                  onChange={(event) => setCustomDraft({ ...customDraft, height: event.target.value })}
+                />
+              </div>
+              <Select value={customDraft.unit} onValueChange={handleCustomUnitChange}>
+                <SelectTrigger className="w-[72px]" aria-label="Unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="in">in</SelectItem>
+                  <SelectItem value="mm">mm</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {customDraftError && <p className="text-xs text-red-500">{customDraftError}</p>}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCustomDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleApplyCustomSize} disabled={Boolean(customDraftError)}>
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={Boolean(pendingSwitch)} onOpenChange={(open) => !open && handleCancelSwitch()}>
         <DialogContent>
           <DialogHeader>
@@ -35,7 +35,7 @@ import { useAuthStore } from '@/store/authStore';
 import { canCreateProjectServerSide } from '@/utils/projectCreationGate';
 import { useProjectConflictStore } from '@/store/projectConflictStore';
 import { CloudAccessService, type CloudAccessState } from '@/services/cloudAccessService';
-import { getProjectOpenState, type ProjectKind } from '@/services/projectOpenGate';
+import { getProjectOpenState, onProjectOpenRequest, type ProjectKind } from '@/services/projectOpenGate';
 import {
   getWorkspaceMode,
   onWorkspaceModeChange,
@@ -180,6 +180,9 @@ export const ProjectDropdown = ({
     </Button>
   );
 
+  const openRequestedProjectRef = React.useRef<(projectId: string) => void>();
+  useEffect(() => onProjectOpenRequest((projectId) => openRequestedProjectRef.current?.(projectId)), []);
+
   // Fallback if project system isn't ready yet
   if (!sortedProjects) {
     return (
@@ -266,6 +269,14 @@ export const ProjectDropdown = ({
     }
   };
 
+  // Opens requested from elsewhere (command palette) take the same path as a click
+  openRequestedProjectRef.current = (projectId: string) => {
+    const project = allProjects.find((candidate) => candidate.id === projectId);
+    if (project && project.id !== currentProject?.id) {
+      void handleProjectSelect(project);
+    }
+  };
+
   const handleDeleteProject = async (projectId: string) => {
     if (deletingProjectId === projectId) {
       return;
@@ -0,0 +1,92 @@
+import { useMemo } from 'react';
+import { ChevronDown, Filter } from 'lucide-react';
+import { useAppStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { getLayoutToolbarContainerStyles, TOOLBAR_STYLES } from '@/styles/toolbar-styles';
+import {
+  SHOT_REVIEW_STATUS_OPTIONS,
+  getShotReviewStatus,
+  getShotReviewStatusOption,
+  isShotReviewStatus,
+  type ShotReviewStatus,
+} from '@/utils/shotReviewStatus';
+
+const ALL_STATUSES_VALUE = 'all';
+
+interface ReviewStatusFilterProps {
+  disabled?: boolean;
+}
+
+/**
+ * Page view filter. Shots outside the selected status are dimmed in the grid.
+ */
+export const ReviewStatusFilter: React.FC<ReviewStatusFilterProps> = ({ disabled = false }) => {
+  const { shots, reviewStatusFilter, setReviewStatusFilter } = useAppStore();
+
+  const countsByStatus = useMemo(() => {
+    const counts = Object.fromEntries(
+      SHOT_REVIEW_STATUS_OPTIONS.map((option) => [option.value, 0])
+    ) as Record<ShotReviewStatus, number>;
+    Object.values(shots).forEach((shot) => {
+      counts[getShotReviewStatus(shot)] += 1;
+    });
+    return counts;
+  }, [shots]);
+
+  const activeOption = reviewStatusFilter ? getShotReviewStatusOption(reviewStatusFilter) : null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="compact"
+          disabled={disabled}
+          className="px-2"
+          style={getLayoutToolbarContainerStyles()}
+          aria-label="Filter shots by review status"
+        >
+          {activeOption ? (
+            <span
+              className="mr-1 inline-block h-2 w-2 rounded-full"
+              style={{ backgroundColor: activeOption.color }}
+            />
+          ) : (
+            <Filter size={16} className={`mr-0.25 ${TOOLBAR_STYLES.iconClasses}`} />
+          )}
+          {activeOption ? activeOption.label : 'All Shots'}
+          <ChevronDown size={14} className={`ml-0.25 ${TOOLBAR_STYLES.iconClasses}`} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuRadioGroup
+          value={reviewStatusFilter ?? ALL_STATUSES_VALUE}
+          onValueChange={(value) => setReviewStatusFilter(isShotReviewStatus(value) ? value : null)}
+        >
+          <DropdownMenuRadioItem value={ALL_STATUSES_VALUE}>All Shots</DropdownMenuRadioItem>
+          <DropdownMenuSeparator />
+          {SHOT_REVIEW_STATUS_OPTIONS.map((option) => (
+            <DropdownMenuRadioItem key={option.value} value={option.value}>
+              <span
+                className="mr-2 inline-block h-2 w-2 rounded-full"
+                style={{ backgroundColor: option.color }}
+              />
+              <span className="flex-1">{option.label}</span>
+              <span className="ml-4 text-xs opacity-60">{countsByStatus[option.value]}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+ReviewStatusFilter.displayName = 'ReviewStatusFilter';
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getSceneHeaderStyle, getSceneHeaderText, type SceneHeader as SceneHeaderInfo } from '@/utils/scenes';
+
+interface SceneHeaderProps {
+  header: Pick<SceneHeaderInfo, 'label' | 'name' | 'continued'>;
+  textColor: string;
+  borderColor: string;
+  onRename?: (name: string) => void;
+  onRemove?: () => void;
+}
+
+/**
+ * Full-width grid row above the first shot of a scene (and above the first
+ * shot of a page the scene carries over to).
+ */
+export const SceneHeader: React.FC<SceneHeaderProps> = ({
+  header,
+  textColor,
+  borderColor,
+  onRename,
+  onRemove,
+}) => {
+  const [draftName, setDraftName] = useState(header.name);
+
+  useEffect(() => {
+    setDraftName(header.name);
+  }, [header.name]);
+
+  const commitName = () => {
+    if (onRename && draftName !== header.name) {
+      onRename(draftName);
+    }
+  };
+
+  return (
+    <div
+      className="scene-header group/scene"
+      style={{ gridColumn: '1 / -1', ...getSceneHeaderStyle(textColor, borderColor) }}
+    >
+      <span className="scene-header-label" style={{ fontWeight: 700 }}>{header.label}</span>
+      {onRename ? (
+        <>
+          <input
+            value={draftName}
+            onChange={(event) => setDraftName(event.target.value)}
+            onBlur={commitName}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.currentTarget.blur();
+              } else if (event.key === 'Escape') {
+                setDraftName(header.name);
+                event.currentTarget.blur();
+              }
+            }}
+            placeholder="Scene name"
+            aria-label={`${header.label} name`}
+            className="min-w-0 flex-1 bg-transparent outline-none placeholder:opacity-40"
+            style={{ color: 'inherit' }}
+          />
+          {header.continued && <span className="opacity-60">(cont'd)</span>}
+        </>
+      ) : (
+        <span className="scene-header-name min-w-0 flex-1 truncate">{getSceneHeaderText(header)}</span>
+      )}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className={cn(
+            'flex h-5 w-5 items-center justify-center rounded opacity-0 transition-opacity',
+            'group-hover/scene:opacity-60 hover:!opacity-100 focus:opacity-100',
+            '[@media(hover:none)]:opacity-60'
+          )}
+          title="Remove scene (shots join the previous scene)"
+          aria-label={`Remove ${header.label}`}
+        >
+          <X size={14} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+SceneHeader.displayName = 'SceneHeader';
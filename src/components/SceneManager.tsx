@@ -0,0 +1,195 @@
+import { useEffect, useId, useMemo, useState } from 'react';
+import { Film, Trash2 } from 'lucide-react';
+import { useAppStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { getLayoutToolbarContainerStyles, TOOLBAR_STYLES } from '@/styles/toolbar-styles';
+import { formatSceneLabel, getSceneOrdinals, getShotSceneId, startsSceneRun } from '@/utils/scenes';
+
+interface SceneManagerProps {
+  disabled?: boolean;
+}
+
+/**
+ * Toolbar popover for scenes: list/rename/remove, start a scene at a shot,
+ * scene number format and the scene-per-page option. Scenes can also be
+ * started from a shot's action menu and renamed from their grid header.
+ */
+export const SceneManager: React.FC<SceneManagerProps> = ({ disabled = false }) => {
+  const {
+    shots,
+    shotOrder,
+    scenes,
+    startScenesOnNewPage,
+    templateSettings,
+    setTemplateSetting,
+    renumberAllShotsImmediate,
+    startSceneAtShot,
+    renameScene,
+    removeScene,
+    setStartScenesOnNewPage,
+  } = useAppStore();
+  const idPrefix = useId();
+  const [startShotId, setStartShotId] = useState<string>('');
+  const [formatInput, setFormatInput] = useState(templateSettings.sceneNumberFormat ?? '');
+
+  useEffect(() => {
+    setFormatInput(templateSettings.sceneNumberFormat ?? '');
+  }, [templateSettings.sceneNumberFormat]);
+
+  const orderedScenes = useMemo(() => {
+    const ordinals = getSceneOrdinals(shotOrder, shots);
+    const shotCounts = new Map<string, number>();
+    shotOrder.forEach((shotId) => {
+      const sceneId = getShotSceneId(shots[shotId]);
+      if (sceneId) shotCounts.set(sceneId, (shotCounts.get(sceneId) ?? 0) + 1);
+    });
+    return Array.from(ordinals.entries()).map(([sceneId, ordinal]) => ({
+      id: sceneId,
+      label: formatSceneLabel(ordinal, templateSettings.sceneNumberFormat),
+      name: scenes[sceneId]?.name ?? '',
+      shotCount: shotCounts.get(sceneId) ?? 0,
+    }));
+  }, [shotOrder, shots, scenes, templateSettings.sceneNumberFormat]);
+
+  // Shots that already open a scene can't start another one
+  const startableShots = useMemo(
+    () => shotOrder
+      .filter((shotId, index) => shots[shotId] && !startsSceneRun(shots[shotId], shots[shotOrder[index - 1]]))
+      .map((shotId) => shots[shotId]),
+    [shotOrder, shots]
+  );
+
+  const commitFormat = () => {
+    const value = formatInput.trim();
+    if (value === (templateSettings.sceneNumberFormat ?? '')) return;
+    setTemplateSetting('sceneNumberFormat', value);
+    renumberAllShotsImmediate();
+  };
+
+  const handleStartScene = () => {
+    if (!startShotId) return;
+    startSceneAtShot(startShotId);
+    setStartShotId('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="compact"
+          disabled={disabled}
+          className="px-2"
+          style={getLayoutToolbarContainerStyles()}
+        >
+          <Film size={16} className={`mr-0.25 ${TOOLBAR_STYLES.iconClasses}`} />
+          Scenes{orderedScenes.length > 0 ? ` (${orderedScenes.length})` : ''}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-3">
+        <div className="flex flex-col gap-3">
+          {orderedScenes.length === 0 ? (
+            <p className="text-xs opacity-60">
+              No scenes yet. Start one at any shot; it runs until the next scene.
+            </p>
+          ) : (
+            <div className="flex max-h-60 flex-col gap-1 overflow-y-auto">
+              {orderedScenes.map((scene) => (
+                <div key={scene.id} className="flex items-center gap-2">
+                  <span className="w-12 shrink-0 text-xs font-semibold">{scene.label}</span>
+                  <Input
+                    key={scene.name}
+                    defaultValue={scene.name}
+                    placeholder="Scene name"
+                    className="h-7 text-xs"
+                    aria-label={`${scene.label} name`}
+                    onBlur={(event) => {
+                      if (event.target.value !== scene.name) {
+                        renameScene(scene.id, event.target.value);
+                      }
+                    }}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') event.currentTarget.blur();
+                    }}
+                  />
+                  <span className="w-12 shrink-0 text-right text-xs opacity-60">
+                    {scene.shotCount} {scene.shotCount === 1 ? 'shot' : 'shots'}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => removeScene(scene.id)}
+                    aria-label={`Remove ${scene.label}`}
+                    title="Remove scene (shots join the previous scene)"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div className="flex flex-1 flex-col gap-1">
+              <Label htmlFor={`${idPrefix}-start`} className="text-xs">Start a scene at</Label>
+              <Select value={startShotId} onValueChange={setStartShotId}>
+                <SelectTrigger id={`${idPrefix}-start`} className="h-8 text-xs">
+                  <SelectValue placeholder="Choose shot" />
+                </SelectTrigger>
+                <SelectContent>
+                  {startableShots.map((shot) => (
+                    <SelectItem key={shot.id} value={shot.id}>
+                      Shot {shot.number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button size="sm" className="h-8" onClick={handleStartScene} disabled={!startShotId}>
+              Add Scene
+            </Button>
+          </div>
+
+          <Separator />
+
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor={`${idPrefix}-format`} className="text-xs">
+              Scene numbers
+              <span className="block font-normal opacity-60">Blank keeps plain shot numbers</span>
+            </Label>
+            <Input
+              id={`${idPrefix}-format`}
+              value={formatInput}
+              onChange={(event) => setFormatInput(event.target.value)}
+              onBlur={commitFormat}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') event.currentTarget.blur();
+              }}
+              placeholder="SC01"
+              maxLength={10}
+              className="h-8 w-20 text-xs"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor={`${idPrefix}-new-page`} className="text-xs">Start each scene on a new page</Label>
+            <Switch
+              id={`${idPrefix}-new-page`}
+              checked={startScenesOnNewPage}
+              onCheckedChange={setStartScenesOnNewPage}
+            />
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+SceneManager.displayName = 'SceneManager';
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { useUIStore } from '@/store/uiStore';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import {
+  EDITOR_COMMANDS,
+  EDITOR_COMMAND_GROUPS,
+  FIXED_SHORTCUTS,
+  findShortcutConflict,
+  formatKeyCombo,
+  getKeyComboFromEvent,
+  resolveShortcuts,
+  type EditorCommandId,
+} from '@/utils/shortcuts';
+
+interface ShortcutSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KeyChip: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <kbd className="rounded border border-black/15 bg-black/5 px-1.5 py-0.5 font-mono text-[11px]">{children}</kbd>
+);
+
+/**
+ * Cheat sheet of every shortcut. Clicking a command's keys records a new
+ * combo; Escape cancels and Backspace leaves the command unbound.
+ */
+export const ShortcutSheet: React.FC<ShortcutSheetProps> = ({ open, onOpenChange }) => {
+  const { shortcutOverrides, setShortcutOverride, resetShortcutOverrides } = useUIStore();
+  const shortcuts = resolveShortcuts(shortcutOverrides);
+  const [recordingId, setRecordingId] = useState<EditorCommandId | null>(null);
+  const [conflictMessage, setConflictMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setRecordingId(null);
+      setConflictMessage(null);
+    }
+  }, [open]);
+
+  // Capture phase on window runs before the editor shortcuts and the dialog's
+  // own Escape handling
+  useEffect(() => {
+    if (!recordingId) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+
+      if (event.key === 'Escape') {
+        setRecordingId(null);
+        return;
+      }
+      if (event.key === 'Backspace' || event.key === 'Delete') {
+        setShortcutOverride(recordingId, []);
+        setRecordingId(null);
+        return;
+      }
+
+      const combo = getKeyComboFromEvent(event);
+      if (!combo) return;
+      const conflict = findShortcutConflict(shortcuts, combo, recordingId);
+      if (conflict) {
+        setConflictMessage(`${formatKeyCombo(combo)} is already used by ${conflict.label}.`);
+        return;
+      }
+
+      setShortcutOverride(recordingId, [combo]);
+      setRecordingId(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, shortcuts, setShortcutOverride]);
+
+  const startRecording = (commandId: EditorCommandId) => {
+    setConflictMessage(null);
+    setRecordingId(commandId);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Click a shortcut to change it. Press the new keys, Backspace to remove it or Esc to cancel.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflictMessage && <p className="text-xs text-red-500">{conflictMessage}</p>}
+
+        <div className="grid gap-x-6 gap-y-4 sm:grid-cols-2">
+          {EDITOR_COMMAND_GROUPS.map((group) => (
+            <div key={group} className="flex flex-col gap-1">
+              <h3 className="text-xs font-semibold uppercase opacity-60">{group}</h3>
+              {EDITOR_COMMANDS.filter((command) => command.group === group).map((command) => {
+                const keys = shortcuts[command.id];
+                const isOverridden = command.id in shortcutOverrides;
+                return (
+                  <div key={command.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span>{command.label}</span>
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => startRecording(command.id)}
+                        className={cn(
+                          'flex min-h-6 items-center gap-1 rounded px-1 hover:bg-black/5',
+                          recordingId === command.id && 'ring-1 ring-blue-500'
+                        )}
+                        aria-label={`Change shortcut for ${command.label}`}
+                      >
+                        {recordingId === command.id ? (
+                          <span className="text-xs opacity-70">Press keys…</span>
+                        ) : keys.length > 0 ? (
+                          keys.map((combo) => <KeyChip key={combo}>{formatKeyCombo(combo)}</KeyChip>)
+                        ) : (
+                          <span className="text-xs opacity-50">Not set</span>
+                        )}
+                      </button>
+                      {isOverridden && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => setShortcutOverride(command.id, null)}
+                          aria-label={`Reset shortcut for ${command.label}`}
+                          title="Reset to default"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          <div className="flex flex-col gap-1">
+            <h3 className="text-xs font-semibold uppercase opacity-60">Shots</h3>
+            {FIXED_SHORTCUTS.map((shortcut) => (
+              <div key={shortcut.label} className="flex items-center justify-between gap-2 text-sm">
+                <span>{shortcut.label}</span>
+                <span className="flex shrink-0 items-center gap-1">
+                  {shortcut.keys.split(' · ').map((combo) => (
+                    <KeyChip key={combo}>{formatKeyCombo(combo)}</KeyChip>
+                  ))}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {Object.keys(shortcutOverrides).length > 0 && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={resetShortcutOverrides}>
+              Reset All Shortcuts
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+ShortcutSheet.displayName = 'ShortcutSheet';
@@ -4,7 +4,7 @@ import { CSS } from '@dnd-kit/utilities';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Shot, useAppStore } from '@/store';
-import { Move, Plus, X } from 'lucide-react';
+import { Ban, Lock, Move, Pencil, Plus, RotateCcw, SeparatorVertical, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
 import { compressImage, getImageSource, revokeImageObjectURL, shouldAllowImageUpload, getImageUploadLimitMessage, AUTO_COMPRESS_THRESHOLD } from '@/utils/imageCompression';
@@ -13,9 +13,50 @@ import { SecurityNotificationService } from '@/services/securityNotificationServ
 import { getColor } from '@/styles/glassmorphism-styles';
 import { getShotTextSpacing } from '@/styles/storyboardTheme';
 import type { ServerPDFExportPayload } from '@/utils/types/exportTypes';
-import { calculateCoverImageGeometry } from '@/utils/imageGeometry';
+import {
+  calculateCoverImageGeometry,
+  getImageOrientation,
+  getImageOrientationTransform,
+  type ImageOrientation,
+} from '@/utils/imageGeometry';
 import { getEffectiveImageFrameBorderWidth } from '@/utils/export/previewDimensions';
 import { ShotActions } from '@/components/shot-card/ShotActions';
+import { ShotCameraDetails } from '@/components/shot-card/ShotCameraDetails';
+import { ShotReviewStatusBadge } from '@/components/shot-card/ShotReviewStatusBadge';
+import { OmittedShotPlaceholder } from '@/components/shot-card/OmittedShotPlaceholder';
+import { ShotTakeSwitcher } from '@/components/shot-card/ShotTakeSwitcher';
+import { ShotSketchLayer } from '@/components/shot-card/ShotSketchLayer';
+import { ShotAnnotationLayer } from '@/components/shot-card/ShotAnnotationLayer';
+import {
+  DEFAULT_SHOT_REVIEW_STATUS,
+  OMITTED_SHOT_REVIEW_STATUS,
+  getShotReviewStatus,
+  isShotOmitted,
+} from '@/utils/shotReviewStatus';
+import { addImageTake, getShotImageTakes } from '@/utils/imageTakes';
+import { getSketchStrokes, hasSketch } from '@/utils/sketch';
+import { getShotAnnotations, hasAnnotations } from '@/utils/annotations';
+import { ShotRichText } from '@/components/shot-card/ShotRichText';
+import { ShotCustomFields } from '@/components/shot-card/ShotCustomFields';
+import { ShotTextFormatToolbar, type ShotTextFormatAction } from '@/components/shot-card/ShotTextFormatToolbar';
+import { hasRichTextMarkup, toggleRichTextBullets, toggleRichTextFormat } from '@/utils/richText';
+import {
+  getCustomFieldEntries,
+  getCustomFieldRichText,
+  getCustomFields,
+  getShotCustomFieldValues,
+  getVisibleCustomFields,
+} from '@/utils/customFields';
+
+type ShotTextField = 'actionText' | 'scriptText';
+
+const SHOT_TEXT_MAX_LENGTH = 200;
+
+const TEXT_FORMAT_SHORTCUTS: Record<string, ShotTextFormatAction> = {
+  b: 'bold',
+  i: 'italic',
+  u: 'underline',
+};
 
 interface ShotCardProps {
   shot: Shot;
@@ -24,6 +65,13 @@ interface ShotCardProps {
   onAddSubShot: () => void;
   onInsertShot: () => void;
   onEditImage?: () => void;
+  onStartScene?: () => void;
+  onToggleNumberLock?: () => void;
+  // Manual page break before this shot; omitted for the board's first shot
+  onTogglePageBreak?: () => void;
+  // Shift/Ctrl/Cmd-click on the card (outside text fields) selects it for bulk actions
+  onSelect?: (event: React.MouseEvent) => void;
+  isSelected?: boolean;
   isOverlay?: boolean;
   isEditing?: boolean;
   onEditUpdate?: (updates: Partial<Shot>) => void;
@@ -45,6 +93,7 @@ interface TransformedCoverImageProps {
   imageScale: number;
   offsetX: number;
   offsetY: number;
+  orientation: ImageOrientation;
   borderRadius: number;
   onError?: () => void;
 }
@@ -57,6 +106,7 @@ const TransformedCoverImage: React.FC<TransformedCoverImageProps> = ({
   imageScale,
   offsetX,
   offsetY,
+  orientation,
   borderRadius,
   onError,
 }) => {
@@ -71,7 +121,8 @@ const TransformedCoverImage: React.FC<TransformedCoverImageProps> = ({
       naturalSize.width,
       naturalSize.height,
       containerWidth,
-      containerHeight
+      containerHeight,
+      orientation.rotation
     )
     : null;
 
@@ -89,7 +140,7 @@ const TransformedCoverImage: React.FC<TransformedCoverImageProps> = ({
         visibility: geometry ? 'visible' : 'hidden',
         borderRadius: `${borderRadius}px`,
         transform: geometry
-          ? `scale(${imageScale}) translate(${offsetX}px, ${offsetY}px)`
+          ? `scale(${imageScale}) translate(${offsetX}px, ${offsetY}px)${getImageOrientationTransform(orientation)}`
           : undefined,
         transformOrigin: 'center center',
         maxWidth: 'none',
@@ -115,7 +166,12 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
   onDelete,
   onAddSubShot,
   onInsertShot,
+  onStartScene,
+  onToggleNumberLock,
+  onTogglePageBreak,
   onEditImage,
+  onSelect,
+  isSelected = false,
   isOverlay = false,
   isEditing = false,
   onEditUpdate,
@@ -129,10 +185,13 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
 }) => {
   const { templateSettings, storyboardTheme } = useAppStore();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // The next picked file becomes a new take instead of replacing the image
+  const addsTakeRef = useRef(false);
   const actionTextareaRef = useRef<HTMLTextAreaElement>(null);
   const scriptTextareaRef = useRef<HTMLTextAreaElement>(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const [imageError, setImageError] = useState(false);
+  const [focusedTextField, setFocusedTextField] = useState<ShotTextField | null>(null);
   const actionTextSpacing = getShotTextSpacing(storyboardTheme.actionText.fontSize);
   const scriptTextSpacing = getShotTextSpacing(storyboardTheme.scriptText.fontSize);
   const effectiveImageFrameBorderWidth = getEffectiveImageFrameBorderWidth(storyboardTheme.imageFrame);
@@ -146,7 +205,7 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
     });
 
     return () => cancelAnimationFrame(animationFrame);
-  }, [shot.actionText, actionTextSpacing.fontSize, actionTextSpacing.blockPaddingY, templateSettings.showActionText]);
+  }, [shot.actionText, actionTextSpacing.fontSize, actionTextSpacing.blockPaddingY, templateSettings.showActionText, focusedTextField]);
 
   useEffect(() => {
     const animationFrame = requestAnimationFrame(() => {
@@ -157,7 +216,17 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
     });
 
     return () => cancelAnimationFrame(animationFrame);
-  }, [shot.scriptText, scriptTextSpacing.fontSize, scriptTextSpacing.blockPaddingY, templateSettings.showScriptText]);
+  }, [shot.scriptText, scriptTextSpacing.fontSize, scriptTextSpacing.blockPaddingY, templateSettings.showScriptText, focusedTextField]);
+
+  // Clicking formatted text swaps in the textarea; move focus into it
+  useEffect(() => {
+    if (!focusedTextField) return;
+    const textarea = focusedTextField === 'actionText' ? actionTextareaRef.current : scriptTextareaRef.current;
+    if (textarea && document.activeElement !== textarea) {
+      textarea.focus();
+      textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    }
+  }, [focusedTextField]);
 
   const {
     attributes,
@@ -187,6 +256,22 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
     transition
   };
   const isDragPresentation = isDragging || isOverlay;
+  const reviewStatus = getShotReviewStatus(shot);
+  const customFields = getVisibleCustomFields(getCustomFields(templateSettings));
+  const omitted = isShotOmitted(shot);
+  const handleSelectClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSelect || !(event.shiftKey || event.metaKey || event.ctrlKey)) return;
+    const target = event.target as HTMLElement;
+    if (target.closest('input, textarea, [contenteditable="true"]')) return;
+
+    // Selecting takes precedence over the card's own click actions
+    event.preventDefault();
+    event.stopPropagation();
+    onSelect(event);
+  };
+  const handleToggleOmitted = () => onUpdate({
+    reviewStatus: omitted ? DEFAULT_SHOT_REVIEW_STATUS : OMITTED_SHOT_REVIEW_STATUS,
+  });
 
   // Calculate aspect ratio for image container
   const getAspectRatioStyle = (ratio: string) => {
@@ -196,7 +281,12 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
     };
   };
 
-  const handleFileSelect = async (files: FileList | null) => {
+  const openImagePicker = (asNewTake = false) => {
+    addsTakeRef.current = asNewTake;
+    fileInputRef.current?.click();
+  };
+
+  const handleFileSelect = async (files: FileList | null, asNewTake = false) => {
     if (!files || files.length === 0) return;
     const file = files[0];
     if (!file.type.startsWith('image/')) {
@@ -225,13 +315,19 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
       // Compress and convert to base64
       const compressedResult = await compressImage(file);
       
-      // Update shot with both session file and persistent base64
-      onUpdate({ 
-        imageFile: file,           // For current session
+      const image = {
         imageData: compressedResult.dataUrl, // For persistence
         imageUrl: undefined,       // Replacing an image invalidates any previous cloud URL
         imageSize: file.size,
-        imageStorageType: 'base64'
+        imageStorageType: 'base64' as const
+      };
+
+      const takeUpdates = asNewTake ? addImageTake(shot, image) : null;
+
+      // Update shot with both session file and persistent base64
+      onUpdate({
+        imageFile: file,           // For current session
+        ...(takeUpdates ?? image)
       });
       if (import.meta.env.DEV) {
         const { logSingleImageUploadDiagnostics } = await import('@/utils/storyboardDiagnostics');
@@ -241,7 +337,9 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
       setImageError(false);
       
       // Show appropriate success message
-      if (compressedResult.wasCompressed) {
+      if (takeUpdates) {
+        toast.success(`Take ${takeUpdates.imageTakes.length} added`);
+      } else if (compressedResult.wasCompressed) {
         toast.success(`Image auto-compressed from ${(compressedResult.originalSize / 1024).toFixed(1)}KB to ${(compressedResult.size / 1024).toFixed(1)}KB (${compressedResult.compressionRatio.toFixed(1)}x smaller)`);
       } else {
         toast.success(`Image added successfully`);
@@ -280,6 +378,102 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
     onUpdate({ scriptText: value });
   };
 
+  const getTextarea = (field: ShotTextField) =>
+    field === 'actionText' ? actionTextareaRef.current : scriptTextareaRef.current;
+
+  const applyTextFormat = (field: ShotTextField, action: ShotTextFormatAction) => {
+    const textarea = getTextarea(field);
+    if (!textarea || readOnly) return;
+    const edit = action === 'bullet'
+      ? toggleRichTextBullets(textarea.value, textarea.selectionStart, textarea.selectionEnd)
+      : toggleRichTextFormat(textarea.value, textarea.selectionStart, textarea.selectionEnd, action);
+    if (edit.value.length > SHOT_TEXT_MAX_LENGTH) return;
+    onUpdate({ [field]: edit.value });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  const handleTextKeyDown = (field: ShotTextField) => (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(event.metaKey || event.ctrlKey) || event.altKey || event.shiftKey) return;
+    const action = TEXT_FORMAT_SHORTCUTS[event.key.toLowerCase()];
+    if (!action) return;
+    event.preventDefault();
+    applyTextFormat(field, action);
+  };
+
+  // Formatted text shows until the field is clicked; the textarea then shows
+  // the markup for editing
+  const renderTextField = (field: ShotTextField) => {
+    const isAction = field === 'actionText';
+    const spacing = isAction ? actionTextSpacing : scriptTextSpacing;
+    const color = isAction ? storyboardTheme.actionText.text : storyboardTheme.scriptText.text;
+    const text = shot[field] || '';
+    const isStatic = readOnly || isDragPresentation;
+    const textClassName = cn(
+      isAction && 'font-semibold',
+      'text-xs px-1 py-0.5',
+      isAction ? 'action-text' : 'script-text'
+    );
+    const textStyle: React.CSSProperties = {
+      color,
+      fontSize: `${spacing.fontSize}px`,
+      lineHeight: spacing.lineHeight,
+      paddingTop: `${spacing.blockPaddingY}px`,
+      paddingBottom: `${spacing.blockPaddingY}px`
+    };
+
+    if (isStatic || (focusedTextField !== field && hasRichTextMarkup(text))) {
+      return (
+        <div
+          className={cn(
+            'w-full border-0 rounded-sm bg-transparent whitespace-pre-wrap',
+            textClassName,
+            !isStatic && 'cursor-text'
+          )}
+          style={textStyle}
+          data-shot-field={isStatic ? undefined : field}
+          onClick={isStatic ? undefined : () => setFocusedTextField(field)}
+        >
+          <ShotRichText text={text} />
+        </div>
+      );
+    }
+
+    return (
+      <div className="relative">
+        {focusedTextField === field && (
+          <ShotTextFormatToolbar
+            className="absolute bottom-full right-0 z-20 mb-1"
+            onFormat={(action) => applyTextFormat(field, action)}
+          />
+        )}
+        <Textarea
+          ref={isAction ? actionTextareaRef : scriptTextareaRef}
+          data-shot-field={field}
+          placeholder={isAction ? 'Action text...' : 'Script text...'}
+          value={text}
+          onChange={(e) => (isAction ? handleActionTextChange : handleScriptTextChange)(e.target.value)}
+          onFocus={() => setFocusedTextField(field)}
+          onBlur={() => setFocusedTextField((current) => (current === field ? null : current))}
+          onKeyDown={handleTextKeyDown(field)}
+          readOnly={readOnly}
+          className={cn(
+            "w-full resize-none overflow-hidden border-0 rounded-sm bg-transparent focus:outline-none focus:ring-0",
+            textClassName
+          )}
+          style={{
+            ...textStyle,
+            ['--placeholder-color' as any]: color
+          }}
+          maxLength={SHOT_TEXT_MAX_LENGTH}
+          rows={1}
+        />
+      </div>
+    );
+  };
+
   return (
     <div
       ref={setNodeRef}
@@ -297,6 +491,10 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
           borderColor: `${getColor('interaction', 'active')} !important` as string,
           backgroundColor: getColor('interaction', 'hover') as string 
         } : {}),
+        ...(isSelected && !isDragging ? {
+          outline: `2px solid ${getColor('interaction', 'active')}`,
+          outlineOffset: '2px'
+        } : {}),
         // Use CSS variables so our protection rule can reference them
         ['--inline-bg-color' as any]: storyboardTheme.shotCard.backgroundEnabled ? storyboardTheme.shotCard.background : 'transparent',
         ['--inline-border-color' as any]: storyboardTheme.shotCard.borderEnabled ? storyboardTheme.shotCard.border : 'transparent',
@@ -311,6 +509,7 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
         'hover:shadow-md',
         className
       )}
+      onClickCapture={readOnly ? undefined : handleSelectClick}
       {...(readOnly || isDragPresentation ? {} : attributes)}
     >
       {/* Drag Handle - Hide in Image Editor */}
@@ -339,23 +538,62 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
         </Tooltip>
       )}
 
-      {/* Shot Number */}
+      {/* Shot Number - click to lock it against renumbering */}
       <div className="shot-number-container">
-        <div 
-          className="shot-number storyboard-themeable" 
-          style={{ 
-            ['--inline-text-color' as any]: storyboardTheme.shotNumber.text,
-            ['--inline-bg-color' as any]: storyboardTheme.shotNumber.background,
-            ['--inline-border-color' as any]: storyboardTheme.shotNumber.borderEnabled ? storyboardTheme.shotNumber.border : 'transparent',
-            ['--inline-border-width' as any]: storyboardTheme.shotNumber.borderEnabled ? `${storyboardTheme.shotNumber.borderWidth}px` : '0px',
-            ['--inline-border-style' as any]: storyboardTheme.shotNumber.borderEnabled ? 'solid' : 'none',
-            ['--inline-border-radius' as any]: `${storyboardTheme.shotNumber.borderRadius}px`,
-          }}
-        >
-          {shot.number}
-        </div>
+        {(() => {
+          const canToggleLock = Boolean(onToggleNumberLock) && !isImageEditor && !isDragPresentation;
+          const shotNumber = (
+            <div 
+              className={cn('shot-number storyboard-themeable', canToggleLock && 'cursor-pointer')}
+              style={{ 
+                textDecoration: omitted ? 'line-through' : undefined,
+                ['--inline-text-color' as any]: storyboardTheme.shotNumber.text,
+                ['--inline-bg-color' as any]: storyboardTheme.shotNumber.background,
+                ['--inline-border-color' as any]: storyboardTheme.shotNumber.borderEnabled ? storyboardTheme.shotNumber.border : 'transparent',
+                ['--inline-border-width' as any]: storyboardTheme.shotNumber.borderEnabled ? `${storyboardTheme.shotNumber.borderWidth}px` : '0px',
+                ['--inline-border-style' as any]: storyboardTheme.shotNumber.borderEnabled ? 'solid' : 'none',
+                ['--inline-border-radius' as any]: `${storyboardTheme.shotNumber.borderRadius}px`,
+              }}
+              onClick={canToggleLock ? onToggleNumberLock : undefined}
+            >
+              {shot.number}
+              {shot.numberLocked && !readOnly && (
+                <Lock size={10} className="ml-1 shrink-0 opacity-70" aria-label="Number locked" />
+              )}
+            </div>
+          );
+
+          return canToggleLock ? (
+            <Tooltip>
+              <TooltipTrigger asChild>{shotNumber}</TooltipTrigger>
+              <TooltipContent>
+                <p>{shot.numberLocked ? 'Unlock shot number' : 'Lock shot number'}</p>
+              </TooltipContent>
+            </Tooltip>
+          ) : shotNumber;
+        })()}
       </div>
 
+      {/* Omit / Restore Button - the shot keeps its place and number */}
+      {!isImageEditor && !readOnly && !isDragPresentation && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              size="sm"
+              variant="secondary"
+              className="absolute top-1 right-10 z-10 h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity [@media(hover:none)]:hidden [@media(pointer:coarse)]:hidden"
+              onClick={handleToggleOmitted}
+              aria-label={omitted ? 'Restore shot' : 'Omit shot'}
+            >
+              {omitted ? <RotateCcw size={14} strokeWidth={3} /> : <Ban size={14} strokeWidth={3} />}
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>{omitted ? 'Restore Shot' : 'Omit Shot'}</p>
+          </TooltipContent>
+        </Tooltip>
+      )}
+
       {/* Delete Button - Hide in Image Editor */}
       {!isImageEditor && !readOnly && !isDragPresentation && (
         <Tooltip>
@@ -416,7 +654,8 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
             const actualOffsetX = (shot.imageOffsetX || 0) * containerWidth;
             const actualOffsetY = (shot.imageOffsetY || 0) * containerHeight;
             
-            return imageSource ? (
+            // A sketch or annotations alone (no image yet) still fill the frame
+            return imageSource || hasSketch(shot) || hasAnnotations(shot) ? (
               <div 
                 className="relative h-full group overflow-hidden"
                 style={{
@@ -426,16 +665,29 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
                   borderRadius: `${storyboardTheme.shotCard.borderRadius}px`
                 }}
               >
-                <TransformedCoverImage
-                  src={imageSource}
-                  alt={`Shot ${shot.number}`}
-                  containerWidth={containerWidth}
-                  containerHeight={containerHeight}
-                  imageScale={shot.imageScale || 1.0}
-                  offsetX={actualOffsetX}
-                  offsetY={actualOffsetY}
-                  borderRadius={storyboardTheme.shotCard.borderRadius}
-                  onError={handleImageError}
+                {imageSource && (
+                  <TransformedCoverImage
+                    src={imageSource}
+                    alt={`Shot ${shot.number}`}
+                    containerWidth={containerWidth}
+                    containerHeight={containerHeight}
+                    imageScale={shot.imageScale || 1.0}
+                    offsetX={actualOffsetX}
+                    offsetY={actualOffsetY}
+                    orientation={getImageOrientation(shot)}
+                    borderRadius={storyboardTheme.shotCard.borderRadius}
+                    onError={handleImageError}
+                  />
+                )}
+                <ShotSketchLayer
+                  strokes={getSketchStrokes(shot)}
+                  width={containerWidth}
+                  height={containerHeight}
+                />
+                <ShotAnnotationLayer
+                  annotations={getShotAnnotations(shot)}
+                  width={containerWidth}
+                  height={containerHeight}
                 />
 
                 {/* Editing mode overlay - only show if onEditUpdate is provided (inline editing) */}
@@ -546,14 +798,14 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
                         )}
                         <Button
                           variant="secondary"
-                          onClick={() => fileInputRef.current?.click()}
+                          onClick={() => openImagePicker()}
                           className="h-7 px-2 text-xs"
                           style={{
                             backgroundColor: getColor('brand', 'secondary') as string,
                             color: getColor('text', 'inverse') as string
                           }}
                         >
-                          Replace Image
+                          {imageSource ? 'Replace Image' : 'Add Image'}
                         </Button>
                       </div>
                     </div>
@@ -566,7 +818,28 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
                     onAddSubShot={onAddSubShot}
                     onInsertShot={onInsertShot}
                     onEditImage={onEditImage}
-                    onReplaceImage={() => fileInputRef.current?.click()}
+                    onStartScene={onStartScene}
+                    onToggleNumberLock={onToggleNumberLock}
+                    isNumberLocked={Boolean(shot.numberLocked)}
+                    onTogglePageBreak={onTogglePageBreak}
+                    hasPageBreak={Boolean(shot.pageBreakBefore)}
+                    onToggleOmitted={handleToggleOmitted}
+                    isOmitted={omitted}
+                    onReplaceImage={() => openImagePicker()}
+                    onAddTake={() => openImagePicker(true)}
+                  />
+                )}
+
+                {!isEditing && !isImageEditor && !readOnly && !isDragPresentation && (
+                  <ShotTakeSwitcher
+                    shot={shot}
+                    onUpdate={onUpdate}
+                    onAddTake={() => openImagePicker(true)}
+                    aspectRatio={aspectRatio}
+                    className={cn(
+                      'absolute bottom-1 right-1 z-10',
+                      getShotImageTakes(shot).length <= 1 && 'opacity-0 transition-opacity group-hover:opacity-100 [@media(hover:none)]:opacity-100 [@media(pointer:coarse)]:opacity-100'
+                    )}
                   />
                 )}
               </div>
@@ -583,7 +856,7 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
                 }}
                 onClick={() => {
                   if (!readOnly && !isDragPresentation) {
-                    fileInputRef.current?.click();
+                    openImagePicker();
                   }
                 }}
               >
@@ -592,6 +865,23 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
                 <span className="text-xs mt-1">
                   Drag & drop or click
                 </span>
+                {onEditImage && !readOnly && !isDragPresentation && (
+                  <Button
+                    variant="secondary"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onEditImage();
+                    }}
+                    className="mt-2 h-7 px-2 text-xs"
+                    style={{
+                      backgroundColor: getColor('brand', 'fourth') as string,
+                      color: getColor('text', 'inverse') as string
+                    }}
+                  >
+                    <Pencil size={12} className="mr-1" />
+                    Sketch
+                  </Button>
+                )}
               </div>
             );
           })()}
@@ -613,6 +903,18 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
             }}
           />
 
+          {/* Review Status - draft stays out of the way until hovered */}
+          {!isImageEditor && !isDragPresentation && (!readOnly || templateSettings.showReviewStatus) && (
+            <ShotReviewStatusBadge
+              status={reviewStatus}
+              onChange={readOnly ? undefined : (status) => onUpdate({ reviewStatus: status })}
+              className={cn(
+                'absolute bottom-1 left-1 z-10',
+                !readOnly && reviewStatus === DEFAULT_SHOT_REVIEW_STATUS && 'opacity-0 transition-opacity group-hover:opacity-100 [@media(hover:none)]:opacity-100 [@media(pointer:coarse)]:opacity-100'
+              )}
+            />
+          )}
+
           {/* Insert Shot Button - Hide in Image Editor */}
           {!isImageEditor && !readOnly && !isDragPresentation && (
             <Tooltip>
@@ -636,6 +938,33 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
             </Tooltip>
           )}
 
+          {/* Page Break Button - stays visible as the break marker once set */}
+          {onTogglePageBreak && !isImageEditor && !readOnly && !isDragPresentation && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className={cn(
+                    "absolute top-1/2 translate-y-6 -left-4 z-10 h-6 w-6 rounded-full p-0 transition-opacity [@media(hover:none)]:hidden [@media(pointer:coarse)]:hidden",
+                    !shot.pageBreakBefore && "opacity-0 group-hover:opacity-100"
+                  )}
+                  style={{
+                    backgroundColor: getColor('overlayButton', shot.pageBreakBefore ? 'blue' : 'gray') as string,
+                    color: getColor('text', 'inverse') as string
+                  }}
+                  onClick={onTogglePageBreak}
+                  aria-label={shot.pageBreakBefore ? 'Remove page break' : 'Start new page here'}
+                >
+                  <SeparatorVertical size={14} strokeWidth={3} />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side='right'>
+                <p>{shot.pageBreakBefore ? 'Remove Page Break' : 'Start New Page Here'}</p>
+              </TooltipContent>
+            </Tooltip>
+          )}
+
           {/* Add Sub-Shot Button - Hide in Image Editor */}
           {!isImageEditor && !readOnly && !isDragPresentation && (
             <Tooltip>
@@ -661,93 +990,34 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
         </div>
 
         {/* Text Fields Container - Hide in Image Editor */}
-        {!isImageEditor && (templateSettings.showActionText || templateSettings.showScriptText) && (
+        {!isImageEditor && (templateSettings.showActionText || templateSettings.showScriptText || templateSettings.showCameraDetails || customFields.length > 0) && (
           <div className={cn("flex flex-col gap-0", "mt-1")}>
-            {/* Action Text */}
-            {templateSettings.showActionText && (
-              readOnly || isDragPresentation ? (
-                <div
-                  className={cn(
-                    "w-full font-semibold border-0 rounded-sm bg-transparent",
-                    "text-xs px-1 py-0.5 action-text whitespace-pre-wrap"
-                  )}
-                  style={{
-                    color: storyboardTheme.actionText.text,
-                    fontSize: `${actionTextSpacing.fontSize}px`,
-                    lineHeight: actionTextSpacing.lineHeight,
-                    paddingTop: `${actionTextSpacing.blockPaddingY}px`,
-                    paddingBottom: `${actionTextSpacing.blockPaddingY}px`
-                  }}
-                >
-                  {shot.actionText || ''}
-                </div>
-              ) : (
-                <Textarea
-                  ref={actionTextareaRef}
-                  placeholder="Action text..."
-                  value={shot.actionText}
-                  onChange={(e) => handleActionTextChange(e.target.value)}
-                  readOnly={readOnly}
-                  className={cn(
-                    "w-full font-semibold resize-none overflow-hidden border-0 rounded-sm bg-transparent focus:outline-none focus:ring-0",
-                    "text-xs px-1 py-0.5 action-text"
-                  )}
-                  style={{ 
-                    color: storyboardTheme.actionText.text,
-                    fontSize: `${actionTextSpacing.fontSize}px`,
-                    lineHeight: actionTextSpacing.lineHeight,
-                    paddingTop: `${actionTextSpacing.blockPaddingY}px`,
-                    paddingBottom: `${actionTextSpacing.blockPaddingY}px`,
-                    ['--placeholder-color' as any]: storyboardTheme.actionText.text
-                  }}
-                  maxLength={200}
-                  rows={1}
-                />
-              )
+            {/* Camera Details */}
+            {templateSettings.showCameraDetails && (
+              <ShotCameraDetails
+                details={shot}
+                onUpdate={onUpdate}
+                textColor={storyboardTheme.scriptText.text}
+                scriptFontSize={storyboardTheme.scriptText.fontSize}
+                readOnly={readOnly || isDragPresentation}
+              />
             )}
 
+            {/* Action Text */}
+            {templateSettings.showActionText && renderTextField('actionText')}
+
             {/* Script Text */}
-            {templateSettings.showScriptText && (
-              readOnly || isDragPresentation ? (
-                <div
-                  className={cn(
-                    "w-full border-0 rounded-sm bg-transparent",
-                    "text-xs px-1 py-0.5 script-text whitespace-pre-wrap"
-                  )}
-                  style={{
-                    color: storyboardTheme.scriptText.text,
-                    fontSize: `${scriptTextSpacing.fontSize}px`,
-                    lineHeight: scriptTextSpacing.lineHeight,
-                    paddingTop: `${scriptTextSpacing.blockPaddingY}px`,
-                    paddingBottom: `${scriptTextSpacing.blockPaddingY}px`
-                  }}
-                >
-                  {shot.scriptText || ''}
-                </div>
-              ) : (
-                <Textarea
-                  ref={scriptTextareaRef}
-                  placeholder="Script text..."
-                  value={shot.scriptText}
-                  onChange={(e) => handleScriptTextChange(e.target.value)}
-                  readOnly={readOnly}
-                  className={cn(
-                    "w-full resize-none overflow-hidden border-0 rounded-sm bg-transparent focus:outline-none focus:ring-0",
-                    "text-xs px-1 py-0.5 script-text"
-                  )}
-                  style={{ 
-                    color: storyboardTheme.scriptText.text,
-                    fontSize: `${scriptTextSpacing.fontSize}px`,
-                    lineHeight: scriptTextSpacing.lineHeight,
-                    paddingTop: `${scriptTextSpacing.blockPaddingY}px`,
-                    paddingBottom: `${scriptTextSpacing.blockPaddingY}px`,
-                    ['--placeholder-color' as any]: storyboardTheme.scriptText.text
-                  }}
-                  maxLength={200}
-                  rows={1}
-                />
-              )
-            )}
+            {templateSettings.showScriptText && renderTextField('scriptText')}
+
+            {/* Custom Fields */}
+            <ShotCustomFields
+              fields={customFields}
+              values={getShotCustomFieldValues(shot)}
+              onChange={(customFieldValues) => onUpdate({ customFieldValues })}
+              textColor={storyboardTheme.scriptText.text}
+              scriptFontSize={storyboardTheme.scriptText.fontSize}
+              readOnly={readOnly || isDragPresentation}
+            />
           </div>
         )}
 
@@ -759,11 +1029,20 @@ const ConnectedShotCard: React.FC<ShotCardProps> = ({
           className="hidden"
           onChange={(e) => {
             if (!readOnly) {
-              handleFileSelect(e.target.files);
+              handleFileSelect(e.target.files, addsTakeRef.current);
             }
+            addsTakeRef.current = false;
           }}
         />
       </div>
+
+      {omitted && !isImageEditor && (
+        <OmittedShotPlaceholder
+          backgroundColor={storyboardTheme.contentBackground}
+          textColor={storyboardTheme.actionText.text}
+          borderRadius={storyboardTheme.shotCard.borderRadius}
+        />
+      )}
     </div>
   );
 };
@@ -779,6 +1058,7 @@ const ExportShotCard: React.FC<ShotCardProps> = ({
   }
 
   const { template, theme } = exportPayload;
+  const customFieldEntries = getCustomFieldEntries(getCustomFields(template), shot);
   const imageSource = getImageSource(shot);
   const containerWidth = previewDimensions.imageContainerWidth;
   const containerHeight = previewDimensions.imageHeight;
@@ -787,6 +1067,7 @@ const ExportShotCard: React.FC<ShotCardProps> = ({
   const actionTextSpacing = getShotTextSpacing(theme.actionText.fontSize);
   const scriptTextSpacing = getShotTextSpacing(theme.scriptText.fontSize);
   const effectiveImageFrameBorderWidth = getEffectiveImageFrameBorderWidth(theme.imageFrame);
+  const omitted = isShotOmitted(shot);
 
   return (
     <div
@@ -807,6 +1088,7 @@ const ExportShotCard: React.FC<ShotCardProps> = ({
         <div
           className="shot-number storyboard-themeable"
           style={{
+            textDecoration: omitted ? 'line-through' : undefined,
             ['--inline-text-color' as any]: theme.shotNumber.text,
             ['--inline-bg-color' as any]: theme.shotNumber.background,
             ['--inline-border-color' as any]: theme.shotNumber.borderEnabled ? theme.shotNumber.border : 'transparent',
@@ -828,7 +1110,7 @@ const ExportShotCard: React.FC<ShotCardProps> = ({
             backgroundColor: getColor('background', 'lighter') as string
           }}
         >
-          {imageSource ? (
+          {imageSource || hasSketch(shot) || hasAnnotations(shot) ? (
             <div
               className="relative h-full overflow-hidden"
               data-image-viewport
@@ -839,15 +1121,28 @@ const ExportShotCard: React.FC<ShotCardProps> = ({
                 borderRadius: `${theme.shotCard.borderRadius}px`
               }}
             >
-              <TransformedCoverImage
-                src={imageSource}
-                alt={`Shot ${shot.number}`}
-                containerWidth={containerWidth}
-                containerHeight={containerHeight}
-                imageScale={shot.imageScale || 1.0}
-                offsetX={actualOffsetX}
-                offsetY={actualOffsetY}
-                borderRadius={theme.shotCard.borderRadius}
+              {imageSource && (
+                <TransformedCoverImage
+                  src={imageSource}
+                  alt={`Shot ${shot.number}`}
+                  containerWidth={containerWidth}
+                  containerHeight={containerHeight}
+                  imageScale={shot.imageScale || 1.0}
+                  offsetX={actualOffsetX}
+                  offsetY={actualOffsetY}
+                  orientation={getImageOrientation(shot)}
+                  borderRadius={theme.shotCard.borderRadius}
+                />
+              )}
+              <ShotSketchLayer
+                strokes={getSketchStrokes(shot)}
+                width={containerWidth}
+                height={containerHeight}
+              />
+              <ShotAnnotationLayer
+                annotations={getShotAnnotations(shot)}
+                width={containerWidth}
+                height={containerHeight}
               />
             </div>
           ) : null}
@@ -865,10 +1160,27 @@ const ExportShotCard: React.FC<ShotCardProps> = ({
                 : 'none'
             }}
           />
+
+          {template.showReviewStatus && (
+            <ShotReviewStatusBadge
+              status={getShotReviewStatus(shot)}
+              className="absolute bottom-1 left-1 z-10"
+            />
+          )}
         </div>
 
-        {(template.showActionText || template.showScriptText) && (
+        {(template.showActionText || template.showScriptText || template.showCameraDetails || customFieldEntries.length > 0) && (
           <div className={cn("flex flex-col gap-0", "mt-1")}>
+            {template.showCameraDetails && (
+              <ShotCameraDetails
+                details={shot}
+                onUpdate={() => {}}
+                textColor={theme.scriptText.text}
+                scriptFontSize={theme.scriptText.fontSize}
+                readOnly
+              />
+            )}
+
             {template.showActionText && (
               <div
                 className={cn(
@@ -883,7 +1195,7 @@ const ExportShotCard: React.FC<ShotCardProps> = ({
                   paddingBottom: `${actionTextSpacing.blockPaddingY}px`
                 }}
               >
-                {shot.actionText || ''}
+                <ShotRichText text={shot.actionText} />
               </div>
             )}
 
@@ -901,12 +1213,37 @@ const ExportShotCard: React.FC<ShotCardProps> = ({
                   paddingBottom: `${scriptTextSpacing.blockPaddingY}px`
                 }}
               >
-                {shot.scriptText || ''}
+                <ShotRichText text={shot.scriptText} />
               </div>
             )}
+
+            {customFieldEntries.map((entry) => (
+              <div
+                key={entry.id}
+                data-custom-field-id={entry.id}
+                className="w-full rounded-sm text-xs px-1 py-0.5 custom-field whitespace-pre-wrap"
+                style={{
+                  color: theme.scriptText.text,
+                  fontSize: `${scriptTextSpacing.fontSize}px`,
+                  lineHeight: scriptTextSpacing.lineHeight,
+                  paddingTop: `${scriptTextSpacing.blockPaddingY}px`,
+                  paddingBottom: `${scriptTextSpacing.blockPaddingY}px`
+                }}
+              >
+                <ShotRichText text={getCustomFieldRichText(entry)} />
+              </div>
+            ))}
           </div>
         )}
       </div>
+
+      {omitted && (
+        <OmittedShotPlaceholder
+          backgroundColor={theme.contentBackground}
+          textColor={theme.actionText.text}
+          borderRadius={theme.shotCard.borderRadius}
+        />
+      )}
     </div>
   );
 };
@@ -1,5 +1,6 @@
 import * as React from 'react';
-import { useCallback } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
 import { ShotCard } from './ShotCard';
 import { Shot, useAppStore } from '@/store';
 import { Button } from '@/components/ui/button';
@@ -10,6 +11,23 @@ import type { ServerPDFExportPayload } from '@/utils/types/exportTypes';
 import { RENDERED_PAGE_WIDTH_PX, resolvePageSizeMode } from '@/utils/pageSize';
 import { getStoryboardHeaderAlignmentInsetCss } from '@/utils/storyboardLayout';
 import { getMinimumShotCardNonImageHeight } from '@/utils/emptySlotHeight';
+import { getExportedShots, getShotReviewStatus } from '@/utils/shotReviewStatus';
+import { ShotReviewStatusLegend } from './ShotReviewStatusLegend';
+import { SceneHeader } from './SceneHeader';
+import { countSceneGridCells, getPageSceneHeaders } from '@/utils/scenes';
+import { getCustomFields, getVisibleCustomFields } from '@/utils/customFields';
+import { getShotSelectionRange, orderShotIds } from '@/utils/shotSelection';
+import {
+  MAX_FOOTER_TEXT_LENGTH,
+  MAX_REVISION_LABEL_LENGTH,
+  PAGE_FOOTER_STYLES,
+  formatPageNumber,
+  getPageFooterContent,
+  getPageNumberFormat,
+  hasFooterDetails,
+  hasPageFooterContent,
+  type PageFooterContent,
+} from '@/utils/pageFooter';
 
 interface ShotGridProps {
   pageId: string;
@@ -18,6 +36,7 @@ interface ShotGridProps {
   sortableTransformScale?: number;
   // Export-only overrides (additive). Live editor keeps default behavior when omitted.
   pageNumberOverride?: number;
+  pageCountOverride?: number;
   hideEmptySlots?: boolean;
   readOnly?: boolean;
   layoutOverride?: { gridRows: number; gridCols: number; aspectRatio: string };
@@ -30,12 +49,144 @@ interface ShotGridProps {
   pageShotsOverride?: Shot[];
 }
 
+interface MarqueeRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Pointer travel before a press on the grid background becomes a marquee
+const MARQUEE_THRESHOLD_PX = 4;
+
+const rectsIntersect = (a: DOMRect, b: MarqueeRect) =>
+  a.left < b.left + b.width && a.right > b.left && a.top < b.top + b.height && a.bottom > b.top;
+
+interface FooterInputProps {
+  value: string;
+  placeholder: string;
+  maxLength: number;
+  label: string;
+  className?: string;
+  style?: React.CSSProperties;
+  onChange: (value: string) => void;
+}
+
+const EMPTY_FOOTER_CONTENT: PageFooterContent = { text: '', date: '', revision: '' };
+
+// Borderless so the live footer reads like the exported one while typing.
+// Edits are committed on blur so a typed label is one undo step.
+const FooterInput: React.FC<FooterInputProps> = ({ value, placeholder, maxLength, label, className, style, onChange }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <input
+      value={draft}
+      placeholder={placeholder}
+      maxLength={maxLength}
+      aria-label={label}
+      size={Math.max(draft.length, placeholder.length, 1)}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={() => {
+        if (draft !== value) {
+          onChange(draft);
+        }
+      }}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') {
+          event.currentTarget.blur();
+        }
+      }}
+      className={cn('border-none bg-transparent p-0 outline-none placeholder:opacity-50', className)}
+      style={{ font: 'inherit', color: 'inherit', ...style }}
+    />
+  );
+};
+
+interface FooterEditor {
+  showText: boolean;
+  text: string;
+  onTextChange: (value: string) => void;
+  showRevision: boolean;
+  revision: string;
+  onRevisionChange: (value: string) => void;
+}
+
+interface ShotGridFooterRowProps {
+  textColor: string;
+  showReviewStatus: boolean;
+  content: PageFooterContent;
+  pageLabel: string | null;
+  // Live page only: the footer text and revision are typed in place
+  editor?: FooterEditor;
+}
+
+// Mirrors the footer row built in export-pdf-static. The footer-* classes
+// locate each part for PNG exports (DOMCapture/DOMRenderer).
+const ShotGridFooterRow: React.FC<ShotGridFooterRowProps> = ({
+  textColor,
+  showReviewStatus,
+  content,
+  pageLabel,
+  editor,
+}) => (
+  <div
+    className="text-xs page-footer"
+    data-page-footer
+    style={{
+      ...PAGE_FOOTER_STYLES.row,
+      fontSize: '10px',
+      lineHeight: '1.2',
+      color: textColor
+    }}
+  >
+    <div style={PAGE_FOOTER_STYLES.start}>
+      {showReviewStatus && <ShotReviewStatusLegend textColor={textColor} />}
+      {editor?.showText ? (
+        <FooterInput
+          value={editor.text}
+          placeholder="CONFIDENTIAL – Property of …"
+          maxLength={MAX_FOOTER_TEXT_LENGTH}
+          label="Footer text"
+          className="footer-text"
+          style={PAGE_FOOTER_STYLES.text}
+          onChange={editor.onTextChange}
+        />
+      ) : (
+        content.text && <div className="footer-text" style={PAGE_FOOTER_STYLES.text}>{content.text}</div>
+      )}
+    </div>
+    <div style={PAGE_FOOTER_STYLES.end}>
+      {content.date && <div className="footer-date">{content.date}</div>}
+      {editor?.showRevision ? (
+        <FooterInput
+          value={editor.revision}
+          placeholder="Rev A"
+          maxLength={MAX_REVISION_LABEL_LENGTH}
+          label="Revision label"
+          className="footer-revision"
+          style={{ textAlign: 'right' }}
+          onChange={editor.onRevisionChange}
+        />
+      ) : (
+        content.revision && <div className="footer-revision">{content.revision}</div>
+      )}
+      {pageLabel && <div className="footer-page-number">{pageLabel}</div>}
+    </div>
+  </div>
+);
+
 const ConnectedShotGrid: React.FC<ShotGridProps> = ({ 
   pageId, 
   className, 
   previewDimensions,
   sortableTransformScale = 1,
   pageNumberOverride,
+  pageCountOverride,
   hideEmptySlots = false,
   readOnly = false,
   layoutOverride,
@@ -54,15 +205,36 @@ const ConnectedShotGrid: React.FC<ShotGridProps> = ({
     getPageShots,
     shots,
     shotOrder,
+    reviewStatusFilter,
+    scenes,
     createSubShot,
-    insertShotIntoSubGroup
+    insertShotIntoSubGroup,
+    startSceneAtShot,
+    renameScene,
+    removeScene,
+    setShotNumberLocked,
+    setPageBreakBefore,
+    selectedShotIds,
+    selectionAnchorId,
+    setShotSelection,
+    clearShotSelection,
+    setTemplateSetting
   } = useAppStore();
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [marquee, setMarquee] = useState<MarqueeRect | null>(null);
+  const suppressClickRef = useRef(false);
+  const stopMarqueeRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopMarqueeRef.current?.(), []);
 
   const activePage = pages.find(p => p.id === activePageId);
   const activePageIndex = pages.findIndex(p => p.id === activePageId);
 
-  // Get shots for this specific page
-  const pageShots = getPageShots(pageId);
+  // Get shots for this specific page. Exports may collapse omitted shots; the
+  // editor always shows their placeholder so they can be restored.
+  const pageShots = readOnly
+    ? getExportedShots(getPageShots(pageId), templateSettings.showOmittedShots)
+    : getPageShots(pageId);
 
   const handleShotUpdate = useCallback((shotId: string, updates: Partial<Shot>) => {
     onShotUpdate(shotId, updates);
@@ -124,6 +296,88 @@ const ConnectedShotGrid: React.FC<ShotGridProps> = ({
     onAddShot(pageId, position);
   }, [pageId, onAddShot]);
 
+  // Shift-click extends from the last clicked shot; Ctrl/Cmd-click toggles one shot
+  const handleSelectShot = useCallback((shotId: string, event: React.MouseEvent) => {
+    const toggles = event.metaKey || event.ctrlKey;
+    if (event.shiftKey) {
+      const range = getShotSelectionRange(shotOrder, selectionAnchorId, shotId);
+      const base = toggles ? selectedShotIds : [];
+      setShotSelection(orderShotIds(shotOrder, [...base, ...range]), selectionAnchorId ?? shotId);
+      return;
+    }
+
+    const isSelected = selectedShotIds.includes(shotId);
+    setShotSelection(
+      isSelected ? selectedShotIds.filter(id => id !== shotId) : orderShotIds(shotOrder, [...selectedShotIds, shotId]),
+      shotId
+    );
+  }, [shotOrder, selectedShotIds, selectionAnchorId, setShotSelection]);
+
+  // Dragging from the grid background draws a marquee over the cards to select;
+  // a plain click on the background clears the selection
+  const handleMarqueeStart = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (readOnly || event.button !== 0) return;
+    const target = event.target as HTMLElement;
+    if (target.closest('[data-shot-card-id], button, input, textarea, [contenteditable="true"]')) return;
+
+    const startX = event.clientX;
+    const startY = event.clientY;
+    const additive = event.shiftKey || event.metaKey || event.ctrlKey;
+    const baseSelection = additive ? selectedShotIds : [];
+    let dragged = false;
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      const rect: MarqueeRect = {
+        left: Math.min(startX, moveEvent.clientX),
+        top: Math.min(startY, moveEvent.clientY),
+        width: Math.abs(moveEvent.clientX - startX),
+        height: Math.abs(moveEvent.clientY - startY),
+      };
+      if (!dragged && Math.max(rect.width, rect.height) < MARQUEE_THRESHOLD_PX) return;
+      dragged = true;
+      moveEvent.preventDefault();
+      setMarquee(rect);
+
+      const hitIds = Array.from(gridRef.current?.querySelectorAll<HTMLElement>('[data-shot-card-id]') ?? [])
+        .filter(card => rectsIntersect(card.getBoundingClientRect(), rect))
+        .map(card => card.dataset.shotCardId as string);
+      setShotSelection(
+        orderShotIds(shotOrder, [...baseSelection, ...hitIds]),
+        hitIds[hitIds.length - 1] ?? selectionAnchorId
+      );
+    };
+
+    const stop = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      stopMarqueeRef.current = null;
+    };
+
+    const handleUp = () => {
+      stop();
+      setMarquee(null);
+      if (dragged) {
+        // Swallow the click that ends the drag (it would add a shot on an empty slot)
+        suppressClickRef.current = true;
+        setTimeout(() => { suppressClickRef.current = false; }, 0);
+      } else if (!additive) {
+        clearShotSelection();
+      }
+    };
+
+    stopMarqueeRef.current?.();
+    stopMarqueeRef.current = stop;
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const handleGridClickCapture = (event: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      event.stopPropagation();
+    }
+  };
+
   const gridContext = layoutOverride || activePage;
   if (!gridContext) {
     return (
@@ -138,8 +392,27 @@ const ConnectedShotGrid: React.FC<ShotGridProps> = ({
 
   const { gridRows, gridCols, aspectRatio } = gridContext;
   const totalSlots = gridRows * gridCols;
-  const emptySlotsCount = hideEmptySlots ? 0 : Math.max(0, totalSlots - pageShots.length);
+  const pageShotIds = pageShots.map(shot => shot.id);
+  const sceneHeaders = new Map(
+    getPageSceneHeaders({
+      pageShotIds,
+      shotOrder,
+      shots,
+      scenes,
+      sceneNumberFormat: templateSettings.sceneNumberFormat,
+    }).map(header => [header.shotId, header])
+  );
+  const usedCells = countSceneGridCells(pageShotIds, new Set(sceneHeaders.keys()), gridCols);
+  const emptySlotsCount = hideEmptySlots ? 0 : Math.max(0, totalSlots - usedCells);
   const resolvedPageNumber = pageNumberOverride ?? (activePageIndex !== -1 ? activePageIndex + 1 : null);
+  const footerContent = getPageFooterContent(templateSettings);
+  // Empty footer parts stay on the live page so they can be typed into
+  const showFooter = templateSettings.showPageNumber || templateSettings.showReviewStatus || (
+    readOnly ? hasPageFooterContent(footerContent) : hasFooterDetails(templateSettings)
+  );
+  const footerPageLabel = templateSettings.showPageNumber && resolvedPageNumber !== null
+    ? formatPageNumber(getPageNumberFormat(templateSettings), resolvedPageNumber, pageCountOverride ?? pages.length)
+    : null;
   const isFixedPageMode = pageSizeMode !== 'dynamic';
   const footerAlignmentInset = getStoryboardHeaderAlignmentInsetCss(gridCols);
   const emptySlotMinHeight = previewDimensions.imageHeight + (
@@ -148,6 +421,8 @@ const ConnectedShotGrid: React.FC<ShotGridProps> = ({
       : getMinimumShotCardNonImageHeight({
         showActionText: templateSettings.showActionText,
         showScriptText: templateSettings.showScriptText,
+        showCameraDetails: templateSettings.showCameraDetails,
+        customFieldCount: getVisibleCustomFields(getCustomFields(templateSettings)).length,
         actionTextFontSize: storyboardTheme.actionText.fontSize,
         scriptTextFontSize: storyboardTheme.scriptText.fontSize,
       })
@@ -160,8 +435,11 @@ const ConnectedShotGrid: React.FC<ShotGridProps> = ({
         className,
         isFixedPageMode && 'h-full flex flex-col'
       )}
+      onMouseDown={handleMarqueeStart}
+      onClickCapture={handleGridClickCapture}
     >
       <div
+        ref={gridRef}
         className={cn(
           'grid w-full',
           'justify-center'
@@ -178,23 +456,47 @@ const ConnectedShotGrid: React.FC<ShotGridProps> = ({
           flexShrink: 0
         }}
       >
-        {/* Existing Shots */}
-        {pageShots.map((shot) => (
-          <ShotCard
-            key={shot.id}
-            shot={shot}
-            onUpdate={(updates) => handleShotUpdate(shot.id, updates)}
-            onDelete={() => handleShotDelete(shot.id)}
-            onAddSubShot={() => handleAddSubShot(shot.id)}
-            onInsertShot={() => handleInsertShot(shot.id)}
-            onEditImage={onEditImage ? () => onEditImage(shot) : undefined}
-            aspectRatio={aspectRatio}
-            previewDimensions={previewDimensions}
-            minimumGridCellHeight={emptySlotMinHeight}
-            sortableTransformScale={sortableTransformScale}
-            readOnly={readOnly}
-          />
-        ))}
+        {/* Existing Shots, with a header row wherever a scene starts */}
+        {pageShots.map((shot) => {
+          const sceneHeader = sceneHeaders.get(shot.id);
+          const startsScene = sceneHeader !== undefined && !sceneHeader.continued;
+
+          return (
+            <React.Fragment key={shot.id}>
+              {sceneHeader && (
+                <SceneHeader
+                  header={sceneHeader}
+                  textColor={storyboardTheme.header.text}
+                  borderColor={storyboardTheme.shotCard.border}
+                  onRename={readOnly ? undefined : (name) => renameScene(sceneHeader.sceneId, name)}
+                  onRemove={readOnly || !startsScene ? undefined : () => removeScene(sceneHeader.sceneId)}
+                />
+              )}
+              <ShotCard
+                shot={shot}
+                onUpdate={(updates) => handleShotUpdate(shot.id, updates)}
+                onDelete={() => handleShotDelete(shot.id)}
+                onAddSubShot={() => handleAddSubShot(shot.id)}
+                onInsertShot={() => handleInsertShot(shot.id)}
+                onEditImage={onEditImage ? () => onEditImage(shot) : undefined}
+                onStartScene={readOnly || startsScene ? undefined : () => startSceneAtShot(shot.id)}
+                onToggleNumberLock={readOnly ? undefined : () => setShotNumberLocked(shot.id, !shot.numberLocked)}
+                onTogglePageBreak={readOnly || shotOrder[0] === shot.id ? undefined : () => setPageBreakBefore(shot.id, !shot.pageBreakBefore)}
+                onSelect={readOnly ? undefined : (event) => handleSelectShot(shot.id, event)}
+                isSelected={!readOnly && selectedShotIds.includes(shot.id)}
+                aspectRatio={aspectRatio}
+                previewDimensions={previewDimensions}
+                minimumGridCellHeight={emptySlotMinHeight}
+                sortableTransformScale={sortableTransformScale}
+                readOnly={readOnly}
+                // Filtered-out shots are dimmed, not hidden, so the grid layout doesn't shift
+                className={cn(
+                  reviewStatusFilter && getShotReviewStatus(shot) !== reviewStatusFilter && 'opacity-30'
+                )}
+              />
+            </React.Fragment>
+          );
+        })}
         
         {/* Empty Slots */}
         {Array.from({ length: emptySlotsCount }).map((_, index) => (
@@ -236,8 +538,24 @@ const ConnectedShotGrid: React.FC<ShotGridProps> = ({
         ))}
       </div>
       
+      {/* Marquee is drawn in viewport space, outside the scaled page */}
+      {marquee && createPortal(
+        <div
+          className="pointer-events-none fixed z-50 rounded-sm"
+          style={{
+            left: marquee.left,
+            top: marquee.top,
+            width: marquee.width,
+            height: marquee.height,
+            border: `1px solid ${getColor('interaction', 'active')}`,
+            backgroundColor: 'rgba(59, 130, 246, 0.12)'
+          }}
+        />,
+        document.body
+      )}
+
       {/* Footer */}
-      {templateSettings.showPageNumber && (
+      {showFooter && (
         <div 
           className="mt-2"
           style={{
@@ -256,20 +574,20 @@ const ConnectedShotGrid: React.FC<ShotGridProps> = ({
               paddingBottom: '12px'
             }}
           >
-            <div 
-              className="flex items-center justify-end text-xs"
-              style={{
-                fontSize: '10px',
-                lineHeight: '1.2',
-                color: storyboardTheme.header.text
+            <ShotGridFooterRow
+              textColor={storyboardTheme.header.text}
+              showReviewStatus={templateSettings.showReviewStatus}
+              content={footerContent}
+              pageLabel={footerPageLabel}
+              editor={readOnly ? undefined : {
+                showText: Boolean(templateSettings.showFooterText),
+                text: templateSettings.footerText ?? '',
+                onTextChange: (value) => setTemplateSetting('footerText', value),
+                showRevision: Boolean(templateSettings.showRevision),
+                revision: templateSettings.revisionLabel ?? '',
+                onRevisionChange: (value) => setTemplateSetting('revisionLabel', value)
               }}
-            >
-              {resolvedPageNumber !== null && (
-                <div>
-                  Page {resolvedPageNumber}
-                </div>
-              )}
-            </div>
+            />
           </div>
         </div>
       )}
@@ -281,6 +599,7 @@ const ExportShotGrid: React.FC<ShotGridProps> = ({
   className,
   previewDimensions,
   pageNumberOverride,
+  pageCountOverride,
   hideEmptySlots = false,
   readOnly = false,
   layoutOverride,
@@ -296,8 +615,19 @@ const ExportShotGrid: React.FC<ShotGridProps> = ({
   const storyboardTheme = exportPayload.theme;
   const { gridRows, gridCols, aspectRatio } = layoutOverride;
   const totalSlots = gridRows * gridCols;
-  const emptySlotsCount = hideEmptySlots ? 0 : Math.max(0, totalSlots - pageShotsOverride.length);
+  const sceneHeaders = new Map((exportPayload.page.sceneHeaders ?? []).map(header => [header.shotId, header]));
+  const usedCells = countSceneGridCells(
+    pageShotsOverride.map(shot => shot.id),
+    new Set(sceneHeaders.keys()),
+    gridCols
+  );
+  const emptySlotsCount = hideEmptySlots ? 0 : Math.max(0, totalSlots - usedCells);
   const resolvedPageNumber = pageNumberOverride ?? exportPayload.page.pageNumber;
+  const footerContent = exportPayload.footer ?? EMPTY_FOOTER_CONTENT;
+  const showFooter = templateSettings.showPageNumber || templateSettings.showReviewStatus || hasPageFooterContent(footerContent);
+  const footerPageLabel = templateSettings.showPageNumber
+    ? formatPageNumber(getPageNumberFormat(templateSettings), resolvedPageNumber, pageCountOverride ?? exportPayload.pageCount)
+    : null;
   const footerAlignmentInset = getStoryboardHeaderAlignmentInsetCss(gridCols);
   const isFixedPageMode = resolvePageSizeMode(exportPayload.pageSizeMode) !== 'dynamic';
   const emptySlotMinHeight = previewDimensions.imageHeight + (
@@ -306,6 +636,8 @@ const ExportShotGrid: React.FC<ShotGridProps> = ({
       : getMinimumShotCardNonImageHeight({
         showActionText: templateSettings.showActionText,
         showScriptText: templateSettings.showScriptText,
+        showCameraDetails: templateSettings.showCameraDetails,
+        customFieldCount: getVisibleCustomFields(getCustomFields(templateSettings)).length,
         actionTextFontSize: storyboardTheme.actionText.fontSize,
         scriptTextFontSize: storyboardTheme.scriptText.fontSize,
       })
@@ -330,21 +662,33 @@ const ExportShotGrid: React.FC<ShotGridProps> = ({
           flexShrink: 0
         }}
       >
-        {pageShotsOverride.map((shot) => (
-          <ShotCard
-            key={shot.id}
-            shot={shot}
-            onUpdate={() => {}}
-            onDelete={() => {}}
-            onAddSubShot={() => {}}
-            onInsertShot={() => {}}
-            aspectRatio={aspectRatio}
-            previewDimensions={previewDimensions}
-            minimumGridCellHeight={emptySlotMinHeight}
-            readOnly
-            exportPayload={exportPayload}
-          />
-        ))}
+        {pageShotsOverride.map((shot) => {
+          const sceneHeader = sceneHeaders.get(shot.id);
+
+          return (
+            <React.Fragment key={shot.id}>
+              {sceneHeader && (
+                <SceneHeader
+                  header={sceneHeader}
+                  textColor={storyboardTheme.header.text}
+                  borderColor={storyboardTheme.shotCard.border}
+                />
+              )}
+              <ShotCard
+                shot={shot}
+                onUpdate={() => {}}
+                onDelete={() => {}}
+                onAddSubShot={() => {}}
+                onInsertShot={() => {}}
+                aspectRatio={aspectRatio}
+                previewDimensions={previewDimensions}
+                minimumGridCellHeight={emptySlotMinHeight}
+                readOnly
+                exportPayload={exportPayload}
+              />
+            </React.Fragment>
+          );
+        })}
 
         {Array.from({ length: emptySlotsCount }).map((_, index) => (
           <div
@@ -385,7 +729,7 @@ const ExportShotGrid: React.FC<ShotGridProps> = ({
         ))}
       </div>
 
-      {templateSettings.showPageNumber && (
+      {showFooter && (
         <div
           className="mt-2"
           style={{
@@ -404,20 +748,12 @@ const ExportShotGrid: React.FC<ShotGridProps> = ({
               paddingBottom: '12px'
             }}
           >
-            <div
-              className="flex items-center justify-end text-xs"
-              style={{
-                fontSize: '10px',
-                lineHeight: '1.2',
-                color: storyboardTheme.header.text
-              }}
-            >
-              {resolvedPageNumber !== null && (
-                <div>
-                  Page {resolvedPageNumber}
-                </div>
-              )}
-            </div>
+            <ShotGridFooterRow
+              textColor={storyboardTheme.header.text}
+              showReviewStatus={templateSettings.showReviewStatus}
+              content={footerContent}
+              pageLabel={footerPageLabel}
+            />
           </div>
         </div>
       )}
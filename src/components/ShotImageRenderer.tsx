@@ -2,27 +2,40 @@ import React, { useState, useEffect } from 'react';
 import { Shot } from '@/store';
 import { getImageSource } from '@/utils/imageCompression';
 import { useAppStore } from '@/store';
-import { calculateCoverImageGeometry } from '@/utils/imageGeometry';
+import {
+  calculateCoverImageGeometry,
+  getImageOrientation,
+  getImageOrientationTransform,
+} from '@/utils/imageGeometry';
+import { getSketchStrokes, hasSketch } from '@/utils/sketch';
+import { getShotAnnotations, hasAnnotations } from '@/utils/annotations';
+import { ShotSketchLayer } from './shot-card/ShotSketchLayer';
+import { ShotAnnotationLayer } from './shot-card/ShotAnnotationLayer';
 
 interface ShotImageRendererProps {
   shot: Shot;
   containerWidth: number;
   containerHeight: number;
   onError?: () => void;
+  showEmptyFrame?: boolean; // Render the frame even without an image, sketch or annotations
 }
 
 /**
- * Renders ONLY the image portion of a shot with transforms applied.
+ * Renders ONLY the image portion of a shot with transforms applied, with the
+ * sketch and annotation layers composited on top.
  * Used by ImageEditorModal with the shared explicit cover geometry.
  */
 export const ShotImageRenderer: React.FC<ShotImageRendererProps> = ({
   shot,
   containerWidth,
   containerHeight,
-  onError
+  onError,
+  showEmptyFrame = false
 }) => {
   const storyboardTheme = useAppStore((state) => state.storyboardTheme);
   const imageSource = getImageSource(shot);
+  const sketchStrokes = getSketchStrokes(shot);
+  const annotations = getShotAnnotations(shot);
   const [imageNaturalSize, setImageNaturalSize] = useState<{ width: number; height: number } | null>(null);
   
   // Safe fallback for border radius
@@ -42,7 +55,26 @@ export const ShotImageRenderer: React.FC<ShotImageRendererProps> = ({
     img.src = imageSource;
   }, [imageSource, onError]);
 
-  if (!imageSource || !imageNaturalSize) {
+  if (!imageSource) {
+    if (!showEmptyFrame && !hasSketch(shot) && !hasAnnotations(shot)) {
+      return null;
+    }
+    return (
+      <div
+        className="relative overflow-hidden"
+        style={{
+          width: `${containerWidth}px`,
+          height: `${containerHeight}px`,
+          borderRadius: `${borderRadius}px`,
+        }}
+      >
+        <ShotSketchLayer strokes={sketchStrokes} width={containerWidth} height={containerHeight} />
+        <ShotAnnotationLayer annotations={annotations} width={containerWidth} height={containerHeight} />
+      </div>
+    );
+  }
+
+  if (!imageNaturalSize) {
     return null;
   }
 
@@ -50,11 +82,13 @@ export const ShotImageRenderer: React.FC<ShotImageRendererProps> = ({
   const actualOffsetX = (shot.imageOffsetX || 0) * containerWidth;
   const actualOffsetY = (shot.imageOffsetY || 0) * containerHeight;
 
+  const orientation = getImageOrientation(shot);
   const imageGeometry = calculateCoverImageGeometry(
     imageNaturalSize.width,
     imageNaturalSize.height,
     containerWidth,
-    containerHeight
+    containerHeight,
+    orientation.rotation
   );
 
   if (!imageGeometry) {
@@ -82,7 +116,7 @@ export const ShotImageRenderer: React.FC<ShotImageRendererProps> = ({
           borderRadius: `${borderRadius}px`,
           // Use percentage-based transform origin like ShotCard
           // This makes transforms stable across aspect ratio changes
-          transform: `scale(${shot.imageScale || 1.0}) translate(${actualOffsetX}px, ${actualOffsetY}px)`,
+          transform: `scale(${shot.imageScale || 1.0}) translate(${actualOffsetX}px, ${actualOffsetY}px)${getImageOrientationTransform(orientation)}`,
           transformOrigin: 'center center',
           maxWidth: 'none',
           maxHeight: 'none',
@@ -92,6 +126,8 @@ export const ShotImageRenderer: React.FC<ShotImageRendererProps> = ({
         }}
         onError={onError}
       />
+      <ShotSketchLayer strokes={sketchStrokes} width={containerWidth} height={containerHeight} />
+      <ShotAnnotationLayer annotations={annotations} width={containerWidth} height={containerHeight} />
     </div>
   );
 };
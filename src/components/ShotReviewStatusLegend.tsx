@@ -0,0 +1,24 @@
+import { SHOT_REVIEW_STATUS_OPTIONS } from '@/utils/shotReviewStatus';
+
+interface ShotReviewStatusLegendProps {
+  textColor: string;
+}
+
+/**
+ * Footer key for the review status badges. Sized to the page-number line.
+ */
+export const ShotReviewStatusLegend: React.FC<ShotReviewStatusLegendProps> = ({ textColor }) => (
+  <div className="flex items-center gap-3 shot-review-status-legend" style={{ color: textColor }}>
+    {SHOT_REVIEW_STATUS_OPTIONS.map((option) => (
+      <div key={option.value} className="flex items-center gap-1">
+        <span
+          className="inline-block rounded-full"
+          style={{ width: '6px', height: '6px', backgroundColor: option.color }}
+        />
+        <span>{option.label}</span>
+      </div>
+    ))}
+  </div>
+);
+
+ShotReviewStatusLegend.displayName = 'ShotReviewStatusLegend';
@@ -0,0 +1,190 @@
+import { useEffect } from 'react';
+import { ClipboardCopy, Copy, Crop, FileSymlink, Group, ImageOff, Trash2, Ungroup, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAppStore } from '@/store';
+import { useShotClipboard } from '@/hooks/useShotClipboard';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { getGlassmorphismStyles } from '@/styles/glassmorphism-styles';
+import { getLayoutToolbarContainerStyles, TOOLBAR_STYLES } from '@/styles/toolbar-styles';
+import { orderShotIds } from '@/utils/shotSelection';
+import { isTextEntryTarget } from '@/utils/shortcuts';
+
+interface ShotSelectionToolbarProps {
+  pageId: string;
+  disabled?: boolean;
+}
+
+const pluralizeShots = (count: number) => `${count} ${count === 1 ? 'shot' : 'shots'}`;
+
+/**
+ * Floating bar for the shots selected with shift/ctrl-click or the marquee.
+ * Escape clears the selection, Ctrl/Cmd+A selects the page, Delete removes
+ * the selected shots and Ctrl/Cmd+C/V copy and paste them (see
+ * useShotClipboard).
+ */
+export const ShotSelectionToolbar: React.FC<ShotSelectionToolbarProps> = ({ pageId, disabled = false }) => {
+  const {
+    pages,
+    shots,
+    shotOrder,
+    selectedShotIds,
+    selectionAnchorId,
+    setShotSelection,
+    clearShotSelection,
+    getPageShots,
+    deleteShots,
+    duplicateShots,
+    moveShotsToPage,
+    groupShots,
+    ungroupShots,
+    clearShotImages,
+    applyFramingToShots,
+  } = useAppStore();
+  const { copySelectedShots } = useShotClipboard(pageId, !disabled);
+  // Shots deleted elsewhere (undo, another tab) drop out of the selection
+  const selection = orderShotIds(shotOrder, selectedShotIds);
+  const count = selection.length;
+
+  const handleDelete = () => {
+    deleteShots(selection);
+    toast.success(`Deleted ${pluralizeShots(count)}`);
+  };
+
+  useEffect(() => {
+    if (disabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextEntryTarget(event.target)) return;
+
+      if ((event.metaKey || event.ctrlKey) && !event.altKey && !event.shiftKey && event.key.toLowerCase() === 'a') {
+        const pageShotIds = getPageShots(pageId).map((shot) => shot.id);
+        if (pageShotIds.length === 0) return;
+        event.preventDefault();
+        setShotSelection(pageShotIds, pageShotIds[0]);
+        return;
+      }
+
+      if (count === 0) return;
+      if (event.key === 'Escape') {
+        clearShotSelection();
+      } else if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        handleDelete();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (count === 0) return null;
+
+  const selectedShots = selection.map((shotId) => shots[shotId]);
+  const framingSourceId = selectionAnchorId && selection.includes(selectionAnchorId) ? selectionAnchorId : selection[0];
+  const framingSource = shots[framingSourceId];
+  const canApplyFraming = count > 1 && Boolean(framingSource?.imageData || framingSource?.imageUrl);
+  const hasGroupedShots = selectedShots.some((shot) => shot?.subShotGroupId);
+  const hasImages = selectedShots.some((shot) => shot?.imageData || shot?.imageUrl || shot?.imageTakes?.length);
+
+  const actionButtonProps = {
+    variant: 'outline' as const,
+    size: 'compact' as const,
+    className: 'px-2',
+    style: getLayoutToolbarContainerStyles(),
+    disabled,
+  };
+
+  return (
+    <div
+      className="fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 items-center gap-1 rounded-lg p-1.5 shadow-xl"
+      style={getGlassmorphismStyles('dark')}
+      role="toolbar"
+      aria-label="Selected shots"
+    >
+      <span className={`px-2 text-xs font-medium ${TOOLBAR_STYLES.textClasses}`}>
+        {pluralizeShots(count)} selected
+      </span>
+
+      <Button {...actionButtonProps} onClick={() => void copySelectedShots()} title="Copy to clipboard (Ctrl/Cmd+C)">
+        <ClipboardCopy size={14} className={`mr-1 ${TOOLBAR_STYLES.iconClasses}`} />
+        Copy
+      </Button>
+
+      <Button {...actionButtonProps} onClick={() => duplicateShots(selection)}>
+        <Copy size={14} className={`mr-1 ${TOOLBAR_STYLES.iconClasses}`} />
+        Duplicate
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button {...actionButtonProps}>
+            <FileSymlink size={14} className={`mr-1 ${TOOLBAR_STYLES.iconClasses}`} />
+            Move to Page
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" side="top" className="max-h-64 overflow-y-auto">
+          {pages.map((page, index) => (
+            <DropdownMenuItem key={page.id} onClick={() => moveShotsToPage(selection, page.id)}>
+              {page.name || `Page ${index + 1}`}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button {...actionButtonProps} disabled={disabled || count < 2} onClick={() => groupShots(selection)}>
+        <Group size={14} className={`mr-1 ${TOOLBAR_STYLES.iconClasses}`} />
+        Group
+      </Button>
+
+      <Button {...actionButtonProps} disabled={disabled || !hasGroupedShots} onClick={() => ungroupShots(selection)}>
+        <Ungroup size={14} className={`mr-1 ${TOOLBAR_STYLES.iconClasses}`} />
+        Ungroup
+      </Button>
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span>
+            <Button
+              {...actionButtonProps}
+              disabled={disabled || !canApplyFraming}
+              onClick={() => applyFramingToShots(framingSourceId, selection)}
+            >
+              <Crop size={14} className={`mr-1 ${TOOLBAR_STYLES.iconClasses}`} />
+              Apply Framing
+            </Button>
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>
+          Copy scale, position, rotation and flips from shot {framingSource?.number} (the last one clicked)
+        </TooltipContent>
+      </Tooltip>
+
+      <Button {...actionButtonProps} disabled={disabled || !hasImages} onClick={() => clearShotImages(selection)}>
+        <ImageOff size={14} className={`mr-1 ${TOOLBAR_STYLES.iconClasses}`} />
+        Clear Images
+      </Button>
+
+      <Button {...actionButtonProps} onClick={handleDelete}>
+        <Trash2 size={14} className={`mr-1 ${TOOLBAR_STYLES.iconClasses}`} />
+        Delete
+      </Button>
+
+      <Button
+        {...actionButtonProps}
+        onClick={clearShotSelection}
+        aria-label="Clear selection"
+        title="Clear selection (Esc)"
+      >
+        <X size={14} className={TOOLBAR_STYLES.iconClasses} />
+      </Button>
+    </div>
+  );
+};
+
+ShotSelectionToolbar.displayName = 'ShotSelectionToolbar';
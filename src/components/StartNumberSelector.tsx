@@ -55,13 +55,16 @@ export const StartNumberSelector: React.FC = () => {
             onChange={handleInputChange}
             onBlur={handleInputBlur}
             onKeyDown={handleKeyDown}
-            className={`h-5 w-[45px] px-1 border-none shadow-none bg-transparent focus:ring-0 focus:outline-none ${TOOLBAR_STYLES.layoutEditableHoverClasses} ${TOOLBAR_STYLES.textClasses} rounded-sm transition-colors`}
-            maxLength={10}
+            className={`h-5 px-1 border-none shadow-none bg-transparent focus:ring-0 focus:outline-none ${TOOLBAR_STYLES.layoutEditableHoverClasses} ${TOOLBAR_STYLES.textClasses} rounded-sm transition-colors`}
+            // Templates like {scene}-{shot:03}{sub} need more room than '01'
+            style={{ width: `${Math.min(180, Math.max(45, inputValue.length * 7 + 10))}px` }}
+            maxLength={40}
           />
         </div>
       </TooltipTrigger>
       <TooltipContent>
         <p>Shot Number Format</p>
+        <p className="text-xs opacity-70">e.g. 01, 100, or {'{scene}-{shot:03}{sub}'}</p>
       </TooltipContent>
     </Tooltip>
   );
@@ -5,7 +5,7 @@ import { GridSizeSelector } from './GridSizeSelector';
 import { PageSizeModeSelector } from './PageSizeModeSelector';
 import { AspectRatioSelector } from './AspectRatioSelector';
 import { StartNumberSelector } from './StartNumberSelector';
-import { useAppStore, Shot } from '@/store';
+import { useAppStore, Shot, type ImageEditField } from '@/store';
 import { useAuthStore } from '@/store/authStore';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,7 +23,7 @@ import {
   DialogDescription,
   DialogFooter,
 } from '@/components/ui/dialog';
-import { Download, FileImage, FileText, ChevronDown, Palette, ChevronUp } from 'lucide-react';
+import { Download, FileImage, FileText, Film, ChevronDown, Palette, ChevronUp, Undo2, Redo2, Clapperboard, Keyboard } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -40,14 +40,27 @@ import { ProjectDropdown } from './ProjectDropdown';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { PDFExportModal } from './PDFExportModal';
 import { PNGExportModal } from './PNGExportModal';
+import { VideoExportModal } from './VideoExportModal';
 import { BatchLoadModal } from './BatchLoadModal';
 import { ShotListLoadModal } from './ShotListLoadModal';
 import { ImageEditorModal } from './ImageEditorModal';
+import { AnimaticPlayer } from './AnimaticPlayer';
+import { ReviewStatusFilter } from './ReviewStatusFilter';
+import { SceneManager } from './SceneManager';
+import { CustomFieldsManager } from './CustomFieldsManager';
+import { HeaderSettingsManager } from './HeaderSettingsManager';
+import { FindReplacePanel } from './FindReplacePanel';
+import { ShotSelectionToolbar } from './ShotSelectionToolbar';
+import { CommandPalette } from './CommandPalette';
+import { ShortcutSheet } from './ShortcutSheet';
 import { ProjectLimitDialog } from './ProjectLimitDialog';
 import { UpgradeToProDialog } from './UpgradeToProDialog';
 import { useAuthModalStore } from '@/store/authModalStore';
 import { canCreateProjectServerSide } from '@/utils/projectCreationGate';
 import ErrorBoundary from './ErrorBoundary';
+import { useEditorShortcuts, useShortcutLabel, type EditorCommandHandlers } from '@/hooks/useEditorShortcuts';
+import { useShotNavigation } from '@/hooks/useShotNavigation';
+import { focusShotFieldWhenRendered } from '@/utils/shotNavigation';
 import {
   DndContext,
   DragEndEvent,
@@ -102,6 +115,7 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
     applyImageEdit,
     deleteShot,
     addShot,
+    createPage,
     addSubShot,
     reorderShots,
     moveShot,
@@ -110,10 +124,17 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
     setIsDragging,
     insertShotIntoSubGroup,
     removeFromSubGroup,
+    selectedShotIds,
+    moveShots,
     jobInfo,
     pageSizeMode,
+    customPageSize,
     canCreateProject,
-    createProject
+    createProject,
+    canUndo,
+    canRedo,
+    undo,
+    redo
   } = useAppStore();
   
   const navigate = useNavigate();
@@ -128,9 +149,14 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
     : 1;
   const [showPNGModal, setShowPNGModal] = useState(false);
   const [showPDFModal, setShowPDFModal] = useState(false);
+  const [showVideoModal, setShowVideoModal] = useState(false);
   const [showBatchLoadModal, setShowBatchLoadModal] = useState(false);
   const [showShotListLoadModal, setShowShotListLoadModal] = useState(false);
   const [showImageEditorModal, setShowImageEditorModal] = useState(false);
+  const [showAnimaticPlayer, setShowAnimaticPlayer] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showShortcutSheet, setShowShortcutSheet] = useState(false);
+  const [showFindReplace, setShowFindReplace] = useState(false);
   const [showCreateProjectDialog, setShowCreateProjectDialog] = useState(false);
   const [newProjectName, setNewProjectName] = useState('');
   const [newProjectDescription, setNewProjectDescription] = useState('');
@@ -176,12 +202,48 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
     }
   };
   
+  const { moveShot: moveToShot, moveField, movePage } = useShotNavigation();
+  const undoShortcut = useShortcutLabel('history.undo');
+  const redoShortcut = useShortcutLabel('history.redo');
+  const shortcutSheetShortcut = useShortcutLabel('shortcuts.show');
+
+  // Every editor command, shared by the keyboard shortcuts and the command
+  // palette. Undo/redo skip text fields so they keep their native undo.
+  const editorCommands: EditorCommandHandlers = {
+    'palette.open': () => setShowCommandPalette((open) => !open),
+    'shortcuts.show': () => setShowShortcutSheet(true),
+    'history.undo': () => undo(),
+    'history.redo': () => redo(),
+    'shot.next': () => moveToShot(1),
+    'shot.previous': () => moveToShot(-1),
+    'field.next': () => moveField(1),
+    'field.previous': () => moveField(-1),
+    'page.next': () => movePage(1),
+    'page.previous': () => movePage(-1),
+    ...(!isExporting && {
+      'find.open': () => setShowFindReplace(true),
+      'shot.add': () => {
+        const shotId = addShot(pageId);
+        if (shotId) focusShotFieldWhenRendered(shotId, 'first');
+      },
+      'page.add': () => {
+        createPage();
+        toast.success('New page created!');
+      },
+      'export.pdf': () => setShowPDFModal(true),
+      'export.png': () => setShowPNGModal(true),
+      'export.video': () => setShowVideoModal(true),
+      'animatic.play': () => setShowAnimaticPlayer(true),
+    }),
+  };
+  useEditorShortcuts(editorCommands);
+
   // Drag and drop state
   const [activeShot, setActiveShot] = React.useState<Shot | null>(null);
   const [dragOverlayScale, setDragOverlayScale] = React.useState(1);
   const [dragOverlayOffset, setDragOverlayOffset] = React.useState<DragOverlayOffset>({ x: 0, y: 0 });
   const pageShots = getPageShots(pageId);
-  const fixedPageFrameHeight = getFixedPageFrameHeight(pageSizeMode);
+  const fixedPageFrameHeight = getFixedPageFrameHeight(pageSizeMode, customPageSize);
   const isFixedPageMode = pageSizeMode !== 'dynamic';
 
   useEffect(() => {
@@ -219,7 +281,7 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
         wrapper.style.height = '';
       }
     };
-  }, [page, templateSettings, pageSizeMode]);
+  }, [page, templateSettings, pageSizeMode, customPageSize]);
 
   // Drag and drop sensors
   const sensors = useSensors(
@@ -363,6 +425,12 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
 
     if (!activeShot || !overShot) return;
 
+    // Dragging one of several selected shots moves the whole selection
+    if (selectedShotIds.length > 1 && selectedShotIds.includes(activeShot.id)) {
+      moveShots(selectedShotIds, overShot.id);
+      return;
+    }
+
     const targetPosition = getGlobalShotIndex(overShot.id);
     
     if (targetPosition === -1) return;
@@ -392,7 +460,7 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
         }
       }
     }
-  }, [pageShots, setIsDragging, getGlobalShotIndex, moveShot, moveShotGroup, shouldInsertIntoSubGroup, shouldMoveEntireGroup, insertShotIntoSubGroup, removeFromSubGroup, shots]);
+  }, [pageShots, setIsDragging, getGlobalShotIndex, moveShot, moveShotGroup, moveShots, selectedShotIds, shouldInsertIntoSubGroup, shouldMoveEntireGroup, insertShotIntoSubGroup, removeFromSubGroup, shots]);
 
   const handleDragCancel = useCallback(() => {
     setActiveShot(null);
@@ -477,7 +545,7 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
     setShowImageEditorModal(true);
   };
 
-  const handleApplyImageEdit = (updates: { imageScale?: number; imageOffsetX?: number; imageOffsetY?: number }) => {
+  const handleApplyImageEdit = (updates: Pick<Shot, ImageEditField>) => {
     if (editingShot) {
       applyImageEdit(editingShot.id, updates);
     }
@@ -519,9 +587,83 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
                   <FileText size={16} className="mr-2" />
                   Export as PDF
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowVideoModal(true)} disabled={isExporting}>
+                  <Film size={16} className="mr-2" />
+                  Export as Video
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
+          <div className="flex flex-col gap-1">
+            <Label className={toolbarSectionLabelClasses}>Edit</Label>
+            <div className="flex gap-1">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="compact"
+                    disabled={!canUndo || isExporting}
+                    onClick={() => undo()}
+                    className="px-2"
+                    style={getLayoutToolbarContainerStyles()}
+                    aria-label="Undo"
+                  >
+                    <Undo2 size={16} className={TOOLBAR_STYLES.iconClasses} />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Undo{undoShortcut && ` (${undoShortcut})`}</TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="compact"
+                    disabled={!canRedo || isExporting}
+                    onClick={() => redo()}
+                    className="px-2"
+                    style={getLayoutToolbarContainerStyles()}
+                    aria-label="Redo"
+                  >
+                    <Redo2 size={16} className={TOOLBAR_STYLES.iconClasses} />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Redo{redoShortcut && ` (${redoShortcut})`}</TooltipContent>
+              </Tooltip>
+              <FindReplacePanel open={showFindReplace} onOpenChange={setShowFindReplace} disabled={isExporting} />
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="compact"
+                    onClick={() => setShowShortcutSheet(true)}
+                    className="px-2"
+                    style={getLayoutToolbarContainerStyles()}
+                    aria-label="Keyboard shortcuts"
+                  >
+                    <Keyboard size={16} className={TOOLBAR_STYLES.iconClasses} />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Keyboard shortcuts{shortcutSheetShortcut && ` (${shortcutSheetShortcut})`}</TooltipContent>
+              </Tooltip>
+            </div>
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label className={toolbarSectionLabelClasses}>Review</Label>
+            <div className="flex gap-1">
+              <ReviewStatusFilter disabled={isExporting} />
+              <Button
+                variant="outline"
+                size="compact"
+                onClick={() => setShowAnimaticPlayer(true)}
+                disabled={isExporting}
+                className="px-2"
+                style={getLayoutToolbarContainerStyles()}
+              >
+                <Clapperboard size={16} className={`mr-0.25 ${TOOLBAR_STYLES.iconClasses}`} />
+                Animatic
+              </Button>
+            </div>
+          </div>
         </div>
 
         <div className="flex flex-row flex-wrap items-end gap-1.5 w-full min-w-0">
@@ -554,6 +696,18 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
               <Label className={toolbarSectionLabelClasses}>Numbers</Label>
               <StartNumberSelector />
             </div>
+            <div className="flex flex-col gap-1">
+              <Label className={toolbarSectionLabelClasses}>Scenes</Label>
+              <SceneManager disabled={isExporting} />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label className={toolbarSectionLabelClasses}>Fields</Label>
+              <CustomFieldsManager disabled={isExporting} />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label className={toolbarSectionLabelClasses}>Header</Label>
+              <HeaderSettingsManager disabled={isExporting} />
+            </div>
             <div className="flex flex-col gap-1">
               <Label className={toolbarSectionLabelClasses}>Template</Label>
               <TemplateSettings />
@@ -728,6 +882,7 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
               }}
             >
               <div
+                className="relative"
                 style={{
                   transform: `scale(${dragOverlayScale})`,
                   transformOrigin: 'top left',
@@ -743,6 +898,17 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
                   aspectRatio={page?.aspectRatio || '16/9'}
                   previewDimensions={previewDimensions}
                 />
+                {selectedShotIds.length > 1 && selectedShotIds.includes(activeShot.id) && (
+                  <div
+                    className="absolute -right-2 -top-2 z-30 rounded-full px-2 py-0.5 text-xs font-semibold shadow-lg"
+                    style={{
+                      backgroundColor: getColor('interaction', 'active') as string,
+                      color: getColor('text', 'inverse') as string
+                    }}
+                  >
+                    {selectedShotIds.length}
+                  </div>
+                )}
               </div>
             </div>
           ) : null}
@@ -750,6 +916,17 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
         </DndContext>
         </ErrorBoundary>
 
+        <ShotSelectionToolbar pageId={pageId} disabled={isExporting} />
+
+        <CommandPalette
+          open={showCommandPalette}
+          onOpenChange={setShowCommandPalette}
+          pageId={pageId}
+          handlers={editorCommands}
+        />
+
+        <ShortcutSheet open={showShortcutSheet} onOpenChange={setShowShortcutSheet} />
+
         <PNGExportModal
           isOpen={showPNGModal}
           onClose={() => setShowPNGModal(false)}
@@ -762,6 +939,12 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
           currentPageIndex={pageIndex}
         />
 
+        <VideoExportModal
+          isOpen={showVideoModal}
+          onClose={() => setShowVideoModal(false)}
+          currentPageIndex={pageIndex}
+        />
+
         <BatchLoadModal
           isOpen={showBatchLoadModal}
           onClose={() => setShowBatchLoadModal(false)}
@@ -788,6 +971,11 @@ export const StoryboardPage: React.FC<StoryboardPageProps> = ({
           onApply={handleApplyImageEdit}
         />
 
+        <AnimaticPlayer
+          isOpen={showAnimaticPlayer}
+          onClose={() => setShowAnimaticPlayer(false)}
+        />
+
         {/* Create Project Dialog */}
         <Dialog open={showCreateProjectDialog} onOpenChange={setShowCreateProjectDialog}>
           <DialogContent style={getGlassmorphismStyles('dark')}>
@@ -5,6 +5,8 @@ import {
   DropdownMenuContent,
   DropdownMenuCheckboxItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { PanelTopDashed } from 'lucide-react';
@@ -12,11 +14,14 @@ import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
 import { getLayoutToolbarContainerStylesWithOverrides, TOOLBAR_STYLES } from '@/styles/toolbar-styles';
 import { getColor } from '@/styles/glassmorphism-styles';
 import { cn } from '@/lib/utils';
+import { getCustomFields } from '@/utils/customFields';
+import { getPageNumberFormat, isPageNumberFormat, PAGE_NUMBER_FORMAT_OPTIONS } from '@/utils/pageFooter';
 
 export const TemplateSettings: React.FC = () => {
   const {
     templateSettings,
     setTemplateSetting,
+    updateCustomField,
     projectName,
     projectInfo,
     clientAgency,
@@ -34,10 +39,16 @@ export const TemplateSettings: React.FC = () => {
   const shotSettingsItems = [
     { key: 'showActionText', label: 'Action Text' },
     { key: 'showScriptText', label: 'Script Text' },
+    { key: 'showCameraDetails', label: 'Camera Details' },
+    { key: 'showReviewStatus', label: 'Review Status' },
+    { key: 'showOmittedShots', label: 'Omitted Shots' },
   ] as const;
 
   const footerSettingsItems = [
     { key: 'showPageNumber', label: 'Page Number' },
+    { key: 'showFooterText', label: 'Footer Text' },
+    { key: 'showFooterDate', label: 'Date' },
+    { key: 'showRevision', label: 'Revision' },
   ] as const;
 
   const templateSectionLabelStyle = {
@@ -100,6 +111,16 @@ export const TemplateSettings: React.FC = () => {
             {item.label}
           </DropdownMenuCheckboxItem>
         ))}
+        {getCustomFields(templateSettings).map((field) => (
+          <DropdownMenuCheckboxItem
+            key={field.id}
+            checked={field.visible}
+            onCheckedChange={(checked) => updateCustomField(field.id, { visible: !!checked })}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {field.name}
+          </DropdownMenuCheckboxItem>
+        ))}
         <DropdownMenuLabel style={templateSectionLabelStyle}>Footer</DropdownMenuLabel>
         {footerSettingsItems.map((item) => (
           <DropdownMenuCheckboxItem
@@ -111,6 +132,27 @@ export const TemplateSettings: React.FC = () => {
             {item.label}
           </DropdownMenuCheckboxItem>
         ))}
+        {templateSettings.showPageNumber && (
+          <>
+            <DropdownMenuLabel style={templateSectionLabelStyle}>Page Number Format</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={getPageNumberFormat(templateSettings)}
+              onValueChange={(value) => {
+                if (isPageNumberFormat(value)) setTemplateSetting('pageNumberFormat', value);
+              }}
+            >
+              {PAGE_NUMBER_FORMAT_OPTIONS.map((option) => (
+                <DropdownMenuRadioItem
+                  key={option.value}
+                  value={option.value}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {option.label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -0,0 +1,458 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAppStore } from '@/store';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Badge } from '@/components/ui/badge';
+import { Film, Download, AlertTriangle, Info } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { toast } from '@/hooks/use-toast';
+import { exportManager } from '@/utils/export/exportManager';
+import { getSupportedWebMMimeType } from '@/utils/export/videoRenderer';
+import { formatRunningTime, getAnimaticShotDuration } from '@/utils/animatic';
+import { isShotOmitted } from '@/utils/shotReviewStatus';
+import type { VideoExportOptions, VideoResolution } from '@/utils/types/exportTypes';
+import { MODAL_OVERLAY_STYLES, getGlassmorphismStyles, getColor } from '@/styles/glassmorphism-styles';
+
+interface VideoPageSelection {
+  pages: 'all' | 'current' | 'range';
+  pageRange?: { start: number; end: number };
+}
+
+interface VideoExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentPageIndex: number;
+}
+
+const INVALID_FILENAME_CHARS_REGEX = /[<>:"/\\|?*]/g;
+const CONTROL_CHARS_REGEX = new RegExp(
+  `[${String.fromCharCode(0)}-${String.fromCharCode(31)}]`,
+  'g'
+);
+
+const VIDEO_FPS = 30;
+
+export function VideoExportModal({ isOpen, onClose, currentPageIndex }: VideoExportModalProps) {
+  const { pages, projectName, currentProject, getPageShots } = useAppStore();
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{ elapsed: number; total: number; shotNumber: string } | null>(null);
+  const [filenameInput, setFilenameInput] = useState('');
+  const [selection, setSelection] = useState<VideoPageSelection>({
+    pages: 'all',
+    pageRange: { start: 1, end: pages.length }
+  });
+  const [resolution, setResolution] = useState<VideoResolution>('1080p');
+  const [burnInShotNumbers, setBurnInShotNumbers] = useState(true);
+  const [burnInCaptions, setBurnInCaptions] = useState(false);
+
+  const isSupported = useMemo(() => getSupportedWebMMimeType() !== null, []);
+
+  const sanitizeVideoFilename = useCallback((rawName: string): string => {
+    const withoutExtension = rawName.trim().replace(/\.webm$/i, '').trim();
+    const sanitizedBase = withoutExtension
+      .replace(INVALID_FILENAME_CHARS_REGEX, '_')
+      .replace(CONTROL_CHARS_REGEX, '_')
+      .replace(/\s+/g, ' ')
+      .replace(/[. ]+$/g, '')
+      .trim();
+    return sanitizedBase || 'storyboard';
+  }, []);
+
+  const resolveDefaultFilename = useCallback((): string => {
+    const projectTitle = (currentProject?.name || projectName || '').trim();
+    return sanitizeVideoFilename(projectTitle ? `${projectTitle} animatic` : 'animatic');
+  }, [currentProject?.name, projectName, sanitizeVideoFilename]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFilenameInput(resolveDefaultFilename());
+    setSelection(prev => ({
+      ...prev,
+      pageRange: {
+        start: prev.pageRange?.start || 1,
+        end: pages.length
+      }
+    }));
+  }, [isOpen, pages.length, resolveDefaultFilename]);
+
+  const updatePageRange = (field: 'start' | 'end', value: number) => {
+    setSelection(prev => ({
+      ...prev,
+      pageRange: {
+        ...prev.pageRange!,
+        [field]: Math.max(1, Math.min(pages.length, value))
+      }
+    }));
+  };
+
+  const getSelectedPages = () => {
+    if (selection.pages === 'current') {
+      return pages[currentPageIndex] ? [pages[currentPageIndex]] : [];
+    }
+
+    if (selection.pages === 'range' && selection.pageRange) {
+      const { start, end } = selection.pageRange;
+      return pages.slice(start - 1, end);
+    }
+
+    return pages;
+  };
+
+  const isValidRange = () => {
+    if (selection.pages !== 'range' || !selection.pageRange) return true;
+    const { start, end } = selection.pageRange;
+    return start >= 1 && end <= pages.length && start <= end;
+  };
+
+  // Omitted shots stay out of the video, matching the animatic
+  const getVideoShots = (pageId: string) => getPageShots(pageId).filter(shot => !isShotOmitted(shot));
+
+  const selectedPages = getSelectedPages();
+  const selectedShots = selectedPages.flatMap(page => getVideoShots(page.id));
+  const runningTime = selectedShots.reduce((total, shot) => total + getAnimaticShotDuration(shot), 0);
+
+  const handleExport = async () => {
+    const baseFilename = sanitizeVideoFilename(filenameInput || resolveDefaultFilename());
+
+    if (selectedShots.length === 0) {
+      toast({
+        title: 'No shots to export',
+        description: 'The selected pages do not contain any shots.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+
+      const videoPages = selectedPages.map(page => ({
+        aspectRatio: page.aspectRatio,
+        shots: getVideoShots(page.id)
+      }));
+
+      const videoOptions: VideoExportOptions = {
+        resolution,
+        fps: VIDEO_FPS,
+        burnInShotNumbers,
+        burnInCaptions,
+        backgroundColor: '#000000',
+      };
+
+      await exportManager.downloadVideo(
+        videoPages,
+        baseFilename,
+        videoOptions,
+        (elapsed, total, shotNumber) => {
+          setExportProgress({ elapsed, total, shotNumber });
+        }
+      );
+
+      toast({
+        title: 'Video Export Successful',
+        description: `Exported ${selectedShots.length} shot(s) to ${baseFilename}.webm`,
+      });
+
+      onClose();
+    } catch (error) {
+      console.error('Video export failed:', error);
+      toast({
+        title: 'Video Export Failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsExporting(false);
+      setExportProgress(null);
+    }
+  };
+
+  const inputStyle = {
+    backgroundColor: getColor('input', 'background') as string,
+    border: `1px solid ${getColor('input', 'border') as string}`,
+    color: getColor('text', 'primary') as string
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent
+        className="max-w-2xl max-h-[90vh] overflow-y-auto"
+        style={getGlassmorphismStyles('dark')}
+      >
+        <DialogHeader>
+          <DialogTitle
+            className="flex items-center gap-2"
+            style={{ color: getColor('text', 'primary') as string }}
+          >
+            <Film className="h-5 w-5" />
+            Export as Video
+          </DialogTitle>
+          <DialogDescription className="sr-only">
+            Record the storyboard as a timed WebM animatic using each shot's duration.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <Label
+              className="text-base font-medium"
+              style={{ color: getColor('text', 'primary') as string }}
+            >
+              Pages to Export
+            </Label>
+            <RadioGroup
+              value={selection.pages}
+              onValueChange={(value) => setSelection(prev => ({ ...prev, pages: value as VideoPageSelection['pages'] }))}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="all" id="video-all-pages" />
+                <Label htmlFor="video-all-pages" style={{ color: getColor('text', 'secondary') as string }}>
+                  All Pages ({pages.length})
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="current" id="video-current-page" />
+                <Label htmlFor="video-current-page" style={{ color: getColor('text', 'secondary') as string }}>
+                  Current Page ({currentPageIndex + 1}: {pages[currentPageIndex]?.name || 'Untitled'})
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="range" id="video-page-range" />
+                <Label htmlFor="video-page-range" style={{ color: getColor('text', 'secondary') as string }}>
+                  Page Range
+                </Label>
+              </div>
+            </RadioGroup>
+
+            {selection.pages === 'range' && (
+              <div className="ml-6 flex items-center gap-2">
+                <Label htmlFor="video-start-page" style={{ color: getColor('text', 'secondary') as string }}>
+                  From:
+                </Label>
+                <input
+                  id="video-start-page"
+                  type="number"
+                  min="1"
+                  max={pages.length}
+                  value={selection.pageRange?.start || 1}
+                  onChange={(event) => updatePageRange('start', parseInt(event.target.value) || 1)}
+                  className="w-16 px-2 py-1 rounded text-sm"
+                  style={inputStyle}
+                />
+                <Label htmlFor="video-end-page" style={{ color: getColor('text', 'secondary') as string }}>
+                  To:
+                </Label>
+                <input
+                  id="video-end-page"
+                  type="number"
+                  min="1"
+                  max={pages.length}
+                  value={selection.pageRange?.end || pages.length}
+                  onChange={(event) => updatePageRange('end', parseInt(event.target.value) || pages.length)}
+                  className="w-16 px-2 py-1 rounded text-sm"
+                  style={inputStyle}
+                />
+                <Badge variant={isValidRange() ? 'default' : 'destructive'}>
+                  {selectedPages.length} page(s)
+                </Badge>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <Label
+              className="text-base font-medium"
+              style={{ color: getColor('text', 'primary') as string }}
+            >
+              Video Settings
+            </Label>
+            <RadioGroup
+              value={resolution}
+              onValueChange={(value) => setResolution(value as VideoResolution)}
+              className="flex gap-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="720p" id="video-720p" />
+                <Label htmlFor="video-720p" style={{ color: getColor('text', 'secondary') as string }}>
+                  720p
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="1080p" id="video-1080p" />
+                <Label htmlFor="video-1080p" style={{ color: getColor('text', 'secondary') as string }}>
+                  1080p
+                </Label>
+              </div>
+            </RadioGroup>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="video-burn-in-numbers"
+                checked={burnInShotNumbers}
+                onCheckedChange={(checked) => setBurnInShotNumbers(checked === true)}
+              />
+              <Label htmlFor="video-burn-in-numbers" style={{ color: getColor('text', 'secondary') as string }}>
+                Burn in shot numbers
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="video-burn-in-captions"
+                checked={burnInCaptions}
+                onCheckedChange={(checked) => setBurnInCaptions(checked === true)}
+              />
+              <Label htmlFor="video-burn-in-captions" style={{ color: getColor('text', 'secondary') as string }}>
+                Burn in script text as captions
+              </Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="video-filename" style={{ color: getColor('text', 'secondary') as string }}>
+                Filename
+              </Label>
+              <input
+                id="video-filename"
+                type="text"
+                value={filenameInput}
+                onChange={(event) => setFilenameInput(event.target.value)}
+                placeholder="animatic"
+                className="w-full px-3 py-2 rounded text-sm"
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          <Alert
+            style={{
+              backgroundColor: getColor('background', 'subtle') as string,
+              border: `1px solid ${getColor('border', 'primary') as string}`,
+              color: getColor('text', 'primary') as string
+            }}
+          >
+            <Info className="h-4 w-4" />
+            <AlertDescription style={{ color: getColor('text', 'secondary') as string }}>
+              {selectedShots.length} shot(s), running time {formatRunningTime(runningTime)}.
+              <div className="mt-1">
+                Recording runs in real time, so keep this tab open until it finishes.
+              </div>
+            </AlertDescription>
+          </Alert>
+
+          {!isSupported && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                This browser cannot record WebM video. Try a recent version of Chrome, Edge or Firefox.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {!isValidRange() && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Invalid page range. Please select a valid range between 1 and {pages.length}.
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={onClose}
+            disabled={isExporting}
+            style={getGlassmorphismStyles('button')}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || !isSupported || !isValidRange()}
+            className="min-w-[100px]"
+            style={getGlassmorphismStyles('buttonAccent')}
+          >
+            {isExporting ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+                Recording...
+              </>
+            ) : (
+              <>
+                <Download className="h-4 w-4 mr-2" />
+                Export WebM
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+
+      {exportProgress && (
+        <div
+          className="fixed inset-0 z-[100] flex items-center justify-center"
+          style={MODAL_OVERLAY_STYLES}
+        >
+          <div
+            className="rounded-lg shadow-2xl p-8 max-w-md w-full mx-4"
+            style={getGlassmorphismStyles('dark')}
+          >
+            <div className="space-y-4">
+              <div className="flex items-center gap-3">
+                <div
+                  className="animate-spin rounded-full h-8 w-8 border-b-2"
+                  style={{ borderColor: getColor('button', 'accent') as string }}
+                />
+                <div>
+                  <h3
+                    className="font-semibold text-lg"
+                    style={{ color: getColor('text', 'primary') as string }}
+                  >
+                    Recording video...
+                  </h3>
+                  <p
+                    className="text-sm"
+                    style={{ color: getColor('text', 'secondary') as string }}
+                  >
+                    {formatRunningTime(exportProgress.elapsed)} of {formatRunningTime(exportProgress.total)}
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span style={{ color: getColor('text', 'secondary') as string }}>Current shot:</span>
+                  <span
+                    className="font-medium"
+                    style={{ color: getColor('text', 'primary') as string }}
+                  >
+                    {exportProgress.shotNumber}
+                  </span>
+                </div>
+
+                <div
+                  className="w-full rounded-full h-2.5 overflow-hidden"
+                  style={{ backgroundColor: getColor('progress', 'background') as string }}
+                >
+                  <div
+                    className="h-2.5 rounded-full transition-all duration-300"
+                    style={{
+                      backgroundColor: getColor('progress', 'fill') as string,
+                      width: `${exportProgress.total > 0 ? (exportProgress.elapsed / exportProgress.total) * 100 : 0}%`
+                    }}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </Dialog>
+  );
+}
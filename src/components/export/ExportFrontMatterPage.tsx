@@ -0,0 +1,82 @@
+import * as React from 'react';
+import type {
+  NormalizedExportImageSource,
+  ServerPDFExportPayload,
+  ServerPDFFrontMatter,
+  ServerPDFGeneratedPage,
+} from '@/utils/types/exportTypes';
+import { getFixedPageFrameHeight, resolvePageSizeMode } from '@/utils/pageSize';
+import {
+  COVER_PAGE_STYLES,
+  CONTENTS_PAGE_STYLES,
+  getContentsEntryName,
+  getFrontMatterPageStyle,
+} from '@/utils/export/frontMatter';
+
+interface ExportFrontMatterPageProps {
+  payload: ServerPDFExportPayload;
+  generatedPage: ServerPDFGeneratedPage;
+  frontMatter: ServerPDFFrontMatter;
+  pageElementId: string;
+}
+
+const getImageSource = (image: NormalizedExportImageSource | null): string | null => {
+  if (!image) return null;
+  return image.kind === 'dataUrl' ? image.dataUrl : image.url;
+};
+
+// Mirrors buildCoverPage/buildContentsPage in export-pdf-static
+export const ExportFrontMatterPage: React.FC<ExportFrontMatterPageProps> = ({
+  payload,
+  generatedPage,
+  frontMatter,
+  pageElementId,
+}) => {
+  const { project, theme } = payload;
+  const fixedPageFrameHeight = getFixedPageFrameHeight(
+    resolvePageSizeMode(payload.pageSizeMode),
+    payload.customPageSize
+  );
+  const logoSource = getImageSource(project.projectLogo);
+
+  const pageStyle: React.CSSProperties = {
+    height: fixedPageFrameHeight ? `${fixedPageFrameHeight}px` : undefined,
+    minHeight: fixedPageFrameHeight ? undefined : `${getFixedPageFrameHeight('letter-landscape')}px`,
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+    backgroundColor: theme.contentBackground,
+    borderRadius: '6px',
+  };
+
+  return (
+    <div id={pageElementId} className="relative z-20" style={pageStyle}>
+      {generatedPage.kind === 'cover' ? (
+        <div className="cover-page" style={getFrontMatterPageStyle(theme.header.text)}>
+          <div style={COVER_PAGE_STYLES.body}>
+            {logoSource && <img src={logoSource} alt="Project Logo" style={COVER_PAGE_STYLES.logo} />}
+            {project.projectName.trim() && <div style={COVER_PAGE_STYLES.projectName}>{project.projectName}</div>}
+            {project.clientAgency.trim() && <div style={COVER_PAGE_STYLES.clientAgency}>{project.clientAgency}</div>}
+            {project.jobInfo.trim() && <div style={COVER_PAGE_STYLES.jobInfo}>{project.jobInfo}</div>}
+            <div style={COVER_PAGE_STYLES.date}>{frontMatter.date}</div>
+          </div>
+        </div>
+      ) : (
+        <div className="contents-page" style={getFrontMatterPageStyle(theme.header.text)}>
+          <div style={CONTENTS_PAGE_STYLES.heading}>
+            {generatedPage.sheetIndex > 0 ? "Contents (cont'd)" : 'Contents'}
+          </div>
+          <div style={CONTENTS_PAGE_STYLES.subheading}>{project.projectName}</div>
+          {frontMatter.contents[generatedPage.sheetIndex].map((entry) => (
+            <div key={entry.pageNumber} className="contents-entry" style={CONTENTS_PAGE_STYLES.row}>
+              <span style={CONTENTS_PAGE_STYLES.name}>{getContentsEntryName(entry)}</span>
+              {entry.shotRange && <span style={CONTENTS_PAGE_STYLES.shotRange}>{entry.shotRange}</span>}
+              <span style={CONTENTS_PAGE_STYLES.leader} />
+              <span style={CONTENTS_PAGE_STYLES.pageNumber}>{entry.pageNumber}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -6,7 +6,7 @@ import { SortableContext, rectSortingStrategy } from '@dnd-kit/sortable';
 import { calculatePreviewDimensions } from '@/utils/export/previewDimensions';
 import type { StoryboardTheme } from '@/styles/storyboardTheme';
 import type { ServerPDFExportPayload } from '@/utils/types/exportTypes';
-import { getFixedPageFrameHeight, resolvePageSizeMode, type PageSizeMode } from '@/utils/pageSize';
+import { getFixedPageFrameHeight, resolvePageSizeMode, type CustomPageSize, type PageSizeMode } from '@/utils/pageSize';
 
 interface ExportStoryboardPageContentProps {
   page: StoryboardPage | null;
@@ -14,10 +14,12 @@ interface ExportStoryboardPageContentProps {
   storyboardTheme: StoryboardTheme;
   pageId: string;
   pageNumber: number;
+  pageCount?: number;
   pageElementId: string;
   hideEmptySlots?: boolean;
   exportPayload?: ServerPDFExportPayload;
   pageSizeMode?: PageSizeMode;
+  customPageSize?: CustomPageSize;
 }
 
 // IMPORTANT: This component intentionally mirrors the live StoryboardPage inner content subtree.
@@ -28,10 +30,12 @@ export const ExportStoryboardPageContent: React.FC<ExportStoryboardPageContentPr
   storyboardTheme,
   pageId,
   pageNumber,
+  pageCount,
   pageElementId,
   hideEmptySlots = false,
   exportPayload,
-  pageSizeMode
+  pageSizeMode,
+  customPageSize
 }) => {
   const previewDimensions = React.useMemo(() => {
     const imageFrame = exportPayload?.theme.imageFrame ?? storyboardTheme.imageFrame;
@@ -44,7 +48,10 @@ export const ExportStoryboardPageContent: React.FC<ExportStoryboardPageContentPr
     storyboardTheme.imageFrame.borderWidth,
   ]);
   const normalizedPageSizeMode = resolvePageSizeMode(pageSizeMode ?? exportPayload?.pageSizeMode);
-  const fixedPageFrameHeight = getFixedPageFrameHeight(normalizedPageSizeMode);
+  const fixedPageFrameHeight = getFixedPageFrameHeight(
+    normalizedPageSizeMode,
+    customPageSize ?? exportPayload?.customPageSize
+  );
   const isFixedPageMode = normalizedPageSizeMode !== 'dynamic';
 
   if (!page) {
@@ -78,6 +85,7 @@ export const ExportStoryboardPageContent: React.FC<ExportStoryboardPageContentPr
             pageId={pageId}
             previewDimensions={previewDimensions}
             pageNumberOverride={pageNumber}
+            pageCountOverride={pageCount}
             hideEmptySlots={hideEmptySlots}
             readOnly
             exportPayload={exportPayload}
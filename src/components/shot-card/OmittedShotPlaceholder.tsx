@@ -0,0 +1,29 @@
+import {
+  OMITTED_SHOT_LABEL,
+  getOmittedShotLabelStyle,
+  getOmittedShotPlaceholderStyle,
+} from '@/utils/shotReviewStatus';
+
+interface OmittedShotPlaceholderProps {
+  backgroundColor: string;
+  textColor: string;
+  borderRadius: number;
+}
+
+/**
+ * Covers an omitted shot's board and text. The shot number stays visible above it.
+ */
+export const OmittedShotPlaceholder: React.FC<OmittedShotPlaceholderProps> = ({
+  backgroundColor,
+  textColor,
+  borderRadius,
+}) => (
+  <div
+    className="omitted-shot-placeholder"
+    style={getOmittedShotPlaceholderStyle(backgroundColor, textColor, borderRadius)}
+  >
+    <span style={getOmittedShotLabelStyle(backgroundColor)}>{OMITTED_SHOT_LABEL}</span>
+  </div>
+);
+
+OmittedShotPlaceholder.displayName = 'OmittedShotPlaceholder';
@@ -11,7 +11,14 @@ import {
   PlusCircle,
   ChevronsDownUp,
   FileImage,
+  ImagePlus,
   Pencil,
+  Flag,
+  Lock,
+  Unlock,
+  Ban,
+  RotateCcw,
+  SeparatorVertical,
 } from 'lucide-react';
 
 interface ShotActionsProps {
@@ -20,6 +27,14 @@ interface ShotActionsProps {
   onInsertShot: () => void;
   onEditImage?: () => void;
   onReplaceImage: () => void;
+  onAddTake?: () => void;
+  onStartScene?: () => void;
+  onToggleNumberLock?: () => void;
+  isNumberLocked?: boolean;
+  onTogglePageBreak?: () => void;
+  hasPageBreak?: boolean;
+  onToggleOmitted?: () => void;
+  isOmitted?: boolean;
 }
 
 export const ShotActions: React.FC<ShotActionsProps> = ({
@@ -28,6 +43,14 @@ export const ShotActions: React.FC<ShotActionsProps> = ({
   onInsertShot,
   onEditImage,
   onReplaceImage,
+  onAddTake,
+  onStartScene,
+  onToggleNumberLock,
+  isNumberLocked = false,
+  onTogglePageBreak,
+  hasPageBreak = false,
+  onToggleOmitted,
+  isOmitted = false,
 }) => {
   return (
     <div className="absolute top-1 right-1 z-10 hidden [@media(hover:none)]:block [@media(pointer:coarse)]:block">
@@ -54,6 +77,12 @@ export const ShotActions: React.FC<ShotActionsProps> = ({
               <FileImage className="mr-2 h-4 w-4" />
               <span>Replace Image</span>
             </DropdownMenuItem>
+            {onAddTake && (
+              <DropdownMenuItem onClick={onAddTake}>
+                <ImagePlus className="mr-2 h-4 w-4" />
+                <span>Add Take</span>
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem onClick={onInsertShot}>
               <PlusCircle className="mr-2 h-4 w-4" />
               <span>Insert Shot Below</span>
@@ -62,6 +91,30 @@ export const ShotActions: React.FC<ShotActionsProps> = ({
               <ChevronsDownUp className="mr-2 h-4 w-4" />
               <span>Add Sub-Shot</span>
             </DropdownMenuItem>
+            {onStartScene && (
+              <DropdownMenuItem onClick={onStartScene}>
+                <Flag className="mr-2 h-4 w-4" />
+                <span>Start Scene Here</span>
+              </DropdownMenuItem>
+            )}
+            {onTogglePageBreak && (
+              <DropdownMenuItem onClick={onTogglePageBreak}>
+                <SeparatorVertical className="mr-2 h-4 w-4" />
+                <span>{hasPageBreak ? 'Remove Page Break' : 'Start New Page Here'}</span>
+              </DropdownMenuItem>
+            )}
+            {onToggleNumberLock && (
+              <DropdownMenuItem onClick={onToggleNumberLock}>
+                {isNumberLocked ? <Unlock className="mr-2 h-4 w-4" /> : <Lock className="mr-2 h-4 w-4" />}
+                <span>{isNumberLocked ? 'Unlock Number' : 'Lock Number'}</span>
+              </DropdownMenuItem>
+            )}
+            {onToggleOmitted && (
+              <DropdownMenuItem onClick={onToggleOmitted}>
+                {isOmitted ? <RotateCcw className="mr-2 h-4 w-4" /> : <Ban className="mr-2 h-4 w-4" />}
+                <span>{isOmitted ? 'Restore Shot' : 'Omit Shot'}</span>
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem onClick={onDelete} className="text-red-500">
               <Trash2 className="mr-2 h-4 w-4" />
               <span>Delete Shot</span>
@@ -0,0 +1,90 @@
+import {
+  ANNOTATION_FONT_FAMILY,
+  getAnnotationDashArray,
+  getAnnotationPrimitives,
+  type ShotAnnotation,
+} from '@/utils/annotations';
+
+interface ShotAnnotationLayerProps {
+  annotations: ShotAnnotation[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Arrows, push-in frames and callouts over a shot's image frame.
+ * getAnnotationSvgMarkup builds the same SVG for the static PDF builder.
+ */
+export const ShotAnnotationLayer: React.FC<ShotAnnotationLayerProps> = ({ annotations, width, height }) => {
+  if (annotations.length === 0 || width <= 0 || height <= 0) {
+    return null;
+  }
+
+  return (
+    <svg
+      className="shot-annotation-layer"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}
+      aria-hidden="true"
+    >
+      {getAnnotationPrimitives(annotations, width, height).map((primitive, index) => {
+        switch (primitive.type) {
+          case 'line':
+            return (
+              <line
+                key={index}
+                x1={primitive.x1}
+                y1={primitive.y1}
+                x2={primitive.x2}
+                y2={primitive.y2}
+                stroke={primitive.color}
+                strokeWidth={primitive.width}
+                strokeLinecap="round"
+              />
+            );
+          case 'polygon':
+            return (
+              <polygon
+                key={index}
+                points={primitive.points.map(([x, y]) => `${x},${y}`).join(' ')}
+                fill={primitive.color}
+              />
+            );
+          case 'rect':
+            return (
+              <rect
+                key={index}
+                x={primitive.x}
+                y={primitive.y}
+                width={primitive.width}
+                height={primitive.height}
+                fill={primitive.fill ?? 'none'}
+                stroke={primitive.color}
+                strokeWidth={primitive.lineWidth}
+                strokeDasharray={primitive.dashed ? getAnnotationDashArray(primitive.lineWidth) : undefined}
+                rx={2}
+              />
+            );
+          case 'text':
+            return (
+              <text
+                key={index}
+                x={primitive.x}
+                y={primitive.y}
+                fill={primitive.color}
+                fontSize={primitive.fontSize}
+                fontWeight={600}
+                fontFamily={ANNOTATION_FONT_FAMILY}
+              >
+                {primitive.text}
+              </text>
+            );
+        }
+      })}
+    </svg>
+  );
+};
+
+ShotAnnotationLayer.displayName = 'ShotAnnotationLayer';
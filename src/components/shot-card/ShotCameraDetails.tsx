@@ -0,0 +1,169 @@
+import { useId } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { getCameraDetailsSpacing } from '@/styles/storyboardTheme';
+import {
+  CAMERA_ANGLE_OPTIONS,
+  CAMERA_DETAIL_KEYS,
+  CAMERA_MOVEMENT_OPTIONS,
+  MAX_SHOT_DURATION_SECONDS,
+  SHOT_SIZE_OPTIONS,
+  formatCameraDetails,
+  hasCameraDetails,
+  normalizeShotDuration,
+  type ShotCameraDetails as ShotCameraDetailsValue,
+} from '@/utils/cameraDetails';
+
+const NONE_VALUE = 'none';
+
+interface ShotCameraDetailsProps {
+  details: ShotCameraDetailsValue;
+  onUpdate: (updates: Partial<ShotCameraDetailsValue>) => void;
+  textColor: string;
+  scriptFontSize: number;
+  readOnly?: boolean;
+}
+
+interface CameraOptionSelectProps {
+  id: string;
+  label: string;
+  value: string | undefined;
+  options: ReadonlyArray<{ value: string; label: string }>;
+  onChange: (value: string | undefined) => void;
+}
+
+const CameraOptionSelect: React.FC<CameraOptionSelectProps> = ({ id, label, value, options, onChange }) => (
+  <div className="flex flex-col gap-1">
+    <Label htmlFor={id} className="text-xs">{label}</Label>
+    <Select
+      value={value ?? NONE_VALUE}
+      onValueChange={(next) => onChange(next === NONE_VALUE ? undefined : next)}
+    >
+      <SelectTrigger id={id} className="h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE_VALUE}>—</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export const ShotCameraDetails: React.FC<ShotCameraDetailsProps> = ({
+  details,
+  onUpdate,
+  textColor,
+  scriptFontSize,
+  readOnly = false,
+}) => {
+  const idPrefix = useId();
+  const spacing = getCameraDetailsSpacing(scriptFontSize);
+  const summary = formatCameraDetails(details);
+  const lineStyle = {
+    color: textColor,
+    fontSize: `${spacing.fontSize}px`,
+    lineHeight: spacing.lineHeight,
+    paddingTop: `${spacing.blockPaddingY}px`,
+    paddingBottom: `${spacing.blockPaddingY}px`,
+  };
+
+  if (readOnly) {
+    if (!summary) return null;
+    return (
+      <div className="w-full px-1 font-medium tracking-wide camera-details whitespace-pre-wrap" style={lineStyle}>
+        {summary}
+      </div>
+    );
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'w-full px-1 text-left font-medium tracking-wide camera-details rounded-sm',
+            'hover:bg-black/5 focus:outline-none',
+            !summary && 'opacity-50'
+          )}
+          style={lineStyle}
+        >
+          {summary || 'Camera details...'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-3">
+        <div className="grid grid-cols-2 gap-2">
+          <CameraOptionSelect
+            id={`${idPrefix}-size`}
+            label="Shot Size"
+            value={details.shotSize}
+            options={SHOT_SIZE_OPTIONS}
+            onChange={(value) => onUpdate({ shotSize: value as ShotCameraDetailsValue['shotSize'] })}
+          />
+          <CameraOptionSelect
+            id={`${idPrefix}-angle`}
+            label="Angle"
+            value={details.cameraAngle}
+            options={CAMERA_ANGLE_OPTIONS}
+            onChange={(value) => onUpdate({ cameraAngle: value as ShotCameraDetailsValue['cameraAngle'] })}
+          />
+          <div className="flex flex-col gap-1">
+            <Label htmlFor={`${idPrefix}-lens`} className="text-xs">Lens</Label>
+            <Input
+              id={`${idPrefix}-lens`}
+              className="h-8 text-xs"
+              placeholder="35mm"
+              maxLength={20}
+              value={details.lens ?? ''}
+              onChange={(e) => onUpdate({ lens: e.target.value || undefined })}
+            />
+          </div>
+          <CameraOptionSelect
+            id={`${idPrefix}-movement`}
+            label="Movement"
+            value={details.cameraMovement}
+            options={CAMERA_MOVEMENT_OPTIONS}
+            onChange={(value) => onUpdate({ cameraMovement: value as ShotCameraDetailsValue['cameraMovement'] })}
+          />
+          <div className="flex flex-col gap-1">
+            <Label htmlFor={`${idPrefix}-duration`} className="text-xs">Duration (s)</Label>
+            <Input
+              id={`${idPrefix}-duration`}
+              className="h-8 text-xs"
+              type="number"
+              min={0}
+              max={MAX_SHOT_DURATION_SECONDS}
+              step={0.5}
+              value={details.duration ?? ''}
+              onChange={(e) => onUpdate({ duration: normalizeShotDuration(e.target.value) })}
+            />
+          </div>
+          <div className="flex items-end justify-end">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 text-xs"
+              disabled={!hasCameraDetails(details)}
+              onClick={() => onUpdate(
+                Object.fromEntries(CAMERA_DETAIL_KEYS.map((key) => [key, undefined])) as Partial<ShotCameraDetailsValue>
+              )}
+            >
+              Clear
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+ShotCameraDetails.displayName = 'ShotCameraDetails';
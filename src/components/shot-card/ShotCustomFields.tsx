@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { getShotTextSpacing } from '@/styles/storyboardTheme';
+import {
+  MAX_CUSTOM_FIELD_VALUE_LENGTH,
+  getCustomFieldRichText,
+  type CustomFieldValues,
+  type CustomShotField,
+} from '@/utils/customFields';
+import { ShotRichText } from './ShotRichText';
+
+interface ShotCustomFieldsProps {
+  fields: CustomShotField[]; // Visible fields, in display order
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  textColor: string;
+  scriptFontSize: number;
+  readOnly?: boolean;
+}
+
+interface CustomFieldInputProps {
+  field: CustomShotField;
+  value: string;
+  onChange: (value: string) => void;
+  onFocus: () => void;
+  onBlur: () => void;
+  autoFocus: boolean;
+  style: React.CSSProperties;
+}
+
+const CustomFieldInput: React.FC<CustomFieldInputProps> = ({ field, value, onChange, onFocus, onBlur, autoFocus, style }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [value, style.fontSize]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (autoFocus && textarea) {
+      textarea.focus();
+      textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    }
+  }, [autoFocus]);
+
+  return (
+    <div className="flex w-full items-start custom-field" style={{ color: style.color }} data-custom-field-id={field.id}>
+      <span
+        className="shrink-0 pl-1 font-bold"
+        style={{
+          fontSize: style.fontSize,
+          lineHeight: style.lineHeight,
+          paddingTop: style.paddingTop,
+          paddingBottom: style.paddingBottom,
+        }}
+      >
+        {field.name}:
+      </span>
+      <Textarea
+        ref={textareaRef}
+        data-shot-field={`custom:${field.id}`}
+        placeholder="..."
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        onFocus={onFocus}
+        onBlur={onBlur}
+        maxLength={MAX_CUSTOM_FIELD_VALUE_LENGTH}
+        rows={1}
+        aria-label={field.name}
+        className="min-h-0 w-full resize-none overflow-hidden border-0 rounded-sm bg-transparent text-xs px-1 py-0.5 focus:outline-none focus:ring-0"
+        style={{ ...style, '--placeholder-color': style.color } as React.CSSProperties}
+      />
+    </div>
+  );
+};
+
+/**
+ * Project-defined fields under the script text. Filled fields read as
+ * "Name: value" in the same layout as the exports; clicking one edits it.
+ */
+export const ShotCustomFields: React.FC<ShotCustomFieldsProps> = ({
+  fields,
+  values,
+  onChange,
+  textColor,
+  scriptFontSize,
+  readOnly = false,
+}) => {
+  const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
+  const spacing = getShotTextSpacing(scriptFontSize);
+  const lineStyle: React.CSSProperties = {
+    color: textColor,
+    fontSize: `${spacing.fontSize}px`,
+    lineHeight: spacing.lineHeight,
+    paddingTop: `${spacing.blockPaddingY}px`,
+    paddingBottom: `${spacing.blockPaddingY}px`,
+  };
+
+  return (
+    <>
+      {fields.map((field) => {
+        const value = values[field.id] ?? '';
+        const hasValue = value.trim() !== '';
+
+        if (readOnly || (hasValue && editingFieldId !== field.id)) {
+          if (!hasValue) return null;
+          return (
+            <div
+              key={field.id}
+              className={cn(
+                'w-full rounded-sm text-xs px-1 py-0.5 custom-field whitespace-pre-wrap',
+                !readOnly && 'cursor-text'
+              )}
+              style={lineStyle}
+              data-custom-field-id={field.id}
+              data-shot-field={readOnly ? undefined : `custom:${field.id}`}
+              onClick={readOnly ? undefined : () => setEditingFieldId(field.id)}
+            >
+              <ShotRichText text={getCustomFieldRichText({ name: field.name, value })} />
+            </div>
+          );
+        }
+
+        return (
+          <CustomFieldInput
+            key={field.id}
+            field={field}
+            value={value}
+            onChange={(nextValue) => onChange({ ...values, [field.id]: nextValue })}
+            onFocus={() => setEditingFieldId(field.id)}
+            onBlur={() => setEditingFieldId((current) => (current === field.id ? null : current))}
+            autoFocus={editingFieldId === field.id}
+            style={lineStyle}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+ShotCustomFields.displayName = 'ShotCustomFields';
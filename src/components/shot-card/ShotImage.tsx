@@ -3,6 +3,9 @@ import { Shot } from '@/store/shotStore';
 import { AspectRatio } from '@/components/ui/aspect-ratio';
 import { Button } from '@/components/ui/button';
 import { useSingleObjectURL } from '../../hooks/useObjectURLCleanup';
+import { compressImage } from '@/utils/imageCompression';
+import { addImageTake } from '@/utils/imageTakes';
+import { ShotTakeSwitcher } from './ShotTakeSwitcher';
 
 interface ShotImageProps {
   shot: Shot;
@@ -16,6 +19,7 @@ export const ShotImage: React.FC<ShotImageProps> = ({
   aspectRatio = '16/9'
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const addsTakeRef = useRef(false);
   const { setObjectURL, clearObjectURL } = useSingleObjectURL();
   const [objectURL, setObjectURLState] = useState<string | null>(null);
 
@@ -33,11 +37,31 @@ export const ShotImage: React.FC<ShotImageProps> = ({
     };
   }, [shot.imageFile, setObjectURL, clearObjectURL]);
 
-  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
+    const asNewTake = addsTakeRef.current;
+    addsTakeRef.current = false;
+    if (!file) return;
+    if (!asNewTake) {
       onUpdate({ imageFile: file });
+      return;
     }
+
+    const compressedResult = await compressImage(file);
+    onUpdate({
+      imageFile: file,
+      ...addImageTake(shot, {
+        imageData: compressedResult.dataUrl,
+        imageUrl: undefined,
+        imageSize: file.size,
+        imageStorageType: 'base64',
+      }),
+    });
+  };
+
+  const handleAddTake = () => {
+    addsTakeRef.current = true;
+    fileInputRef.current?.click();
   };
 
   const handleButtonClick = () => {
@@ -57,18 +81,29 @@ export const ShotImage: React.FC<ShotImageProps> = ({
     }
   }, [onUpdate]);
 
+  const imageSource = objectURL ?? shot.imageData ?? shot.imageUrl ?? null;
+
   const [numerator, denominator] = aspectRatio.split('/').map(Number);
   const numericAspectRatio = denominator !== 0 ? numerator / denominator : 16 / 9;
 
   return (
     <div onPaste={handlePaste}>
       <AspectRatio ratio={numericAspectRatio} className="bg-muted overflow-hidden rounded-md">
-        {objectURL ? (
-          <img
-            src={objectURL}
-            alt={`Shot ${shot.number}`}
-            className="object-cover w-full h-full"
-          />
+        {imageSource ? (
+          <>
+            <img
+              src={imageSource}
+              alt={`Shot ${shot.number}`}
+              className="object-cover w-full h-full"
+            />
+            <ShotTakeSwitcher
+              shot={shot}
+              onUpdate={onUpdate}
+              onAddTake={handleAddTake}
+              aspectRatio={aspectRatio}
+              className="absolute bottom-1 right-1"
+            />
+          </>
         ) : (
           <div className="flex items-center justify-center w-full h-full">
             <Button variant="ghost" onClick={handleButtonClick}>
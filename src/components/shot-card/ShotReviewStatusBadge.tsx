@@ -0,0 +1,78 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import {
+  SHOT_REVIEW_STATUS_OPTIONS,
+  getShotReviewStatusBadgeStyle,
+  getShotReviewStatusOption,
+  isShotReviewStatus,
+  type ShotReviewStatus,
+} from '@/utils/shotReviewStatus';
+
+interface ShotReviewStatusBadgeProps {
+  status: ShotReviewStatus;
+  onChange?: (status: ShotReviewStatus) => void;
+  className?: string;
+}
+
+export const ShotReviewStatusBadge: React.FC<ShotReviewStatusBadgeProps> = ({
+  status,
+  onChange,
+  className,
+}) => {
+  const option = getShotReviewStatusOption(status);
+
+  if (!onChange) {
+    return (
+      <span className={cn('shot-review-status', className)} style={getShotReviewStatusBadgeStyle(status)}>
+        {option.label}
+      </span>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={cn('shot-review-status focus:outline-none', className)}
+          style={getShotReviewStatusBadgeStyle(status)}
+          aria-label={`Review status: ${option.label}`}
+        >
+          {option.label}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Review Status</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={status}
+          onValueChange={(value) => {
+            if (isShotReviewStatus(value)) {
+              onChange(value);
+            }
+          }}
+        >
+          {SHOT_REVIEW_STATUS_OPTIONS.map((statusOption) => (
+            <DropdownMenuRadioItem key={statusOption.value} value={statusOption.value}>
+              <span
+                className="mr-2 inline-block h-2 w-2 rounded-full"
+                style={{ backgroundColor: statusOption.color }}
+              />
+              {statusOption.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+ShotReviewStatusBadge.displayName = 'ShotReviewStatusBadge';
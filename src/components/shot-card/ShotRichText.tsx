@@ -0,0 +1,45 @@
+import {
+  RICH_TEXT_BULLET,
+  RICH_TEXT_BULLET_INDENT_EM,
+  getRichTextRunText,
+  parseRichText,
+} from '@/utils/richText';
+
+interface ShotRichTextProps {
+  text: string | null | undefined;
+}
+
+/**
+ * Formatted action/script text for read-only card surfaces. The static PDF
+ * builder and the canvas export lay out the same parsed lines.
+ */
+export const ShotRichText: React.FC<ShotRichTextProps> = ({ text }) => (
+  <>
+    {parseRichText(text).map((line, lineIndex) => {
+      const runs = line.runs.map((run, runIndex) => (
+        <span
+          key={runIndex}
+          style={{
+            fontWeight: run.bold ? 700 : undefined,
+            fontStyle: run.italic ? 'italic' : undefined,
+            textDecoration: run.underline ? 'underline' : undefined,
+          }}
+        >
+          {getRichTextRunText(run)}
+        </span>
+      ));
+
+      if (line.bullet) {
+        return (
+          <div key={lineIndex} className="rich-text-bullet" style={{ display: 'flex' }}>
+            <span style={{ width: `${RICH_TEXT_BULLET_INDENT_EM}em`, flexShrink: 0 }}>{RICH_TEXT_BULLET}</span>
+            <span style={{ minWidth: 0 }}>{runs}</span>
+          </div>
+        );
+      }
+      return <div key={lineIndex}>{runs.length > 0 ? runs : <br />}</div>;
+    })}
+  </>
+);
+
+ShotRichText.displayName = 'ShotRichText';
@@ -0,0 +1,71 @@
+import { useId } from 'react';
+import {
+  getSketchMaskId,
+  getSketchPathData,
+  getSketchRuns,
+  getSketchStrokeWidth,
+  type SketchStroke,
+} from '@/utils/sketch';
+
+interface ShotSketchLayerProps {
+  strokes: SketchStroke[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Sketch strokes over a shot's image frame. Each eraser run masks the pen
+ * strokes drawn before it; getSketchSvgMarkup builds the same tree for the
+ * static PDF builder.
+ */
+export const ShotSketchLayer: React.FC<ShotSketchLayerProps> = ({ strokes, width, height }) => {
+  const idPrefix = useId();
+  if (strokes.length === 0 || width <= 0 || height <= 0) {
+    return null;
+  }
+
+  const renderPath = (stroke: SketchStroke, color: string) => (
+    <path
+      key={stroke.id}
+      d={getSketchPathData(stroke, width, height)}
+      fill="none"
+      stroke={color}
+      strokeWidth={getSketchStrokeWidth(stroke, width)}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  );
+
+  const masks: React.ReactNode[] = [];
+  let content: React.ReactNode = null;
+  getSketchRuns(strokes).forEach((run, runIndex) => {
+    if (run.tool === 'pen') {
+      content = <>{content}{run.strokes.map((stroke) => renderPath(stroke, stroke.color))}</>;
+      return;
+    }
+    const maskId = getSketchMaskId(idPrefix, runIndex);
+    masks.push(
+      <mask key={maskId} id={maskId} maskUnits="userSpaceOnUse" x={0} y={0} width={width} height={height}>
+        <rect width={width} height={height} fill="white" />
+        {run.strokes.map((stroke) => renderPath(stroke, 'black'))}
+      </mask>
+    );
+    content = <g mask={`url(#${maskId})`}>{content}</g>;
+  });
+
+  return (
+    <svg
+      className="shot-sketch-layer"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}
+      aria-hidden="true"
+    >
+      <defs>{masks}</defs>
+      {content}
+    </svg>
+  );
+};
+
+ShotSketchLayer.displayName = 'ShotSketchLayer';
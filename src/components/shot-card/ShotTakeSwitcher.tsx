@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Columns2, ImagePlus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { getColor, getGlassmorphismStyles } from '@/styles/glassmorphism-styles';
+import type { Shot } from '@/store/shotStore';
+import { getImageOrientation, getImageOrientationTransform, getRotatedBounds } from '@/utils/imageGeometry';
+import {
+  getActiveTakeIndex,
+  getShotImageTakes,
+  removeImageTake,
+  selectImageTake,
+  type ShotImageTake,
+} from '@/utils/imageTakes';
+
+interface ShotTakeSwitcherProps {
+  shot: Shot;
+  onUpdate: (updates: Partial<Shot>) => void;
+  onAddTake: () => void;
+  aspectRatio?: string;
+  className?: string;
+}
+
+interface TakeThumbnailProps {
+  take: ShotImageTake;
+  label: string;
+  aspectRatio: string;
+}
+
+// Framed the same way as the card: scale, then offsets as a share of the frame,
+// then rotation and flips. A rotated thumbnail grows so it still fills the box.
+const TakeThumbnail: React.FC<TakeThumbnailProps> = ({ take, label, aspectRatio }) => {
+  const source = take.imageData || take.imageUrl;
+  const orientation = getImageOrientation(take);
+  const [frameWidth, frameHeight] = aspectRatio.split('/').map((value) => Number(value.trim()) || 1);
+  const rotatedFrame = getRotatedBounds(frameWidth, frameHeight, orientation.rotation);
+  const rotationCover = Math.max(rotatedFrame.width / frameWidth, rotatedFrame.height / frameHeight);
+  return (
+    <div
+      className="relative w-full overflow-hidden rounded-md"
+      style={{
+        aspectRatio: aspectRatio.replace('/', ' / '),
+        backgroundColor: getColor('background', 'lighter') as string,
+      }}
+    >
+      {source ? (
+        <div
+          className="absolute inset-0"
+          style={{
+            transform: `scale(${take.imageScale ?? 1}) translate(${(take.imageOffsetX ?? 0) * 100}%, ${(take.imageOffsetY ?? 0) * 100}%)` +
+              `${getImageOrientationTransform(orientation)}${rotationCover !== 1 ? ` scale(${rotationCover})` : ''}`,
+            transformOrigin: 'center center',
+          }}
+        >
+          <img src={source} alt={label} className="h-full w-full object-cover" />
+        </div>
+      ) : (
+        <div className="flex h-full items-center justify-center text-xs opacity-60">No image</div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Take controls over a shot image: step through takes, add one, drop the
+ * active one, or compare them all side by side and pick the active take.
+ * Stepping and picking only swap which take the shot shows; each take keeps
+ * its own framing.
+ */
+export const ShotTakeSwitcher: React.FC<ShotTakeSwitcherProps> = ({
+  shot,
+  onUpdate,
+  onAddTake,
+  aspectRatio = '16/9',
+  className,
+}) => {
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const takes = getShotImageTakes(shot);
+  const activeIndex = getActiveTakeIndex(shot);
+  const hasAlternates = takes.length > 1;
+
+  const showTake = (takeId: string) => {
+    const updates = selectImageTake(shot, takeId);
+    if (updates) onUpdate(updates);
+  };
+
+  const stepTake = (direction: 1 | -1) => {
+    const nextIndex = (activeIndex + direction + takes.length) % takes.length;
+    showTake(takes[nextIndex].id);
+  };
+
+  const removeActiveTake = () => {
+    if (!shot.activeTakeId) return;
+    const updates = removeImageTake(shot, shot.activeTakeId);
+    if (updates) onUpdate(updates);
+  };
+
+  const stopPropagation = (event: React.SyntheticEvent) => event.stopPropagation();
+
+  return (
+    <>
+      <div
+        className={cn('flex items-center gap-0.5 rounded-full bg-black/60 p-0.5 text-white', className)}
+        onClick={stopPropagation}
+        onPointerDown={stopPropagation}
+      >
+        {hasAlternates && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 rounded-full hover:bg-white/20 hover:text-white"
+              onClick={() => stepTake(-1)}
+              aria-label="Previous take"
+              title="Previous take"
+            >
+              <ChevronLeft size={14} />
+            </Button>
+            <span className="min-w-[2.5rem] text-center text-[11px] font-medium tabular-nums">
+              {activeIndex + 1}/{takes.length}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 rounded-full hover:bg-white/20 hover:text-white"
+              onClick={() => stepTake(1)}
+              aria-label="Next take"
+              title="Next take"
+            >
+              <ChevronRight size={14} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 rounded-full hover:bg-white/20 hover:text-white"
+              onClick={() => setIsCompareOpen(true)}
+              aria-label="Compare takes"
+              title="Compare takes"
+            >
+              <Columns2 size={14} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 rounded-full hover:bg-white/20 hover:text-white"
+              onClick={removeActiveTake}
+              aria-label="Delete this take"
+              title="Delete this take"
+            >
+              <Trash2 size={14} />
+            </Button>
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 rounded-full hover:bg-white/20 hover:text-white"
+          onClick={onAddTake}
+          aria-label="Add take"
+          title="Add take"
+        >
+          <ImagePlus size={14} />
+        </Button>
+      </div>
+
+      {hasAlternates && (
+        <Dialog open={isCompareOpen} onOpenChange={setIsCompareOpen}>
+          <DialogContent className="max-w-4xl" style={getGlassmorphismStyles('dark')}>
+            <DialogHeader>
+              <DialogTitle style={{ color: getColor('text', 'primary') as string }}>
+                Shot {shot.number} takes
+              </DialogTitle>
+              <DialogDescription style={{ color: getColor('text', 'secondary') as string }}>
+                The active take is the one the board and every export show.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid max-h-[70vh] grid-cols-2 gap-3 overflow-y-auto lg:grid-cols-3">
+              {takes.map((take, index) => {
+                const isActive = take.id === shot.activeTakeId;
+                const label = `Take ${index + 1}`;
+                return (
+                  <button
+                    key={take.id}
+                    type="button"
+                    className="flex flex-col gap-1.5 rounded-lg border-2 p-1.5 text-left transition-colors"
+                    style={{
+                      borderColor: isActive ? getColor('brand', 'primary') as string : 'transparent',
+                      color: getColor('text', 'primary') as string,
+                    }}
+                    onClick={() => showTake(take.id)}
+                    aria-pressed={isActive}
+                  >
+                    <TakeThumbnail take={take} label={label} aspectRatio={aspectRatio} />
+                    <span className="flex items-center justify-between text-xs">
+                      <span className="font-medium">{label}</span>
+                      <span className="opacity-60">{isActive ? 'Active' : 'Use this take'}</span>
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+};
+
+ShotTakeSwitcher.displayName = 'ShotTakeSwitcher';
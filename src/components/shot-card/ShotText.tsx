@@ -1,6 +1,9 @@
 import { Shot, StoryboardState } from '@/store/storyboardStore';
 import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
+import { formatCameraDetails } from '@/utils/cameraDetails';
+import { getCustomFieldEntries, getCustomFieldRichText, getCustomFields } from '@/utils/customFields';
+import { ShotRichText } from './ShotRichText';
 
 interface ShotTextProps {
   shot: Shot;
@@ -19,8 +22,12 @@ export const ShotText: React.FC<ShotTextProps> = ({
 
   return (
     <div className="mt-2 space-y-1 text-xs">
-      {templateSettings.showActionText && <p>{shot.actionText}</p>}
-      {templateSettings.showScriptText && <p className="text-gray-600">{shot.scriptText}</p>}
+      {templateSettings.showCameraDetails && <p className="font-medium text-gray-600">{formatCameraDetails(shot)}</p>}
+      {templateSettings.showActionText && <div><ShotRichText text={shot.actionText} /></div>}
+      {templateSettings.showScriptText && <div className="text-gray-600"><ShotRichText text={shot.scriptText} /></div>}
+      {getCustomFieldEntries(getCustomFields(templateSettings), shot).map((entry) => (
+        <div key={entry.id} className="text-gray-600"><ShotRichText text={getCustomFieldRichText(entry)} /></div>
+      ))}
     </div>
   );
 };
@@ -0,0 +1,47 @@
+import { Bold, CaseUpper, Italic, List, Underline } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { RichTextFormat } from '@/utils/richText';
+
+export type ShotTextFormatAction = RichTextFormat | 'bullet';
+
+interface ShotTextFormatToolbarProps {
+  onFormat: (action: ShotTextFormatAction) => void;
+  className?: string;
+}
+
+const FORMAT_ACTIONS: Array<{ action: ShotTextFormatAction; label: string; icon: React.ElementType }> = [
+  { action: 'bold', label: 'Bold (Ctrl/⌘+B)', icon: Bold },
+  { action: 'italic', label: 'Italic (Ctrl/⌘+I)', icon: Italic },
+  { action: 'underline', label: 'Underline (Ctrl/⌘+U)', icon: Underline },
+  { action: 'caps', label: 'Character name caps', icon: CaseUpper },
+  { action: 'bullet', label: 'Bullet lines', icon: List },
+];
+
+/**
+ * Formatting buttons shown while a shot text field has focus. They act on the
+ * textarea selection; mousedown is swallowed so the textarea keeps focus.
+ */
+export const ShotTextFormatToolbar: React.FC<ShotTextFormatToolbarProps> = ({ onFormat, className }) => (
+  <div
+    className={cn('flex items-center gap-0.5 rounded-md bg-black/75 p-0.5 text-white shadow', className)}
+    onMouseDown={(event) => event.preventDefault()}
+    onPointerDown={(event) => event.stopPropagation()}
+  >
+    {FORMAT_ACTIONS.map(({ action, label, icon: Icon }) => (
+      <Button
+        key={action}
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 hover:bg-white/20 hover:text-white"
+        onClick={() => onFormat(action)}
+        aria-label={label}
+        title={label}
+      >
+        <Icon size={13} />
+      </Button>
+    ))}
+  </div>
+);
+
+ShotTextFormatToolbar.displayName = 'ShotTextFormatToolbar';
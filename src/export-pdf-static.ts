@@ -4,18 +4,102 @@ import type {
   ExportTemplateVisibility,
   NormalizedExportImageSource,
   ServerPDFExportPayload,
+  ServerPDFFrontMatter,
+  ServerPDFGeneratedPage,
+  ServerPDFSceneHeader,
 } from './utils/types/exportTypes';
 import type { StoryboardTheme } from './styles/storyboardTheme';
 import {
+  CSS_PX_PER_INCH,
+  getCropMarkLines,
   getFixedPageFrameHeight,
+  getPagePixelDimensions,
+  getPageSizeSpec,
+  getPrintSheetLayout,
+  getRegistrationMarkCenters,
+  isCustomPageSize,
+  isFixedPageSizeMode,
+  isPrintLayoutOptions,
+  REGISTRATION_MARK_RADIUS_INCHES,
   RENDERED_PAGE_WIDTH_PX,
   resolvePageSizeMode,
   type PageSizeMode,
+  type PrintLayoutOptions,
+  type PrintSheetLayout,
 } from './utils/pageSize';
-import { getShotTextSpacing, normalizeShotTextFontSize } from './styles/storyboardTheme';
+import { getCameraDetailsSpacing, getShotTextSpacing, normalizeShotTextFontSize } from './styles/storyboardTheme';
+import { formatCameraDetails } from './utils/cameraDetails';
+import {
+  OMITTED_SHOT_LABEL,
+  SHOT_REVIEW_STATUS_OPTIONS,
+  getOmittedShotLabelStyle,
+  getOmittedShotPlaceholderStyle,
+  getShotReviewStatus,
+  getShotReviewStatusBadgeStyle,
+  getShotReviewStatusOption,
+  isShotOmitted,
+} from './utils/shotReviewStatus';
 import { getStoryboardHeaderAlignmentInsetCss } from './utils/storyboardLayout';
-import { calculateCoverImageGeometry } from './utils/imageGeometry';
+import { countSceneGridCells, getSceneHeaderStyle, getSceneHeaderText } from './utils/scenes';
+import { getSketchSvgMarkup, isSketchStrokeList } from './utils/sketch';
+import { getAnnotationSvgMarkup, isShotAnnotationList } from './utils/annotations';
+import {
+  getCustomFieldEntries,
+  getCustomFieldRichText,
+  getCustomFields,
+  getVisibleCustomFields,
+  isCustomFieldValues,
+  isCustomShotFieldList,
+} from './utils/customFields';
+import {
+  HEADER_FIELD_STYLES,
+  HEADER_ROW_STYLE,
+  getHeaderColumnStyle,
+  getHeaderColumns,
+  getHeaderFieldEntries,
+  getHeaderFieldLabelText,
+  getHeaderFields,
+  getHeaderFieldsRowStyle,
+  getHeaderLayout,
+  getHeaderLinePaddingClass,
+  getHeaderLineStyle,
+  getHeaderSlotStyle,
+  getLogoPlacement,
+  isBalancedHeader,
+  isHeaderFieldList,
+  isHeaderLayout,
+  isLogoPlacement,
+  type HeaderLine,
+  type HeaderSlot,
+} from './utils/headerLayout';
+import {
+  PAGE_FOOTER_STYLES,
+  formatPageNumber,
+  getPageNumberFormat,
+  hasPageFooterContent,
+  isPageFooterContent,
+  isPageNumberFormat,
+} from './utils/pageFooter';
+import {
+  RICH_TEXT_BULLET,
+  RICH_TEXT_BULLET_INDENT_EM,
+  getRichTextRunText,
+  parseRichText,
+} from './utils/richText';
+import {
+  calculateCoverImageGeometry,
+  getImageOrientationTransform,
+  normalizeImageRotation,
+} from './utils/imageGeometry';
 import { getMinimumShotCardNonImageHeight } from './utils/emptySlotHeight';
+import {
+  COVER_PAGE_STYLES,
+  CONTENTS_PAGE_STYLES,
+  getContentsEntryName,
+  getFrontMatterPageStyle,
+  isFrontMatter,
+  isGeneratedPageOf,
+} from './utils/export/frontMatter';
 
 const EXPORT_ROUTE_PATH = '/export/pdf/render-static';
 const READY_EVENT_NAME = 'server-pdf-export-ready';
@@ -26,10 +110,6 @@ const EXPORT_FONT_FAMILY =
   '"Inter", system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
 const LIGHTER_BACKGROUND = 'rgba(255, 255, 255, 0.03)';
 const FIXED_PAGE_EMPTY_SLOT_EXTRA_HEIGHT_PX = 80;
-const LETTER_PORTRAIT_WIDTH_PX = 816;
-const LETTER_PORTRAIT_HEIGHT_PX = 1056;
-const LETTER_LANDSCAPE_WIDTH_PX = 1056;
-const LETTER_LANDSCAPE_HEIGHT_PX = 816;
 const REQUIRED_FONT_LOADS = [
   { descriptor: '400 16px "Inter"', label: 'Inter 400' },
   { descriptor: '600 16px "Inter"', label: 'Inter 600' },
@@ -95,7 +175,15 @@ function validateTemplate(template: unknown): template is ExportTemplateVisibili
     isBoolean(template.showJobInfo) &&
     isBoolean(template.showActionText) &&
     isBoolean(template.showScriptText) &&
-    isBoolean(template.showPageNumber)
+    (typeof template.showCameraDetails === 'undefined' || isBoolean(template.showCameraDetails)) &&
+    (typeof template.showReviewStatus === 'undefined' || isBoolean(template.showReviewStatus)) &&
+    (typeof template.showOmittedShots === 'undefined' || isBoolean(template.showOmittedShots)) &&
+    isBoolean(template.showPageNumber) &&
+    (typeof template.customFields === 'undefined' || isCustomShotFieldList(template.customFields)) &&
+    (typeof template.headerLayout === 'undefined' || isHeaderLayout(template.headerLayout)) &&
+    (typeof template.logoPlacement === 'undefined' || isLogoPlacement(template.logoPlacement)) &&
+    (typeof template.headerFields === 'undefined' || isHeaderFieldList(template.headerFields)) &&
+    (typeof template.pageNumberFormat === 'undefined' || isPageNumberFormat(template.pageNumberFormat))
   );
 }
 
@@ -113,6 +201,16 @@ function validateImageSource(image: unknown): image is NormalizedExportImageSour
   return false;
 }
 
+function validateSceneHeaders(value: unknown): value is ServerPDFSceneHeader[] {
+  return Array.isArray(value) && value.every((header) => (
+    isRecord(header) &&
+    isString(header.shotId) &&
+    isString(header.label) &&
+    isString(header.name) &&
+    isBoolean(header.continued)
+  ));
+}
+
 function validateTheme(theme: unknown): theme is StoryboardTheme {
   if (!isRecord(theme)) return false;
 
@@ -172,11 +270,12 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
   if (
     input.paperSize !== 'letter' &&
     input.paperSize !== 'canvas' &&
-    input.paperSize !== 'letter-portrait' &&
-    input.paperSize !== 'letter-landscape'
+    !isFixedPageSizeMode(input.paperSize)
   ) {
     return false;
   }
+  if (input.customPageSize !== undefined && !isCustomPageSize(input.customPageSize)) return false;
+  if (input.print !== undefined && !isPrintLayoutOptions(input.print)) return false;
   if (!validateTemplate(input.template)) return false;
   if (!validateTheme(input.theme)) return false;
   if (!isRecord(input.project) || !isRecord(input.page)) return false;
@@ -192,6 +291,16 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
     return false;
   }
 
+  if (typeof input.frontMatter !== 'undefined' && !isFrontMatter(input.frontMatter)) return false;
+  if (typeof input.footer !== 'undefined' && !isPageFooterContent(input.footer)) return false;
+  if (typeof input.pageCount !== 'undefined' && !isPositiveInteger(input.pageCount)) return false;
+  if (
+    typeof input.generatedPage !== 'undefined' &&
+    !isGeneratedPageOf(input.generatedPage, input.frontMatter as ServerPDFFrontMatter | undefined)
+  ) {
+    return false;
+  }
+
   const page = input.page;
   if (
     !isString(page.id) ||
@@ -200,7 +309,8 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
     !isPositiveInteger(page.gridRows) ||
     !isPositiveInteger(page.gridCols) ||
     !isAspectRatio(page.aspectRatio) ||
-    !Array.isArray(page.shots)
+    !Array.isArray(page.shots) ||
+    !(typeof page.sceneHeaders === 'undefined' || validateSceneHeaders(page.sceneHeaders))
   ) {
     return false;
   }
@@ -213,10 +323,18 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
       isString(shot.number) &&
       isString(shot.actionText) &&
       isString(shot.scriptText) &&
+      (typeof shot.camera === 'undefined' || isRecord(shot.camera)) &&
+      (typeof shot.reviewStatus === 'undefined' || isString(shot.reviewStatus)) &&
       (shot.image === null || validateImageSource(shot.image)) &&
       isPositiveNumber(shot.imageScale) &&
       isNumber(shot.imageOffsetX) &&
-      isNumber(shot.imageOffsetY)
+      isNumber(shot.imageOffsetY) &&
+      isNumber(shot.imageRotation) &&
+      isBoolean(shot.imageFlipX) &&
+      isBoolean(shot.imageFlipY) &&
+      (typeof shot.sketch === 'undefined' || isSketchStrokeList(shot.sketch)) &&
+      (typeof shot.annotations === 'undefined' || isShotAnnotationList(shot.annotations)) &&
+      (typeof shot.customFieldValues === 'undefined' || isCustomFieldValues(shot.customFieldValues))
     );
   });
 }
@@ -363,15 +481,18 @@ function applyCoverImageGeometry(root: HTMLElement): void {
     const imageScale = Number(element.dataset.imageScale);
     const offsetX = Number(element.dataset.offsetX);
     const offsetY = Number(element.dataset.offsetY);
+    const rotation = Number(element.dataset.rotation ?? 0);
     const geometry = calculateCoverImageGeometry(
       element.naturalWidth,
       element.naturalHeight,
       containerWidth,
-      containerHeight
+      containerHeight,
+      rotation
     );
 
     if (
       !geometry ||
+      !Number.isFinite(rotation) ||
       !Number.isFinite(imageScale) ||
       !Number.isFinite(offsetX) ||
       !Number.isFinite(offsetY)
@@ -388,7 +509,11 @@ function applyCoverImageGeometry(root: HTMLElement): void {
       visibility: 'visible',
       maxWidth: 'none',
       maxHeight: 'none',
-      transform: `scale(${imageScale}) translate(${offsetX}px, ${offsetY}px)`,
+      transform: `scale(${imageScale}) translate(${offsetX}px, ${offsetY}px)${getImageOrientationTransform({
+        rotation: normalizeImageRotation(rotation),
+        flipX: element.dataset.flipX === 'true',
+        flipY: element.dataset.flipY === 'true',
+      })}`,
       transformOrigin: 'center center',
     });
   }
@@ -490,6 +615,42 @@ function createElement<K extends keyof HTMLElementTagNameMap>(
   return element;
 }
 
+// Mirrors ShotRichText
+function appendRichText(parent: HTMLElement, text: string): HTMLElement {
+  for (const line of parseRichText(text)) {
+    const runs = line.runs.map((run) => createElement('span', {
+      textContent: getRichTextRunText(run),
+      style: {
+        ...(run.bold ? { fontWeight: '700' } : {}),
+        ...(run.italic ? { fontStyle: 'italic' } : {}),
+        ...(run.underline ? { textDecoration: 'underline' } : {}),
+      },
+    }));
+
+    if (line.bullet) {
+      const bulletLine = createElement('div', { className: 'rich-text-bullet', style: { display: 'flex' } });
+      bulletLine.appendChild(createElement('span', {
+        textContent: RICH_TEXT_BULLET,
+        style: { width: `${RICH_TEXT_BULLET_INDENT_EM}em`, flexShrink: '0' },
+      }));
+      const body = createElement('span', { style: { minWidth: '0' } });
+      runs.forEach((run) => body.appendChild(run));
+      bulletLine.appendChild(body);
+      parent.appendChild(bulletLine);
+      continue;
+    }
+
+    const lineElement = createElement('div');
+    if (runs.length > 0) {
+      runs.forEach((run) => lineElement.appendChild(run));
+    } else {
+      lineElement.appendChild(document.createElement('br'));
+    }
+    parent.appendChild(lineElement);
+  }
+  return parent;
+}
+
 function getImageSource(image: NormalizedExportImageSource | null): string | null {
   if (!image) {
     return null;
@@ -514,11 +675,20 @@ function summarizeShotImageSources(payload: ServerPDFExportPayload) {
 function buildMasterHeader(payload: ServerPDFExportPayload): HTMLElement {
   const { template, project, theme } = payload;
   const logoSource = getImageSource(project.projectLogo);
-  const showLowerMetadataRow = template.showProjectInfo || template.showJobInfo;
+  const headerLayout = getHeaderLayout(template);
+  const logoPlacement = getLogoPlacement(template);
+  const balanced = isBalancedHeader(headerLayout, logoPlacement, template.showLogo);
+  const headerFieldEntries = getHeaderFieldEntries(getHeaderFields(template));
   const headerAlignmentInset = getStoryboardHeaderAlignmentInsetCss(payload.page.gridCols);
+  const lineText: Record<HeaderLine, string> = {
+    projectName: project.projectName || 'Project Name',
+    projectInfo: project.projectInfo || 'Project Info',
+    clientAgency: project.clientAgency || 'Client/Agency',
+    jobInfo: project.jobInfo || 'Job Info',
+  };
 
   const root = createElement('div', {
-    className: 'flex items-end justify-between w-full max-w-5xl mx-auto pt-8 pb-2 gap-6 flex-shrink-0 master-header',
+    className: 'flex flex-col w-full max-w-5xl mx-auto pt-8 pb-2 flex-shrink-0 master-header',
     style: {
       minWidth: `${RENDERED_PAGE_WIDTH_PX}px`,
       maxWidth: `${RENDERED_PAGE_WIDTH_PX}px`,
@@ -528,16 +698,15 @@ function buildMasterHeader(payload: ServerPDFExportPayload): HTMLElement {
       color: theme.header.text,
     },
   });
+  const row = createElement('div', { style: HEADER_ROW_STYLE });
+  const slots: Record<HeaderSlot, HTMLElement> = {
+    left: createElement('div', { style: getHeaderSlotStyle('left', balanced) }),
+    center: createElement('div', { style: getHeaderSlotStyle('center', balanced) }),
+    right: createElement('div', { style: getHeaderSlotStyle('right', balanced) }),
+  };
 
-  const left = createElement('div', {
-    className: 'flex items-end gap-4',
-    style: {
-      width: '500px',
-      flexShrink: '0',
-    },
-  });
-
-  if (template.showLogo && logoSource) {
+  const appendLogo = (slot: HeaderSlot) => {
+    if (!template.showLogo || !logoSource || logoPlacement !== slot) return;
     const logoWrapper = createElement('div', {
       className: 'relative flex-shrink-0 h-16',
       style: {
@@ -547,138 +716,75 @@ function buildMasterHeader(payload: ServerPDFExportPayload): HTMLElement {
         minHeight: '60px',
       },
     });
-
-    const logo = createElement('img', {
-      className: 'w-full h-full object-contain rounded-md',
-      attrs: {
-        src: logoSource,
-        alt: 'Project Logo',
-      },
-    });
-    logoWrapper.appendChild(logo);
-    left.appendChild(logoWrapper);
-  }
-
-  const leftText = createElement('div', {
-    className: 'flex-grow',
-    style: {
-      width: '388px',
-      flexShrink: '0',
-    },
-  });
-
-  if (template.showProjectName) {
-    leftText.appendChild(
-      createElement('div', {
-        className: 'w-full font-bold p-0 pr-6 text-lg whitespace-pre-wrap',
-        textContent: project.projectName || 'Project Name',
-        style: {
-          fontSize: '22px',
-          lineHeight: '1.2',
-          minHeight: '26px',
-          backgroundColor: 'transparent',
-        },
-      })
-    );
-  }
-
-  if (template.showProjectInfo) {
-    leftText.appendChild(
-      createElement('div', {
-        className: 'w-full p-0 mt-1 pr-6 text-xs whitespace-pre-wrap',
-        textContent: project.projectInfo || 'Project Info',
-        style: {
-          fontSize: '14px',
-          lineHeight: '1.4',
-          minHeight: '20px',
-          marginTop: '4px',
-          backgroundColor: 'transparent',
-          color: theme.header.text,
-        },
-      })
-    );
-  }
-  if (showLowerMetadataRow && !template.showProjectInfo) {
-    leftText.appendChild(
-      createElement('div', {
-        className: 'w-full p-0 mt-1 pr-6 text-xs whitespace-pre-wrap invisible pointer-events-none',
+    logoWrapper.appendChild(
+      createElement('img', {
+        className: 'w-full h-full object-contain rounded-md',
         attrs: {
-          'aria-hidden': 'true',
-        },
-        style: {
-          fontSize: '14px',
-          lineHeight: '1.4',
-          minHeight: '20px',
-          marginTop: '4px',
-          backgroundColor: 'transparent',
-          visibility: 'hidden',
+          src: logoSource,
+          alt: 'Project Logo',
         },
       })
     );
-  }
+    slots[slot].appendChild(logoWrapper);
+  };
 
-  left.appendChild(leftText);
+  const columns = getHeaderColumns(headerLayout, template);
+  const appendColumns = (slot: HeaderSlot) => {
+    columns.filter((column) => column.slot === slot).forEach((column) => {
+      const columnElement = createElement('div', { style: getHeaderColumnStyle(column) });
+      column.lines.forEach((line, index) => {
+        const style = getHeaderLineStyle(line, index);
+        columnElement.appendChild(
+          line === 'spacer'
+            ? createElement('div', {
+                className: `w-full p-0 whitespace-pre-wrap invisible pointer-events-none ${getHeaderLinePaddingClass(column.align)}`,
+                attrs: {
+                  'aria-hidden': 'true',
+                },
+                style: { ...style, visibility: 'hidden' },
+              })
+            : createElement('div', {
+                className: `w-full p-0 whitespace-pre-wrap ${getHeaderLinePaddingClass(column.align)}`,
+                textContent: lineText[line],
+                style: { ...style, backgroundColor: 'transparent', color: theme.header.text },
+              })
+        );
+      });
+      slots[slot].appendChild(columnElement);
+    });
+  };
 
-  const right = createElement('div', {
-    className: 'flex-shrink-0 text-right',
-    style: {
-      width: '250px',
-      flexShrink: '0',
-    },
-  });
+  appendLogo('left');
+  appendColumns('left');
+  appendLogo('center');
+  appendColumns('center');
+  appendColumns('right');
+  appendLogo('right');
 
-  if (template.showClientAgency) {
-    right.appendChild(
-      createElement('div', {
-        className: 'w-full font-semibold p-0 text-right pl-6 text-base whitespace-pre-wrap',
-        textContent: project.clientAgency || 'Client/Agency',
-        style: {
-          fontSize: '18px',
-          lineHeight: '1.2',
-          minHeight: '22px',
-          backgroundColor: 'transparent',
-        },
-      })
-    );
+  row.appendChild(slots.left);
+  if (balanced) {
+    row.appendChild(slots.center);
   }
+  row.appendChild(slots.right);
+  root.appendChild(row);
 
-  if (template.showJobInfo) {
-    right.appendChild(
-      createElement('div', {
-        className: 'w-full p-0 mt-1 text-right pl-6 text-xs whitespace-pre-wrap',
-        textContent: project.jobInfo || 'Job Info',
-        style: {
-          fontSize: '14px',
-          lineHeight: '1.4',
-          minHeight: '20px',
-          marginTop: '4px',
-          backgroundColor: 'transparent',
-          color: theme.header.text,
-        },
-      })
-    );
-  }
-  if (showLowerMetadataRow && !template.showJobInfo) {
-    right.appendChild(
-      createElement('div', {
-        className: 'w-full p-0 mt-1 text-right pl-6 text-xs whitespace-pre-wrap invisible pointer-events-none',
-        attrs: {
-          'aria-hidden': 'true',
-        },
-        style: {
-          fontSize: '14px',
-          lineHeight: '1.4',
-          minHeight: '20px',
-          marginTop: '4px',
-          backgroundColor: 'transparent',
-          visibility: 'hidden',
-        },
-      })
-    );
+  if (headerFieldEntries.length > 0) {
+    const fieldsRow = createElement('div', {
+      className: 'header-fields',
+      style: getHeaderFieldsRowStyle(headerLayout),
+    });
+    headerFieldEntries.forEach((entry) => {
+      const entryElement = createElement('span', { style: HEADER_FIELD_STYLES.entry });
+      const label = getHeaderFieldLabelText(entry);
+      if (label) {
+        entryElement.appendChild(createElement('span', { textContent: label, style: HEADER_FIELD_STYLES.label }));
+      }
+      entryElement.appendChild(document.createTextNode(entry.value));
+      fieldsRow.appendChild(entryElement);
+    });
+    root.appendChild(fieldsRow);
   }
 
-  root.appendChild(left);
-  root.appendChild(right);
   return root;
 }
 
@@ -695,6 +801,7 @@ function buildShotCard(
   const actionTextSpacing = getShotTextSpacing(theme.actionText.fontSize);
   const scriptTextSpacing = getShotTextSpacing(theme.scriptText.fontSize);
   const effectiveImageFrameBorderWidth = getEffectiveImageFrameBorderWidth(theme.imageFrame);
+  const omitted = isShotOmitted(shot);
 
   const card = createElement('div', {
     className: 'group relative transition-all duration-200 shot-card storyboard-themeable',
@@ -704,6 +811,7 @@ function buildShotCard(
         ? `${previewDimensions.imageHeight + getMinimumShotCardNonImageHeight({
           showActionText: template.showActionText,
           showScriptText: template.showScriptText,
+          showCameraDetails: template.showCameraDetails,
           actionTextFontSize: theme.actionText.fontSize,
           scriptTextFontSize: theme.scriptText.fontSize,
         })}px`
@@ -725,6 +833,7 @@ function buildShotCard(
     createElement('div', {
       className: 'shot-number storyboard-themeable',
       textContent: shot.number,
+      style: omitted ? { textDecoration: 'line-through' } : undefined,
       cssVariables: {
         '--inline-text-color': theme.shotNumber.text,
         '--inline-bg-color': theme.shotNumber.background,
@@ -747,7 +856,7 @@ function buildShotCard(
     },
   });
 
-  if (imageSource) {
+  if (imageSource || shot.sketch?.length || shot.annotations?.length) {
     const imageOverflow = createElement('div', {
       className: 'relative h-full overflow-hidden',
       style: {
@@ -758,31 +867,60 @@ function buildShotCard(
       },
     });
 
-    imageOverflow.appendChild(
-      createElement('img', {
-        className: 'block',
-        attrs: {
-          src: imageSource,
-          alt: `Shot ${shot.number}`,
-          'data-cover-image': '',
-          'data-container-width': String(previewDimensions.imageContainerWidth),
-          'data-container-height': String(previewDimensions.imageHeight),
-          'data-image-scale': String(shot.imageScale || 1.0),
-          'data-offset-x': String(actualOffsetX),
-          'data-offset-y': String(actualOffsetY),
-        },
-        style: {
-          position: 'absolute',
-          visibility: 'hidden',
-          maxWidth: 'none',
-          maxHeight: 'none',
-          borderRadius: `${theme.shotCard.borderRadius}px`,
-          border: 'none',
-          boxShadow: 'none',
-          outline: 'none',
-        },
-      })
-    );
+    if (imageSource) {
+      imageOverflow.appendChild(
+        createElement('img', {
+          className: 'block',
+          attrs: {
+            src: imageSource,
+            alt: `Shot ${shot.number}`,
+            'data-cover-image': '',
+            'data-container-width': String(previewDimensions.imageContainerWidth),
+            'data-container-height': String(previewDimensions.imageHeight),
+            'data-image-scale': String(shot.imageScale || 1.0),
+            'data-offset-x': String(actualOffsetX),
+            'data-offset-y': String(actualOffsetY),
+            'data-rotation': String(shot.imageRotation),
+            'data-flip-x': String(shot.imageFlipX),
+            'data-flip-y': String(shot.imageFlipY),
+          },
+          style: {
+            position: 'absolute',
+            visibility: 'hidden',
+            maxWidth: 'none',
+            maxHeight: 'none',
+            borderRadius: `${theme.shotCard.borderRadius}px`,
+            border: 'none',
+            boxShadow: 'none',
+            outline: 'none',
+          },
+        })
+      );
+    }
+
+    if (shot.sketch?.length) {
+      // Strokes were validated with the payload, so the markup only carries
+      // numbers, hex colors and a sanitized id
+      const sketchLayer = createElement('div', { className: 'shot-sketch-layer' });
+      sketchLayer.innerHTML = getSketchSvgMarkup(
+        shot.sketch,
+        previewDimensions.imageContainerWidth,
+        previewDimensions.imageHeight,
+        `shot-${shot.id}`
+      );
+      imageOverflow.appendChild(sketchLayer);
+    }
+
+    if (shot.annotations?.length) {
+      // Validated with the payload; callout text is escaped by the markup builder
+      const annotationLayer = createElement('div', { className: 'shot-annotation-layer' });
+      annotationLayer.innerHTML = getAnnotationSvgMarkup(
+        shot.annotations,
+        previewDimensions.imageContainerWidth,
+        previewDimensions.imageHeight
+      );
+      imageOverflow.appendChild(annotationLayer);
+    }
 
     imageFrame.appendChild(imageOverflow);
   }
@@ -803,16 +941,45 @@ function buildShotCard(
     })
   );
 
+  if (template.showReviewStatus) {
+    const reviewStatus = getShotReviewStatus(shot);
+    imageFrame.appendChild(
+      createElement('span', {
+        className: 'shot-review-status absolute bottom-1 left-1 z-10',
+        textContent: getShotReviewStatusOption(reviewStatus).label,
+        style: getShotReviewStatusBadgeStyle(reviewStatus),
+      })
+    );
+  }
+
   content.appendChild(imageFrame);
 
-  if (template.showActionText || template.showScriptText) {
+  const customFieldEntries = getCustomFieldEntries(getCustomFields(template), shot);
+  if (template.showActionText || template.showScriptText || template.showCameraDetails || customFieldEntries.length > 0) {
     const textGroup = createElement('div', { className: 'flex flex-col gap-0 mt-1' });
 
-    if (template.showActionText) {
+    const cameraDetails = template.showCameraDetails ? formatCameraDetails(shot.camera ?? {}) : '';
+    if (cameraDetails) {
+      const cameraDetailsSpacing = getCameraDetailsSpacing(theme.scriptText.fontSize);
       textGroup.appendChild(
+        createElement('div', {
+          className: 'w-full px-1 font-medium tracking-wide camera-details whitespace-pre-wrap',
+          textContent: cameraDetails,
+          style: {
+            color: theme.scriptText.text,
+            fontSize: `${cameraDetailsSpacing.fontSize}px`,
+            lineHeight: `${cameraDetailsSpacing.lineHeight}`,
+            paddingTop: `${cameraDetailsSpacing.blockPaddingY}px`,
+            paddingBottom: `${cameraDetailsSpacing.blockPaddingY}px`,
+          },
+        })
+      );
+    }
+
+    if (template.showActionText) {
+      textGroup.appendChild(appendRichText(
         createElement('div', {
           className: 'w-full font-semibold border-0 rounded-sm bg-transparent text-xs px-1 py-0.5 action-text whitespace-pre-wrap',
-          textContent: shot.actionText || '',
           style: {
             color: theme.actionText.text,
             fontSize: `${actionTextSpacing.fontSize}px`,
@@ -820,15 +987,15 @@ function buildShotCard(
             paddingTop: `${actionTextSpacing.blockPaddingY}px`,
             paddingBottom: `${actionTextSpacing.blockPaddingY}px`,
           },
-        })
-      );
+        }),
+        shot.actionText || ''
+      ));
     }
 
     if (template.showScriptText) {
-      textGroup.appendChild(
+      textGroup.appendChild(appendRichText(
         createElement('div', {
           className: 'w-full border-0 rounded-sm bg-transparent text-xs px-1 py-0.5 script-text whitespace-pre-wrap',
-          textContent: shot.scriptText || '',
           style: {
             color: theme.scriptText.text,
             fontSize: `${scriptTextSpacing.fontSize}px`,
@@ -836,14 +1003,46 @@ function buildShotCard(
             paddingTop: `${scriptTextSpacing.blockPaddingY}px`,
             paddingBottom: `${scriptTextSpacing.blockPaddingY}px`,
           },
-        })
-      );
+        }),
+        shot.scriptText || ''
+      ));
     }
 
+    customFieldEntries.forEach((entry) => {
+      textGroup.appendChild(appendRichText(
+        createElement('div', {
+          className: 'w-full rounded-sm text-xs px-1 py-0.5 custom-field whitespace-pre-wrap',
+          style: {
+            color: theme.scriptText.text,
+            fontSize: `${scriptTextSpacing.fontSize}px`,
+            lineHeight: `${scriptTextSpacing.lineHeight}`,
+            paddingTop: `${scriptTextSpacing.blockPaddingY}px`,
+            paddingBottom: `${scriptTextSpacing.blockPaddingY}px`,
+          },
+        }),
+        getCustomFieldRichText(entry)
+      ));
+    });
+
     content.appendChild(textGroup);
   }
 
   card.appendChild(content);
+
+  if (omitted) {
+    const placeholder = createElement('div', {
+      className: 'omitted-shot-placeholder',
+      style: getOmittedShotPlaceholderStyle(theme.contentBackground, theme.actionText.text, theme.shotCard.borderRadius),
+    });
+    placeholder.appendChild(
+      createElement('span', {
+        textContent: OMITTED_SHOT_LABEL,
+        style: getOmittedShotLabelStyle(theme.contentBackground),
+      })
+    );
+    card.appendChild(placeholder);
+  }
+
   return card;
 }
 
@@ -857,6 +1056,8 @@ function buildEmptySlotPlaceholder(
     : getMinimumShotCardNonImageHeight({
       showActionText: payload.template.showActionText,
       showScriptText: payload.template.showScriptText,
+      showCameraDetails: payload.template.showCameraDetails,
+      customFieldCount: getVisibleCustomFields(getCustomFields(payload.template)).length,
       actionTextFontSize: payload.theme.actionText.fontSize,
       scriptTextFontSize: payload.theme.scriptText.fontSize,
     });
@@ -873,6 +1074,51 @@ function buildEmptySlotPlaceholder(
   });
 }
 
+function buildReviewStatusLegend(textColor: string): HTMLElement {
+  const legend = createElement('div', {
+    className: 'flex items-center gap-3 shot-review-status-legend',
+    style: { color: textColor },
+  });
+
+  for (const option of SHOT_REVIEW_STATUS_OPTIONS) {
+    const item = createElement('div', { className: 'flex items-center gap-1' });
+    item.appendChild(
+      createElement('span', {
+        className: 'inline-block rounded-full',
+        style: { width: '6px', height: '6px', backgroundColor: option.color },
+      })
+    );
+    item.appendChild(createElement('span', { textContent: option.label }));
+    legend.appendChild(item);
+  }
+
+  return legend;
+}
+
+function buildSceneHeader(payload: ServerPDFExportPayload, header: ServerPDFSceneHeader): HTMLElement {
+  const element = createElement('div', {
+    className: 'scene-header',
+    style: {
+      gridColumn: '1 / -1',
+      ...getSceneHeaderStyle(payload.theme.header.text, payload.theme.shotCard.border),
+    },
+  });
+  element.appendChild(
+    createElement('span', {
+      className: 'scene-header-label',
+      textContent: header.label,
+      style: { fontWeight: '700' },
+    })
+  );
+  element.appendChild(
+    createElement('span', {
+      className: 'scene-header-name min-w-0 flex-1 truncate',
+      textContent: getSceneHeaderText(header),
+    })
+  );
+  return element;
+}
+
 function buildShotGrid(payload: ServerPDFExportPayload): HTMLElement {
   const resolvedPageSizeMode = resolveExportPageSizeMode(payload);
   const isFixedPageMode = resolvedPageSizeMode !== 'dynamic';
@@ -898,18 +1144,30 @@ function buildShotGrid(payload: ServerPDFExportPayload): HTMLElement {
     },
   });
 
-  for (let slotIndex = 0; slotIndex < totalSlots; slotIndex += 1) {
-    const shot = payload.page.shots[slotIndex];
-    grid.appendChild(
-      shot
-        ? buildShotCard(payload, shot, previewDimensions)
-        : buildEmptySlotPlaceholder(payload, previewDimensions, isFixedPageMode)
-    );
+  // Mirrors ShotGrid: a scene header takes a full row and pushes its scene onto a fresh row
+  const pageShots = payload.page.shots.slice(0, totalSlots);
+  const sceneHeaders = new Map((payload.page.sceneHeaders ?? []).map((header) => [header.shotId, header]));
+  for (const shot of pageShots) {
+    const sceneHeader = sceneHeaders.get(shot.id);
+    if (sceneHeader) {
+      grid.appendChild(buildSceneHeader(payload, sceneHeader));
+    }
+    grid.appendChild(buildShotCard(payload, shot, previewDimensions));
+  }
+
+  const usedCells = countSceneGridCells(
+    pageShots.map((shot) => shot.id),
+    new Set(sceneHeaders.keys()),
+    payload.page.gridCols
+  );
+  for (let slotIndex = usedCells; slotIndex < totalSlots; slotIndex += 1) {
+    grid.appendChild(buildEmptySlotPlaceholder(payload, previewDimensions, isFixedPageMode));
   }
 
   root.appendChild(grid);
 
-  if (payload.template.showPageNumber) {
+  const footerContent = payload.footer;
+  if (payload.template.showPageNumber || payload.template.showReviewStatus || hasPageFooterContent(footerContent)) {
     const footer = createElement('div', {
       className: 'mt-2',
       style: {
@@ -931,15 +1189,42 @@ function buildShotGrid(payload: ServerPDFExportPayload): HTMLElement {
     });
 
     const footerText = createElement('div', {
-      className: 'flex items-center justify-end text-xs',
+      className: 'text-xs',
       style: {
+        ...PAGE_FOOTER_STYLES.row,
         fontSize: '10px',
         lineHeight: '1.2',
         color: payload.theme.header.text,
       },
     });
 
-    footerText.appendChild(createElement('div', { textContent: `Page ${payload.page.pageNumber}` }));
+    const footerStart = createElement('div', { style: PAGE_FOOTER_STYLES.start });
+    if (payload.template.showReviewStatus) {
+      footerStart.appendChild(buildReviewStatusLegend(payload.theme.header.text));
+    }
+    if (footerContent?.text) {
+      footerStart.appendChild(
+        createElement('div', { className: 'footer-text', textContent: footerContent.text, style: PAGE_FOOTER_STYLES.text })
+      );
+    }
+
+    const footerEnd = createElement('div', { style: PAGE_FOOTER_STYLES.end });
+    if (footerContent?.date) {
+      footerEnd.appendChild(createElement('div', { textContent: footerContent.date }));
+    }
+    if (footerContent?.revision) {
+      footerEnd.appendChild(createElement('div', { textContent: footerContent.revision }));
+    }
+    if (payload.template.showPageNumber) {
+      footerEnd.appendChild(
+        createElement('div', {
+          textContent: formatPageNumber(getPageNumberFormat(payload.template), payload.page.pageNumber, payload.pageCount),
+        })
+      );
+    }
+
+    footerText.appendChild(footerStart);
+    footerText.appendChild(footerEnd);
     footerPadding.appendChild(footerText);
     footer.appendChild(footerPadding);
     root.appendChild(footer);
@@ -948,18 +1233,154 @@ function buildShotGrid(payload: ServerPDFExportPayload): HTMLElement {
   return root;
 }
 
+function buildCoverPage(payload: ServerPDFExportPayload, frontMatter: ServerPDFFrontMatter): HTMLElement {
+  const { project, theme } = payload;
+  const logoSource = getImageSource(project.projectLogo);
+  const root = createElement('div', {
+    className: 'cover-page',
+    style: getFrontMatterPageStyle(theme.header.text),
+  });
+  const body = createElement('div', { style: COVER_PAGE_STYLES.body });
+
+  if (logoSource) {
+    body.appendChild(
+      createElement('img', {
+        attrs: { src: logoSource, alt: 'Project Logo' },
+        style: COVER_PAGE_STYLES.logo,
+      })
+    );
+  }
+  if (project.projectName.trim()) {
+    body.appendChild(createElement('div', { textContent: project.projectName, style: COVER_PAGE_STYLES.projectName }));
+  }
+  if (project.clientAgency.trim()) {
+    body.appendChild(createElement('div', { textContent: project.clientAgency, style: COVER_PAGE_STYLES.clientAgency }));
+  }
+  if (project.jobInfo.trim()) {
+    body.appendChild(createElement('div', { textContent: project.jobInfo, style: COVER_PAGE_STYLES.jobInfo }));
+  }
+  body.appendChild(createElement('div', { textContent: frontMatter.date, style: COVER_PAGE_STYLES.date }));
+
+  root.appendChild(body);
+  return root;
+}
+
+function buildContentsPage(
+  payload: ServerPDFExportPayload,
+  frontMatter: ServerPDFFrontMatter,
+  sheetIndex: number
+): HTMLElement {
+  const root = createElement('div', {
+    className: 'contents-page',
+    style: getFrontMatterPageStyle(payload.theme.header.text),
+  });
+  root.appendChild(
+    createElement('div', {
+      textContent: sheetIndex > 0 ? "Contents (cont'd)" : 'Contents',
+      style: CONTENTS_PAGE_STYLES.heading,
+    })
+  );
+  root.appendChild(
+    createElement('div', {
+      textContent: payload.project.projectName,
+      style: CONTENTS_PAGE_STYLES.subheading,
+    })
+  );
+
+  for (const entry of frontMatter.contents[sheetIndex]) {
+    const row = createElement('div', { className: 'contents-entry', style: CONTENTS_PAGE_STYLES.row });
+    row.appendChild(createElement('span', { textContent: getContentsEntryName(entry), style: CONTENTS_PAGE_STYLES.name }));
+    if (entry.shotRange) {
+      row.appendChild(createElement('span', { textContent: entry.shotRange, style: CONTENTS_PAGE_STYLES.shotRange }));
+    }
+    row.appendChild(createElement('span', { style: CONTENTS_PAGE_STYLES.leader }));
+    row.appendChild(
+      createElement('span', { textContent: String(entry.pageNumber), style: CONTENTS_PAGE_STYLES.pageNumber })
+    );
+    root.appendChild(row);
+  }
+
+  return root;
+}
+
+function buildGeneratedPage(
+  payload: ServerPDFExportPayload,
+  generatedPage: ServerPDFGeneratedPage,
+  frontMatter: ServerPDFFrontMatter
+): HTMLElement {
+  return generatedPage.kind === 'cover'
+    ? buildCoverPage(payload, frontMatter)
+    : buildContentsPage(payload, frontMatter, generatedPage.sheetIndex);
+}
+
+const PRINT_MARK_COLOR = '#000000';
+const PRINT_MARK_STROKE_INCHES = 0.25 / 72; // Quarter-point hairline
+
+function createSvgElement<K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  attrs: Record<string, string | number>
+): SVGElementTagNameMap[K] {
+  const element = document.createElementNS('http://www.w3.org/2000/svg', tag);
+  for (const [name, value] of Object.entries(attrs)) {
+    element.setAttribute(name, String(value));
+  }
+  return element;
+}
+
+// Marks are drawn in inches so they land exactly where the PDF trim box is set
+function buildPrintMarks(layout: PrintSheetLayout, print: PrintLayoutOptions): SVGSVGElement {
+  const svg = createSvgElement('svg', {
+    width: layout.sheetWidthInches * CSS_PX_PER_INCH,
+    height: layout.sheetHeightInches * CSS_PX_PER_INCH,
+    viewBox: `0 0 ${layout.sheetWidthInches} ${layout.sheetHeightInches}`,
+    stroke: PRINT_MARK_COLOR,
+    'stroke-width': PRINT_MARK_STROKE_INCHES,
+    fill: 'none',
+  });
+  svg.style.position = 'absolute';
+  svg.style.inset = '0';
+
+  if (print.cropMarks) {
+    for (const line of getCropMarkLines(layout)) {
+      svg.appendChild(createSvgElement('line', { ...line }));
+    }
+  }
+  if (print.registrationMarks) {
+    const armLength = REGISTRATION_MARK_RADIUS_INCHES * 1.6;
+    for (const { x, y } of getRegistrationMarkCenters(layout)) {
+      svg.appendChild(createSvgElement('circle', { cx: x, cy: y, r: REGISTRATION_MARK_RADIUS_INCHES }));
+      svg.appendChild(createSvgElement('circle', { cx: x, cy: y, r: REGISTRATION_MARK_RADIUS_INCHES / 2, fill: PRINT_MARK_COLOR }));
+      svg.appendChild(createSvgElement('line', { x1: x - armLength, y1: y, x2: x + armLength, y2: y }));
+      svg.appendChild(createSvgElement('line', { x1: x, y1: y - armLength, x2: x, y2: y + armLength }));
+    }
+  }
+
+  return svg;
+}
+
+const toPx = (inches: number): string => `${inches * CSS_PX_PER_INCH}px`;
+
 function buildExportDom(payload: ServerPDFExportPayload): HTMLElement {
   const resolvedPageSizeMode = resolveExportPageSizeMode(payload);
-  const frameHeightPx = getFixedPageFrameHeight(resolvedPageSizeMode);
-  const fixedLetterDimensions =
-    payload.paperSize === 'letter-portrait'
-      ? { width: LETTER_PORTRAIT_WIDTH_PX, height: LETTER_PORTRAIT_HEIGHT_PX }
-      : payload.paperSize === 'letter-landscape' || payload.paperSize === 'letter'
-        ? { width: LETTER_LANDSCAPE_WIDTH_PX, height: LETTER_LANDSCAPE_HEIGHT_PX }
-        : null;
-  const exportScale = fixedLetterDimensions
-    ? fixedLetterDimensions.width / RENDERED_PAGE_WIDTH_PX
+  const frameHeightPx = getFixedPageFrameHeight(resolvedPageSizeMode, payload.customPageSize);
+  const paperMode: PageSizeMode | null =
+    payload.paperSize === 'canvas'
+      ? null
+      : payload.paperSize === 'letter' ? 'letter-landscape' : payload.paperSize;
+  const fixedPageDimensions = paperMode
+    ? getPagePixelDimensions(paperMode, payload.customPageSize)
+    : null;
+  const paperSpec = paperMode ? getPageSizeSpec(paperMode, payload.customPageSize) : null;
+  const printLayout = paperSpec?.widthInches && paperSpec.heightInches && payload.print
+    ? getPrintSheetLayout(paperSpec.widthInches, paperSpec.heightInches, payload.print)
+    : null;
+  const exportScale = fixedPageDimensions
+    ? (fixedPageDimensions.width / RENDERED_PAGE_WIDTH_PX) * (printLayout?.contentScale ?? 1)
     : 1;
+  // Dynamic pages size to their content; generated pages keep landscape proportions instead
+  const generatedPageMinHeightPx = payload.generatedPage && !frameHeightPx
+    ? getFixedPageFrameHeight('letter-landscape')
+    : null;
 
   const shell = createElement('div', {
     style: {
@@ -982,18 +1403,29 @@ function buildExportDom(payload: ServerPDFExportPayload): HTMLElement {
       'data-paper-size': payload.paperSize,
       'data-page-size-mode': resolvedPageSizeMode,
     },
-    style: {
-      fontFamily: EXPORT_FONT_FAMILY,
-      width: fixedLetterDimensions
-        ? `${fixedLetterDimensions.width}px`
-        : `${RENDERED_PAGE_WIDTH_PX}px`,
-      minWidth: fixedLetterDimensions
-        ? `${fixedLetterDimensions.width}px`
-        : `${RENDERED_PAGE_WIDTH_PX}px`,
-      height: fixedLetterDimensions ? `${fixedLetterDimensions.height}px` : 'auto',
-      minHeight: fixedLetterDimensions ? `${fixedLetterDimensions.height}px` : 'auto',
-      overflow: 'hidden',
-    },
+    style: printLayout
+      ? {
+        fontFamily: EXPORT_FONT_FAMILY,
+        position: 'relative',
+        width: toPx(printLayout.sheetWidthInches),
+        minWidth: toPx(printLayout.sheetWidthInches),
+        height: toPx(printLayout.sheetHeightInches),
+        minHeight: toPx(printLayout.sheetHeightInches),
+        overflow: 'hidden',
+        backgroundColor: '#ffffff',
+      }
+      : {
+        fontFamily: EXPORT_FONT_FAMILY,
+        width: fixedPageDimensions
+          ? `${fixedPageDimensions.width}px`
+          : `${RENDERED_PAGE_WIDTH_PX}px`,
+        minWidth: fixedPageDimensions
+          ? `${fixedPageDimensions.width}px`
+          : `${RENDERED_PAGE_WIDTH_PX}px`,
+        height: fixedPageDimensions ? `${fixedPageDimensions.height}px` : 'auto',
+        minHeight: fixedPageDimensions ? `${fixedPageDimensions.height}px` : 'auto',
+        overflow: 'hidden',
+      },
   });
 
   const pageRoot = createElement('div', {
@@ -1005,24 +1437,57 @@ function buildExportDom(payload: ServerPDFExportPayload): HTMLElement {
       width: `${RENDERED_PAGE_WIDTH_PX}px`,
       minWidth: `${RENDERED_PAGE_WIDTH_PX}px`,
       height: frameHeightPx ? `${frameHeightPx}px` : 'min-content',
-      display: frameHeightPx ? 'flex' : 'block',
-      flexDirection: frameHeightPx ? 'column' : undefined,
+      minHeight: generatedPageMinHeightPx ? `${generatedPageMinHeightPx}px` : undefined,
+      display: frameHeightPx || generatedPageMinHeightPx ? 'flex' : 'block',
+      flexDirection: frameHeightPx || generatedPageMinHeightPx ? 'column' : undefined,
       overflow: frameHeightPx ? 'hidden' : 'visible',
-      transform: fixedLetterDimensions ? `scale(${exportScale})` : undefined,
-      transformOrigin: fixedLetterDimensions ? 'top left' : undefined,
+      transform: fixedPageDimensions ? `scale(${exportScale})` : undefined,
+      transformOrigin: fixedPageDimensions ? 'top left' : undefined,
       fontFamily: EXPORT_FONT_FAMILY,
       backgroundColor: payload.theme.contentBackground,
       borderRadius: '6px',
     },
   });
 
-  pageRoot.appendChild(buildMasterHeader(payload));
-  const pagePadding = createElement('div', {
-    className: frameHeightPx ? 'p-1 flex-1 min-h-0' : 'p-1',
-  });
-  pagePadding.appendChild(buildShotGrid(payload));
-  pageRoot.appendChild(pagePadding);
-  exportRoot.appendChild(pageRoot);
+  if (payload.generatedPage && payload.frontMatter) {
+    pageRoot.appendChild(buildGeneratedPage(payload, payload.generatedPage, payload.frontMatter));
+  } else {
+    pageRoot.appendChild(buildMasterHeader(payload));
+    const pagePadding = createElement('div', {
+      className: frameHeightPx ? 'p-1 flex-1 min-h-0' : 'p-1',
+    });
+    pagePadding.appendChild(buildShotGrid(payload));
+    pageRoot.appendChild(pagePadding);
+  }
+  if (printLayout && payload.print) {
+    // The page background runs out to the bleed edge; content sits inside the margins
+    const { bleedBox, contentBox } = printLayout;
+    exportRoot.appendChild(createElement('div', {
+      style: {
+        position: 'absolute',
+        left: toPx(bleedBox.x),
+        top: toPx(bleedBox.y),
+        width: toPx(bleedBox.width),
+        height: toPx(bleedBox.height),
+        backgroundColor: payload.theme.contentBackground,
+      },
+    }));
+    const contentFrame = createElement('div', {
+      style: {
+        position: 'absolute',
+        left: toPx(contentBox.x),
+        top: toPx(contentBox.y),
+        width: toPx(contentBox.width),
+        height: toPx(contentBox.height),
+        overflow: 'hidden',
+      },
+    });
+    contentFrame.appendChild(pageRoot);
+    exportRoot.appendChild(contentFrame);
+    exportRoot.appendChild(buildPrintMarks(printLayout, payload.print));
+  } else {
+    exportRoot.appendChild(pageRoot);
+  }
   contentShell.appendChild(exportRoot);
   shell.appendChild(contentShell);
 
@@ -1034,14 +1499,11 @@ function resolveExportPageSizeMode(payload: ServerPDFExportPayload): PageSizeMod
     return resolvePageSizeMode(payload.pageSizeMode);
   }
 
-  if (payload.paperSize === 'letter-portrait') {
-    return 'letter-portrait';
-  }
-  if (payload.paperSize === 'letter-landscape' || payload.paperSize === 'letter') {
+  if (payload.paperSize === 'letter') {
     return 'letter-landscape';
   }
 
-  return 'dynamic';
+  return resolvePageSizeMode(payload.paperSize === 'canvas' ? 'dynamic' : payload.paperSize);
 }
 
 async function bootstrap(): Promise<void> {
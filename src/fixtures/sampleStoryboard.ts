@@ -4,6 +4,7 @@ import type { Shot } from '@/store/shotStore';
 import type { UIState } from '@/store/uiStore';
 import { getDefaultTheme } from '@/styles/storyboardTheme';
 import { formatShotNumber } from '@/utils/formatShotNumber';
+import { DEFAULT_CUSTOM_PAGE_SIZE } from '@/utils/pageSize';
 
 type FixturePage = Omit<StoryboardPage, 'id' | 'shots' | 'createdAt' | 'updatedAt'> & {
   id: string;
@@ -42,8 +43,22 @@ const templateSettings: TemplateSettings = {
   showJobInfo: true,
   showActionText: true,
   showScriptText: true,
+  showCameraDetails: false,
+  showReviewStatus: false,
+  showOmittedShots: true,
   showPageNumber: true,
+  pageNumberFormat: 'page',
+  showFooterText: false,
+  footerText: '',
+  showFooterDate: false,
+  showRevision: false,
+  revisionLabel: '',
   shotNumberFormat: '01',
+  sceneNumberFormat: 'SC01',
+  customFields: [],
+  headerLayout: 'split',
+  logoPlacement: 'left',
+  headerFields: [],
 };
 
 const defaultStoryboardTheme = getDefaultTheme();
@@ -246,6 +261,9 @@ export const sampleStoryboardTemplate: SampleStoryboardTemplate = {
     clientAgency: 'Sample Studio',
     jobInfo: 'Visual development',
     pageSizeMode: 'dynamic',
+    scenes: {},
+    startScenesOnNewPage: false,
+    customPageSize: { ...DEFAULT_CUSTOM_PAGE_SIZE },
     templateSettings,
     storyboardTheme: sampleStoryboardTheme,
   },
@@ -267,10 +285,15 @@ const getExpectedPageShots = (
   shotOrder: string[],
 ): string[][] => {
   assert(pages.length > 0, 'at least one page is required');
-  const capacity = pages[0].gridRows * pages[0].gridCols;
-  assert(capacity > 0, 'first page capacity must be positive');
 
-  return pages.map((_, index) => shotOrder.slice(index * capacity, (index + 1) * capacity));
+  let start = 0;
+  return pages.map((page, index) => {
+    const capacity = page.gridRows * page.gridCols;
+    assert(capacity > 0, `page ${index + 1} capacity must be positive`);
+    const pageShots = shotOrder.slice(start, start + capacity);
+    start += capacity;
+    return pageShots;
+  });
 };
 
 const validateSnapshotIntegrity = (
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import { useUIStore } from '@/store/uiStore';
+import {
+  findCommandForEvent,
+  formatKeyCombo,
+  isTextEntryTarget,
+  resolveShortcuts,
+  type EditorCommandId,
+} from '@/utils/shortcuts';
+
+export type EditorCommandHandlers = Partial<Record<EditorCommandId, () => void>>;
+
+/**
+ * Runs editor commands from their key combos, honouring rebinds from the
+ * shortcut sheet. Handlers may change every render; commands without a
+ * handler leave the key press alone.
+ */
+export function useEditorShortcuts(handlers: EditorCommandHandlers, enabled = true) {
+  const shortcutOverrides = useUIStore((state) => state.shortcutOverrides);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const shortcuts = resolveShortcuts(shortcutOverrides);
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+      const commandId = findCommandForEvent(event, shortcuts, isTextEntryTarget(event.target));
+      const handler = commandId ? handlersRef.current[commandId] : undefined;
+      if (!handler) return;
+
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcutOverrides, enabled]);
+}
+
+/**
+ * The first key combo bound to a command, formatted for tooltips and menus.
+ * Empty when the command is unbound.
+ */
+export function useShortcutLabel(commandId: EditorCommandId): string {
+  const shortcutOverrides = useUIStore((state) => state.shortcutOverrides);
+  const [combo] = resolveShortcuts(shortcutOverrides)[commandId];
+  return combo ? formatKeyCombo(combo) : '';
+}
@@ -0,0 +1,205 @@
+import { useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { useAppStore } from '@/store';
+import { useAuthStore } from '@/store/authStore';
+import { useProjectManagerStore } from '@/store/projectManagerStore';
+import { useShotStore } from '@/store/shotStore';
+import { useUIStore } from '@/store/uiStore';
+import { BackgroundSyncService } from '@/services/backgroundSyncService';
+import { getCustomFields } from '@/utils/customFields';
+import { fileToBase64 } from '@/utils/imageCompression';
+import {
+  buildPastedShots,
+  createShotClipboardPayload,
+  parseShotClipboard,
+  serializeShotClipboard,
+  type ClipboardShotImage,
+  type PastedShotImage,
+  type ShotClipboardPayload,
+} from '@/utils/shotClipboard';
+import { orderShotIds } from '@/utils/shotSelection';
+import { isTextEntryTarget } from '@/utils/shortcuts';
+
+interface ResolvedClipboardImage {
+  dataUrl: string;
+  blob: Blob;
+  size?: number;
+}
+
+const pluralizeShots = (count: number) => `${count} ${count === 1 ? 'shot' : 'shots'}`;
+
+// Pasted text is untrusted, so referenced images only download from this
+// app's own storage
+const isAppStorageUrl = (url: string) => {
+  try {
+    return new URL(url).origin === new URL(import.meta.env.VITE_SUPABASE_URL).origin;
+  } catch {
+    return false;
+  }
+};
+
+// Embedded images decode locally; referenced ones download from their URL
+const resolveClipboardImage = async (image: ClipboardShotImage): Promise<ResolvedClipboardImage | null> => {
+  const source = image.dataUrl ?? (image.url && isAppStorageUrl(image.url) ? image.url : null);
+  if (!source) return null;
+
+  try {
+    const response = await fetch(source);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/')) return null;
+    const dataUrl = image.dataUrl ?? await fileToBase64(new File([blob], 'clipboard-image', { type: blob.type }));
+    return { dataUrl, blob, size: image.size ?? blob.size };
+  } catch (error) {
+    console.warn('Failed to resolve clipboard image:', error);
+    return null;
+  }
+};
+
+// Text selected on the page (labels, headers) keeps the browser's own copy
+const hasTextSelection = () => {
+  const selection = window.getSelection();
+  return Boolean(selection && !selection.isCollapsed && selection.toString().trim());
+};
+
+/**
+ * Copy and paste of shots through the system clipboard, so shots move
+ * between projects, tabs and windows. Ctrl/Cmd+C copies the selected shots
+ * and Ctrl/Cmd+V pastes after the last clicked one (or at the end of the
+ * page); text fields keep their normal copy and paste.
+ *
+ * Pasted images are stored locally first and, when cloud sync is on, queued
+ * for upload under the new shots through BackgroundSyncService.
+ */
+export function useShotClipboard(pageId: string, enabled = true) {
+  const {
+    shots,
+    shotOrder,
+    selectedShotIds,
+    selectionAnchorId,
+    templateSettings,
+    currentProjectId,
+    pasteShots,
+  } = useAppStore();
+  const isPastingRef = useRef(false);
+
+  const getSelectedShots = () => orderShotIds(shotOrder, selectedShotIds).map((shotId) => shots[shotId]).filter(Boolean);
+
+  const getClipboardText = () => serializeShotClipboard(
+    createShotClipboardPayload(getSelectedShots(), getCustomFields(templateSettings), currentProjectId)
+  );
+
+  const copySelectedShots = async () => {
+    const count = getSelectedShots().length;
+    if (count === 0) return;
+    try {
+      await navigator.clipboard.writeText(getClipboardText());
+      toast.success(`Copied ${pluralizeShots(count)}`);
+    } catch (error) {
+      console.error('Failed to copy shots:', error);
+      toast.error("Couldn't copy to the clipboard. Try Ctrl/Cmd+C instead.");
+    }
+  };
+
+  const pastePayload = async (payload: ShotClipboardPayload) => {
+    if (isPastingRef.current) return;
+    isPastingRef.current = true;
+
+    try {
+      const hasReferencedImages = payload.shots.some((shot) => shot.image && !shot.image.dataUrl);
+      if (hasReferencedImages) {
+        toast.info('Downloading images for the pasted shots...');
+      }
+
+      const resolvedImages: Array<ResolvedClipboardImage | null> = [];
+      for (const shot of payload.shots) {
+        resolvedImages.push(shot.image ? await resolveClipboardImage(shot.image) : null);
+      }
+
+      // Downloads take a while; paste where the selection is now
+      const { shotOrder } = useShotStore.getState();
+      const { selectedShotIds, selectionAnchorId } = useUIStore.getState();
+      const { currentProjectId } = useProjectManagerStore.getState();
+      const isCloudEnabled = import.meta.env.VITE_CLOUD_SYNC_ENABLED === 'true';
+      const { isAuthenticated } = useAuthStore.getState();
+      const uploadsToCloud = isCloudEnabled && isAuthenticated && !!currentProjectId;
+      const images = resolvedImages.map((image): PastedShotImage | null => image && {
+        imageData: image.dataUrl,
+        imageSize: image.size,
+        imageStorageType: uploadsToCloud ? 'local-pending-sync' : 'base64',
+        cloudSyncStatus: uploadsToCloud ? 'pending' : undefined,
+      });
+
+      const afterShotId = selectionAnchorId && selectedShotIds.includes(selectionAnchorId)
+        ? selectionAnchorId
+        : orderShotIds(shotOrder, selectedShotIds).pop() ?? null;
+      const newShotIds = pasteShots(
+        buildPastedShots(payload.shots, getCustomFields(templateSettings), images),
+        pageId,
+        afterShotId
+      );
+
+      if (uploadsToCloud) {
+        newShotIds.forEach((shotId, index) => {
+          const image = resolvedImages[index];
+          if (!image) return;
+          const extension = image.blob.type.split('/')[1] || 'png';
+          const file = new File([image.blob], `shot-${shotId}.${extension}`, { type: image.blob.type });
+          BackgroundSyncService.queueImageUpload(currentProjectId, shotId, file);
+        });
+      }
+
+      const missingImages = payload.shots.filter((shot, index) => shot.image && !resolvedImages[index]).length;
+      toast.success(`Pasted ${pluralizeShots(newShotIds.length)}`);
+      if (missingImages > 0) {
+        toast.warning(`${missingImages} ${missingImages === 1 ? 'image' : 'images'} couldn't be copied`);
+      }
+    } catch (error) {
+      console.error('Failed to paste shots:', error);
+      toast.error('Failed to paste shots');
+    } finally {
+      isPastingRef.current = false;
+    }
+  };
+
+  // Listeners read the latest render's state through refs
+  const copyRef = useRef(getClipboardText);
+  const pasteRef = useRef(pastePayload);
+  const selectionCountRef = useRef(0);
+  copyRef.current = getClipboardText;
+  pasteRef.current = pastePayload;
+  selectionCountRef.current = selectedShotIds.length;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleCopy = (event: ClipboardEvent) => {
+      if (selectionCountRef.current === 0 || !event.clipboardData) return;
+      if (isTextEntryTarget(document.activeElement) || hasTextSelection()) return;
+
+      const text = copyRef.current();
+      const count = parseShotClipboard(text)?.shots.length ?? 0;
+      if (count === 0) return;
+      event.preventDefault();
+      event.clipboardData.setData('text/plain', text);
+      toast.success(`Copied ${pluralizeShots(count)}`);
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isTextEntryTarget(document.activeElement)) return;
+      const payload = parseShotClipboard(event.clipboardData?.getData('text/plain'));
+      if (!payload) return;
+      event.preventDefault();
+      void pasteRef.current(payload);
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [enabled]);
+
+  return { copySelectedShots };
+}
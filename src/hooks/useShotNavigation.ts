@@ -0,0 +1,73 @@
+import { useAppStore } from '@/store';
+import {
+  focusShotFieldWhenRendered,
+  getFocusedShotField,
+  getShotFieldNames,
+  type ShotFieldPosition,
+  type ShotFieldTarget,
+} from '@/utils/shotNavigation';
+
+/**
+ * Shot, field and page navigation for the editor shortcuts. Moving past the
+ * last shot of a page switches to the page holding the next one.
+ */
+export function useShotNavigation() {
+  const { shotOrder, pages, activePageId, setActivePage, selectionAnchorId } = useAppStore();
+
+  // The focused shot, or the last clicked one when focus is elsewhere
+  const getCurrentPosition = (): ShotFieldPosition | null => {
+    const focused = getFocusedShotField();
+    if (focused) return focused;
+    return selectionAnchorId && shotOrder.includes(selectionAnchorId)
+      ? { shotId: selectionAnchorId, field: null }
+      : null;
+  };
+
+  const goToShot = (shotId: string, target: ShotFieldTarget) => {
+    const page = pages.find((candidate) => candidate.shots.includes(shotId));
+    if (page && page.id !== activePageId) {
+      setActivePage(page.id);
+    }
+    focusShotFieldWhenRendered(shotId, target);
+  };
+
+  const moveShot = (offset: 1 | -1) => {
+    const current = getCurrentPosition();
+    if (!current) {
+      const pageShots = pages.find((page) => page.id === activePageId)?.shots ?? [];
+      const shotId = offset > 0 ? pageShots[0] : pageShots[pageShots.length - 1];
+      if (shotId) goToShot(shotId, 'first');
+      return;
+    }
+
+    const shotId = shotOrder[shotOrder.indexOf(current.shotId) + offset];
+    if (shotId) goToShot(shotId, current.field ?? 'first');
+  };
+
+  // Steps through the fields of a shot, continuing into the neighbouring shot
+  const moveField = (offset: 1 | -1) => {
+    const current = getCurrentPosition();
+    if (!current) {
+      moveShot(offset);
+      return;
+    }
+
+    const fields = getShotFieldNames(current.shotId);
+    const index = current.field ? fields.indexOf(current.field) : offset > 0 ? -1 : fields.length;
+    const nextField = fields[index + offset];
+    if (nextField) {
+      goToShot(current.shotId, nextField);
+      return;
+    }
+
+    const shotId = shotOrder[shotOrder.indexOf(current.shotId) + offset];
+    if (shotId) goToShot(shotId, offset > 0 ? 'first' : 'last');
+  };
+
+  const movePage = (offset: 1 | -1) => {
+    const page = pages[pages.findIndex((candidate) => candidate.id === activePageId) + offset];
+    if (page) setActivePage(page.id);
+  };
+
+  return { moveShot, moveField, movePage };
+}
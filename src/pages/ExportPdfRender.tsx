@@ -3,11 +3,22 @@ import {
   type ExportTemplateVisibility,
   type NormalizedExportImageSource,
   type ServerPDFExportPayload,
+  type ServerPDFFrontMatter,
+  type ServerPDFSceneHeader,
 } from '@/utils/types/exportTypes';
 import type { StoryboardTheme } from '@/styles/storyboardTheme';
 import type { Shot as AppShot, StoryboardPage as AppStoryboardPage } from '@/store';
 import { ExportStoryboardPageContent } from '@/components/export/ExportStoryboardPageContent';
-import { RENDERED_PAGE_WIDTH_PX } from '@/utils/pageSize';
+import { ExportFrontMatterPage } from '@/components/export/ExportFrontMatterPage';
+import { isCustomPageSize, isFixedPageSizeMode, isPrintLayoutOptions, RENDERED_PAGE_WIDTH_PX } from '@/utils/pageSize';
+import { pickCameraDetails } from '@/utils/cameraDetails';
+import { getShotReviewStatus } from '@/utils/shotReviewStatus';
+import { isSketchStrokeList } from '@/utils/sketch';
+import { isShotAnnotationList } from '@/utils/annotations';
+import { isCustomFieldValues, isCustomShotFieldList } from '@/utils/customFields';
+import { isHeaderFieldList, isHeaderLayout, isLogoPlacement } from '@/utils/headerLayout';
+import { isPageFooterContent, isPageNumberFormat } from '@/utils/pageFooter';
+import { isFrontMatter, isGeneratedPageOf } from '@/utils/export/frontMatter';
 
 const EXPORT_ROUTE_PATH = '/export/pdf/render';
 const PAYLOAD_WAIT_TIMEOUT_MS = 2000;
@@ -80,7 +91,15 @@ function validateTemplate(template: unknown): template is ExportTemplateVisibili
     isBoolean(template.showJobInfo) &&
     isBoolean(template.showActionText) &&
     isBoolean(template.showScriptText) &&
-    isBoolean(template.showPageNumber)
+    (typeof template.showCameraDetails === 'undefined' || isBoolean(template.showCameraDetails)) &&
+    (typeof template.showReviewStatus === 'undefined' || isBoolean(template.showReviewStatus)) &&
+    (typeof template.showOmittedShots === 'undefined' || isBoolean(template.showOmittedShots)) &&
+    isBoolean(template.showPageNumber) &&
+    (typeof template.customFields === 'undefined' || isCustomShotFieldList(template.customFields)) &&
+    (typeof template.headerLayout === 'undefined' || isHeaderLayout(template.headerLayout)) &&
+    (typeof template.logoPlacement === 'undefined' || isLogoPlacement(template.logoPlacement)) &&
+    (typeof template.headerFields === 'undefined' || isHeaderFieldList(template.headerFields)) &&
+    (typeof template.pageNumberFormat === 'undefined' || isPageNumberFormat(template.pageNumberFormat))
   );
 }
 
@@ -98,6 +117,16 @@ function validateImageSource(image: unknown): image is NormalizedExportImageSour
   return false;
 }
 
+function validateSceneHeaders(value: unknown): value is ServerPDFSceneHeader[] {
+  return Array.isArray(value) && value.every((header) => (
+    isRecord(header) &&
+    isString(header.shotId) &&
+    isString(header.label) &&
+    isString(header.name) &&
+    isBoolean(header.continued)
+  ));
+}
+
 function validateTheme(theme: unknown): theme is StoryboardTheme {
   if (!isRecord(theme)) return false;
 
@@ -140,11 +169,12 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
   if (
     input.paperSize !== 'letter' &&
     input.paperSize !== 'canvas' &&
-    input.paperSize !== 'letter-portrait' &&
-    input.paperSize !== 'letter-landscape'
+    !isFixedPageSizeMode(input.paperSize)
   ) {
     return false;
   }
+  if (input.customPageSize !== undefined && !isCustomPageSize(input.customPageSize)) return false;
+  if (input.print !== undefined && !isPrintLayoutOptions(input.print)) return false;
   if (!validateTemplate(input.template)) return false;
 
   if (!validateTheme(input.theme)) return false;
@@ -162,6 +192,16 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
     return false;
   }
 
+  if (typeof input.frontMatter !== 'undefined' && !isFrontMatter(input.frontMatter)) return false;
+  if (typeof input.footer !== 'undefined' && !isPageFooterContent(input.footer)) return false;
+  if (typeof input.pageCount !== 'undefined' && !isPositiveInteger(input.pageCount)) return false;
+  if (
+    typeof input.generatedPage !== 'undefined' &&
+    !isGeneratedPageOf(input.generatedPage, input.frontMatter as ServerPDFFrontMatter | undefined)
+  ) {
+    return false;
+  }
+
   const page = input.page;
   if (
     !isString(page.id) ||
@@ -170,7 +210,8 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
     !isPositiveInteger(page.gridRows) ||
     !isPositiveInteger(page.gridCols) ||
     !isAspectRatio(page.aspectRatio) ||
-    !Array.isArray(page.shots)
+    !Array.isArray(page.shots) ||
+    !(typeof page.sceneHeaders === 'undefined' || validateSceneHeaders(page.sceneHeaders))
   ) {
     return false;
   }
@@ -183,10 +224,18 @@ function validatePayload(input: unknown): input is ServerPDFExportPayload {
       isString(shot.number) &&
       isString(shot.actionText) &&
       isString(shot.scriptText) &&
+      (typeof shot.camera === 'undefined' || isRecord(shot.camera)) &&
+      (typeof shot.reviewStatus === 'undefined' || isString(shot.reviewStatus)) &&
       (shot.image === null || validateImageSource(shot.image)) &&
       isPositiveNumber(shot.imageScale) &&
       isNumber(shot.imageOffsetX) &&
-      isNumber(shot.imageOffsetY)
+      isNumber(shot.imageOffsetY) &&
+      isNumber(shot.imageRotation) &&
+      isBoolean(shot.imageFlipX) &&
+      isBoolean(shot.imageFlipY) &&
+      (typeof shot.sketch === 'undefined' || isSketchStrokeList(shot.sketch)) &&
+      (typeof shot.annotations === 'undefined' || isShotAnnotationList(shot.annotations)) &&
+      (typeof shot.customFieldValues === 'undefined' || isCustomFieldValues(shot.customFieldValues))
     );
   });
 }
@@ -235,8 +284,16 @@ function buildExportShots(payload: ServerPDFExportPayload): AppShot[] {
     imageScale: shot.imageScale,
     imageOffsetX: shot.imageOffsetX,
     imageOffsetY: shot.imageOffsetY,
+    imageRotation: shot.imageRotation,
+    imageFlipX: shot.imageFlipX,
+    imageFlipY: shot.imageFlipY,
     actionText: shot.actionText,
     scriptText: shot.scriptText,
+    ...pickCameraDetails(shot.camera ?? {}),
+    reviewStatus: getShotReviewStatus(shot),
+    sketchStrokes: shot.sketch,
+    annotations: shot.annotations,
+    customFieldValues: shot.customFieldValues,
     createdAt: new Date(0),
     updatedAt: new Date(0),
   }));
@@ -455,16 +512,25 @@ function SharedExportPage({
             overflow: 'visible',
           }}
         >
-          <ExportStoryboardPageContent
-            page={exportPage}
-            pageShots={exportShots}
-            storyboardTheme={payload.theme}
-            pageId={payload.page.id}
-            pageNumber={payload.page.pageNumber}
-            pageElementId={`server-export-page-${payload.page.id}`}
-            hideEmptySlots
-            exportPayload={payload}
-          />
+          {payload.generatedPage && payload.frontMatter ? (
+            <ExportFrontMatterPage
+              payload={payload}
+              generatedPage={payload.generatedPage}
+              frontMatter={payload.frontMatter}
+              pageElementId={`server-export-${payload.generatedPage.kind}`}
+            />
+          ) : (
+            <ExportStoryboardPageContent
+              page={exportPage}
+              pageShots={exportShots}
+              storyboardTheme={payload.theme}
+              pageId={payload.page.id}
+              pageNumber={payload.page.pageNumber}
+              pageElementId={`server-export-page-${payload.page.id}`}
+              hideEmptySlots
+              exportPayload={payload}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -88,7 +88,7 @@ export function trackFirstShotAddedAfterIntent(reason: string, beforeShotCount:
 }
 
 export function captureExportCompleted(options: {
-  format: 'pdf' | 'png';
+  format: 'pdf' | 'png' | 'webm';
   pageCount: number;
   shotCount: number;
   durationMs?: number;
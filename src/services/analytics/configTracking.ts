@@ -14,6 +14,9 @@ const VISIBILITY_TEMPLATE_KEYS = [
   'showJobInfo',
   'showActionText',
   'showScriptText',
+  'showCameraDetails',
+  'showReviewStatus',
+  'showOmittedShots',
   'showPageNumber',
 ] as const satisfies ReadonlyArray<keyof TemplateSettings>;
 
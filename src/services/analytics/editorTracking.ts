@@ -111,7 +111,12 @@ export function trackShotUpdate(
     const hasImageEdit =
       updates.imageScale !== undefined ||
       updates.imageOffsetX !== undefined ||
-      updates.imageOffsetY !== undefined;
+      updates.imageOffsetY !== undefined ||
+      updates.imageRotation !== undefined ||
+      updates.imageFlipX !== undefined ||
+      updates.imageFlipY !== undefined ||
+      'sketchStrokes' in updates ||
+      'annotations' in updates;
 
     if (hasImageEdit) {
       captureIfAllowed(AnalyticsEvent.ImageEdited, { image_count: countImages() });
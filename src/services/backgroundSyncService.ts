@@ -1,5 +1,6 @@
 import { CloudSyncService } from './cloudSyncService';
 import { toast } from 'sonner';
+import { getShotImageStorageKey } from '@/utils/imageTakes';
 
 export interface SyncQueueItem {
   id: string;
@@ -294,7 +295,7 @@ class BackgroundSyncServiceClass {
           return;
         }
         
-        await CloudSyncService.uploadShotImage(item.projectId, item.shotId, item.file);
+        await CloudSyncService.uploadShotImage(item.projectId, getShotImageStorageKey(shot), item.file);
         item.status = 'synced';
         console.log(`Successfully synced image for shot ${item.shotId}`);
         
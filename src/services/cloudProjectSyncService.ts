@@ -19,8 +19,22 @@ export class CloudProjectSyncService {
     showJobInfo: true,
     showActionText: true,
     showScriptText: true,
+    showCameraDetails: false,
+    showReviewStatus: false,
+    showOmittedShots: true,
     showPageNumber: true,
+    pageNumberFormat: 'page',
+    showFooterText: false,
+    footerText: '',
+    showFooterDate: false,
+    showRevision: false,
+    revisionLabel: '',
     shotNumberFormat: CloudProjectSyncService.DEFAULT_SHOT_NUMBER_FORMAT,
+    sceneNumberFormat: 'SC01',
+    customFields: [],
+    headerLayout: 'split',
+    logoPlacement: 'left',
+    headerFields: [],
   };
 
   /**
@@ -331,6 +345,9 @@ export class CloudProjectSyncService {
         clientAgency: existingSettings.clientAgency ?? '',
         jobInfo: existingSettings.jobInfo ?? '',
         pageSizeMode: normalizedPageSizeMode,
+        scenes: existingSettings.scenes,
+        startScenesOnNewPage: existingSettings.startScenesOnNewPage,
+        customPageSize: existingSettings.customPageSize,
         templateSettings: {
           ...CloudProjectSyncService.DEFAULT_TEMPLATE_SETTINGS,
           ...existingTemplateSettings,
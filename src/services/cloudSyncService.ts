@@ -4,6 +4,7 @@ import { CloudAccessService } from './cloudAccessService'
 import { usePageStore } from '@/store/pageStore'
 import { useShotStore } from '@/store/shotStore'
 import { useProjectStore } from '@/store/projectStore'
+import { useHistoryStore } from '@/store/historyStore'
 import { useUIStore } from '@/store/uiStore'
 import { useAuthStore } from '@/store/authStore'
 import { useProjectManagerStore } from '@/store/projectManagerStore'
@@ -12,9 +13,10 @@ import { useCloudSaveConflictStore } from '@/store/cloudSaveConflictStore'
 import { useWriterLeaseStore } from '@/store/writerLeaseStore'
 import { setSavePaused } from '@/utils/autoSave'
 import { WriterLeaseService } from '@/services/writerLeaseService'
-import { resolvePageSizeMode } from '@/utils/pageSize';
+import { resolveCustomPageSize, resolvePageSizeMode } from '@/utils/pageSize';
 import { normalizeProjectSettings } from '@/utils/projectSettings';
 import { serializeShotsForStorage } from '@/utils/shotSerialization';
+import { getShotImageStorageKey } from '@/utils/imageTakes';
 
 export type CloudSaveFailureReason =
   | 'no_project_id'
@@ -355,7 +357,9 @@ export class CloudSyncService {
   static async loadProject(projectId: string): Promise<void> {
     const data = await ProjectService.getProject(projectId)
     
-    // Apply to stores
+    // Apply to stores; undo steps and selected shots from the previous project don't apply here
+    useHistoryStore.getState().clearHistory()
+    useUIStore.getState().clearShotSelection()
     usePageStore.setState({
       pages: data.pages.map(page => ({
         ...page,
@@ -385,6 +389,9 @@ export class CloudSyncService {
     useProjectStore.setState({
       ...projectSettings,
       pageSizeMode: resolvePageSizeMode(projectSettings.pageSizeMode),
+      scenes: projectSettings.scenes ?? {},
+      startScenesOnNewPage: projectSettings.startScenesOnNewPage ?? false,
+      customPageSize: resolveCustomPageSize(projectSettings.customPageSize),
       projectLogoUrl: projectSettings.projectLogoUrl ?? null,
       projectLogoFile: null,
       projectLogoDataUrl: projectSettings.projectLogoUrl?.startsWith('data:')
@@ -542,6 +549,9 @@ export class CloudSyncService {
           clientAgency: projectStore.clientAgency,
           jobInfo: projectStore.jobInfo,
           pageSizeMode: projectStore.pageSizeMode,
+          scenes: projectStore.scenes,
+          startScenesOnNewPage: projectStore.startScenesOnNewPage,
+          customPageSize: projectStore.customPageSize,
           templateSettings: projectStore.templateSettings,
           storyboardTheme: projectStore.storyboardTheme
         },
@@ -1053,8 +1063,8 @@ export class CloudSyncService {
         const blob = await response.blob();
         const file = new File([blob], `shot-${shotId}.png`, { type: 'image/png' });
         
-        // Upload to Supabase Storage
-        const imageUrl = await StorageService.uploadImage(projectId, shotId, file);
+        // Upload to Supabase Storage under the active take's key
+        const imageUrl = await StorageService.uploadImage(projectId, getShotImageStorageKey(shot), file);
         
         // Update shot in store with new URL and remove base64
         const shotStore = useShotStore.getState();
@@ -1226,6 +1236,9 @@ export class CloudSyncService {
         clientAgency: projectStore.clientAgency,
         jobInfo: projectStore.jobInfo,
         pageSizeMode: projectStore.pageSizeMode,
+        scenes: projectStore.scenes,
+        startScenesOnNewPage: projectStore.startScenesOnNewPage,
+        customPageSize: projectStore.customPageSize,
         templateSettings: projectStore.templateSettings,
         storyboardTheme: projectStore.storyboardTheme
       },
@@ -1532,6 +1545,8 @@ export class CloudSyncService {
           clientAgency: 'Client/Agency',
           jobInfo: 'Job Info',
           pageSizeMode: 'dynamic',
+          scenes: {},
+          startScenesOnNewPage: false,
           templateSettings: {
             showLogo: false,
             showProjectName: true,
@@ -1540,8 +1555,22 @@ export class CloudSyncService {
             showJobInfo: true,
             showActionText: true,
             showScriptText: true,
+            showCameraDetails: false,
+            showReviewStatus: false,
+            showOmittedShots: true,
             showPageNumber: true,
+            pageNumberFormat: 'page',
+            showFooterText: false,
+            footerText: '',
+            showFooterDate: false,
+            showRevision: false,
+            revisionLabel: '',
             shotNumberFormat: '01',
+            sceneNumberFormat: 'SC01',
+            customFields: [],
+            headerLayout: 'split',
+            logoPlacement: 'left',
+            headerFields: [],
           },
           storyboardTheme: normalizeProjectSettings(undefined).storyboardTheme,
         },
@@ -20,6 +20,8 @@ export interface ProjectOpenState {
   projectKind?: ProjectKind;
 }
 
+const PROJECT_OPEN_REQUEST_EVENT = 'sbflow:project-open-request';
+
 const getProjectKind = (project: {
   isCloudOnly?: boolean;
   isCloudBacked?: boolean;
@@ -102,3 +104,20 @@ export const getProjectOpenState = async (
 
   return { allowed: true, projectKind };
 };
+
+/**
+ * Asks the project dropdown to open a project, so every entry point (such as
+ * the command palette) goes through its open gate and loading flow.
+ */
+export const requestProjectOpen = (projectId: string): void => {
+  window.dispatchEvent(new CustomEvent(PROJECT_OPEN_REQUEST_EVENT, { detail: { projectId } }));
+};
+
+export const onProjectOpenRequest = (handler: (projectId: string) => void): (() => void) => {
+  const listener = (event: Event) => {
+    const projectId = (event as CustomEvent).detail?.projectId;
+    if (typeof projectId === 'string') handler(projectId);
+  };
+  window.addEventListener(PROJECT_OPEN_REQUEST_EVENT, listener);
+  return () => window.removeEventListener(PROJECT_OPEN_REQUEST_EVENT, listener);
+};
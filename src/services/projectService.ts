@@ -3,7 +3,8 @@ import { SecurityNotificationService } from './securityNotificationService';
 import { DataValidator } from '@/utils/dataValidator';
 import { StoryboardTheme } from '@/styles/storyboardTheme';
 import { useProjectManagerStore } from '@/store/projectManagerStore';
-import type { PageSizeMode } from '@/utils/pageSize';
+import type { CustomPageSize, PageSizeMode } from '@/utils/pageSize';
+import type { Scene } from '@/utils/scenes';
 import { normalizeProjectSettings } from '@/utils/projectSettings';
 
 export class UpgradeRequiredError extends Error {
@@ -58,6 +59,9 @@ export interface ProjectData {
     clientAgency: any;
     jobInfo: any;
     pageSizeMode?: PageSizeMode;
+    scenes?: Record<string, Scene>;
+    startScenesOnNewPage?: boolean;
+    customPageSize?: CustomPageSize;
     templateSettings: any;
     storyboardTheme?: StoryboardTheme; // Optional for backwards compatibility
   };
@@ -137,6 +141,8 @@ export class ProjectService {
           clientAgency: 'Client/Agency',
           jobInfo: 'Job Info',
           pageSizeMode: 'dynamic',
+          scenes: {},
+          startScenesOnNewPage: false,
           templateSettings: {
             showLogo: false,
             showProjectName: true,
@@ -145,8 +151,22 @@ export class ProjectService {
             showJobInfo: true,
             showActionText: true,
             showScriptText: true,
+            showCameraDetails: false,
+            showReviewStatus: false,
+            showOmittedShots: true,
             showPageNumber: true,
+            pageNumberFormat: 'page',
+            showFooterText: false,
+            footerText: '',
+            showFooterDate: false,
+            showRevision: false,
+            revisionLabel: '',
             shotNumberFormat: '01',
+            sceneNumberFormat: 'SC01',
+            customFields: [],
+            headerLayout: 'split',
+            logoPlacement: 'left',
+            headerFields: [],
           },
           storyboardTheme: normalizeProjectSettings(undefined).storyboardTheme,
         },
@@ -192,7 +192,16 @@ export class StorageService {
         console.error('Error fetching image record:', fetchError)
         throw fetchError
       }
-      
+
+      // Cleanup of a replaced image can run after the shot uploaded a newer
+      // one under the same key; then only the replaced file goes
+      const urlPath = imageUrl?.match(/project-images\/(.+)$/)?.[1]
+      if (urlPath && imageRecord?.storage_path && imageRecord.storage_path !== urlPath) {
+        console.log(`Deleting replaced image from storage: ${urlPath}`)
+        await this.deleteImage(urlPath)
+        return
+      }
+
       // If we found a record, delete the file from storage
       if (imageRecord?.storage_path) {
         console.log(`Deleting image from storage: ${imageRecord.storage_path}`)
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { beginHistoryStep, endHistoryStep, useHistoryStore } from './historyStore';
+import { useProjectStore } from './projectStore';
+import { runWhenUndoExpires } from '@/utils/historyCleanup';
+
+const setProjectName = (name: string, reason = 'set_project_name') => {
+  beginHistoryStep(reason);
+  useProjectStore.getState().setProjectName(name);
+  endHistoryStep();
+};
+
+const projectName = () => useProjectStore.getState().projectName;
+
+describe('historyStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useHistoryStore.getState().clearHistory();
+    useProjectStore.setState({ projectName: 'Start' });
+  });
+
+  afterEach(() => {
+    useHistoryStore.getState().clearHistory();
+    vi.useRealTimers();
+  });
+
+  it('undoes and redoes a recorded step', () => {
+    setProjectName('Edited');
+
+    expect(useHistoryStore.getState().undo()).toBe('set_project_name');
+    expect(projectName()).toBe('Start');
+
+    expect(useHistoryStore.getState().redo()).toBe('set_project_name');
+    expect(projectName()).toBe('Edited');
+  });
+
+  it('skips steps that change nothing', () => {
+    beginHistoryStep('set_project_name');
+    endHistoryStep();
+
+    expect(useHistoryStore.getState().past).toHaveLength(0);
+  });
+
+  it('folds nested steps into the outermost one', () => {
+    beginHistoryStep('outer');
+    setProjectName('Inner', 'inner');
+    useProjectStore.getState().setProjectName('Outer');
+    endHistoryStep();
+
+    const { past } = useHistoryStore.getState();
+    expect(past).toHaveLength(1);
+    expect(past[0].reason).toBe('outer');
+  });
+
+  it('coalesces rapid repeats of a coalescible intent', () => {
+    setProjectName('E');
+    vi.advanceTimersByTime(500);
+    setProjectName('Ed');
+
+    expect(useHistoryStore.getState().past).toHaveLength(1);
+    useHistoryStore.getState().undo();
+    expect(projectName()).toBe('Start');
+  });
+
+  it('records separate steps once the coalesce window has passed', () => {
+    setProjectName('E');
+    vi.advanceTimersByTime(1500);
+    setProjectName('Ed');
+
+    expect(useHistoryStore.getState().past).toHaveLength(2);
+  });
+
+  it('does not coalesce other intents', () => {
+    setProjectName('E', 'add_page');
+    setProjectName('Ed', 'add_page');
+
+    expect(useHistoryStore.getState().past).toHaveLength(2);
+  });
+
+  it('clears the redo stack when a new step is recorded', () => {
+    setProjectName('Edited');
+    useHistoryStore.getState().undo();
+    setProjectName('Other', 'add_page');
+
+    expect(useHistoryStore.getState().future).toHaveLength(0);
+    expect(useHistoryStore.getState().redo()).toBeNull();
+  });
+
+  it('keeps at most 100 steps', () => {
+    for (let index = 0; index < 105; index += 1) {
+      setProjectName(`Name ${index}`, 'add_page');
+    }
+
+    expect(useHistoryStore.getState().past).toHaveLength(100);
+  });
+
+  describe('cleanups', () => {
+    const deleteWithCleanup = (cleanup: () => void) => {
+      beginHistoryStep('delete_shot');
+      useProjectStore.getState().setProjectName(`${projectName()}!`);
+      runWhenUndoExpires(cleanup);
+      endHistoryStep();
+    };
+
+    it('runs immediately outside a history step', () => {
+      const cleanup = vi.fn();
+      runWhenUndoExpires(cleanup);
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits while the step can be undone and runs when history is cleared', () => {
+      const cleanup = vi.fn();
+      deleteWithCleanup(cleanup);
+
+      expect(cleanup).not.toHaveBeenCalled();
+      useHistoryStore.getState().clearHistory();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('travels with the step through undo and redo', () => {
+      const cleanup = vi.fn();
+      deleteWithCleanup(cleanup);
+      useHistoryStore.getState().undo();
+      useHistoryStore.getState().redo();
+
+      expect(cleanup).not.toHaveBeenCalled();
+      useHistoryStore.getState().clearHistory();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('is dropped when an undone step is discarded', () => {
+      const cleanup = vi.fn();
+      deleteWithCleanup(cleanup);
+      useHistoryStore.getState().undo();
+      setProjectName('Other', 'add_page');
+      useHistoryStore.getState().clearHistory();
+
+      expect(cleanup).not.toHaveBeenCalled();
+    });
+
+    it('runs when its step falls off the undo stack', () => {
+      const cleanup = vi.fn();
+      deleteWithCleanup(cleanup);
+      for (let index = 0; index < 100; index += 1) {
+        setProjectName(`Name ${index}`, 'add_page');
+      }
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs at once when the step changes nothing', () => {
+      const cleanup = vi.fn();
+      beginHistoryStep('delete_shot');
+      runWhenUndoExpires(cleanup);
+      endHistoryStep();
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
+});
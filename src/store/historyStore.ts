@@ -0,0 +1,232 @@
+import { create } from 'zustand';
+import { usePageStore, type PageState } from './pageStore';
+import { useShotStore, type ShotState } from './shotStore';
+import { useProjectStore, type ProjectState } from './projectStore';
+import { markDirty } from '@/utils/autoSave';
+import { registerHistoryCleanup, runHistoryCleanups, type HistoryCleanup } from '@/utils/historyCleanup';
+
+/**
+ * Undo/Redo History
+ *
+ * Records one entry per outermost `runIntent` in useAppStore. Store state is
+ * produced by immer, so snapshots hold frozen references rather than copies and
+ * "did anything change" is a cheap reference comparison.
+ *
+ * The project logo is intentionally excluded: logo blob URLs are revoked when
+ * replaced, so restoring an old reference would render a broken image.
+ *
+ * Shot images are kept in storage while a step that removed them can still be
+ * undone; their deletion travels with the step (see utils/historyCleanup).
+ */
+
+const MAX_HISTORY_ENTRIES = 100;
+
+// Rapid repeats of these intents (typing, colour picker drags) collapse into one step
+const COALESCE_WINDOW_MS = 1000;
+const COALESCIBLE_REASONS = new Set([
+  'update_shot',
+  'set_project_name',
+  'set_project_info',
+  'set_client_agency',
+  'set_job_info',
+  'set_storyboard_theme',
+  'rename_scene',
+]);
+
+type ProjectSnapshot = Pick<
+  ProjectState,
+  | 'projectName'
+  | 'projectInfo'
+  | 'clientAgency'
+  | 'jobInfo'
+  | 'pageSizeMode'
+  | 'customPageSize'
+  | 'scenes'
+  | 'startScenesOnNewPage'
+  | 'templateSettings'
+  | 'storyboardTheme'
+>;
+
+interface HistorySnapshot {
+  page: Pick<PageState, 'pages' | 'activePageId'>;
+  shot: Pick<ShotState, 'shots' | 'shotOrder'>;
+  project: ProjectSnapshot;
+}
+
+export interface HistoryEntry {
+  reason: string;
+  snapshot: HistorySnapshot;
+  recordedAt: number;
+  cleanups?: HistoryCleanup[]; // Run once the step can no longer be undone
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+interface HistoryActions {
+  undo: () => string | null;
+  redo: () => string | null;
+  clearHistory: () => void;
+}
+
+export type HistoryStore = HistoryState & HistoryActions;
+
+const captureSnapshot = (): HistorySnapshot => {
+  const { pages, activePageId } = usePageStore.getState();
+  const { shots, shotOrder } = useShotStore.getState();
+  const project = useProjectStore.getState();
+
+  return {
+    page: { pages, activePageId },
+    shot: { shots, shotOrder },
+    project: {
+      projectName: project.projectName,
+      projectInfo: project.projectInfo,
+      clientAgency: project.clientAgency,
+      jobInfo: project.jobInfo,
+      pageSizeMode: project.pageSizeMode,
+      customPageSize: project.customPageSize,
+      scenes: project.scenes,
+      startScenesOnNewPage: project.startScenesOnNewPage,
+      templateSettings: project.templateSettings,
+      storyboardTheme: project.storyboardTheme,
+    },
+  };
+};
+
+const isSameSnapshot = (a: HistorySnapshot, b: HistorySnapshot): boolean => {
+  const slices = ['page', 'shot', 'project'] as const;
+  return slices.every((slice) => {
+    const left = a[slice] as Record<string, unknown>;
+    const right = b[slice] as Record<string, unknown>;
+    return Object.keys(left).every((key) => left[key] === right[key]);
+  });
+};
+
+const applySnapshot = (snapshot: HistorySnapshot) => {
+  usePageStore.setState(snapshot.page);
+  useShotStore.setState(snapshot.shot);
+  useProjectStore.setState(snapshot.project);
+};
+
+const mergeCleanups = (
+  earlier: HistoryCleanup[] | undefined,
+  later: HistoryCleanup[] | undefined
+): HistoryCleanup[] | undefined => (earlier || later ? [...(earlier ?? []), ...(later ?? [])] : undefined);
+
+let stepDepth = 0;
+let pendingStep: { reason: string; snapshot: HistorySnapshot; cleanups: HistoryCleanup[] } | null = null;
+let isRestoring = false;
+
+export const useHistoryStore = create<HistoryStore>((set, get) => ({
+  past: [],
+  future: [],
+
+  undo: () => {
+    const { past, future } = get();
+    const entry = past[past.length - 1];
+    if (!entry || stepDepth > 0) return null;
+
+    const current: HistoryEntry = {
+      reason: entry.reason,
+      snapshot: captureSnapshot(),
+      recordedAt: Date.now(),
+      cleanups: entry.cleanups,
+    };
+    isRestoring = true;
+    try {
+      applySnapshot(entry.snapshot);
+    } finally {
+      isRestoring = false;
+    }
+    set({ past: past.slice(0, -1), future: [...future, current] });
+    markDirty('undo', { reason: entry.reason });
+    return entry.reason;
+  },
+
+  redo: () => {
+    const { past, future } = get();
+    const entry = future[future.length - 1];
+    if (!entry || stepDepth > 0) return null;
+
+    const current: HistoryEntry = {
+      reason: entry.reason,
+      snapshot: captureSnapshot(),
+      recordedAt: Date.now(),
+      cleanups: entry.cleanups,
+    };
+    isRestoring = true;
+    try {
+      applySnapshot(entry.snapshot);
+    } finally {
+      isRestoring = false;
+    }
+    set({ past: [...past, current], future: future.slice(0, -1) });
+    markDirty('redo', { reason: entry.reason });
+    return entry.reason;
+  },
+
+  clearHistory: () => {
+    // Undone steps are dropped with their cleanups: that data is back in use
+    const { past } = get();
+    const unfinished = pendingStep?.cleanups;
+    stepDepth = 0;
+    pendingStep = null;
+    set({ past: [], future: [] });
+    past.forEach((entry) => runHistoryCleanups(entry.cleanups));
+    runHistoryCleanups(unfinished);
+  },
+}));
+
+/**
+ * Open a history step. Nested calls fold into the outermost step.
+ */
+export const beginHistoryStep = (reason: string) => {
+  if (isRestoring) return;
+  stepDepth += 1;
+  if (stepDepth === 1) {
+    pendingStep = { reason, snapshot: captureSnapshot(), cleanups: [] };
+  }
+};
+
+/**
+ * Close a history step, recording it only if the stores actually changed.
+ */
+export const endHistoryStep = () => {
+  if (isRestoring || stepDepth === 0) return;
+  stepDepth -= 1;
+  if (stepDepth > 0 || !pendingStep) return;
+
+  const { reason, snapshot, cleanups } = pendingStep;
+  pendingStep = null;
+  if (isSameSnapshot(snapshot, captureSnapshot())) {
+    runHistoryCleanups(cleanups);
+    return;
+  }
+
+  const now = Date.now();
+  const { past } = useHistoryStore.getState();
+  const previous = past[past.length - 1];
+  const shouldCoalesce =
+    previous &&
+    previous.reason === reason &&
+    COALESCIBLE_REASONS.has(reason) &&
+    now - previous.recordedAt < COALESCE_WINDOW_MS;
+
+  const stepCleanups = cleanups.length > 0 ? cleanups : undefined;
+  const recorded = shouldCoalesce
+    ? [...past.slice(0, -1), { ...previous, recordedAt: now, cleanups: mergeCleanups(previous.cleanups, stepCleanups) }]
+    : [...past, { reason, snapshot, recordedAt: now, cleanups: stepCleanups }];
+  const expired = recorded.slice(0, -MAX_HISTORY_ENTRIES);
+
+  useHistoryStore.setState({ past: recorded.slice(-MAX_HISTORY_ENTRIES), future: [] });
+  expired.forEach((entry) => runHistoryCleanups(entry.cleanups));
+};
+
+registerHistoryCleanup((cleanup) => {
+  if (!pendingStep || isRestoring) return false;
+  pendingStep.cleanups.push(cleanup);
+  return true;
+});
@@ -1,10 +1,11 @@
 // Store exports
 export { usePageStore, type PageStore, type StoryboardPage } from './pageStore';
-export { useShotStore, type ShotStore, type Shot } from './shotStore';
+export { useShotStore, type ShotStore, type Shot, type ImageEditField } from './shotStore';
 export { useProjectStore, type ProjectStore, type TemplateSettings, type ProjectState } from './projectStore';
-export type { PageSizeMode } from '@/utils/pageSize';
+export type { CustomPageSize, PageSizeMode } from '@/utils/pageSize';
 export { useUIStore, type UIStore } from './uiStore';
 export { useProjectManagerStore, type ProjectManagerStore, type ProjectMetadata } from './projectManagerStore';
+export { useHistoryStore, type HistoryStore, type HistoryEntry } from './historyStore';
 
 // Performance optimization exports
 export { renumberingOptimizer } from '@/utils/renumberingOptimizer';
@@ -12,10 +13,11 @@ export { createBatch, batchUtils, type BatchShotOperations } from '@/utils/batch
 
 // Unified app store that combines all modular stores
 import { usePageStore } from './pageStore';
-import { useShotStore, type Shot } from './shotStore';
+import { useShotStore, type ImageEditField, type Shot } from './shotStore';
 import { useProjectStore } from './projectStore';
 import { useUIStore } from './uiStore';
 import { useProjectManagerStore } from './projectManagerStore';
+import { useHistoryStore, beginHistoryStep, endHistoryStep } from './historyStore';
 import { useShallow } from 'zustand/react/shallow';
 import ProjectSwitcher from '@/utils/projectSwitcher';
 import { registerAutoSave, beginIntent, endIntent } from '@/utils/autoSave';
@@ -36,7 +38,27 @@ import {
   trackTemplateChanged,
   trackThemeApplied,
 } from '@/services/analytics/configTracking';
-import type { PageSizeMode } from '@/utils/pageSize';
+import type { CustomPageSize, PageSizeMode } from '@/utils/pageSize';
+import { getShotSceneId, planPageSlices, resolveLandingSceneId } from '@/utils/scenes';
+import type { CustomShotField } from '@/utils/customFields';
+import type { HeaderField } from '@/utils/headerLayout';
+import {
+  buildFindPattern,
+  findMatches,
+  getFindReplaceSources,
+  replaceAllMatches,
+  type FindReplaceOptions,
+} from '@/utils/findReplace';
+import {
+  orderShotIds,
+  planShotGrouping,
+  planShotSelectionMove,
+  planShotSelectionMoveToPage,
+  planShotUngrouping,
+  type ShotOrderPlan,
+} from '@/utils/shotSelection';
+import { getClearedImageUpdates, getImageFramingUpdates } from '@/utils/imageTakes';
+import { getShotPasteIndex } from '@/utils/shotClipboard';
 
 // Extend window interface for auto-save timeout
 declare global {
@@ -52,6 +74,29 @@ const getProjectStore = () => useProjectStore.getState();
 const getUIStore = () => useUIStore.getState();
 const getProjectManagerStore = () => useProjectManagerStore.getState();
 
+// New and moved shots join the scene they land in (see resolveLandingSceneId)
+const assignLandingScene = (shotIds: string[]) => {
+  const { shotOrder, shots, updateShot } = getShotStore();
+  const [firstShotId] = shotIds;
+  if (!firstShotId) return;
+
+  const sceneId = resolveLandingSceneId(shotOrder, shots, firstShotId, new Set(shotIds));
+  shotIds.forEach((shotId) => {
+    if (shots[shotId] && getShotSceneId(shots[shotId]) !== sceneId) {
+      updateShot(shotId, { sceneId });
+    }
+  });
+};
+
+// Applies a bulk reorder/regroup from utils/shotSelection
+const applyShotOrderPlan = (plan: ShotOrderPlan) => {
+  const { setShotOrder, updateShot } = getShotStore();
+  setShotOrder(plan.shotOrder);
+  Object.entries(plan.groupUpdates).forEach(([shotId, subShotGroupId]) => {
+    updateShot(shotId, { subShotGroupId });
+  });
+};
+
 // Unified store hook that provides access to all stores
 export const useAppStore = () => {
   const pageStore = usePageStore();
@@ -59,13 +104,17 @@ export const useAppStore = () => {
   const projectStore = useProjectStore();
   const uiStore = useUIStore();
   const projectManagerStore = useProjectManagerStore();
+  const canUndo = useHistoryStore((state) => state.past.length > 0);
+  const canRedo = useHistoryStore((state) => state.future.length > 0);
   const runIntent = <T>(reason: string, fn: () => T): T => {
     const trackFirstShot = reason === 'add_shot' || reason === 'create_shot';
     const beforeShotCount = trackFirstShot ? getShotStore().shotOrder.length : 0;
     beginIntent(reason);
+    beginHistoryStep(reason);
     try {
       return fn();
     } finally {
+      endHistoryStep();
       endIntent(reason);
       if (trackFirstShot) {
         trackFirstShotAddedAfterIntent(reason, beforeShotCount);
@@ -77,37 +126,32 @@ export const useAppStore = () => {
   
   // Enhanced redistribution function that handles both overflow and backflow
   const redistributeShotsAcrossPages = () => {
-    const { shotOrder } = getShotStore();
+    const { shotOrder, shots } = getShotStore();
     const { pages } = getPageStore();
     
     console.log('redistributeShotsAcrossPages called:', { shotCount: shotOrder.length, pageCount: pages.length });
     
     if (pages.length === 0 || shotOrder.length === 0) return;
     
-    // Calculate page capacity (all pages now have the same grid)
-    const firstPage = pages[0];
-    const pageCapacity = firstPage.gridRows * firstPage.gridCols;
+    // Plan page contents; each page fills to its own grid. Scenes can end a page early.
+    const pageSlices = planPageSlices(shotOrder, shots, pages, getProjectStore().startScenesOnNewPage);
     
-    console.log('Page capacity:', pageCapacity, 'Total capacity:', pages.length * pageCapacity);
+    console.log('Page capacities:', pages.map(page => page.gridRows * page.gridCols), 'Pages needed:', pageSlices.length);
     
     // Handle overflow: create additional pages if needed BEFORE redistribution
-    const totalCapacity = pages.length * pageCapacity;
-    if (shotOrder.length > totalCapacity) {
+    if (pageSlices.length > pages.length) {
       console.log('Overflow detected, creating new pages');
-      const shotsPerPage = pageCapacity;
-      const pagesNeeded = Math.ceil(shotOrder.length / shotsPerPage);
+      const pagesNeeded = pageSlices.length;
       const currentPageCount = pages.length;
       
       console.log('Creating pages:', currentPageCount, 'to', pagesNeeded);
       for (let i = currentPageCount; i < pagesNeeded; i++) {
         const newPageId = pageStore.createPage(`Page ${i + 1}`);
         
-        // Apply the same grid settings as existing pages (global setting)
-        if (pages.length > 0) {
-          const firstPage = pages[0];
-          pageStore.updateGridSize(newPageId, firstPage.gridRows, firstPage.gridCols);
-          pageStore.updatePageAspectRatio(newPageId, firstPage.aspectRatio);
-        }
+        // Overflow pages continue the last page's layout, as planPageSlices assumed
+        const lastPage = pages[pages.length - 1];
+        pageStore.updateGridSize(newPageId, lastPage.gridRows, lastPage.gridCols);
+        pageStore.updatePageAspectRatio(newPageId, lastPage.aspectRatio);
         
         console.log('Created page:', newPageId);
       }
@@ -128,11 +172,9 @@ export const useAppStore = () => {
     // NEW APPROACH: Use shotOrder as source of truth, distribute to pages
     // DO NOT clear pages first - just update them based on shotOrder
     currentPages.forEach((page, pageIndex) => {
-      const startIndex = pageIndex * pageCapacity;
-      const endIndex = startIndex + pageCapacity;
-      const pageShotIds = shotOrder.slice(startIndex, endIndex);
+      const pageShotIds = pageSlices[pageIndex] ?? [];
       
-      console.log(`Page ${pageIndex + 1} (${page.id}): shots ${startIndex}-${endIndex-1} (${pageShotIds.length})`, pageShotIds);
+      console.log(`Page ${pageIndex + 1} (${page.id}): ${pageShotIds.length} shots`, pageShotIds);
       
       // Update the page's shots array to match shotOrder
       pageStore.reorderShotsInPage(page.id, pageShotIds);
@@ -187,7 +229,7 @@ export const useAppStore = () => {
     // Project pages strictly from shotOrder and renumber once
     redistributeShotsAcrossPages();
     const { templateSettings } = getProjectStore();
-    shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+    shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
   };
 
   return {
@@ -199,11 +241,11 @@ export const useAppStore = () => {
         const { pages } = getPageStore();
         const pageId = pageStore.createPage(name); // Automatic numbering handled in pageStore
         
-        // Apply the same grid settings as existing pages (global setting)
+        // A new page starts with the last page's layout
         if (pages.length > 0) {
-          const firstPage = pages[0];
-          pageStore.updateGridSize(pageId, firstPage.gridRows, firstPage.gridCols);
-          pageStore.updatePageAspectRatio(pageId, firstPage.aspectRatio);
+          const lastPage = pages[pages.length - 1];
+          pageStore.updateGridSize(pageId, lastPage.gridRows, lastPage.gridCols);
+          pageStore.updatePageAspectRatio(pageId, lastPage.aspectRatio);
         }
         
         return pageId;
@@ -225,7 +267,7 @@ export const useAppStore = () => {
         
         // Renumber remaining shots
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
         
         // Redistribute remaining shots across pages
         redistributeShotsAcrossPages();
@@ -241,9 +283,7 @@ export const useAppStore = () => {
       const newLayout = formatGridLayout(cols, rows);
 
       const result = runIntent('update_grid', () => {
-        pages.forEach(page => {
-          pageStore.updateGridSize(page.id, rows, cols);
-        });
+        pageStore.updateGridSize(pageId, rows, cols);
         setTimeout(() => redistributeShotsAcrossPages(), 0);
       });
 
@@ -256,14 +296,26 @@ export const useAppStore = () => {
       const oldAspectRatio = referencePage?.aspectRatio ?? '16/9';
 
       const result = runIntent('update_aspect_ratio', () => {
-        pages.forEach(page => {
-          pageStore.updatePageAspectRatio(page.id, aspectRatio);
-        });
+        pageStore.updatePageAspectRatio(pageId, aspectRatio);
       });
 
       trackAspectRatioChanged(oldAspectRatio, aspectRatio);
       return result;
     },
+    // Gives every page the grid and aspect ratio of the given page
+    applyPageLayoutToAllPages: (pageId: string) => {
+      return runIntent('apply_layout_to_all_pages', () => {
+        const { pages } = getPageStore();
+        const sourcePage = pages.find(page => page.id === pageId);
+        if (!sourcePage) return;
+
+        pages.forEach(page => {
+          pageStore.updateGridSize(page.id, sourcePage.gridRows, sourcePage.gridCols);
+          pageStore.updatePageAspectRatio(page.id, sourcePage.aspectRatio);
+        });
+        redistributeShotsAcrossPages();
+      });
+    },
     getActivePage: pageStore.getActivePage,
     getPageById: pageStore.getPageById,
     addShotToPage: pageStore.addShotToPage,
@@ -276,9 +328,10 @@ export const useAppStore = () => {
     createShot: () => {
       return runIntent('create_shot', () => {
         const shotId = shotStore.createShot();
+        assignLandingScene([shotId]);
         // Renumber shots after creation
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
         return shotId;
       });
     },
@@ -297,7 +350,7 @@ export const useAppStore = () => {
         
         // Renumber shots after deletion
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
         
         // Redistribute remaining shots across pages
         redistributeShotsAcrossPages();
@@ -314,7 +367,7 @@ export const useAppStore = () => {
     },
     applyImageEdit: (
       shotId: string,
-      updates: Pick<Shot, 'imageScale' | 'imageOffsetX' | 'imageOffsetY'>,
+      updates: Pick<Shot, ImageEditField>,
     ) => {
       const beforeShot = getShotStore().shots[shotId];
       const beforeSnapshot = beforeShot ? { ...beforeShot } : undefined;
@@ -329,7 +382,7 @@ export const useAppStore = () => {
         const newShotId = shotStore.duplicateShot(shotId);
         // Renumber shots after duplication
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
         return newShotId;
       });
     },
@@ -338,7 +391,7 @@ export const useAppStore = () => {
         const subShotId = shotStore.createSubShot(originalShotId);
         // Renumber shots after sub-shot creation
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
         return subShotId;
       });
     },
@@ -347,7 +400,7 @@ export const useAppStore = () => {
         shotStore.removeFromSubGroup(shotId);
         // Renumber shots after removing from sub-group
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
       });
     },
     setShotOrder: (shotIds: string[]) => {
@@ -355,19 +408,19 @@ export const useAppStore = () => {
         shotStore.setShotOrder(shotIds);
         // Renumber shots after reordering
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
       });
     },
     renumberAllShots: () => {
       return runIntent('renumber_shots', () => {
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShots(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShots(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
       });
     },
     renumberAllShotsImmediate: () => {
       return runIntent('renumber_shots', () => {
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
       });
     },
     getShotById: shotStore.getShotById,
@@ -376,9 +429,10 @@ export const useAppStore = () => {
     insertShotIntoSubGroup: (shotId: string, targetGroupId: string, insertPosition: number) => {
       return runIntent('insert_sub_group', () => {
         shotStore.insertShotIntoSubGroup(shotId, targetGroupId, insertPosition);
+        assignLandingScene([shotId]);
         // Renumber shots after inserting into sub-group
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
         // Redistribute shots across pages to update visual positions
         redistributeShotsAcrossPages();
       });
@@ -393,6 +447,9 @@ export const useAppStore = () => {
     clientAgency: projectStore.clientAgency,
     jobInfo: projectStore.jobInfo,
     pageSizeMode: projectStore.pageSizeMode,
+    customPageSize: projectStore.customPageSize,
+    scenes: projectStore.scenes,
+    startScenesOnNewPage: projectStore.startScenesOnNewPage,
     templateSettings: projectStore.templateSettings,
     storyboardTheme: projectStore.storyboardTheme,
     setProjectName: (name: string) => {
@@ -420,14 +477,141 @@ export const useAppStore = () => {
         projectStore.setJobInfo(info);
       });
     },
-    setPageSizeMode: (mode: PageSizeMode) => {
+    replaceAllText: (query: string, replacement: string, options: FindReplaceOptions) => {
+      // One intent for the whole board: a single undo step and a single autosave
+      return runIntent('find_replace', () => {
+        const { pattern } = buildFindPattern(query, options);
+        if (!pattern) return 0;
+
+        const { shots, shotOrder } = getShotStore();
+        const { projectName, projectInfo, clientAgency, jobInfo } = getProjectStore();
+        const sources = getFindReplaceSources({
+          shots,
+          shotOrder,
+          pages: getPageStore().pages,
+          project: { projectName, projectInfo, clientAgency, jobInfo },
+        });
+
+        let replacedCount = 0;
+        sources.forEach((source) => {
+          const matchCount = findMatches([source], pattern, replacement, options.useRegex).length;
+          if (matchCount === 0) return;
+          const nextText = replaceAllMatches(source.text, pattern, replacement, options.useRegex);
+          if (nextText === source.text) return;
+          replacedCount += matchCount;
+
+          switch (source.field) {
+            case 'actionText':
+            case 'scriptText':
+              shotStore.updateShot(source.ownerId!, { [source.field]: nextText });
+              break;
+            case 'pageName':
+              pageStore.renamePage(source.ownerId!, nextText);
+              break;
+            case 'projectName':
+              projectStore.setProjectName(nextText);
+              break;
+            case 'projectInfo':
+              projectStore.setProjectInfo(nextText);
+              break;
+            case 'clientAgency':
+              projectStore.setClientAgency(nextText);
+              break;
+            case 'jobInfo':
+              projectStore.setJobInfo(nextText);
+              break;
+          }
+        });
+        return replacedCount;
+      });
+    },
+    setPageSizeMode: (mode: PageSizeMode, customPageSize?: CustomPageSize) => {
       const oldMode = getProjectStore().pageSizeMode;
       const result = runIntent('set_page_size_mode', () => {
+        if (customPageSize) {
+          projectStore.setCustomPageSize(customPageSize);
+        }
         projectStore.setPageSizeMode(mode);
       });
       trackPageSizeChanged(oldMode, mode);
       return result;
     },
+    startSceneAtShot: (shotId: string, name?: string) => {
+      return runIntent('start_scene', () => {
+        const { shotOrder, shots } = getShotStore();
+        let startIndex = shotOrder.indexOf(shotId);
+        if (startIndex === -1) return '';
+
+        // Never split a sub-shot group: the scene starts at the group's first shot
+        const groupId = shots[shotId]?.subShotGroupId;
+        while (groupId && startIndex > 0 && shots[shotOrder[startIndex - 1]]?.subShotGroupId === groupId) {
+          startIndex--;
+        }
+
+        // The new scene takes over the rest of the run it splits
+        const splitSceneId = getShotSceneId(shots[shotOrder[startIndex]]);
+        const previousSceneId = startIndex > 0 ? getShotSceneId(shots[shotOrder[startIndex - 1]]) : null;
+        if (splitSceneId && splitSceneId !== previousSceneId) {
+          return splitSceneId; // Already the first shot of its scene
+        }
+        const sceneId = projectStore.createScene(name);
+        for (let i = startIndex; i < shotOrder.length; i++) {
+          if (getShotSceneId(shots[shotOrder[i]]) !== splitSceneId) break;
+          shotStore.updateShot(shotOrder[i], { sceneId });
+        }
+
+        const { templateSettings } = getProjectStore();
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
+        redistributeShotsAcrossPages();
+        return sceneId;
+      });
+    },
+    setShotNumberLocked: (shotId: string, locked: boolean) => {
+      return runIntent('set_shot_number_locked', () => {
+        shotStore.updateShot(shotId, { numberLocked: locked });
+        const { templateSettings } = getProjectStore();
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
+      });
+    },
+    // Manual page break before the shot; redistribution leaves the rest of the
+    // previous page empty
+    setPageBreakBefore: (shotId: string, enabled: boolean) => {
+      return runIntent('set_page_break', () => {
+        shotStore.updateShot(shotId, { pageBreakBefore: enabled });
+        redistributeShotsAcrossPages();
+      });
+    },
+    renameScene: (sceneId: string, name: string) => {
+      return runIntent('rename_scene', () => {
+        projectStore.renameScene(sceneId, name);
+      });
+    },
+    removeScene: (sceneId: string) => {
+      return runIntent('remove_scene', () => {
+        // Shots rejoin whatever comes before their run (or no scene at the start of the board)
+        const { shotOrder, shots } = getShotStore();
+        let mergeSceneId: string | null = null;
+        shotOrder.forEach((id, index) => {
+          if (getShotSceneId(shots[id]) !== sceneId) return;
+          const previousSceneId = index > 0 ? getShotSceneId(shots[shotOrder[index - 1]]) : null;
+          if (previousSceneId !== sceneId) {
+            mergeSceneId = previousSceneId;
+          }
+          shotStore.updateShot(id, { sceneId: mergeSceneId });
+        });
+        projectStore.deleteScene(sceneId);
+
+        const { templateSettings } = getProjectStore();
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
+        redistributeShotsAcrossPages();
+      });
+    },
+    setStartScenesOnNewPage: (enabled: boolean) => {
+      return runIntent('set_start_scenes_on_new_page', () => {
+        projectStore.setStartScenesOnNewPage(enabled);
+        redistributeShotsAcrossPages();
+      });
+    },
     setTemplateSetting: (setting: keyof typeof projectStore.templateSettings, value: boolean | string) => {
       const oldSignature = getTemplateSignature(getProjectStore().templateSettings);
       const oldShotNumberFormat =
@@ -462,6 +646,50 @@ export const useAppStore = () => {
       trackTemplateChanged(oldSignature, getTemplateSignature(getProjectStore().templateSettings));
       return result;
     },
+    addCustomField: (name: string) => {
+      return runIntent('add_custom_field', () => projectStore.addCustomField(name));
+    },
+    updateCustomField: (fieldId: string, updates: Partial<Omit<CustomShotField, 'id'>>) => {
+      return runIntent('update_custom_field', () => {
+        projectStore.updateCustomField(fieldId, updates);
+      });
+    },
+    moveCustomField: (fieldId: string, offset: number) => {
+      return runIntent('move_custom_field', () => {
+        projectStore.moveCustomField(fieldId, offset);
+      });
+    },
+    removeCustomField: (fieldId: string) => {
+      return runIntent('remove_custom_field', () => {
+        // Values go with the field so a new field never inherits stale text
+        const { shots } = getShotStore();
+        Object.values(shots).forEach((shot) => {
+          const values = shot.customFieldValues;
+          if (!values || !(fieldId in values)) return;
+          const { [fieldId]: _removed, ...rest } = values;
+          shotStore.updateShot(shot.id, { customFieldValues: rest });
+        });
+        projectStore.deleteCustomField(fieldId);
+      });
+    },
+    addHeaderField: (label: string) => {
+      return runIntent('add_header_field', () => projectStore.addHeaderField(label));
+    },
+    updateHeaderField: (fieldId: string, updates: Partial<Omit<HeaderField, 'id'>>) => {
+      return runIntent('update_header_field', () => {
+        projectStore.updateHeaderField(fieldId, updates);
+      });
+    },
+    moveHeaderField: (fieldId: string, offset: number) => {
+      return runIntent('move_header_field', () => {
+        projectStore.moveHeaderField(fieldId, offset);
+      });
+    },
+    removeHeaderField: (fieldId: string) => {
+      return runIntent('remove_header_field', () => {
+        projectStore.deleteHeaderField(fieldId);
+      });
+    },
     setStoryboardTheme: (theme: any) => {
       const previousThemeId = getProjectStore().storyboardTheme?.id;
       const result = runIntent('set_storyboard_theme', () => {
@@ -475,11 +703,23 @@ export const useAppStore = () => {
     isDragging: uiStore.isDragging,
     isExporting: uiStore.isExporting,
     showDeleteConfirmation: uiStore.showDeleteConfirmation,
+    reviewStatusFilter: uiStore.reviewStatusFilter,
     setIsDragging: uiStore.setIsDragging,
     setIsExporting: uiStore.setIsExporting,
     setShowDeleteConfirmation: uiStore.setShowDeleteConfirmation,
+    setReviewStatusFilter: uiStore.setReviewStatusFilter,
+    selectedShotIds: uiStore.selectedShotIds,
+    selectionAnchorId: uiStore.selectionAnchorId,
+    setShotSelection: uiStore.setShotSelection,
+    clearShotSelection: uiStore.clearShotSelection,
     resetUIState: uiStore.resetUIState,
 
+    // Undo/redo (one step per outermost intent)
+    canUndo,
+    canRedo,
+    undo: () => useHistoryStore.getState().undo(),
+    redo: () => useHistoryStore.getState().redo(),
+
     // Utility methods for cross-store operations
     addShot: (pageId: string, position?: number) => {
       return runIntent('add_shot', () => {
@@ -492,21 +732,26 @@ export const useAppStore = () => {
           const pageIndex = pages.findIndex(p => p.id === pageId);
           if (pageIndex !== -1) {
             const page = pages[pageIndex];
-            const pageCapacity = page.gridRows * page.gridCols;
-            const globalPosition = (pageIndex * pageCapacity) + position;
-            
-            // Insert at specific global position
             const { shotOrder } = getShotStore();
             const newShotOrder = [...shotOrder];
             // Remove the shot that was just added to the end
             newShotOrder.pop();
+
+            // Resolve the slot against the page's contents: scenes can leave a page short of its capacity
+            const anchorShotId = page.shots[position] ?? page.shots[page.shots.length - 1];
+            const anchorIndex = anchorShotId ? newShotOrder.indexOf(anchorShotId) : -1;
+            const globalPosition = anchorIndex === -1
+              ? pages.slice(0, pageIndex).reduce((total, p) => total + p.shots.length, 0)
+              : anchorIndex + (page.shots[position] ? 0 : 1);
+            
             // Insert at the correct position
             newShotOrder.splice(globalPosition, 0, shotId);
             shotStore.setShotOrder(newShotOrder);
+            assignLandingScene([shotId]);
             
             // Renumber shots after insertion
             const { templateSettings } = getProjectStore();
-            shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+            shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
             
             // Redistribute shots across pages
             redistributeShotsAcrossPages();
@@ -514,9 +759,10 @@ export const useAppStore = () => {
         } else {
           // Just add to the end of the current page
           pageStore.addShotToPage(pageId, shotId, position);
+          assignLandingScene([shotId]);
           // Renumber shots after adding
           const { templateSettings } = getProjectStore();
-          shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+          shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
           redistributeShotsAcrossPages();
         }
         
@@ -547,7 +793,7 @@ export const useAppStore = () => {
         
         // Renumber shots after adding sub-shot
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
         
         // Redistribute shots across pages to handle overflow
         redistributeShotsAcrossPages();
@@ -580,16 +826,17 @@ export const useAppStore = () => {
         
         // Renumber shots after reordering
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
       });
     },
     
     moveShot: (shotId: string, targetPosition: number) => {
       return runIntent('move_shot', () => {
         shotStore.moveShot(shotId, targetPosition);
+        assignLandingScene([shotId]);
         // Renumber shots after movement
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
         // Automatically redistribute shots across pages after movement
         redistributeShotsAcrossPages();
       });
@@ -598,14 +845,158 @@ export const useAppStore = () => {
     moveShotGroup: (groupId: string, targetPosition: number) => {
       return runIntent('move_shot_group', () => {
         shotStore.moveShotGroup(groupId, targetPosition);
+        const { shotOrder, shots } = getShotStore();
+        assignLandingScene(shotOrder.filter(id => shots[id]?.subShotGroupId === groupId));
         // Renumber shots after movement
         const { templateSettings } = getProjectStore();
-        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
         // Automatically redistribute shots across pages after movement
         redistributeShotsAcrossPages();
       });
     },
     
+    // Bulk actions on a multi-shot selection; each is one undo step
+    deleteShots: (shotIds: string[]) => {
+      return runIntent('delete_shots', () => {
+        const ids = orderShotIds(getShotStore().shotOrder, shotIds);
+        getPageStore().pages.forEach(page => {
+          page.shots.filter(shotId => ids.includes(shotId)).forEach(shotId => {
+            pageStore.removeShotFromPage(page.id, shotId);
+          });
+        });
+        ids.forEach(shotId => shotStore.deleteShot(shotId));
+        uiStore.clearShotSelection();
+
+        const { templateSettings } = getProjectStore();
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
+        redistributeShotsAcrossPages();
+      });
+    },
+
+    duplicateShots: (shotIds: string[]) => {
+      return runIntent('duplicate_shots', () => {
+        // Each copy lands right after its original, as with a single duplicate
+        const newShotIds = orderShotIds(getShotStore().shotOrder, shotIds)
+          .map(shotId => shotStore.duplicateShot(shotId))
+          .filter(Boolean);
+        uiStore.setShotSelection(newShotIds, newShotIds[newShotIds.length - 1] ?? null);
+
+        const { templateSettings } = getProjectStore();
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
+        redistributeShotsAcrossPages();
+        return newShotIds;
+      });
+    },
+
+    // Inserts shots built from the clipboard (see utils/shotClipboard) after
+    // the given shot, or at the end of the page, and selects them
+    pasteShots: (shotData: Array<Partial<Shot>>, pageId: string, afterShotId: string | null) => {
+      return runIntent('paste_shots', () => {
+        const newShotIds = shotData.map(data => shotStore.createShot(data));
+        const pastedIds = new Set(newShotIds);
+        const { shotOrder, shots } = getShotStore();
+        const { pages } = getPageStore();
+        const pageIndex = pages.findIndex(page => page.id === pageId);
+        const pageEndIndex = pages
+          .slice(0, pageIndex === -1 ? pages.length : pageIndex + 1)
+          .reduce((total, page) => total + page.shots.length, 0);
+
+        const newShotOrder = shotOrder.filter(shotId => !pastedIds.has(shotId));
+        const index = getShotPasteIndex(newShotOrder, shots, afterShotId, pageEndIndex);
+        newShotOrder.splice(index, 0, ...newShotIds);
+        shotStore.setShotOrder(newShotOrder);
+        assignLandingScene(newShotIds);
+        uiStore.setShotSelection(newShotIds, newShotIds[newShotIds.length - 1] ?? null);
+
+        const { templateSettings } = getProjectStore();
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
+        redistributeShotsAcrossPages();
+        return newShotIds;
+      });
+    },
+
+    moveShots: (shotIds: string[], overShotId: string) => {
+      return runIntent('move_shots', () => {
+        const { shotOrder, shots } = getShotStore();
+        const plan = planShotSelectionMove(shotOrder, shots, shotIds, overShotId);
+        if (!plan) return;
+
+        applyShotOrderPlan(plan);
+        assignLandingScene(orderShotIds(plan.shotOrder, shotIds));
+        const { templateSettings } = getProjectStore();
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
+        redistributeShotsAcrossPages();
+      });
+    },
+
+    moveShotsToPage: (shotIds: string[], pageId: string) => {
+      return runIntent('move_shots_to_page', () => {
+        const { pages } = getPageStore();
+        const pageIndex = pages.findIndex(page => page.id === pageId);
+        if (pageIndex === -1) return;
+
+        const pageStartIndex = pages.slice(0, pageIndex).reduce((total, page) => total + page.shots.length, 0);
+        const { shotOrder, shots } = getShotStore();
+        const plan = planShotSelectionMoveToPage(shotOrder, shots, shotIds, pageStartIndex);
+        if (!plan) return;
+
+        applyShotOrderPlan(plan);
+        assignLandingScene(orderShotIds(plan.shotOrder, shotIds));
+        const { templateSettings } = getProjectStore();
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
+        redistributeShotsAcrossPages();
+      });
+    },
+
+    groupShots: (shotIds: string[]) => {
+      return runIntent('group_shots', () => {
+        const { shotOrder, shots } = getShotStore();
+        const plan = planShotGrouping(shotOrder, shots, shotIds, crypto.randomUUID());
+        if (!plan) return;
+
+        applyShotOrderPlan(plan);
+        // Sub-shots share their parent's scene
+        assignLandingScene(orderShotIds(plan.shotOrder, shotIds));
+        const { templateSettings } = getProjectStore();
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
+        redistributeShotsAcrossPages();
+      });
+    },
+
+    ungroupShots: (shotIds: string[]) => {
+      return runIntent('ungroup_shots', () => {
+        const { shotOrder, shots } = getShotStore();
+        applyShotOrderPlan({ shotOrder, groupUpdates: planShotUngrouping(shotOrder, shots, shotIds) });
+        const { templateSettings } = getProjectStore();
+        shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
+      });
+    },
+
+    clearShotImages: (shotIds: string[]) => {
+      return runIntent('clear_shot_images', () => {
+        const { shotOrder, shots } = getShotStore();
+        orderShotIds(shotOrder, shotIds).forEach(shotId => {
+          const shot = shots[shotId];
+          if (shot && (shot.imageData || shot.imageUrl || shot.imageTakes?.length)) {
+            shotStore.updateShot(shotId, getClearedImageUpdates());
+          }
+        });
+      });
+    },
+
+    applyFramingToShots: (sourceShotId: string, shotIds: string[]) => {
+      return runIntent('apply_framing', () => {
+        const { shotOrder, shots } = getShotStore();
+        const source = shots[sourceShotId];
+        if (!source) return;
+
+        const framing = getImageFramingUpdates(source);
+        orderShotIds(shotOrder, shotIds)
+          .filter(shotId => shotId !== sourceShotId)
+          .forEach(shotId => shotStore.updateShot(shotId, framing));
+      });
+    },
+
     getGlobalShotIndex: shotStore.getGlobalShotIndex,
     
     redistributeShotsAcrossPages,
@@ -659,6 +1050,7 @@ export const useAppStore = () => {
         clientAgency,
         jobInfo,
         pageSizeMode: projectStore.pageSizeMode,
+        customPageSize: projectStore.customPageSize,
         isDragging,
         isExporting,
         showDeleteConfirmation,
@@ -736,7 +1128,7 @@ export const useAppStore = () => {
             
             // Renumber all shots with safety check
             if (templateSettings?.shotNumberFormat) {
-              shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat);
+              shotStore.renumberAllShotsImmediate(templateSettings.shotNumberFormat, templateSettings.sceneNumberFormat);
             } else {
               // Fallback to default format if not set
               shotStore.renumberAllShotsImmediate('01');
@@ -3,8 +3,37 @@ import { persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import ObjectURLManager from '@/utils/objectURLManager';
 import { StoryboardTheme, getDefaultTheme, migrateTheme } from '@/styles/storyboardTheme';
-import { type PageSizeMode, resolvePageSizeMode } from '@/utils/pageSize';
+import {
+  type CustomPageSize,
+  type PageSizeMode,
+  DEFAULT_CUSTOM_PAGE_SIZE,
+  resolveCustomPageSize,
+  resolvePageSizeMode,
+} from '@/utils/pageSize';
 import { optimizeLogoImage } from '@/utils/imageCompression';
+import { DEFAULT_SCENE_NUMBER_FORMAT, type Scene } from '@/utils/scenes';
+import {
+  MAX_CUSTOM_FIELDS,
+  MAX_CUSTOM_FIELD_NAME_LENGTH,
+  createCustomField,
+  getCustomFields,
+  type CustomShotField,
+} from '@/utils/customFields';
+import {
+  DEFAULT_HEADER_LAYOUT,
+  DEFAULT_LOGO_PLACEMENT,
+  MAX_HEADER_FIELDS,
+  MAX_HEADER_FIELD_LABEL_LENGTH,
+  MAX_HEADER_FIELD_VALUE_LENGTH,
+  createHeaderField,
+  getHeaderFields,
+  getHeaderLayout,
+  getLogoPlacement,
+  type HeaderField,
+  type HeaderLayout,
+  type LogoPlacement,
+} from '@/utils/headerLayout';
+import { DEFAULT_PAGE_NUMBER_FORMAT, getPageNumberFormat, type PageNumberFormat } from '@/utils/pageFooter';
 
 function isBlobUrl(value: string | null | undefined): boolean {
   return typeof value === 'string' && value.startsWith('blob:');
@@ -22,8 +51,22 @@ export interface TemplateSettings {
   showJobInfo: boolean;
   showActionText: boolean;
   showScriptText: boolean;
+  showCameraDetails: boolean;
+  showReviewStatus: boolean;
+  showOmittedShots: boolean; // Off collapses omitted shots out of exports
   showPageNumber: boolean;
+  pageNumberFormat: PageNumberFormat;
+  showFooterText: boolean;
+  footerText: string; // e.g. "CONFIDENTIAL – Property of …"
+  showFooterDate: boolean;
+  showRevision: boolean;
+  revisionLabel: string;
   shotNumberFormat: string;
+  sceneNumberFormat: string; // Empty turns scene prefixes off
+  customFields: CustomShotField[]; // Extra shot text fields, in display order; values live on Shot.customFieldValues
+  headerLayout: HeaderLayout;
+  logoPlacement: LogoPlacement;
+  headerFields: HeaderField[]; // Labeled header values such as Director or Draft #, in display order
 }
 
 export interface ProjectState {
@@ -35,6 +78,9 @@ export interface ProjectState {
   clientAgency: string;
   jobInfo: string;
   pageSizeMode: PageSizeMode;
+  customPageSize: CustomPageSize; // Dimensions used by the 'custom' page size mode
+  scenes: Record<string, Scene>; // Scene ID -> Scene; membership lives on Shot.sceneId
+  startScenesOnNewPage: boolean;
   templateSettings: TemplateSettings;
   storyboardTheme: StoryboardTheme;
 }
@@ -47,11 +93,30 @@ export interface ProjectActions {
   setClientAgency: (name: string) => void;
   setJobInfo: (info: string) => void;
   setPageSizeMode: (mode: PageSizeMode) => void;
+  setCustomPageSize: (size: CustomPageSize) => void;
+  
+  // Scenes
+  createScene: (name?: string) => string; // Returns scene ID
+  renameScene: (sceneId: string, name: string) => void;
+  deleteScene: (sceneId: string) => void;
+  setStartScenesOnNewPage: (enabled: boolean) => void;
   
   // Template settings
   setTemplateSetting: (setting: keyof TemplateSettings, value: boolean | string) => void;
   setTemplateSettings: (settings: Partial<TemplateSettings>) => void;
   resetTemplateSettings: () => void;
+
+  // Custom shot fields
+  addCustomField: (name: string) => string | null; // Returns field ID, null at the field limit
+  updateCustomField: (fieldId: string, updates: Partial<Omit<CustomShotField, 'id'>>) => void;
+  moveCustomField: (fieldId: string, offset: number) => void;
+  deleteCustomField: (fieldId: string) => void;
+
+  // Header fields
+  addHeaderField: (label: string) => string | null; // Returns field ID, null at the field limit
+  updateHeaderField: (fieldId: string, updates: Partial<Omit<HeaderField, 'id'>>) => void;
+  moveHeaderField: (fieldId: string, offset: number) => void;
+  deleteHeaderField: (fieldId: string) => void;
   
   // Storyboard theme
   setStoryboardTheme: (theme: StoryboardTheme) => void;
@@ -62,7 +127,7 @@ export interface ProjectActions {
 
 export type ProjectStore = ProjectState & ProjectActions;
 
-const defaultTemplateSettings: TemplateSettings = {
+export const defaultTemplateSettings: TemplateSettings = {
   showLogo: false,
   showProjectName: true,
   showProjectInfo: true,
@@ -70,8 +135,22 @@ const defaultTemplateSettings: TemplateSettings = {
   showJobInfo: true,
   showActionText: true,
   showScriptText: true,
+  showCameraDetails: false,
+  showReviewStatus: false,
+  showOmittedShots: true,
   showPageNumber: true,
+  pageNumberFormat: DEFAULT_PAGE_NUMBER_FORMAT,
+  showFooterText: false,
+  footerText: '',
+  showFooterDate: false,
+  showRevision: false,
+  revisionLabel: '',
   shotNumberFormat: '01',
+  sceneNumberFormat: DEFAULT_SCENE_NUMBER_FORMAT,
+  customFields: [],
+  headerLayout: DEFAULT_HEADER_LAYOUT,
+  logoPlacement: DEFAULT_LOGO_PLACEMENT,
+  headerFields: [],
 };
 
 export const useProjectStore = create<ProjectStore>()(
@@ -86,6 +165,9 @@ export const useProjectStore = create<ProjectStore>()(
       clientAgency: 'Client/Agency',
       jobInfo: 'Job Info',
       pageSizeMode: 'dynamic',
+      customPageSize: { ...DEFAULT_CUSTOM_PAGE_SIZE },
+      scenes: {},
+      startScenesOnNewPage: false,
       templateSettings: { ...defaultTemplateSettings },
       storyboardTheme: getDefaultTheme(),
 
@@ -151,6 +233,43 @@ export const useProjectStore = create<ProjectStore>()(
         });
       },
 
+      setCustomPageSize: (size) => {
+        set((state) => {
+          state.customPageSize = resolveCustomPageSize(size);
+        });
+      },
+
+      // Scenes
+      createScene: (name) => {
+        const sceneId = crypto.randomUUID();
+        set((state) => {
+          // Unnamed scenes show just their number (SC03)
+          state.scenes[sceneId] = { id: sceneId, name: name ?? '' };
+        });
+        return sceneId;
+      },
+
+      renameScene: (sceneId, name) => {
+        set((state) => {
+          const scene = state.scenes[sceneId];
+          if (scene) {
+            scene.name = name;
+          }
+        });
+      },
+
+      deleteScene: (sceneId) => {
+        set((state) => {
+          delete state.scenes[sceneId];
+        });
+      },
+
+      setStartScenesOnNewPage: (enabled) => {
+        set((state) => {
+          state.startScenesOnNewPage = enabled;
+        });
+      },
+
       // Template settings
       setTemplateSetting: (setting, value) => {
         set((state) => {
@@ -167,7 +286,103 @@ export const useProjectStore = create<ProjectStore>()(
 
       resetTemplateSettings: () => {
         set((state) => {
-          state.templateSettings = { ...defaultTemplateSettings };
+          // Field definitions, header values and footer text are project data, not layout, so a reset keeps them
+          state.templateSettings = {
+            ...defaultTemplateSettings,
+            customFields: state.templateSettings.customFields,
+            headerFields: state.templateSettings.headerFields,
+            footerText: state.templateSettings.footerText,
+            revisionLabel: state.templateSettings.revisionLabel,
+          };
+        });
+      },
+
+      // Custom shot fields
+      addCustomField: (name) => {
+        if (get().templateSettings.customFields.length >= MAX_CUSTOM_FIELDS) {
+          return null;
+        }
+        const field = createCustomField(name);
+        set((state) => {
+          state.templateSettings.customFields.push(field);
+        });
+        return field.id;
+      },
+
+      updateCustomField: (fieldId, updates) => {
+        set((state) => {
+          const field = state.templateSettings.customFields.find((item) => item.id === fieldId);
+          if (!field) return;
+          if (typeof updates.name === 'string') {
+            field.name = updates.name.slice(0, MAX_CUSTOM_FIELD_NAME_LENGTH);
+          }
+          if (typeof updates.visible === 'boolean') {
+            field.visible = updates.visible;
+          }
+        });
+      },
+
+      moveCustomField: (fieldId, offset) => {
+        set((state) => {
+          const fields = state.templateSettings.customFields;
+          const index = fields.findIndex((item) => item.id === fieldId);
+          const targetIndex = index + offset;
+          if (index === -1 || targetIndex < 0 || targetIndex >= fields.length) return;
+          const [field] = fields.splice(index, 1);
+          fields.splice(targetIndex, 0, field);
+        });
+      },
+
+      deleteCustomField: (fieldId) => {
+        set((state) => {
+          state.templateSettings.customFields = state.templateSettings.customFields
+            .filter((item) => item.id !== fieldId);
+        });
+      },
+
+      // Header fields
+      addHeaderField: (label) => {
+        if (get().templateSettings.headerFields.length >= MAX_HEADER_FIELDS) {
+          return null;
+        }
+        const field = createHeaderField(label);
+        set((state) => {
+          state.templateSettings.headerFields.push(field);
+        });
+        return field.id;
+      },
+
+      updateHeaderField: (fieldId, updates) => {
+        set((state) => {
+          const field = state.templateSettings.headerFields.find((item) => item.id === fieldId);
+          if (!field) return;
+          if (typeof updates.label === 'string') {
+            field.label = updates.label.slice(0, MAX_HEADER_FIELD_LABEL_LENGTH);
+          }
+          if (typeof updates.value === 'string') {
+            field.value = updates.value.slice(0, MAX_HEADER_FIELD_VALUE_LENGTH);
+          }
+          if (typeof updates.visible === 'boolean') {
+            field.visible = updates.visible;
+          }
+        });
+      },
+
+      moveHeaderField: (fieldId, offset) => {
+        set((state) => {
+          const fields = state.templateSettings.headerFields;
+          const index = fields.findIndex((item) => item.id === fieldId);
+          const targetIndex = index + offset;
+          if (index === -1 || targetIndex < 0 || targetIndex >= fields.length) return;
+          const [field] = fields.splice(index, 1);
+          fields.splice(targetIndex, 0, field);
+        });
+      },
+
+      deleteHeaderField: (fieldId) => {
+        set((state) => {
+          state.templateSettings.headerFields = state.templateSettings.headerFields
+            .filter((item) => item.id !== fieldId);
         });
       },
 
@@ -204,6 +419,9 @@ export const useProjectStore = create<ProjectStore>()(
         clientAgency: state.clientAgency,
         jobInfo: state.jobInfo,
         pageSizeMode: state.pageSizeMode,
+        customPageSize: state.customPageSize,
+        scenes: state.scenes,
+        startScenesOnNewPage: state.startScenesOnNewPage,
         templateSettings: state.templateSettings,
         storyboardTheme: state.storyboardTheme,
       }),
@@ -227,6 +445,16 @@ export const useProjectStore = create<ProjectStore>()(
           }
 
           state.pageSizeMode = resolvePageSizeMode(state.pageSizeMode);
+          state.customPageSize = resolveCustomPageSize(state.customPageSize);
+          state.scenes = state.scenes ?? {};
+          state.startScenesOnNewPage = state.startScenesOnNewPage ?? false;
+          // Settings added after a project was saved start at their defaults
+          state.templateSettings = { ...defaultTemplateSettings, ...state.templateSettings };
+          state.templateSettings.customFields = getCustomFields(state.templateSettings);
+          state.templateSettings.headerLayout = getHeaderLayout(state.templateSettings);
+          state.templateSettings.logoPlacement = getLogoPlacement(state.templateSettings);
+          state.templateSettings.headerFields = getHeaderFields(state.templateSettings);
+          state.templateSettings.pageNumberFormat = getPageNumberFormat(state.templateSettings);
         }
       }
     }
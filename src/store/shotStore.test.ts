@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { beginHistoryStep, endHistoryStep, useHistoryStore } from './historyStore';
+import { useShotStore } from './shotStore';
+import { BackgroundSyncService } from '@/services/backgroundSyncService';
+import { StorageService } from '@/services/storageService';
+import { addImageTake, removeImageTake } from '@/utils/imageTakes';
+
+vi.mock('@/services/backgroundSyncService', () => ({ BackgroundSyncService: { markShotDeleted: vi.fn() } }));
+vi.mock('@/services/storageService', () => ({
+  StorageService: { deleteShotImage: vi.fn(() => Promise.resolve()) },
+}));
+vi.mock('@/store/projectManagerStore', () => ({
+  useProjectManagerStore: { getState: () => ({ currentProjectId: 'project-1' }) },
+}));
+
+const markShotDeleted = vi.mocked(BackgroundSyncService.markShotDeleted);
+const deleteShotImage = vi.mocked(StorageService.deleteShotImage);
+
+const deleteShot = (shotId: string) => {
+  beginHistoryStep('delete_shot');
+  useShotStore.getState().deleteShot(shotId);
+  endHistoryStep();
+};
+
+const removeTake = (shotId: string, takeIndex: number) => {
+  const shot = useShotStore.getState().shots[shotId];
+  beginHistoryStep('remove_image_take');
+  useShotStore.getState().updateShot(shotId, removeImageTake(shot, shot.imageTakes![takeIndex].id)!);
+  endHistoryStep();
+};
+
+// A cloud shot with a second take, and a copy of it sharing both files
+const createSharedTakes = () => {
+  const { createShot, duplicateShot } = useShotStore.getState();
+  const shotId = createShot({ imageUrl: 'https://cdn/original.png' });
+  const shot = useShotStore.getState().shots[shotId];
+  useShotStore.getState().updateShot(shotId, addImageTake(shot, { imageUrl: 'https://cdn/second.png' }));
+  return { shotId, copyId: duplicateShot(shotId) };
+};
+
+describe('deleteShot', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_CLOUD_SYNC_ENABLED', 'true');
+    useShotStore.setState({ shots: {}, shotOrder: [] });
+  });
+
+  afterEach(() => {
+    useHistoryStore.getState().clearHistory();
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  it('keeps queued uploads until the delete can no longer be undone', async () => {
+    const shotId = useShotStore.getState().createShot({ imageData: 'data:image/png;base64,AAAA' });
+    deleteShot(shotId);
+    await vi.dynamicImportSettled();
+
+    expect(markShotDeleted).not.toHaveBeenCalled();
+
+    useHistoryStore.getState().clearHistory();
+    await vi.dynamicImportSettled();
+
+    expect(markShotDeleted).toHaveBeenCalledWith(shotId);
+    expect(deleteShotImage).toHaveBeenCalledWith('project-1', shotId, undefined);
+  });
+
+  it('lets an undone delete upload its image', async () => {
+    const shotId = useShotStore.getState().createShot({ imageData: 'data:image/png;base64,AAAA' });
+    deleteShot(shotId);
+    useHistoryStore.getState().undo();
+    useHistoryStore.getState().clearHistory();
+    await vi.dynamicImportSettled();
+
+    expect(useShotStore.getState().shots[shotId]).toBeDefined();
+    expect(markShotDeleted).not.toHaveBeenCalled();
+    expect(deleteShotImage).not.toHaveBeenCalled();
+  });
+});
+
+describe('stored image cleanup', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_CLOUD_SYNC_ENABLED', 'true');
+    useShotStore.setState({ shots: {}, shotOrder: [] });
+  });
+
+  afterEach(() => {
+    useHistoryStore.getState().clearHistory();
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  it("keeps a take's file while the original shot still shows it", async () => {
+    const { copyId } = createSharedTakes();
+    removeTake(copyId, 0);
+    deleteShot(copyId);
+    useHistoryStore.getState().clearHistory();
+    await vi.dynamicImportSettled();
+
+    const deletedUrls = deleteShotImage.mock.calls.map((call) => call[2]);
+    expect(deletedUrls).not.toContain('https://cdn/original.png');
+    expect(deletedUrls).not.toContain('https://cdn/second.png');
+  });
+
+  it('deletes a shared file once the last shot showing it lets go', async () => {
+    const { shotId, copyId } = createSharedTakes();
+    removeTake(copyId, 0);
+    useHistoryStore.getState().clearHistory();
+    await vi.dynamicImportSettled();
+
+    expect(deleteShotImage).not.toHaveBeenCalled();
+
+    removeTake(shotId, 0);
+    useHistoryStore.getState().clearHistory();
+    await vi.dynamicImportSettled();
+
+    expect(deleteShotImage).toHaveBeenCalledWith('project-1', shotId, 'https://cdn/original.png');
+  });
+});
+
+describe('duplicateShot', () => {
+  beforeEach(() => {
+    useShotStore.setState({ shots: {}, shotOrder: [] });
+  });
+
+  it('numbers the copy of an omitted shot instead of sharing its number', () => {
+    const { createShot, duplicateShot, renumberAllShotsImmediate } = useShotStore.getState();
+    createShot({});
+    const omittedId = createShot({ number: '05', reviewStatus: 'omitted' });
+    const copyId = duplicateShot(omittedId);
+    renumberAllShotsImmediate('01');
+
+    const { shots, shotOrder } = useShotStore.getState();
+    expect(shots[copyId].reviewStatus).toBeUndefined();
+    expect(shotOrder.map((shotId) => shots[shotId].number)).toEqual(['01', '05', '03']);
+  });
+});
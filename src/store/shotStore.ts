@@ -2,9 +2,23 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { renumberingOptimizer } from '@/utils/renumberingOptimizer';
-import { formatShotNumber } from '@/utils/formatShotNumber';
+import { applyShotNumbers } from '@/utils/shotNumbering';
 import { BackgroundSyncService } from '@/services/backgroundSyncService';
 import { serializeShotForStorage } from '@/utils/shotSerialization';
+import { runWhenUndoExpires } from '@/utils/historyCleanup';
+import type { CameraAngle, CameraMovement, ShotSize } from '@/utils/cameraDetails';
+import type { ShotReviewStatus } from '@/utils/shotReviewStatus';
+import type { SketchStroke } from '@/utils/sketch';
+import type { ShotAnnotation } from '@/utils/annotations';
+import type { CustomFieldValues } from '@/utils/customFields';
+import {
+  getOrphanedTakeImages,
+  getReferencedImageUrls,
+  getShotImageReferences,
+  getShotImageTakes,
+  getTakeStorageKey,
+  type ShotImageTake,
+} from '@/utils/imageTakes';
 
 export interface Shot {
   id: string;
@@ -18,15 +32,43 @@ export interface Shot {
   imageScale?: number;           // Scale factor for image (1.0 = original size)
   imageOffsetX?: number;         // X offset for image positioning
   imageOffsetY?: number;         // Y offset for image positioning
+  imageRotation?: number;        // Degrees clockwise (see utils/imageGeometry)
+  imageFlipX?: boolean;          // Mirror horizontally
+  imageFlipY?: boolean;          // Mirror vertically
   cloudSyncStatus?: 'pending' | 'syncing' | 'synced' | 'failed';
   cloudSyncRetries?: number;
   lastSyncAttempt?: Date;
   actionText: string;
   scriptText: string;
+  shotSize?: ShotSize;           // Camera metadata (see utils/cameraDetails)
+  cameraAngle?: CameraAngle;
+  lens?: string;                 // Free text, e.g. "35mm"
+  cameraMovement?: CameraMovement;
+  duration?: number;             // Seconds
+  reviewStatus?: ShotReviewStatus; // Missing reads as 'draft'
+  sceneId?: string | null;       // See utils/scenes
+  numberLocked?: boolean;        // Renumbering keeps this shot's number
+  pageBreakBefore?: boolean;     // Manual page break: the shot starts a new page (see utils/scenes planPageSlices)
+  imageTakes?: ShotImageTake[];  // Alternate images; the image fields above hold the active one
+  activeTakeId?: string;
+  sketchStrokes?: SketchStroke[]; // Freehand layer over the image frame (see utils/sketch)
+  annotations?: ShotAnnotation[]; // Arrows, push-in frames and callouts (see utils/annotations)
+  customFieldValues?: CustomFieldValues; // Field ID -> text (see utils/customFields)
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Fields the image editor applies in one step
+export type ImageEditField =
+  | 'imageScale'
+  | 'imageOffsetX'
+  | 'imageOffsetY'
+  | 'imageRotation'
+  | 'imageFlipX'
+  | 'imageFlipY'
+  | 'sketchStrokes'
+  | 'annotations';
+
 export interface ShotState {
   shots: Record<string, Shot>; // Shot ID -> Shot
   shotOrder: string[]; // Global order of all shots for numbering
@@ -46,8 +88,8 @@ export interface ShotActions {
   
   // Shot ordering and numbering
   setShotOrder: (shotIds: string[]) => void;
-  renumberAllShots: (shotNumberFormat: string) => void;
-  renumberAllShotsImmediate: (shotNumberFormat: string) => void;
+  renumberAllShots: (shotNumberFormat: string, sceneNumberFormat?: string) => void;
+  renumberAllShotsImmediate: (shotNumberFormat: string, sceneNumberFormat?: string) => void;
   
   // Utility
   getShotById: (shotId: string) => Shot | undefined;
@@ -79,7 +121,8 @@ const createDefaultShot = (number: string = ''): Shot => ({
 const renumberShots = (
   shots: Record<string, Shot>, 
   shotOrder: string[], 
-  shotNumberFormat: string
+  shotNumberFormat: string,
+  sceneNumberFormat?: string
 ) => {
   console.log(`Renumbering ${shotOrder.length} shots with format: ${shotNumberFormat}`);
   
@@ -87,38 +130,39 @@ const renumberShots = (
     return;
   }
 
-  let mainShotCounter = 0;
-  let subLetterCode = 'a'.charCodeAt(0);
-
-  for (let i = 0; i < shotOrder.length; i++) {
-    const shotId = shotOrder[i];
-    const shot = shots[shotId];
-    if (!shot) continue;
-
-    const prevShotId = i > 0 ? shotOrder[i - 1] : null;
-    const prevShot = prevShotId ? shots[prevShotId] : null;
-
-    const isContinuationOfSubGroup = shot.subShotGroupId && shot.subShotGroupId === prevShot?.subShotGroupId;
-
-    if (!isContinuationOfSubGroup) {
-      mainShotCounter++;
-      subLetterCode = 'a'.charCodeAt(0);
-    }
-
-    if (shot.subShotGroupId) {
-      const subLetter = String.fromCharCode(subLetterCode);
-      shot.number = formatShotNumber(mainShotCounter, shotNumberFormat, subLetter);
-      subLetterCode++;
-    } else {
-      shot.number = formatShotNumber(mainShotCounter, shotNumberFormat);
-    }
-    
-    shot.updatedAt = new Date();
-  }
+  applyShotNumbers(shots, shotOrder, shotNumberFormat, sceneNumberFormat);
   
   console.log('Shot renumbering completed');
 };
 
+// Undo can bring the shot's old images back, so storage keeps them until the
+// change falls out of history. The project is resolved now, not at cleanup.
+const deleteStoredShotImages = (
+  shotId: string,
+  images: Array<{ storageKey: string; imageUrl?: string }>
+) => {
+  // Dynamic import to avoid circular dependencies
+  const projectIdRequest = import('@/store/projectManagerStore').then(
+    ({ useProjectManagerStore }) => useProjectManagerStore.getState().currentProjectId
+  );
+
+  runWhenUndoExpires(() => {
+    // Duplicated shots share files with their original; keep any still shown
+    const urlsInUse = getReferencedImageUrls(Object.values(useShotStore.getState().shots));
+    const unusedImages = images.filter(({ imageUrl }) => !imageUrl || !urlsInUse.has(imageUrl));
+    if (unusedImages.length === 0) return;
+
+    Promise.all([import('@/services/storageService'), projectIdRequest]).then(([{ StorageService }, projectId]) => {
+      if (!projectId) return;
+      unusedImages.forEach(({ storageKey, imageUrl }) => {
+        StorageService.deleteShotImage(projectId, storageKey, imageUrl).catch(error => {
+          console.warn(`Failed to delete image for shot ${shotId}:`, error);
+        });
+      });
+    });
+  });
+};
+
 export const useShotStore = create<ShotStore>()(
   persist(
     immer((set, get) => ({
@@ -146,7 +190,8 @@ export const useShotStore = create<ShotStore>()(
       deleteShot: (shotId) => {
         // Capture shot data before deletion for cleanup
         const shot = get().shots[shotId];
-        const hasImage = shot && (shot.imageUrl || shot.imageData);
+        const hasImage = shot && (shot.imageUrl || shot.imageData || getShotImageTakes(shot).length > 0);
+        const images = shot ? getShotImageReferences(shot) : [{ storageKey: shotId }];
         
         set((state) => {
           const shot = state.shots[shotId];
@@ -173,24 +218,19 @@ export const useShotStore = create<ShotStore>()(
         // Clean up background sync queue and associated image
         if (import.meta.env.VITE_CLOUD_SYNC_ENABLED === 'true') {
           try {
-            // Dynamic import to avoid circular dependencies
-            import('@/services/backgroundSyncService').then(({ BackgroundSyncService }) => {
-              BackgroundSyncService.markShotDeleted(shotId);
-              
-              // If shot had an image, mark it for cleanup
-              if (hasImage) {
-                import('@/services/storageService').then(({ StorageService }) => {
-                  import('@/store/projectManagerStore').then(({ useProjectManagerStore }) => {
-                    const projectId = useProjectManagerStore.getState().currentProjectId;
-                    if (projectId) {
-                      StorageService.deleteShotImage(projectId, shotId).catch(error => {
-                        console.warn(`Failed to delete image for shot ${shotId}:`, error);
-                      });
-                    }
-                  });
-                });
-              }
+            // Undo brings the shot back with its pending uploads, so the sync
+            // queue only drops them once the delete can't be undone
+            runWhenUndoExpires(() => {
+              // Dynamic import to avoid circular dependencies
+              import('@/services/backgroundSyncService').then(({ BackgroundSyncService }) => {
+                BackgroundSyncService.markShotDeleted(shotId);
+              });
             });
+            
+            // If shot had an image, clean it up once the delete can't be undone
+            if (hasImage) {
+              deleteStoredShotImages(shotId, images);
+            }
           } catch (error) {
             console.warn('Failed to clean up sync queue for deleted shot:', error);
           }
@@ -199,10 +239,10 @@ export const useShotStore = create<ShotStore>()(
       },
 
       updateShot: (shotId, updates) => {
-        // Capture old image URL before update for cleanup
+        // Capture images the update leaves unreferenced for cleanup. Switching
+        // takes swaps imageUrl without orphaning anything.
         const oldShot = get().shots[shotId];
-        const oldImageUrl = oldShot?.imageUrl;
-        const isImageReplacement = updates.imageUrl && oldImageUrl && updates.imageUrl !== oldImageUrl;
+        const orphanedImages = oldShot ? getOrphanedTakeImages(oldShot, updates) : [];
         
         set((state) => {
           const shot = state.shots[shotId];
@@ -213,21 +253,10 @@ export const useShotStore = create<ShotStore>()(
         });
         
         // If image was replaced, clean up old image from storage
-        if (isImageReplacement && import.meta.env.VITE_CLOUD_SYNC_ENABLED === 'true') {
+        if (orphanedImages.length > 0 && import.meta.env.VITE_CLOUD_SYNC_ENABLED === 'true') {
           try {
             console.log(`🔄 Image replaced for shot ${shotId}, cleaning up old image`);
-            
-            // Dynamic import to avoid circular dependencies
-            import('@/services/storageService').then(({ StorageService }) => {
-              import('@/store/projectManagerStore').then(({ useProjectManagerStore }) => {
-                const projectId = useProjectManagerStore.getState().currentProjectId;
-                if (projectId) {
-                  StorageService.deleteShotImage(projectId, shotId, oldImageUrl).catch(error => {
-                    console.warn(`Failed to delete old image for shot ${shotId}:`, error);
-                  });
-                }
-              });
-            });
+            deleteStoredShotImages(shotId, orphanedImages);
           } catch (error) {
             console.warn('Failed to clean up old image:', error);
           }
@@ -243,6 +272,13 @@ export const useShotStore = create<ShotStore>()(
         const newShot: Shot = {
           ...originalShot,
           id: newShotId,
+          numberLocked: false, // A copy can't hold the same locked number
+          reviewStatus: undefined, // Nor keep an omitted shot's number; a copy starts as a draft
+          pageBreakBefore: false, // A copy lands right after its original, on the same page
+          imageTakes: originalShot.imageTakes?.map((take) => ({
+            ...take,
+            storageKey: getTakeStorageKey(newShotId, take.id),
+          })),
           createdAt: new Date(),
           updatedAt: new Date()
         };
@@ -285,6 +321,9 @@ export const useShotStore = create<ShotStore>()(
             newShot.subShotGroupId = newGroupId;
           }
 
+          // Sub-shots always sit next to their parent, so they share its scene
+          newShot.sceneId = draftOriginalShot.sceneId ?? null;
+
           state.shots[newShotId] = newShot;
           
           // Insert after the original shot in order
@@ -366,12 +405,13 @@ export const useShotStore = create<ShotStore>()(
         });
       },
 
-      renumberAllShots: (shotNumberFormat: string) => {
+      renumberAllShots: (shotNumberFormat: string, sceneNumberFormat?: string) => {
         const state = get();
         renumberingOptimizer.scheduleRenumbering({
           shots: state.shots,
           shotOrder: state.shotOrder,
           shotNumberFormat,
+          sceneNumberFormat,
           callback: () => {
             // Update state with the modified shots to trigger reactivity
             set((state) => {
@@ -383,10 +423,10 @@ export const useShotStore = create<ShotStore>()(
       },
 
       // Immediate renumbering for critical operations
-      renumberAllShotsImmediate: (shotNumberFormat: string) => {
+      renumberAllShotsImmediate: (shotNumberFormat: string, sceneNumberFormat?: string) => {
         set((draftState) => {
           // Use immer to directly modify the state
-          renumberShots(draftState.shots, draftState.shotOrder, shotNumberFormat);
+          renumberShots(draftState.shots, draftState.shotOrder, shotNumberFormat, sceneNumberFormat);
         });
       },
 
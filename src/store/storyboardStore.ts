@@ -3,15 +3,35 @@ import { persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { produce } from 'immer';
 import { StoryboardTheme } from '@/styles/storyboardTheme';
-import type { PageSizeMode } from '@/utils/pageSize';
-
-export interface Shot {
+import type { CustomPageSize, PageSizeMode } from '@/utils/pageSize';
+import type { ShotCameraDetails } from '@/utils/cameraDetails';
+import type { ShotReviewStatus } from '@/utils/shotReviewStatus';
+import type { Scene } from '@/utils/scenes';
+import type { ShotImageTake } from '@/utils/imageTakes';
+import type { SketchStroke } from '@/utils/sketch';
+import type { ShotAnnotation } from '@/utils/annotations';
+import type { CustomFieldValues, CustomShotField } from '@/utils/customFields';
+import type { HeaderField, HeaderLayout, LogoPlacement } from '@/utils/headerLayout';
+import type { PageNumberFormat } from '@/utils/pageFooter';
+
+export interface Shot extends ShotCameraDetails {
   id: string;
   number: string;
   subShotGroupId: string | null;
   imageFile: File | null;
   actionText: string;
   scriptText: string;
+  reviewStatus?: ShotReviewStatus;
+  sceneId?: string | null;
+  numberLocked?: boolean;
+  imageTakes?: ShotImageTake[];
+  activeTakeId?: string;
+  imageRotation?: number;
+  imageFlipX?: boolean;
+  imageFlipY?: boolean;
+  sketchStrokes?: SketchStroke[];
+  annotations?: ShotAnnotation[];
+  customFieldValues?: CustomFieldValues;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -38,6 +58,8 @@ export interface StoryboardState {
   clientAgency: string;
   jobInfo: string;
   pageSizeMode: PageSizeMode;
+  customPageSize?: CustomPageSize; // Only read in 'custom' mode
+  scenes?: Record<string, Scene>; // Names for scene headers in exports
   isDragging: boolean;
   isExporting: boolean;
   showDeleteConfirmation: boolean;
@@ -49,7 +71,21 @@ export interface StoryboardState {
     showJobInfo: boolean;
     showActionText: boolean;
     showScriptText: boolean;
+    showCameraDetails: boolean;
+    showReviewStatus: boolean;
+    showOmittedShots: boolean;
     showPageNumber: boolean;
+    pageNumberFormat?: PageNumberFormat;
+    showFooterText?: boolean;
+    footerText?: string;
+    showFooterDate?: boolean;
+    showRevision?: boolean;
+    revisionLabel?: string;
+    sceneNumberFormat: string;
+    customFields?: CustomShotField[];
+    headerLayout?: HeaderLayout;
+    logoPlacement?: LogoPlacement;
+    headerFields?: HeaderField[];
   };
   storyboardTheme: StoryboardTheme;
 }
@@ -90,7 +126,7 @@ export interface StoryboardActions {
   setClientAgency: (name: string) => void;
   setJobInfo: (info: string) => void;
   setPageSizeMode: (mode: PageSizeMode) => void;
-  setTemplateSetting: (setting: keyof StoryboardState['templateSettings'], value: boolean) => void;
+  setTemplateSetting: (setting: Exclude<keyof StoryboardState['templateSettings'], 'sceneNumberFormat' | 'customFields' | 'headerLayout' | 'logoPlacement' | 'headerFields' | 'pageNumberFormat' | 'footerText' | 'revisionLabel'>, value: boolean) => void;
 }
 
 export type StoryboardStore = StoryboardState & StoryboardActions;
@@ -207,7 +243,21 @@ export const useStoryboardStore = create<StoryboardStore>()(
         showJobInfo: true,
         showActionText: true,
         showScriptText: true,
+        showCameraDetails: false,
+        showReviewStatus: false,
+        showOmittedShots: true,
         showPageNumber: true,
+        pageNumberFormat: 'page',
+        showFooterText: false,
+        footerText: '',
+        showFooterDate: false,
+        showRevision: false,
+        revisionLabel: '',
+        sceneNumberFormat: 'SC01',
+        customFields: [],
+        headerLayout: 'split',
+        logoPlacement: 'left',
+        headerFields: [],
       },
 
       // Page management
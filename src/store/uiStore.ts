@@ -1,11 +1,17 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
+import type { ShotReviewStatus } from '@/utils/shotReviewStatus';
+import type { EditorCommandId, ShortcutOverrides } from '@/utils/shortcuts';
 
 export interface UIState {
   isDragging: boolean;
   isExporting: boolean;
   showDeleteConfirmation: boolean;
+  reviewStatusFilter: ShotReviewStatus | null; // Session-only; null shows every shot
+  selectedShotIds: string[]; // Session-only multi-selection for bulk actions
+  selectionAnchorId: string | null; // Session-only; last clicked shot, for shift-click ranges
+  shortcutOverrides: ShortcutOverrides; // Rebound editor shortcuts (see utils/shortcuts)
 }
 
 export interface UIActions {
@@ -18,6 +24,17 @@ export interface UIActions {
   // Confirmation dialogs
   setShowDeleteConfirmation: (show: boolean) => void;
   
+  // Page view filter
+  setReviewStatusFilter: (status: ShotReviewStatus | null) => void;
+  
+  // Shot selection
+  setShotSelection: (shotIds: string[], anchorId?: string | null) => void;
+  clearShotSelection: () => void;
+  
+  // Keyboard shortcuts
+  setShortcutOverride: (commandId: EditorCommandId, keys: string[] | null) => void;
+  resetShortcutOverrides: () => void;
+  
   // Utility
   resetUIState: () => void;
 }
@@ -28,6 +45,10 @@ const defaultUIState: UIState = {
   isDragging: false,
   isExporting: false,
   showDeleteConfirmation: true,
+  reviewStatusFilter: null,
+  selectedShotIds: [],
+  selectionAnchorId: null,
+  shortcutOverrides: {},
 };
 
 export const useUIStore = create<UIState & UIActions>()(
@@ -45,17 +66,38 @@ export const useUIStore = create<UIState & UIActions>()(
       // Confirmation dialogs
       setShowDeleteConfirmation: (show: boolean) => set({ showDeleteConfirmation: show }),
 
+      // Page view filter
+      setReviewStatusFilter: (status: ShotReviewStatus | null) => set({ reviewStatusFilter: status }),
+
+      // Shot selection
+      setShotSelection: (shotIds: string[], anchorId?: string | null) => set((state) => ({
+        selectedShotIds: shotIds,
+        selectionAnchorId: anchorId === undefined ? state.selectionAnchorId : anchorId,
+      })),
+      clearShotSelection: () => set({ selectedShotIds: [], selectionAnchorId: null }),
+
+      // Keyboard shortcuts; null restores the command's defaults
+      setShortcutOverride: (commandId: EditorCommandId, keys: string[] | null) => set((state) => {
+        const { [commandId]: _previous, ...shortcutOverrides } = state.shortcutOverrides;
+        return { shortcutOverrides: keys ? { ...shortcutOverrides, [commandId]: keys } : shortcutOverrides };
+      }),
+      resetShortcutOverrides: () => set({ shortcutOverrides: {} }),
+
       // Utility
       resetUIState: () => set({
         isDragging: false,
         isExporting: false,
-        showDeleteConfirmation: false
+        showDeleteConfirmation: false,
+        reviewStatusFilter: null,
+        selectedShotIds: [],
+        selectionAnchorId: null
       }),
     }),
     {
       name: 'ui-store',
       partialize: (state) => {
-        return state;
+        const { reviewStatusFilter, selectedShotIds, selectionAnchorId, ...persistedState } = state;
+        return persistedState;
       },
       migrate: (persistedState, version) => {
         return persistedState;
@@ -86,6 +86,18 @@ export const getShotTextSpacing = (fontSize: unknown) => {
   };
 };
 
+// Camera details line sits just under the script text size and follows its colour
+export const getCameraDetailsSpacing = (scriptFontSize: unknown) => {
+  const scriptSpacing = getShotTextSpacing(scriptFontSize);
+  const fontSize = Math.max(SHOT_TEXT_FONT_SIZE_MIN, Math.round(scriptSpacing.fontSize * 0.85));
+
+  return {
+    fontSize,
+    lineHeight: SHOT_TEXT_LINE_HEIGHT,
+    blockPaddingY: scriptSpacing.blockPaddingY,
+  };
+};
+
 /**
  * Preset Themes
  */
@@ -0,0 +1,34 @@
+import type { StoryboardPage } from '@/store/pageStore';
+import type { Shot } from '@/store/shotStore';
+
+/**
+ * Store records for tests. A shot is numbered after its id and a page holds a
+ * 2x2 16:9 grid; overrides set the fields a test is about.
+ */
+
+export const makeShot = (id: string, overrides: Partial<Shot> = {}): Shot => ({
+  id,
+  number: id,
+  subShotGroupId: null,
+  imageFile: null,
+  actionText: '',
+  scriptText: '',
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+});
+
+export const makePage = (id: string, shots: string[] = [], overrides: Partial<StoryboardPage> = {}): StoryboardPage => ({
+  id,
+  name: `Page ${id}`,
+  shots,
+  gridRows: 2,
+  gridCols: 2,
+  aspectRatio: '16/9',
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+});
+
+export const toShotRecord = (shots: Shot[]): Record<string, Shot> =>
+  Object.fromEntries(shots.map((shot) => [shot.id, shot]));
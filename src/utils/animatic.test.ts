@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { makePage, makeShot, toShotRecord } from '@/test/factories';
+import {
+  DEFAULT_ANIMATIC_SHOT_DURATION_SECONDS,
+  buildAnimaticTimeline,
+  findAnimaticFrameIndex,
+  formatRunningTime,
+} from './animatic';
+
+describe('buildAnimaticTimeline', () => {
+  it('lays shots end to end in shot order', () => {
+    const shots = [makeShot('a', { duration: 2 }), makeShot('b', { duration: 1.5 }), makeShot('c')];
+    const timeline = buildAnimaticTimeline(
+      [makePage('p1', ['a', 'b']), makePage('p2', ['c'])],
+      toShotRecord(shots),
+      ['a', 'b', 'c']
+    );
+
+    expect(timeline.frames.map((frame) => [frame.shotId, frame.startTime, frame.duration])).toEqual([
+      ['a', 0, 2],
+      ['b', 2, 1.5],
+      ['c', 3.5, DEFAULT_ANIMATIC_SHOT_DURATION_SECONDS],
+    ]);
+    expect(timeline.totalDuration).toBe(3.5 + DEFAULT_ANIMATIC_SHOT_DURATION_SECONDS);
+    expect(timeline.frames[2].hasExplicitDuration).toBe(false);
+  });
+
+  it('summarises each page and leaves out empty ones', () => {
+    const shots = [makeShot('a', { duration: 2 }), makeShot('b', { duration: 4 })];
+    const timeline = buildAnimaticTimeline(
+      [makePage('p1', ['a', 'b']), makePage('p2', [])],
+      toShotRecord(shots),
+      ['a', 'b']
+    );
+
+    expect(timeline.pages).toEqual([
+      { pageId: 'p1', pageName: 'Page p1', pageIndex: 0, shotCount: 2, startTime: 0, duration: 6 },
+    ]);
+  });
+
+  it('cuts omitted shots', () => {
+    const shots = [makeShot('a', { duration: 2 }), makeShot('b', { reviewStatus: 'omitted' }), makeShot('c')];
+    const timeline = buildAnimaticTimeline([makePage('p1', ['a', 'b', 'c'])], toShotRecord(shots), ['a', 'b', 'c']);
+
+    expect(timeline.frames.map((frame) => [frame.shotId, frame.startTime])).toEqual([['a', 0], ['c', 2]]);
+  });
+
+  it('numbers shots within their sub-shot group', () => {
+    const shots = [
+      makeShot('a', { subShotGroupId: 'g' }),
+      makeShot('b', { subShotGroupId: 'g' }),
+      makeShot('c'),
+    ];
+    const timeline = buildAnimaticTimeline([makePage('p1', ['a', 'b', 'c'])], toShotRecord(shots), ['a', 'b', 'c']);
+
+    expect(timeline.frames.map((frame) => [frame.subShotIndex, frame.subShotCount])).toEqual([
+      [0, 2],
+      [1, 2],
+      [0, 1],
+    ]);
+  });
+});
+
+describe('findAnimaticFrameIndex', () => {
+  const frames = buildAnimaticTimeline(
+    [makePage('p1', ['a', 'b'])],
+    toShotRecord([makeShot('a', { duration: 2 }), makeShot('b', { duration: 2 })]),
+    ['a', 'b']
+  ).frames;
+
+  it('finds the frame playing at a time', () => {
+    expect(findAnimaticFrameIndex(frames, 0)).toBe(0);
+    expect(findAnimaticFrameIndex(frames, 1.9)).toBe(0);
+    expect(findAnimaticFrameIndex(frames, 2)).toBe(1);
+  });
+
+  it('clamps times past the end to the last frame', () => {
+    expect(findAnimaticFrameIndex(frames, 60)).toBe(1);
+  });
+
+  it('returns -1 without frames', () => {
+    expect(findAnimaticFrameIndex([], 0)).toBe(-1);
+  });
+});
+
+describe('formatRunningTime', () => {
+  it('formats minutes and seconds', () => {
+    expect(formatRunningTime(0)).toBe('0:00');
+    expect(formatRunningTime(65.4)).toBe('1:05');
+  });
+
+  it('adds hours for long boards', () => {
+    expect(formatRunningTime(3725)).toBe('1:02:05');
+  });
+});
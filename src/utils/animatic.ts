@@ -0,0 +1,140 @@
+import type { Shot } from '@/store/shotStore';
+import type { StoryboardPage } from '@/store/pageStore';
+import { normalizeShotDuration } from '@/utils/cameraDetails';
+import { isShotOmitted } from '@/utils/shotReviewStatus';
+
+/**
+ * Animatic timeline
+ *
+ * Flattens `shotOrder` into timed frames for the animatic player. Shots without
+ * a duration fall back to a default hold so an untimed board still plays.
+ * Omitted shots are cut, so they don't play.
+ */
+
+export const DEFAULT_ANIMATIC_SHOT_DURATION_SECONDS = 3;
+
+export interface AnimaticFrame {
+  shotId: string;
+  pageId: string | null;
+  pageIndex: number;
+  startTime: number;
+  duration: number;
+  hasExplicitDuration: boolean;
+  subShotGroupId: string | null;
+  subShotIndex: number; // 0-based position within its sub-shot group
+  subShotCount: number; // 1 for standalone shots
+}
+
+export interface AnimaticPageSummary {
+  pageId: string;
+  pageName: string;
+  pageIndex: number;
+  shotCount: number;
+  startTime: number;
+  duration: number;
+}
+
+export interface AnimaticTimeline {
+  frames: AnimaticFrame[];
+  pages: AnimaticPageSummary[];
+  totalDuration: number;
+}
+
+export const getAnimaticShotDuration = (shot: Pick<Shot, 'duration'>): number =>
+  normalizeShotDuration(shot.duration) ?? DEFAULT_ANIMATIC_SHOT_DURATION_SECONDS;
+
+export const buildAnimaticTimeline = (
+  pages: StoryboardPage[],
+  shots: Record<string, Shot>,
+  shotOrder: string[]
+): AnimaticTimeline => {
+  const pageIndexByShotId = new Map<string, number>();
+  pages.forEach((page, pageIndex) => {
+    page.shots.forEach((shotId) => pageIndexByShotId.set(shotId, pageIndex));
+  });
+
+  const orderedShots = shotOrder
+    .map((shotId) => shots[shotId])
+    .filter((shot): shot is Shot => Boolean(shot) && !isShotOmitted(shot));
+
+  const groupSizes = new Map<string, number>();
+  orderedShots.forEach((shot) => {
+    if (shot.subShotGroupId) {
+      groupSizes.set(shot.subShotGroupId, (groupSizes.get(shot.subShotGroupId) ?? 0) + 1);
+    }
+  });
+
+  const groupPositions = new Map<string, number>();
+  const frames: AnimaticFrame[] = [];
+  let elapsed = 0;
+
+  orderedShots.forEach((shot) => {
+    const pageIndex = pageIndexByShotId.get(shot.id) ?? -1;
+    const duration = getAnimaticShotDuration(shot);
+    const groupId = shot.subShotGroupId;
+    const subShotIndex = groupId ? groupPositions.get(groupId) ?? 0 : 0;
+    if (groupId) {
+      groupPositions.set(groupId, subShotIndex + 1);
+    }
+
+    frames.push({
+      shotId: shot.id,
+      pageId: pageIndex >= 0 ? pages[pageIndex].id : null,
+      pageIndex,
+      startTime: elapsed,
+      duration,
+      hasExplicitDuration: normalizeShotDuration(shot.duration) !== undefined,
+      subShotGroupId: groupId,
+      subShotIndex,
+      subShotCount: groupId ? groupSizes.get(groupId) ?? 1 : 1,
+    });
+    elapsed += duration;
+  });
+
+  const pageSummaries = pages.map((page, pageIndex): AnimaticPageSummary => {
+    const pageFrames = frames.filter((frame) => frame.pageIndex === pageIndex);
+    return {
+      pageId: page.id,
+      pageName: page.name,
+      pageIndex,
+      shotCount: pageFrames.length,
+      startTime: pageFrames[0]?.startTime ?? 0,
+      duration: pageFrames.reduce((total, frame) => total + frame.duration, 0),
+    };
+  });
+
+  return {
+    frames,
+    pages: pageSummaries.filter((summary) => summary.shotCount > 0),
+    totalDuration: elapsed,
+  };
+};
+
+/**
+ * Index of the frame playing at `time`. Times past the end clamp to the last frame.
+ */
+export const findAnimaticFrameIndex = (frames: AnimaticFrame[], time: number): number => {
+  if (frames.length === 0) return -1;
+
+  for (let index = frames.length - 1; index >= 0; index -= 1) {
+    if (time >= frames[index].startTime) {
+      return index;
+    }
+  }
+
+  return 0;
+};
+
+/**
+ * Running time as m:ss, or h:mm:ss for long boards.
+ */
+export const formatRunningTime = (seconds: number): string => {
+  const totalSeconds = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const remainder = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${remainder}`
+    : `${minutes}:${remainder}`;
+};
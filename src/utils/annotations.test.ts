@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getAnnotationPrimitives,
+  getShotAnnotations,
+  type AnnotationPrimitive,
+  type ShotAnnotation,
+} from './annotations';
+
+type RectPrimitive = Extract<AnnotationPrimitive, { type: 'rect' }>;
+
+const makeAnnotation = (overrides: Partial<ShotAnnotation> = {}): ShotAnnotation => ({
+  id: 'a',
+  kind: 'arrow',
+  color: '#facc15',
+  x1: 0.1,
+  y1: 0.5,
+  x2: 0.9,
+  y2: 0.5,
+  ...overrides,
+});
+
+describe('getShotAnnotations', () => {
+  it('skips malformed annotations', () => {
+    const valid = makeAnnotation();
+    const annotations = [
+      valid,
+      makeAnnotation({ kind: 'circle' as ShotAnnotation['kind'] }),
+      makeAnnotation({ color: 'yellow' }),
+      makeAnnotation({ kind: 'text', text: '   ' }),
+      makeAnnotation({ x1: Number.NaN }),
+    ];
+
+    expect(getShotAnnotations({ annotations })).toEqual([valid]);
+    expect(getShotAnnotations(null)).toEqual([]);
+  });
+});
+
+describe('getAnnotationPrimitives', () => {
+  it('draws an arrow as a shaft ending at its head', () => {
+    const [line, head] = getAnnotationPrimitives([makeAnnotation()], 200, 100);
+
+    expect(line).toMatchObject({ type: 'line', x1: 20, y1: 50, y2: 50, dashed: false });
+    expect(head).toMatchObject({ type: 'polygon', points: [[180, 50], expect.anything(), expect.anything()] });
+  });
+
+  it('draws a push-in frame as a dashed rectangle from either corner', () => {
+    const [frame, label] = getAnnotationPrimitives(
+      [makeAnnotation({ kind: 'frame', x1: 0.75, y1: 0.8, x2: 0.25, y2: 0.2, text: 'Push in' })],
+      200,
+      100
+    );
+
+    expect(frame).toMatchObject({ type: 'rect', x: 50, y: 20, width: 100, height: 60, dashed: true });
+    expect(label).toMatchObject({ type: 'text', text: 'Push in' });
+  });
+
+  it('keeps callout labels inside the frame', () => {
+    const primitives = getAnnotationPrimitives(
+      [makeAnnotation({ kind: 'text', x1: 0.5, y1: 0.5, x2: 1, y2: 1, text: 'Hero enters' })],
+      200,
+      100
+    );
+    const box = primitives.find((primitive): primitive is RectPrimitive => primitive.type === 'rect');
+
+    expect(primitives[0].type).toBe('line');
+    expect(box.x + box.width).toBeLessThanOrEqual(200);
+    expect(box.y + box.height).toBeLessThanOrEqual(100);
+  });
+
+  it('clamps points outside the frame', () => {
+    const [line] = getAnnotationPrimitives([makeAnnotation({ x1: -1, y1: 2 })], 200, 100);
+    expect(line).toMatchObject({ x1: 0, y1: 100 });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Vector annotations over a shot's image frame: arrows for camera moves and
+ * blocking, frame-within-frame rectangles for push-ins, and text callouts.
+ *
+ * Like sketch strokes, annotations live in frame space (0-1 across the frame)
+ * and ignore the image's zoom/pan. Every renderer draws the same primitives
+ * from getAnnotationPrimitives, so the card, the static PDF builder and the
+ * canvas export lay annotations out identically.
+ */
+
+export type AnnotationKind = 'arrow' | 'frame' | 'text';
+
+export interface ShotAnnotation {
+  id: string;
+  kind: AnnotationKind;
+  color: string;  // Hex
+  // Arrow: tail -> head. Frame: opposite corners. Text: point of interest -> label.
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  text?: string;  // Callout text, or an optional frame label
+}
+
+export type AnnotationPrimitive =
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; color: string; width: number; dashed: boolean }
+  | { type: 'polygon'; points: Array<[number, number]>; color: string }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; color: string; lineWidth: number; dashed: boolean; fill?: string }
+  | { type: 'text'; x: number; y: number; text: string; color: string; fontSize: number };
+
+type AnnotatedShot = { annotations?: unknown };
+
+export const ANNOTATION_KINDS: Array<{ value: AnnotationKind; label: string }> = [
+  { value: 'arrow', label: 'Arrow' },
+  { value: 'frame', label: 'Push-in' },
+  { value: 'text', label: 'Callout' },
+];
+
+export const ANNOTATION_COLORS = [
+  '#facc15',
+  '#ef4444',
+  '#22c55e',
+  '#3b82f6',
+  '#ffffff',
+  '#111827',
+] as const;
+
+export const DEFAULT_ANNOTATION_COLOR = ANNOTATION_COLORS[0];
+export const MAX_ANNOTATION_TEXT_LENGTH = 80;
+
+// Drags shorter than this (as a share of the frame) don't make an arrow or frame
+export const MIN_ANNOTATION_DRAG = 0.02;
+
+const LABEL_BACKGROUND = 'rgba(17, 24, 39, 0.75)';
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isAnnotationColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+
+export const isShotAnnotation = (value: unknown): value is ShotAnnotation => {
+  if (typeof value !== 'object' || value === null) return false;
+  const annotation = value as Record<string, unknown>;
+  return (
+    typeof annotation.id === 'string' &&
+    (annotation.kind === 'arrow' || annotation.kind === 'frame' || annotation.kind === 'text') &&
+    isAnnotationColor(annotation.color) &&
+    isFiniteNumber(annotation.x1) &&
+    isFiniteNumber(annotation.y1) &&
+    isFiniteNumber(annotation.x2) &&
+    isFiniteNumber(annotation.y2) &&
+    (typeof annotation.text === 'undefined' ||
+      (typeof annotation.text === 'string' && annotation.text.length <= MAX_ANNOTATION_TEXT_LENGTH)) &&
+    (annotation.kind !== 'text' || Boolean((annotation.text as string | undefined)?.trim()))
+  );
+};
+
+export const isShotAnnotationList = (value: unknown): value is ShotAnnotation[] =>
+  Array.isArray(value) && value.every(isShotAnnotation);
+
+export const getShotAnnotations = (shot: AnnotatedShot | null | undefined): ShotAnnotation[] =>
+  Array.isArray(shot?.annotations) ? shot.annotations.filter(isShotAnnotation) : [];
+
+export const hasAnnotations = (shot: AnnotatedShot | null | undefined): boolean =>
+  getShotAnnotations(shot).length > 0;
+
+export const clampToFrame = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Label width estimate shared by every renderer. The canvas could measure
+ * text exactly, but the SVG renderers can't before layout, and callouts
+ * should sit in the same place everywhere.
+ */
+const estimateTextWidth = (text: string, fontSize: number): number => text.length * fontSize * 0.58;
+
+const getLabelPrimitives = (
+  text: string,
+  anchorX: number,
+  anchorY: number,
+  color: string,
+  fontSize: number,
+  frameWidth: number,
+  frameHeight: number
+): AnnotationPrimitive[] => {
+  const paddingX = fontSize * 0.4;
+  const paddingY = fontSize * 0.25;
+  const boxWidth = estimateTextWidth(text, fontSize) + paddingX * 2;
+  const boxHeight = fontSize + paddingY * 2;
+  // Centre the label on its anchor but keep it inside the frame
+  const x = Math.min(Math.max(0, anchorX - boxWidth / 2), Math.max(0, frameWidth - boxWidth));
+  const y = Math.min(Math.max(0, anchorY - boxHeight / 2), Math.max(0, frameHeight - boxHeight));
+  return [
+    { type: 'rect', x, y, width: boxWidth, height: boxHeight, color: 'transparent', lineWidth: 0, dashed: false, fill: LABEL_BACKGROUND },
+    { type: 'text', x: x + paddingX, y: y + paddingY + fontSize * 0.8, text, color, fontSize },
+  ];
+};
+
+/**
+ * Drawing primitives for a width x height frame, in annotation order.
+ */
+export const getAnnotationPrimitives = (
+  annotations: ShotAnnotation[],
+  width: number,
+  height: number
+): AnnotationPrimitive[] => {
+  const lineWidth = Math.max(1.5, width * 0.006);
+  const fontSize = Math.max(8, Math.round(width * 0.045));
+  const primitives: AnnotationPrimitive[] = [];
+
+  annotations.forEach((annotation) => {
+    const x1 = clampToFrame(annotation.x1) * width;
+    const y1 = clampToFrame(annotation.y1) * height;
+    const x2 = clampToFrame(annotation.x2) * width;
+    const y2 = clampToFrame(annotation.y2) * height;
+    const text = annotation.text?.trim() ?? '';
+
+    if (annotation.kind === 'arrow') {
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const headLength = lineWidth * 4;
+      const headWidth = lineWidth * 2.5;
+      const baseX = x2 - Math.cos(angle) * headLength;
+      const baseY = y2 - Math.sin(angle) * headLength;
+      primitives.push(
+        { type: 'line', x1, y1, x2: baseX, y2: baseY, color: annotation.color, width: lineWidth, dashed: false },
+        {
+          type: 'polygon',
+          color: annotation.color,
+          points: [
+            [x2, y2],
+            [baseX + Math.sin(angle) * headWidth, baseY - Math.cos(angle) * headWidth],
+            [baseX - Math.sin(angle) * headWidth, baseY + Math.cos(angle) * headWidth],
+          ],
+        }
+      );
+      return;
+    }
+
+    if (annotation.kind === 'frame') {
+      const left = Math.min(x1, x2);
+      const top = Math.min(y1, y2);
+      primitives.push({
+        type: 'rect',
+        x: left,
+        y: top,
+        width: Math.abs(x2 - x1),
+        height: Math.abs(y2 - y1),
+        color: annotation.color,
+        lineWidth,
+        dashed: true,
+      });
+      if (text) {
+        primitives.push({
+          type: 'text',
+          x: left + lineWidth * 2,
+          y: top + lineWidth * 2 + fontSize * 0.8,
+          text,
+          color: annotation.color,
+          fontSize,
+        });
+      }
+      return;
+    }
+
+    // Callout: leader line from the point of interest to the label
+    if (Math.hypot(x2 - x1, y2 - y1) > fontSize) {
+      primitives.push({ type: 'line', x1, y1, x2, y2, color: annotation.color, width: lineWidth * 0.75, dashed: false });
+    }
+    primitives.push(...getLabelPrimitives(text, x2, y2, annotation.color, fontSize, width, height));
+  });
+
+  return primitives;
+};
+
+const roundValue = (value: number): number => Math.round(value * 100) / 100;
+
+export const getAnnotationDashArray = (lineWidth: number): string =>
+  `${roundValue(lineWidth * 3)} ${roundValue(lineWidth * 2)}`;
+
+const escapeSvgText = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const ANNOTATION_FONT_FAMILY = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+/**
+ * Standalone SVG markup for the static PDF builder. Mirrors
+ * ShotAnnotationLayer.
+ */
+export const getAnnotationSvgMarkup = (annotations: ShotAnnotation[], width: number, height: number): string => {
+  const content = getAnnotationPrimitives(annotations, width, height).map((primitive) => {
+    switch (primitive.type) {
+      case 'line':
+        return `<line x1="${roundValue(primitive.x1)}" y1="${roundValue(primitive.y1)}" ` +
+          `x2="${roundValue(primitive.x2)}" y2="${roundValue(primitive.y2)}" stroke="${primitive.color}" ` +
+          `stroke-width="${roundValue(primitive.width)}" stroke-linecap="round"/>`;
+      case 'polygon':
+        return `<polygon points="${primitive.points.map(([x, y]) => `${roundValue(x)},${roundValue(y)}`).join(' ')}" ` +
+          `fill="${primitive.color}"/>`;
+      case 'rect':
+        return `<rect x="${roundValue(primitive.x)}" y="${roundValue(primitive.y)}" ` +
+          `width="${roundValue(primitive.width)}" height="${roundValue(primitive.height)}" ` +
+          `fill="${primitive.fill ?? 'none'}" stroke="${primitive.color}" stroke-width="${roundValue(primitive.lineWidth)}"` +
+          `${primitive.dashed ? ` stroke-dasharray="${getAnnotationDashArray(primitive.lineWidth)}"` : ''} rx="2"/>`;
+      case 'text':
+        return `<text x="${roundValue(primitive.x)}" y="${roundValue(primitive.y)}" fill="${primitive.color}" ` +
+          `font-size="${primitive.fontSize}" font-weight="600" font-family="${escapeSvgText(ANNOTATION_FONT_FAMILY)}">` +
+          `${escapeSvgText(primitive.text)}</text>`;
+    }
+  }).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="0 0 ${width} ${height}" style="position:absolute;inset:0;pointer-events:none">${content}</svg>`;
+};
+
+/**
+ * Draws annotations into a canvas box for the canvas export.
+ */
+export const drawAnnotationsOnCanvas = (
+  ctx: CanvasRenderingContext2D,
+  annotations: ShotAnnotation[],
+  box: { x: number; y: number; width: number; height: number }
+): void => {
+  if (annotations.length === 0 || box.width <= 0 || box.height <= 0) return;
+
+  ctx.save();
+  ctx.translate(box.x, box.y);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  getAnnotationPrimitives(annotations, box.width, box.height).forEach((primitive) => {
+    switch (primitive.type) {
+      case 'line':
+        ctx.setLineDash([]);
+        ctx.strokeStyle = primitive.color;
+        ctx.lineWidth = primitive.width;
+        ctx.beginPath();
+        ctx.moveTo(primitive.x1, primitive.y1);
+        ctx.lineTo(primitive.x2, primitive.y2);
+        ctx.stroke();
+        break;
+      case 'polygon':
+        ctx.fillStyle = primitive.color;
+        ctx.beginPath();
+        primitive.points.forEach(([x, y], index) => (index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+        ctx.closePath();
+        ctx.fill();
+        break;
+      case 'rect':
+        if (primitive.fill) {
+          ctx.fillStyle = primitive.fill;
+          ctx.fillRect(primitive.x, primitive.y, primitive.width, primitive.height);
+        }
+        if (primitive.lineWidth > 0) {
+          ctx.setLineDash(primitive.dashed ? [primitive.lineWidth * 3, primitive.lineWidth * 2] : []);
+          ctx.strokeStyle = primitive.color;
+          ctx.lineWidth = primitive.lineWidth;
+          ctx.strokeRect(primitive.x, primitive.y, primitive.width, primitive.height);
+        }
+        break;
+      case 'text':
+        ctx.fillStyle = primitive.color;
+        ctx.font = `600 ${primitive.fontSize}px ${ANNOTATION_FONT_FAMILY}`;
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(primitive.text, primitive.x, primitive.y);
+        break;
+    }
+  });
+  ctx.restore();
+};
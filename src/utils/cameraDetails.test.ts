@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_SHOT_DURATION_SECONDS,
+  formatCameraDetails,
+  normalizeShotDuration,
+  pickCameraDetails,
+} from './cameraDetails';
+
+describe('normalizeShotDuration', () => {
+  it('rounds to tenths of a second', () => {
+    expect(normalizeShotDuration(2.46)).toBe(2.5);
+    expect(normalizeShotDuration('3.04')).toBe(3);
+  });
+
+  it('clamps long durations', () => {
+    expect(normalizeShotDuration(MAX_SHOT_DURATION_SECONDS + 50)).toBe(MAX_SHOT_DURATION_SECONDS);
+  });
+
+  it('clears empty, zero and invalid input', () => {
+    expect(normalizeShotDuration('')).toBeUndefined();
+    expect(normalizeShotDuration(0)).toBeUndefined();
+    expect(normalizeShotDuration(-1)).toBeUndefined();
+    expect(normalizeShotDuration('abc')).toBeUndefined();
+    expect(normalizeShotDuration(Number.NaN)).toBeUndefined();
+  });
+});
+
+describe('pickCameraDetails', () => {
+  it('keeps well-formed fields and drops the rest', () => {
+    expect(
+      pickCameraDetails({
+        shotSize: 'MCU',
+        cameraAngle: 'sideways',
+        lens: '  35mm ',
+        cameraMovement: 'dolly-in',
+        duration: '0',
+      })
+    ).toEqual({ shotSize: 'MCU', lens: '35mm', cameraMovement: 'dolly-in' });
+  });
+
+  it('drops blank lenses', () => {
+    expect(pickCameraDetails({ lens: '   ' })).toEqual({});
+  });
+});
+
+describe('formatCameraDetails', () => {
+  it('joins the filled fields in a fixed order', () => {
+    expect(
+      formatCameraDetails({
+        duration: 3,
+        cameraMovement: 'dolly-in',
+        lens: '35mm',
+        cameraAngle: 'low',
+        shotSize: 'MCU',
+      })
+    ).toBe('MCU · Low Angle · 35mm · Dolly In · 3s');
+  });
+
+  it('returns an empty string without details', () => {
+    expect(formatCameraDetails({})).toBe('');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Structured camera metadata for a shot.
+ *
+ * All renderers (editor, offscreen PNG/print surface, canvas renderer and the
+ * server PDF route) format these fields through `formatCameraDetails` so the
+ * summary line reads the same everywhere.
+ */
+
+export const SHOT_SIZE_OPTIONS = [
+  { value: 'EWS', label: 'Extreme Wide' },
+  { value: 'WS', label: 'Wide' },
+  { value: 'MWS', label: 'Medium Wide' },
+  { value: 'MS', label: 'Medium' },
+  { value: 'MCU', label: 'Medium Close-Up' },
+  { value: 'CU', label: 'Close-Up' },
+  { value: 'ECU', label: 'Extreme Close-Up' },
+  { value: 'INSERT', label: 'Insert' },
+] as const;
+
+export const CAMERA_ANGLE_OPTIONS = [
+  { value: 'eye-level', label: 'Eye Level' },
+  { value: 'high', label: 'High Angle' },
+  { value: 'low', label: 'Low Angle' },
+  { value: 'overhead', label: 'Overhead' },
+  { value: 'dutch', label: 'Dutch' },
+  { value: 'pov', label: 'POV' },
+  { value: 'ots', label: 'Over the Shoulder' },
+] as const;
+
+export const CAMERA_MOVEMENT_OPTIONS = [
+  { value: 'static', label: 'Static' },
+  { value: 'pan', label: 'Pan' },
+  { value: 'tilt', label: 'Tilt' },
+  { value: 'dolly-in', label: 'Dolly In' },
+  { value: 'dolly-out', label: 'Dolly Out' },
+  { value: 'truck', label: 'Truck' },
+  { value: 'crane', label: 'Crane' },
+  { value: 'handheld', label: 'Handheld' },
+  { value: 'steadicam', label: 'Steadicam' },
+  { value: 'zoom', label: 'Zoom' },
+] as const;
+
+export type ShotSize = typeof SHOT_SIZE_OPTIONS[number]['value'];
+export type CameraAngle = typeof CAMERA_ANGLE_OPTIONS[number]['value'];
+export type CameraMovement = typeof CAMERA_MOVEMENT_OPTIONS[number]['value'];
+
+export interface ShotCameraDetails {
+  shotSize?: ShotSize;
+  cameraAngle?: CameraAngle;
+  lens?: string;
+  cameraMovement?: CameraMovement;
+  duration?: number; // Seconds
+}
+
+export const CAMERA_DETAIL_KEYS = [
+  'shotSize',
+  'cameraAngle',
+  'lens',
+  'cameraMovement',
+  'duration',
+] as const satisfies ReadonlyArray<keyof ShotCameraDetails>;
+
+export const MAX_SHOT_DURATION_SECONDS = 600;
+
+const findLabel = (
+  options: ReadonlyArray<{ value: string; label: string }>,
+  value: string | undefined
+): string | null => {
+  if (!value) return null;
+  return options.find((option) => option.value === value)?.label ?? null;
+};
+
+export const isShotSize = (value: unknown): value is ShotSize =>
+  SHOT_SIZE_OPTIONS.some((option) => option.value === value);
+
+export const isCameraAngle = (value: unknown): value is CameraAngle =>
+  CAMERA_ANGLE_OPTIONS.some((option) => option.value === value);
+
+export const isCameraMovement = (value: unknown): value is CameraMovement =>
+  CAMERA_MOVEMENT_OPTIONS.some((option) => option.value === value);
+
+/**
+ * Clamp a duration to a sane, display-friendly value (tenths of a second).
+ * Returns undefined for empty or invalid input so the field can be cleared.
+ */
+export const normalizeShotDuration = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' ? Number.parseFloat(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed) || parsed <= 0) {
+    return undefined;
+  }
+
+  return Math.min(MAX_SHOT_DURATION_SECONDS, Math.round(parsed * 10) / 10);
+};
+
+export const formatShotDuration = (seconds: number | undefined): string | null => {
+  const normalized = normalizeShotDuration(seconds);
+  return normalized === undefined ? null : `${normalized}s`;
+};
+
+/**
+ * Pick only well-formed camera fields, dropping empty values.
+ * Used when building export payloads so stale or malformed data never renders.
+ */
+export const pickCameraDetails = (source: Partial<Record<keyof ShotCameraDetails, unknown>>): ShotCameraDetails => {
+  const details: ShotCameraDetails = {};
+
+  if (isShotSize(source.shotSize)) details.shotSize = source.shotSize;
+  if (isCameraAngle(source.cameraAngle)) details.cameraAngle = source.cameraAngle;
+  if (typeof source.lens === 'string' && source.lens.trim()) details.lens = source.lens.trim();
+  if (isCameraMovement(source.cameraMovement)) details.cameraMovement = source.cameraMovement;
+
+  const duration = normalizeShotDuration(source.duration);
+  if (duration !== undefined) details.duration = duration;
+
+  return details;
+};
+
+export const hasCameraDetails = (source: ShotCameraDetails): boolean =>
+  formatCameraDetails(source) !== '';
+
+/**
+ * Single-line summary, e.g. "MCU · Low Angle · 35mm · Dolly In · 3s".
+ */
+export const formatCameraDetails = (source: ShotCameraDetails): string => {
+  const details = pickCameraDetails(source);
+
+  return [
+    details.shotSize ?? null,
+    findLabel(CAMERA_ANGLE_OPTIONS, details.cameraAngle),
+    details.lens ?? null,
+    findLabel(CAMERA_MOVEMENT_OPTIONS, details.cameraMovement),
+    formatShotDuration(details.duration),
+  ]
+    .filter((part): part is string => Boolean(part))
+    .join(' · ');
+};
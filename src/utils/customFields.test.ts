@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_CUSTOM_FIELDS,
+  MAX_CUSTOM_FIELD_NAME_LENGTH,
+  MAX_CUSTOM_FIELD_VALUE_LENGTH,
+  createCustomField,
+  getCustomFieldEntries,
+  getCustomFieldRichText,
+  getCustomFields,
+  getFilledCustomFieldValues,
+  getShotCustomFieldValues,
+  hasCustomFieldValues,
+  type CustomShotField,
+} from './customFields';
+import { getRichTextPlain } from './richText';
+
+const makeField = (id: string, overrides: Partial<CustomShotField> = {}): CustomShotField => ({
+  id,
+  name: id.toUpperCase(),
+  visible: true,
+  ...overrides,
+});
+
+describe('getCustomFields', () => {
+  it('returns saved definitions in order', () => {
+    const fields = [makeField('vfx'), makeField('audio', { visible: false })];
+    expect(getCustomFields({ customFields: fields })).toBe(fields);
+  });
+
+  it('returns none for older or malformed settings', () => {
+    expect(getCustomFields({})).toEqual([]);
+    expect(getCustomFields(null)).toEqual([]);
+    expect(getCustomFields({ customFields: [makeField('')] })).toEqual([]);
+    expect(getCustomFields({ customFields: [makeField('a', { name: 'x'.repeat(MAX_CUSTOM_FIELD_NAME_LENGTH + 1) })] })).toEqual([]);
+    expect(
+      getCustomFields({ customFields: Array.from({ length: MAX_CUSTOM_FIELDS + 1 }, (_, index) => makeField(`f${index}`)) })
+    ).toEqual([]);
+  });
+});
+
+describe('getShotCustomFieldValues', () => {
+  it('rejects values that are not short strings', () => {
+    expect(getShotCustomFieldValues({ customFieldValues: { vfx: 'Smoke' } })).toEqual({ vfx: 'Smoke' });
+    expect(getShotCustomFieldValues({ customFieldValues: { vfx: 3 } })).toEqual({});
+    expect(getShotCustomFieldValues({ customFieldValues: ['Smoke'] })).toEqual({});
+    expect(
+      getShotCustomFieldValues({ customFieldValues: { vfx: 'x'.repeat(MAX_CUSTOM_FIELD_VALUE_LENGTH + 1) } })
+    ).toEqual({});
+  });
+});
+
+describe('getFilledCustomFieldValues', () => {
+  it('drops blank values', () => {
+    const shot = { customFieldValues: { vfx: 'Smoke', audio: '  ' } };
+    expect(getFilledCustomFieldValues(shot)).toEqual({ vfx: 'Smoke' });
+    expect(hasCustomFieldValues(shot)).toBe(true);
+    expect(hasCustomFieldValues({ customFieldValues: { audio: '' } })).toBe(false);
+  });
+});
+
+describe('getCustomFieldEntries', () => {
+  it('lists filled visible fields in field order', () => {
+    const fields = [makeField('audio'), makeField('hidden', { visible: false }), makeField('vfx'), makeField('empty')];
+    const shot = { customFieldValues: { vfx: 'Smoke', hidden: 'Secret', audio: 'Thunder', empty: ' ' } };
+
+    expect(getCustomFieldEntries(fields, shot)).toEqual([
+      { id: 'audio', name: 'AUDIO', value: 'Thunder' },
+      { id: 'vfx', name: 'VFX', value: 'Smoke' },
+    ]);
+  });
+
+  it('keeps values for fields that no longer exist out of the list', () => {
+    expect(getCustomFieldEntries([], { customFieldValues: { removed: 'Old' } })).toEqual([]);
+  });
+});
+
+describe('getCustomFieldRichText', () => {
+  it('bolds the field name', () => {
+    expect(getCustomFieldRichText({ name: ' VFX notes ', value: 'Smoke' })).toBe('**VFX notes:** Smoke');
+  });
+
+  it('keeps markup in names and values literal', () => {
+    const text = getCustomFieldRichText({ name: 'SFX*', value: '*boom* - crash' });
+    expect(getRichTextPlain(text)).toBe('SFX*: *boom* - crash');
+  });
+
+  it('shows just the value for an unnamed field', () => {
+    expect(getCustomFieldRichText({ name: '  ', value: 'Smoke' })).toBe('Smoke');
+  });
+});
+
+describe('createCustomField', () => {
+  it('trims and caps the name and starts visible', () => {
+    const field = createCustomField(`  ${'x'.repeat(MAX_CUSTOM_FIELD_NAME_LENGTH + 5)}  `);
+    expect(field.name).toHaveLength(MAX_CUSTOM_FIELD_NAME_LENGTH);
+    expect(field.visible).toBe(true);
+    expect(field.id).not.toBe(createCustomField('Other').id);
+  });
+});
@@ -0,0 +1,109 @@
+import { escapeRichText } from './richText';
+
+/**
+ * Project-defined text fields shown under a shot's action and script text,
+ * such as "VFX notes", "Audio/SFX" or "Wardrobe".
+ *
+ * The definitions (name, visibility, order) live in
+ * `TemplateSettings.customFields`. Each shot keeps its values in
+ * `customFieldValues`, keyed by field id, so renaming, hiding or reordering a
+ * field never touches the shots.
+ */
+
+export interface CustomShotField {
+  id: string;
+  name: string;
+  visible: boolean;
+}
+
+export type CustomFieldValues = Record<string, string>;
+
+export interface CustomFieldEntry {
+  id: string;
+  name: string;
+  value: string;
+}
+
+export const MAX_CUSTOM_FIELDS = 8;
+export const MAX_CUSTOM_FIELD_NAME_LENGTH = 40;
+export const MAX_CUSTOM_FIELD_VALUE_LENGTH = 200;
+
+export const isCustomShotField = (value: unknown): value is CustomShotField => {
+  if (!value || typeof value !== 'object') return false;
+  const field = value as Record<string, unknown>;
+  return (
+    typeof field.id === 'string' &&
+    field.id !== '' &&
+    typeof field.name === 'string' &&
+    field.name.length <= MAX_CUSTOM_FIELD_NAME_LENGTH &&
+    typeof field.visible === 'boolean'
+  );
+};
+
+export const isCustomShotFieldList = (value: unknown): value is CustomShotField[] =>
+  Array.isArray(value) && value.length <= MAX_CUSTOM_FIELDS && value.every(isCustomShotField);
+
+export const isCustomFieldValues = (value: unknown): value is CustomFieldValues =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  Object.values(value).every(
+    (fieldValue) => typeof fieldValue === 'string' && fieldValue.length <= MAX_CUSTOM_FIELD_VALUE_LENGTH
+  );
+
+/**
+ * Field definitions in display order; settings saved before custom fields
+ * existed have none.
+ */
+export const getCustomFields = (settings: { customFields?: unknown } | null | undefined): CustomShotField[] =>
+  isCustomShotFieldList(settings?.customFields) ? settings.customFields : [];
+
+export const getVisibleCustomFields = (fields: CustomShotField[]): CustomShotField[] =>
+  fields.filter((field) => field.visible);
+
+export const getShotCustomFieldValues = (
+  shot: { customFieldValues?: unknown } | null | undefined
+): CustomFieldValues => (isCustomFieldValues(shot?.customFieldValues) ? shot.customFieldValues : {});
+
+/**
+ * The values that have text, as sent in export payloads.
+ */
+export const getFilledCustomFieldValues = (
+  shot: { customFieldValues?: unknown } | null | undefined
+): CustomFieldValues =>
+  Object.fromEntries(
+    Object.entries(getShotCustomFieldValues(shot)).filter(([, value]) => value.trim() !== '')
+  );
+
+export const hasCustomFieldValues = (shot: { customFieldValues?: unknown } | null | undefined): boolean =>
+  Object.keys(getFilledCustomFieldValues(shot)).length > 0;
+
+/**
+ * The filled-in visible fields of a shot, in field order. Read-only surfaces
+ * (exports, review) skip empty fields, as they do for camera details.
+ */
+export const getCustomFieldEntries = (
+  fields: CustomShotField[],
+  shot: { customFieldValues?: unknown } | null | undefined
+): CustomFieldEntry[] => {
+  const values = getShotCustomFieldValues(shot);
+  return getVisibleCustomFields(fields)
+    .filter((field) => values[field.id]?.trim())
+    .map((field) => ({ id: field.id, name: field.name, value: values[field.id] }));
+};
+
+/**
+ * One field as rich text markup ("**VFX notes:** value") so every renderer
+ * lays it out with the shared rich text parser.
+ */
+export const getCustomFieldRichText = (entry: Pick<CustomFieldEntry, 'name' | 'value'>): string => {
+  const name = entry.name.trim();
+  const value = escapeRichText(entry.value);
+  return name ? `**${escapeRichText(name)}:** ${value}` : value;
+};
+
+export const createCustomField = (name: string): CustomShotField => ({
+  id: crypto.randomUUID(),
+  name: name.trim().slice(0, MAX_CUSTOM_FIELD_NAME_LENGTH),
+  visible: true,
+});
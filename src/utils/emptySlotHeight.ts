@@ -1,4 +1,4 @@
-import { getShotTextSpacing } from '@/styles/storyboardTheme';
+import { getCameraDetailsSpacing, getShotTextSpacing } from '@/styles/storyboardTheme';
 
 const SHOT_CARD_VERTICAL_PADDING_PX = 16;
 const SHOT_TEXT_GROUP_TOP_MARGIN_PX = 4;
@@ -6,6 +6,8 @@ const SHOT_TEXT_GROUP_TOP_MARGIN_PX = 4;
 interface EmptySlotTextHeightInput {
   showActionText: boolean;
   showScriptText: boolean;
+  showCameraDetails?: boolean;
+  customFieldCount?: number; // Visible custom fields
   actionTextFontSize: number;
   scriptTextFontSize: number;
 }
@@ -15,21 +17,30 @@ const getMinimumTextFieldHeight = (fontSize: number): number => {
   return (spacing.fontSize * spacing.lineHeight) + (spacing.blockPaddingY * 2);
 };
 
+const getMinimumCameraDetailsHeight = (scriptFontSize: number): number => {
+  const spacing = getCameraDetailsSpacing(scriptFontSize);
+  return (spacing.fontSize * spacing.lineHeight) + (spacing.blockPaddingY * 2);
+};
+
 /**
  * Matches the non-image vertical space used by an empty, populated ShotCard:
  * p-2 card padding, an optional mt-1 text group margin, and one empty line per
- * visible action/script field.
+ * visible camera details/action/script/custom field.
  */
 export const getMinimumShotCardNonImageHeight = ({
   showActionText,
   showScriptText,
+  showCameraDetails = false,
+  customFieldCount = 0,
   actionTextFontSize,
   scriptTextFontSize,
 }: EmptySlotTextHeightInput): number => {
-  const hasVisibleText = showActionText || showScriptText;
+  const hasVisibleText = showActionText || showScriptText || showCameraDetails || customFieldCount > 0;
 
   return SHOT_CARD_VERTICAL_PADDING_PX
     + (hasVisibleText ? SHOT_TEXT_GROUP_TOP_MARGIN_PX : 0)
+    + (showCameraDetails ? getMinimumCameraDetailsHeight(scriptTextFontSize) : 0)
     + (showActionText ? getMinimumTextFieldHeight(actionTextFontSize) : 0)
-    + (showScriptText ? getMinimumTextFieldHeight(scriptTextFontSize) : 0);
+    + (showScriptText ? getMinimumTextFieldHeight(scriptTextFontSize) : 0)
+    + (customFieldCount * getMinimumTextFieldHeight(scriptTextFontSize));
 };
@@ -6,8 +6,24 @@ import {
   ExportError
 } from '@/utils/types/exportTypes';
 import { LayoutCalculator } from './layoutCalculator';
-import { getShotTextSpacing, normalizeShotTextFontSize } from '@/styles/storyboardTheme';
+import { getCameraDetailsSpacing, getShotTextSpacing, normalizeShotTextFontSize } from '@/styles/storyboardTheme';
+import { formatCameraDetails } from '@/utils/cameraDetails';
+import {
+  SHOT_REVIEW_STATUS_OPTIONS,
+  getShotReviewStatus,
+  getShotReviewStatusOption,
+} from '@/utils/shotReviewStatus';
 import { getStoryboardHeaderAlignmentInset } from '@/utils/storyboardLayout';
+import { drawSketchOnCanvas } from '@/utils/sketch';
+import {
+  applyImageOrientationToCanvas,
+  calculateCoverImageGeometry,
+  getImageOrientation,
+  type ImageOrientation,
+} from '@/utils/imageGeometry';
+import { drawAnnotationsOnCanvas } from '@/utils/annotations';
+import { drawRichTextOnCanvas } from '@/utils/richText';
+import { getCustomFieldRichText } from '@/utils/customFields';
 
 export class CanvasRenderer {
   private canvas: HTMLCanvasElement;
@@ -360,7 +376,8 @@ export class CanvasRenderer {
         imageBounds, 
         shot.imageScale, 
         shot.imageOffsetX, 
-        shot.imageOffsetY
+        shot.imageOffsetY,
+        getImageOrientation(shot)
       );
     } else {
       // Empty shot placeholder - clean background only for export
@@ -378,16 +395,28 @@ export class CanvasRenderer {
       // No placeholder text or icons in export - keeps it clean and professional
     }
     
+    // Sketch and annotation layers over the image frame
+    drawSketchOnCanvas(this.ctx, shot.sketchStrokes ?? [], imageBounds);
+    drawAnnotationsOnCanvas(this.ctx, shot.annotations ?? [], imageBounds);
+    
     // Shot number - render using DOM-like approach for consistency
     if (shot.number) {
       await this.renderShotNumberPrecise(shot.number, bounds, scale);
     }
     
+    // Review status badge - bottom-left of the image (bottom-1 left-1 in ShotCard)
+    if (shot.templateSettings?.showReviewStatus) {
+      this.renderReviewStatusBadge(shot, imageBounds, scale);
+    }
+    
     // Text areas (positioned below image with exact spacing from ShotCard)
     const showActionText = shot.templateSettings?.showActionText ?? true;
     const showScriptText = shot.templateSettings?.showScriptText ?? true;
+    const showCameraDetails = shot.templateSettings?.showCameraDetails ?? false;
+    const cameraDetails = showCameraDetails ? formatCameraDetails(shot.camera ?? {}) : '';
+    const customFields = shot.customFields ?? [];
     
-    if ((shot.actionText && showActionText) || (shot.scriptText && showScriptText)) {
+    if (cameraDetails || (shot.actionText && showActionText) || (shot.scriptText && showScriptText) || customFields.length > 0) {
       // Text container starts after image with mt-1 spacing (6px to match visual spacing)
       let textY = imageY + scaledImageHeight + (6 * scale); // mt-1 = 4px + extra visual spacing
       const textPaddingX = 4 * scale; // px-1 = 4px horizontal padding
@@ -397,6 +426,31 @@ export class CanvasRenderer {
       const textX = imageX + textPaddingX; // Account for px-1 padding
       const textWidth = scaledImageContainerWidth - (textPaddingX * 2); // Account for px-1 padding on both sides
       
+      // Camera details summary line (sits above action text, as in ShotCard)
+      if (cameraDetails) {
+        const cameraDetailsSpacing = getCameraDetailsSpacing(this.storyboardTheme?.scriptText?.fontSize);
+        const cameraPaddingY = cameraDetailsSpacing.blockPaddingY * scale;
+        
+        const cameraStyle: TextStyle = {
+          family: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          size: cameraDetailsSpacing.fontSize * scale,
+          weight: '500', // font-medium in CSS
+          color: this.storyboardTheme?.scriptText?.text || '#6b7280',
+          lineHeight: cameraDetailsSpacing.lineHeight,
+          textAlign: 'left'
+        };
+        
+        const cameraTextEndY = this.renderTextLines(
+          [cameraDetails],
+          textX,
+          textY + cameraPaddingY,
+          textWidth,
+          cameraStyle
+        );
+        
+        textY = cameraTextEndY + cameraPaddingY;
+      }
+      
       // Action text (if present and enabled)
       if (shot.actionText && showActionText) {
         // Add vertical padding to Y position
@@ -412,15 +466,14 @@ export class CanvasRenderer {
           textAlign: 'left'
         };
         
-        // Handle line breaks in text - NO max lines constraint (ShotCard auto-expands)
-        const actionLines = this.processTextWithLineBreaks(shot.actionText);
-        const actionTextEndY = this.renderTextLines(
-          actionLines,
+        // Formatted lines with wrapping - NO max lines constraint (ShotCard auto-expands)
+        const actionTextEndY = drawRichTextOnCanvas(
+          this.ctx,
+          shot.actionText,
           textX,
           actionTextY,
           textWidth,
           actionStyle
-          // No maxLines parameter - let it show all lines
         );
         
         // Update textY for next element (add bottom padding)
@@ -447,16 +500,42 @@ export class CanvasRenderer {
           textAlign: 'left'
         };
         
-        // Handle line breaks in text - NO max lines constraint (ShotCard auto-expands)
-        const scriptLines = this.processTextWithLineBreaks(shot.scriptText);
-        this.renderTextLines(
-          scriptLines,
+        // Formatted lines with wrapping - NO max lines constraint (ShotCard auto-expands)
+        const scriptTextEndY = drawRichTextOnCanvas(
+          this.ctx,
+          shot.scriptText,
           textX,
           scriptTextY,
           textWidth,
           scriptStyle
-          // No maxLines parameter - let it show all lines
         );
+        
+        textY = scriptTextEndY + scriptPaddingY;
+      }
+      
+      // Custom fields (script text styling, "Name: value" per field)
+      if (customFields.length > 0) {
+        const fieldPaddingY = scriptTextSpacing.blockPaddingY * scale;
+        const fieldStyle: TextStyle = {
+          family: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          size: scriptTextSpacing.fontSize * scale,
+          weight: 'normal',
+          color: this.storyboardTheme?.scriptText?.text || '#6b7280',
+          lineHeight: scriptTextSpacing.lineHeight,
+          textAlign: 'left'
+        };
+        
+        customFields.forEach((entry) => {
+          const fieldTextEndY = drawRichTextOnCanvas(
+            this.ctx,
+            getCustomFieldRichText(entry),
+            textX,
+            textY + fieldPaddingY,
+            textWidth,
+            fieldStyle
+          );
+          textY = fieldTextEndY + fieldPaddingY;
+        });
       }
     }
   }
@@ -469,7 +548,8 @@ export class CanvasRenderer {
     bounds: Rectangle,
     imageScale: number = 1.0,
     imageOffsetX: number = 0,
-    imageOffsetY: number = 0
+    imageOffsetY: number = 0,
+    orientation: ImageOrientation = getImageOrientation(null)
   ): Promise<void> {
     // Shot images use rounded-md (6px) in ShotImage component
     const borderRadius = 6;
@@ -479,7 +559,8 @@ export class CanvasRenderer {
       borderRadius,
       imageScale,
       imageOffsetX,
-      imageOffsetY
+      imageOffsetY,
+      orientation
     );
   }
 
@@ -590,7 +671,8 @@ export class CanvasRenderer {
     borderRadius: number,
     imageScale: number = 1.0,
     imageOffsetX: number = 0,
-    imageOffsetY: number = 0
+    imageOffsetY: number = 0,
+    orientation: ImageOrientation = getImageOrientation(null)
   ): Promise<void> {
     if (imageData instanceof HTMLImageElement) {
       // First, fill the container background - matches ShotCard bg-gray-100
@@ -605,24 +687,21 @@ export class CanvasRenderer {
       this.ctx.fill();
       this.ctx.restore();
       
-      // Calculate aspect ratio preserving fit (object-cover behavior)
-      const imgAspect = imageData.naturalWidth / imageData.naturalHeight;
-      const boundsAspect = bounds.width / bounds.height;
-      
-      let drawWidth = bounds.width;
-      let drawHeight = bounds.height;
-      let drawX = bounds.x;
-      let drawY = bounds.y;
-      
-      if (imgAspect > boundsAspect) {
-        // Image is wider - fit to height (crop sides)
-        drawWidth = bounds.height * imgAspect;
-        drawX = bounds.x + (bounds.width - drawWidth) / 2;
-      } else {
-        // Image is taller - fit to width (crop top/bottom)
-        drawHeight = bounds.width / imgAspect;
-        drawY = bounds.y + (bounds.height - drawHeight) / 2;
-      }
+      // Aspect ratio preserving fit (object-cover behavior), sized so a
+      // rotated image still covers the container
+      const geometry = calculateCoverImageGeometry(
+        imageData.naturalWidth,
+        imageData.naturalHeight,
+        bounds.width,
+        bounds.height,
+        orientation.rotation
+      );
+      if (!geometry) return;
+
+      const drawWidth = geometry.width;
+      const drawHeight = geometry.height;
+      const drawX = bounds.x + geometry.left;
+      const drawY = bounds.y + geometry.top;
 
       // Draw the image with rounded corners and CSS-like transforms
       this.ctx.save();
@@ -650,8 +729,11 @@ export class CanvasRenderer {
       
       // 3. Apply translate (in scaled space - CSS translate is applied AFTER scale)
       this.ctx.translate(imageOffsetX, imageOffsetY);
+
+      // 4. Rotation and flips sit innermost, as in the card's CSS transform
+      applyImageOrientationToCanvas(this.ctx, orientation);
       
-      // 4. Translate back so the image center is at origin, then draw
+      // 5. Translate back so the image center is at origin, then draw
       // The image needs to be centered relative to the transform origin
       const imageCenterOffsetX = (drawX + drawWidth / 2) - centerX;
       const imageCenterOffsetY = (drawY + drawHeight / 2) - centerY;
@@ -699,7 +781,8 @@ export class CanvasRenderer {
         borderRadius,
         imageScale,
         imageOffsetX,
-        imageOffsetY
+        imageOffsetY,
+        orientation
       );
     }
   }
@@ -768,6 +851,64 @@ export class CanvasRenderer {
     this.ctx.fillText(number, textX, textY);
   }
 
+  /**
+   * Render review status pill, matching getShotReviewStatusBadgeStyle
+   */
+  private renderReviewStatusBadge(shot: ExportShot, imageBounds: Rectangle, scale: number): void {
+    const option = getShotReviewStatusOption(getShotReviewStatus(shot));
+    const fontSize = 10 * scale;
+    const badgeHeight = 16 * scale;
+    const horizontalPadding = 6 * scale;
+    const inset = 4 * scale;
+    
+    this.setFont('600', fontSize);
+    const badgeWidth = this.ctx.measureText(option.label).width + (horizontalPadding * 2);
+    const badgeX = imageBounds.x + inset;
+    const badgeY = imageBounds.y + imageBounds.height - inset - badgeHeight;
+    
+    this.ctx.fillStyle = option.color;
+    this.ctx.beginPath();
+    if (typeof this.ctx.roundRect === 'function') {
+      this.ctx.roundRect(badgeX, badgeY, badgeWidth, badgeHeight, badgeHeight / 2);
+    } else {
+      this.ctx.rect(badgeX, badgeY, badgeWidth, badgeHeight);
+    }
+    this.ctx.fill();
+    
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(option.label, badgeX + horizontalPadding, badgeY + (badgeHeight / 2));
+  }
+
+  /**
+   * Render review status legend on the left of the footer (ShotReviewStatusLegend)
+   */
+  private renderReviewStatusLegend(x: number, y: number, scale: number, color: string): void {
+    const fontSize = 10 * scale;
+    const dotSize = 6 * scale;
+    const dotGap = 4 * scale; // gap-1
+    const itemGap = 12 * scale; // gap-3
+    const centerY = y + (fontSize * 1.2) / 2;
+    let cursorX = x;
+    
+    this.setFont('normal', fontSize, 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif');
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'middle';
+    
+    for (const option of SHOT_REVIEW_STATUS_OPTIONS) {
+      this.ctx.fillStyle = option.color;
+      this.ctx.beginPath();
+      this.ctx.arc(cursorX + dotSize / 2, centerY, dotSize / 2, 0, Math.PI * 2);
+      this.ctx.fill();
+      cursorX += dotSize + dotGap;
+      
+      this.ctx.fillStyle = color;
+      this.ctx.fillText(option.label, cursorX, centerY);
+      cursorX += this.ctx.measureText(option.label).width + itemGap;
+    }
+  }
+
   /**
    * Render shot number (legacy method)
    */
@@ -999,7 +1140,8 @@ export class CanvasRenderer {
     const { layout, header, grid } = exportPage;
     const { footer } = layout;
     
-    if (!footer || !header.templateSettings.showPageNumber) {
+    const { showPageNumber, showReviewStatus } = header.templateSettings;
+    if (!footer || (!showPageNumber && !showReviewStatus)) {
       return;
     }
     
@@ -1013,6 +1155,15 @@ export class CanvasRenderer {
     const alignmentPadding = getStoryboardHeaderAlignmentInset(grid.config.cols) * scale;
     const rightPadding = 24 * scale; // px-6 from ShotGrid footer
     const topPadding = 12 * scale; // py-3 from ShotGrid footer
+    const textColor = this.storyboardTheme?.header?.text || '#6b7280'; // Use Header color from theme, fallback to gray
+    
+    if (showReviewStatus) {
+      this.renderReviewStatusLegend(footer.x + alignmentPadding, footer.y + topPadding, scale, textColor);
+    }
+    
+    if (!showPageNumber) {
+      return;
+    }
     
     // Render page number text to match ShotGrid exactly
     const pageNumberText = `Page ${pageNumber}`;
@@ -1021,7 +1172,7 @@ export class CanvasRenderer {
       family: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
       size: 10 * scale, // text-xs in preview mode
       weight: 'normal',
-      color: this.storyboardTheme?.header?.text || '#6b7280', // Use Header color from theme, fallback to gray
+      color: textColor,
       lineHeight: 1.2,
       textAlign: 'right'
     };
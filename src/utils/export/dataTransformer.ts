@@ -17,6 +17,11 @@ import {
   LayoutConfig,
   ExportError
 } from '@/utils/types/exportTypes';
+import { pickCameraDetails } from '@/utils/cameraDetails';
+import { getExportedShots, getShotReviewStatus } from '@/utils/shotReviewStatus';
+import { getSketchStrokes } from '@/utils/sketch';
+import { getShotAnnotations } from '@/utils/annotations';
+import { getCustomFieldEntries, getCustomFields } from '@/utils/customFields';
 import { LayoutCalculator } from './layoutCalculator';
 import { RENDERED_PAGE_WIDTH_PX } from '@/utils/pageSize';
 
@@ -52,18 +57,19 @@ export class DataTransformer {
         aspectRatio: page.aspectRatio
       };
       
-      // Calculate dimensions and layout (include page number footer if enabled)
-      const showPageNumber = storyboardState.templateSettings.showPageNumber;
+      // Calculate dimensions and layout (include footer if page number or status legend is enabled)
+      const showFooter = storyboardState.templateSettings.showPageNumber
+        || storyboardState.templateSettings.showReviewStatus;
       const dimensions = LayoutCalculator.calculateExportDimensions(
         { rows: page.gridRows, cols: page.gridCols },
         page.aspectRatio,
         finalTargetWidth,
         scale,
-        showPageNumber,
+        showFooter,
         storyboardState.storyboardTheme
       );
       
-      const layout = LayoutCalculator.calculateLayout(gridConfig, dimensions, showPageNumber);
+      const layout = LayoutCalculator.calculateLayout(gridConfig, dimensions, showFooter);
       
       // Transform header data
       const header = await this.transformHeader(storyboardState, layout.header);
@@ -130,9 +136,10 @@ export class DataTransformer {
     templateSettings: any
   ): Promise<ExportGrid> {
     const shots: ExportShot[] = [];
+    const pageShots = getExportedShots(page.shots, templateSettings.showOmittedShots);
     
-    for (let i = 0; i < page.shots.length; i++) {
-      const shot = page.shots[i];
+    for (let i = 0; i < pageShots.length; i++) {
+      const shot = pageShots[i];
       const bounds = layout.shotBounds[i];
       
       if (bounds) {
@@ -195,10 +202,18 @@ export class DataTransformer {
       imageData,
       actionText: shot.actionText,
       scriptText: shot.scriptText,
+      camera: pickCameraDetails(shot),
+      reviewStatus: getShotReviewStatus(shot),
       bounds,
       imageScale: shot.imageScale,
       imageOffsetX: shot.imageOffsetX,
       imageOffsetY: shot.imageOffsetY,
+      imageRotation: shot.imageRotation,
+      imageFlipX: shot.imageFlipX,
+      imageFlipY: shot.imageFlipY,
+      sketchStrokes: getSketchStrokes(shot),
+      annotations: getShotAnnotations(shot),
+      customFields: getCustomFieldEntries(getCustomFields(templateSettings), shot),
       templateSettings // Pass template settings to renderer
     };
   }
@@ -8,21 +8,19 @@ import {
   type ServerPDFPaperSize,
   type ServerPDFShotContent,
 } from '@/utils/types/exportTypes';
-import { resolvePageSizeMode } from '@/utils/pageSize';
+import { getServerPdfPageSizeFields } from '@/utils/export/serverPdfPayload';
+import { pickCameraDetails } from '@/utils/cameraDetails';
+import { getExportedShots, getShotReviewStatus } from '@/utils/shotReviewStatus';
+import { getPageSceneHeaders } from '@/utils/scenes';
+import { getSketchStrokes, hasSketch } from '@/utils/sketch';
+import { getShotAnnotations, hasAnnotations } from '@/utils/annotations';
+import { getCustomFields, getFilledCustomFieldValues, hasCustomFieldValues } from '@/utils/customFields';
+import { getHeaderFields, getHeaderLayout, getLogoPlacement } from '@/utils/headerLayout';
+import { getPageFooterContent, getPageNumberFormat, hasPageFooterContent } from '@/utils/pageFooter';
+import { normalizeImageRotation } from '@/utils/imageGeometry';
 
 const DEFAULT_PAPER_SIZE: ServerPDFPaperSize = 'canvas';
 
-function getPaperSizeFromPageMode(pageSizeMode: unknown): ServerPDFPaperSize {
-  const resolved = resolvePageSizeMode(pageSizeMode);
-  if (resolved === 'dynamic') {
-    return 'canvas';
-  }
-  if (resolved === 'letter-portrait') {
-    return 'letter-portrait';
-  }
-  return 'letter-landscape';
-}
-
 declare global {
   interface Window {
     __DEBUG_BUILD_SERVER_PDF_PAYLOAD__?: (
@@ -108,6 +106,8 @@ async function normalizeShot(shot: Shot): Promise<ServerPDFShotContent> {
     number: shot.number,
     actionText: shot.actionText || '',
     scriptText: shot.scriptText || '',
+    camera: pickCameraDetails(shot),
+    reviewStatus: getShotReviewStatus(shot),
     image: await normalizeImageSource({
       dataUrl: shot.imageData,
       url: shot.imageUrl,
@@ -117,6 +117,12 @@ async function normalizeShot(shot: Shot): Promise<ServerPDFShotContent> {
     imageScale: shot.imageScale ?? 1,
     imageOffsetX: shot.imageOffsetX ?? 0,
     imageOffsetY: shot.imageOffsetY ?? 0,
+    imageRotation: normalizeImageRotation(shot.imageRotation ?? 0),
+    imageFlipX: Boolean(shot.imageFlipX),
+    imageFlipY: Boolean(shot.imageFlipY),
+    ...(hasSketch(shot) ? { sketch: getSketchStrokes(shot) } : {}),
+    ...(hasAnnotations(shot) ? { annotations: getShotAnnotations(shot) } : {}),
+    ...(hasCustomFieldValues(shot) ? { customFieldValues: getFilledCustomFieldValues(shot) } : {}),
   };
 }
 
@@ -155,14 +161,27 @@ export async function buildCurrentPageServerPdfPayload(
     throw new Error(`Current page index could not be resolved for page id: ${currentPage.id}`);
   }
 
-  const pageShots = shotStore.getShotsById(currentPage.shots);
+  const pageShots = getExportedShots(
+    shotStore.getShotsById(currentPage.shots),
+    projectStore.templateSettings.showOmittedShots
+  );
   const normalizedShots = await Promise.all(pageShots.map((shot) => normalizeShot(shot)));
+  const sceneHeaders = getPageSceneHeaders({
+    pageShotIds: pageShots.map((shot) => shot.id),
+    shotOrder: shotStore.shotOrder,
+    shots: shotStore.shots,
+    scenes: projectStore.scenes,
+    sceneNumberFormat: projectStore.templateSettings.sceneNumberFormat,
+  });
+
+  const pageSizeFields = getServerPdfPageSizeFields(projectStore.pageSizeMode, projectStore.customPageSize);
+  const footer = getPageFooterContent(projectStore.templateSettings);
 
   const payload: ServerPDFExportPayload = {
     schemaVersion: 1,
     filename: buildFilename(currentPage.name),
-    paperSize: options.paperSize ?? getPaperSizeFromPageMode(projectStore.pageSizeMode),
-    pageSizeMode: resolvePageSizeMode(projectStore.pageSizeMode),
+    ...pageSizeFields,
+    paperSize: options.paperSize ?? pageSizeFields.paperSize,
     template: {
       showLogo: projectStore.templateSettings.showLogo,
       showProjectName: projectStore.templateSettings.showProjectName,
@@ -171,7 +190,15 @@ export async function buildCurrentPageServerPdfPayload(
       showJobInfo: projectStore.templateSettings.showJobInfo,
       showActionText: projectStore.templateSettings.showActionText,
       showScriptText: projectStore.templateSettings.showScriptText,
+      showCameraDetails: projectStore.templateSettings.showCameraDetails ?? false,
+      showReviewStatus: projectStore.templateSettings.showReviewStatus ?? false,
+      showOmittedShots: projectStore.templateSettings.showOmittedShots ?? true,
       showPageNumber: projectStore.templateSettings.showPageNumber,
+      pageNumberFormat: getPageNumberFormat(projectStore.templateSettings),
+      customFields: getCustomFields(projectStore.templateSettings),
+      headerLayout: getHeaderLayout(projectStore.templateSettings),
+      logoPlacement: getLogoPlacement(projectStore.templateSettings),
+      headerFields: getHeaderFields(projectStore.templateSettings),
     },
     theme: projectStore.storyboardTheme,
     project: {
@@ -194,7 +221,12 @@ export async function buildCurrentPageServerPdfPayload(
       gridCols: currentPage.gridCols,
       aspectRatio: currentPage.aspectRatio,
       shots: normalizedShots,
+      ...(sceneHeaders.length > 0
+        ? { sceneHeaders: sceneHeaders.map(({ shotId, label, name, continued }) => ({ shotId, label, name, continued })) }
+        : {}),
     },
+    ...(hasPageFooterContent(footer) ? { footer } : {}),
+    pageCount: pageStore.pages.length,
   };
 
   return payload;
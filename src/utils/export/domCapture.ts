@@ -9,14 +9,21 @@ import {
   ExportDimensions,
   ExportError
 } from '@/utils/types/exportTypes';
-import { StoryboardState } from '@/store/storyboardStore';
+import { Shot, StoryboardState } from '@/store/storyboardStore';
 import { DataTransformer } from './dataTransformer';
+import { pickCameraDetails } from '@/utils/cameraDetails';
+import { getExportedShots, getShotReviewStatus } from '@/utils/shotReviewStatus';
+import { getSketchStrokes } from '@/utils/sketch';
+import { getShotAnnotations } from '@/utils/annotations';
+import { getCustomFieldEntries, getCustomFields } from '@/utils/customFields';
+import { getHeaderFieldEntries, getHeaderFields, getHeaderLayout } from '@/utils/headerLayout';
+import { getPageFooterContent, type PageFooterContent } from '@/utils/pageFooter';
 
 export interface DOMCaptureResult {
   layout: LayoutConfig;
   header: ExportHeader;
   grid: ExportGrid;
-  footer: { bounds: Rectangle; text: string | null; justify: 'start' | 'center' | 'end' } | null;
+  footer: { bounds: Rectangle; content: PageFooterContent; pageLabel: string | null } | null;
   backgroundColor: string;
   storyboardState: any;
   sourcePageElement: HTMLElement;
@@ -70,38 +77,16 @@ export class DOMCapture {
       // Capture grid layout
       const { grid, gridBounds } = await this.captureGrid(pageElement, storyboardState, scale, pageRect);
 
-      // Capture footer layout (page number)
-      let footerBounds: Rectangle | null = null;
-      let footerText: string | null = null;
-      let footerJustify: 'start' | 'center' | 'end' = 'end'; // Default to right-aligned
-      
-      if (storyboardState.templateSettings.showPageNumber) {
-        // Find the footer element - look for the flex container with justify-end
-        const flexContainer = Array.from(pageElement.querySelectorAll('.flex.justify-end, .flex.justify-center, .flex.justify-start'));
-        const footerParent = flexContainer.find(el => el.textContent?.trim().startsWith('Page '));
-        
-        if (footerParent) {
-          footerBounds = this.getElementBounds(footerParent, pageRect, scale);
-          footerText = footerParent.textContent?.trim() || null;
-          
-          // Determine alignment from classes
-          const classes = footerParent.className;
-          if (classes.includes('justify-end')) {
-            footerJustify = 'end';
-          } else if (classes.includes('justify-center')) {
-            footerJustify = 'center';
-          } else if (classes.includes('justify-start')) {
-            footerJustify = 'start';
+      // Capture footer layout. The page number is read from the DOM, where it
+      // is already in the chosen format with the export's page numbering.
+      const footerElement = pageElement.querySelector('[data-page-footer]');
+      const footer = footerElement
+        ? {
+            bounds: this.getElementBounds(footerElement, pageRect, scale),
+            content: getPageFooterContent(storyboardState.templateSettings),
+            pageLabel: footerElement.querySelector('.footer-page-number')?.textContent?.trim() || null
           }
-          
-          console.log('🔍 Footer DEBUG:', {
-            text: footerText,
-            justify: footerJustify,
-            classes,
-            bounds: footerBounds
-          });
-        }
-      }
+        : null;
 
       // Create layout config
       const layout: LayoutConfig = {
@@ -115,7 +100,7 @@ export class DOMCapture {
         layout,
         header,
         grid,
-        footer: footerBounds ? { bounds: footerBounds, text: footerText, justify: footerJustify } : null,
+        footer,
         backgroundColor: storyboardState.storyboardTheme?.contentBackground || '#ffffff',
         storyboardState,
         sourcePageElement: pageElement,
@@ -156,6 +141,8 @@ export class DOMCapture {
       clientAgency: storyboardState.clientAgency,
       jobInfo: storyboardState.jobInfo,
       logoImageData,
+      headerLayout: getHeaderLayout(storyboardState.templateSettings),
+      headerFields: getHeaderFieldEntries(getHeaderFields(storyboardState.templateSettings)),
       templateSettings: { ...storyboardState.templateSettings }
     };
   }
@@ -206,9 +193,14 @@ export class DOMCapture {
       child.classList.contains('group') || child.querySelector('.shot-number')
     );
 
+    // The export grid collapses omitted shots, so index into the same list it renders
+    const exportedShots = getExportedShots(activePage?.shots ?? [], storyboardState.templateSettings.showOmittedShots);
+
     for (let i = 0; i < shotElements.length; i++) {
       const shotElement = shotElements[i] as HTMLElement;
-      const shot = await this.captureShot(shotElement, pageRect, scale, storyboardState, i);
+      const shotCardId = shotElement.dataset.shotCardId;
+      const shotData = (shotCardId && exportedShots.find(shot => shot.id === shotCardId)) || exportedShots[i];
+      const shot = await this.captureShot(shotElement, pageRect, scale, storyboardState, shotData);
       if (shot) {
         shots.push(shot);
       }
@@ -231,16 +223,11 @@ export class DOMCapture {
     pageRect: DOMRect,
     scale: number,
     storyboardState: StoryboardState,
-    index: number
+    shotData: Shot | undefined
   ): Promise<ExportShot | null> {
     try {
-      const shotRect = shotElement.getBoundingClientRect();
       const bounds = this.getElementBounds(shotElement, pageRect, scale);
 
-      // Find shot data from store
-      const activePage = storyboardState.pages.find(p => p.id === storyboardState.activePageId);
-      const shotData = activePage?.shots[index];
-
       if (!shotData) {
         return null;
       }
@@ -278,11 +265,19 @@ export class DOMCapture {
         imageData: imageData,
         actionText: shotData.actionText,
         scriptText: shotData.scriptText,
+        camera: pickCameraDetails(shotData),
+        reviewStatus: getShotReviewStatus(shotData),
+        sketchStrokes: getSketchStrokes(shotData),
+        annotations: getShotAnnotations(shotData),
+        customFields: getCustomFieldEntries(getCustomFields(storyboardState.templateSettings), shotData),
         bounds: bounds,
         // Pass transform data directly from store (percentage values)
         imageScale: shotData.imageScale,
         imageOffsetX: shotData.imageOffsetX,
         imageOffsetY: shotData.imageOffsetY,
+        imageRotation: shotData.imageRotation,
+        imageFlipX: shotData.imageFlipX,
+        imageFlipY: shotData.imageFlipY,
         templateSettings: storyboardState.templateSettings
       };
     } catch (error) {
@@ -1,5 +1,6 @@
 import { 
   ExportStoryboardPage,
+  ExportHeader,
   ExportShot,
   Rectangle,
   TextStyle,
@@ -7,6 +8,19 @@ import {
 } from '@/utils/types/exportTypes';
 import { DOMCaptureResult } from './domCapture';
 import { getShotTextSpacing } from '@/styles/storyboardTheme';
+import { formatCameraDetails } from '@/utils/cameraDetails';
+import { getShotReviewStatus, getShotReviewStatusOption } from '@/utils/shotReviewStatus';
+import { drawSketchOnCanvas } from '@/utils/sketch';
+import { drawAnnotationsOnCanvas } from '@/utils/annotations';
+import { drawRichTextOnCanvas } from '@/utils/richText';
+import { getCustomFieldRichText } from '@/utils/customFields';
+import { getHeaderFieldLabelText } from '@/utils/headerLayout';
+import {
+  applyImageOrientationToCanvas,
+  calculateCoverImageGeometry,
+  getImageOrientation,
+  type ImageOrientation,
+} from '@/utils/imageGeometry';
 
 // Untransformed CSS geometry from the canonical offscreen image element.
 interface RenderedDOMImageGeometry {
@@ -115,11 +129,14 @@ export class DOMRenderer {
       // Render grid using DOM-captured layout
       await this.renderGridFromDOM(grid, layout.canvas.scale, sourcePageElement);
       
-      // Render footer (page number) if present
-      if (footer && footer.text) {
-        this.renderFooterFromDOM(footer.bounds, footer.text, footer.justify, layout.canvas.scale);
+      // Render footer (text, date, revision and page number) if present
+      if (footer) {
+        this.renderFooterFromDOM(footer, sourcePageElement);
       }
       
+      // Review status key sits on the left of the footer
+      this.renderReviewStatusLegend(sourcePageElement);
+      
     } catch (error) {
       throw new ExportError(
         `Failed to render from DOM capture: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -150,6 +167,9 @@ export class DOMRenderer {
     
     // Render text elements
     await this.renderHeaderText(headerElement, header, headerBounds, scale);
+    
+    // Render custom header fields (placed by the header layout in the DOM)
+    this.renderHeaderFields(headerElement, header, pageElement);
   }
   
   /**
@@ -226,6 +246,28 @@ export class DOMRenderer {
     });
   }
 
+  /**
+   * Render the header fields row (HeaderFieldsRow) from its DOM layout
+   */
+  private renderHeaderFields(headerElement: Element, header: ExportHeader, pageElement: Element): void {
+    const entries = header.headerFields ?? [];
+    headerElement.querySelectorAll<HTMLElement>('.header-field').forEach((fieldElement) => {
+      const entry = entries.find(candidate => candidate.id === fieldElement.dataset.headerFieldId);
+      if (!entry) return;
+      
+      const labelElement = fieldElement.querySelector('.header-field-label');
+      const label = getHeaderFieldLabelText(entry);
+      if (labelElement && label) {
+        this.renderInlineText(labelElement, label, pageElement);
+      }
+      
+      const valueElement = fieldElement.querySelector('.header-field-value');
+      if (valueElement) {
+        this.renderInlineText(valueElement, entry.value, pageElement);
+      }
+    });
+  }
+
   private findHeaderStaticTextElement(
     headerElement: Element,
     text: string,
@@ -300,6 +342,32 @@ export class DOMRenderer {
     for (const shot of grid.shots) {
       await this.renderShotFromDOM(shot, scale, pageElement);
     }
+    
+    // Scene header rows span the grid above each scene's first shot
+    this.renderSceneHeaders(pageElement);
+  }
+  
+  /**
+   * Render scene header rows (SceneHeader) from their DOM layout
+   */
+  private renderSceneHeaders(pageElement: Element): void {
+    pageElement.querySelectorAll('.scene-header').forEach((headerElement) => {
+      const bounds = this.getCanvasBounds(headerElement, pageElement);
+      const computedStyle = window.getComputedStyle(headerElement);
+      const borderWidth = (parseFloat(computedStyle.borderBottomWidth) || 0) * this.scale;
+      if (borderWidth > 0) {
+        this.ctx.fillStyle = computedStyle.borderBottomColor;
+        this.ctx.fillRect(bounds.x, bounds.y + bounds.height - borderWidth, bounds.width, borderWidth);
+      }
+      
+      // Label, name (an input on the live page) and "(cont'd)"; the remove button has no text
+      Array.from(headerElement.children).forEach((child) => {
+        const text = child instanceof HTMLInputElement ? child.value : child.textContent?.trim() || '';
+        if (text) {
+          this.renderInlineText(child, text, pageElement);
+        }
+      });
+    });
   }
   
   /**
@@ -315,15 +383,12 @@ export class DOMRenderer {
       child.classList.contains('group') || child.querySelector('.shot-number')
     );
     
-    // Find shot element by matching shot number or position
-    let shotElement: Element | null = null;
-    for (const element of shotElements) {
-      const numberElement = element.querySelector('.shot-number');
-      if (numberElement?.textContent === shot.number) {
-        shotElement = element;
-        break;
-      }
-    }
+    // Find shot element by its card id, falling back to the shot number
+    const shotElement = shotElements.find(
+      element => (element as HTMLElement).dataset.shotCardId === shot.id
+    ) ?? shotElements.find(
+      element => element.querySelector('.shot-number')?.textContent === shot.number
+    );
     
     if (!shotElement) return;
     
@@ -367,25 +432,35 @@ export class DOMRenderer {
       this.ctx.stroke();
     }
     
-    // Render shot image
-    await this.renderShotImage(shot, shotElement, bounds, scale);
+    // Render shot image, then the sketch and annotation layers over the image frame
+    const imageBounds = await this.renderShotImage(shot, shotElement, bounds, scale);
+    if (imageBounds) {
+      drawSketchOnCanvas(this.ctx, shot.sketchStrokes ?? [], imageBounds);
+      drawAnnotationsOnCanvas(this.ctx, shot.annotations ?? [], imageBounds);
+    }
     
     // Render shot number
     this.renderShotNumber(shot, shotElement, bounds, scale);
     
+    // Render review status pill (the live card shows it even with the setting off)
+    if (shot.templateSettings?.showReviewStatus) {
+      this.renderReviewStatusBadge(shot, shotElement, pageElement);
+    }
+    
     // Render shot text
     this.renderShotText(shot, shotElement, bounds, scale);
   }
   
   /**
-   * Render shot image using DOM positioning
+   * Render shot image using DOM positioning. Returns the image frame bounds,
+   * or null when the card has no image viewport.
    */
   private async renderShotImage(
     shot: ExportShot,
     shotElement: Element,
     shotBounds: Rectangle,
     scale: number
-  ): Promise<void> {
+  ): Promise<Rectangle | null> {
     // Find image container in shot element
     const viewportSelectors = [
       '[data-image-viewport]',
@@ -397,7 +472,7 @@ export class DOMRenderer {
       .map((selector) => shotElement.querySelector(selector))
       .find((element): element is Element => Boolean(element));
     
-    if (!imageContainer) return;
+    if (!imageContainer) return null;
     
     const containerRect = imageContainer.getBoundingClientRect();
     const shotRect = shotElement.getBoundingClientRect();
@@ -464,12 +539,15 @@ export class DOMRenderer {
         imageOffsetX,
         imageOffsetY,
         'cover',
-        renderedImageGeometry
+        renderedImageGeometry,
+        { orientation: getImageOrientation(shot) }
       );
     } else {
       // Render placeholder
       this.renderPlaceholder(imageBounds, scale);
     }
+
+    return imageBounds;
   }
 
   /**
@@ -626,6 +704,123 @@ export class DOMRenderer {
     this.ctx.fillText(shot.number, textX, textY);
   }
   
+  /**
+   * Element bounds on the canvas, measured from the page element
+   */
+  private getCanvasBounds(element: Element, pageElement: Element): Rectangle {
+    const rect = element.getBoundingClientRect();
+    const pageRect = pageElement.getBoundingClientRect();
+    return {
+      x: (rect.left - pageRect.left) * this.scale,
+      y: (rect.top - pageRect.top) * this.scale,
+      width: rect.width * this.scale,
+      height: rect.height * this.scale
+    };
+  }
+  
+  /**
+   * Render one line of text in the element's computed font, vertically
+   * centered in the element and cut to its width like a `truncate` span
+   */
+  private renderInlineText(element: Element, text: string, pageElement: Element): void {
+    const bounds = this.getCanvasBounds(element, pageElement);
+    const computedStyle = window.getComputedStyle(element);
+    const paddingLeft = (parseFloat(computedStyle.paddingLeft) || 0) * this.scale;
+    const paddingRight = (parseFloat(computedStyle.paddingRight) || 0) * this.scale;
+    const contentWidth = Math.max(0, bounds.width - paddingLeft - paddingRight);
+    const fontSize = this.getScaledFontSize(parseFloat(computedStyle.fontSize) || 12, this.scale);
+    const fontStyle = computedStyle.fontStyle === 'italic' ? 'italic ' : '';
+    
+    this.ctx.save();
+    this.ctx.globalAlpha = parseFloat(computedStyle.opacity) || 1;
+    this.ctx.font = `${fontStyle}${computedStyle.fontWeight} ${fontSize}px ${this.getFontFamily()}`;
+    this.ctx.fillStyle = computedStyle.color;
+    this.ctx.textBaseline = 'middle';
+    
+    let line = text;
+    if (this.ctx.measureText(line).width > contentWidth) {
+      while (line.length > 0 && this.ctx.measureText(`${line}…`).width > contentWidth) {
+        line = line.slice(0, -1);
+      }
+      line = `${line.trimEnd()}…`;
+    }
+    
+    const align = computedStyle.textAlign;
+    let textX = bounds.x + paddingLeft;
+    if (align === 'center') {
+      this.ctx.textAlign = 'center';
+      textX = bounds.x + paddingLeft + (contentWidth / 2);
+    } else if (align === 'right' || align === 'end') {
+      this.ctx.textAlign = 'right';
+      textX = bounds.x + bounds.width - paddingRight;
+    } else {
+      this.ctx.textAlign = 'left';
+    }
+    this.ctx.fillText(line, textX, bounds.y + (bounds.height / 2));
+    this.ctx.restore();
+  }
+  
+  private getFontFamily(): string {
+    return this.fontsLoaded
+      ? 'Inter, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif'
+      : 'Arial, Helvetica, sans-serif';
+  }
+  
+  /**
+   * Render review status pill at the badge's DOM position (getShotReviewStatusBadgeStyle)
+   */
+  private renderReviewStatusBadge(shot: ExportShot, shotElement: Element, pageElement: Element): void {
+    const badgeElement = shotElement.querySelector('.shot-review-status');
+    if (!badgeElement) return;
+    
+    const option = getShotReviewStatusOption(getShotReviewStatus(shot));
+    const bounds = this.getCanvasBounds(badgeElement, pageElement);
+    
+    this.ctx.fillStyle = option.color;
+    this.ctx.beginPath();
+    if (typeof this.ctx.roundRect === 'function') {
+      this.ctx.roundRect(bounds.x, bounds.y, bounds.width, bounds.height, bounds.height / 2);
+    } else {
+      this.ctx.rect(bounds.x, bounds.y, bounds.width, bounds.height);
+    }
+    this.ctx.fill();
+    
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = `600 ${this.getScaledFontSize(10, this.scale)}px ${this.getFontFamily()}`;
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(option.label, bounds.x + (bounds.width / 2), bounds.y + (bounds.height / 2));
+  }
+  
+  /**
+   * Render the footer's review status key (ShotReviewStatusLegend) item by item
+   */
+  private renderReviewStatusLegend(pageElement: Element): void {
+    const legendElement = pageElement.querySelector('.shot-review-status-legend');
+    if (!legendElement) return;
+    
+    const color = window.getComputedStyle(legendElement).color;
+    this.ctx.font = `400 ${this.getScaledFontSize(10, this.scale)}px ${this.getFontFamily()}`;
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'middle';
+    
+    Array.from(legendElement.children).forEach((item) => {
+      const [dotElement, labelElement] = Array.from(item.children);
+      if (dotElement) {
+        const dot = this.getCanvasBounds(dotElement, pageElement);
+        this.ctx.fillStyle = window.getComputedStyle(dotElement).backgroundColor;
+        this.ctx.beginPath();
+        this.ctx.arc(dot.x + dot.width / 2, dot.y + dot.height / 2, dot.width / 2, 0, Math.PI * 2);
+        this.ctx.fill();
+      }
+      if (labelElement?.textContent) {
+        const label = this.getCanvasBounds(labelElement, pageElement);
+        this.ctx.fillStyle = color;
+        this.ctx.fillText(labelElement.textContent, label.x, label.y + label.height / 2);
+      }
+    });
+  }
+  
   /**
    * Render shot text using DOM positioning
    */
@@ -635,12 +830,20 @@ export class DOMRenderer {
     shotBounds: Rectangle,
     scale: number
   ): void {
-    const textElements = shotElement.querySelectorAll<HTMLElement>('textarea, .action-text, .script-text');
+    const textElements = shotElement.querySelectorAll<HTMLElement>(
+      'textarea, .camera-details, .action-text, .script-text, .custom-field'
+    );
     const shotRect = shotElement.getBoundingClientRect();
     
     textElements.forEach(textElement => {
+      // A live custom field is a label plus a textarea; the wrapper draws both
+      // as one "Name: value" line, styled like the textarea
+      const isCustomField = textElement.classList.contains('custom-field');
+      if (!isCustomField && textElement.closest('.custom-field')) return;
+      const styleElement = (isCustomField && textElement.querySelector('textarea')) || textElement;
+      
       const rect = textElement.getBoundingClientRect();
-      const computedStyle = window.getComputedStyle(textElement);
+      const computedStyle = window.getComputedStyle(styleElement);
       
       // Adjust for padding inside the textarea
       const paddingTop = parseFloat(computedStyle.paddingTop) || 0;
@@ -686,10 +889,38 @@ export class DOMRenderer {
         textAlign: computedStyle.textAlign as any
       };
       
-      // Render text
-      const text = textElement instanceof HTMLTextAreaElement
-        ? textElement.value || ''
-        : textElement.textContent || '';
+      // Action, script and custom field text keep their formatted runs, drawn
+      // from the shot's markup rather than the flattened DOM text
+      const customField = isCustomField
+        ? shot.customFields?.find(entry => entry.id === textElement.dataset.customFieldId)
+        : undefined;
+      const richText = textElement.classList.contains('action-text')
+        ? shot.actionText
+        : textElement.classList.contains('script-text')
+          ? shot.scriptText
+          : isCustomField
+            ? (customField ? getCustomFieldRichText(customField) : '')
+            : null;
+      if (richText !== null) {
+        if (richText) {
+          drawRichTextOnCanvas(this.ctx, richText, contentX, contentY, contentWidth, {
+            family: style.family,
+            size: style.size,
+            weight: fontWeight,
+            color: style.color,
+            lineHeight: style.lineHeight
+          });
+        }
+        return;
+      }
+      
+      // Render text. The live card's camera button shows a placeholder when
+      // empty, so its line comes from the shot's details instead of the DOM.
+      const text = textElement.classList.contains('camera-details')
+        ? formatCameraDetails(shot.camera ?? {})
+        : textElement instanceof HTMLTextAreaElement
+          ? textElement.value || ''
+          : textElement.textContent || '';
       if (text) {
         console.log('🔍 Shot text DEBUG:', {
           shotId: shot.id,
@@ -717,7 +948,7 @@ export class DOMRenderer {
     imageOffsetY: number = 0,
     objectFit: 'cover' | 'contain' = 'cover',
     renderedImageGeometry?: RenderedDOMImageGeometry,
-    options?: { skipBorder?: boolean }
+    options?: { skipBorder?: boolean; orientation?: ImageOrientation }
   ): Promise<void> {
     if (imageData instanceof HTMLImageElement) {
       // Calculate aspect ratio preserving fit
@@ -728,13 +959,17 @@ export class DOMRenderer {
       let drawHeight = bounds.height;
       
       if (objectFit === 'cover') {
-        // object-cover: fill container, crop overflow
-        if (imgAspect > boundsAspect) {
-          // Image is wider - fit to height (crop sides)
-          drawWidth = bounds.height * imgAspect;
-        } else {
-          // Image is taller - fit to width (crop top/bottom)
-          drawHeight = bounds.width / imgAspect;
+        // object-cover: fill container, crop overflow (rotated images still cover)
+        const geometry = calculateCoverImageGeometry(
+          imageData.naturalWidth,
+          imageData.naturalHeight,
+          bounds.width,
+          bounds.height,
+          options?.orientation?.rotation ?? 0
+        );
+        if (geometry) {
+          drawWidth = geometry.width;
+          drawHeight = geometry.height;
         }
       } else {
         // object-contain: show full image, add letterboxing
@@ -791,8 +1026,13 @@ export class DOMRenderer {
       // Canvas: after scale(), translate() ALSO applies in the scaled coordinate system
       // So they should match if we use the same values!
       this.ctx.translate(imageOffsetX, imageOffsetY);
+
+      // 4. Rotation and flips sit innermost, as in the card's CSS transform
+      if (options?.orientation) {
+        applyImageOrientationToCanvas(this.ctx, options.orientation);
+      }
       
-      // 4. Draw the image centered on its measured transform origin.
+      // 5. Draw the image centered on its measured transform origin.
       this.ctx.drawImage(
         imageData,
         -drawWidth / 2,
@@ -854,46 +1094,25 @@ export class DOMRenderer {
   }
   
   /**
-   * Render footer (page number) using DOM-captured positioning
+   * Render the page footer row (ShotGridFooterRow) from its DOM layout: footer
+   * text on the left; date, revision and page number on the right
    */
-  private renderFooterFromDOM(
-    bounds: Rectangle,
-    text: string,
-    justify: 'start' | 'center' | 'end',
-    scale: number
-  ): void {
-    // Set font for page number (match the styling from ShotGrid footer)
-    // Apply global font size multiplier for consistency
-    const rawFontSize = 10; // text-xs = 10px
-    const scaledFontSize = this.getScaledFontSize(rawFontSize, scale);
-    this.ctx.font = `400 ${scaledFontSize}px Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif`;
-    this.ctx.fillStyle = this.storyboardState?.storyboardTheme?.header?.text || '#6b7280'; // Use Header color from theme, fallback to gray
-    this.ctx.textBaseline = 'top';
-    
-    // Calculate text position and alignment based on flex justify
-    let textX = bounds.x;
-    if (justify === 'end') {
-      this.ctx.textAlign = 'right';
-      textX = bounds.x + bounds.width;
-    } else if (justify === 'center') {
-      this.ctx.textAlign = 'center';
-      textX = bounds.x + (bounds.width / 2);
-    } else {
-      this.ctx.textAlign = 'left';
-      textX = bounds.x;
-    }
+  private renderFooterFromDOM(footer: NonNullable<DOMCaptureResult['footer']>, pageElement: Element): void {
+    const footerElement = pageElement.querySelector('[data-page-footer]');
+    if (!footerElement) return;
     
-    console.log('🔍 Rendering footer:', {
-      text,
-      justify,
-      textX,
-      boundsX: bounds.x,
-      boundsWidth: bounds.width,
-      textAlign: this.ctx.textAlign
+    const parts: Array<[selector: string, text: string]> = [
+      ['.footer-text', footer.content.text],
+      ['.footer-date', footer.content.date],
+      ['.footer-revision', footer.content.revision],
+      ['.footer-page-number', footer.pageLabel ?? '']
+    ];
+    parts.forEach(([selector, text]) => {
+      const element = footerElement.querySelector(selector);
+      if (element && text) {
+        this.renderInlineText(element, text, pageElement);
+      }
     });
-    
-    // Render the page number text
-    this.ctx.fillText(text, textX, bounds.y);
   }
   
   /**
@@ -5,12 +5,14 @@ import {
 import { 
   ExportOptions,
   ExportError,
+  VideoExportOptions,
 } from '@/utils/types/exportTypes';
 import JSZip from 'jszip';
 import { DataTransformer } from './dataTransformer';
 import { CanvasRenderer } from './canvasRenderer';
 import { DOMCapture } from './domCapture';
 import { DOMRenderer } from './domRenderer';
+import { VideoRenderer, type VideoSourcePage } from './videoRenderer';
 import { PDFExportOptions } from '@/components/PDFExportModal';
 import { buildServerPdfPayload, type ExportablePage } from './serverPdfPayload';
 import { RENDERED_PAGE_WIDTH_PX } from '@/utils/pageSize';
@@ -122,7 +124,7 @@ export class ExportManager {
     pages: ExportablePage[],
     storyboardState: StoryboardState,
     filename: string,
-    _pdfOptions: PDFExportOptions,
+    pdfOptions: PDFExportOptions,
     onProgress?: (current: number, total: number, pageName: string) => void,
     saveTarget?: PDFSaveTarget
   ): Promise<void> {
@@ -135,6 +137,11 @@ export class ExportManager {
 
       const payload = await buildServerPdfPayload(pages, storyboardState, {
         filename,
+        frontMatter: {
+          cover: pdfOptions.includeCoverPage,
+          contents: pdfOptions.includeContentsPage,
+        },
+        print: pdfOptions.printLayout,
       });
 
       if (import.meta.env.DEV && payload.debug) {
@@ -295,6 +302,45 @@ export class ExportManager {
     return 'zip';
   }
 
+  /**
+   * Record the selected pages as a timed WebM animatic and download it.
+   */
+  async downloadVideo(
+    pages: VideoSourcePage[],
+    filename: string,
+    options: VideoExportOptions,
+    onProgress?: (elapsedSeconds: number, totalSeconds: number, shotNumber: string) => void
+  ): Promise<void> {
+    if (pages.length === 0) {
+      throw new ExportError('No pages to export', 'NO_PAGES');
+    }
+
+    const startedAt = performance.now();
+    const renderer = new VideoRenderer(options);
+
+    try {
+      const frames = await VideoRenderer.prepareFrames(pages);
+      const blob = await renderer.record(frames, onProgress);
+      this.downloadBlob(blob, this.ensureExtension(this.sanitizeFilenameBase(filename), 'webm'));
+      captureExportCompleted({
+        format: 'webm',
+        pageCount: pages.length,
+        shotCount: frames.length,
+        durationMs: Math.round(performance.now() - startedAt),
+      });
+    } catch (error) {
+      if (error instanceof ExportError) {
+        throw error;
+      }
+      throw new ExportError(
+        `Video export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VIDEO_EXPORT_ERROR'
+      );
+    } finally {
+      renderer.dispose();
+    }
+  }
+
   private async createBackendExportError(response: Response): Promise<ExportError> {
     const contentType = response.headers.get('content-type') || '';
 
@@ -358,7 +404,7 @@ export class ExportManager {
   private sanitizeFilenameBase(rawName: string, fallback: string = 'storyboard'): string {
     const withoutExtension = rawName
       .trim()
-      .replace(/\.(png|zip)$/i, '')
+      .replace(/\.(png|zip|webm)$/i, '')
       .trim();
     const sanitizedBase = withoutExtension
       .replace(/[<>:"/\\|?*]/g, '_')
@@ -370,7 +416,7 @@ export class ExportManager {
     return sanitizedBase || fallback;
   }
 
-  private ensureExtension(filename: string, extension: 'png' | 'zip'): string {
+  private ensureExtension(filename: string, extension: 'png' | 'zip' | 'webm'): string {
     const suffix = `.${extension}`;
     return filename.toLowerCase().endsWith(suffix) ? filename : `${filename}${suffix}`;
   }
@@ -411,6 +457,7 @@ export class ExportManager {
         storyboardState.storyboardTheme || getDefaultTheme(),
         {
           pageSizeMode: storyboardState.pageSizeMode,
+          customPageSize: storyboardState.customPageSize,
           hideEmptySlots: false,
         }
       );
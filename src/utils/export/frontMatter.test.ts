@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CONTENTS_ENTRIES_PER_PAGE,
+  buildFrontMatter,
+  formatExportDate,
+  getContentsEntryName,
+  getGeneratedPages,
+  getShotRangeLabel,
+  isFrontMatter,
+  isGeneratedPageOf,
+} from './frontMatter';
+
+const makeExportPage = (pageNumber: number, shotNumbers: string[] = [], name = '') => ({
+  name,
+  pageNumber,
+  shots: shotNumbers.map((number) => ({ number })),
+});
+
+const date = new Date(2026, 9, 19);
+
+describe('getShotRangeLabel', () => {
+  it('labels the first and last shot numbers', () => {
+    expect(getShotRangeLabel(['1', '2A', '3'])).toBe('Shots 1–3');
+    expect(getShotRangeLabel(['', '4', ''])).toBe('Shot 4');
+    expect(getShotRangeLabel([])).toBe('');
+  });
+});
+
+describe('getContentsEntryName', () => {
+  it('falls back to the page number for unnamed pages', () => {
+    expect(getContentsEntryName({ name: ' Opening ', pageNumber: 1, shotRange: '' })).toBe('Opening');
+    expect(getContentsEntryName({ name: '  ', pageNumber: 3, shotRange: '' })).toBe('Page 3');
+  });
+});
+
+describe('buildFrontMatter', () => {
+  it('is left out when neither page is wanted', () => {
+    expect(buildFrontMatter([makeExportPage(1)], { cover: false, contents: false }, date)).toBeUndefined();
+  });
+
+  it('lists each page with its shot range under a shared date', () => {
+    expect(buildFrontMatter([makeExportPage(2, ['1', '2'], 'Opening')], { cover: true, contents: true }, date)).toEqual({
+      cover: true,
+      date: formatExportDate(date),
+      contents: [[{ name: 'Opening', pageNumber: 2, shotRange: 'Shots 1–2' }]],
+    });
+  });
+
+  it('splits long contents across sheets', () => {
+    const pages = Array.from({ length: CONTENTS_ENTRIES_PER_PAGE + 1 }, (_, index) => makeExportPage(index + 1));
+    const frontMatter = buildFrontMatter(pages, { cover: false, contents: true }, date);
+
+    expect(frontMatter?.contents.map((sheet) => sheet.length)).toEqual([CONTENTS_ENTRIES_PER_PAGE, 1]);
+  });
+
+  it('has no contents sheets when only the cover is wanted', () => {
+    expect(buildFrontMatter([makeExportPage(1)], { cover: true, contents: false }, date)?.contents).toEqual([]);
+  });
+});
+
+describe('getGeneratedPages', () => {
+  it('puts the cover before the contents sheets', () => {
+    const pages = Array.from({ length: CONTENTS_ENTRIES_PER_PAGE + 1 }, (_, index) => makeExportPage(index + 1));
+    const frontMatter = buildFrontMatter(pages, { cover: true, contents: true }, date);
+
+    expect(getGeneratedPages(frontMatter)).toEqual([
+      { kind: 'cover' },
+      { kind: 'contents', sheetIndex: 0 },
+      { kind: 'contents', sheetIndex: 1 },
+    ]);
+    expect(getGeneratedPages(undefined)).toEqual([]);
+  });
+});
+
+describe('isFrontMatter', () => {
+  it('accepts built front matter and rejects malformed entries', () => {
+    const frontMatter = buildFrontMatter([makeExportPage(1, ['1'])], { cover: true, contents: true }, date);
+
+    expect(isFrontMatter(frontMatter)).toBe(true);
+    expect(isFrontMatter({ ...frontMatter, contents: [[{ name: 'x', pageNumber: 0, shotRange: '' }]] })).toBe(false);
+    expect(isFrontMatter(null)).toBe(false);
+  });
+});
+
+describe('isGeneratedPageOf', () => {
+  const frontMatter = buildFrontMatter([makeExportPage(1)], { cover: false, contents: true }, date);
+
+  it('only accepts pages the front matter has', () => {
+    expect(isGeneratedPageOf({ kind: 'contents', sheetIndex: 0 }, frontMatter)).toBe(true);
+    expect(isGeneratedPageOf({ kind: 'contents', sheetIndex: 1 }, frontMatter)).toBe(false);
+    expect(isGeneratedPageOf({ kind: 'cover' }, frontMatter)).toBe(false);
+    expect(isGeneratedPageOf({ kind: 'cover' }, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import type {
+  ServerPDFContentsEntry,
+  ServerPDFFrontMatter,
+  ServerPDFGeneratedPage,
+} from '@/utils/types/exportTypes';
+
+/**
+ * Generated pages at the front of a PDF export: a cover page with the
+ * project logo, name, client/agency, job info and date, and contents pages
+ * listing each exported page with its shots and page number.
+ *
+ * The client builds the front matter once per export so the server renders
+ * and the jsPDF renderer all show the same date and entries. Contents pages
+ * list the page numbers printed in each storyboard page's footer.
+ */
+
+export const CONTENTS_ENTRIES_PER_PAGE = 18;
+
+export interface FrontMatterOptions {
+  cover: boolean;
+  contents: boolean;
+}
+
+interface FrontMatterSourcePage {
+  name: string;
+  pageNumber: number;
+  shots: Array<{ number: string }>;
+}
+
+export const formatExportDate = (date: Date): string =>
+  date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const getShotRangeLabel = (shotNumbers: string[]): string => {
+  const numbers = shotNumbers.filter(Boolean);
+  if (numbers.length === 0) return '';
+  const first = numbers[0];
+  const last = numbers[numbers.length - 1];
+  return first === last ? `Shot ${first}` : `Shots ${first}–${last}`;
+};
+
+export const getContentsEntryName = (entry: ServerPDFContentsEntry): string =>
+  entry.name.trim() || `Page ${entry.pageNumber}`;
+
+/**
+ * Front matter for the exported pages, or undefined when neither page is
+ * wanted.
+ */
+export const buildFrontMatter = (
+  pages: FrontMatterSourcePage[],
+  options: FrontMatterOptions,
+  date: Date = new Date()
+): ServerPDFFrontMatter | undefined => {
+  if (!options.cover && !options.contents) return undefined;
+
+  const entries: ServerPDFContentsEntry[] = pages.map((page) => ({
+    name: page.name,
+    pageNumber: page.pageNumber,
+    shotRange: getShotRangeLabel(page.shots.map((shot) => shot.number)),
+  }));
+  const contents: ServerPDFContentsEntry[][] = [];
+  if (options.contents) {
+    for (let index = 0; index < entries.length; index += CONTENTS_ENTRIES_PER_PAGE) {
+      contents.push(entries.slice(index, index + CONTENTS_ENTRIES_PER_PAGE));
+    }
+  }
+
+  return {
+    cover: options.cover,
+    date: formatExportDate(date),
+    contents,
+  };
+};
+
+/**
+ * Generated pages in the order they precede the storyboard pages.
+ */
+export const getGeneratedPages = (frontMatter: ServerPDFFrontMatter | undefined): ServerPDFGeneratedPage[] => {
+  if (!frontMatter) return [];
+  return [
+    ...(frontMatter.cover ? [{ kind: 'cover' as const }] : []),
+    ...frontMatter.contents.map((_, sheetIndex) => ({ kind: 'contents' as const, sheetIndex })),
+  ];
+};
+
+const isContentsEntry = (value: unknown): value is ServerPDFContentsEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.name === 'string' &&
+    Number.isInteger(entry.pageNumber) &&
+    Number(entry.pageNumber) > 0 &&
+    typeof entry.shotRange === 'string'
+  );
+};
+
+export const isFrontMatter = (value: unknown): value is ServerPDFFrontMatter => {
+  if (!value || typeof value !== 'object') return false;
+  const frontMatter = value as Record<string, unknown>;
+  return (
+    typeof frontMatter.cover === 'boolean' &&
+    typeof frontMatter.date === 'string' &&
+    Array.isArray(frontMatter.contents) &&
+    frontMatter.contents.every((sheet) => Array.isArray(sheet) && sheet.every(isContentsEntry))
+  );
+};
+
+/**
+ * True when the value names a generated page the front matter actually has.
+ */
+export const isGeneratedPageOf = (
+  value: unknown,
+  frontMatter: ServerPDFFrontMatter | undefined
+): value is ServerPDFGeneratedPage => {
+  if (!value || typeof value !== 'object' || !frontMatter) return false;
+  const page = value as Record<string, unknown>;
+  if (page.kind === 'cover') return frontMatter.cover;
+  return (
+    page.kind === 'contents' &&
+    Number.isInteger(page.sheetIndex) &&
+    Number(page.sheetIndex) >= 0 &&
+    Number(page.sheetIndex) < frontMatter.contents.length
+  );
+};
+
+// Shared by the static and React export routes so both render identical pages
+export const getFrontMatterPageStyle = (textColor: string) => ({
+  flex: '1',
+  display: 'flex',
+  flexDirection: 'column',
+  color: textColor,
+  padding: '56px 64px',
+} as const);
+
+export const COVER_PAGE_STYLES = {
+  body: { flex: '1', display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: '16px', textAlign: 'center' },
+  logo: { maxWidth: '320px', maxHeight: '160px', objectFit: 'contain', marginBottom: '16px' },
+  projectName: { fontSize: '40px', lineHeight: '1.15', fontWeight: '700', whiteSpace: 'pre-wrap' },
+  clientAgency: { fontSize: '22px', lineHeight: '1.3', fontWeight: '600', whiteSpace: 'pre-wrap' },
+  jobInfo: { fontSize: '16px', lineHeight: '1.4', whiteSpace: 'pre-wrap', opacity: '0.85' },
+  date: { fontSize: '14px', lineHeight: '1.4', marginTop: '24px', opacity: '0.7' },
+} as const;
+
+export const CONTENTS_PAGE_STYLES = {
+  heading: { fontSize: '28px', lineHeight: '1.2', fontWeight: '700' },
+  subheading: { fontSize: '14px', lineHeight: '1.4', marginTop: '4px', marginBottom: '24px', opacity: '0.7' },
+  row: { display: 'flex', alignItems: 'baseline', gap: '8px', height: '28px', fontSize: '14px', lineHeight: '28px', whiteSpace: 'nowrap' },
+  name: { fontWeight: '600', overflow: 'hidden', textOverflow: 'ellipsis', maxWidth: '60%' },
+  shotRange: { fontSize: '12px', opacity: '0.7' },
+  leader: { flex: '1', borderBottom: '1px dotted currentColor', opacity: '0.4', alignSelf: 'center', height: '0' },
+  pageNumber: { fontVariantNumeric: 'tabular-nums' },
+} as const;
@@ -4,7 +4,7 @@ import { StoryboardPage as LegacyStoryboardPage } from '@/store/storyboardStore'
 import type { Shot, StoryboardPage } from '@/store';
 import { ExportError } from '@/utils/types/exportTypes';
 import { ExportStoryboardPageContent } from '@/components/export/ExportStoryboardPageContent';
-import { RENDERED_PAGE_WIDTH_PX, type PageSizeMode } from '@/utils/pageSize';
+import { RENDERED_PAGE_WIDTH_PX, type CustomPageSize, type PageSizeMode } from '@/utils/pageSize';
 import type { StoryboardTheme } from '@/styles/storyboardTheme';
 
 import { calculateStoryboardLogoContainerWidth } from '@/utils/storyboardLayout';
@@ -21,11 +21,13 @@ interface OffscreenExportSurfaceProps {
   pages: LegacyStoryboardPage[];
   storyboardTheme: StoryboardTheme;
   pageSizeMode?: PageSizeMode;
+  customPageSize?: CustomPageSize;
   hideEmptySlots?: boolean;
 }
 
 interface OffscreenExportSurfaceOptions {
   pageSizeMode?: PageSizeMode;
+  customPageSize?: CustomPageSize;
   hideEmptySlots?: boolean;
 }
 
@@ -33,6 +35,7 @@ const OffscreenExportSurfaceContent: React.FC<OffscreenExportSurfaceProps> = ({
   pages,
   storyboardTheme,
   pageSizeMode,
+  customPageSize,
   hideEmptySlots = false,
 }) => {
   return (
@@ -55,9 +58,11 @@ const OffscreenExportSurfaceContent: React.FC<OffscreenExportSurfaceProps> = ({
               storyboardTheme={storyboardTheme}
               pageId={page.id}
               pageNumber={index + 1}
+              pageCount={pages.length}
               pageElementId={getOffscreenExportPageElementId(page.id)}
               hideEmptySlots={hideEmptySlots}
               pageSizeMode={pageSizeMode}
+              customPageSize={customPageSize}
             />
           </div>
         </div>
@@ -106,6 +111,7 @@ export class OffscreenExportSurface {
         pages={pages}
         storyboardTheme={storyboardTheme}
         pageSizeMode={options.pageSizeMode}
+        customPageSize={options.customPageSize}
         hideEmptySlots={options.hideEmptySlots}
       />
     );
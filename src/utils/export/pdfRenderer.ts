@@ -2,7 +2,8 @@ import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { StoryboardPage, StoryboardState } from '@/store/storyboardStore';
 import { PDFExportOptions } from '@/components/PDFExportModal';
-import { ExportError } from '@/utils/types/exportTypes';
+import { ExportError, type ServerPDFFrontMatter } from '@/utils/types/exportTypes';
+import { buildFrontMatter, getContentsEntryName } from '@/utils/export/frontMatter';
 
 export interface PDFPageDimensions {
   width: number;
@@ -14,6 +15,15 @@ export interface PDFPageDimensions {
 
 export type ResolvePageElement = (pageId: string) => HTMLElement | null;
 
+type FrontMatterState = Pick<StoryboardState, 'pages' | 'projectName' | 'clientAgency' | 'jobInfo' | 'projectLogoUrl'> & {
+  projectLogoDataUrl?: string | null;
+};
+
+// Letter landscape, for generated pages when the storyboard pages size to their canvas
+const FRONT_MATTER_FALLBACK_DIMENSIONS = { width: 792, height: 612 };
+const FRONT_MATTER_MARGIN = 48;
+const CONTENTS_ROW_HEIGHT = 22;
+
 export class PDFRenderer {
   private doc: jsPDF;
   private options: PDFExportOptions;
@@ -53,6 +63,18 @@ export class PDFRenderer {
 
       // Calculate dimensions for content fitting
       const pageDimensions = this.getPageDimensions();
+
+      const frontMatter = buildFrontMatter(
+        pages.map((page) => ({
+          name: page.name,
+          pageNumber: storyboardState.pages.findIndex((candidate) => candidate.id === page.id) + 1 || 1,
+          shots: page.shots,
+        })),
+        { cover: this.options.includeCoverPage, contents: this.options.includeContentsPage }
+      );
+      const frontMatterPageCount = frontMatter
+        ? await this.addFrontMatter(frontMatter, storyboardState)
+        : 0;
       
       for (let i = 0; i < pages.length; i++) {
         const page = pages[i];
@@ -62,8 +84,8 @@ export class PDFRenderer {
           onProgress(i + 1, pages.length, page.name);
         }
         
-        // Add new page if not the first one
-        if (i > 0) {
+        // Add new page unless this is the document's first
+        if (i > 0 || frontMatterPageCount > 0) {
           this.doc.addPage();
         }
         
@@ -71,8 +93,8 @@ export class PDFRenderer {
           page,
           storyboardState,
           pageDimensions,
-          i + 1,
-          pages.length,
+          frontMatterPageCount + i + 1,
+          frontMatterPageCount + pages.length,
           resolvePageElement
         );
       }
@@ -262,6 +284,167 @@ export class PDFRenderer {
     }
   }
 
+  /**
+   * Add the cover and contents pages ahead of the storyboard pages.
+   * Returns the number of pages added.
+   */
+  private async addFrontMatter(
+    frontMatter: ServerPDFFrontMatter,
+    storyboardState: FrontMatterState
+  ): Promise<number> {
+    const paperDimensions = this.getPaperDimensions();
+    const isCanvasSized = paperDimensions.width === 0;
+    const { width, height } = isCanvasSized ? FRONT_MATTER_FALLBACK_DIMENSIONS : paperDimensions;
+    let sheetCount = 0;
+
+    const startSheet = () => {
+      if (sheetCount > 0) {
+        this.doc.addPage([width, height], width > height ? 'landscape' : 'portrait');
+      } else if (isCanvasSized) {
+        // The document's first page has no size yet in canvas mode
+        this.doc.deletePage(1);
+        this.doc.addPage([width, height], 'landscape');
+      }
+      sheetCount++;
+    };
+
+    if (frontMatter.cover) {
+      startSheet();
+      await this.drawCoverPage(frontMatter, storyboardState, width, height);
+    }
+
+    frontMatter.contents.forEach((entries, sheetIndex) => {
+      startSheet();
+      this.drawContentsPage(entries, sheetIndex, storyboardState.projectName, width);
+    });
+
+    return sheetCount;
+  }
+
+  private async drawCoverPage(
+    frontMatter: ServerPDFFrontMatter,
+    storyboardState: FrontMatterState,
+    width: number,
+    height: number
+  ): Promise<void> {
+    const centerX = width / 2;
+    const maxTextWidth = width - FRONT_MATTER_MARGIN * 4;
+    const logo = await this.loadImage(storyboardState.projectLogoDataUrl || storyboardState.projectLogoUrl);
+    const blocks: Array<{ lines: string[]; fontSize: number; bold: boolean; gray: boolean }> = [];
+
+    const addBlock = (text: string, fontSize: number, bold: boolean, gray = false) => {
+      if (!text.trim()) return;
+      this.doc.setFontSize(fontSize);
+      blocks.push({ lines: this.doc.splitTextToSize(text, maxTextWidth), fontSize, bold, gray });
+    };
+    addBlock(storyboardState.projectName, 28, true);
+    addBlock(storyboardState.clientAgency, 16, true);
+    addBlock(storyboardState.jobInfo, 12, false);
+    addBlock(frontMatter.date, 10, false, true);
+
+    let logoWidth = 0;
+    let logoHeight = 0;
+    if (logo) {
+      const logoScale = Math.min(220 / logo.naturalWidth, 110 / logo.naturalHeight, 1);
+      logoWidth = logo.naturalWidth * logoScale;
+      logoHeight = logo.naturalHeight * logoScale;
+    }
+
+    const blockGap = 12;
+    const textHeight = blocks.reduce((total, block) => total + block.lines.length * block.fontSize * 1.25, 0);
+    const totalHeight = (logo ? logoHeight + blockGap * 2 : 0) + textHeight + blockGap * (blocks.length - 1);
+    let y = Math.max(FRONT_MATTER_MARGIN, (height - totalHeight) / 2);
+
+    if (logo) {
+      this.doc.addImage(logo, 'PNG', centerX - logoWidth / 2, y, logoWidth, logoHeight);
+      y += logoHeight + blockGap * 2;
+    }
+
+    for (const block of blocks) {
+      this.doc.setFontSize(block.fontSize);
+      this.doc.setFont(undefined, block.bold ? 'bold' : 'normal');
+      if (block.gray) {
+        this.doc.setTextColor(120, 120, 120);
+      } else {
+        this.doc.setTextColor(50, 50, 50);
+      }
+      for (const line of block.lines) {
+        y += block.fontSize;
+        this.doc.text(line, centerX, y, { align: 'center' });
+        y += block.fontSize * 0.25;
+      }
+      y += blockGap;
+    }
+
+    this.doc.setFont(undefined, 'normal');
+  }
+
+  private drawContentsPage(
+    entries: ServerPDFFrontMatter['contents'][number],
+    sheetIndex: number,
+    projectName: string,
+    width: number
+  ): void {
+    const left = FRONT_MATTER_MARGIN;
+    const right = width - FRONT_MATTER_MARGIN;
+    let y = FRONT_MATTER_MARGIN + 20;
+
+    this.doc.setTextColor(50, 50, 50);
+    this.doc.setFontSize(20);
+    this.doc.setFont(undefined, 'bold');
+    this.doc.text(sheetIndex > 0 ? "Contents (cont'd)" : 'Contents', left, y);
+
+    if (projectName.trim()) {
+      y += 18;
+      this.doc.setFontSize(11);
+      this.doc.setFont(undefined, 'normal');
+      this.doc.setTextColor(120, 120, 120);
+      this.doc.text(projectName, left, y);
+    }
+    y += 16;
+
+    for (const entry of entries) {
+      y += CONTENTS_ROW_HEIGHT;
+      const pageNumber = String(entry.pageNumber);
+
+      this.doc.setFontSize(11);
+      this.doc.setFont(undefined, 'bold');
+      this.doc.setTextColor(50, 50, 50);
+      const name = this.doc.splitTextToSize(getContentsEntryName(entry), (right - left) * 0.6)[0];
+      this.doc.text(name, left, y);
+      let leaderStart = left + this.doc.getTextWidth(name) + 6;
+
+      this.doc.setFont(undefined, 'normal');
+      this.doc.text(pageNumber, right, y, { align: 'right' });
+      const leaderEnd = right - this.doc.getTextWidth(pageNumber) - 6;
+
+      if (entry.shotRange) {
+        this.doc.setFontSize(9);
+        this.doc.setTextColor(120, 120, 120);
+        this.doc.text(entry.shotRange, leaderStart, y);
+        leaderStart += this.doc.getTextWidth(entry.shotRange) + 6;
+      }
+
+      if (leaderEnd > leaderStart) {
+        this.doc.setDrawColor(170, 170, 170);
+        this.doc.setLineDashPattern([1, 2], 0);
+        this.doc.line(leaderStart, y - 3, leaderEnd, y - 3);
+        this.doc.setLineDashPattern([], 0);
+      }
+    }
+  }
+
+  private loadImage(source: string | null | undefined): Promise<HTMLImageElement | null> {
+    if (!source) return Promise.resolve(null);
+    return new Promise((resolve) => {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.onload = () => resolve(image);
+      image.onerror = () => resolve(null);
+      image.src = source;
+    });
+  }
+
   /**
    * Add page title to PDF
    */
@@ -51,6 +51,7 @@ const PrintDocumentContent: React.FC<PrintDocumentContentProps> = ({ pages, stor
               storyboardTheme,
               pageId: page.id,
               pageNumber: index + 1,
+              pageCount: pages.length,
               pageElementId: getPrintExportPageElementId(page.id),
               hideEmptySlots: true
             })
@@ -5,7 +5,23 @@ import {
   type ServerPDFExportPayload,
   type ServerPDFShotContent,
 } from '@/utils/types/exportTypes';
-import { resolvePageSizeMode } from '@/utils/pageSize';
+import {
+  getPageSizeSpec,
+  isDefaultPrintLayout,
+  resolveCustomPageSize,
+  resolvePageSizeMode,
+  type PrintLayoutOptions,
+} from '@/utils/pageSize';
+import { pickCameraDetails } from '@/utils/cameraDetails';
+import { getExportedShots, getShotReviewStatus } from '@/utils/shotReviewStatus';
+import { getPageSceneHeaders } from '@/utils/scenes';
+import { getSketchStrokes, hasSketch } from '@/utils/sketch';
+import { getShotAnnotations, hasAnnotations } from '@/utils/annotations';
+import { getCustomFields, getFilledCustomFieldValues, hasCustomFieldValues } from '@/utils/customFields';
+import { getHeaderFields, getHeaderLayout, getLogoPlacement } from '@/utils/headerLayout';
+import { getPageFooterContent, getPageNumberFormat, hasPageFooterContent } from '@/utils/pageFooter';
+import { normalizeImageRotation } from '@/utils/imageGeometry';
+import { buildFrontMatter, type FrontMatterOptions } from '@/utils/export/frontMatter';
 import {
   optimizeImageForPdfExportWithCacheDetailed,
   type PdfExportImageOptimizationDebugInfo,
@@ -18,6 +34,9 @@ export type ExportableShot = StoryboardState['pages'][number]['shots'][number] &
   imageScale?: number;
   imageOffsetX?: number;
   imageOffsetY?: number;
+  imageRotation?: number;
+  imageFlipX?: boolean;
+  imageFlipY?: boolean;
 };
 
 export type ExportablePage = Omit<StoryboardPage, 'shots'> & {
@@ -266,10 +285,18 @@ async function normalizeShot(
       number: shot.number,
       actionText: shot.actionText || '',
       scriptText: shot.scriptText || '',
+      camera: pickCameraDetails(shot),
+      reviewStatus: getShotReviewStatus(shot),
       image: optimizedImageSource,
       imageScale: shot.imageScale ?? 1,
       imageOffsetX: shot.imageOffsetX ?? 0,
       imageOffsetY: shot.imageOffsetY ?? 0,
+      imageRotation: normalizeImageRotation(shot.imageRotation ?? 0),
+      imageFlipX: Boolean(shot.imageFlipX),
+      imageFlipY: Boolean(shot.imageFlipY),
+      ...(hasSketch(shot) ? { sketch: getSketchStrokes(shot) } : {}),
+      ...(hasAnnotations(shot) ? { annotations: getShotAnnotations(shot) } : {}),
+      ...(hasCustomFieldValues(shot) ? { customFieldValues: getFilledCustomFieldValues(shot) } : {}),
     },
     debugEntry,
   };
@@ -282,8 +309,18 @@ async function normalizePage(
 ) {
   const pageIndex = storyboardState.pages.findIndex((candidate) => candidate.id === page.id);
   const pageNumber = pageIndex >= 0 ? pageIndex + 1 : 1;
+  // Scene numbers and "cont'd" depend on the whole board, not just the exported pages
+  const allShots = storyboardState.pages.flatMap((candidate) => candidate.shots);
+  const exportedShots = getExportedShots(page.shots, storyboardState.templateSettings.showOmittedShots);
+  const sceneHeaders = getPageSceneHeaders({
+    pageShotIds: exportedShots.map((shot) => shot.id),
+    shotOrder: allShots.map((shot) => shot.id),
+    shots: Object.fromEntries(allShots.map((shot) => [shot.id, shot])),
+    scenes: storyboardState.scenes,
+    sceneNumberFormat: storyboardState.templateSettings.sceneNumberFormat,
+  });
   const normalizedShots = await Promise.all(
-    page.shots.map((shot) => normalizeShot(page, shot, optimizedShotImageCache))
+    exportedShots.map((shot) => normalizeShot(page, shot, optimizedShotImageCache))
   );
 
   return {
@@ -295,6 +332,9 @@ async function normalizePage(
       gridCols: page.gridCols,
       aspectRatio: page.aspectRatio,
       shots: normalizedShots.map((entry) => entry.shotContent),
+      ...(sceneHeaders.length > 0
+        ? { sceneHeaders: sceneHeaders.map(({ shotId, label, name, continued }) => ({ shotId, label, name, continued })) }
+        : {}),
     },
     debugEntries: normalizedShots
       .map((entry) => entry.debugEntry)
@@ -302,11 +342,38 @@ async function normalizePage(
   };
 }
 
+/**
+ * Paper fields of the payload for a project's page size: the size the PDF
+ * route prints on and, for custom sizes, the dimensions the renderers frame.
+ */
+export function getServerPdfPageSizeFields(
+  pageSizeMode: unknown,
+  customPageSize: unknown
+): Pick<ServerPDFExportPayload, 'paperSize' | 'pageSizeMode' | 'customPageSize' | 'paperDimensions'> {
+  const resolvedPageSizeMode = resolvePageSizeMode(pageSizeMode);
+  if (resolvedPageSizeMode === 'dynamic') {
+    return { paperSize: 'canvas', pageSizeMode: resolvedPageSizeMode };
+  }
+
+  const resolvedCustomPageSize = resolvedPageSizeMode === 'custom'
+    ? resolveCustomPageSize(customPageSize)
+    : undefined;
+  const spec = getPageSizeSpec(resolvedPageSizeMode, resolvedCustomPageSize);
+  return {
+    paperSize: resolvedPageSizeMode,
+    pageSizeMode: resolvedPageSizeMode,
+    customPageSize: resolvedCustomPageSize,
+    paperDimensions: { widthInches: spec.widthInches!, heightInches: spec.heightInches! },
+  };
+}
+
 export async function buildServerPdfPayload(
   pages: ExportablePage[],
   storyboardState: StoryboardState & { projectLogoDataUrl?: string | null },
   options: {
     filename: string;
+    frontMatter?: FrontMatterOptions;
+    print?: PrintLayoutOptions;
   }
 ): Promise<ServerPDFExportPayload> {
   if (pages.length === 0) {
@@ -320,24 +387,25 @@ export async function buildServerPdfPayload(
     pages.map((page) => normalizePage(page, storyboardState, optimizedShotImageCache))
   );
   const [firstPage] = normalizedPages;
+  const frontMatter = options.frontMatter
+    ? buildFrontMatter(normalizedPages.map((page) => page.pageContent), options.frontMatter)
+    : undefined;
+  const footer = getPageFooterContent(storyboardState.templateSettings);
   const debugSummary =
     ENABLE_PDF_IMAGE_OPTIMIZATION_DEBUG
       ? buildPayloadDebugSummary(normalizedPages.flatMap((page) => page.debugEntries))
       : null;
 
-  const resolvedPageSizeMode = resolvePageSizeMode(storyboardState.pageSizeMode);
-  const paperSize =
-    resolvedPageSizeMode === 'dynamic'
-      ? 'canvas'
-      : resolvedPageSizeMode === 'letter-portrait'
-        ? 'letter-portrait'
-        : 'letter-landscape';
+  const pageSizeFields = getServerPdfPageSizeFields(storyboardState.pageSizeMode, storyboardState.customPageSize);
 
   const payload: ServerPDFExportPayload = {
     schemaVersion: 1,
     filename: options.filename,
-    paperSize,
-    pageSizeMode: resolvedPageSizeMode,
+    ...pageSizeFields,
+    // Print settings only apply to a fixed sheet
+    ...(pageSizeFields.paperDimensions && options.print && !isDefaultPrintLayout(options.print)
+      ? { print: options.print }
+      : {}),
     template: {
       showLogo: storyboardState.templateSettings.showLogo,
       showProjectName: storyboardState.templateSettings.showProjectName,
@@ -346,7 +414,15 @@ export async function buildServerPdfPayload(
       showJobInfo: storyboardState.templateSettings.showJobInfo,
       showActionText: storyboardState.templateSettings.showActionText,
       showScriptText: storyboardState.templateSettings.showScriptText,
+      showCameraDetails: storyboardState.templateSettings.showCameraDetails ?? false,
+      showReviewStatus: storyboardState.templateSettings.showReviewStatus ?? false,
+      showOmittedShots: storyboardState.templateSettings.showOmittedShots ?? true,
       showPageNumber: storyboardState.templateSettings.showPageNumber,
+      pageNumberFormat: getPageNumberFormat(storyboardState.templateSettings),
+      customFields: getCustomFields(storyboardState.templateSettings),
+      headerLayout: getHeaderLayout(storyboardState.templateSettings),
+      logoPlacement: getLogoPlacement(storyboardState.templateSettings),
+      headerFields: getHeaderFields(storyboardState.templateSettings),
     },
     theme: storyboardState.storyboardTheme,
     project: {
@@ -363,6 +439,9 @@ export async function buildServerPdfPayload(
     },
     page: firstPage.pageContent,
     pages: normalizedPages.map((page) => page.pageContent),
+    ...(frontMatter ? { frontMatter } : {}),
+    ...(hasPageFooterContent(footer) ? { footer } : {}),
+    pageCount: storyboardState.pages.length,
     ...(debugSummary ? { debug: debugSummary as unknown as Record<string, unknown> } : {}),
   };
 
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANIMATIC_SHOT_DURATION_SECONDS } from '@/utils/animatic';
+import { makeShot } from '@/test/factories';
+import { VideoRenderer, getSupportedWebMMimeType } from './videoRenderer';
+
+describe('VideoRenderer.prepareFrames', () => {
+  it('flattens pages in order with their aspect ratio and shot durations', async () => {
+    const frames = await VideoRenderer.prepareFrames([
+      { aspectRatio: '4/3', shots: [makeShot('a', { duration: 2 }), makeShot('b')] },
+      { aspectRatio: '', shots: [makeShot('c', { duration: 1.5 })] },
+    ]);
+
+    expect(frames.map((frame) => [frame.shot.id, frame.aspectRatio, frame.duration, frame.image])).toEqual([
+      ['a', '4/3', 2, null],
+      ['b', '4/3', DEFAULT_ANIMATIC_SHOT_DURATION_SECONDS, null],
+      ['c', '16/9', 1.5, null],
+    ]);
+  });
+
+  it('leaves out omitted shots', async () => {
+    const frames = await VideoRenderer.prepareFrames([
+      { aspectRatio: '16/9', shots: [makeShot('a'), makeShot('b', { reviewStatus: 'omitted' }), makeShot('c')] },
+    ]);
+
+    expect(frames.map((frame) => frame.shot.id)).toEqual(['a', 'c']);
+  });
+});
+
+describe('getSupportedWebMMimeType', () => {
+  it('returns null where MediaRecorder is unavailable', () => {
+    expect(getSupportedWebMMimeType()).toBeNull();
+  });
+});
@@ -0,0 +1,346 @@
+import type { Shot } from '@/store/shotStore';
+import { ExportError, type VideoExportOptions, type VideoResolution } from '@/utils/types/exportTypes';
+import {
+  applyImageOrientationToCanvas,
+  calculateCoverImageGeometry,
+  getImageOrientation,
+} from '@/utils/imageGeometry';
+import { getAnimaticShotDuration } from '@/utils/animatic';
+import { drawSketchOnCanvas, getSketchStrokes } from '@/utils/sketch';
+import { drawAnnotationsOnCanvas, getShotAnnotations } from '@/utils/annotations';
+import { getRichTextPlain } from '@/utils/richText';
+import { isShotOmitted } from '@/utils/shotReviewStatus';
+import { DataTransformer } from './dataTransformer';
+
+const FONT_FAMILY = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+const VIDEO_DIMENSIONS: Record<VideoResolution, { width: number; height: number }> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+};
+
+// Preferred first; the browser picks the first it can encode
+const WEBM_MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+];
+
+export interface VideoSourcePage {
+  aspectRatio: string;
+  shots: Shot[];
+}
+
+export interface VideoFrame {
+  shot: Shot;
+  image: HTMLImageElement | null;
+  aspectRatio: string;
+  duration: number; // Seconds
+}
+
+export const getSupportedWebMMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') {
+    return null;
+  }
+  return WEBM_MIME_TYPES.find((mimeType) => MediaRecorder.isTypeSupported(mimeType)) ?? null;
+};
+
+const parseAspectRatio = (aspectRatio: string): number => {
+  const [w, h] = aspectRatio.split('/').map((part) => parseFloat(part.trim()));
+  return w > 0 && h > 0 ? w / h : 16 / 9;
+};
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Renders an animatic to WebM.
+ *
+ * Each shot is drawn once per video frame for its hold duration while a
+ * MediaRecorder captures the canvas stream, so recording runs in real time.
+ * Image framing mirrors ShotImageRenderer: cover geometry, then
+ * scale(imageScale) translate(offset * container) around the centre, then
+ * rotation and flips.
+ */
+export class VideoRenderer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private options: VideoExportOptions;
+
+  constructor(options: VideoExportOptions) {
+    this.options = options;
+    this.canvas = document.createElement('canvas');
+    const { width, height } = VIDEO_DIMENSIONS[options.resolution];
+    this.canvas.width = width;
+    this.canvas.height = height;
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new ExportError('Failed to get canvas context', 'CANVAS_ERROR');
+    }
+    this.ctx = ctx;
+  }
+
+  /**
+   * Resolve shots (in page order) into frames with loaded images.
+   * Omitted shots are left out, as in the animatic.
+   */
+  static async prepareFrames(pages: VideoSourcePage[]): Promise<VideoFrame[]> {
+    const frames: VideoFrame[] = [];
+
+    for (const page of pages) {
+      for (const shot of page.shots) {
+        if (isShotOmitted(shot)) continue;
+        frames.push({
+          shot,
+          image: await VideoRenderer.loadShotImage(shot),
+          aspectRatio: page.aspectRatio || '16/9',
+          duration: getAnimaticShotDuration(shot),
+        });
+      }
+    }
+
+    return frames;
+  }
+
+  private static async loadShotImage(shot: Shot): Promise<HTMLImageElement | null> {
+    const source = shot.imageData || shot.imageUrl;
+    try {
+      if (source) {
+        return await DataTransformer.loadImageElement(source);
+      }
+      if (shot.imageFile) {
+        const url = URL.createObjectURL(shot.imageFile);
+        try {
+          return await DataTransformer.loadImageElement(url);
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to load image for shot ${shot.number}:`, error);
+    }
+    return null;
+  }
+
+  /**
+   * Record frames to a WebM blob. onProgress reports elapsed/total seconds.
+   */
+  async record(
+    frames: VideoFrame[],
+    onProgress?: (elapsedSeconds: number, totalSeconds: number, shotNumber: string) => void
+  ): Promise<Blob> {
+    if (frames.length === 0) {
+      throw new ExportError('No shots to export', 'NO_SHOTS');
+    }
+
+    const mimeType = getSupportedWebMMimeType();
+    if (!mimeType || typeof this.canvas.captureStream !== 'function') {
+      throw new ExportError('This browser cannot record WebM video', 'VIDEO_UNSUPPORTED');
+    }
+
+    await document.fonts?.ready;
+
+    const fps = Math.max(1, this.options.fps);
+    const frameIntervalMs = 1000 / fps;
+    const totalSeconds = frames.reduce((total, frame) => total + frame.duration, 0);
+
+    // Paint the first shot before the stream starts so the video never opens on a blank frame
+    this.renderFrame(frames[0]);
+
+    const stream = this.canvas.captureStream(fps);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.onstop = () => resolve();
+      recorder.onerror = () => reject(new ExportError('Video recording failed', 'VIDEO_RECORDING_ERROR'));
+    });
+
+    recorder.start();
+    const startedAt = performance.now();
+    let scheduledEnd = 0;
+
+    try {
+      for (const frame of frames) {
+        scheduledEnd += frame.duration * 1000;
+        this.renderFrame(frame);
+        onProgress?.(scheduledEnd / 1000 - frame.duration, totalSeconds, frame.shot.number);
+
+        // Repaint every frame interval: some encoders drop a static canvas
+        while (performance.now() - startedAt < scheduledEnd) {
+          await wait(Math.min(frameIntervalMs, scheduledEnd - (performance.now() - startedAt)));
+          this.renderFrame(frame);
+        }
+      }
+      onProgress?.(totalSeconds, totalSeconds, frames[frames.length - 1].shot.number);
+    } finally {
+      recorder.stop();
+      stream.getTracks().forEach((track) => track.stop());
+    }
+
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+  }
+
+  private renderFrame(frame: VideoFrame): void {
+    const { width, height } = this.canvas;
+    this.ctx.save();
+    this.ctx.fillStyle = this.options.backgroundColor;
+    this.ctx.fillRect(0, 0, width, height);
+    this.ctx.restore();
+
+    // Letterbox the shot's page aspect ratio inside the video frame
+    const ratio = parseAspectRatio(frame.aspectRatio);
+    const boxWidth = Math.min(width, height * ratio);
+    const boxHeight = boxWidth / ratio;
+    const box = {
+      x: (width - boxWidth) / 2,
+      y: (height - boxHeight) / 2,
+      width: boxWidth,
+      height: boxHeight,
+    };
+
+    if (frame.image) {
+      this.renderShotImage(frame.image, frame.shot, box);
+    }
+    drawSketchOnCanvas(this.ctx, getSketchStrokes(frame.shot), box);
+    drawAnnotationsOnCanvas(this.ctx, getShotAnnotations(frame.shot), box);
+
+    if (this.options.burnInShotNumbers && frame.shot.number) {
+      this.renderShotNumber(frame.shot.number, box);
+    }
+
+    const caption = getRichTextPlain(frame.shot.scriptText).trim();
+    if (this.options.burnInCaptions && caption) {
+      this.renderCaption(caption, box);
+    }
+  }
+
+  private renderShotImage(
+    image: HTMLImageElement,
+    shot: Shot,
+    box: { x: number; y: number; width: number; height: number }
+  ): void {
+    const orientation = getImageOrientation(shot);
+    const geometry = calculateCoverImageGeometry(
+      image.naturalWidth,
+      image.naturalHeight,
+      box.width,
+      box.height,
+      orientation.rotation
+    );
+    if (!geometry) return;
+
+    const imageScale = shot.imageScale || 1.0;
+    const offsetX = (shot.imageOffsetX || 0) * box.width;
+    const offsetY = (shot.imageOffsetY || 0) * box.height;
+
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(box.x, box.y, box.width, box.height);
+    this.ctx.clip();
+
+    // CSS: transform: scale(s) translate(x, y) with transform-origin at the image centre
+    this.ctx.translate(box.x + geometry.left + geometry.width / 2, box.y + geometry.top + geometry.height / 2);
+    this.ctx.scale(imageScale, imageScale);
+    this.ctx.translate(offsetX, offsetY);
+    applyImageOrientationToCanvas(this.ctx, orientation);
+    this.ctx.drawImage(image, -geometry.width / 2, -geometry.height / 2, geometry.width, geometry.height);
+    this.ctx.restore();
+  }
+
+  private renderShotNumber(number: string, box: { x: number; y: number; width: number; height: number }): void {
+    const fontSize = Math.round(this.canvas.height * 0.035);
+    const paddingX = fontSize * 0.5;
+    const paddingY = fontSize * 0.3;
+    const margin = fontSize * 0.6;
+
+    this.ctx.save();
+    this.ctx.font = `bold ${fontSize}px ${FONT_FAMILY}`;
+    this.ctx.textBaseline = 'middle';
+    const labelWidth = this.ctx.measureText(number).width + paddingX * 2;
+    const labelHeight = fontSize + paddingY * 2;
+    const x = box.x + margin;
+    const y = box.y + margin;
+
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    this.ctx.beginPath();
+    if (typeof this.ctx.roundRect === 'function') {
+      this.ctx.roundRect(x, y, labelWidth, labelHeight, fontSize * 0.25);
+    } else {
+      this.ctx.rect(x, y, labelWidth, labelHeight);
+    }
+    this.ctx.fill();
+
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.fillText(number, x + paddingX, y + labelHeight / 2);
+    this.ctx.restore();
+  }
+
+  private renderCaption(text: string, box: { x: number; y: number; width: number; height: number }): void {
+    const fontSize = Math.round(this.canvas.height * 0.04);
+    const lineHeight = fontSize * 1.25;
+    const maxWidth = box.width * 0.85;
+    const margin = fontSize * 0.8;
+
+    this.ctx.save();
+    this.ctx.font = `500 ${fontSize}px ${FONT_FAMILY}`;
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+
+    // Subtitle convention: at most three lines, ellipsis on overflow
+    const lines = this.wrapText(text, maxWidth, 3);
+    const blockHeight = lines.length * lineHeight;
+    const centerX = box.x + box.width / 2;
+    let lineY = box.y + box.height - margin - blockHeight + lineHeight / 2;
+
+    lines.forEach((line) => {
+      const lineWidth = this.ctx.measureText(line).width;
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      this.ctx.fillRect(centerX - lineWidth / 2 - fontSize * 0.3, lineY - lineHeight / 2, lineWidth + fontSize * 0.6, lineHeight);
+      this.ctx.fillStyle = '#ffffff';
+      this.ctx.fillText(line, centerX, lineY);
+      lineY += lineHeight;
+    });
+    this.ctx.restore();
+  }
+
+  private wrapText(text: string, maxWidth: number, maxLines: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split('\n')) {
+      let current = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && this.ctx.measureText(candidate).width > maxWidth) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      }
+      if (current) {
+        lines.push(current);
+      }
+    }
+
+    if (lines.length > maxLines) {
+      const kept = lines.slice(0, maxLines);
+      kept[maxLines - 1] = `${kept[maxLines - 1]}…`;
+      return kept;
+    }
+    return lines;
+  }
+
+  /**
+   * Release the canvas backing store
+   */
+  dispose(): void {
+    this.canvas.width = 1;
+    this.canvas.height = 1;
+  }
+}
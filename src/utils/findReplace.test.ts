@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_FIND_REPLACE_OPTIONS,
+  buildFindPattern,
+  findMatches,
+  getFindReplaceSources,
+  replaceAllMatches,
+  type FindReplaceOptions,
+} from './findReplace';
+
+const options = (overrides: Partial<FindReplaceOptions> = {}): FindReplaceOptions => ({
+  ...DEFAULT_FIND_REPLACE_OPTIONS,
+  ...overrides,
+});
+
+const makeState = () => ({
+  shots: {
+    s1: { id: 's1', number: '1', actionText: 'Anna opens the door', scriptText: '' },
+    s2: { id: 's2', number: '2', actionText: 'Door slams', scriptText: 'ANNA: Who is there?' },
+  },
+  shotOrder: ['s2', 's1', 'missing'],
+  pages: [{ id: 'p1', name: 'Opening' }],
+  project: { projectName: 'Anna', projectInfo: '', clientAgency: '', jobInfo: '' },
+});
+
+const patternFor = (query: string, overrides: Partial<FindReplaceOptions> = {}): RegExp => {
+  const { pattern } = buildFindPattern(query, options(overrides));
+  if (!pattern) throw new Error(`No pattern for ${query}`);
+  return pattern;
+};
+
+describe('buildFindPattern', () => {
+  it('matches plain text literally and ignores case by default', () => {
+    const pattern = patternFor('a.b');
+    expect(replaceAllMatches('A.B axb', pattern, '-', false)).toBe('- axb');
+  });
+
+  it('honours case sensitivity and whole words', () => {
+    expect(replaceAllMatches('Door door', patternFor('door', { caseSensitive: true }), 'x', false)).toBe('Door x');
+    expect(replaceAllMatches('door doorway', patternFor('door', { wholeWord: true }), 'x', false)).toBe('x doorway');
+  });
+
+  it('has no pattern and no error for an empty query', () => {
+    expect(buildFindPattern('', options())).toEqual({ pattern: null, error: null });
+  });
+
+  it('reports invalid and empty-matching regexes', () => {
+    expect(buildFindPattern('(', options({ useRegex: true })).error).toEqual(expect.any(String));
+    expect(buildFindPattern('a*', options({ useRegex: true }))).toEqual({
+      pattern: null,
+      error: 'Pattern matches empty text',
+    });
+  });
+});
+
+describe('replaceAllMatches', () => {
+  it('expands group references only in regex mode', () => {
+    expect(replaceAllMatches('Shot 12', patternFor('(\\d+)', { useRegex: true }), '#$1', true)).toBe('Shot #12');
+    expect(replaceAllMatches('Shot 12', patternFor('12'), '$1', false)).toBe('Shot $1');
+  });
+
+  it('restarts a pattern that was used before', () => {
+    const pattern = patternFor('a');
+    pattern.exec('xa');
+    expect(replaceAllMatches('a', pattern, 'b', false)).toBe('b');
+  });
+});
+
+describe('getFindReplaceSources', () => {
+  it('lists header fields, page names, then shot text in shot order', () => {
+    const sources = getFindReplaceSources(makeState());
+
+    expect(sources.map((source) => source.key)).toEqual([
+      'projectName',
+      'projectInfo',
+      'clientAgency',
+      'jobInfo',
+      'page:p1',
+      'actionText:s2',
+      'scriptText:s2',
+      'actionText:s1',
+      'scriptText:s1',
+    ]);
+    expect(sources[4].label).toBe('Page 1 · Page name');
+    expect(sources[5]).toMatchObject({ ownerId: 's2', label: 'Shot 2 · Action' });
+  });
+});
+
+describe('findMatches', () => {
+  it('previews each match with context and its replacement', () => {
+    const sources = getFindReplaceSources(makeState());
+    const matches = findMatches(sources, patternFor('anna'), 'Beth', false);
+
+    expect(matches.map((match) => [match.source.key, match.start, match.match])).toEqual([
+      ['projectName', 0, 'Anna'],
+      ['scriptText:s2', 0, 'ANNA'],
+      ['actionText:s1', 0, 'Anna'],
+    ]);
+    expect(matches[2]).toMatchObject({ before: '', after: ' opens the door', replacement: 'Beth' });
+  });
+
+  it('expands regex replacements per match', () => {
+    const sources = getFindReplaceSources(makeState());
+    const [match] = findMatches(sources, patternFor('(\\w+) slams', { useRegex: true }), '$1 creaks', true);
+
+    expect(match).toMatchObject({ match: 'Door slams', replacement: 'Door creaks' });
+  });
+});
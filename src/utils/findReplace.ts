@@ -0,0 +1,178 @@
+/**
+ * Project-wide find and replace over shot text, page names and the header
+ * fields. The panel previews with the same sources and pattern that the store
+ * applies, so what is listed is exactly what gets replaced.
+ */
+
+export interface FindReplaceOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  useRegex: boolean;
+}
+
+export type FindReplaceField =
+  | 'actionText'
+  | 'scriptText'
+  | 'pageName'
+  | 'projectName'
+  | 'projectInfo'
+  | 'clientAgency'
+  | 'jobInfo';
+
+export interface FindReplaceSource {
+  key: string;
+  field: FindReplaceField;
+  ownerId: string | null; // Shot or page ID; null for header fields
+  label: string;
+  text: string;
+}
+
+export interface FindReplaceMatch {
+  source: FindReplaceSource;
+  start: number;
+  before: string;
+  match: string;
+  after: string;
+  replacement: string;
+}
+
+export type FindReplacePattern =
+  | { pattern: RegExp; error: null }
+  | { pattern: null; error: string | null };
+
+export const DEFAULT_FIND_REPLACE_OPTIONS: FindReplaceOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  useRegex: false,
+};
+
+export const FIND_REPLACE_FIELD_LABELS: Record<FindReplaceField, string> = {
+  actionText: 'Action',
+  scriptText: 'Script',
+  pageName: 'Page name',
+  projectName: 'Project name',
+  projectInfo: 'Project info',
+  clientAgency: 'Client/Agency',
+  jobInfo: 'Job info',
+};
+
+const PREVIEW_CONTEXT_CHARS = 24;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles the query. An empty query has no pattern and no error; an invalid
+ * regex, or one that can match empty text, reports why instead of throwing.
+ */
+export const buildFindPattern = (query: string, options: FindReplaceOptions): FindReplacePattern => {
+  if (!query) return { pattern: null, error: null };
+
+  const source = options.useRegex ? query : escapeRegExp(query);
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(options.wholeWord ? `\\b(?:${source})\\b` : source, options.caseSensitive ? 'g' : 'gi');
+  } catch (error) {
+    return { pattern: null, error: error instanceof Error ? error.message : 'Invalid pattern' };
+  }
+
+  // Empty matches would insert the replacement between every character
+  if (new RegExp(pattern.source, pattern.flags.replace('g', '')).test('')) {
+    return { pattern: null, error: 'Pattern matches empty text' };
+  }
+  return { pattern, error: null };
+};
+
+/**
+ * Replaces every match. Regex mode expands $1-style group references; plain
+ * mode inserts the replacement literally.
+ */
+export const replaceAllMatches = (
+  text: string,
+  pattern: RegExp,
+  replacement: string,
+  useRegex: boolean
+): string => {
+  pattern.lastIndex = 0;
+  return useRegex
+    ? text.replace(pattern, replacement)
+    : text.replace(pattern, () => replacement);
+};
+
+interface FindReplaceState {
+  shots: Record<string, { id: string; number: string; actionText: string; scriptText: string }>;
+  shotOrder: string[];
+  pages: Array<{ id: string; name: string }>;
+  project: Record<'projectName' | 'projectInfo' | 'clientAgency' | 'jobInfo', string>;
+}
+
+/**
+ * Every searchable text in board order: header fields, page names, then shot
+ * text by shot order.
+ */
+export const getFindReplaceSources = ({ shots, shotOrder, pages, project }: FindReplaceState): FindReplaceSource[] => {
+  const sources: FindReplaceSource[] = [];
+
+  (['projectName', 'projectInfo', 'clientAgency', 'jobInfo'] as const).forEach((field) => {
+    sources.push({
+      key: field,
+      field,
+      ownerId: null,
+      label: `Header · ${FIND_REPLACE_FIELD_LABELS[field]}`,
+      text: project[field] || '',
+    });
+  });
+
+  pages.forEach((page, index) => {
+    sources.push({
+      key: `page:${page.id}`,
+      field: 'pageName',
+      ownerId: page.id,
+      label: `Page ${index + 1} · ${FIND_REPLACE_FIELD_LABELS.pageName}`,
+      text: page.name || '',
+    });
+  });
+
+  shotOrder.forEach((shotId) => {
+    const shot = shots[shotId];
+    if (!shot) return;
+    (['actionText', 'scriptText'] as const).forEach((field) => {
+      sources.push({
+        key: `${field}:${shot.id}`,
+        field,
+        ownerId: shot.id,
+        label: `Shot ${shot.number} · ${FIND_REPLACE_FIELD_LABELS[field]}`,
+        text: shot[field] || '',
+      });
+    });
+  });
+
+  return sources;
+};
+
+export const findMatches = (
+  sources: FindReplaceSource[],
+  pattern: RegExp,
+  replacement: string,
+  useRegex: boolean
+): FindReplaceMatch[] => {
+  const matches: FindReplaceMatch[] = [];
+  sources.forEach((source) => {
+    pattern.lastIndex = 0;
+    for (const result of source.text.matchAll(pattern)) {
+      const start = result.index ?? 0;
+      const end = start + result[0].length;
+      matches.push({
+        source,
+        start,
+        before: source.text.slice(Math.max(0, start - PREVIEW_CONTEXT_CHARS), start),
+        match: result[0],
+        after: source.text.slice(end, end + PREVIEW_CONTEXT_CHARS),
+        // Expanded on the match alone; lookarounds may see less context than the full replace
+        replacement: useRegex
+          ? result[0].replace(new RegExp(pattern.source, pattern.flags.replace('g', '')), replacement)
+          : replacement,
+      });
+    }
+  });
+  return matches;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { formatShotNumber, getSubShotLetters, isShotNumberTemplate, parseFormat } from './formatShotNumber';
+
+describe('formatShotNumber', () => {
+  it('pads and offsets numeric formats', () => {
+    expect(formatShotNumber(1, '1')).toBe('1');
+    expect(formatShotNumber(3, '01')).toBe('03');
+    expect(formatShotNumber(3, '001')).toBe('003');
+    expect(formatShotNumber(3, '100')).toBe('102');
+  });
+
+  it('keeps a prefix and appends sub-shot letters', () => {
+    expect(formatShotNumber(4, 'SH01', 'b')).toBe('SH04b');
+  });
+
+  it('falls back to the default format', () => {
+    expect(formatShotNumber(2, '')).toBe('02');
+    expect(formatShotNumber(2, null)).toBe('02');
+  });
+
+  it('fills template tokens', () => {
+    expect(formatShotNumber(4, '{scene}-{shot:03}{sub}', 'a', 'SC02')).toBe('SC02-004a');
+    expect(formatShotNumber(12, 'Shot {shot}')).toBe('Shot 12');
+  });
+
+  it('appends sub-shot letters when the template has no sub token', () => {
+    expect(formatShotNumber(4, '{shot:02}', 'c')).toBe('04c');
+  });
+
+  it('drops the scene token and its separator outside a scene', () => {
+    expect(formatShotNumber(4, '{scene}-{shot:03}')).toBe('004');
+    expect(formatShotNumber(4, '{shot:03}_{scene}')).toBe('004');
+  });
+});
+
+describe('getSubShotLetters', () => {
+  it('runs a to z, then continues with two letters', () => {
+    expect(getSubShotLetters(0)).toBe('a');
+    expect(getSubShotLetters(25)).toBe('z');
+    expect(getSubShotLetters(26)).toBe('aa');
+    expect(getSubShotLetters(27)).toBe('ab');
+    expect(getSubShotLetters(26 * 27)).toBe('aaa');
+  });
+});
+
+describe('isShotNumberTemplate', () => {
+  it('detects template tokens', () => {
+    expect(isShotNumberTemplate('{shot}')).toBe(true);
+    expect(isShotNumberTemplate('{shot:03}')).toBe(true);
+    expect(isShotNumberTemplate('SH01')).toBe(false);
+    expect(isShotNumberTemplate(undefined)).toBe(false);
+  });
+});
+
+describe('parseFormat', () => {
+  it('splits prefix, padding and starting number', () => {
+    expect(parseFormat('SH010')).toEqual({ prefix: 'SH', padding: 3, startingNumber: 10 });
+  });
+});
@@ -7,17 +7,88 @@
  * - '01' = zero-pad to 2 digits, starts from 1  
  * - '001' = zero-pad to 3 digits, starts from 1
  * - '100' = zero-pad to 3 digits, starts from 100
+ *
+ * A format containing tokens is a template instead:
+ * - '{shot}' = the shot counter, '{shot:03}' zero-pads it to 3 digits
+ * - '{sub}' = the sub-shot letters (appended at the end when missing)
+ * - '{scene}' = the scene label, e.g. '{scene}-{shot:03}{sub}' = 'SC02-004a'
+ * Outside a scene '{scene}' is dropped along with the separator after it.
  */
 const DEFAULT_SHOT_NUMBER_FORMAT = '01';
 
+const TEMPLATE_TOKEN_PATTERN = /(\{(?:scene|shot|sub)(?::\d+)?\})/;
+
+export function isShotNumberTemplate(format: string | null | undefined): boolean {
+  return typeof format === 'string' && TEMPLATE_TOKEN_PATTERN.test(format);
+}
+
+export function usesSceneToken(format: string | null | undefined): boolean {
+  return typeof format === 'string' && format.includes('{scene}');
+}
+
+/**
+ * Letters for the nth sub-shot in a group (0-based): a..z, then aa, ab, ...
+ */
+export function getSubShotLetters(index: number): string {
+  let remaining = Math.max(0, Math.floor(index));
+  let letters = '';
+  do {
+    letters = String.fromCharCode(97 + (remaining % 26)) + letters;
+    remaining = Math.floor(remaining / 26) - 1;
+  } while (remaining >= 0);
+  return letters;
+}
+
+function formatShotNumberTemplate(
+  position: number,
+  template: string,
+  subShotLetter = '',
+  sceneLabel = ''
+): string {
+  // split() keeps the tokens at odd indices, literal text at even ones
+  const segments = template.split(TEMPLATE_TOKEN_PATTERN);
+
+  if (!sceneLabel) {
+    for (let i = 1; i < segments.length; i += 2) {
+      if (segments[i] !== '{scene}') continue;
+      segments[i] = '';
+      if (i + 1 < segments.length - 1) {
+        segments[i + 1] = '';
+      } else if (i - 1 > 0) {
+        segments[i - 1] = '';
+      }
+    }
+  }
+
+  let hasSubToken = false;
+  const rendered = segments.map((segment, index) => {
+    if (index % 2 === 0 || !segment) return segment;
+    const [, token, width] = segment.match(/^\{(\w+)(?::(\d+))?\}$/) ?? [];
+    if (token === 'shot') {
+      return width ? position.toString().padStart(parseInt(width, 10), '0') : position.toString();
+    }
+    if (token === 'sub') {
+      hasSubToken = true;
+      return subShotLetter;
+    }
+    return sceneLabel;
+  }).join('');
+
+  return hasSubToken ? rendered : `${rendered}${subShotLetter}`;
+}
+
 export function formatShotNumber(
   position: number, 
   format: string | null | undefined, 
-  subShotLetter?: string
+  subShotLetter?: string,
+  sceneLabel?: string
 ): string {
   if (typeof format !== 'string' || format.trim() === '') {
     format = DEFAULT_SHOT_NUMBER_FORMAT;
   }
+  if (isShotNumberTemplate(format)) {
+    return formatShotNumberTemplate(position, format, subShotLetter, sceneLabel);
+  }
   // Parse the format to extract prefix, padding, and starting number
   const numericPartMatch = format.match(/\d+$/);
   
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_HEADER_FIELD_VALUE_LENGTH,
+  getHeaderColumns,
+  getHeaderExtraHeightPx,
+  getHeaderFieldEntries,
+  getHeaderFieldLabelText,
+  getHeaderFields,
+  getHeaderLayout,
+  getLogoPlacement,
+  isBalancedHeader,
+  type HeaderField,
+} from './headerLayout';
+
+const makeField = (id: string, overrides: Partial<HeaderField> = {}): HeaderField => ({
+  id,
+  label: id,
+  value: 'Value',
+  visible: true,
+  ...overrides,
+});
+
+const allVisible = {
+  showLogo: true,
+  showProjectName: true,
+  showProjectInfo: true,
+  showClientAgency: true,
+  showJobInfo: true,
+};
+
+describe('header settings', () => {
+  it('fall back to the original split header for older settings', () => {
+    expect(getHeaderLayout({})).toBe('split');
+    expect(getHeaderLayout({ headerLayout: 'diagonal' })).toBe('split');
+    expect(getLogoPlacement(null)).toBe('left');
+    expect(getHeaderFields({ headerFields: [makeField('a', { value: 'x'.repeat(MAX_HEADER_FIELD_VALUE_LENGTH + 1) })] })).toEqual([]);
+  });
+});
+
+describe('getHeaderFieldEntries', () => {
+  it('keeps visible fields with a value, in order', () => {
+    const fields = [
+      makeField('Director'),
+      makeField('DP', { visible: false }),
+      makeField('Draft #', { value: '  ' }),
+      makeField('Date'),
+    ];
+
+    expect(getHeaderFieldEntries(fields).map((entry) => entry.id)).toEqual(['Director', 'Date']);
+  });
+});
+
+describe('getHeaderFieldLabelText', () => {
+  it('adds a colon to non-empty labels', () => {
+    expect(getHeaderFieldLabelText({ label: ' Director ' })).toBe('Director:');
+    expect(getHeaderFieldLabelText({ label: '  ' })).toBe('');
+  });
+});
+
+describe('getHeaderColumns', () => {
+  it('splits title and client into two columns', () => {
+    expect(getHeaderColumns('split', allVisible).map((column) => [column.slot, column.lines])).toEqual([
+      ['left', ['projectName', 'projectInfo']],
+      ['right', ['clientAgency', 'jobInfo']],
+    ]);
+  });
+
+  it('keeps split columns on one baseline when only one has a second line', () => {
+    const columns = getHeaderColumns('split', { ...allVisible, showJobInfo: false });
+    expect(columns[1].lines).toEqual(['clientAgency', 'spacer']);
+  });
+
+  it('puts every line in one column for stacked and centered headers', () => {
+    const lines = ['projectName', 'projectInfo', 'clientAgency', 'jobInfo'];
+
+    expect(getHeaderColumns('stacked', allVisible)).toEqual([expect.objectContaining({ slot: 'left', align: 'left', lines })]);
+    expect(getHeaderColumns('centered', { ...allVisible, showProjectInfo: false })).toEqual([
+      expect.objectContaining({ slot: 'center', align: 'center', lines: ['projectName', 'clientAgency', 'jobInfo'] }),
+    ]);
+  });
+});
+
+describe('isBalancedHeader', () => {
+  it('balances the sides when something sits in the center', () => {
+    expect(isBalancedHeader('centered', 'left', false)).toBe(true);
+    expect(isBalancedHeader('split', 'center', true)).toBe(true);
+    expect(isBalancedHeader('split', 'center', false)).toBe(false);
+  });
+});
+
+describe('getHeaderExtraHeightPx', () => {
+  it('needs no extra room for the original split header', () => {
+    expect(getHeaderExtraHeightPx({ ...allVisible, headerFields: [makeField('a', { value: '' })] })).toBe(0);
+  });
+
+  it('adds room for header fields and single-column lines', () => {
+    const withFields = getHeaderExtraHeightPx({ ...allVisible, headerFields: [makeField('a')] });
+    const stacked = getHeaderExtraHeightPx({ ...allVisible, headerLayout: 'stacked' });
+    const stackedWithoutClient = getHeaderExtraHeightPx({ ...allVisible, headerLayout: 'stacked', showClientAgency: false, showJobInfo: false });
+
+    expect(withFields).toBeGreaterThan(0);
+    expect(stacked).toBeGreaterThan(0);
+    expect(stackedWithoutClient).toBe(0);
+  });
+
+  it('adds room for a centered logo above a centered header', () => {
+    const centered = { ...allVisible, headerLayout: 'centered' };
+    expect(getHeaderExtraHeightPx({ ...centered, logoPlacement: 'center' })).toBeGreaterThan(getHeaderExtraHeightPx(centered));
+    expect(getHeaderExtraHeightPx({ ...centered, logoPlacement: 'center', showLogo: false })).toBe(getHeaderExtraHeightPx(centered));
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Page header arrangement: where the title block, client block and logo sit,
+ * plus project-defined header fields such as "Director", "DP" or "Draft #".
+ *
+ * Everything lives in `TemplateSettings` (`headerLayout`, `logoPlacement` and
+ * `headerFields`). Header fields are project-level, so unlike custom shot
+ * fields each definition carries its own value.
+ *
+ * The live header, the React export route and the static export route all
+ * lay the header out from the columns and styles below so the three match.
+ */
+
+export type HeaderLayout = 'split' | 'stacked' | 'centered';
+export type LogoPlacement = 'left' | 'center' | 'right';
+
+export interface HeaderField {
+  id: string;
+  label: string;
+  value: string;
+  visible: boolean;
+}
+
+export type HeaderFieldEntry = Pick<HeaderField, 'id' | 'label' | 'value'>;
+
+export const DEFAULT_HEADER_LAYOUT: HeaderLayout = 'split';
+export const DEFAULT_LOGO_PLACEMENT: LogoPlacement = 'left';
+
+export const HEADER_LAYOUT_OPTIONS: Array<{ value: HeaderLayout; label: string; description: string }> = [
+  { value: 'split', label: 'Split', description: 'Title on the left, client on the right' },
+  { value: 'stacked', label: 'Stacked', description: 'Everything in one left-aligned column' },
+  { value: 'centered', label: 'Centered', description: 'Everything centered on the page' },
+];
+
+export const LOGO_PLACEMENT_OPTIONS: Array<{ value: LogoPlacement; label: string }> = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+export const HEADER_FIELD_PRESETS = ['Director', 'DP', 'Draft #', 'Date', 'Version'] as const;
+
+export const MAX_HEADER_FIELDS = 8;
+export const MAX_HEADER_FIELD_LABEL_LENGTH = 40;
+export const MAX_HEADER_FIELD_VALUE_LENGTH = 120;
+
+export const isHeaderLayout = (value: unknown): value is HeaderLayout =>
+  HEADER_LAYOUT_OPTIONS.some((option) => option.value === value);
+
+export const isLogoPlacement = (value: unknown): value is LogoPlacement =>
+  LOGO_PLACEMENT_OPTIONS.some((option) => option.value === value);
+
+export const isHeaderField = (value: unknown): value is HeaderField => {
+  if (!value || typeof value !== 'object') return false;
+  const field = value as Record<string, unknown>;
+  return (
+    typeof field.id === 'string' &&
+    field.id !== '' &&
+    typeof field.label === 'string' &&
+    field.label.length <= MAX_HEADER_FIELD_LABEL_LENGTH &&
+    typeof field.value === 'string' &&
+    field.value.length <= MAX_HEADER_FIELD_VALUE_LENGTH &&
+    typeof field.visible === 'boolean'
+  );
+};
+
+export const isHeaderFieldList = (value: unknown): value is HeaderField[] =>
+  Array.isArray(value) && value.length <= MAX_HEADER_FIELDS && value.every(isHeaderField);
+
+/**
+ * Settings saved before header layouts existed fall back to the original
+ * split header with the logo on the left and no header fields.
+ */
+export const getHeaderLayout = (settings: { headerLayout?: unknown } | null | undefined): HeaderLayout =>
+  isHeaderLayout(settings?.headerLayout) ? settings.headerLayout : DEFAULT_HEADER_LAYOUT;
+
+export const getLogoPlacement = (settings: { logoPlacement?: unknown } | null | undefined): LogoPlacement =>
+  isLogoPlacement(settings?.logoPlacement) ? settings.logoPlacement : DEFAULT_LOGO_PLACEMENT;
+
+export const getHeaderFields = (settings: { headerFields?: unknown } | null | undefined): HeaderField[] =>
+  isHeaderFieldList(settings?.headerFields) ? settings.headerFields : [];
+
+/**
+ * The visible fields that have a value, in display order. Like custom shot
+ * fields, empty ones are left off the page.
+ */
+export const getHeaderFieldEntries = (fields: HeaderField[]): HeaderFieldEntry[] =>
+  fields
+    .filter((field) => field.visible && field.value.trim())
+    .map(({ id, label, value }) => ({ id, label, value }));
+
+export const getHeaderFieldLabelText = (entry: Pick<HeaderFieldEntry, 'label'>): string => {
+  const label = entry.label.trim();
+  return label ? `${label}:` : '';
+};
+
+export const createHeaderField = (label: string): HeaderField => ({
+  id: crypto.randomUUID(),
+  label: label.trim().slice(0, MAX_HEADER_FIELD_LABEL_LENGTH),
+  value: '',
+  visible: true,
+});
+
+export type HeaderSlot = 'left' | 'center' | 'right';
+export type HeaderLine = 'projectName' | 'projectInfo' | 'clientAgency' | 'jobInfo';
+export type HeaderTextAlign = 'left' | 'center' | 'right';
+
+export interface HeaderColumn {
+  slot: HeaderSlot;
+  align: HeaderTextAlign;
+  width: number;
+  // 'spacer' keeps the split header's two columns on the same baseline when
+  // only one of them has a second line
+  lines: Array<HeaderLine | 'spacer'>;
+}
+
+interface HeaderVisibility {
+  showLogo: boolean;
+  showProjectName: boolean;
+  showProjectInfo: boolean;
+  showClientAgency: boolean;
+  showJobInfo: boolean;
+}
+
+const TITLE_COLUMN_WIDTH_PX = 388;
+const CLIENT_COLUMN_WIDTH_PX = 250;
+const CENTERED_COLUMN_WIDTH_PX = 460;
+
+export const getHeaderColumns = (layout: HeaderLayout, visibility: HeaderVisibility): HeaderColumn[] => {
+  const { showProjectName, showProjectInfo, showClientAgency, showJobInfo } = visibility;
+
+  if (layout === 'split') {
+    const hasLowerRow = showProjectInfo || showJobInfo;
+    return [
+      {
+        slot: 'left',
+        align: 'left',
+        width: TITLE_COLUMN_WIDTH_PX,
+        lines: [
+          ...(showProjectName ? ['projectName' as const] : []),
+          ...(showProjectInfo ? ['projectInfo' as const] : hasLowerRow ? ['spacer' as const] : []),
+        ],
+      },
+      {
+        slot: 'right',
+        align: 'right',
+        width: CLIENT_COLUMN_WIDTH_PX,
+        lines: [
+          ...(showClientAgency ? ['clientAgency' as const] : []),
+          ...(showJobInfo ? ['jobInfo' as const] : hasLowerRow ? ['spacer' as const] : []),
+        ],
+      },
+    ];
+  }
+
+  const lines: HeaderLine[] = [
+    ...(showProjectName ? ['projectName' as const] : []),
+    ...(showProjectInfo ? ['projectInfo' as const] : []),
+    ...(showClientAgency ? ['clientAgency' as const] : []),
+    ...(showJobInfo ? ['jobInfo' as const] : []),
+  ];
+  return layout === 'centered'
+    ? [{ slot: 'center', align: 'center', width: CENTERED_COLUMN_WIDTH_PX, lines }]
+    : [{ slot: 'left', align: 'left', width: TITLE_COLUMN_WIDTH_PX, lines }];
+};
+
+/**
+ * True when something sits in the center slot, in which case the side slots
+ * split the remaining width evenly so the center lands on the page center.
+ */
+export const isBalancedHeader = (layout: HeaderLayout, logoPlacement: LogoPlacement, showLogo: boolean): boolean =>
+  layout === 'centered' || (showLogo && logoPlacement === 'center');
+
+export const HEADER_ROW_STYLE = {
+  display: 'flex',
+  alignItems: 'flex-end',
+  justifyContent: 'space-between',
+  gap: '24px',
+} as const;
+
+export const getHeaderSlotStyle = (slot: HeaderSlot, balanced: boolean) => {
+  if (slot === 'center') {
+    return {
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '8px',
+      flexShrink: '0',
+    } as const;
+  }
+  return {
+    display: 'flex',
+    alignItems: 'flex-end',
+    justifyContent: slot === 'right' ? 'flex-end' : 'flex-start',
+    gap: '16px',
+    ...(balanced ? { flex: '1 1 0', minWidth: '0' } : { flexShrink: '0' }),
+  } as const;
+};
+
+export const getHeaderColumnStyle = (column: HeaderColumn) => ({
+  width: `${column.width}px`,
+  maxWidth: '100%',
+  minWidth: '0',
+  textAlign: column.align,
+} as const);
+
+const HEADER_LINE_STYLES = {
+  projectName: { fontSize: '22px', lineHeight: '1.2', minHeight: '26px', fontWeight: '700' },
+  projectInfo: { fontSize: '14px', lineHeight: '1.4', minHeight: '20px', marginTop: '4px' },
+  clientAgency: { fontSize: '18px', lineHeight: '1.2', minHeight: '22px', fontWeight: '600' },
+  jobInfo: { fontSize: '14px', lineHeight: '1.4', minHeight: '20px', marginTop: '4px' },
+  spacer: { fontSize: '14px', lineHeight: '1.4', minHeight: '20px', marginTop: '4px' },
+} as const;
+
+// In a single column the client block starts a little below the title block
+export const getHeaderLineStyle = (line: HeaderLine | 'spacer', index: number) =>
+  line === 'clientAgency' && index > 0
+    ? { ...HEADER_LINE_STYLES.clientAgency, marginTop: '8px' }
+    : HEADER_LINE_STYLES[line];
+
+// Room left beside a line for the live header's clear button
+export const getHeaderLinePaddingClass = (align: HeaderTextAlign): string =>
+  align === 'right' ? 'pl-6' : align === 'center' ? 'px-6' : 'pr-6';
+
+export const getHeaderFieldsRowStyle = (layout: HeaderLayout) => ({
+  display: 'flex',
+  flexWrap: 'wrap',
+  justifyContent: layout === 'centered' ? 'center' : 'flex-start',
+  columnGap: '20px',
+  rowGap: '2px',
+  marginTop: '8px',
+  fontSize: '12px',
+  lineHeight: '1.4',
+} as const);
+
+export const HEADER_FIELD_STYLES = {
+  entry: { whiteSpace: 'pre-wrap' },
+  label: { fontWeight: '600', marginRight: '4px' },
+} as const;
+
+const HEADER_FIELDS_ROW_HEIGHT_PX = 26;
+const STACKED_CLIENT_LINE_HEIGHT_PX = 30;
+const STACKED_JOB_LINE_HEIGHT_PX = 24;
+const CENTERED_LOGO_HEIGHT_PX = 68;
+
+/**
+ * Height the header needs beyond the original split header, so fixed page
+ * sizes reserve room for header fields and single-column layouts.
+ */
+export const getHeaderExtraHeightPx = (
+  settings: HeaderVisibility & { headerLayout?: unknown; logoPlacement?: unknown; headerFields?: unknown }
+): number => {
+  const layout = getHeaderLayout(settings);
+  let extraHeightPx = getHeaderFieldEntries(getHeaderFields(settings)).length > 0 ? HEADER_FIELDS_ROW_HEIGHT_PX : 0;
+
+  if (layout !== 'split') {
+    if (settings.showClientAgency) extraHeightPx += STACKED_CLIENT_LINE_HEIGHT_PX;
+    if (settings.showJobInfo) extraHeightPx += STACKED_JOB_LINE_HEIGHT_PX;
+  }
+  if (layout === 'centered' && settings.showLogo && getLogoPlacement(settings) === 'center') {
+    extraHeightPx += CENTERED_LOGO_HEIGHT_PX;
+  }
+  return extraHeightPx;
+};
@@ -0,0 +1,40 @@
+/**
+ * History Cleanup
+ *
+ * Lets stores hand off irreversible side effects, such as deleting uploaded
+ * images from storage, without importing the history store. The history store
+ * registers a handler that holds each cleanup until its undo step can no longer
+ * be undone; with no handler, or outside a history step, cleanups run at once.
+ */
+
+export type HistoryCleanup = () => void;
+
+let deferCleanup: ((cleanup: HistoryCleanup) => boolean) | null = null;
+
+/**
+ * Register the history handler (called once when the history store loads).
+ * The handler returns false when there is no open step to attach to.
+ */
+export const registerHistoryCleanup = (handler: (cleanup: HistoryCleanup) => boolean) => {
+  deferCleanup = handler;
+};
+
+export const runHistoryCleanups = (cleanups: HistoryCleanup[] | undefined) => {
+  cleanups?.forEach((cleanup) => {
+    try {
+      cleanup();
+    } catch (error) {
+      console.warn('History cleanup failed:', error);
+    }
+  });
+};
+
+/**
+ * Run a cleanup once the current change can no longer be undone: when its
+ * step falls off the undo stack or history is cleared. Steps that are undone
+ * and then discarded drop their cleanups, since their data is back in use.
+ */
+export const runWhenUndoExpires = (cleanup: HistoryCleanup) => {
+  if (deferCleanup?.(cleanup)) return;
+  runHistoryCleanups([cleanup]);
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateCoverImageGeometry,
+  getImageOrientation,
+  getImageOrientationTransform,
+  getRotatedBounds,
+  normalizeImageRotation,
+} from './imageGeometry';
+
+describe('normalizeImageRotation', () => {
+  it('wraps angles into -180..180', () => {
+    expect(normalizeImageRotation(90)).toBe(90);
+    expect(normalizeImageRotation(270)).toBe(-90);
+    expect(normalizeImageRotation(-270)).toBe(90);
+    expect(normalizeImageRotation(720)).toBe(0);
+    expect(normalizeImageRotation(180)).toBe(180);
+  });
+
+  it('resets invalid angles', () => {
+    expect(normalizeImageRotation(Number.NaN)).toBe(0);
+  });
+});
+
+describe('getImageOrientation', () => {
+  it('fills defaults for shots without transforms', () => {
+    expect(getImageOrientation(undefined)).toEqual({ rotation: 0, flipX: false, flipY: false });
+    expect(getImageOrientation({ imageRotation: 450, imageFlipY: true })).toEqual({ rotation: 90, flipX: false, flipY: true });
+  });
+});
+
+describe('getRotatedBounds', () => {
+  it('swaps sides for a quarter turn', () => {
+    const bounds = getRotatedBounds(160, 90, 90);
+    expect(bounds.width).toBeCloseTo(90);
+    expect(bounds.height).toBeCloseTo(160);
+  });
+});
+
+describe('calculateCoverImageGeometry', () => {
+  it('covers the viewport and centres the image', () => {
+    expect(calculateCoverImageGeometry(100, 100, 160, 90)).toEqual({ width: 160, height: 160, left: 0, top: -35 });
+  });
+
+  it('grows a rotated image so it still covers the viewport', () => {
+    const geometry = calculateCoverImageGeometry(160, 90, 160, 90, 90);
+    // The rotated image must span 160 tall, so its 90px side scales to 160
+    expect(geometry?.height).toBeCloseTo(160);
+    expect(geometry?.width).toBeCloseTo((160 * 160) / 90);
+  });
+
+  it('returns null for empty sizes', () => {
+    expect(calculateCoverImageGeometry(0, 100, 160, 90)).toBeNull();
+    expect(calculateCoverImageGeometry(100, 100, 160, Number.NaN)).toBeNull();
+  });
+});
+
+describe('getImageOrientationTransform', () => {
+  it('appends rotation and flips', () => {
+    expect(getImageOrientationTransform({ rotation: -90, flipX: true, flipY: false })).toBe(' rotate(-90deg) scale(-1, 1)');
+  });
+
+  it('adds nothing without an orientation', () => {
+    expect(getImageOrientationTransform({ rotation: 0, flipX: false, flipY: false })).toBe('');
+  });
+});
@@ -5,15 +5,64 @@ export interface CoverImageGeometry {
   top: number;
 }
 
+/**
+ * Rotation and flips applied to a shot image on top of its scale and offset.
+ * They're stored as transform fields on the shot; the image itself is never
+ * modified.
+ */
+export interface ImageOrientation {
+  rotation: number; // Degrees clockwise, -180 to 180
+  flipX: boolean;
+  flipY: boolean;
+}
+
+type OrientedShot = {
+  imageRotation?: number;
+  imageFlipX?: boolean;
+  imageFlipY?: boolean;
+};
+
+/**
+ * Wraps any angle into -180..180 so stepping round a full turn can't grow the
+ * stored value without bound.
+ */
+export const normalizeImageRotation = (degrees: number): number => {
+  if (!Number.isFinite(degrees)) return 0;
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+export const getImageOrientation = (shot: OrientedShot | null | undefined): ImageOrientation => ({
+  rotation: normalizeImageRotation(shot?.imageRotation ?? 0),
+  flipX: Boolean(shot?.imageFlipX),
+  flipY: Boolean(shot?.imageFlipY),
+});
+
+/**
+ * Size of the box a width x height rectangle needs once rotated.
+ */
+export const getRotatedBounds = (width: number, height: number, rotation: number) => {
+  const radians = (normalizeImageRotation(rotation) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  return {
+    width: width * cos + height * sin,
+    height: width * sin + height * cos,
+  };
+};
+
 /**
  * Sizes an image to cover a viewport while preserving its intrinsic aspect ratio.
  * The returned position centers the untransformed image in that viewport.
+ * With a rotation the image is sized so the rotated image still covers the
+ * whole viewport; width and height stay in the image's own orientation.
  */
 export const calculateCoverImageGeometry = (
   naturalWidth: number,
   naturalHeight: number,
   containerWidth: number,
-  containerHeight: number
+  containerHeight: number,
+  rotation: number = 0
 ): CoverImageGeometry | null => {
   if (
     !Number.isFinite(naturalWidth) ||
@@ -28,7 +77,8 @@ export const calculateCoverImageGeometry = (
     return null;
   }
 
-  const coverScale = Math.max(containerWidth / naturalWidth, containerHeight / naturalHeight);
+  const target = getRotatedBounds(containerWidth, containerHeight, rotation);
+  const coverScale = Math.max(target.width / naturalWidth, target.height / naturalHeight);
   const width = naturalWidth * coverScale;
   const height = naturalHeight * coverScale;
 
@@ -39,3 +89,34 @@ export const calculateCoverImageGeometry = (
     top: (containerHeight - height) / 2,
   };
 };
+
+/**
+ * CSS transform functions for the orientation, appended after the existing
+ * `scale() translate()` so offsets keep moving the image in screen directions.
+ */
+export const getImageOrientationTransform = (orientation: ImageOrientation): string => {
+  const parts: string[] = [];
+  if (orientation.rotation !== 0) {
+    parts.push(`rotate(${orientation.rotation}deg)`);
+  }
+  if (orientation.flipX || orientation.flipY) {
+    parts.push(`scale(${orientation.flipX ? -1 : 1}, ${orientation.flipY ? -1 : 1})`);
+  }
+  return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+};
+
+/**
+ * Canvas equivalent of getImageOrientationTransform. Call it after the
+ * offset translate, with the origin at the image centre.
+ */
+export const applyImageOrientationToCanvas = (
+  ctx: CanvasRenderingContext2D,
+  orientation: ImageOrientation
+): void => {
+  if (orientation.rotation !== 0) {
+    ctx.rotate((orientation.rotation * Math.PI) / 180);
+  }
+  if (orientation.flipX || orientation.flipY) {
+    ctx.scale(orientation.flipX ? -1 : 1, orientation.flipY ? -1 : 1);
+  }
+};
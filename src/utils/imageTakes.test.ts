@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addImageTake,
+  getClearedImageUpdates,
+  getOrphanedTakeImages,
+  getReferencedImageUrls,
+  getShotImageReferences,
+  getShotImageStorageKey,
+  getShotImageTakes,
+  getTakeStorageKey,
+  removeImageTake,
+  selectImageTake,
+} from './imageTakes';
+
+const withTwoTakes = () => {
+  const shot = { id: 'shot', imageUrl: 'https://cdn/original.png', imageScale: 1.5 };
+  const second = { ...shot, ...addImageTake(shot, { imageUrl: 'https://cdn/second.png' }) };
+  return { shot: second, takes: second.imageTakes };
+};
+
+describe('addImageTake', () => {
+  it("keeps the shot's original image as the first take", () => {
+    const { shot, takes } = withTwoTakes();
+
+    expect(takes).toHaveLength(2);
+    expect(takes[0]).toMatchObject({ imageUrl: 'https://cdn/original.png', imageScale: 1.5, storageKey: 'shot' });
+    expect(shot.activeTakeId).toBe(takes[1].id);
+  });
+
+  it('uploads the new take under its own key with fresh framing', () => {
+    const { shot, takes } = withTwoTakes();
+
+    expect(takes[1].storageKey).toBe(getTakeStorageKey('shot', takes[1].id));
+    expect(getShotImageStorageKey(shot)).toBe(takes[1].storageKey);
+    expect(shot).toMatchObject({ imageUrl: 'https://cdn/second.png', imageScale: 1 });
+  });
+
+  it('starts without a first take for a shot with no image', () => {
+    const updates = addImageTake({ id: 'shot' }, { imageUrl: 'https://cdn/new.png' });
+    expect(updates.imageTakes).toHaveLength(1);
+  });
+});
+
+describe('selectImageTake', () => {
+  it("switches the shot's image and keeps the current framing in its take", () => {
+    const { shot, takes } = withTwoTakes();
+    const framed = { ...shot, imageScale: 2 };
+    const updates = selectImageTake(framed, takes[0].id);
+
+    expect(updates).toMatchObject({ imageUrl: 'https://cdn/original.png', imageScale: 1.5, activeTakeId: takes[0].id });
+    expect(getShotImageTakes({ ...framed, ...updates })[1].imageScale).toBe(2);
+  });
+
+  it('ignores the active take and unknown takes', () => {
+    const { shot, takes } = withTwoTakes();
+    expect(selectImageTake(shot, takes[1].id)).toBeNull();
+    expect(selectImageTake(shot, 'missing')).toBeNull();
+  });
+});
+
+describe('removeImageTake', () => {
+  it('activates a neighbour when the active take is removed', () => {
+    const { shot, takes } = withTwoTakes();
+    const updates = removeImageTake(shot, takes[1].id);
+
+    expect(updates).toMatchObject({ imageUrl: 'https://cdn/original.png', activeTakeId: takes[0].id });
+    expect(updates?.imageTakes).toHaveLength(1);
+  });
+
+  it('never removes the last take', () => {
+    const { shot, takes } = withTwoTakes();
+    const single = { ...shot, ...removeImageTake(shot, takes[0].id) };
+    expect(removeImageTake(single, single.activeTakeId!)).toBeNull();
+  });
+});
+
+describe('getOrphanedTakeImages', () => {
+  it('reports the images of removed takes', () => {
+    const { shot, takes } = withTwoTakes();
+    const updates = removeImageTake(shot, takes[0].id)!;
+
+    expect(getOrphanedTakeImages(shot, updates)).toEqual([{ storageKey: 'shot', imageUrl: 'https://cdn/original.png' }]);
+  });
+
+  it('reports a replaced image without takes', () => {
+    const shot = { id: 'shot', imageUrl: 'https://cdn/old.png' };
+    expect(getOrphanedTakeImages(shot, { imageUrl: 'https://cdn/new.png' })).toEqual([
+      { storageKey: 'shot', imageUrl: 'https://cdn/old.png' },
+    ]);
+  });
+
+  it('reports a cleared image without takes', () => {
+    const shot = { id: 'shot', imageUrl: 'https://cdn/old.png' };
+    expect(getOrphanedTakeImages(shot, getClearedImageUpdates())).toEqual([
+      { storageKey: 'shot', imageUrl: 'https://cdn/old.png' },
+    ]);
+  });
+
+  it('reports nothing when no image is replaced', () => {
+    const { shot } = withTwoTakes();
+    expect(getOrphanedTakeImages(shot, { imageScale: 2 })).toEqual([]);
+  });
+});
+
+describe('getShotImageReferences', () => {
+  it("lists the shot's own key and every take's key once with its image", () => {
+    const { shot, takes } = withTwoTakes();
+    expect(getShotImageReferences(shot)).toEqual([
+      { storageKey: 'shot', imageUrl: 'https://cdn/original.png' },
+      { storageKey: takes[1].storageKey, imageUrl: 'https://cdn/second.png' },
+    ]);
+  });
+
+  it("keeps the shot's own key for a copy whose takes use other keys", () => {
+    const { shot, takes } = withTwoTakes();
+    const copy = { ...shot, id: 'copy', imageTakes: takes.map((take) => ({ ...take, storageKey: `copy-${take.id}` })) };
+    expect(getShotImageReferences(copy).map((reference) => reference.storageKey)).toEqual([
+      'copy',
+      `copy-${takes[0].id}`,
+      `copy-${takes[1].id}`,
+    ]);
+  });
+});
+
+describe('getReferencedImageUrls', () => {
+  it("collects every shot's image and takes", () => {
+    const { shot } = withTwoTakes();
+    const urls = getReferencedImageUrls([shot, { id: 'other', imageUrl: 'https://cdn/other.png' }, { id: 'empty' }]);
+    expect([...urls]).toEqual(['https://cdn/second.png', 'https://cdn/original.png', 'https://cdn/other.png']);
+  });
+});
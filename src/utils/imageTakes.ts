@@ -0,0 +1,255 @@
+/**
+ * Alternate images ("takes") for a shot.
+ *
+ * The shot's own image fields always hold the active take, so the editor,
+ * the sync services and every export path keep reading `imageData`/`imageUrl`
+ * and framing from the shot as before. `imageTakes` stores every take; the
+ * entry for the active take may be stale until the shot switches away from it,
+ * which is why readers go through getShotImageTakes.
+ *
+ * Each take uploads under its own storage key, so uploading one take never
+ * replaces another's file. Like any shot image, a take uploads while it is the
+ * active one.
+ */
+
+export interface ShotImageTake {
+  id: string;
+  imageData?: string;
+  imageUrl?: string;
+  imageSize?: number;
+  imageStorageType?: 'base64' | 'supabase' | 'local-pending-sync' | 'hybrid';
+  imageScale?: number;
+  imageOffsetX?: number;
+  imageOffsetY?: number;
+  imageRotation?: number;
+  imageFlipX?: boolean;
+  imageFlipY?: boolean;
+  // project_images shot_id the take uploads under (see StorageService.uploadImage)
+  storageKey: string;
+  createdAt: Date;
+}
+
+type TakeShot = {
+  id: string;
+  imageData?: string;
+  imageUrl?: string;
+  imageSize?: number;
+  imageStorageType?: ShotImageTake['imageStorageType'];
+  imageScale?: number;
+  imageOffsetX?: number;
+  imageOffsetY?: number;
+  imageRotation?: number;
+  imageFlipX?: boolean;
+  imageFlipY?: boolean;
+  imageTakes?: ShotImageTake[];
+  activeTakeId?: string | null;
+};
+
+export type TakeImageFields = Pick<
+  ShotImageTake,
+  | 'imageData'
+  | 'imageUrl'
+  | 'imageSize'
+  | 'imageStorageType'
+  | 'imageScale'
+  | 'imageOffsetX'
+  | 'imageOffsetY'
+  | 'imageRotation'
+  | 'imageFlipX'
+  | 'imageFlipY'
+>;
+
+export interface TakeImageReference {
+  storageKey: string;
+  imageUrl: string;
+}
+
+export const getTakeStorageKey = (shotId: string, takeId: string): string => `${shotId}-take-${takeId}`;
+
+const hasTakes = (shot: TakeShot): boolean =>
+  Array.isArray(shot.imageTakes) && shot.imageTakes.length > 0 && Boolean(shot.activeTakeId);
+
+const getTakeImageFields = (source: TakeImageFields): TakeImageFields => ({
+  imageData: source.imageData,
+  imageUrl: source.imageUrl,
+  imageSize: source.imageSize,
+  imageStorageType: source.imageStorageType,
+  imageScale: source.imageScale ?? 1,
+  imageOffsetX: source.imageOffsetX ?? 0,
+  imageOffsetY: source.imageOffsetY ?? 0,
+  imageRotation: source.imageRotation ?? 0,
+  imageFlipX: source.imageFlipX ?? false,
+  imageFlipY: source.imageFlipY ?? false,
+});
+
+/**
+ * The storage key the shot's current image uploads under. A shot without takes
+ * (or a take created from the shot's original image) keeps using its own id.
+ */
+export const getShotImageStorageKey = (shot: TakeShot): string => {
+  if (!hasTakes(shot)) return shot.id;
+  return shot.imageTakes!.find((take) => take.id === shot.activeTakeId)?.storageKey ?? shot.id;
+};
+
+/**
+ * Every take with the active one refreshed from the shot. Empty for a shot
+ * that never had a second take.
+ */
+export const getShotImageTakes = (shot: TakeShot): ShotImageTake[] => {
+  if (!hasTakes(shot)) return [];
+  return shot.imageTakes!.map((take) => (
+    take.id === shot.activeTakeId ? { ...take, ...getTakeImageFields(shot) } : take
+  ));
+};
+
+export const getActiveTakeIndex = (shot: TakeShot): number =>
+  hasTakes(shot) ? shot.imageTakes!.findIndex((take) => take.id === shot.activeTakeId) : -1;
+
+/**
+ * Shot updates that add a new take and make it active. The shot's current
+ * image becomes the first take when the shot had none yet.
+ */
+export const addImageTake = (shot: TakeShot, image: TakeImageFields) => {
+  const takes = getShotImageTakes(shot);
+  if (takes.length === 0 && (shot.imageData || shot.imageUrl)) {
+    takes.push({
+      id: crypto.randomUUID(),
+      ...getTakeImageFields(shot),
+      storageKey: shot.id,
+      createdAt: new Date(),
+    });
+  }
+
+  const takeId = crypto.randomUUID();
+  const take: ShotImageTake = {
+    id: takeId,
+    ...getTakeImageFields({
+      ...image,
+      imageScale: 1,
+      imageOffsetX: 0,
+      imageOffsetY: 0,
+      imageRotation: 0,
+      imageFlipX: false,
+      imageFlipY: false,
+    }),
+    storageKey: getTakeStorageKey(shot.id, takeId),
+    createdAt: new Date(),
+  };
+
+  return {
+    ...getTakeImageFields(take),
+    imageTakes: [...takes, take],
+    activeTakeId: takeId,
+  };
+};
+
+/**
+ * Shot updates that make another take active, keeping the current take's
+ * image and framing in its own entry.
+ */
+export const selectImageTake = (shot: TakeShot, takeId: string) => {
+  const takes = getShotImageTakes(shot);
+  const take = takes.find((candidate) => candidate.id === takeId);
+  if (!take || takeId === shot.activeTakeId) return null;
+
+  return {
+    ...getTakeImageFields(take),
+    imageFile: null,
+    imageTakes: takes,
+    activeTakeId: takeId,
+  };
+};
+
+/**
+ * Shot updates that drop a take. Removing the active take activates its
+ * neighbour. The last take is never removed; replace its image instead.
+ */
+export const removeImageTake = (shot: TakeShot, takeId: string) => {
+  const takes = getShotImageTakes(shot);
+  const index = takes.findIndex((take) => take.id === takeId);
+  if (index === -1 || takes.length <= 1) return null;
+
+  const remaining = takes.filter((take) => take.id !== takeId);
+  const nextActive = takeId === shot.activeTakeId
+    ? remaining[Math.min(index, remaining.length - 1)]
+    : null;
+
+  return {
+    ...(nextActive ? { ...getTakeImageFields(nextActive), imageFile: null } : {}),
+    imageTakes: remaining,
+    activeTakeId: nextActive?.id ?? shot.activeTakeId,
+  };
+};
+
+/**
+ * Every image URL the shots show or hold in a take. A duplicated shot shares
+ * its original's files until it uploads images of its own.
+ */
+export const getReferencedImageUrls = (shots: TakeShot[]): Set<string> => {
+  const urls = new Set<string>();
+  shots.forEach((shot) => {
+    if (shot.imageUrl) urls.add(shot.imageUrl);
+    getShotImageTakes(shot).forEach((take) => {
+      if (take.imageUrl) urls.add(take.imageUrl);
+    });
+  });
+  return urls;
+};
+
+/**
+ * Cloud images an update leaves unreferenced: a replaced or cleared image
+ * URL, or the images of removed takes. Images another take still holds are
+ * kept.
+ */
+export const getOrphanedTakeImages = (shot: TakeShot, updates: Partial<TakeShot>): TakeImageReference[] => {
+  const referencedUrls = getReferencedImageUrls([{ ...shot, ...updates }]);
+
+  const orphaned: TakeImageReference[] = [];
+  const addOrphan = (storageKey: string, imageUrl: string | undefined) => {
+    if (!imageUrl || referencedUrls.has(imageUrl)) return;
+    if (orphaned.some((image) => image.imageUrl === imageUrl)) return;
+    orphaned.push({ storageKey, imageUrl });
+  };
+
+  if ('imageUrl' in updates && shot.imageUrl && updates.imageUrl !== shot.imageUrl) {
+    addOrphan(getShotImageStorageKey(shot), shot.imageUrl);
+  }
+  if ('imageTakes' in updates) {
+    getShotImageTakes(shot).forEach((take) => addOrphan(take.storageKey, take.imageUrl));
+  }
+
+  return orphaned;
+};
+
+/**
+ * Every storage key a shot's images may be tracked under, with the image it
+ * holds when known, for shot deletion.
+ */
+export const getShotImageReferences = (shot: TakeShot): Array<{ storageKey: string; imageUrl?: string }> => {
+  const takes = getShotImageTakes(shot);
+  const references = takes.map(({ storageKey, imageUrl }) => ({ storageKey, imageUrl }));
+  if (!references.some((reference) => reference.storageKey === shot.id)) {
+    references.unshift({ storageKey: shot.id, imageUrl: takes.length === 0 ? shot.imageUrl : undefined });
+  }
+  return references;
+};
+
+/**
+ * Shot updates that remove the image and every take, resetting the framing.
+ * Sketches and annotations stay; they are drawn independently of the image.
+ */
+export const getClearedImageUpdates = () => ({
+  imageFile: null,
+  ...getTakeImageFields({}),
+  imageTakes: undefined,
+  activeTakeId: undefined,
+});
+
+/**
+ * Shot updates that copy another shot's framing (scale, offset, rotation and
+ * flips) without touching the image itself.
+ */
+export const getImageFramingUpdates = (source: TakeImageFields) => {
+  const { imageScale, imageOffsetX, imageOffsetY, imageRotation, imageFlipX, imageFlipY } = getTakeImageFields(source);
+  return { imageScale, imageOffsetX, imageOffsetY, imageRotation, imageFlipX, imageFlipY };
+};
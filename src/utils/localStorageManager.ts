@@ -203,8 +203,22 @@ export class LocalStorageManager {
           showJobInfo: true,
           showActionText: true,
           showScriptText: true,
+          showCameraDetails: false,
+          showReviewStatus: false,
+          showOmittedShots: true,
           showPageNumber: true,
+          pageNumberFormat: 'page',
+          showFooterText: false,
+          footerText: '',
+          showFooterDate: false,
+          showRevision: false,
+          revisionLabel: '',
           shotNumberFormat: '01',
+          sceneNumberFormat: 'SC01',
+          customFields: [],
+          headerLayout: 'split',
+          logoPlacement: 'left',
+          headerFields: [],
         }
       })));
       
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { formatExportDate } from './export/frontMatter';
+import {
+  MAX_REVISION_LABEL_LENGTH,
+  formatPageNumber,
+  getPageFooterContent,
+  getPageNumberFormat,
+  hasFooterDetails,
+  hasPageFooterContent,
+  isPageFooterContent,
+} from './pageFooter';
+
+const date = new Date(2026, 9, 19);
+
+describe('formatPageNumber', () => {
+  it('prints each format', () => {
+    expect(formatPageNumber('page', 3, 12)).toBe('Page 3');
+    expect(formatPageNumber('number', 3, 12)).toBe('3');
+    expect(formatPageNumber('fraction', 3, 12)).toBe('3 / 12');
+    expect(formatPageNumber('pageOf', 3, 12)).toBe('Page 3 of 12');
+  });
+
+  it('falls back to a single number without a usable page count', () => {
+    expect(formatPageNumber('fraction', 3)).toBe('3');
+    expect(formatPageNumber('pageOf', 3, null)).toBe('Page 3');
+    expect(formatPageNumber('pageOf', 3, 2)).toBe('Page 3');
+  });
+});
+
+describe('getPageNumberFormat', () => {
+  it('keeps "Page 3" for older or unknown settings', () => {
+    expect(getPageNumberFormat({ pageNumberFormat: 'fraction' })).toBe('fraction');
+    expect(getPageNumberFormat({ pageNumberFormat: 'roman' })).toBe('page');
+    expect(getPageNumberFormat(null)).toBe('page');
+  });
+});
+
+describe('getPageFooterContent', () => {
+  it('resolves the visible parts once, trimmed', () => {
+    const content = getPageFooterContent(
+      {
+        showPageNumber: true,
+        showFooterText: true,
+        footerText: '  CONFIDENTIAL  ',
+        showFooterDate: true,
+        showRevision: true,
+        revisionLabel: ' Rev B ',
+      },
+      date
+    );
+
+    expect(content).toEqual({ text: 'CONFIDENTIAL', date: formatExportDate(date), revision: 'Rev B' });
+    expect(hasPageFooterContent(content)).toBe(true);
+  });
+
+  it('leaves hidden parts empty even when they have text', () => {
+    const content = getPageFooterContent({ showPageNumber: true, footerText: 'CONFIDENTIAL', revisionLabel: 'Rev B' }, date);
+
+    expect(content).toEqual({ text: '', date: '', revision: '' });
+    expect(hasPageFooterContent(content)).toBe(false);
+    expect(hasPageFooterContent(null)).toBe(false);
+  });
+});
+
+describe('hasFooterDetails', () => {
+  it('counts parts that are turned on even while empty', () => {
+    expect(hasFooterDetails({ showPageNumber: true, showRevision: true, revisionLabel: '' })).toBe(true);
+    expect(hasFooterDetails({ showPageNumber: true, showReviewStatus: true })).toBe(false);
+  });
+});
+
+describe('isPageFooterContent', () => {
+  it('accepts resolved content within the length limits', () => {
+    expect(isPageFooterContent({ text: '', date: 'October 19, 2026', revision: 'Rev B' })).toBe(true);
+    expect(isPageFooterContent({ text: '', date: '', revision: 'x'.repeat(MAX_REVISION_LABEL_LENGTH + 1) })).toBe(false);
+    expect(isPageFooterContent({ text: '', date: '' })).toBe(false);
+  });
+});
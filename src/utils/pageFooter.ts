@@ -0,0 +1,110 @@
+import { formatExportDate } from './export/frontMatter';
+
+/**
+ * Page footer content: a notice such as "CONFIDENTIAL – Property of …", the
+ * date, a revision label and the page number in one of a few formats.
+ *
+ * Visibility and the typed text live in `TemplateSettings`. Exports resolve
+ * the footer once on the client (see getPageFooterContent) so every page of
+ * a server render shows the same date, as the cover page does.
+ */
+
+export type PageNumberFormat = 'page' | 'number' | 'fraction' | 'pageOf';
+
+export interface PageFooterContent {
+  text: string;
+  date: string;
+  revision: string;
+}
+
+interface PageFooterSettings {
+  showPageNumber: boolean;
+  showReviewStatus?: boolean;
+  showFooterText?: boolean;
+  footerText?: string;
+  showFooterDate?: boolean;
+  showRevision?: boolean;
+  revisionLabel?: string;
+}
+
+export const DEFAULT_PAGE_NUMBER_FORMAT: PageNumberFormat = 'page';
+
+export const PAGE_NUMBER_FORMAT_OPTIONS: Array<{ value: PageNumberFormat; label: string }> = [
+  { value: 'page', label: 'Page 3' },
+  { value: 'number', label: '3' },
+  { value: 'fraction', label: '3 / 12' },
+  { value: 'pageOf', label: 'Page 3 of 12' },
+];
+
+export const MAX_FOOTER_TEXT_LENGTH = 200;
+export const MAX_REVISION_LABEL_LENGTH = 40;
+
+export const isPageNumberFormat = (value: unknown): value is PageNumberFormat =>
+  PAGE_NUMBER_FORMAT_OPTIONS.some((option) => option.value === value);
+
+// Settings saved before page number formats existed keep "Page 3"
+export const getPageNumberFormat = (settings: { pageNumberFormat?: unknown } | null | undefined): PageNumberFormat =>
+  isPageNumberFormat(settings?.pageNumberFormat) ? settings.pageNumberFormat : DEFAULT_PAGE_NUMBER_FORMAT;
+
+/**
+ * The page number as printed in the footer. Without a page count the
+ * "of" formats fall back to their single-number form.
+ */
+export const formatPageNumber = (
+  format: PageNumberFormat,
+  pageNumber: number,
+  pageCount?: number | null
+): string => {
+  const hasPageCount = typeof pageCount === 'number' && pageCount >= pageNumber;
+  switch (format) {
+    case 'number':
+      return String(pageNumber);
+    case 'fraction':
+      return hasPageCount ? `${pageNumber} / ${pageCount}` : String(pageNumber);
+    case 'pageOf':
+      return hasPageCount ? `Page ${pageNumber} of ${pageCount}` : `Page ${pageNumber}`;
+    default:
+      return `Page ${pageNumber}`;
+  }
+};
+
+/**
+ * Footer text, date and revision label as shown on read-only pages. Hidden
+ * or empty parts come back as empty strings.
+ */
+export const getPageFooterContent = (settings: PageFooterSettings, date: Date = new Date()): PageFooterContent => ({
+  text: settings.showFooterText ? (settings.footerText ?? '').trim() : '',
+  date: settings.showFooterDate ? formatExportDate(date) : '',
+  revision: settings.showRevision ? (settings.revisionLabel ?? '').trim() : '',
+});
+
+export const hasPageFooterContent = (content: PageFooterContent | null | undefined): boolean =>
+  Boolean(content && (content.text || content.date || content.revision));
+
+/**
+ * True when any footer part beyond the page number and review legend is
+ * turned on. The live page shows those parts even while empty so they can be
+ * typed into, so fixed page sizes reserve the footer for them.
+ */
+export const hasFooterDetails = (settings: PageFooterSettings): boolean =>
+  Boolean(settings.showFooterText || settings.showFooterDate || settings.showRevision);
+
+export const isPageFooterContent = (value: unknown): value is PageFooterContent => {
+  if (!value || typeof value !== 'object') return false;
+  const content = value as Record<string, unknown>;
+  return (
+    typeof content.text === 'string' &&
+    content.text.length <= MAX_FOOTER_TEXT_LENGTH &&
+    typeof content.date === 'string' &&
+    typeof content.revision === 'string' &&
+    content.revision.length <= MAX_REVISION_LABEL_LENGTH
+  );
+};
+
+// Shared by the live page and both export routes so every footer lines up
+export const PAGE_FOOTER_STYLES = {
+  row: { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '16px' },
+  start: { display: 'flex', alignItems: 'center', gap: '16px', minWidth: '0' },
+  end: { display: 'flex', alignItems: 'center', gap: '12px', flexShrink: '0', whiteSpace: 'nowrap' },
+  text: { fontWeight: '600', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', minWidth: '0' },
+} as const;
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { makePage } from '@/test/factories';
+import {
+  DEFAULT_PRINT_LAYOUT,
+  PRINT_READY_LAYOUT,
+  getCropMarkLines,
+  getCustomPageSizeError,
+  getMaxValidRowsForPageSize,
+  getPagePixelDimensions,
+  getPageSizeDimensionsLabel,
+  getPageSizeSpec,
+  getPagesOutsideFrame,
+  getPrintSheetLayout,
+  getRegistrationMarkCenters,
+  isDefaultPrintLayout,
+  isPrintLayoutOptions,
+  resolveCustomPageSize,
+  resolvePageSizeMode,
+} from './pageSize';
+
+describe('getMaxValidRowsForPageSize', () => {
+  it('reserves the footer for the review status legend without page numbers', () => {
+    const layout = { pageSizeMode: 'letter-landscape' as const, gridCols: 5, aspectRatio: '4/3', showPageNumber: false };
+
+    // Three rows need 631px: room without a footer (665px), too much with one (621px)
+    expect(getMaxValidRowsForPageSize(layout)).toBe(3);
+    expect(getMaxValidRowsForPageSize({ ...layout, showReviewStatus: true })).toBe(2);
+  });
+});
+
+describe('getPagesOutsideFrame', () => {
+  const options = { pageSizeMode: 'letter-landscape' as const, showPageNumber: true };
+
+  it("checks each page's own grid and reports the rows it can fit", () => {
+    const fits = makePage('fits', [], { gridRows: 2, gridCols: 3 });
+    const tooTall = makePage('too-tall', [], { gridRows: 3, gridCols: 3 });
+
+    expect(getPagesOutsideFrame([fits, tooTall], options)).toEqual([{ page: tooTall, maxValidRows: 2 }]);
+  });
+
+  it('reports zero rows when even one row overflows', () => {
+    const portrait = makePage('portrait', [], { gridRows: 1, gridCols: 1, aspectRatio: '9/16' });
+    expect(getPagesOutsideFrame([portrait], options)).toEqual([{ page: portrait, maxValidRows: 0 }]);
+  });
+
+  it('never reports pages in dynamic mode', () => {
+    const huge = makePage('huge', [], { gridRows: 8, gridCols: 1 });
+    expect(getPagesOutsideFrame([huge], { ...options, pageSizeMode: 'dynamic' })).toEqual([]);
+  });
+});
+
+describe('resolvePageSizeMode', () => {
+  it('keeps known modes and falls back to dynamic', () => {
+    expect(resolvePageSizeMode('a3-landscape')).toBe('a3-landscape');
+    expect(resolvePageSizeMode('custom')).toBe('custom');
+    expect(resolvePageSizeMode('b5-portrait')).toBe('dynamic');
+  });
+});
+
+describe('getCustomPageSizeError', () => {
+  it('accepts sizes within the limits', () => {
+    expect(getCustomPageSizeError({ width: 11, height: 8.5, unit: 'in' })).toBeNull();
+    expect(getCustomPageSizeError({ width: 210, height: 148, unit: 'mm' })).toBeNull();
+  });
+
+  it('reports the limits in the unit the size was entered in', () => {
+    expect(getCustomPageSizeError({ width: 2, height: 8, unit: 'in' })).toBe('Each side must be between 3 and 48 in.');
+    expect(getCustomPageSizeError({ width: 50, height: 200, unit: 'mm' })).toBe('Each side must be between 76 and 1219 mm.');
+  });
+
+  it('rejects missing sides and extreme proportions', () => {
+    expect(getCustomPageSizeError({ width: Number.NaN, height: 8, unit: 'in' })).toBe('Enter a width and a height.');
+    expect(getCustomPageSizeError({ width: 4, height: 20, unit: 'in' })).toBe('One side can be at most 4× the other.');
+  });
+});
+
+describe('getPageSizeSpec', () => {
+  it('describes a custom size in inches', () => {
+    expect(getPageSizeSpec('custom', { width: 300, height: 200, unit: 'mm' })).toMatchObject({
+      label: 'Custom (300 × 200 mm)',
+      frameAspectRatio: 1.5,
+    });
+  });
+
+  it('falls back to the default custom size when the saved one is invalid', () => {
+    expect(resolveCustomPageSize({ width: 1, height: 1, unit: 'in' })).toEqual({ width: 11, height: 8.5, unit: 'in' });
+    expect(getPagePixelDimensions('custom', null)).toEqual({ width: 1056, height: 816 });
+  });
+});
+
+describe('getPageSizeDimensionsLabel', () => {
+  it('reads ISO sizes in millimetres and US sizes in inches', () => {
+    expect(getPageSizeDimensionsLabel('a4-portrait')).toBe('210 × 297 mm');
+    expect(getPageSizeDimensionsLabel('letter-landscape')).toBe('11 × 8.5 in');
+    expect(getPageSizeDimensionsLabel('slide-16x9')).toBe('13.33 × 7.5 in');
+    expect(getPageSizeDimensionsLabel('dynamic')).toBeNull();
+  });
+});
+
+describe('getPagePixelDimensions', () => {
+  it('converts the paper size to CSS pixels', () => {
+    expect(getPagePixelDimensions('letter-portrait')).toEqual({ width: 816, height: 1056 });
+    expect(getPagePixelDimensions('dynamic')).toBeNull();
+  });
+});
+
+describe('isPrintLayoutOptions', () => {
+  it('keeps margins and bleed within their limits', () => {
+    expect(isPrintLayoutOptions(PRINT_READY_LAYOUT)).toBe(true);
+    expect(isPrintLayoutOptions({ ...PRINT_READY_LAYOUT, bleedInches: 0.6 })).toBe(false);
+    expect(isPrintLayoutOptions({ ...PRINT_READY_LAYOUT, marginInches: -0.1 })).toBe(false);
+    expect(isPrintLayoutOptions({ ...PRINT_READY_LAYOUT, cropMarks: 'yes' })).toBe(false);
+  });
+
+  it('treats only the plain page as the default layout', () => {
+    expect(isDefaultPrintLayout(DEFAULT_PRINT_LAYOUT)).toBe(true);
+    expect(isDefaultPrintLayout({ ...DEFAULT_PRINT_LAYOUT, registrationMarks: true })).toBe(false);
+  });
+});
+
+describe('getPrintSheetLayout', () => {
+  it('leaves the sheet at trim size by default', () => {
+    const layout = getPrintSheetLayout(8.5, 11, DEFAULT_PRINT_LAYOUT);
+
+    expect(layout).toMatchObject({ sheetWidthInches: 8.5, sheetHeightInches: 11, contentScale: 1 });
+    expect(layout.contentBox).toEqual(layout.trimBox);
+  });
+
+  it('surrounds the trim with bleed and a slug for marks', () => {
+    const layout = getPrintSheetLayout(8.5, 11, PRINT_READY_LAYOUT);
+
+    expect(layout.sheetWidthInches).toBeCloseTo(9.75);
+    expect(layout.sheetHeightInches).toBeCloseTo(12.25);
+    expect(layout.bleedBox).toEqual({ x: 0.5, y: 0.5, width: 8.75, height: 11.25 });
+    expect(layout.trimBox).toEqual({ x: 0.625, y: 0.625, width: 8.5, height: 11 });
+  });
+
+  it("insets the content by the margin and keeps the page's proportions", () => {
+    const { contentBox, contentScale, trimBox } = getPrintSheetLayout(8.5, 11, PRINT_READY_LAYOUT);
+
+    // The narrower side sets the scale, so the margin is exact left and right
+    expect(contentScale).toBeCloseTo(8 / 8.5);
+    expect(contentBox.x).toBeCloseTo(trimBox.x + 0.25);
+    expect(contentBox.width / contentBox.height).toBeCloseTo(8.5 / 11);
+    expect(contentBox.y - trimBox.y).toBeGreaterThan(0.25);
+  });
+});
+
+describe('print marks', () => {
+  const layout = getPrintSheetLayout(8.5, 11, PRINT_READY_LAYOUT);
+
+  it('draws two crop marks per corner outside the bleed', () => {
+    const lines = getCropMarkLines(layout);
+
+    expect(lines).toHaveLength(8);
+    expect(lines[0]).toEqual({ x1: 0.625, y1: 0.4375, x2: 0.625, y2: 0.1875 });
+    lines.forEach((line) => {
+      const insideBleed =
+        line.x1 > layout.bleedBox.x &&
+        line.x1 < layout.bleedBox.x + layout.bleedBox.width &&
+        line.y1 > layout.bleedBox.y &&
+        line.y1 < layout.bleedBox.y + layout.bleedBox.height;
+      expect(insideBleed).toBe(false);
+    });
+  });
+
+  it('centres a registration mark in the slug beside each edge', () => {
+    expect(getRegistrationMarkCenters(layout)).toEqual([
+      { x: 4.875, y: 0.25 },
+      { x: 4.875, y: 12 },
+      { x: 0.25, y: 6.125 },
+      { x: 9.5, y: 6.125 },
+    ]);
+  });
+});
@@ -1,10 +1,42 @@
-export type PageSizeMode = 'dynamic' | 'letter-portrait' | 'letter-landscape';
+import { SCENE_HEADER_HEIGHT_PX } from './scenes';
+
+export type PageSizeMode =
+  | 'dynamic'
+  | 'letter-portrait'
+  | 'letter-landscape'
+  | 'legal-portrait'
+  | 'legal-landscape'
+  | 'tabloid-portrait'
+  | 'tabloid-landscape'
+  | 'a4-portrait'
+  | 'a4-landscape'
+  | 'a3-portrait'
+  | 'a3-landscape'
+  | 'slide-16x9'
+  | 'slide-16x9-compact'
+  | 'custom';
+
+export type FixedPageSizeMode = Exclude<PageSizeMode, 'dynamic'>;
+
+export type PageSizeUnit = 'in' | 'mm';
+
+// User-defined page dimensions for the 'custom' mode, in the unit they were entered in
+export interface CustomPageSize {
+  width: number;
+  height: number;
+  unit: PageSizeUnit;
+}
+
+export type PageSizeGroup = 'Flexible' | 'US' | 'ISO' | 'Slides';
 
 export const RENDERED_PAGE_WIDTH_PX = 1000;
+export const CSS_PX_PER_INCH = 96;
+export const MM_PER_INCH = 25.4;
 
 export interface PageSizeSpec {
   mode: PageSizeMode;
   label: string;
+  group: PageSizeGroup;
   widthInches: number | null;
   heightInches: number | null;
   frameAspectRatio: number | null;
@@ -17,52 +49,98 @@ interface ParsedAspectRatio {
 
 export interface GridLayoutFitCheckInput {
   pageSizeMode: PageSizeMode;
+  customPageSize?: CustomPageSize | null; // Only read in 'custom' mode
   gridRows: number;
   gridCols: number;
   aspectRatio: string;
   showPageNumber: boolean;
+  showReviewStatus?: boolean; // The status legend shares the page-number footer
+  showFooterDetails?: boolean; // Footer text, date or revision, from hasFooterDetails
+  showSceneHeaders?: boolean; // Reserves the header row above a page's first scene
+  headerExtraHeightPx?: number; // Header fields and single-column header layouts, from getHeaderExtraHeightPx
 }
 
 export interface MaxValidRowsInput {
   pageSizeMode: PageSizeMode;
+  customPageSize?: CustomPageSize | null;
   gridCols: number;
   aspectRatio: string;
   showPageNumber: boolean;
+  showReviewStatus?: boolean;
+  showFooterDetails?: boolean;
+  showSceneHeaders?: boolean;
+  headerExtraHeightPx?: number;
   maxRowsToEvaluate?: number;
 }
 
-const LETTER_WIDTH_INCHES = 8.5;
-const LETTER_HEIGHT_INCHES = 11;
-
-const PAGE_SIZE_SPECS: Record<PageSizeMode, PageSizeSpec> = {
-  dynamic: {
+// Custom sizes stay within what a print shop or slide deck would use, and
+// within the proportions a storyboard grid can still lay out on
+export const CUSTOM_PAGE_SIZE_LIMITS_INCHES = { min: 3, max: 48 } as const;
+export const CUSTOM_PAGE_SIZE_MAX_ASPECT_RATIO = 4;
+export const DEFAULT_CUSTOM_PAGE_SIZE: CustomPageSize = { width: 11, height: 8.5, unit: 'in' };
+
+const createPaperSpecs = (
+  name: string,
+  idPrefix: string,
+  group: PageSizeGroup,
+  shortSideInches: number,
+  longSideInches: number
+): [PageSizeSpec, PageSizeSpec] => [
+  {
+    mode: `${idPrefix}-portrait` as PageSizeMode,
+    label: `${name} Portrait`,
+    group,
+    widthInches: shortSideInches,
+    heightInches: longSideInches,
+    frameAspectRatio: shortSideInches / longSideInches,
+  },
+  {
+    mode: `${idPrefix}-landscape` as PageSizeMode,
+    label: `${name} Landscape`,
+    group,
+    widthInches: longSideInches,
+    heightInches: shortSideInches,
+    frameAspectRatio: longSideInches / shortSideInches,
+  },
+];
+
+const createSlideSpec = (mode: PageSizeMode, label: string, widthInches: number): PageSizeSpec => ({
+  mode,
+  label,
+  group: 'Slides',
+  widthInches,
+  heightInches: (widthInches * 9) / 16,
+  frameAspectRatio: 16 / 9,
+});
+
+const PRESET_PAGE_SIZE_SPECS: PageSizeSpec[] = [
+  {
     mode: 'dynamic',
     label: 'Dynamic',
+    group: 'Flexible',
     widthInches: null,
     heightInches: null,
     frameAspectRatio: null,
   },
-  'letter-portrait': {
-    mode: 'letter-portrait',
-    label: 'Portrait',
-    widthInches: LETTER_WIDTH_INCHES,
-    heightInches: LETTER_HEIGHT_INCHES,
-    frameAspectRatio: LETTER_WIDTH_INCHES / LETTER_HEIGHT_INCHES,
-  },
-  'letter-landscape': {
-    mode: 'letter-landscape',
-    label: 'Landscape',
-    widthInches: LETTER_HEIGHT_INCHES,
-    heightInches: LETTER_WIDTH_INCHES,
-    frameAspectRatio: LETTER_HEIGHT_INCHES / LETTER_WIDTH_INCHES,
-  },
-};
-
-export const PAGE_SIZE_MODE_OPTIONS = [
-  { value: 'dynamic', label: 'Dynamic' },
-  { value: 'letter-portrait', label: 'Portrait' },
-  { value: 'letter-landscape', label: 'Landscape' },
-] as const;
+  ...createPaperSpecs('Letter', 'letter', 'US', 8.5, 11),
+  ...createPaperSpecs('Legal', 'legal', 'US', 8.5, 14),
+  ...createPaperSpecs('Tabloid', 'tabloid', 'US', 11, 17),
+  ...createPaperSpecs('A4', 'a4', 'ISO', 210 / MM_PER_INCH, 297 / MM_PER_INCH),
+  ...createPaperSpecs('A3', 'a3', 'ISO', 297 / MM_PER_INCH, 420 / MM_PER_INCH),
+  createSlideSpec('slide-16x9', '16:9 Slide', 40 / 3),
+  createSlideSpec('slide-16x9-compact', '16:9 Slide (Compact)', 10),
+];
+
+const PAGE_SIZE_SPECS = Object.fromEntries(
+  PRESET_PAGE_SIZE_SPECS.map((spec) => [spec.mode, spec])
+) as Record<Exclude<PageSizeMode, 'custom'>, PageSizeSpec>;
+
+export const PAGE_SIZE_GROUPS: PageSizeGroup[] = ['Flexible', 'US', 'ISO', 'Slides'];
+
+export const PAGE_SIZE_MODE_OPTIONS: Array<{ value: PageSizeMode; label: string; group: PageSizeGroup }> = [
+  ...PRESET_PAGE_SIZE_SPECS.map((spec) => ({ value: spec.mode, label: spec.label, group: spec.group })),
+  { value: 'custom', label: 'Custom', group: 'Flexible' },
+];
 
 const GRID_GAP_PX = 8;
 const PREVIEW_HEADER_PADDING_PX = 16;
@@ -74,24 +152,125 @@ const SHOT_SLOT_TEXT_BLOCK_PX = 80;
 const FRAME_HEADER_RESERVED_HEIGHT_PX = 100;
 const FRAME_GRID_WRAPPER_VERTICAL_PADDING_PX = 8;
 const FRAME_FOOTER_RESERVED_HEIGHT_PX = 44;
+const FRAME_SCENE_HEADER_RESERVED_HEIGHT_PX = SCENE_HEADER_HEIGHT_PX + GRID_GAP_PX;
 
 export const isPageSizeMode = (value: unknown): value is PageSizeMode => {
-  return value === 'dynamic' || value === 'letter-portrait' || value === 'letter-landscape';
+  return value === 'custom' || (typeof value === 'string' && value in PAGE_SIZE_SPECS);
+};
+
+export const isFixedPageSizeMode = (value: unknown): value is FixedPageSizeMode => {
+  return isPageSizeMode(value) && value !== 'dynamic';
 };
 
 export const resolvePageSizeMode = (value: unknown): PageSizeMode => {
   return isPageSizeMode(value) ? value : 'dynamic';
 };
 
-export const getPageSizeSpec = (mode: PageSizeMode): PageSizeSpec => {
-  return PAGE_SIZE_SPECS[mode];
+export const toInches = (value: number, unit: PageSizeUnit): number =>
+  unit === 'mm' ? value / MM_PER_INCH : value;
+
+/**
+ * Why the custom size can't be used, or null when it can.
+ */
+export const getCustomPageSizeError = (size: CustomPageSize): string | null => {
+  const widthInches = toInches(size.width, size.unit);
+  const heightInches = toInches(size.height, size.unit);
+  const { min, max } = CUSTOM_PAGE_SIZE_LIMITS_INCHES;
+
+  if (!Number.isFinite(widthInches) || !Number.isFinite(heightInches)) {
+    return 'Enter a width and a height.';
+  }
+  if (Math.min(widthInches, heightInches) < min || Math.max(widthInches, heightInches) > max) {
+    return size.unit === 'mm'
+      ? `Each side must be between ${Math.round(min * MM_PER_INCH)} and ${Math.round(max * MM_PER_INCH)} mm.`
+      : `Each side must be between ${min} and ${max} in.`;
+  }
+  if (Math.max(widthInches, heightInches) / Math.min(widthInches, heightInches) > CUSTOM_PAGE_SIZE_MAX_ASPECT_RATIO) {
+    return `One side can be at most ${CUSTOM_PAGE_SIZE_MAX_ASPECT_RATIO}× the other.`;
+  }
+  return null;
+};
+
+export const isCustomPageSize = (value: unknown): value is CustomPageSize => {
+  if (!value || typeof value !== 'object') return false;
+  const size = value as Record<string, unknown>;
+  return (
+    typeof size.width === 'number' &&
+    typeof size.height === 'number' &&
+    (size.unit === 'in' || size.unit === 'mm') &&
+    getCustomPageSizeError(size as unknown as CustomPageSize) === null
+  );
+};
+
+export const resolveCustomPageSize = (value: unknown): CustomPageSize =>
+  isCustomPageSize(value) ? value : { ...DEFAULT_CUSTOM_PAGE_SIZE };
+
+const formatDimension = (value: number): string => String(Math.round(value * 100) / 100);
+
+export const formatCustomPageSize = (size: CustomPageSize): string =>
+  `${formatDimension(size.width)} × ${formatDimension(size.height)} ${size.unit}`;
+
+export const getPageSizeSpec = (mode: PageSizeMode, customPageSize?: CustomPageSize | null): PageSizeSpec => {
+  if (mode !== 'custom') {
+    return PAGE_SIZE_SPECS[mode];
+  }
+
+  const size = resolveCustomPageSize(customPageSize);
+  const widthInches = toInches(size.width, size.unit);
+  const heightInches = toInches(size.height, size.unit);
+  return {
+    mode,
+    label: `Custom (${formatCustomPageSize(size)})`,
+    group: 'Flexible',
+    widthInches,
+    heightInches,
+    frameAspectRatio: widthInches / heightInches,
+  };
+};
+
+/**
+ * Sheet dimensions for notes, e.g. "8.5 × 11 in" or "210 × 297 mm", or null
+ * in dynamic mode. ISO sizes read in millimetres.
+ */
+export const getPageSizeDimensionsLabel = (mode: PageSizeMode, customPageSize?: CustomPageSize | null): string | null => {
+  if (mode === 'custom') {
+    return formatCustomPageSize(resolveCustomPageSize(customPageSize));
+  }
+
+  const spec = getPageSizeSpec(mode);
+  if (!spec.widthInches || !spec.heightInches) {
+    return null;
+  }
+  if (spec.group === 'ISO') {
+    return `${Math.round(spec.widthInches * MM_PER_INCH)} × ${Math.round(spec.heightInches * MM_PER_INCH)} mm`;
+  }
+  return `${formatDimension(spec.widthInches)} × ${formatDimension(spec.heightInches)} in`;
+};
+
+/**
+ * Paper size in CSS pixels (96 per inch), or null in dynamic mode.
+ */
+export const getPagePixelDimensions = (
+  mode: PageSizeMode,
+  customPageSize?: CustomPageSize | null
+): { width: number; height: number } | null => {
+  const spec = getPageSizeSpec(mode, customPageSize);
+  if (!spec.widthInches || !spec.heightInches) {
+    return null;
+  }
+
+  return {
+    width: Math.round(spec.widthInches * CSS_PX_PER_INCH),
+    height: Math.round(spec.heightInches * CSS_PX_PER_INCH),
+  };
 };
 
 export const getFixedPageFrameHeight = (
   mode: PageSizeMode,
+  customPageSize?: CustomPageSize | null,
   widthPx: number = RENDERED_PAGE_WIDTH_PX
 ): number | null => {
-  const spec = getPageSizeSpec(mode);
+  const spec = getPageSizeSpec(mode, customPageSize);
   if (!spec.frameAspectRatio) {
     return null;
   }
@@ -113,10 +292,15 @@ const parseAspectRatio = (aspectRatio: string): ParsedAspectRatio | null => {
 
 export const isGridLayoutValidForPageSize = ({
   pageSizeMode,
+  customPageSize,
   gridRows,
   gridCols,
   aspectRatio,
   showPageNumber,
+  showReviewStatus = false,
+  showFooterDetails = false,
+  showSceneHeaders = false,
+  headerExtraHeightPx = 0,
 }: GridLayoutFitCheckInput): boolean => {
   if (pageSizeMode === 'dynamic') {
     return true;
@@ -126,7 +310,7 @@ export const isGridLayoutValidForPageSize = ({
     return false;
   }
 
-  const fixedFrameHeight = getFixedPageFrameHeight(pageSizeMode);
+  const fixedFrameHeight = getFixedPageFrameHeight(pageSizeMode, customPageSize);
   if (!fixedFrameHeight) {
     return true;
   }
@@ -152,8 +336,10 @@ export const isGridLayoutValidForPageSize = ({
 
   const reservedHeightPx =
     FRAME_HEADER_RESERVED_HEIGHT_PX +
+    headerExtraHeightPx +
     FRAME_GRID_WRAPPER_VERTICAL_PADDING_PX +
-    (showPageNumber ? FRAME_FOOTER_RESERVED_HEIGHT_PX : 0);
+    (showPageNumber || showReviewStatus || showFooterDetails ? FRAME_FOOTER_RESERVED_HEIGHT_PX : 0) +
+    (showSceneHeaders ? FRAME_SCENE_HEADER_RESERVED_HEIGHT_PX : 0);
 
   const availableGridHeightPx = fixedFrameHeight - reservedHeightPx;
 
@@ -162,9 +348,14 @@ export const isGridLayoutValidForPageSize = ({
 
 export const getMaxValidRowsForPageSize = ({
   pageSizeMode,
+  customPageSize,
   gridCols,
   aspectRatio,
   showPageNumber,
+  showReviewStatus = false,
+  showFooterDetails = false,
+  showSceneHeaders = false,
+  headerExtraHeightPx = 0,
   maxRowsToEvaluate = 8,
 }: MaxValidRowsInput): number => {
   if (pageSizeMode === 'dynamic') {
@@ -177,10 +368,15 @@ export const getMaxValidRowsForPageSize = ({
   for (let rows = 1; rows <= safeMaxRowsToEvaluate; rows += 1) {
     const isValid = isGridLayoutValidForPageSize({
       pageSizeMode,
+      customPageSize,
       gridRows: rows,
       gridCols,
       aspectRatio,
       showPageNumber,
+      showReviewStatus,
+      showFooterDetails,
+      showSceneHeaders,
+      headerExtraHeightPx,
     });
 
     if (isValid) {
@@ -192,3 +388,190 @@ export const getMaxValidRowsForPageSize = ({
 
   return maxValidRows;
 };
+
+export interface PageLayoutFitIssue<T> {
+  page: T;
+  maxValidRows: number;
+}
+
+/**
+ * Pages whose own grid and aspect ratio overflow the page size, each with the
+ * most rows its column count can fit (0 when even one row overflows). Empty in
+ * dynamic mode.
+ */
+export const getPagesOutsideFrame = <T extends { gridRows: number; gridCols: number; aspectRatio: string }>(
+  pages: T[],
+  options: Omit<GridLayoutFitCheckInput, 'gridRows' | 'gridCols' | 'aspectRatio'>
+): Array<PageLayoutFitIssue<T>> => {
+  if (options.pageSizeMode === 'dynamic') {
+    return [];
+  }
+
+  return pages
+    .filter((page) => !isGridLayoutValidForPageSize({ ...options, gridRows: page.gridRows, gridCols: page.gridCols, aspectRatio: page.aspectRatio }))
+    .map((page) => ({
+      page,
+      maxValidRows: getMaxValidRowsForPageSize({
+        ...options,
+        gridCols: page.gridCols,
+        aspectRatio: page.aspectRatio,
+        maxRowsToEvaluate: Math.max(page.gridRows, 8),
+      }),
+    }));
+};
+
+/**
+ * Print settings for fixed page sizes. The page is the trim size; bleed extends
+ * the page background past it, margins shrink the content inside it and crop
+ * and registration marks sit in a slug area outside the bleed.
+ */
+export interface PrintLayoutOptions {
+  marginInches: number;
+  bleedInches: number;
+  cropMarks: boolean;
+  registrationMarks: boolean;
+}
+
+export interface InchRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PrintSheetLayout {
+  sheetWidthInches: number;
+  sheetHeightInches: number;
+  bleedBox: InchRect;
+  trimBox: InchRect;
+  contentBox: InchRect; // Trim box inset by the margin, keeping the page's proportions
+  contentScale: number;
+}
+
+export interface PrintMarkLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export const DEFAULT_PRINT_LAYOUT: PrintLayoutOptions = {
+  marginInches: 0,
+  bleedInches: 0,
+  cropMarks: false,
+  registrationMarks: false,
+};
+
+export const PRINT_READY_LAYOUT: PrintLayoutOptions = {
+  marginInches: 0.25,
+  bleedInches: 0.125,
+  cropMarks: true,
+  registrationMarks: true,
+};
+
+export const PRINT_MARGIN_LIMITS_INCHES = { min: 0, max: 1 } as const;
+export const PRINT_BLEED_LIMITS_INCHES = { min: 0, max: 0.5 } as const;
+export const PRINT_MARK_SLUG_INCHES = 0.5;
+export const PRINT_MARK_LENGTH_INCHES = 0.25;
+export const PRINT_MARK_GAP_INCHES = 0.0625; // Keeps marks clear of the bleed
+export const REGISTRATION_MARK_RADIUS_INCHES = 0.09;
+
+const isInRange = (value: unknown, limits: { min: number; max: number }): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= limits.min && value <= limits.max;
+
+export const isPrintLayoutOptions = (value: unknown): value is PrintLayoutOptions => {
+  if (!value || typeof value !== 'object') return false;
+  const options = value as Record<string, unknown>;
+  return (
+    isInRange(options.marginInches, PRINT_MARGIN_LIMITS_INCHES) &&
+    isInRange(options.bleedInches, PRINT_BLEED_LIMITS_INCHES) &&
+    typeof options.cropMarks === 'boolean' &&
+    typeof options.registrationMarks === 'boolean'
+  );
+};
+
+export const hasPrintMarks = (options: PrintLayoutOptions): boolean =>
+  options.cropMarks || options.registrationMarks;
+
+// Settings that leave the sheet identical to the plain page
+export const isDefaultPrintLayout = (options: PrintLayoutOptions): boolean =>
+  options.marginInches === 0 && options.bleedInches === 0 && !hasPrintMarks(options);
+
+/**
+ * Where the bleed, trim and content boxes sit on the printed sheet, in inches
+ * from its top-left corner.
+ */
+export const getPrintSheetLayout = (
+  trimWidthInches: number,
+  trimHeightInches: number,
+  options: PrintLayoutOptions
+): PrintSheetLayout => {
+  const slug = hasPrintMarks(options) ? PRINT_MARK_SLUG_INCHES : 0;
+  const trimOffset = slug + options.bleedInches;
+  const contentScale = Math.min(
+    (trimWidthInches - options.marginInches * 2) / trimWidthInches,
+    (trimHeightInches - options.marginInches * 2) / trimHeightInches
+  );
+  const contentWidth = trimWidthInches * contentScale;
+  const contentHeight = trimHeightInches * contentScale;
+
+  return {
+    sheetWidthInches: trimWidthInches + trimOffset * 2,
+    sheetHeightInches: trimHeightInches + trimOffset * 2,
+    bleedBox: {
+      x: slug,
+      y: slug,
+      width: trimWidthInches + options.bleedInches * 2,
+      height: trimHeightInches + options.bleedInches * 2,
+    },
+    trimBox: { x: trimOffset, y: trimOffset, width: trimWidthInches, height: trimHeightInches },
+    contentBox: {
+      x: trimOffset + (trimWidthInches - contentWidth) / 2,
+      y: trimOffset + (trimHeightInches - contentHeight) / 2,
+      width: contentWidth,
+      height: contentHeight,
+    },
+    contentScale,
+  };
+};
+
+/**
+ * Crop marks: two lines per trim corner, running outward in line with the
+ * trim edges and starting just outside the bleed.
+ */
+export const getCropMarkLines = (layout: PrintSheetLayout): PrintMarkLine[] => {
+  const { trimBox, bleedBox } = layout;
+  const left = trimBox.x;
+  const right = trimBox.x + trimBox.width;
+  const top = trimBox.y;
+  const bottom = trimBox.y + trimBox.height;
+  const outerLeft = bleedBox.x - PRINT_MARK_GAP_INCHES;
+  const outerRight = bleedBox.x + bleedBox.width + PRINT_MARK_GAP_INCHES;
+  const outerTop = bleedBox.y - PRINT_MARK_GAP_INCHES;
+  const outerBottom = bleedBox.y + bleedBox.height + PRINT_MARK_GAP_INCHES;
+
+  return [left, right].flatMap((x) => [
+    { x1: x, y1: outerTop, x2: x, y2: outerTop - PRINT_MARK_LENGTH_INCHES },
+    { x1: x, y1: outerBottom, x2: x, y2: outerBottom + PRINT_MARK_LENGTH_INCHES },
+  ]).concat([top, bottom].flatMap((y) => [
+    { x1: outerLeft, y1: y, x2: outerLeft - PRINT_MARK_LENGTH_INCHES, y2: y },
+    { x1: outerRight, y1: y, x2: outerRight + PRINT_MARK_LENGTH_INCHES, y2: y },
+  ]));
+};
+
+/**
+ * Registration mark centres, one in the slug beside the middle of each edge.
+ */
+export const getRegistrationMarkCenters = (layout: PrintSheetLayout): Array<{ x: number; y: number }> => {
+  const { trimBox, bleedBox, sheetWidthInches, sheetHeightInches } = layout;
+  const slugCenter = bleedBox.x / 2;
+  const centerX = trimBox.x + trimBox.width / 2;
+  const centerY = trimBox.y + trimBox.height / 2;
+
+  return [
+    { x: centerX, y: slugCenter },
+    { x: centerX, y: sheetHeightInches - slugCenter },
+    { x: slugCenter, y: centerY },
+    { x: sheetWidthInches - slugCenter, y: centerY },
+  ];
+};
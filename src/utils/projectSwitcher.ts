@@ -8,10 +8,11 @@
 
 import { usePageStore } from '@/store/pageStore';
 import { useShotStore } from '@/store/shotStore';
-import { useProjectStore } from '@/store/projectStore';
+import { defaultTemplateSettings, useProjectStore } from '@/store/projectStore';
 import { useUIStore } from '@/store/uiStore';
 import { useProjectManagerStore } from '@/store/projectManagerStore';
 import { useAuthStore } from '@/store/authStore';
+import { useHistoryStore } from '@/store/historyStore';
 import { LocalStorageManager } from './localStorageManager';
 import { withOperation } from '@/utils/operations';
 import { Telemetry } from '@/utils/telemetry';
@@ -23,7 +24,7 @@ import { getProjectOpenState } from '@/services/projectOpenGate';
 import { useCloudSaveConflictStore } from '@/store/cloudSaveConflictStore';
 import { setSavePaused } from '@/utils/autoSave';
 import { CloudProjectSyncService } from '@/services/cloudProjectSyncService';
-import { resolvePageSizeMode } from '@/utils/pageSize';
+import { DEFAULT_CUSTOM_PAGE_SIZE, resolveCustomPageSize, resolvePageSizeMode } from '@/utils/pageSize';
 import { DataValidator } from '@/utils/dataValidator';
 import { normalizeProjectSettings } from '@/utils/projectSettings';
 import { serializeShotsForStorage } from '@/utils/shotSerialization';
@@ -582,6 +583,9 @@ export class ProjectSwitcher {
         clientAgency: projectStore.clientAgency,
         jobInfo: projectStore.jobInfo,
         pageSizeMode: projectStore.pageSizeMode,
+        scenes: projectStore.scenes,
+        startScenesOnNewPage: projectStore.startScenesOnNewPage,
+        customPageSize: projectStore.customPageSize,
         templateSettings: projectStore.templateSettings,
         storyboardTheme: projectStore.storyboardTheme,
         ...(projectManager.projects[projectId]?.projectOrigin
@@ -788,6 +792,8 @@ export class ProjectSwitcher {
       if (!parsedCache) return false;
 
       resetEditorTrackingState();
+      useHistoryStore.getState().clearHistory();
+      useUIStore.getState().clearShotSelection();
 
       // Apply only after the full target snapshot has been parsed and validated.
       usePageStore.setState({
@@ -815,7 +821,10 @@ export class ProjectSwitcher {
         clientAgency: parsedCache.projectData.clientAgency || '',
         jobInfo: parsedCache.projectData.jobInfo || '',
         pageSizeMode: resolvePageSizeMode(parsedCache.projectData.pageSizeMode),
-        templateSettings: parsedCache.projectData.templateSettings || {},
+        scenes: parsedCache.projectData.scenes ?? {},
+        startScenesOnNewPage: parsedCache.projectData.startScenesOnNewPage ?? false,
+        customPageSize: resolveCustomPageSize(parsedCache.projectData.customPageSize),
+        templateSettings: { ...defaultTemplateSettings, ...(parsedCache.projectData.templateSettings || {}) },
         storyboardTheme: parsedCache.projectData.storyboardTheme,
       });
 
@@ -1247,6 +1256,8 @@ export class ProjectSwitcher {
    */
   private static clearActiveProjectEditorData(): void {
     resetEditorTrackingState();
+    useHistoryStore.getState().clearHistory();
+    useUIStore.getState().clearShotSelection();
     usePageStore.setState({
       pages: [],
       activePageId: null,
@@ -1266,6 +1277,9 @@ export class ProjectSwitcher {
       clientAgency: 'Client/Agency',
       jobInfo: 'Job Info',
       pageSizeMode: 'dynamic',
+      scenes: {},
+      startScenesOnNewPage: false,
+      customPageSize: { ...DEFAULT_CUSTOM_PAGE_SIZE },
       templateSettings: {
         showLogo: false,
         showProjectName: true,
@@ -1274,8 +1288,22 @@ export class ProjectSwitcher {
         showJobInfo: true,
         showActionText: true,
         showScriptText: true,
+        showCameraDetails: false,
+        showReviewStatus: false,
+        showOmittedShots: true,
         showPageNumber: true,
+        pageNumberFormat: 'page',
+        showFooterText: false,
+        footerText: '',
+        showFooterDate: false,
+        showRevision: false,
+        revisionLabel: '',
         shotNumberFormat: '01',
+        sceneNumberFormat: 'SC01',
+        customFields: [],
+        headerLayout: 'split',
+        logoPlacement: 'left',
+        headerFields: [],
       },
       storyboardTheme: normalizeProjectSettings(undefined).storyboardTheme,
     });
@@ -1320,6 +1348,8 @@ export class ProjectSwitcher {
   static clearCurrentProjectData(): void {
     try {
       resetEditorTrackingState();
+      useHistoryStore.getState().clearHistory();
+      useUIStore.getState().clearShotSelection();
       console.log('Clearing all current project data from stores...');
       
       // Clear all stores to empty/default state
@@ -1342,6 +1372,9 @@ export class ProjectSwitcher {
         clientAgency: 'Client/Agency',
         jobInfo: 'Job Info',
         pageSizeMode: 'dynamic',
+        scenes: {},
+        startScenesOnNewPage: false,
+        customPageSize: { ...DEFAULT_CUSTOM_PAGE_SIZE },
         templateSettings: {
           showLogo: false,
           showProjectName: true,
@@ -1350,8 +1383,22 @@ export class ProjectSwitcher {
           showJobInfo: true,
           showActionText: true,
           showScriptText: true,
+          showCameraDetails: false,
+          showReviewStatus: false,
+          showOmittedShots: true,
           showPageNumber: true,
+          pageNumberFormat: 'page',
+          showFooterText: false,
+          footerText: '',
+          showFooterDate: false,
+          showRevision: false,
+          revisionLabel: '',
           shotNumberFormat: '01',
+          sceneNumberFormat: 'SC01',
+          customFields: [],
+          headerLayout: 'split',
+          logoPlacement: 'left',
+          headerFields: [],
         },
         storyboardTheme: normalizeProjectSettings(undefined).storyboardTheme,
       });
@@ -1397,6 +1444,8 @@ export class ProjectSwitcher {
       };
 
       // Clear current stores and apply default state
+      useHistoryStore.getState().clearHistory();
+      useUIStore.getState().clearShotSelection();
       usePageStore.setState({
         pages: [defaultPage],
         activePageId: defaultPage.id,
@@ -1418,6 +1467,9 @@ export class ProjectSwitcher {
         clientAgency: 'Client/Agency',
         jobInfo: 'Job Info',
         pageSizeMode: 'dynamic',
+        scenes: {},
+        startScenesOnNewPage: false,
+        customPageSize: { ...DEFAULT_CUSTOM_PAGE_SIZE },
         templateSettings: {
           showLogo: false,
           showProjectName: true,
@@ -1426,8 +1478,22 @@ export class ProjectSwitcher {
           showJobInfo: true,
           showActionText: true,
           showScriptText: true,
+          showCameraDetails: false,
+          showReviewStatus: false,
+          showOmittedShots: true,
           showPageNumber: true,
+          pageNumberFormat: 'page',
+          showFooterText: false,
+          footerText: '',
+          showFooterDate: false,
+          showRevision: false,
+          revisionLabel: '',
           shotNumberFormat: '01',
+          sceneNumberFormat: 'SC01',
+          customFields: [],
+          headerLayout: 'split',
+          logoPlacement: 'left',
+          headerFields: [],
         },
         storyboardTheme: normalizeProjectSettings(undefined).storyboardTheme,
       });
@@ -1447,6 +1513,8 @@ export class ProjectSwitcher {
    */
   private static initializeNewProjectWithDefaults(projectId: string, projectName?: string): void {
     try {
+      useHistoryStore.getState().clearHistory();
+      useUIStore.getState().clearShotSelection();
       const defaultShot = this.createDefaultShotData();
 
       // Create default page data
@@ -1483,6 +1551,9 @@ export class ProjectSwitcher {
         clientAgency: 'Client/Agency',
         jobInfo: 'Job Info',
         pageSizeMode: 'dynamic',
+        scenes: {},
+        startScenesOnNewPage: false,
+        customPageSize: { ...DEFAULT_CUSTOM_PAGE_SIZE },
         templateSettings: {
           showLogo: false,
           showProjectName: true,
@@ -1491,8 +1562,22 @@ export class ProjectSwitcher {
           showJobInfo: true,
           showActionText: true,
           showScriptText: true,
+          showCameraDetails: false,
+          showReviewStatus: false,
+          showOmittedShots: true,
           showPageNumber: true,
+          pageNumberFormat: 'page',
+          showFooterText: false,
+          footerText: '',
+          showFooterDate: false,
+          showRevision: false,
+          revisionLabel: '',
           shotNumberFormat: '01',
+          sceneNumberFormat: 'SC01',
+          customFields: [],
+          headerLayout: 'split',
+          logoPlacement: 'left',
+          headerFields: [],
         },
         storyboardTheme: normalizeProjectSettings(undefined).storyboardTheme,
       };
@@ -2,6 +2,7 @@ import { usePageStore } from '@/store/pageStore';
 import { useShotStore } from '@/store/shotStore';
 import { useProjectStore } from '@/store/projectStore';
 import { Telemetry } from '@/utils/telemetry';
+import { planPageSlices } from '@/utils/scenes';
 
 /**
  * Reconcile pages from canonical shotOrder without using React hooks in caller.
@@ -39,32 +40,27 @@ export function reconcileFromShotOrderNonHook(): void {
     }
   } catch (_) {}
 
-  // Project pages strictly from shotOrder by capacity
+  // Project pages strictly from shotOrder by capacity (scenes may end a page early)
   if (!pages.length) return;
-  const firstPage = pages[0];
-  const capacity = firstPage.gridRows * firstPage.gridCols;
+  const slices = planPageSlices(shotOrder, shotStore.shots, pages, projectStore.startScenesOnNewPage);
 
-  // Ensure enough pages (no-op if capacity already sufficient)
-  const needed = Math.ceil((shotOrder.length || 0) / (capacity || 1)) || 1;
-  while (pageStore.pages.length < needed) {
-    const newId = pageStore.createPage(`Page ${pageStore.pages.length + 1}`);
-    const fp = pageStore.pages[0];
-    if (fp) {
-      pageStore.updateGridSize(newId, fp.gridRows, fp.gridCols);
-      pageStore.updatePageAspectRatio(newId, fp.aspectRatio);
-    }
+  // Ensure enough pages (no-op if capacity already sufficient); new pages
+  // continue the last page's layout, as planPageSlices assumed
+  const needed = slices.length || 1;
+  const lastPage = pages[pages.length - 1];
+  while (usePageStore.getState().pages.length < needed) {
+    const newId = pageStore.createPage(`Page ${usePageStore.getState().pages.length + 1}`);
+    pageStore.updateGridSize(newId, lastPage.gridRows, lastPage.gridCols);
+    pageStore.updatePageAspectRatio(newId, lastPage.aspectRatio);
   }
 
   // Assign slices
-  pageStore.pages.forEach((p, idx) => {
-    const start = idx * capacity;
-    const end = start + capacity;
-    const slice = shotOrder.slice(start, end);
-    pageStore.reorderShotsInPage(p.id, slice);
+  usePageStore.getState().pages.forEach((p, idx) => {
+    pageStore.reorderShotsInPage(p.id, slices[idx] ?? []);
   });
 
   // Remove trailing empty pages (keep at least one)
-  const updated = pageStore.pages;
+  const updated = usePageStore.getState().pages;
   const nonEmpty = updated.filter(p => p.shots.length > 0);
   const empties = updated.slice(nonEmpty.length);
   if (empties.length && updated.length > 1 && nonEmpty.length > 0) {
@@ -72,10 +68,14 @@ export function reconcileFromShotOrderNonHook(): void {
   }
 
   // Single renumber pass
-  shotStore.renumberAllShotsImmediate(projectStore.templateSettings.shotNumberFormat);
+  shotStore.renumberAllShotsImmediate(
+    projectStore.templateSettings.shotNumberFormat,
+    projectStore.templateSettings.sceneNumberFormat
+  );
 
-  timer.end({ shots: shotOrder.length, pages: pageStore.pages.length });
-  Telemetry.event('reconcile.success', { shots: shotOrder.length, pages: pageStore.pages.length });
+  const pageCount = usePageStore.getState().pages.length;
+  timer.end({ shots: shotOrder.length, pages: pageCount });
+  Telemetry.event('reconcile.success', { shots: shotOrder.length, pages: pageCount });
 }
 
 
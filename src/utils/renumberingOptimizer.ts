@@ -1,12 +1,13 @@
 // Renumbering optimization utilities
 // Provides debounced renumbering to batch operations and improve performance
 
-import { formatShotNumber } from './formatShotNumber';
+import { applyShotNumbers } from './shotNumbering';
 
 interface RenumberingRequest {
   shots: Record<string, any>;
   shotOrder: string[];
   shotNumberFormat: string;
+  sceneNumberFormat?: string;
   callback: () => void;
 }
 
@@ -74,8 +75,8 @@ class RenumberingOptimizer {
     const startTime = performance.now();
 
     try {
-      const { shots, shotOrder, shotNumberFormat } = this.pendingRequest;
-      this.performRenumbering(shots, shotOrder, shotNumberFormat);
+      const { shots, shotOrder, shotNumberFormat, sceneNumberFormat } = this.pendingRequest;
+      this.performRenumbering(shots, shotOrder, shotNumberFormat, sceneNumberFormat);
       this.pendingRequest.callback();
     } catch (error) {
       console.error('Error during shot renumbering:', error);
@@ -90,17 +91,19 @@ class RenumberingOptimizer {
   }
 
   /**
-   * Optimized renumbering algorithm using formatShotNumber utility
+   * Optimized renumbering using the shared applyShotNumbers pass
    */
   private performRenumbering(
     shots: Record<string, any>, 
     shotOrder: string[], 
-    shotNumberFormat: string
+    shotNumberFormat: string,
+    sceneNumberFormat?: string
   ): void {
     console.log('performRenumbering called with:', {
       shotCount: Object.keys(shots).length,
       shotOrderLength: shotOrder.length,
       format: shotNumberFormat,
+      sceneFormat: sceneNumberFormat,
       shotIds: shotOrder
     });
     
@@ -109,40 +112,8 @@ class RenumberingOptimizer {
       return;
     }
 
-    let mainShotCounter = 0;
-    let subLetterCode = 'a'.charCodeAt(0);
-    const now = new Date(); // Single date instance for all shots
-
-    for (let i = 0; i < shotOrder.length; i++) {
-      const shotId = shotOrder[i];
-      const shot = shots[shotId];
-      if (!shot) {
-        console.log('Shot not found for ID:', shotId);
-        continue;
-      }
-
-      const prevShotId = i > 0 ? shotOrder[i - 1] : null;
-      const prevShot = prevShotId ? shots[prevShotId] : null;
-
-      const isContinuationOfSubGroup = shot.subShotGroupId && shot.subShotGroupId === prevShot?.subShotGroupId;
-
-      if (!isContinuationOfSubGroup) {
-        mainShotCounter++;
-        subLetterCode = 'a'.charCodeAt(0);
-      }
-
-      const oldNumber = shot.number;
-      if (shot.subShotGroupId) {
-        const subLetter = String.fromCharCode(subLetterCode);
-        shot.number = formatShotNumber(mainShotCounter, shotNumberFormat, subLetter);
-        subLetterCode++;
-      } else {
-        shot.number = formatShotNumber(mainShotCounter, shotNumberFormat);
-      }
-      
-      console.log(`Shot ${shotId}: ${oldNumber} -> ${shot.number}`);
-      shot.updatedAt = now; // Use single date instance for performance
-    }
+    // Single date instance for all shots
+    applyShotNumbers(shots, shotOrder, shotNumberFormat, sceneNumberFormat, new Date());
     
     console.log('Renumbering completed');
   }
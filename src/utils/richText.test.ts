@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  escapeRichText,
+  getRichTextPlain,
+  hasRichTextMarkup,
+  parseRichText,
+  toggleRichTextBullets,
+  toggleRichTextFormat,
+} from './richText';
+
+const plainRun = { bold: false, italic: false, underline: false, caps: false };
+
+describe('parseRichText', () => {
+  it('splits a line into formatted runs', () => {
+    expect(parseRichText('Pan to **the door** slowly')).toEqual([
+      {
+        bullet: false,
+        runs: [
+          { ...plainRun, text: 'Pan to ' },
+          { ...plainRun, text: 'the door', bold: true },
+          { ...plainRun, text: ' slowly' },
+        ],
+      },
+    ]);
+  });
+
+  it('tells bold, italic, underline and caps apart', () => {
+    const [line] = parseRichText('**a***b*__c__^^d^^');
+    expect(line.runs.map(({ text, ...format }) => [text, format])).toEqual([
+      ['a', { ...plainRun, bold: true }],
+      ['b', { ...plainRun, italic: true }],
+      ['c', { ...plainRun, underline: true }],
+      ['d', { ...plainRun, caps: true }],
+    ]);
+  });
+
+  it('keeps unpaired and escaped markers as text', () => {
+    expect(parseRichText('2 * 3 and \\*\\*not bold\\*\\*')[0].runs).toEqual([
+      { ...plainRun, text: '2 * 3 and **not bold**' },
+    ]);
+  });
+
+  it('marks bullet lines and strips their prefix', () => {
+    expect(parseRichText('- one\nplain').map((line) => [line.bullet, line.runs[0].text])).toEqual([
+      [true, 'one'],
+      [false, 'plain'],
+    ]);
+  });
+
+  it('returns no lines for empty text', () => {
+    expect(parseRichText('')).toEqual([]);
+    expect(parseRichText(null)).toEqual([]);
+  });
+});
+
+describe('getRichTextPlain', () => {
+  it('drops markers, uppercases caps and keeps bullets', () => {
+    expect(getRichTextPlain('- ^^anna^^ *enters*\n__exit__')).toBe('• ANNA enters\nexit');
+  });
+});
+
+describe('hasRichTextMarkup', () => {
+  it('ignores text whose markers are all literal', () => {
+    expect(hasRichTextMarkup('2 * 3')).toBe(false);
+    expect(hasRichTextMarkup('- item')).toBe(true);
+    expect(hasRichTextMarkup('*slow*')).toBe(true);
+  });
+});
+
+describe('escapeRichText', () => {
+  it('round-trips through the parser as plain text', () => {
+    const text = '**not** a - __marker__ ^^ \\';
+    expect(getRichTextPlain(escapeRichText(text))).toBe(text);
+  });
+});
+
+describe('toggleRichTextFormat', () => {
+  it('wraps the selection and keeps it selected', () => {
+    expect(toggleRichTextFormat('a cat', 2, 5, 'bold')).toEqual({ value: 'a **cat**', selectionStart: 4, selectionEnd: 7 });
+  });
+
+  it('unwraps markers around the selection', () => {
+    expect(toggleRichTextFormat('a **cat**', 4, 7, 'bold')).toEqual({ value: 'a cat', selectionStart: 2, selectionEnd: 5 });
+  });
+
+  it('unwraps markers inside the selection', () => {
+    expect(toggleRichTextFormat('a __cat__', 2, 9, 'underline')).toEqual({ value: 'a cat', selectionStart: 2, selectionEnd: 5 });
+  });
+});
+
+describe('toggleRichTextBullets', () => {
+  it('bullets every line the selection touches', () => {
+    const edit = toggleRichTextBullets('one\ntwo\nthree', 1, 5);
+    expect(edit.value).toBe('- one\n- two\nthree');
+    expect([edit.selectionStart, edit.selectionEnd]).toEqual([3, 9]);
+  });
+
+  it('removes bullets when every touched line has one', () => {
+    expect(toggleRichTextBullets('- one\n- two', 0, 11).value).toBe('one\ntwo');
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Lightweight formatting for shot action and script text.
+ *
+ * The markup lives in the existing plain-string fields so storage, sync and
+ * the export payloads don't change:
+ *
+ *   **bold**   *italic*   __underline__   ^^character name^^ (caps)
+ *   - bullet line
+ *
+ * A backslash escapes a marker character. Markers without a partner on the
+ * same line stay literal text. Every renderer (card, export surfaces, canvas)
+ * draws from parseRichText so they all agree on the result.
+ */
+
+export type RichTextFormat = 'bold' | 'italic' | 'underline' | 'caps';
+
+export interface RichTextRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  caps: boolean;
+}
+
+export interface RichTextLine {
+  bullet: boolean;
+  runs: RichTextRun[];
+}
+
+export const RICH_TEXT_MARKERS: Record<RichTextFormat, string> = {
+  bold: '**',
+  italic: '*',
+  underline: '__',
+  caps: '^^',
+};
+
+const BULLET_PATTERN = /^\s*-\s+/;
+const BULLET_PREFIX = '- ';
+const ESCAPABLE = new Set(['*', '_', '^', '-', '\\']);
+
+type Token =
+  | { type: 'text'; text: string }
+  | { type: 'marker'; format: RichTextFormat; text: string; matched: boolean };
+
+const readMarker = (line: string, index: number): RichTextFormat | null => {
+  if (line.startsWith('**', index)) return 'bold';
+  if (line.startsWith('__', index)) return 'underline';
+  if (line.startsWith('^^', index)) return 'caps';
+  if (line[index] === '*') return 'italic';
+  return null;
+};
+
+const tokenizeLine = (line: string): Token[] => {
+  const tokens: Token[] = [];
+  let text = '';
+  let index = 0;
+
+  const flushText = () => {
+    if (text) tokens.push({ type: 'text', text });
+    text = '';
+  };
+
+  while (index < line.length) {
+    const char = line[index];
+    if (char === '\\' && ESCAPABLE.has(line[index + 1])) {
+      text += line[index + 1];
+      index += 2;
+      continue;
+    }
+    const format = readMarker(line, index);
+    if (format) {
+      flushText();
+      const marker = RICH_TEXT_MARKERS[format];
+      tokens.push({ type: 'marker', format, text: marker, matched: false });
+      index += marker.length;
+      continue;
+    }
+    text += char;
+    index += 1;
+  }
+  flushText();
+
+  // Pair each marker with the next one of the same kind
+  const openMarkers: Partial<Record<RichTextFormat, number>> = {};
+  tokens.forEach((token, tokenIndex) => {
+    if (token.type !== 'marker') return;
+    const openIndex = openMarkers[token.format];
+    if (openIndex === undefined) {
+      openMarkers[token.format] = tokenIndex;
+      return;
+    }
+    (tokens[openIndex] as Extract<Token, { type: 'marker' }>).matched = true;
+    token.matched = true;
+    delete openMarkers[token.format];
+  });
+
+  return tokens;
+};
+
+const parseLineRuns = (line: string): RichTextRun[] => {
+  const runs: RichTextRun[] = [];
+  const active = { bold: false, italic: false, underline: false, caps: false };
+
+  const pushText = (text: string) => {
+    const last = runs[runs.length - 1];
+    if (
+      last &&
+      last.bold === active.bold &&
+      last.italic === active.italic &&
+      last.underline === active.underline &&
+      last.caps === active.caps
+    ) {
+      last.text += text;
+    } else {
+      runs.push({ text, ...active });
+    }
+  };
+
+  tokenizeLine(line).forEach((token) => {
+    if (token.type === 'marker' && token.matched) {
+      active[token.format] = !active[token.format];
+    } else {
+      pushText(token.text);
+    }
+  });
+
+  return runs;
+};
+
+export const parseRichText = (text: string | null | undefined): RichTextLine[] => {
+  if (!text) return [];
+  return text.split(/\r?\n/).map((line) => {
+    const bullet = BULLET_PATTERN.test(line);
+    return {
+      bullet,
+      runs: parseLineRuns(bullet ? line.replace(BULLET_PATTERN, '') : line),
+    };
+  });
+};
+
+/**
+ * The text a run displays. Caps is applied here rather than with CSS so the
+ * canvas and DOM renderers uppercase identically.
+ */
+export const getRichTextRunText = (run: RichTextRun): string =>
+  run.caps ? run.text.toUpperCase() : run.text;
+
+/**
+ * Escapes marker characters so plain text renders verbatim when it is placed
+ * inside markup.
+ */
+export const escapeRichText = (text: string): string =>
+  text.replace(/[*_^\\-]/g, (char) => `\\${char}`);
+
+export const hasRichTextMarkup = (text: string | null | undefined): boolean =>
+  parseRichText(text).some((line) => (
+    line.bullet || line.runs.some((run) => run.bold || run.italic || run.underline || run.caps)
+  ));
+
+/**
+ * Display text without formatting, for captions and other plain-text
+ * surfaces. Bullets keep a bullet character.
+ */
+export const getRichTextPlain = (text: string | null | undefined): string =>
+  parseRichText(text)
+    .map((line) => `${line.bullet ? '• ' : ''}${line.runs.map(getRichTextRunText).join('')}`)
+    .join('\n');
+
+export interface RichTextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * Wraps the selection in a format's markers, or unwraps it when the markers
+ * already surround it.
+ */
+export const toggleRichTextFormat = (
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  format: RichTextFormat
+): RichTextEdit => {
+  const marker = RICH_TEXT_MARKERS[format];
+  const before = value.slice(0, selectionStart);
+  const selected = value.slice(selectionStart, selectionEnd);
+  const after = value.slice(selectionEnd);
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      value: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      selectionStart: selectionStart - marker.length,
+      selectionEnd: selectionEnd - marker.length,
+    };
+  }
+  if (selected.length >= marker.length * 2 && selected.startsWith(marker) && selected.endsWith(marker)) {
+    const inner = selected.slice(marker.length, -marker.length);
+    return {
+      value: before + inner + after,
+      selectionStart,
+      selectionEnd: selectionStart + inner.length,
+    };
+  }
+  return {
+    value: before + marker + selected + marker + after,
+    selectionStart: selectionStart + marker.length,
+    selectionEnd: selectionEnd + marker.length,
+  };
+};
+
+/**
+ * Adds a bullet to every line the selection touches, or removes them when
+ * those lines are all bullets already.
+ */
+export const toggleRichTextBullets = (
+  value: string,
+  selectionStart: number,
+  selectionEnd: number
+): RichTextEdit => {
+  const blockStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+  const nextBreak = value.indexOf('\n', selectionEnd);
+  const blockEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(blockStart, blockEnd).split('\n');
+  const removing = lines.every((line) => BULLET_PATTERN.test(line));
+  const nextLines = lines.map((line) => (
+    removing ? line.replace(BULLET_PATTERN, '') : `${BULLET_PREFIX}${line}`
+  ));
+  const block = nextLines.join('\n');
+  const firstLineShift = nextLines[0].length - lines[0].length;
+
+  return {
+    value: value.slice(0, blockStart) + block + value.slice(blockEnd),
+    selectionStart: Math.max(blockStart, selectionStart + firstLineShift),
+    selectionEnd: selectionEnd + (block.length - (blockEnd - blockStart)),
+  };
+};
+
+export const getRichTextFontWeight = (baseWeight: string | number, bold: boolean): string | number =>
+  bold ? 700 : baseWeight;
+
+// Bullet lines hang their text 1em in from the bullet on every renderer
+export const RICH_TEXT_BULLET = '•';
+export const RICH_TEXT_BULLET_INDENT_EM = 1;
+
+export interface CanvasRichTextStyle {
+  family: string;
+  size: number;
+  weight: string;
+  color: string;
+  lineHeight: number;
+}
+
+interface CanvasSegment {
+  text: string;
+  run: RichTextRun;
+  width: number;
+}
+
+const setRunFont = (ctx: CanvasRenderingContext2D, style: CanvasRichTextStyle, run: RichTextRun) => {
+  ctx.font = `${run.italic ? 'italic ' : ''}${getRichTextFontWeight(style.weight, run.bold)} ${style.size}px ${style.family}`;
+};
+
+/**
+ * Word-wraps formatted lines into a canvas column, matching the card's
+ * pre-wrap layout. Blank lines are skipped, as the canvas export always has.
+ * Returns the y below the last line.
+ */
+export const drawRichTextOnCanvas = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  style: CanvasRichTextStyle
+): number => {
+  const lineHeight = style.size * style.lineHeight;
+  const bulletIndent = style.size * RICH_TEXT_BULLET_INDENT_EM;
+  let currentY = y;
+
+  ctx.save();
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = style.color;
+  ctx.strokeStyle = style.color;
+
+  parseRichText(text)
+    .filter((line) => line.runs.some((run) => run.text.trim() !== ''))
+    .forEach((line) => {
+      const lineX = line.bullet ? x + bulletIndent : x;
+      const lineWidth = line.bullet ? maxWidth - bulletIndent : maxWidth;
+
+      // Split runs into words and the spaces between them, measured in their own font
+      const segments: CanvasSegment[] = [];
+      line.runs.forEach((run) => {
+        setRunFont(ctx, style, run);
+        getRichTextRunText(run).split(/(\s+)/).forEach((part) => {
+          if (part) segments.push({ text: part, run, width: ctx.measureText(part).width });
+        });
+      });
+
+      const rows: CanvasSegment[][] = [[]];
+      let rowWidth = 0;
+      segments.forEach((segment) => {
+        const row = rows[rows.length - 1];
+        const isSpace = segment.text.trim() === '';
+        if (!isSpace && row.length > 0 && rowWidth + segment.width > lineWidth) {
+          // Trailing spaces don't carry over to the next row
+          while (row.length > 0 && row[row.length - 1].text.trim() === '') row.pop();
+          rows.push([segment]);
+          rowWidth = segment.width;
+          return;
+        }
+        if (isSpace && row.length === 0 && rows.length > 1) return;
+        row.push(segment);
+        rowWidth += segment.width;
+      });
+
+      if (line.bullet) {
+        setRunFont(ctx, style, { text: '', bold: false, italic: false, underline: false, caps: false });
+        ctx.fillText(RICH_TEXT_BULLET, x, currentY);
+      }
+
+      rows.forEach((row) => {
+        let segmentX = lineX;
+        row.forEach((segment) => {
+          setRunFont(ctx, style, segment.run);
+          ctx.fillText(segment.text, segmentX, currentY);
+          if (segment.run.underline) {
+            const thickness = Math.max(1, style.size / 14);
+            ctx.lineWidth = thickness;
+            ctx.beginPath();
+            ctx.moveTo(segmentX, currentY + style.size * 1.05);
+            ctx.lineTo(segmentX + segment.width, currentY + style.size * 1.05);
+            ctx.stroke();
+          }
+          segmentX += segment.width;
+        });
+        currentY += lineHeight;
+      });
+    });
+
+  ctx.restore();
+  return currentY;
+};
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countSceneGridCells,
+  formatSceneLabel,
+  getPageSceneHeaders,
+  getSceneHeaderText,
+  getSceneOrdinals,
+  planPageSlices,
+  resolveLandingSceneId,
+} from './scenes';
+
+type TestShot = { sceneId?: string | null; pageBreakBefore?: boolean };
+
+// Ids starting with a letter belong to that scene ('a1' -> scene 'a'); numeric ids have none
+const makeShots = (ids: string[]): Record<string, TestShot> =>
+  Object.fromEntries(ids.map((id) => [id, { sceneId: /^[a-z]/.test(id) ? id[0] : null }]));
+
+const grid = (gridRows: number, gridCols: number) => ({ gridRows, gridCols });
+
+describe('getSceneOrdinals', () => {
+  it('numbers scenes by first appearance in the shot order', () => {
+    const order = ['b1', 'a1', 'b2', '1'];
+    expect([...getSceneOrdinals(order, makeShots(order))]).toEqual([['b', 1], ['a', 2]]);
+  });
+});
+
+describe('formatSceneLabel', () => {
+  it('formats the ordinal with the scene number format', () => {
+    expect(formatSceneLabel(3, 'SC01')).toBe('SC03');
+    expect(formatSceneLabel(3, undefined)).toBe('SC03');
+  });
+
+  it('falls back to a plain label without a format', () => {
+    expect(formatSceneLabel(3, '  ')).toBe('Scene 3');
+  });
+});
+
+describe('planPageSlices', () => {
+  it('chunks shots by grid capacity without scenes', () => {
+    const order = ['1', '2', '3', '4', '5'];
+    expect(planPageSlices(order, makeShots(order), [grid(1, 2)], false)).toEqual([['1', '2'], ['3', '4'], ['5']]);
+  });
+
+  it('starts a mid-page scene on a fresh row', () => {
+    const order = ['1', 'a1', 'a2', 'a3'];
+    // '1' fills half the first row, so 'a1' starts row two and 'a3' overflows
+    expect(planPageSlices(order, makeShots(order), [grid(2, 2)], false)).toEqual([['1', 'a1', 'a2'], ['a3']]);
+  });
+
+  it('starts each scene on a new page when asked', () => {
+    const order = ['a1', 'a2', 'b1'];
+    expect(planPageSlices(order, makeShots(order), [grid(2, 2)], true)).toEqual([['a1', 'a2'], ['b1']]);
+  });
+
+  it("fills each page to its own grid and continues with the last page's grid", () => {
+    const order = ['1', '2', '3', '4', '5', '6', '7', '8'];
+    expect(planPageSlices(order, makeShots(order), [grid(1, 2), grid(1, 3)], false)).toEqual([
+      ['1', '2'],
+      ['3', '4', '5'],
+      ['6', '7', '8'],
+    ]);
+  });
+
+  it('pads mid-page scene starts to the row width of that page', () => {
+    const order = ['1', '2', 'a1', 'a2'];
+    // Page two is three wide, so 'a1' pads past one empty cell and 'a2' still fits
+    expect(planPageSlices(order, makeShots(order), [grid(1, 1), grid(2, 3)], false)).toEqual([['1'], ['2', 'a1', 'a2']]);
+  });
+
+  it('starts a fresh page at a page break and leaves the rest of the page empty', () => {
+    const order = ['1', '2', 'a1', 'a2'];
+    const shots = { ...makeShots(order), '2': { pageBreakBefore: true }, a1: { sceneId: 'a', pageBreakBefore: true } };
+    expect(planPageSlices(order, shots, [grid(2, 2)], false)).toEqual([['1'], ['2'], ['a1', 'a2']]);
+  });
+
+  it('ignores a page break that already starts a page', () => {
+    const order = ['1', '2', '3'];
+    const shots = { ...makeShots(order), '1': { pageBreakBefore: true }, '3': { pageBreakBefore: true } };
+    expect(planPageSlices(order, shots, [grid(1, 2)], false)).toEqual([['1', '2'], ['3']]);
+  });
+
+  it('keeps everything on one page without grids', () => {
+    expect(planPageSlices(['1', '2'], makeShots(['1', '2']), [], false)).toEqual([['1', '2']]);
+    expect(planPageSlices([], {}, [], false)).toEqual([]);
+  });
+});
+
+describe('getPageSceneHeaders', () => {
+  const order = ['a1', 'a2', 'a3', 'b1'];
+  const shots = makeShots(order);
+  const scenes = { a: { id: 'a', name: 'Kitchen' }, b: { id: 'b', name: 'Street' } };
+
+  it('puts a header above the first shot of each scene run', () => {
+    const headers = getPageSceneHeaders({
+      pageShotIds: order,
+      shotOrder: order,
+      shots,
+      scenes,
+      sceneNumberFormat: 'SC01',
+    });
+
+    expect(headers.map(({ shotId, label, name, continued }) => [shotId, label, name, continued])).toEqual([
+      ['a1', 'SC01', 'Kitchen', false],
+      ['b1', 'SC02', 'Street', false],
+    ]);
+  });
+
+  it("marks a scene carried over from the previous page as cont'd", () => {
+    const headers = getPageSceneHeaders({
+      pageShotIds: ['a3', 'b1'],
+      shotOrder: order,
+      shots,
+      scenes,
+      sceneNumberFormat: 'SC01',
+    });
+
+    expect(headers[0]).toMatchObject({ shotId: 'a3', continued: true });
+    expect(getSceneHeaderText(headers[0])).toBe("Kitchen (cont'd)");
+  });
+
+  it('returns no headers without scenes', () => {
+    expect(
+      getPageSceneHeaders({ pageShotIds: ['1'], shotOrder: ['1'], shots: makeShots(['1']), scenes: {}, sceneNumberFormat: 'SC01' })
+    ).toEqual([]);
+  });
+});
+
+describe('countSceneGridCells', () => {
+  it('pads mid-row scene starts to the next row', () => {
+    expect(countSceneGridCells(['1', 'a1', 'a2'], new Set(['a1']), 2)).toBe(4);
+  });
+
+  it('does not pad a header on the first shot', () => {
+    expect(countSceneGridCells(['a1', 'a2'], new Set(['a1']), 2)).toBe(2);
+  });
+});
+
+describe('resolveLandingSceneId', () => {
+  it('joins the scene before it', () => {
+    const order = ['a1', 'new', 'b1'];
+    const shots = { ...makeShots(['a1', 'b1']), new: { sceneId: null } };
+    expect(resolveLandingSceneId(order, shots, 'new')).toBe('a');
+  });
+
+  it('joins the scene after it at the start of the board', () => {
+    const order = ['new', 'b1'];
+    const shots = { ...makeShots(['b1']), new: { sceneId: null } };
+    expect(resolveLandingSceneId(order, shots, 'new')).toBe('b');
+  });
+});
@@ -0,0 +1,266 @@
+import { formatShotNumber } from './formatShotNumber';
+
+/**
+ * Scenes group contiguous runs of shots in the global shot order.
+ *
+ * A shot belongs to a scene through its `sceneId`; the scene itself only holds
+ * the name. Scene numbers are never stored - they follow the order in which
+ * scenes first appear in `shotOrder`, so reordering shots renumbers scenes the
+ * same way it renumbers shots.
+ */
+
+export interface Scene {
+  id: string;
+  name: string;
+}
+
+export interface SceneHeader {
+  shotId: string;
+  sceneId: string;
+  label: string;
+  name: string;
+  // The scene started on an earlier page and carries over to this one
+  continued: boolean;
+}
+
+type SceneShot = { sceneId?: string | null; pageBreakBefore?: boolean };
+
+export const DEFAULT_SCENE_NUMBER_FORMAT = 'SC01';
+
+export const SCENE_HEADER_HEIGHT_PX = 24;
+
+export const getShotSceneId = (shot: SceneShot | undefined | null): string | null =>
+  typeof shot?.sceneId === 'string' && shot.sceneId ? shot.sceneId : null;
+
+export const hasSceneShots = (shots: Record<string, SceneShot>): boolean =>
+  Object.values(shots).some((shot) => getShotSceneId(shot) !== null);
+
+/**
+ * 1-based scene numbers keyed by scene id, in order of first appearance.
+ */
+export const getSceneOrdinals = (
+  shotOrder: string[],
+  shots: Record<string, SceneShot>
+): Map<string, number> => {
+  const ordinals = new Map<string, number>();
+  shotOrder.forEach((shotId) => {
+    const sceneId = getShotSceneId(shots[shotId]);
+    if (sceneId && !ordinals.has(sceneId)) {
+      ordinals.set(sceneId, ordinals.size + 1);
+    }
+  });
+  return ordinals;
+};
+
+/**
+ * An empty scene number format turns scene prefixes off, so headers fall back
+ * to a plain "Scene 3" label.
+ */
+export const formatSceneLabel = (ordinal: number, sceneNumberFormat: string | null | undefined): string => {
+  const format = sceneNumberFormat ?? DEFAULT_SCENE_NUMBER_FORMAT;
+  return format.trim() ? formatShotNumber(ordinal, format) : `Scene ${ordinal}`;
+};
+
+/**
+ * Whether this shot opens a new scene run (and so gets a header in the grid).
+ */
+export const startsSceneRun = (shot: SceneShot | undefined, previousShot: SceneShot | undefined): boolean => {
+  const sceneId = getShotSceneId(shot);
+  return sceneId !== null && sceneId !== getShotSceneId(previousShot);
+};
+
+/**
+ * Splits the shot order into page-sized slices, each page filling to its own
+ * grid. Slices past the last grid (pages redistribution is about to create)
+ * use the last grid.
+ *
+ * Without scenes this is a plain chunk by grid capacity. A scene that starts
+ * mid-page begins on a fresh grid row so its header spans the full width, and
+ * with `startScenesOnNewPage` it begins on a fresh page instead. A shot with
+ * a manual page break always begins a fresh page, leaving the rest of the
+ * previous page empty.
+ */
+export const planPageSlices = (
+  shotOrder: string[],
+  shots: Record<string, SceneShot>,
+  grids: Array<{ gridRows: number; gridCols: number }>,
+  startScenesOnNewPage: boolean
+): string[][] => {
+  if (grids.length === 0) {
+    return shotOrder.length > 0 ? [[...shotOrder]] : [];
+  }
+
+  const getGrid = (pageIndex: number) => grids[Math.min(pageIndex, grids.length - 1)];
+  const slices: string[][] = [];
+  let current: string[] = [];
+  let usedCells = 0;
+  let grid = getGrid(0);
+
+  const breakPage = () => {
+    slices.push(current);
+    current = [];
+    usedCells = 0;
+    grid = getGrid(slices.length);
+  };
+
+  shotOrder.forEach((shotId, index) => {
+    const previousShot = index > 0 ? shots[shotOrder[index - 1]] : undefined;
+
+    if (current.length > 0 && shots[shotId]?.pageBreakBefore) {
+      breakPage();
+    } else if (current.length > 0 && startsSceneRun(shots[shotId], previousShot)) {
+      if (startScenesOnNewPage) {
+        breakPage();
+      } else {
+        usedCells = Math.ceil(usedCells / grid.gridCols) * grid.gridCols;
+      }
+    }
+
+    // A page without capacity takes every remaining shot
+    const capacity = grid.gridRows * grid.gridCols;
+    if (capacity > 0 && usedCells >= capacity) {
+      breakPage();
+    }
+
+    current.push(shotId);
+    usedCells += 1;
+  });
+
+  if (current.length > 0) {
+    slices.push(current);
+  }
+
+  return slices;
+};
+
+/**
+ * Scene headers for one page, keyed to the shot they sit above. The first shot
+ * on a page always gets a header when it belongs to a scene so a scene that
+ * spans pages stays labelled.
+ */
+export const getPageSceneHeaders = ({
+  pageShotIds,
+  shotOrder,
+  shots,
+  scenes,
+  sceneNumberFormat,
+}: {
+  pageShotIds: string[];
+  shotOrder: string[];
+  shots: Record<string, SceneShot>;
+  scenes: Record<string, Scene> | undefined;
+  sceneNumberFormat: string | null | undefined;
+}): SceneHeader[] => {
+  if (pageShotIds.length === 0) {
+    return [];
+  }
+
+  const ordinals = getSceneOrdinals(shotOrder, shots);
+  if (ordinals.size === 0) {
+    return [];
+  }
+
+  const headers: SceneHeader[] = [];
+  pageShotIds.forEach((shotId, index) => {
+    const sceneId = getShotSceneId(shots[shotId]);
+    if (!sceneId) return;
+
+    const globalIndex = shotOrder.indexOf(shotId);
+    const previousShotId = index > 0
+      ? pageShotIds[index - 1]
+      : (globalIndex > 0 ? shotOrder[globalIndex - 1] : undefined);
+    const previousSceneId = previousShotId ? getShotSceneId(shots[previousShotId]) : null;
+    const continued = index === 0 && previousSceneId === sceneId;
+
+    if (index > 0 && previousSceneId === sceneId) return;
+
+    const ordinal = ordinals.get(sceneId) ?? 0;
+    headers.push({
+      shotId,
+      sceneId,
+      label: formatSceneLabel(ordinal, sceneNumberFormat),
+      name: scenes?.[sceneId]?.name ?? '',
+      continued,
+    });
+  });
+
+  return headers;
+};
+
+/**
+ * Grid cells a page's shots occupy once scene headers push mid-row scene starts
+ * onto a fresh row. Mirrors the padding in planPageSlices.
+ */
+export const countSceneGridCells = (
+  pageShotIds: string[],
+  headerShotIds: ReadonlySet<string>,
+  gridCols: number
+): number => {
+  let usedCells = 0;
+  pageShotIds.forEach((shotId, index) => {
+    if (index > 0 && headerShotIds.has(shotId) && gridCols > 0) {
+      usedCells = Math.ceil(usedCells / gridCols) * gridCols;
+    }
+    usedCells += 1;
+  });
+  return usedCells;
+};
+
+/**
+ * Header styling shared by the grid and the static PDF builder, which builds
+ * plain DOM and can't render the React header.
+ */
+export const getSceneHeaderStyle = (textColor: string, borderColor: string) => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  height: `${SCENE_HEADER_HEIGHT_PX}px`,
+  color: textColor,
+  borderBottom: `1px solid ${borderColor}`,
+  fontSize: '12px',
+  lineHeight: '16px',
+  whiteSpace: 'nowrap',
+  overflow: 'hidden',
+} as const);
+
+export const getSceneHeaderText = (header: Pick<SceneHeader, 'name' | 'continued'>): string => {
+  const name = header.name.trim();
+  if (!header.continued) return name;
+  return name ? `${name} (cont'd)` : "(cont'd)";
+};
+
+/**
+ * The scene a new or moved shot should belong to once it sits at its place in
+ * `shotOrder`. A shot that already matches a neighbour keeps its scene;
+ * otherwise it joins the scene before it, or the one after it at the very
+ * start of the board. `movedShotIds` are skipped when looking for neighbours
+ * so a moved sub-shot group is judged by the shots around the whole group.
+ */
+export const resolveLandingSceneId = (
+  shotOrder: string[],
+  shots: Record<string, SceneShot>,
+  shotId: string,
+  movedShotIds: ReadonlySet<string> = new Set([shotId])
+): string | null => {
+  const currentSceneId = getShotSceneId(shots[shotId]);
+  const index = shotOrder.indexOf(shotId);
+  if (index === -1) {
+    return currentSceneId;
+  }
+
+  let previousIndex = index - 1;
+  while (previousIndex >= 0 && movedShotIds.has(shotOrder[previousIndex])) previousIndex--;
+  let nextIndex = index + 1;
+  while (nextIndex < shotOrder.length && movedShotIds.has(shotOrder[nextIndex])) nextIndex++;
+
+  const hasPrevious = previousIndex >= 0;
+  const hasNext = nextIndex < shotOrder.length;
+  const previousSceneId = hasPrevious ? getShotSceneId(shots[shotOrder[previousIndex]]) : null;
+  const nextSceneId = hasNext ? getShotSceneId(shots[shotOrder[nextIndex]]) : null;
+
+  if ((hasPrevious && currentSceneId === previousSceneId) || (hasNext && currentSceneId === nextSceneId)) {
+    return currentSceneId;
+  }
+  if (hasPrevious) return previousSceneId;
+  return hasNext ? nextSceneId : currentSceneId;
+};
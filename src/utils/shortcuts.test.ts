@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findCommandForEvent,
+  findShortcutConflict,
+  formatKeyCombo,
+  getKeyComboFromEvent,
+  matchesKeyCombo,
+  resolveShortcuts,
+} from './shortcuts';
+
+const makeEvent = (key: string, overrides: Partial<KeyboardEvent> = {}): KeyboardEvent =>
+  ({
+    key,
+    code: '',
+    metaKey: false,
+    ctrlKey: false,
+    altKey: false,
+    shiftKey: false,
+    ...overrides,
+  }) as KeyboardEvent;
+
+describe('matchesKeyCombo', () => {
+  it('accepts Cmd or Ctrl for Mod and ignores letter case', () => {
+    expect(matchesKeyCombo(makeEvent('K', { metaKey: true }), 'Mod+K')).toBe(true);
+    expect(matchesKeyCombo(makeEvent('k', { ctrlKey: true }), 'Mod+K')).toBe(true);
+    expect(matchesKeyCombo(makeEvent('k'), 'Mod+K')).toBe(false);
+  });
+
+  it('needs the exact modifiers', () => {
+    expect(matchesKeyCombo(makeEvent('z', { ctrlKey: true, shiftKey: true }), 'Mod+Z')).toBe(false);
+    expect(matchesKeyCombo(makeEvent('z', { ctrlKey: true, shiftKey: true }), 'Mod+Shift+Z')).toBe(true);
+  });
+
+  it('matches Option combos on the physical key', () => {
+    expect(matchesKeyCombo(makeEvent('˜', { altKey: true, code: 'KeyN' }), 'Alt+N')).toBe(true);
+  });
+
+  it('reads a trailing plus as the key', () => {
+    expect(matchesKeyCombo(makeEvent('+', { ctrlKey: true }), 'Mod++')).toBe(true);
+  });
+});
+
+describe('getKeyComboFromEvent', () => {
+  it('spells the combo being pressed', () => {
+    expect(getKeyComboFromEvent(makeEvent('˜', { metaKey: true, altKey: true, code: 'KeyN' }))).toBe('Mod+Alt+N');
+    expect(getKeyComboFromEvent(makeEvent('ArrowRight', { altKey: true }))).toBe('Alt+ArrowRight');
+    expect(getKeyComboFromEvent(makeEvent(' ', { shiftKey: true }))).toBe('Shift+Space');
+  });
+
+  it('waits while only modifiers are held', () => {
+    expect(getKeyComboFromEvent(makeEvent('Shift', { shiftKey: true }))).toBeNull();
+  });
+});
+
+describe('formatKeyCombo', () => {
+  it('uses symbols on macOS and words elsewhere', () => {
+    expect(formatKeyCombo('Mod+Shift+F', true)).toBe('⌘⇧F');
+    expect(formatKeyCombo('Mod+Shift+F', false)).toBe('Ctrl+Shift+F');
+    expect(formatKeyCombo('Alt+ArrowRight', false)).toBe('Alt+→');
+  });
+});
+
+describe('resolveShortcuts', () => {
+  it('applies overrides over the defaults', () => {
+    const shortcuts = resolveShortcuts({ 'shot.add': ['Mod+Alt+N'], 'history.redo': [] });
+
+    expect(shortcuts['shot.add']).toEqual(['Mod+Alt+N']);
+    expect(shortcuts['history.redo']).toEqual([]);
+    expect(shortcuts['history.undo']).toEqual(['Mod+Z']);
+  });
+});
+
+describe('findCommandForEvent', () => {
+  const shortcuts = resolveShortcuts(null);
+
+  it('finds the command bound to the key press', () => {
+    expect(findCommandForEvent(makeEvent('y', { ctrlKey: true }), shortcuts, false)).toBe('history.redo');
+  });
+
+  it('leaves typing alone unless the command allows text fields', () => {
+    expect(findCommandForEvent(makeEvent('z', { ctrlKey: true }), shortcuts, true)).toBeNull();
+    expect(findCommandForEvent(makeEvent('k', { ctrlKey: true }), shortcuts, true)).toBe('palette.open');
+  });
+});
+
+describe('findShortcutConflict', () => {
+  it('reports another command already using the combo', () => {
+    const shortcuts = resolveShortcuts(null);
+
+    expect(findShortcutConflict(shortcuts, 'Mod+Z', 'shot.add')?.id).toBe('history.undo');
+    expect(findShortcutConflict(shortcuts, 'Mod+Z', 'history.undo')).toBeNull();
+  });
+});
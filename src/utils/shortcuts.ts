@@ -0,0 +1,195 @@
+/**
+ * Editor commands and their keyboard shortcuts.
+ *
+ * Every command has default key combos that can be rebound from the shortcut
+ * sheet; rebinds persist as overrides in the UI store. Combos are written as
+ * "Mod+Shift+K": Mod is Cmd on macOS and Ctrl elsewhere (either is accepted,
+ * like the original undo shortcut), and the key is KeyboardEvent.key with
+ * letters matched case-insensitively.
+ */
+
+export type EditorCommandId =
+  | 'palette.open'
+  | 'shortcuts.show'
+  | 'history.undo'
+  | 'history.redo'
+  | 'find.open'
+  | 'shot.add'
+  | 'page.add'
+  | 'shot.next'
+  | 'shot.previous'
+  | 'field.next'
+  | 'field.previous'
+  | 'page.next'
+  | 'page.previous'
+  | 'export.pdf'
+  | 'export.png'
+  | 'export.video'
+  | 'animatic.play';
+
+export type EditorCommandGroup = 'General' | 'Edit' | 'Navigation' | 'Export';
+
+export interface EditorCommandDefinition {
+  id: EditorCommandId;
+  label: string;
+  group: EditorCommandGroup;
+  defaultKeys: string[];
+  allowInTextFields?: boolean; // Fires while typing in shot text and inputs
+}
+
+export type ShortcutMap = Record<EditorCommandId, string[]>;
+export type ShortcutOverrides = Partial<ShortcutMap>;
+
+export const EDITOR_COMMANDS: EditorCommandDefinition[] = [
+  { id: 'palette.open', label: 'Command Palette', group: 'General', defaultKeys: ['Mod+K'], allowInTextFields: true },
+  { id: 'shortcuts.show', label: 'Keyboard Shortcuts', group: 'General', defaultKeys: ['Mod+/'], allowInTextFields: true },
+  { id: 'find.open', label: 'Find & Replace', group: 'General', defaultKeys: ['Mod+Shift+F'], allowInTextFields: true },
+  { id: 'animatic.play', label: 'Play Animatic', group: 'General', defaultKeys: [] },
+  { id: 'history.undo', label: 'Undo', group: 'Edit', defaultKeys: ['Mod+Z'] },
+  { id: 'history.redo', label: 'Redo', group: 'Edit', defaultKeys: ['Mod+Shift+Z', 'Mod+Y'] },
+  { id: 'shot.add', label: 'Add Shot', group: 'Edit', defaultKeys: ['Alt+N'] },
+  { id: 'page.add', label: 'New Page', group: 'Edit', defaultKeys: ['Alt+Shift+N'] },
+  { id: 'shot.next', label: 'Next Shot', group: 'Navigation', defaultKeys: ['Alt+ArrowRight'], allowInTextFields: true },
+  { id: 'shot.previous', label: 'Previous Shot', group: 'Navigation', defaultKeys: ['Alt+ArrowLeft'], allowInTextFields: true },
+  { id: 'field.next', label: 'Next Field', group: 'Navigation', defaultKeys: ['Alt+ArrowDown'], allowInTextFields: true },
+  { id: 'field.previous', label: 'Previous Field', group: 'Navigation', defaultKeys: ['Alt+ArrowUp'], allowInTextFields: true },
+  { id: 'page.next', label: 'Next Page', group: 'Navigation', defaultKeys: ['Alt+PageDown'], allowInTextFields: true },
+  { id: 'page.previous', label: 'Previous Page', group: 'Navigation', defaultKeys: ['Alt+PageUp'], allowInTextFields: true },
+  { id: 'export.pdf', label: 'Export PDF', group: 'Export', defaultKeys: ['Mod+Shift+E'] },
+  { id: 'export.png', label: 'Export PNG', group: 'Export', defaultKeys: [] },
+  { id: 'export.video', label: 'Export Video', group: 'Export', defaultKeys: [] },
+];
+
+export const EDITOR_COMMAND_GROUPS: EditorCommandGroup[] = ['General', 'Edit', 'Navigation', 'Export'];
+
+/**
+ * Shortcuts owned by a component rather than the command map; listed on the
+ * shortcut sheet but not rebindable.
+ */
+export const FIXED_SHORTCUTS: Array<{ label: string; keys: string }> = [
+  { label: 'Bold / italic / underline (shot text)', keys: 'Mod+B · Mod+I · Mod+U' },
+  { label: 'Select shot / select range', keys: 'Mod+Click · Shift+Click' },
+  { label: 'Select all shots on the page', keys: 'Mod+A' },
+  { label: 'Delete selected shots', keys: 'Delete' },
+  { label: 'Copy / paste shots (across projects)', keys: 'Mod+C · Mod+V' },
+  { label: 'Clear selection', keys: 'Escape' },
+];
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock', 'OS']);
+
+interface KeyCombo {
+  mod: boolean;
+  alt: boolean;
+  shift: boolean;
+  key: string;
+}
+
+const normalizeKey = (key: string): string => (key.length === 1 ? key.toLowerCase() : key);
+
+const parseKeyCombo = (combo: string): KeyCombo => {
+  // Split on "+" but keep a trailing "+" key ("Mod++")
+  const parts = combo.split(/\+(?!$)/);
+  const key = parts.pop() ?? '';
+  return {
+    mod: parts.includes('Mod'),
+    alt: parts.includes('Alt'),
+    shift: parts.includes('Shift'),
+    key: normalizeKey(key),
+  };
+};
+
+// Option/Alt changes event.key on macOS (Option+N types "˜"), so letters and
+// digits also match on the physical key
+const getEventKeys = (event: KeyboardEvent): string[] => {
+  const keys = [normalizeKey(event.key)];
+  const codeMatch = /^(?:Key([A-Z])|Digit([0-9]))$/.exec(event.code ?? '');
+  if (codeMatch) keys.push((codeMatch[1] ?? codeMatch[2]).toLowerCase());
+  return keys;
+};
+
+export const matchesKeyCombo = (event: KeyboardEvent, combo: string): boolean => {
+  const parsed = parseKeyCombo(combo);
+  return (
+    parsed.mod === (event.metaKey || event.ctrlKey) &&
+    parsed.alt === event.altKey &&
+    parsed.shift === event.shiftKey &&
+    getEventKeys(event).includes(parsed.key)
+  );
+};
+
+/**
+ * The combo a key press spells, for recording a rebind. Null while only
+ * modifiers are held.
+ */
+export const getKeyComboFromEvent = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+  const codeMatch = /^(?:Key([A-Z])|Digit([0-9]))$/.exec(event.code ?? '');
+  const key = codeMatch ? codeMatch[1] ?? codeMatch[2] : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  return [
+    (event.metaKey || event.ctrlKey) && 'Mod',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    key === ' ' ? 'Space' : key,
+  ].filter(Boolean).join('+');
+};
+
+export const isMacPlatform = (): boolean =>
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent);
+
+const MAC_KEY_LABELS: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+const KEY_LABELS: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  PageDown: 'PgDn',
+  PageUp: 'PgUp',
+  Escape: 'Esc',
+};
+
+/**
+ * Display form of a combo: "⌘⇧F" on macOS, "Ctrl+Shift+F" elsewhere.
+ */
+export const formatKeyCombo = (combo: string, isMac = isMacPlatform()): string => {
+  const parts = combo.split(/\+(?!$)/).map((part) => {
+    if (isMac && MAC_KEY_LABELS[part]) return MAC_KEY_LABELS[part];
+    if (part === 'Mod') return 'Ctrl';
+    return KEY_LABELS[part] ?? (part.length === 1 ? part.toUpperCase() : part);
+  });
+  return parts.join(isMac ? '' : '+');
+};
+
+export const resolveShortcuts = (overrides: ShortcutOverrides | null | undefined): ShortcutMap =>
+  Object.fromEntries(
+    EDITOR_COMMANDS.map((command) => [command.id, overrides?.[command.id] ?? command.defaultKeys])
+  ) as ShortcutMap;
+
+export const isTextEntryTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return Boolean(element?.closest && (element.isContentEditable || element.closest('input, textarea, select')));
+};
+
+/**
+ * The command a key press triggers. Commands that don't allow text fields
+ * leave typing (and the fields' native undo) alone.
+ */
+export const findCommandForEvent = (
+  event: KeyboardEvent,
+  shortcuts: ShortcutMap,
+  inTextField: boolean
+): EditorCommandId | null => {
+  const command = EDITOR_COMMANDS.find(({ id, allowInTextFields }) =>
+    (!inTextField || allowInTextFields) && shortcuts[id].some((combo) => matchesKeyCombo(event, combo))
+  );
+  return command?.id ?? null;
+};
+
+/**
+ * The other command already bound to a combo, if any.
+ */
+export const findShortcutConflict = (
+  shortcuts: ShortcutMap,
+  combo: string,
+  commandId: EditorCommandId
+): EditorCommandDefinition | null =>
+  EDITOR_COMMANDS.find(({ id }) => id !== commandId && shortcuts[id].includes(combo)) ?? null;
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { makeShot } from '@/test/factories';
+import type { CustomShotField } from './customFields';
+import {
+  buildPastedShots,
+  createShotClipboardPayload,
+  getShotPasteIndex,
+  parseShotClipboard,
+  serializeShotClipboard,
+  type ClipboardShot,
+} from './shotClipboard';
+
+const makeClipboardShot = (overrides: Partial<ClipboardShot> = {}): ClipboardShot => ({
+  groupKey: null,
+  actionText: '',
+  scriptText: '',
+  ...overrides,
+});
+
+const sourceFields: CustomShotField[] = [{ id: 'src-vfx', name: 'VFX notes', visible: true }];
+
+describe('createShotClipboardPayload', () => {
+  it('keys custom field values by field name', () => {
+    const payload = createShotClipboardPayload(
+      [makeShot('a', { customFieldValues: { 'src-vfx': 'Smoke', removed: 'Old' } })],
+      sourceFields,
+      'project-1'
+    );
+
+    expect(payload.sourceProjectId).toBe('project-1');
+    expect(payload.shots[0].customFields).toEqual({ 'VFX notes': 'Smoke' });
+  });
+
+  it('embeds a local image and references a cloud one', () => {
+    const payload = createShotClipboardPayload(
+      [
+        makeShot('a', { imageData: 'data:image/png;base64,AAAA', imageSize: 4 }),
+        makeShot('b', { imageUrl: 'https://cdn/b.png' }),
+        makeShot('c'),
+      ],
+      [],
+      null
+    );
+
+    expect(payload.shots.map((shot) => shot.image)).toEqual([
+      { dataUrl: 'data:image/png;base64,AAAA', size: 4 },
+      { url: 'https://cdn/b.png', size: undefined },
+      undefined,
+    ]);
+  });
+});
+
+describe('parseShotClipboard', () => {
+  it('round-trips a serialized payload', () => {
+    const payload = createShotClipboardPayload(
+      [makeShot('a', { actionText: 'Pan left', shotSize: 'CU', duration: 2, subShotGroupId: 'g1' })],
+      [],
+      'project-1'
+    );
+
+    expect(parseShotClipboard(serializeShotClipboard(payload))).toEqual(payload);
+  });
+
+  it('ignores other clipboard text', () => {
+    expect(parseShotClipboard('Pan left')).toBeNull();
+    expect(parseShotClipboard('{ not json')).toBeNull();
+    expect(parseShotClipboard(JSON.stringify({ format: 'other', version: 1, shots: [] }))).toBeNull();
+    expect(parseShotClipboard(JSON.stringify({ format: 'sbflow-shots', version: 1, shots: [{}] }))).toBeNull();
+  });
+
+  it('drops malformed optional fields and keeps the shot', () => {
+    const text = JSON.stringify({
+      format: 'sbflow-shots',
+      version: 1,
+      shots: [
+        {
+          actionText: 'Pan left',
+          scriptText: '',
+          shotSize: 'HUGE',
+          duration: -1,
+          image: { url: 'javascript:alert(1)' },
+          imageScale: 0,
+        },
+      ],
+    });
+    const [shot] = parseShotClipboard(text)!.shots;
+
+    expect(shot).toMatchObject({ actionText: 'Pan left', groupKey: null });
+    expect([shot.shotSize, shot.duration, shot.image, shot.imageScale]).toEqual([undefined, undefined, undefined, undefined]);
+  });
+});
+
+describe('getShotPasteIndex', () => {
+  const shotOrder = ['a', 'b', 'c', 'd'];
+  const shots = {
+    a: { subShotGroupId: null },
+    b: { subShotGroupId: 'g1' },
+    c: { subShotGroupId: 'g1' },
+    d: { subShotGroupId: null },
+  };
+
+  it('pastes after the anchor shot and its group', () => {
+    expect(getShotPasteIndex(shotOrder, shots, 'a', 0)).toBe(1);
+    expect(getShotPasteIndex(shotOrder, shots, 'b', 0)).toBe(3);
+  });
+
+  it('uses the clamped fallback without an anchor on the board', () => {
+    expect(getShotPasteIndex(shotOrder, shots, null, 2)).toBe(2);
+    expect(getShotPasteIndex(shotOrder, shots, 'missing', 10)).toBe(4);
+  });
+});
+
+describe('buildPastedShots', () => {
+  it('gives pasted groups fresh ids and dissolves single-shot groups', () => {
+    const pasted = buildPastedShots(
+      [makeClipboardShot({ groupKey: 'g1' }), makeClipboardShot({ groupKey: 'g1' }), makeClipboardShot({ groupKey: 'g2' })],
+      [],
+      [null, null, null]
+    );
+
+    expect(pasted[0].subShotGroupId).toEqual(expect.any(String));
+    expect(pasted[0].subShotGroupId).not.toBe('g1');
+    expect(pasted[1].subShotGroupId).toBe(pasted[0].subShotGroupId);
+    expect(pasted[2].subShotGroupId).toBeNull();
+  });
+
+  it("maps custom fields onto the target project's fields by name", () => {
+    const targetFields: CustomShotField[] = [{ id: 'dst-vfx', name: ' vfx NOTES ', visible: true }];
+    const [pasted] = buildPastedShots(
+      [makeClipboardShot({ customFields: { 'VFX notes': 'Smoke', Wardrobe: 'Red coat' } })],
+      targetFields,
+      [null]
+    );
+
+    expect(pasted.customFieldValues).toEqual({ 'dst-vfx': 'Smoke' });
+  });
+
+  it('starts pasted shots as drafts with unlocked numbers', () => {
+    const payload = createShotClipboardPayload(
+      [makeShot('a', { number: '05', numberLocked: true, reviewStatus: 'omitted' })],
+      [],
+      null
+    );
+    const [pasted] = buildPastedShots(parseShotClipboard(serializeShotClipboard(payload))!.shots, [], [null]);
+
+    expect(pasted).not.toHaveProperty('number');
+    expect(pasted).not.toHaveProperty('numberLocked');
+    expect(pasted).not.toHaveProperty('reviewStatus');
+  });
+
+  it('keeps framing only when the image resolved', () => {
+    const clipboardShot = makeClipboardShot({ imageScale: 2, imageOffsetX: 10, imageRotation: 90 });
+    const image = { imageData: 'data:image/png;base64,AAAA', imageSize: 4, imageStorageType: 'base64' } as const;
+    const [withImage, withoutImage] = buildPastedShots([clipboardShot, clipboardShot], [], [image, null]);
+
+    expect(withImage).toMatchObject({ ...image, imageScale: 2, imageOffsetX: 10, imageRotation: 90 });
+    expect(withoutImage).toMatchObject({ imageScale: 1, imageOffsetX: 0, imageRotation: undefined });
+  });
+});
@@ -0,0 +1,256 @@
+import type { Shot } from '@/store/shotStore';
+import { isShotAnnotationList } from './annotations';
+import { isCameraAngle, isCameraMovement, isShotSize } from './cameraDetails';
+import { isCustomFieldValues, MAX_CUSTOM_FIELD_VALUE_LENGTH, type CustomShotField } from './customFields';
+import { isSketchStrokeList } from './sketch';
+
+/**
+ * Clipboard format for copying shots between projects, tabs and windows.
+ *
+ * Copied shots travel as plain-text JSON so the system clipboard carries them
+ * anywhere the app is open. A payload holds the text, camera metadata,
+ * framing, sketch and annotations of each shot, plus its active image:
+ * embedded as a data URL when the shot has one locally, otherwise referenced
+ * by its cloud URL and downloaded on paste. Alternate takes stay behind.
+ *
+ * Nothing in a payload is tied to the source project: custom field values are
+ * keyed by field name rather than id, sub-shot groups by a key local to the
+ * payload, and shot numbers and scenes come from where the shots land. Like a
+ * duplicate, a pasted shot starts as a draft with an unlocked number.
+ */
+
+export const SHOT_CLIPBOARD_FORMAT = 'sbflow-shots';
+export const SHOT_CLIPBOARD_VERSION = 1;
+
+export interface ClipboardShotImage {
+  dataUrl?: string;
+  url?: string;
+  size?: number;
+}
+
+export interface ClipboardShot {
+  groupKey: string | null;       // Shots sharing a key were one sub-shot group
+  actionText: string;
+  scriptText: string;
+  shotSize?: Shot['shotSize'];
+  cameraAngle?: Shot['cameraAngle'];
+  lens?: string;
+  cameraMovement?: Shot['cameraMovement'];
+  duration?: number;
+  customFields?: Record<string, string>; // Field name -> text
+  image?: ClipboardShotImage;
+  imageScale?: number;
+  imageOffsetX?: number;
+  imageOffsetY?: number;
+  imageRotation?: number;
+  imageFlipX?: boolean;
+  imageFlipY?: boolean;
+  sketchStrokes?: Shot['sketchStrokes'];
+  annotations?: Shot['annotations'];
+}
+
+export interface ShotClipboardPayload {
+  format: typeof SHOT_CLIPBOARD_FORMAT;
+  version: typeof SHOT_CLIPBOARD_VERSION;
+  sourceProjectId: string | null;
+  shots: ClipboardShot[];
+}
+
+// Image fields a pasted shot gets once its clipboard image has been resolved
+export type PastedShotImage = Pick<Shot, 'imageData' | 'imageSize' | 'imageStorageType' | 'cloudSyncStatus'>;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const normalizeFieldName = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * A clipboard payload for the given shots, in the order given.
+ */
+export const createShotClipboardPayload = (
+  shots: Shot[],
+  customFields: CustomShotField[],
+  sourceProjectId: string | null
+): ShotClipboardPayload => ({
+  format: SHOT_CLIPBOARD_FORMAT,
+  version: SHOT_CLIPBOARD_VERSION,
+  sourceProjectId,
+  shots: shots.map((shot) => {
+    const customFieldValues = shot.customFieldValues ?? {};
+    const namedValues = Object.fromEntries(
+      customFields
+        .filter((field) => customFieldValues[field.id])
+        .map((field) => [field.name, customFieldValues[field.id]])
+    );
+    const image: ClipboardShotImage | undefined = shot.imageData
+      ? { dataUrl: shot.imageData, size: shot.imageSize }
+      : shot.imageUrl
+        ? { url: shot.imageUrl, size: shot.imageSize }
+        : undefined;
+
+    return {
+      groupKey: shot.subShotGroupId,
+      actionText: shot.actionText,
+      scriptText: shot.scriptText,
+      shotSize: shot.shotSize,
+      cameraAngle: shot.cameraAngle,
+      lens: shot.lens,
+      cameraMovement: shot.cameraMovement,
+      duration: shot.duration,
+      customFields: Object.keys(namedValues).length > 0 ? namedValues : undefined,
+      image,
+      imageScale: shot.imageScale,
+      imageOffsetX: shot.imageOffsetX,
+      imageOffsetY: shot.imageOffsetY,
+      imageRotation: shot.imageRotation,
+      imageFlipX: shot.imageFlipX,
+      imageFlipY: shot.imageFlipY,
+      sketchStrokes: shot.sketchStrokes?.length ? shot.sketchStrokes : undefined,
+      annotations: shot.annotations?.length ? shot.annotations : undefined,
+    };
+  }),
+});
+
+export const serializeShotClipboard = (payload: ShotClipboardPayload): string => JSON.stringify(payload);
+
+const parseClipboardImage = (value: unknown): ClipboardShotImage | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const image = value as Record<string, unknown>;
+  const dataUrl = typeof image.dataUrl === 'string' && image.dataUrl.startsWith('data:image/') ? image.dataUrl : undefined;
+  const url = typeof image.url === 'string' && /^https?:\/\//.test(image.url) ? image.url : undefined;
+  if (!dataUrl && !url) return undefined;
+  return { dataUrl, url, size: isFiniteNumber(image.size) ? image.size : undefined };
+};
+
+const parseClipboardShot = (value: unknown): ClipboardShot | null => {
+  if (!value || typeof value !== 'object') return null;
+  const shot = value as Record<string, unknown>;
+  if (typeof shot.actionText !== 'string' || typeof shot.scriptText !== 'string') return null;
+
+  return {
+    groupKey: typeof shot.groupKey === 'string' ? shot.groupKey : null,
+    actionText: shot.actionText,
+    scriptText: shot.scriptText,
+    shotSize: isShotSize(shot.shotSize) ? shot.shotSize : undefined,
+    cameraAngle: isCameraAngle(shot.cameraAngle) ? shot.cameraAngle : undefined,
+    lens: typeof shot.lens === 'string' ? shot.lens : undefined,
+    cameraMovement: isCameraMovement(shot.cameraMovement) ? shot.cameraMovement : undefined,
+    duration: isFiniteNumber(shot.duration) && shot.duration > 0 ? shot.duration : undefined,
+    customFields: isCustomFieldValues(shot.customFields) ? shot.customFields : undefined,
+    image: parseClipboardImage(shot.image),
+    imageScale: isFiniteNumber(shot.imageScale) && shot.imageScale > 0 ? shot.imageScale : undefined,
+    imageOffsetX: isFiniteNumber(shot.imageOffsetX) ? shot.imageOffsetX : undefined,
+    imageOffsetY: isFiniteNumber(shot.imageOffsetY) ? shot.imageOffsetY : undefined,
+    imageRotation: isFiniteNumber(shot.imageRotation) ? shot.imageRotation : undefined,
+    imageFlipX: typeof shot.imageFlipX === 'boolean' ? shot.imageFlipX : undefined,
+    imageFlipY: typeof shot.imageFlipY === 'boolean' ? shot.imageFlipY : undefined,
+    sketchStrokes: isSketchStrokeList(shot.sketchStrokes) ? shot.sketchStrokes : undefined,
+    annotations: isShotAnnotationList(shot.annotations) ? shot.annotations : undefined,
+  };
+};
+
+/**
+ * The payload in clipboard text, or null when the text is anything else.
+ * Malformed optional fields are dropped rather than failing the whole paste.
+ */
+export const parseShotClipboard = (text: string | null | undefined): ShotClipboardPayload | null => {
+  if (!text || !text.trimStart().startsWith('{')) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const payload = value as Record<string, unknown>;
+  if (payload.format !== SHOT_CLIPBOARD_FORMAT || payload.version !== SHOT_CLIPBOARD_VERSION) return null;
+  if (!Array.isArray(payload.shots)) return null;
+
+  const shots = payload.shots.map(parseClipboardShot).filter((shot): shot is ClipboardShot => shot !== null);
+  if (shots.length === 0) return null;
+
+  return {
+    format: SHOT_CLIPBOARD_FORMAT,
+    version: SHOT_CLIPBOARD_VERSION,
+    sourceProjectId: typeof payload.sourceProjectId === 'string' ? payload.sourceProjectId : null,
+    shots,
+  };
+};
+
+/**
+ * Index in the shot order where pasted shots go: after the anchor shot, or
+ * after the last shot of the page when nothing is selected, and never inside
+ * a sub-shot group.
+ */
+export const getShotPasteIndex = (
+  shotOrder: string[],
+  shots: Record<string, { subShotGroupId: string | null } | undefined>,
+  afterShotId: string | null,
+  fallbackIndex: number
+): number => {
+  const anchorIndex = afterShotId ? shotOrder.indexOf(afterShotId) : -1;
+  if (anchorIndex === -1) return Math.min(Math.max(fallbackIndex, 0), shotOrder.length);
+
+  const groupId = shots[afterShotId!]?.subShotGroupId ?? null;
+  let index = anchorIndex + 1;
+  while (groupId && index < shotOrder.length && shots[shotOrder[index]]?.subShotGroupId === groupId) {
+    index++;
+  }
+  return index;
+};
+
+/**
+ * New shot data for each clipboard shot. Groups get fresh ids (a group pasted
+ * with a single shot dissolves), custom field values map onto the target
+ * project's fields by name and `images` holds each shot's resolved image.
+ */
+export const buildPastedShots = (
+  clipboardShots: ClipboardShot[],
+  customFields: CustomShotField[],
+  images: Array<PastedShotImage | null>
+): Array<Partial<Shot>> => {
+  const groupSizes = new Map<string, number>();
+  clipboardShots.forEach(({ groupKey }) => {
+    if (groupKey) groupSizes.set(groupKey, (groupSizes.get(groupKey) ?? 0) + 1);
+  });
+  const groupIds = new Map<string, string>();
+  const getGroupId = (groupKey: string | null): string | null => {
+    if (!groupKey || (groupSizes.get(groupKey) ?? 0) < 2) return null;
+    if (!groupIds.has(groupKey)) groupIds.set(groupKey, crypto.randomUUID());
+    return groupIds.get(groupKey)!;
+  };
+
+  const fieldIdsByName = new Map(customFields.map((field) => [normalizeFieldName(field.name), field.id]));
+
+  return clipboardShots.map((clipboardShot, index) => {
+    const customFieldValues: Record<string, string> = {};
+    Object.entries(clipboardShot.customFields ?? {}).forEach(([name, value]) => {
+      const fieldId = fieldIdsByName.get(normalizeFieldName(name));
+      if (fieldId && value) customFieldValues[fieldId] = value.slice(0, MAX_CUSTOM_FIELD_VALUE_LENGTH);
+    });
+    const image = images[index];
+
+    return {
+      subShotGroupId: getGroupId(clipboardShot.groupKey),
+      actionText: clipboardShot.actionText,
+      scriptText: clipboardShot.scriptText,
+      shotSize: clipboardShot.shotSize,
+      cameraAngle: clipboardShot.cameraAngle,
+      lens: clipboardShot.lens,
+      cameraMovement: clipboardShot.cameraMovement,
+      duration: clipboardShot.duration,
+      customFieldValues: Object.keys(customFieldValues).length > 0 ? customFieldValues : undefined,
+      ...(image ?? {}),
+      imageScale: image ? clipboardShot.imageScale ?? 1 : 1,
+      imageOffsetX: image ? clipboardShot.imageOffsetX ?? 0 : 0,
+      imageOffsetY: image ? clipboardShot.imageOffsetY ?? 0 : 0,
+      imageRotation: image ? clipboardShot.imageRotation : undefined,
+      imageFlipX: image ? clipboardShot.imageFlipX : undefined,
+      imageFlipY: image ? clipboardShot.imageFlipY : undefined,
+      sketchStrokes: clipboardShot.sketchStrokes,
+      annotations: clipboardShot.annotations,
+    };
+  });
+};
@@ -0,0 +1,76 @@
+/**
+ * Keyboard focus movement between shot cards and their text fields.
+ *
+ * Cards carry `data-shot-card-id` and each editable field `data-shot-field`
+ * ("actionText", "scriptText" or "custom:<field id>"), so navigation follows
+ * whichever fields the template currently shows. Formatted text is a plain
+ * element until clicked; focusing it clicks it into edit mode.
+ */
+
+export type ShotFieldTarget = string | 'first' | 'last';
+
+export interface ShotFieldPosition {
+  shotId: string;
+  field: string | null; // Null when the card itself has focus
+}
+
+const FIELD_SELECTOR = '[data-shot-field]';
+
+// Frames to wait for a card on another page to render after switching pages
+const MAX_RENDER_WAIT_FRAMES = 10;
+
+const getShotCard = (shotId: string): HTMLElement | null =>
+  document.querySelector<HTMLElement>(`[data-shot-card-id="${CSS.escape(shotId)}"]`);
+
+export const getFocusedShotField = (): ShotFieldPosition | null => {
+  const active = document.activeElement as HTMLElement | null;
+  const card = active?.closest<HTMLElement>('[data-shot-card-id]');
+  if (!active || !card?.dataset.shotCardId) return null;
+  return {
+    shotId: card.dataset.shotCardId,
+    field: active.closest<HTMLElement>(FIELD_SELECTOR)?.dataset.shotField ?? null,
+  };
+};
+
+export const getShotFieldNames = (shotId: string): string[] =>
+  Array.from(getShotCard(shotId)?.querySelectorAll<HTMLElement>(FIELD_SELECTOR) ?? [])
+    .map((element) => element.dataset.shotField as string);
+
+/**
+ * Focuses a field of a rendered card, falling back to its first field and
+ * then the card itself. Returns false when the card isn't rendered.
+ */
+export const focusShotField = (shotId: string, target: ShotFieldTarget): boolean => {
+  const card = getShotCard(shotId);
+  if (!card) return false;
+
+  const fields = Array.from(card.querySelectorAll<HTMLElement>(FIELD_SELECTOR));
+  const field = target === 'first'
+    ? fields[0]
+    : target === 'last'
+      ? fields[fields.length - 1]
+      : fields.find((element) => element.dataset.shotField === target) ?? fields[0];
+
+  if (!field) {
+    card.focus();
+    card.scrollIntoView({ block: 'nearest' });
+    return true;
+  }
+
+  field.scrollIntoView({ block: 'nearest' });
+  if (field instanceof HTMLTextAreaElement) {
+    field.focus();
+    field.setSelectionRange(field.value.length, field.value.length);
+  } else {
+    field.click();
+  }
+  return true;
+};
+
+/**
+ * focusShotField for a card that may only render after a page switch.
+ */
+export const focusShotFieldWhenRendered = (shotId: string, target: ShotFieldTarget, attempt = 0): void => {
+  if (focusShotField(shotId, target) || attempt >= MAX_RENDER_WAIT_FRAMES) return;
+  requestAnimationFrame(() => focusShotFieldWhenRendered(shotId, target, attempt + 1));
+};
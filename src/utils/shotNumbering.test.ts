@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { Shot } from '@/store/shotStore';
+import { makeShot, toShotRecord } from '@/test/factories';
+import { applyShotNumbers } from './shotNumbering';
+
+const makeShots = (specs: Array<[id: string, overrides?: Partial<Shot>]>) =>
+  toShotRecord(specs.map(([id, overrides]) => makeShot(id, { number: '', ...overrides })));
+
+const numbersAfter = (
+  shots: Record<string, Shot>,
+  shotNumberFormat: string,
+  sceneNumberFormat?: string | null
+) => {
+  const order = Object.keys(shots);
+  applyShotNumbers(shots, order, shotNumberFormat, sceneNumberFormat);
+  return order.map((id) => shots[id].number);
+};
+
+describe('applyShotNumbers', () => {
+  it('numbers shots in order', () => {
+    expect(numbersAfter(makeShots([['a'], ['b'], ['c']]), '01')).toEqual(['01', '02', '03']);
+  });
+
+  it('letters sub-shots under one number', () => {
+    const shots = makeShots([['a'], ['b', { subShotGroupId: 'g' }], ['c', { subShotGroupId: 'g' }], ['d']]);
+    expect(numbersAfter(shots, '1')).toEqual(['1', '2a', '2b', '3']);
+  });
+
+  it('restarts the count per scene with a scene prefix', () => {
+    const shots = makeShots([['a', { sceneId: 's1' }], ['b', { sceneId: 's1' }], ['c', { sceneId: 's2' }], ['d']]);
+    expect(numbersAfter(shots, '01', 'SC01')).toEqual(['SC01-01', 'SC01-02', 'SC02-01', '01']);
+  });
+
+  it('leaves scene prefixes off without a scene number format', () => {
+    const shots = makeShots([['a', { sceneId: 's1' }], ['b', { sceneId: 's2' }]]);
+    expect(numbersAfter(shots, '01', '')).toEqual(['01', '02']);
+  });
+
+  it('places the scene through a template that uses it', () => {
+    const shots = makeShots([['a', { sceneId: 's1' }], ['b', { sceneId: 's2' }]]);
+    expect(numbersAfter(shots, '{scene}/{shot:03}', 'SC01')).toEqual(['SC01/001', 'SC02/001']);
+  });
+
+  it('keeps counting across scenes for a template without the scene token', () => {
+    const shots = makeShots([['a', { sceneId: 's1' }], ['b', { sceneId: 's2' }]]);
+    expect(numbersAfter(shots, 'Shot {shot}', 'SC01')).toEqual(['Shot 1', 'Shot 2']);
+  });
+
+  it('keeps locked numbers and skips numbers they hold', () => {
+    const shots = makeShots([['a'], ['b', { number: '03', numberLocked: true }], ['c'], ['d']]);
+    expect(numbersAfter(shots, '01')).toEqual(['01', '03', '04', '05']);
+  });
+
+  it('keeps omitted shots numbered in place', () => {
+    const shots = makeShots([['a'], ['b', { number: '05', reviewStatus: 'omitted' }], ['c']]);
+    expect(numbersAfter(shots, '01')).toEqual(['01', '05', '03']);
+  });
+
+  it('stamps renumbered shots with the update time', () => {
+    const shots = makeShots([['a']]);
+    const updatedAt = new Date(1000);
+    applyShotNumbers(shots, ['a'], '01', null, updatedAt);
+    expect(shots.a.updatedAt).toBe(updatedAt);
+  });
+});
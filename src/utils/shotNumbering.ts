@@ -0,0 +1,97 @@
+import { formatShotNumber, getSubShotLetters, isShotNumberTemplate, usesSceneToken } from './formatShotNumber';
+import { DEFAULT_SCENE_NUMBER_FORMAT, formatSceneLabel, getSceneOrdinals, getShotSceneId } from './scenes';
+import { isShotOmitted } from './shotReviewStatus';
+
+type NumberableShot = {
+  number: string;
+  subShotGroupId?: string | null;
+  sceneId?: string | null;
+  numberLocked?: boolean;
+  reviewStatus?: unknown;
+  updatedAt: Date;
+};
+
+/**
+ * Assigns display numbers in shot order. Shared by the immediate and the
+ * debounced renumbering paths so both produce identical numbers.
+ *
+ * With a scene number format set, the shot counter restarts at every scene
+ * and shots are prefixed with their scene (SC03-012). Shots outside any scene
+ * keep a plain number. A template format places the scene itself through
+ * '{scene}' and only restarts the counter when it uses that token.
+ *
+ * Locked and omitted shots keep their number. They still take their place in
+ * the count, and other shots skip over any number one of them already holds.
+ */
+export const applyShotNumbers = (
+  shots: Record<string, NumberableShot>,
+  shotOrder: string[],
+  shotNumberFormat: string,
+  sceneNumberFormat: string | null | undefined = DEFAULT_SCENE_NUMBER_FORMAT,
+  updatedAt: Date = new Date()
+): void => {
+  const useScenePrefix = typeof sceneNumberFormat === 'string' ? sceneNumberFormat.trim() !== '' : true;
+  const isTemplate = isShotNumberTemplate(shotNumberFormat);
+  const restartPerScene = useScenePrefix && (!isTemplate || usesSceneToken(shotNumberFormat));
+  const sceneOrdinals = useScenePrefix ? getSceneOrdinals(shotOrder, shots) : new Map<string, number>();
+
+  const keepsNumber = (shot: NumberableShot) => Boolean(shot.numberLocked) || isShotOmitted(shot);
+  const lockedNumbers = new Set<string>();
+  shotOrder.forEach((shotId) => {
+    const shot = shots[shotId];
+    if (shot && keepsNumber(shot) && shot.number) lockedNumbers.add(shot.number);
+  });
+
+  const buildNumber = (counter: number, subLetters: string | undefined, sceneId: string | null): string => {
+    const sceneOrdinal = sceneId ? sceneOrdinals.get(sceneId) : undefined;
+    const sceneLabel = sceneOrdinal ? formatSceneLabel(sceneOrdinal, sceneNumberFormat) : '';
+    if (isTemplate) {
+      return formatShotNumber(counter, shotNumberFormat, subLetters, sceneLabel);
+    }
+    const shotNumber = formatShotNumber(counter, shotNumberFormat, subLetters);
+    return sceneLabel ? `${sceneLabel}-${shotNumber}` : shotNumber;
+  };
+
+  let mainShotCounter = 0;
+  let subShotIndex = 0;
+
+  for (let i = 0; i < shotOrder.length; i++) {
+    const shot = shots[shotOrder[i]];
+    if (!shot) continue;
+
+    const prevShot = i > 0 ? shots[shotOrder[i - 1]] : null;
+    const sceneId = getShotSceneId(shot);
+
+    if (restartPerScene && i > 0 && sceneId !== getShotSceneId(prevShot)) {
+      mainShotCounter = 0;
+    }
+
+    const isContinuationOfSubGroup = shot.subShotGroupId && shot.subShotGroupId === prevShot?.subShotGroupId;
+
+    if (!isContinuationOfSubGroup || mainShotCounter === 0) {
+      mainShotCounter++;
+      subShotIndex = 0;
+    }
+
+    if (keepsNumber(shot)) {
+      if (shot.subShotGroupId) subShotIndex++;
+      continue;
+    }
+
+    let shotNumber = buildNumber(
+      mainShotCounter,
+      shot.subShotGroupId ? getSubShotLetters(subShotIndex++) : undefined,
+      sceneId
+    );
+    while (lockedNumbers.has(shotNumber)) {
+      if (shot.subShotGroupId) {
+        shotNumber = buildNumber(mainShotCounter, getSubShotLetters(subShotIndex++), sceneId);
+      } else {
+        shotNumber = buildNumber(++mainShotCounter, undefined, sceneId);
+      }
+    }
+
+    shot.number = shotNumber;
+    shot.updatedAt = updatedAt;
+  }
+};
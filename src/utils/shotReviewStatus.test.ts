@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getExportedShots,
+  getShotReviewStatus,
+  getShotReviewStatusBadgeStyle,
+  getShotReviewStatusOption,
+  isShotOmitted,
+} from './shotReviewStatus';
+
+describe('getShotReviewStatus', () => {
+  it('reads missing or malformed statuses as draft', () => {
+    expect(getShotReviewStatus({})).toBe('draft');
+    expect(getShotReviewStatus({ reviewStatus: 'done' })).toBe('draft');
+    expect(getShotReviewStatus({ reviewStatus: 'approved' })).toBe('approved');
+  });
+});
+
+describe('getShotReviewStatusOption', () => {
+  it('labels and colours each status', () => {
+    expect(getShotReviewStatusOption('needs-revision')).toMatchObject({ label: 'Needs Revision', color: '#ea580c' });
+    expect(getShotReviewStatusBadgeStyle('approved').backgroundColor).toBe(getShotReviewStatusOption('approved').color);
+  });
+});
+
+describe('getExportedShots', () => {
+  const shots = [{ id: 'a' }, { id: 'b', reviewStatus: 'omitted' }, { id: 'c', reviewStatus: 'approved' }];
+
+  it('drops omitted shots when they are collapsed', () => {
+    expect(getExportedShots(shots, false).map((shot) => shot.id)).toEqual(['a', 'c']);
+  });
+
+  it('keeps omitted shots when shown or unset', () => {
+    expect(getExportedShots(shots, true)).toBe(shots);
+    expect(getExportedShots(shots, undefined)).toBe(shots);
+  });
+});
+
+describe('isShotOmitted', () => {
+  it('is true only for the omitted status', () => {
+    expect(isShotOmitted({ reviewStatus: 'omitted' })).toBe(true);
+    expect(isShotOmitted({ reviewStatus: 'needs-revision' })).toBe(false);
+  });
+});
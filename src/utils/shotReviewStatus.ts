@@ -0,0 +1,99 @@
+/**
+ * Per-shot review status used for client approval rounds.
+ *
+ * Colours are fixed (not theme-driven) so a status reads the same in the
+ * editor, the offscreen PNG/print surface, the canvas renderer and the
+ * server PDF route, and matches the legend printed in the page footer.
+ */
+
+export const SHOT_REVIEW_STATUS_OPTIONS = [
+  { value: 'draft', label: 'Draft', color: '#6b7280' },
+  { value: 'in-review', label: 'In Review', color: '#2563eb' },
+  { value: 'approved', label: 'Approved', color: '#16a34a' },
+  { value: 'needs-revision', label: 'Needs Revision', color: '#ea580c' },
+  { value: 'omitted', label: 'Omitted', color: '#9f1239' },
+] as const;
+
+export type ShotReviewStatus = typeof SHOT_REVIEW_STATUS_OPTIONS[number]['value'];
+export type ShotReviewStatusOption = typeof SHOT_REVIEW_STATUS_OPTIONS[number];
+
+export const DEFAULT_SHOT_REVIEW_STATUS: ShotReviewStatus = 'draft';
+
+export const isShotReviewStatus = (value: unknown): value is ShotReviewStatus =>
+  SHOT_REVIEW_STATUS_OPTIONS.some((option) => option.value === value);
+
+/**
+ * Shots created before review status existed (or with malformed data) read as draft.
+ */
+export const getShotReviewStatus = (shot: { reviewStatus?: unknown }): ShotReviewStatus =>
+  isShotReviewStatus(shot.reviewStatus) ? shot.reviewStatus : DEFAULT_SHOT_REVIEW_STATUS;
+
+export const getShotReviewStatusOption = (status: ShotReviewStatus): ShotReviewStatusOption =>
+  SHOT_REVIEW_STATUS_OPTIONS.find((option) => option.value === status) ?? SHOT_REVIEW_STATUS_OPTIONS[0];
+
+/**
+ * Badge styling shared by ShotCard and the static PDF builder, which builds
+ * plain DOM and can't render the React badge.
+ */
+export const getShotReviewStatusBadgeStyle = (status: ShotReviewStatus) => ({
+  backgroundColor: getShotReviewStatusOption(status).color,
+  color: '#ffffff',
+  fontSize: '10px',
+  fontWeight: '600',
+  lineHeight: '16px',
+  padding: '0 6px',
+  borderRadius: '9999px',
+  whiteSpace: 'nowrap',
+} as const);
+
+/**
+ * Omitted is the production "OMITTED" convention: the shot stays in the order
+ * and keeps its number (renumbering treats it like a locked number), and the
+ * grid shows a struck-through placeholder instead of the board.
+ */
+export const OMITTED_SHOT_REVIEW_STATUS: ShotReviewStatus = 'omitted';
+
+export const OMITTED_SHOT_LABEL = 'OMITTED';
+
+export const isShotOmitted = (shot: { reviewStatus?: unknown }): boolean =>
+  getShotReviewStatus(shot) === OMITTED_SHOT_REVIEW_STATUS;
+
+/**
+ * Shots an export draws. With omitted shots collapsed they are dropped from
+ * their page; the remaining shots keep their pages and numbers.
+ */
+export const getExportedShots = <T extends { reviewStatus?: unknown }>(
+  shots: T[],
+  showOmittedShots: boolean | undefined
+): T[] => (showOmittedShots === false ? shots.filter((shot) => !isShotOmitted(shot)) : shots);
+
+/**
+ * Placeholder covering an omitted shot's board and text, shared by ShotCard and
+ * the static PDF builder. The diagonal is the strike-through.
+ */
+export const getOmittedShotPlaceholderStyle = (
+  backgroundColor: string,
+  textColor: string,
+  borderRadius: number
+) => ({
+  position: 'absolute',
+  inset: '0',
+  zIndex: '5',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  backgroundColor,
+  backgroundImage: `linear-gradient(to top right, transparent calc(50% - 1px), ${textColor} 50%, transparent calc(50% + 1px))`,
+  border: `1px dashed ${textColor}`,
+  borderRadius: `${borderRadius}px`,
+  color: textColor,
+  fontSize: '14px',
+  fontWeight: '700',
+  letterSpacing: '0.2em',
+} as const);
+
+export const getOmittedShotLabelStyle = (backgroundColor: string) => ({
+  backgroundColor,
+  padding: '2px 8px',
+  textDecoration: 'line-through',
+} as const);
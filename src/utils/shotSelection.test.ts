@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  expandToWholeGroups,
+  getShotSelectionRange,
+  orderShotIds,
+  planShotGrouping,
+  planShotSelectionMove,
+  planShotSelectionMoveToPage,
+  planShotUngrouping,
+} from './shotSelection';
+
+// a, [b c], d, [e f]: b and e are the group parents
+const shotOrder = ['a', 'b', 'c', 'd', 'e', 'f'];
+const shots = {
+  a: { subShotGroupId: null },
+  b: { subShotGroupId: 'g1' },
+  c: { subShotGroupId: 'g1' },
+  d: { subShotGroupId: null },
+  e: { subShotGroupId: 'g2' },
+  f: { subShotGroupId: 'g2' },
+};
+
+describe('orderShotIds', () => {
+  it('sorts into board order and drops unknown IDs', () => {
+    expect(orderShotIds(shotOrder, ['d', 'missing', 'a'])).toEqual(['a', 'd']);
+  });
+});
+
+describe('getShotSelectionRange', () => {
+  it('selects everything between the anchor and the clicked shot', () => {
+    expect(getShotSelectionRange(shotOrder, 'd', 'b')).toEqual(['b', 'c', 'd']);
+  });
+
+  it('falls back to the clicked shot without an anchor on the board', () => {
+    expect(getShotSelectionRange(shotOrder, null, 'b')).toEqual(['b']);
+    expect(getShotSelectionRange(shotOrder, 'missing', 'b')).toEqual(['b']);
+    expect(getShotSelectionRange(shotOrder, 'a', 'missing')).toEqual([]);
+  });
+});
+
+describe('expandToWholeGroups', () => {
+  it('brings the whole group along with its parent only', () => {
+    expect(expandToWholeGroups(shotOrder, shots, ['b'])).toEqual(['b', 'c']);
+    expect(expandToWholeGroups(shotOrder, shots, ['c'])).toEqual(['c']);
+  });
+});
+
+describe('planShotSelectionMove', () => {
+  it('moves a group with its parent', () => {
+    expect(planShotSelectionMove(shotOrder, shots, ['b'], 'd')).toEqual({
+      shotOrder: ['a', 'd', 'b', 'c', 'e', 'f'],
+      groupUpdates: {},
+    });
+  });
+
+  it('never lands between two shots of another group', () => {
+    expect(planShotSelectionMove(shotOrder, shots, ['a'], 'e')?.shotOrder).toEqual(['b', 'c', 'd', 'e', 'f', 'a']);
+  });
+
+  it('takes a sub-shot out of its group and dissolves what is left', () => {
+    expect(planShotSelectionMove(shotOrder, shots, ['c'], 'a')).toEqual({
+      shotOrder: ['c', 'a', 'b', 'd', 'e', 'f'],
+      groupUpdates: { b: null, c: null },
+    });
+  });
+
+  it('ignores drops onto the selection', () => {
+    expect(planShotSelectionMove(shotOrder, shots, ['b'], 'c')).toBeNull();
+  });
+});
+
+describe('planShotSelectionMoveToPage', () => {
+  it('moves the selection to the page start', () => {
+    expect(planShotSelectionMoveToPage(shotOrder, shots, ['f'], 0)).toEqual({
+      shotOrder: ['f', 'a', 'b', 'c', 'd', 'e'],
+      groupUpdates: { e: null, f: null },
+    });
+  });
+
+  it('steps past a group that straddles the page start', () => {
+    expect(planShotSelectionMoveToPage(shotOrder, shots, ['a'], 1)?.shotOrder).toEqual(['b', 'c', 'a', 'd', 'e', 'f']);
+  });
+});
+
+describe('planShotGrouping', () => {
+  it('gathers the selection where its first shot sits', () => {
+    expect(planShotGrouping(shotOrder, shots, ['d', 'a'], 'g3')).toEqual({
+      shotOrder: ['a', 'd', 'b', 'c', 'e', 'f'],
+      groupUpdates: { a: 'g3', d: 'g3' },
+    });
+  });
+
+  it('dissolves groups left with one shot', () => {
+    expect(planShotGrouping(shotOrder, shots, ['c', 'e'], 'g3')).toEqual({
+      shotOrder: ['a', 'b', 'c', 'e', 'd', 'f'],
+      groupUpdates: { b: null, c: 'g3', e: 'g3', f: null },
+    });
+  });
+
+  it('needs at least two shots', () => {
+    expect(planShotGrouping(shotOrder, shots, ['a'], 'g3')).toBeNull();
+  });
+});
+
+describe('planShotUngrouping', () => {
+  it('ungroups the selection and dissolves what is left', () => {
+    expect(planShotUngrouping(shotOrder, shots, ['c', 'a'])).toEqual({ b: null, c: null });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Multi-shot selection and the order/group changes of bulk actions.
+ *
+ * Bulk moves keep sub-shot groups intact: a selected group parent (the first
+ * shot of its group) brings the whole group along, a sub-shot moved without
+ * the rest of its group leaves it, and a moved block never lands between two
+ * shots of another group. Groups left with a single shot dissolve, as they do
+ * when a sub-shot is deleted.
+ */
+
+type ShotGroupLookup = Record<string, { subShotGroupId: string | null } | undefined>;
+
+export interface ShotOrderPlan {
+  shotOrder: string[];
+  groupUpdates: Record<string, string | null>; // Shot ID -> new subShotGroupId
+}
+
+const getGroupId = (shots: ShotGroupLookup, shotId: string): string | null =>
+  shots[shotId]?.subShotGroupId ?? null;
+
+/**
+ * The given IDs in board order, without IDs that are no longer in the board.
+ */
+export const orderShotIds = (shotOrder: string[], shotIds: Iterable<string>): string[] => {
+  const ids = new Set(shotIds);
+  return shotOrder.filter((shotId) => ids.has(shotId));
+};
+
+/**
+ * Every shot between the anchor and the clicked shot, inclusive, for
+ * shift-click. Without an anchor on the board only the clicked shot is picked.
+ */
+export const getShotSelectionRange = (shotOrder: string[], anchorId: string | null, shotId: string): string[] => {
+  const start = anchorId ? shotOrder.indexOf(anchorId) : -1;
+  const end = shotOrder.indexOf(shotId);
+  if (end === -1) return [];
+  if (start === -1) return [shotId];
+  return shotOrder.slice(Math.min(start, end), Math.max(start, end) + 1);
+};
+
+/**
+ * Adds the rest of the group for every selected group parent.
+ */
+export const expandToWholeGroups = (shotOrder: string[], shots: ShotGroupLookup, shotIds: string[]): string[] => {
+  const selected = new Set(shotIds);
+  const parentGroups = new Set<string>();
+  const seenGroups = new Set<string>();
+
+  shotOrder.forEach((shotId) => {
+    const groupId = getGroupId(shots, shotId);
+    if (!groupId || seenGroups.has(groupId)) return;
+    seenGroups.add(groupId);
+    if (selected.has(shotId)) parentGroups.add(groupId);
+  });
+
+  return shotOrder.filter((shotId) => {
+    const groupId = getGroupId(shots, shotId);
+    return selected.has(shotId) || (groupId !== null && parentGroups.has(groupId));
+  });
+};
+
+// Steps an insertion index out of the middle of a sub-shot group
+const nudgeOutOfGroup = (order: string[], shots: ShotGroupLookup, index: number, forward: boolean): number => {
+  const splitsGroup = (position: number) => {
+    if (position <= 0 || position >= order.length) return false;
+    const groupId = getGroupId(shots, order[position - 1]);
+    return groupId !== null && groupId === getGroupId(shots, order[position]);
+  };
+
+  let position = index;
+  while (splitsGroup(position)) {
+    position += forward ? 1 : -1;
+  }
+  return position;
+};
+
+// Group changes that dissolve every group left with one shot
+const withSingleShotGroupsDissolved = (
+  shotOrder: string[],
+  shots: ShotGroupLookup,
+  groupUpdates: Record<string, string | null>
+): Record<string, string | null> => {
+  const nextGroupId = (shotId: string) => (shotId in groupUpdates ? groupUpdates[shotId] : getGroupId(shots, shotId));
+  const members = new Map<string, string[]>();
+  shotOrder.forEach((shotId) => {
+    const groupId = nextGroupId(shotId);
+    if (groupId) members.set(groupId, [...(members.get(groupId) ?? []), shotId]);
+  });
+
+  const updates = { ...groupUpdates };
+  members.forEach((shotIds) => {
+    if (shotIds.length === 1) updates[shotIds[0]] = null;
+  });
+
+  return Object.fromEntries(
+    Object.entries(updates).filter(([shotId, groupId]) => groupId !== getGroupId(shots, shotId))
+  );
+};
+
+// Inserts a block and takes its sub-shots out of groups it only partly contains
+const placeBlock = (
+  shotOrder: string[],
+  shots: ShotGroupLookup,
+  block: string[],
+  remaining: string[],
+  index: number
+): ShotOrderPlan => {
+  const nextOrder = [...remaining];
+  nextOrder.splice(index, 0, ...block);
+
+  const blockIds = new Set(block);
+  const groupUpdates: Record<string, string | null> = {};
+  block.forEach((shotId) => {
+    const groupId = getGroupId(shots, shotId);
+    if (!groupId) return;
+    const leavesGroupBehind = shotOrder.some(
+      (otherId) => !blockIds.has(otherId) && getGroupId(shots, otherId) === groupId
+    );
+    if (leavesGroupBehind) groupUpdates[shotId] = null;
+  });
+
+  return {
+    shotOrder: nextOrder,
+    groupUpdates: withSingleShotGroupsDissolved(nextOrder, shots, groupUpdates),
+  };
+};
+
+/**
+ * Drag-and-drop of a selection onto another shot. Like a single-shot drag, the
+ * block lands after the target when moving down the board and before it when
+ * moving up. Returns null when the drop changes nothing.
+ */
+export const planShotSelectionMove = (
+  shotOrder: string[],
+  shots: ShotGroupLookup,
+  shotIds: string[],
+  overShotId: string
+): ShotOrderPlan | null => {
+  const block = expandToWholeGroups(shotOrder, shots, shotIds);
+  if (block.length === 0 || block.includes(overShotId)) return null;
+
+  const blockIds = new Set(block);
+  const remaining = shotOrder.filter((shotId) => !blockIds.has(shotId));
+  const overIndex = remaining.indexOf(overShotId);
+  if (overIndex === -1) return null;
+
+  const movingDown = shotOrder.indexOf(overShotId) > shotOrder.indexOf(block[0]);
+  const index = nudgeOutOfGroup(remaining, shots, overIndex + (movingDown ? 1 : 0), movingDown);
+  return placeBlock(shotOrder, shots, block, remaining, index);
+};
+
+/**
+ * Moves a selection to the top of a page. `pageStartIndex` is the board index
+ * the page starts at (the number of shots on the pages before it); shots
+ * leaving earlier pages pull the rest back, so the block goes to that index
+ * rather than before the page's current first shot.
+ */
+export const planShotSelectionMoveToPage = (
+  shotOrder: string[],
+  shots: ShotGroupLookup,
+  shotIds: string[],
+  pageStartIndex: number
+): ShotOrderPlan | null => {
+  const block = expandToWholeGroups(shotOrder, shots, shotIds);
+  if (block.length === 0) return null;
+
+  const blockIds = new Set(block);
+  const remaining = shotOrder.filter((shotId) => !blockIds.has(shotId));
+  const index = nudgeOutOfGroup(remaining, shots, Math.min(Math.max(pageStartIndex, 0), remaining.length), true);
+  return placeBlock(shotOrder, shots, block, remaining, index);
+};
+
+/**
+ * Gathers the selected shots into one new sub-shot group where the first of
+ * them sits. Needs at least two shots.
+ */
+export const planShotGrouping = (
+  shotOrder: string[],
+  shots: ShotGroupLookup,
+  shotIds: string[],
+  groupId: string
+): ShotOrderPlan | null => {
+  const block = orderShotIds(shotOrder, shotIds);
+  if (block.length < 2) return null;
+
+  const blockIds = new Set(block);
+  const firstIndex = shotOrder.indexOf(block[0]);
+  const remaining = shotOrder.filter((shotId) => !blockIds.has(shotId));
+  const index = nudgeOutOfGroup(
+    remaining,
+    shots,
+    shotOrder.slice(0, firstIndex).filter((shotId) => !blockIds.has(shotId)).length,
+    false
+  );
+
+  const nextOrder = [...remaining];
+  nextOrder.splice(index, 0, ...block);
+  const groupUpdates = Object.fromEntries(block.map((shotId) => [shotId, groupId]));
+
+  return {
+    shotOrder: nextOrder,
+    groupUpdates: withSingleShotGroupsDissolved(nextOrder, shots, groupUpdates),
+  };
+};
+
+/**
+ * Takes the selected shots out of their sub-shot groups.
+ */
+export const planShotUngrouping = (
+  shotOrder: string[],
+  shots: ShotGroupLookup,
+  shotIds: string[]
+): Record<string, string | null> => {
+  const groupUpdates = Object.fromEntries(
+    orderShotIds(shotOrder, shotIds)
+      .filter((shotId) => getGroupId(shots, shotId) !== null)
+      .map((shotId) => [shotId, null])
+  );
+  return withSingleShotGroupsDissolved(shotOrder, shots, groupUpdates);
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { serializeShotForStorage, serializeShotsForStorage } from './shotSerialization';
+
+describe('serializeShotForStorage', () => {
+  it('keeps known review statuses', () => {
+    expect(serializeShotForStorage({ id: 'a', reviewStatus: 'approved' }).reviewStatus).toBe('approved');
+  });
+
+  it('drops unknown review statuses so they load back as draft', () => {
+    const serialized = serializeShotForStorage({ id: 'a', reviewStatus: 'done' });
+    expect('reviewStatus' in serialized).toBe(false);
+  });
+
+  it('stores URL-backed takes without their base64 copy', () => {
+    const serialized = serializeShotForStorage({
+      id: 'a',
+      imageTakes: [
+        { imageUrl: 'https://cdn/one.png', imageData: 'data:image/png;base64,AAAA' },
+        { imageData: 'data:image/png;base64,BBBB' },
+      ],
+    });
+
+    expect(serialized.imageTakes).toEqual([
+      { imageUrl: 'https://cdn/one.png' },
+      { imageData: 'data:image/png;base64,BBBB' },
+    ]);
+  });
+});
+
+describe('serializeShotsForStorage', () => {
+  it('serializes every shot by id', () => {
+    expect(serializeShotsForStorage({ a: { id: 'a', reviewStatus: 42 } })).toEqual({ a: { id: 'a', imageFile: null } });
+  });
+});
@@ -1,7 +1,11 @@
+import { isShotReviewStatus } from '@/utils/shotReviewStatus';
+
 type PersistableShot = Record<string, any> & {
   imageFile?: File | null;
   imageData?: string;
   imageUrl?: string | null;
+  reviewStatus?: unknown;
+  imageTakes?: Array<{ imageData?: string; imageUrl?: string }>;
 };
 
 /**
@@ -9,6 +13,7 @@ type PersistableShot = Record<string, any> & {
  *
  * Active in-memory state may keep both imageData and imageUrl for editing/export
  * immediacy, but localStorage should not duplicate URL-backed images as base64.
+ * Unknown review statuses are dropped so they load back as draft.
  */
 export const serializeShotForStorage = <T extends PersistableShot>(shot: T): T => {
   const serializedShot = {
@@ -20,6 +25,18 @@ export const serializeShotForStorage = <T extends PersistableShot>(shot: T): T =
     delete serializedShot.imageData;
   }
 
+  if (Array.isArray(serializedShot.imageTakes)) {
+    serializedShot.imageTakes = serializedShot.imageTakes.map((take) => {
+      if (!take.imageUrl || !take.imageData) return take;
+      const { imageData: _imageData, ...urlBackedTake } = take;
+      return urlBackedTake;
+    });
+  }
+
+  if ('reviewStatus' in serializedShot && !isShotReviewStatus(serializedShot.reviewStatus)) {
+    delete serializedShot.reviewStatus;
+  }
+
   return serializedShot;
 };
 
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendSketchPoint,
+  getSketchMaskId,
+  getSketchPathData,
+  getSketchRuns,
+  getSketchStrokes,
+  hasSketch,
+  type SketchStroke,
+} from './sketch';
+
+const makeStroke = (id: string, overrides: Partial<SketchStroke> = {}): SketchStroke => ({
+  id,
+  tool: 'pen',
+  color: '#111827',
+  size: 0.01,
+  points: [0.1, 0.1, 0.5, 0.5],
+  ...overrides,
+});
+
+describe('getSketchStrokes', () => {
+  it('skips malformed strokes', () => {
+    const valid = makeStroke('a');
+    const shot = {
+      sketchStrokes: [
+        valid,
+        makeStroke('odd', { points: [0.1, 0.2, 0.3] }),
+        makeStroke('color', { color: 'red' }),
+        makeStroke('size', { size: 1 }),
+        null,
+      ],
+    };
+
+    expect(getSketchStrokes(shot)).toEqual([valid]);
+    expect(getSketchStrokes({ sketchStrokes: 'nope' })).toEqual([]);
+  });
+});
+
+describe('hasSketch', () => {
+  it('needs at least one pen stroke', () => {
+    expect(hasSketch({ sketchStrokes: [makeStroke('e', { tool: 'eraser' })] })).toBe(false);
+    expect(hasSketch({ sketchStrokes: [makeStroke('p')] })).toBe(true);
+  });
+});
+
+describe('appendSketchPoint', () => {
+  it('clamps points to the frame', () => {
+    expect(appendSketchPoint([], -0.5, 1.5)).toEqual([0, 1]);
+  });
+
+  it('drops jitter below the minimum spacing', () => {
+    const points = [0.5, 0.5];
+    expect(appendSketchPoint(points, 0.5005, 0.5)).toBe(points);
+    expect(appendSketchPoint(points, 0.6, 0.5)).toEqual([0.5, 0.5, 0.6, 0.5]);
+  });
+});
+
+describe('getSketchRuns', () => {
+  it('groups consecutive strokes by tool', () => {
+    const strokes = [
+      makeStroke('a'),
+      makeStroke('b'),
+      makeStroke('c', { tool: 'eraser' }),
+      makeStroke('d'),
+    ];
+
+    expect(getSketchRuns(strokes).map((run) => [run.tool, run.strokes.map((stroke) => stroke.id)])).toEqual([
+      ['pen', ['a', 'b']],
+      ['eraser', ['c']],
+      ['pen', ['d']],
+    ]);
+  });
+});
+
+describe('getSketchPathData', () => {
+  it('scales points to the frame', () => {
+    expect(getSketchPathData(makeStroke('a'), 200, 100)).toBe('M20 10 L100 50');
+  });
+
+  it('draws a single point as a dot', () => {
+    expect(getSketchPathData(makeStroke('a', { points: [0.5, 0.5] }), 200, 100)).toBe('M100 50 L100 50');
+  });
+});
+
+describe('getSketchMaskId', () => {
+  it('keeps ids safe for url() references', () => {
+    expect(getSketchMaskId('shot:1 (copy)', 2)).toBe('shot1copy-sketch-mask-2');
+  });
+});
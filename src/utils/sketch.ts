@@ -0,0 +1,223 @@
+/**
+ * Freehand sketch layer drawn over a shot's image frame.
+ *
+ * Strokes are vector data in frame space: points run 0-1 across the frame
+ * and widths are a share of the frame width, so a sketch renders the same at
+ * any card, export or video size. The layer sits above the image and ignores
+ * the image's zoom/pan. Eraser strokes only clear earlier sketch strokes,
+ * never the image underneath.
+ */
+
+export type SketchTool = 'pen' | 'eraser';
+
+export interface SketchStroke {
+  id: string;
+  tool: SketchTool;
+  color: string;      // Hex; unused by the eraser
+  size: number;       // Stroke width as a share of the frame width
+  points: number[];   // Flat [x, y, x, y, ...] pairs, 0-1 across the frame
+}
+
+export interface SketchBrushSize {
+  label: string;
+  value: number;
+}
+
+export interface SketchRun {
+  tool: SketchTool;
+  strokes: SketchStroke[];
+}
+
+type SketchShot = { sketchStrokes?: unknown };
+
+export const SKETCH_COLORS = [
+  '#111827',
+  '#ffffff',
+  '#ef4444',
+  '#f59e0b',
+  '#22c55e',
+  '#3b82f6',
+  '#a855f7',
+] as const;
+
+export const SKETCH_BRUSH_SIZES: SketchBrushSize[] = [
+  { label: 'Fine', value: 0.004 },
+  { label: 'Medium', value: 0.01 },
+  { label: 'Bold', value: 0.02 },
+  { label: 'Marker', value: 0.04 },
+];
+
+export const DEFAULT_SKETCH_COLOR = SKETCH_COLORS[0];
+export const DEFAULT_SKETCH_BRUSH_SIZE = SKETCH_BRUSH_SIZES[1].value;
+
+const MAX_SKETCH_BRUSH_SIZE = 0.2;
+// Points closer than this (as a share of the frame) are dropped while drawing
+const MIN_POINT_DISTANCE = 0.002;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const isSketchColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+
+export const isSketchStroke = (value: unknown): value is SketchStroke => {
+  if (typeof value !== 'object' || value === null) return false;
+  const stroke = value as Record<string, unknown>;
+  return (
+    typeof stroke.id === 'string' &&
+    (stroke.tool === 'pen' || stroke.tool === 'eraser') &&
+    isSketchColor(stroke.color) &&
+    isFiniteNumber(stroke.size) &&
+    stroke.size > 0 &&
+    stroke.size <= MAX_SKETCH_BRUSH_SIZE &&
+    Array.isArray(stroke.points) &&
+    stroke.points.length >= 2 &&
+    stroke.points.length % 2 === 0 &&
+    stroke.points.every(isFiniteNumber)
+  );
+};
+
+export const isSketchStrokeList = (value: unknown): value is SketchStroke[] =>
+  Array.isArray(value) && value.every(isSketchStroke);
+
+/**
+ * A shot's valid strokes in drawing order. Anything malformed is skipped so a
+ * bad stroke can't break rendering or the export markup.
+ */
+export const getSketchStrokes = (shot: SketchShot | null | undefined): SketchStroke[] =>
+  Array.isArray(shot?.sketchStrokes) ? shot.sketchStrokes.filter(isSketchStroke) : [];
+
+export const hasSketch = (shot: SketchShot | null | undefined): boolean =>
+  getSketchStrokes(shot).some((stroke) => stroke.tool === 'pen');
+
+/**
+ * Adds a point to an in-progress stroke, skipping jitter below the minimum
+ * spacing. Returns the same array when the point was dropped.
+ */
+export const appendSketchPoint = (points: number[], x: number, y: number): number[] => {
+  const clampedX = Math.min(1, Math.max(0, x));
+  const clampedY = Math.min(1, Math.max(0, y));
+  if (points.length >= 2) {
+    const lastX = points[points.length - 2];
+    const lastY = points[points.length - 1];
+    if (Math.hypot(clampedX - lastX, clampedY - lastY) < MIN_POINT_DISTANCE) {
+      return points;
+    }
+  }
+  return [...points, clampedX, clampedY];
+};
+
+/**
+ * Consecutive strokes with the same tool. Each eraser run clears the pen
+ * strokes drawn before it, which is how both renderers layer the sketch.
+ */
+export const getSketchRuns = (strokes: SketchStroke[]): SketchRun[] => {
+  const runs: SketchRun[] = [];
+  strokes.forEach((stroke) => {
+    const lastRun = runs[runs.length - 1];
+    if (lastRun && lastRun.tool === stroke.tool) {
+      lastRun.strokes.push(stroke);
+    } else {
+      runs.push({ tool: stroke.tool, strokes: [stroke] });
+    }
+  });
+  return runs;
+};
+
+const roundCoordinate = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * SVG path data for a stroke in a width x height frame. A single point still
+ * draws a dot thanks to the round line cap.
+ */
+export const getSketchPathData = (stroke: SketchStroke, width: number, height: number): string => {
+  const commands: string[] = [];
+  for (let i = 0; i < stroke.points.length; i += 2) {
+    const x = roundCoordinate(stroke.points[i] * width);
+    const y = roundCoordinate(stroke.points[i + 1] * height);
+    commands.push(`${i === 0 ? 'M' : 'L'}${x} ${y}`);
+  }
+  if (commands.length === 1) {
+    commands.push(commands[0].replace('M', 'L'));
+  }
+  return commands.join(' ');
+};
+
+export const getSketchStrokeWidth = (stroke: SketchStroke, width: number): number =>
+  Math.max(0.5, stroke.size * width);
+
+// Mask ids end up in url(#...) references, so keep them to plain characters
+export const getSketchMaskId = (idPrefix: string, runIndex: number): string =>
+  `${idPrefix.replace(/[^\w-]/g, '')}-sketch-mask-${runIndex}`;
+
+/**
+ * Standalone SVG markup for the static PDF builder, which builds plain DOM and
+ * can't render the React sketch layer. Mirrors ShotSketchLayer.
+ */
+export const getSketchSvgMarkup = (
+  strokes: SketchStroke[],
+  width: number,
+  height: number,
+  idPrefix: string
+): string => {
+  const pathMarkup = (stroke: SketchStroke, color: string) =>
+    `<path d="${getSketchPathData(stroke, width, height)}" fill="none" stroke="${color}" ` +
+    `stroke-width="${getSketchStrokeWidth(stroke, width)}" stroke-linecap="round" stroke-linejoin="round"/>`;
+
+  let defs = '';
+  let content = '';
+  getSketchRuns(strokes).forEach((run, runIndex) => {
+    if (run.tool === 'pen') {
+      content += run.strokes.map((stroke) => pathMarkup(stroke, stroke.color)).join('');
+      return;
+    }
+    const maskId = getSketchMaskId(idPrefix, runIndex);
+    defs += `<mask id="${maskId}" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">` +
+      `<rect width="${width}" height="${height}" fill="white"/>` +
+      run.strokes.map((stroke) => pathMarkup(stroke, 'black')).join('') +
+      '</mask>';
+    content = `<g mask="url(#${maskId})">${content}</g>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="0 0 ${width} ${height}" style="position:absolute;inset:0;pointer-events:none">` +
+    `<defs>${defs}</defs>${content}</svg>`;
+};
+
+/**
+ * Draws the sketch into a canvas box for the canvas and video exports. The
+ * strokes go through their own layer so the eraser can't punch through the
+ * image below.
+ */
+export const drawSketchOnCanvas = (
+  ctx: CanvasRenderingContext2D,
+  strokes: SketchStroke[],
+  box: { x: number; y: number; width: number; height: number }
+): void => {
+  if (strokes.length === 0 || box.width <= 0 || box.height <= 0) return;
+
+  const layer = document.createElement('canvas');
+  layer.width = Math.ceil(box.width);
+  layer.height = Math.ceil(box.height);
+  const layerCtx = layer.getContext('2d');
+  if (!layerCtx) return;
+
+  layerCtx.lineCap = 'round';
+  layerCtx.lineJoin = 'round';
+  strokes.forEach((stroke) => {
+    layerCtx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+    layerCtx.strokeStyle = stroke.tool === 'eraser' ? '#000000' : stroke.color;
+    layerCtx.lineWidth = getSketchStrokeWidth(stroke, layer.width);
+    layerCtx.beginPath();
+    layerCtx.moveTo(stroke.points[0] * layer.width, stroke.points[1] * layer.height);
+    for (let i = 2; i < stroke.points.length; i += 2) {
+      layerCtx.lineTo(stroke.points[i] * layer.width, stroke.points[i + 1] * layer.height);
+    }
+    if (stroke.points.length === 2) {
+      layerCtx.lineTo(stroke.points[0] * layer.width, stroke.points[1] * layer.height);
+    }
+    layerCtx.stroke();
+  });
+
+  ctx.drawImage(layer, box.x, box.y, box.width, box.height);
+};
@@ -1,5 +1,12 @@
 import type { StoryboardTheme } from '@/styles/storyboardTheme';
-import type { PageSizeMode } from '@/utils/pageSize';
+import type { CustomPageSize, FixedPageSizeMode, PageSizeMode, PrintLayoutOptions } from '@/utils/pageSize';
+import type { ShotCameraDetails } from '@/utils/cameraDetails';
+import type { ShotReviewStatus } from '@/utils/shotReviewStatus';
+import type { SketchStroke } from '@/utils/sketch';
+import type { ShotAnnotation } from '@/utils/annotations';
+import type { CustomFieldEntry, CustomFieldValues, CustomShotField } from '@/utils/customFields';
+import type { HeaderField, HeaderFieldEntry, HeaderLayout, LogoPlacement } from '@/utils/headerLayout';
+import type { PageFooterContent, PageNumberFormat } from '@/utils/pageFooter';
 
 // Core export data types
 export interface Rectangle {
@@ -50,6 +57,8 @@ export interface ExportHeader {
   clientAgency: string;
   jobInfo: string;
   logoImageData?: ImageData | HTMLImageElement;
+  headerLayout?: HeaderLayout;
+  headerFields?: HeaderFieldEntry[]; // Filled visible fields, in display order
   templateSettings: {
     showLogo: boolean;
     showProjectName: boolean;
@@ -58,6 +67,8 @@ export interface ExportHeader {
     showJobInfo: boolean;
     showActionText: boolean;
     showScriptText: boolean;
+    showCameraDetails?: boolean;
+    showReviewStatus?: boolean;
     showPageNumber: boolean;
   };
 }
@@ -68,10 +79,18 @@ export interface ExportShot {
   imageData?: ImageData | HTMLImageElement;
   actionText: string;
   scriptText: string;
+  camera?: ShotCameraDetails;
+  reviewStatus?: ShotReviewStatus;
   bounds: Rectangle;
   imageScale?: number;
   imageOffsetX?: number;
   imageOffsetY?: number;
+  imageRotation?: number;
+  imageFlipX?: boolean;
+  imageFlipY?: boolean;
+  sketchStrokes?: SketchStroke[];
+  annotations?: ShotAnnotation[];
+  customFields?: CustomFieldEntry[]; // Filled visible fields, in display order
   templateSettings?: {
     showLogo: boolean;
     showProjectName: boolean;
@@ -80,6 +99,8 @@ export interface ExportShot {
     showJobInfo: boolean;
     showActionText: boolean;
     showScriptText: boolean;
+    showCameraDetails?: boolean;
+    showReviewStatus?: boolean;
     showPageNumber: boolean;
   };
 }
@@ -101,7 +122,14 @@ export interface ExportStoryboardPage {
 }
 
 // Server-side PDF payload types
-export type ServerPDFPaperSize = 'letter' | 'canvas' | 'letter-portrait' | 'letter-landscape';
+// 'letter' is the legacy landscape Letter value; fixed page sizes use their page size mode
+export type ServerPDFPaperSize = 'letter' | 'canvas' | FixedPageSizeMode;
+
+// Resolved sheet size, so the PDF route doesn't need the page size table
+export interface ServerPDFPaperDimensions {
+  widthInches: number;
+  heightInches: number;
+}
 
 export interface ExportTemplateVisibility {
   showLogo: boolean;
@@ -111,7 +139,15 @@ export interface ExportTemplateVisibility {
   showJobInfo: boolean;
   showActionText: boolean;
   showScriptText: boolean;
+  showCameraDetails?: boolean; // Optional so payloads from older clients stay valid
+  showReviewStatus?: boolean;
+  showOmittedShots?: boolean; // false collapses omitted shots out of the page
   showPageNumber: boolean;
+  pageNumberFormat?: PageNumberFormat; // Older clients send none, which prints "Page 3"
+  customFields?: CustomShotField[]; // Omitted by older clients
+  headerLayout?: HeaderLayout; // Older clients send neither, which renders the split header
+  logoPlacement?: LogoPlacement;
+  headerFields?: HeaderField[];
 }
 
 export type NormalizedExportImageSource =
@@ -137,10 +173,25 @@ export interface ServerPDFShotContent {
   number: string;
   actionText: string;
   scriptText: string;
+  camera?: ShotCameraDetails;
+  reviewStatus?: ShotReviewStatus;
   image: NormalizedExportImageSource | null;
   imageScale: number;
   imageOffsetX: number;
   imageOffsetY: number;
+  imageRotation: number;
+  imageFlipX: boolean;
+  imageFlipY: boolean;
+  sketch?: SketchStroke[]; // Omitted when the shot has no sketch
+  annotations?: ShotAnnotation[]; // Omitted when the shot has no annotations
+  customFieldValues?: CustomFieldValues; // Omitted when every custom field is empty
+}
+
+export interface ServerPDFSceneHeader {
+  shotId: string; // Header renders above this shot
+  label: string;
+  name: string;
+  continued: boolean;
 }
 
 export interface ServerPDFPageContent {
@@ -151,18 +202,43 @@ export interface ServerPDFPageContent {
   gridCols: number;
   aspectRatio: string;
   shots: ServerPDFShotContent[];
+  sceneHeaders?: ServerPDFSceneHeader[];
+}
+
+export interface ServerPDFContentsEntry {
+  name: string;
+  pageNumber: number;
+  shotRange: string; // Empty when the page has no exported shots
+}
+
+export interface ServerPDFFrontMatter {
+  cover: boolean;
+  date: string; // Formatted by the client so every render shows the same text
+  contents: ServerPDFContentsEntry[][]; // One entry list per contents page; empty when off
 }
 
+// Generated pages render ahead of the storyboard pages
+export type ServerPDFGeneratedPage =
+  | { kind: 'cover' }
+  | { kind: 'contents'; sheetIndex: number };
+
 export interface ServerPDFExportPayload {
   schemaVersion: 1;
   filename: string;
   paperSize: ServerPDFPaperSize;
   pageSizeMode?: PageSizeMode;
+  customPageSize?: CustomPageSize; // Set in 'custom' mode
+  paperDimensions?: ServerPDFPaperDimensions; // Set for every fixed page size
+  print?: PrintLayoutOptions; // Margins, bleed and marks; fixed page sizes only
   template: ExportTemplateVisibility;
   theme: StoryboardTheme;
   project: ServerPDFProjectContent;
   page: ServerPDFPageContent;
   pages?: ServerPDFPageContent[];
+  frontMatter?: ServerPDFFrontMatter;
+  footer?: PageFooterContent; // Omitted when the footer has no text, date or revision
+  pageCount?: number; // Storyboard pages in the project, for "3 / 12" page numbers
+  generatedPage?: ServerPDFGeneratedPage; // Set per render when the page is a cover or contents page
   debug?: Record<string, unknown>;
 }
 
@@ -177,6 +253,16 @@ export interface ExportOptions {
   includeGrid?: boolean;
 }
 
+export type VideoResolution = '720p' | '1080p';
+
+export interface VideoExportOptions {
+  resolution: VideoResolution;
+  fps: number;
+  burnInShotNumbers: boolean;
+  burnInCaptions: boolean; // Script text as a subtitle-style caption
+  backgroundColor: string;
+}
+
 export interface ExportSettings {
   targetWidth: number;
   scale: number;